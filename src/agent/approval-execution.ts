@@ -45,6 +45,8 @@ const PARALLEL_SAFE_TOOLS = new Set([
   "ViewImage",
   "Grep",
   "Glob",
+  "WebFetch",
+  "LSP",
 
   // === Codex/OpenAI toolset ===
   // snake_case variants
@@ -0,0 +1,185 @@
+/**
+ * Offline replay of a recorded cassette (see cassette.ts).
+ *
+ * Each recorded turn is sent through sendMessageStream with an API client
+ * answered by the cassette's stub fetch, and drained into a single
+ * accumulator. Approvals the chunks request go through the current
+ * permission rules and hooks; tools that get through return their recorded
+ * output without running. The replay shows whether the same tools are still
+ * called with the same arguments and whether the accumulator still produces
+ * the recorded transcript.
+ */
+
+import { createBuffers } from "../cli/helpers/accumulator";
+import { classifyApprovals } from "../cli/helpers/approvalClassification";
+import { drainStream } from "../cli/helpers/stream";
+import type { PermissionModeState } from "../tools/manager";
+import {
+  type ApprovalDecision,
+  executeApprovalBatch,
+} from "./approval-execution";
+import {
+  applyCassetteToolCall,
+  type Cassette,
+  type CassetteToolCall,
+  getCassetteTranscript,
+  startCassetteReplay,
+  stopCassetteReplay,
+} from "./cassette";
+import { getStreamToolContextId, sendMessageStream } from "./message";
+
+export interface CassetteReplayOptions {
+  workingDirectory?: string;
+  permissionModeState?: PermissionModeState;
+  /** Also require identical tool return text (default: name, args and status only) */
+  compareToolReturns?: boolean;
+}
+
+export interface CassetteReplayResult {
+  /** Accumulator transcript produced by the replay */
+  transcript: string;
+  /** Tools executed during the replay, per turn */
+  toolCalls: CassetteToolCall[][];
+  /** Differences from the recording; empty when the replay matched */
+  mismatches: string[];
+}
+
+const DENIED_WHILE_RECORDING = "Tool call was not approved in the recording";
+
+function describeToolCall(call: CassetteToolCall): string {
+  return `${call.name}(${JSON.stringify(call.args)}) -> ${call.status}`;
+}
+
+function compareToolCalls(
+  turnIndex: number,
+  recorded: CassetteToolCall[],
+  replayed: CassetteToolCall[],
+  compareToolReturns: boolean,
+): string[] {
+  const mismatches: string[] = [];
+  const prefix = `turn ${turnIndex + 1}`;
+  const replayedById = new Map(replayed.map((call) => [call.toolCallId, call]));
+
+  for (const expected of recorded) {
+    const actual = replayedById.get(expected.toolCallId);
+    replayedById.delete(expected.toolCallId);
+    if (!actual) {
+      mismatches.push(
+        `${prefix}: ${expected.toolCallId} did not run (recorded ${describeToolCall(expected)})`,
+      );
+      continue;
+    }
+    if (
+      actual.name !== expected.name ||
+      JSON.stringify(actual.args) !== JSON.stringify(expected.args) ||
+      actual.status !== expected.status
+    ) {
+      mismatches.push(
+        `${prefix}: ${expected.toolCallId} ran ${describeToolCall(actual)}, recorded ${describeToolCall(expected)}`,
+      );
+      continue;
+    }
+    if (compareToolReturns && actual.toolReturn !== expected.toolReturn) {
+      mismatches.push(
+        `${prefix}: ${expected.toolCallId} (${expected.name}) returned different output`,
+      );
+    }
+  }
+
+  for (const extra of replayedById.values()) {
+    mismatches.push(
+      `${prefix}: ${extra.toolCallId} ran ${describeToolCall(extra)} but was not recorded`,
+    );
+  }
+  return mismatches;
+}
+
+/**
+ * Replay a cassette without network access and report how the session
+ * differs from the recording
+ */
+export async function replayCassette(
+  cassette: Cassette,
+  options: CassetteReplayOptions = {},
+): Promise<CassetteReplayResult> {
+  const { workingDirectory, permissionModeState } = options;
+  const buffers = createBuffers(cassette.turns[0]?.agentId ?? undefined);
+  const toolCalls: CassetteToolCall[][] = [];
+  const mismatches: string[] = [];
+  const player = startCassetteReplay(cassette);
+  const client = player.createClient();
+
+  try {
+    for (const [index, turn] of cassette.turns.entries()) {
+      const stream = await sendMessageStream(
+        turn.conversationId,
+        turn.messages,
+        {
+          agentId: turn.agentId ?? undefined,
+          workingDirectory,
+          client,
+          permissionModeState,
+        },
+      );
+      const { approvals = [] } = await drainStream(stream, buffers, () => {});
+
+      if (approvals.length > 0) {
+        // Tools that needed a user decision run only if they ran when recorded
+        const approvedWhileRecording = new Set(
+          turn.toolCalls.map((call) => call.toolCallId),
+        );
+        const { autoAllowed, autoDenied, needsUserInput } =
+          await classifyApprovals(approvals, {
+            workingDirectory,
+            permissionModeState,
+          });
+        const decisions: ApprovalDecision[] = [
+          ...autoAllowed.map(({ approval }) => ({
+            type: "approve" as const,
+            approval,
+          })),
+          ...needsUserInput.map(({ approval }) =>
+            approvedWhileRecording.has(approval.toolCallId)
+              ? { type: "approve" as const, approval }
+              : {
+                  type: "deny" as const,
+                  approval,
+                  reason: DENIED_WHILE_RECORDING,
+                },
+          ),
+          ...autoDenied.map(({ approval, permission, denyReason }) => ({
+            type: "deny" as const,
+            approval,
+            reason: denyReason ?? permission.reason ?? "Permission denied",
+          })),
+        ];
+        await executeApprovalBatch(decisions, undefined, {
+          workingDirectory,
+          toolContextId: getStreamToolContextId(stream) ?? undefined,
+        });
+      }
+
+      const replayed = player.getReplayedToolCalls(index);
+      for (const call of replayed) {
+        applyCassetteToolCall(buffers, call);
+      }
+      toolCalls.push(replayed);
+      mismatches.push(
+        ...compareToolCalls(
+          index,
+          turn.toolCalls,
+          replayed,
+          options.compareToolReturns ?? false,
+        ),
+      );
+    }
+  } finally {
+    stopCassetteReplay();
+  }
+
+  const transcript = getCassetteTranscript(buffers);
+  if (transcript !== cassette.transcript) {
+    mismatches.push("transcript differs from the recording");
+  }
+  return { transcript, toolCalls, mismatches };
+}
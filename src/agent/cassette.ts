@@ -0,0 +1,489 @@
+/**
+ * Cassettes - recordings of a session's stream chunks and local tool
+ * executions, replayable offline with replayCassette (cassette-replay.ts).
+ *
+ * Recording is enabled with LETTA_CASSETTE_RECORD=<path> or
+ * startCassetteRecording(). The file is JSON Lines appended in the
+ * background as turns and tool executions happen, so an interrupted session
+ * still leaves a usable cassette. A replay talks to the API through a
+ * client of its own whose fetch serves the recorded turns, and tools return
+ * their recorded output instead of running.
+ */
+
+import { readFileSync } from "node:fs";
+import { appendFile, mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import Letta from "@letta-ai/letta-client";
+import { Stream } from "@letta-ai/letta-client/core/streaming";
+import type { MessageCreate } from "@letta-ai/letta-client/resources/agents/agents";
+import type {
+  ApprovalCreate,
+  LettaStreamingResponse,
+} from "@letta-ai/letta-client/resources/agents/messages";
+import {
+  type Buffers,
+  createBuffers,
+  linesToTranscript,
+  onChunk,
+  toLines,
+} from "../cli/helpers/accumulator";
+import {
+  setToolExecutionObserver,
+  setToolImplementationInterceptor,
+  type ToolExecutionObserver,
+  type ToolImplementationInterceptor,
+} from "../tools/manager";
+import { debugWarn } from "../utils/debug";
+import { getErrorMessage } from "../utils/error";
+import { getDisplayableToolReturn } from "./approval-execution";
+
+export const CASSETTE_VERSION = 2;
+
+export const CASSETTE_RECORD_ENV = "LETTA_CASSETTE_RECORD";
+
+/** Base URL of the stub API; never reached over the network */
+const STUB_API_URL = "http://cassette.invalid";
+
+/** Requests the stub API answers with recorded turns */
+const STREAM_REQUEST_PATH = /^\/v1\/conversations\/([^/]+)\/messages$/;
+
+/**
+ * A local tool execution, as seen by executeTool
+ */
+export interface CassetteToolCall {
+  toolCallId: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: "success" | "error";
+  /** Text of the tool return (multimodal parts are reduced to their text) */
+  toolReturn: string;
+  /** What the tool implementation returned, served in its place on replay */
+  output?: unknown;
+}
+
+/**
+ * One sendMessageStream request: what was sent, every chunk streamed back,
+ * and the tools executed for the approvals it requested
+ */
+export interface CassetteTurn {
+  conversationId: string;
+  agentId: string | null;
+  messages: Array<MessageCreate | ApprovalCreate>;
+  chunks: LettaStreamingResponse[];
+  toolCalls: CassetteToolCall[];
+}
+
+export interface Cassette {
+  version: typeof CASSETTE_VERSION;
+  recordedAt: string;
+  turns: CassetteTurn[];
+  /** Accumulator transcript (linesToTranscript) of the recorded session */
+  transcript: string;
+}
+
+/**
+ * One line of a cassette file. Chunks and tool calls belong to the latest
+ * turn; the last transcript line is the session's transcript.
+ */
+type CassetteLine =
+  | { type: "header"; version: number; recordedAt: string }
+  | ({ type: "turn" } & Pick<
+      CassetteTurn,
+      "conversationId" | "agentId" | "messages"
+    >)
+  | { type: "chunks"; chunks: LettaStreamingResponse[] }
+  | ({ type: "tool_call" } & CassetteToolCall)
+  | { type: "transcript"; transcript: string };
+
+/**
+ * Feed a tool execution to an accumulator the way the approval flow does
+ */
+export function applyCassetteToolCall(
+  buffers: Buffers,
+  call: CassetteToolCall,
+): void {
+  onChunk(buffers, {
+    message_type: "tool_return_message",
+    id: "cassette",
+    date: new Date(0).toISOString(),
+    tool_call_id: call.toolCallId,
+    tool_return: call.toolReturn,
+    status: call.status,
+  } as LettaStreamingResponse);
+}
+
+export function getCassetteTranscript(buffers: Buffers): string {
+  return linesToTranscript(toLines(buffers));
+}
+
+/**
+ * Read and validate a cassette file
+ */
+export function loadCassette(path: string): Cassette {
+  let lines: CassetteLine[];
+  try {
+    lines = readFileSync(path, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as CassetteLine);
+  } catch (error) {
+    throw new Error(
+      `Failed to read cassette ${path}: ${getErrorMessage(error)}`,
+    );
+  }
+
+  const [header, ...entries] = lines;
+  if (header?.type !== "header" || header.version !== CASSETTE_VERSION) {
+    const version = header?.type === "header" ? header.version : undefined;
+    throw new Error(
+      `Unsupported cassette version ${String(version)} in ${path} (expected ${CASSETTE_VERSION})`,
+    );
+  }
+
+  const cassette: Cassette = {
+    version: CASSETTE_VERSION,
+    recordedAt: header.recordedAt,
+    turns: [],
+    transcript: "",
+  };
+  let hasTranscript = false;
+  for (const entry of entries) {
+    const turn = cassette.turns.at(-1);
+    if (entry.type === "turn") {
+      const { type: _type, ...request } = entry;
+      cassette.turns.push({ ...request, chunks: [], toolCalls: [] });
+    } else if (entry.type === "chunks" && turn) {
+      turn.chunks.push(...entry.chunks);
+    } else if (entry.type === "tool_call" && turn) {
+      const { type: _type, ...call } = entry;
+      turn.toolCalls.push(call);
+    } else if (entry.type === "transcript") {
+      cassette.transcript = entry.transcript;
+      hasTranscript = true;
+    }
+  }
+  if (!hasTranscript) {
+    throw new Error(`Invalid cassette ${path}: missing transcript`);
+  }
+  return cassette;
+}
+
+/**
+ * Records streamed turns and tool executions into a cassette file
+ */
+export class CassetteRecorder {
+  readonly path: string;
+  private cassette: Cassette;
+  private buffers = createBuffers();
+  /** Implementation outputs waiting for their tool call to finish */
+  private pendingOutputs = new Map<string, unknown>();
+  /** Appends, chained so lines land in order */
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+    this.cassette = {
+      version: CASSETTE_VERSION,
+      recordedAt: new Date().toISOString(),
+      turns: [],
+      transcript: "",
+    };
+    const header: CassetteLine = {
+      type: "header",
+      version: CASSETTE_VERSION,
+      recordedAt: this.cassette.recordedAt,
+    };
+    this.write(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, `${JSON.stringify(header)}\n`);
+    });
+  }
+
+  getCassette(): Cassette {
+    return this.cassette;
+  }
+
+  /**
+   * Start a turn and return a stream that records each chunk as it is read
+   */
+  recordStream(
+    request: Pick<CassetteTurn, "conversationId" | "agentId" | "messages">,
+    stream: Stream<LettaStreamingResponse>,
+  ): Stream<LettaStreamingResponse> {
+    // Bring the transcript up to date with the previous turn's tool calls
+    if (this.cassette.turns.at(-1)?.toolCalls.length) {
+      this.appendTranscript();
+    }
+    const turn: CassetteTurn = { ...request, chunks: [], toolCalls: [] };
+    this.cassette.turns.push(turn);
+    this.append({ type: "turn", ...request });
+
+    const recorder = this;
+    async function* iterate() {
+      try {
+        for await (const chunk of stream) {
+          turn.chunks.push(chunk);
+          onChunk(recorder.buffers, chunk);
+          yield chunk;
+        }
+      } finally {
+        recorder.append({ type: "chunks", chunks: turn.chunks });
+        recorder.appendTranscript();
+      }
+    }
+    return new Stream(() => iterate(), stream.controller);
+  }
+
+  /**
+   * Keep what a tool implementation returned until its execution finishes
+   */
+  recordToolOutput(toolCallId: string, output: unknown): void {
+    this.pendingOutputs.set(toolCallId, output);
+  }
+
+  /**
+   * Record a tool execution against the latest turn. Executions without a
+   * tool call id (not requested by the agent) are not part of any turn.
+   */
+  recordToolCall(call: CassetteToolCall): void {
+    const output = this.pendingOutputs.get(call.toolCallId);
+    this.pendingOutputs.delete(call.toolCallId);
+    const turn = this.cassette.turns.at(-1);
+    if (!turn) return;
+    const recorded = output === undefined ? call : { ...call, output };
+    turn.toolCalls.push(recorded);
+    applyCassetteToolCall(this.buffers, recorded);
+    this.append({ type: "tool_call", ...recorded });
+  }
+
+  /**
+   * Write the final transcript and wait for every pending append
+   */
+  async finish(): Promise<void> {
+    this.appendTranscript();
+    await this.writes;
+  }
+
+  private appendTranscript(): void {
+    this.cassette.transcript = getCassetteTranscript(this.buffers);
+    this.append({ type: "transcript", transcript: this.cassette.transcript });
+  }
+
+  private append(line: CassetteLine): void {
+    const text = `${JSON.stringify(line)}\n`;
+    this.write(() => appendFile(this.path, text));
+  }
+
+  private write(operation: () => Promise<void>): void {
+    this.writes = this.writes.then(operation).catch((error) => {
+      debugWarn(
+        "cassette",
+        `Failed to write ${this.path}: ${getErrorMessage(error)}`,
+      );
+    });
+  }
+}
+
+function toSSE(chunks: LettaStreamingResponse[]): string {
+  return [...chunks.map((chunk) => JSON.stringify(chunk)), "[DONE]"]
+    .map((data) => `data: ${data}\n\n`)
+    .join("");
+}
+
+function notRecorded(detail: string): Response {
+  return new Response(JSON.stringify({ detail }), {
+    status: 404,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/**
+ * A stub of the Letta API that answers message requests with the recorded
+ * turns, in order, and collects the tools executed during the replay of
+ * each
+ */
+export class CassettePlayer {
+  readonly cassette: Cassette;
+  private nextTurn = 0;
+  private replayedToolCalls: CassetteToolCall[][] = [];
+
+  constructor(cassette: Cassette) {
+    this.cassette = cassette;
+  }
+
+  /** Number of turns served so far */
+  get turnsReplayed(): number {
+    return this.nextTurn;
+  }
+
+  /**
+   * Fetch implementation for the API client. Anything but a message
+   * request fails, so a replay never depends on the network.
+   */
+  readonly fetch = async (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    const method = (
+      init?.method ?? (input instanceof Request ? input.method : "GET")
+    ).toUpperCase();
+    if (method !== "POST" || !STREAM_REQUEST_PATH.test(url.pathname)) {
+      return notRecorded(
+        `${method} ${url.pathname} is not part of the cassette`,
+      );
+    }
+
+    const turn = this.cassette.turns[this.nextTurn];
+    if (!turn) {
+      return notRecorded(
+        `Cassette has no more recorded turns (replayed ${this.nextTurn})`,
+      );
+    }
+    this.nextTurn += 1;
+    this.replayedToolCalls.push([]);
+    return new Response(toSSE(turn.chunks), {
+      headers: { "content-type": "text/event-stream" },
+    });
+  };
+
+  /**
+   * An API client whose requests are all answered by the stub fetch
+   */
+  createClient(): Letta {
+    return new Letta({
+      apiKey: "cassette",
+      baseURL: STUB_API_URL,
+      maxRetries: 0,
+      fetch: this.fetch,
+    });
+  }
+
+  /**
+   * Recorded execution of a tool call in the turn being replayed
+   */
+  getRecordedToolCall(toolCallId: string): CassetteToolCall | undefined {
+    return this.cassette.turns[this.nextTurn - 1]?.toolCalls.find(
+      (call) => call.toolCallId === toolCallId,
+    );
+  }
+
+  recordToolCall(call: CassetteToolCall): void {
+    this.replayedToolCalls.at(-1)?.push(call);
+  }
+
+  /** Tools executed while replaying the given turn */
+  getReplayedToolCalls(turnIndex: number): CassetteToolCall[] {
+    return this.replayedToolCalls[turnIndex] ?? [];
+  }
+}
+
+let recorder: CassetteRecorder | null = null;
+let recordEnvChecked = false;
+let player: CassettePlayer | null = null;
+
+const observeToolExecution: ToolExecutionObserver = ({
+  name,
+  args,
+  toolCallId,
+  result,
+}) => {
+  if (!toolCallId) return;
+  const call: CassetteToolCall = {
+    toolCallId,
+    name,
+    args,
+    status: result.status,
+    toolReturn: getDisplayableToolReturn(result.toolReturn),
+  };
+  if (player) {
+    player.recordToolCall(call);
+  } else {
+    recorder?.recordToolCall(call);
+  }
+};
+
+const interceptToolImplementation: ToolImplementationInterceptor = async (
+  { toolCallId },
+  run,
+) => {
+  if (player) {
+    const recorded = toolCallId
+      ? player.getRecordedToolCall(toolCallId)
+      : undefined;
+    if (recorded?.output === undefined) {
+      return {
+        status: "error",
+        content: `Tool call ${toolCallId ?? "(no id)"} has no recorded output in the cassette`,
+      };
+    }
+    return recorded.output;
+  }
+  const output = await run();
+  if (toolCallId) recorder?.recordToolOutput(toolCallId, output);
+  return output;
+};
+
+function updateToolHooks(): void {
+  const active = Boolean(player || recorder);
+  setToolExecutionObserver(active ? observeToolExecution : null);
+  setToolImplementationInterceptor(active ? interceptToolImplementation : null);
+}
+
+/**
+ * Record every following turn and tool execution to a cassette file
+ */
+export function startCassetteRecording(path: string): CassetteRecorder {
+  recorder = new CassetteRecorder(path);
+  updateToolHooks();
+  return recorder;
+}
+
+/**
+ * Stop recording, wait for the file to be written and return what was
+ * recorded
+ */
+export async function stopCassetteRecording(): Promise<Cassette | null> {
+  const stopped = recorder;
+  recorder = null;
+  updateToolHooks();
+  if (!stopped) return null;
+  await stopped.finish();
+  return stopped.getCassette();
+}
+
+/**
+ * The active recorder, started from LETTA_CASSETTE_RECORD on first use
+ */
+export function getCassetteRecorder(): CassetteRecorder | null {
+  if (!recordEnvChecked) {
+    recordEnvChecked = true;
+    const path = process.env[CASSETTE_RECORD_ENV];
+    if (path && !recorder) {
+      // Subagent processes inherit the environment and must not overwrite
+      // this session's cassette
+      delete process.env[CASSETTE_RECORD_ENV];
+      startCassetteRecording(path);
+    }
+  }
+  return recorder;
+}
+
+/**
+ * Serve API requests and tool outputs from a cassette until
+ * stopCassetteReplay()
+ */
+export function startCassetteReplay(cassette: Cassette): CassettePlayer {
+  player = new CassettePlayer(cassette);
+  updateToolHooks();
+  return player;
+}
+
+export function stopCassetteReplay(): void {
+  player = null;
+  updateToolHooks();
+}
+
+export function getCassettePlayer(): CassettePlayer | null {
+  return player;
+}
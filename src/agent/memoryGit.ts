@@ -222,7 +222,7 @@ async function configureLocalCredentialHelper(
  * - read_only may exist (from server) but agent must not change it
  */
 export const PRE_COMMIT_HOOK_SCRIPT = `#!/usr/bin/env bash
-# Validate frontmatter in staged memory .md files
+# Validate frontmatter in staged memory .md files, then run the memory linter
 # Installed by Letta Code CLI
 
 AGENT_EDITABLE_KEYS="description"
@@ -354,10 +354,29 @@ if [ -n "$errors" ]; then
   echo -e "$errors"
   exit 1
 fi
+
+# Memory lint gate: dangling [[links]], read-only labels, size budgets and
+# duplicates. Only staged files can fail the commit; issues elsewhere in the
+# tree are warnings. Needs the letta CLI on PATH; set LETTA_MEMFS_LINT=0 to
+# skip. Exit code 2 means lint errors; anything else (e.g. an older CLI
+# without the lint command) does not block the commit.
+if [ "\${LETTA_MEMFS_LINT:-1}" != "0" ]; then
+  if command -v letta >/dev/null 2>&1; then
+    lint_output=$(letta memfs lint --dir . --staged --format text 2>/dev/null)
+    lint_status=$?
+    [ -n "$lint_output" ] && echo "$lint_output"
+    if [ "$lint_status" -eq 2 ]; then
+      echo "Memory lint failed. Fix the errors above before committing."
+      exit 1
+    fi
+  else
+    echo "Memory lint skipped: letta CLI not found on PATH." >&2
+  fi
+fi
 `;
 
 /**
- * Install the pre-commit hook for frontmatter validation.
+ * Install the pre-commit hook for frontmatter validation and memory lint.
  */
 function installPreCommitHook(dir: string): void {
   const hooksDir = join(dir, ".git", "hooks");
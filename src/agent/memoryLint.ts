@@ -0,0 +1,542 @@
+/**
+ * Memory filesystem linter.
+ *
+ * Checks the .md files of a memory repo for malformed frontmatter, size
+ * budgets, dangling [[links]], duplicate content and changes to read-only
+ * files. Used by `letta memfs lint`, the memory repo's pre-commit hook and
+ * /doctor.
+ */
+
+import { execFile as execFileCb } from "node:child_process";
+import { existsSync } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { join, relative } from "node:path";
+import { promisify } from "node:util";
+import { READ_ONLY_BLOCK_LABELS } from "./memoryConstants";
+
+const execFile = promisify(execFileCb);
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type MemoryLintRule =
+  | "frontmatter"
+  | "size-budget"
+  | "dangling-link"
+  | "duplicate-content"
+  | "read-only";
+
+export type MemoryLintSeverity = "error" | "warning";
+
+export interface MemoryLintIssue {
+  rule: MemoryLintRule;
+  severity: MemoryLintSeverity;
+  /** File or directory the issue is about, relative to the memory root. */
+  path: string;
+  message: string;
+}
+
+export interface MemoryLintFile {
+  /** Path relative to the memory root, with "/" separators. */
+  path: string;
+  content: string;
+  /**
+   * Content at HEAD for files that changed: null for new files, undefined
+   * when unchanged or unknown (read-only checks are skipped).
+   */
+  headContent?: string | null;
+  /** True when the file is part of the change being linted. */
+  changed?: boolean;
+}
+
+export interface MemoryDirectoryBudget {
+  /** Max body characters of one file in the directory. */
+  fileChars?: number;
+  /** Max body characters of all files in the directory, recursively. */
+  totalChars?: number;
+}
+
+export interface MemoryLintOptions {
+  /** Budgets by top-level directory. Default: DEFAULT_MEMORY_BUDGETS. */
+  budgets?: Record<string, MemoryDirectoryBudget>;
+  /**
+   * Only files marked `changed` can have errors; issues elsewhere in the
+   * tree are reported as warnings so they don't fail the change.
+   */
+  changedOnly?: boolean;
+}
+
+export interface MemoryLintResult {
+  issues: MemoryLintIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// ── Constants ───────────────────────────────────────────────────────
+
+/** Directories whose .md files carry block frontmatter. */
+const BLOCK_DIRS = ["system", "reference"];
+const KNOWN_FRONTMATTER_KEYS = ["description", "read_only", "limit"];
+const PROTECTED_FRONTMATTER_KEYS = ["read_only"];
+
+export const DEFAULT_MEMORY_BUDGETS: Record<string, MemoryDirectoryBudget> = {
+  // system/ is in context on every turn
+  system: { fileChars: 20_000, totalChars: 60_000 },
+  reference: { fileChars: 50_000 },
+};
+
+// ── Parsing ─────────────────────────────────────────────────────────
+
+/** Path without the legacy "memory/" repo prefix. */
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^memory\//, "");
+}
+
+function topLevelDir(path: string): string {
+  return normalizePath(path).split("/")[0] ?? "";
+}
+
+function isBlockFile(path: string): boolean {
+  return path.endsWith(".md") && BLOCK_DIRS.includes(topLevelDir(path));
+}
+
+type ParsedFrontmatter =
+  | { ok: true; frontmatter: Record<string, string>; body: string }
+  | { ok: false; error: string };
+
+/**
+ * Split simple `key: value` frontmatter from the body (same format as
+ * parseMdxFrontmatter, but reporting why parsing failed).
+ */
+function parseFrontmatter(content: string): ParsedFrontmatter {
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  if (lines[0] !== "---") {
+    return { ok: false, error: "missing frontmatter (must start with ---)" };
+  }
+  const closing = lines.indexOf("---", 1);
+  if (closing === -1) {
+    return {
+      ok: false,
+      error: "frontmatter opened but never closed (missing closing ---)",
+    };
+  }
+  const frontmatter: Record<string, string> = {};
+  for (const line of lines.slice(1, closing)) {
+    const colonIndex = line.indexOf(":");
+    if (colonIndex > 0) {
+      frontmatter[line.slice(0, colonIndex).trim()] = line
+        .slice(colonIndex + 1)
+        .trim();
+    }
+  }
+  return {
+    ok: true,
+    frontmatter,
+    body: lines
+      .slice(closing + 1)
+      .join("\n")
+      .trim(),
+  };
+}
+
+function frontmatterOf(content: string | null | undefined) {
+  if (content == null) return null;
+  const parsed = parseFrontmatter(content);
+  return parsed.ok ? parsed.frontmatter : null;
+}
+
+/** [[target]] references, ignoring fenced code blocks. */
+function extractLinks(body: string): string[] {
+  const withoutCode = body.replace(/```[\s\S]*?```/g, "");
+  const links: string[] = [];
+  for (const match of withoutCode.matchAll(/\[\[([^\]\n]+)\]\]/g)) {
+    const target = (match[1] ?? "")
+      .split("|")[0]
+      ?.split("#")[0]
+      ?.trim()
+      .replace(/\.md$/, "");
+    if (target) links.push(target);
+  }
+  return links;
+}
+
+// ── Rules ───────────────────────────────────────────────────────────
+
+function checkFrontmatter(
+  path: string,
+  parsed: ParsedFrontmatter,
+): MemoryLintIssue[] {
+  const issue = (message: string): MemoryLintIssue => ({
+    rule: "frontmatter",
+    severity: "error",
+    path,
+    message,
+  });
+  if (!parsed.ok) return [issue(parsed.error)];
+
+  const issues: MemoryLintIssue[] = [];
+  for (const key of Object.keys(parsed.frontmatter)) {
+    if (!KNOWN_FRONTMATTER_KEYS.includes(key)) {
+      issues.push(
+        issue(
+          `unknown frontmatter key '${key}' (allowed: ${KNOWN_FRONTMATTER_KEYS.join(" ")})`,
+        ),
+      );
+    }
+  }
+  if (!("description" in parsed.frontmatter)) {
+    issues.push(issue("missing required field 'description'"));
+  } else if (!parsed.frontmatter.description) {
+    issues.push(issue("'description' must not be empty"));
+  }
+  return issues;
+}
+
+function checkReadOnly(file: MemoryLintFile): MemoryLintIssue[] {
+  if (file.headContent === undefined || file.headContent === file.content) {
+    return [];
+  }
+  const issue = (message: string): MemoryLintIssue => ({
+    rule: "read-only",
+    severity: "error",
+    path: file.path,
+    message,
+  });
+
+  const path = normalizePath(file.path);
+  const label = path.replace(/^system\//, "").replace(/\.md$/, "");
+  if (
+    path.startsWith("system/") &&
+    (READ_ONLY_BLOCK_LABELS as readonly string[]).includes(label)
+  ) {
+    return [issue(`'${label}' is managed by Letta Code and cannot be edited`)];
+  }
+
+  const head = frontmatterOf(file.headContent);
+  if (head?.read_only === "true") {
+    return [issue("file is read_only and cannot be modified")];
+  }
+  const staged = frontmatterOf(file.content);
+  const issues: MemoryLintIssue[] = [];
+  for (const key of PROTECTED_FRONTMATTER_KEYS) {
+    const before = head?.[key];
+    const after = staged?.[key];
+    if (before === after) continue;
+    const change =
+      before === undefined
+        ? "set"
+        : after === undefined
+          ? "removed"
+          : "changed";
+    issues.push(issue(`'${key}' is a protected field and cannot be ${change}`));
+  }
+  return issues;
+}
+
+function checkBudgets(
+  bodies: Map<string, string>,
+  budgets: Record<string, MemoryDirectoryBudget>,
+): MemoryLintIssue[] {
+  const issues: MemoryLintIssue[] = [];
+  const totals = new Map<string, number>();
+  for (const [path, body] of bodies) {
+    const dir = topLevelDir(path);
+    const budget = budgets[dir];
+    if (!budget) continue;
+    totals.set(dir, (totals.get(dir) ?? 0) + body.length);
+    if (budget.fileChars !== undefined && body.length > budget.fileChars) {
+      issues.push({
+        rule: "size-budget",
+        severity: "warning",
+        path,
+        message: `${body.length} characters exceeds the ${dir}/ file budget of ${budget.fileChars}`,
+      });
+    }
+  }
+  for (const [dir, total] of totals) {
+    const limit = budgets[dir]?.totalChars;
+    if (limit !== undefined && total > limit) {
+      issues.push({
+        rule: "size-budget",
+        severity: "warning",
+        path: `${dir}/`,
+        message: `${total} characters in total exceeds the ${dir}/ budget of ${limit}`,
+      });
+    }
+  }
+  return issues;
+}
+
+function checkLinks(
+  bodies: Map<string, string>,
+  allPaths: string[],
+): MemoryLintIssue[] {
+  const targets = new Set<string>();
+  for (const path of allPaths.map(normalizePath)) {
+    const withoutExt = path.replace(/\.md$/, "");
+    targets.add(withoutExt);
+    // Bare labels resolve within their block directory
+    for (const dir of BLOCK_DIRS) {
+      if (withoutExt.startsWith(`${dir}/`)) {
+        targets.add(withoutExt.slice(dir.length + 1));
+      }
+    }
+    // Folders (e.g. skills/<name>) are valid targets too
+    const parts = withoutExt.split("/");
+    for (let i = 1; i < parts.length; i++) {
+      targets.add(parts.slice(0, i).join("/"));
+    }
+  }
+
+  const issues: MemoryLintIssue[] = [];
+  for (const [path, body] of bodies) {
+    for (const link of new Set(extractLinks(body))) {
+      if (!targets.has(normalizePath(link))) {
+        issues.push({
+          rule: "dangling-link",
+          severity: "error",
+          path,
+          message: `[[${link}]] does not match any memory file`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+function checkDuplicates(
+  bodies: Map<string, string>,
+  descriptions: Map<string, string>,
+): MemoryLintIssue[] {
+  const issues: MemoryLintIssue[] = [];
+  const report = (
+    values: Map<string, string>,
+    what: string,
+    normalize: (value: string) => string,
+  ) => {
+    const firstByValue = new Map<string, string>();
+    for (const [path, value] of values) {
+      const key = normalize(value);
+      if (!key) continue;
+      const first = firstByValue.get(key);
+      if (first === undefined) {
+        firstByValue.set(key, path);
+        continue;
+      }
+      issues.push({
+        rule: "duplicate-content",
+        severity: "warning",
+        path,
+        message: `same ${what} as ${first}`,
+      });
+    }
+  };
+  const normalizeText = (value: string) =>
+    value.toLowerCase().replace(/\s+/g, " ").trim();
+  report(bodies, "content", normalizeText);
+  report(descriptions, "description", normalizeText);
+  return issues;
+}
+
+// ── Lint ────────────────────────────────────────────────────────────
+
+/**
+ * Lint memory files. `files` should contain every .md file of the memory
+ * repo so links and duplicates resolve against the whole tree.
+ */
+export function lintMemoryFiles(
+  files: MemoryLintFile[],
+  options: MemoryLintOptions = {},
+): MemoryLintResult {
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  const issues: MemoryLintIssue[] = [];
+  const bodies = new Map<string, string>();
+  const descriptions = new Map<string, string>();
+
+  for (const file of sorted) {
+    issues.push(...checkReadOnly(file));
+    if (!isBlockFile(file.path)) continue;
+    const parsed = parseFrontmatter(file.content);
+    issues.push(...checkFrontmatter(file.path, parsed));
+    if (!parsed.ok) continue;
+    bodies.set(file.path, parsed.body);
+    if (parsed.frontmatter.description) {
+      descriptions.set(file.path, parsed.frontmatter.description);
+    }
+  }
+
+  issues.push(
+    ...checkBudgets(bodies, options.budgets ?? DEFAULT_MEMORY_BUDGETS),
+    ...checkLinks(
+      bodies,
+      sorted.map((file) => file.path),
+    ),
+    ...checkDuplicates(bodies, descriptions),
+  );
+
+  if (options.changedOnly) {
+    const changed = new Set(
+      sorted.filter((file) => file.changed).map((file) => file.path),
+    );
+    for (const issue of issues) {
+      if (!changed.has(issue.path)) issue.severity = "warning";
+    }
+  }
+
+  const errorCount = issues.filter(
+    (issue) => issue.severity === "error",
+  ).length;
+  return { issues, errorCount, warningCount: issues.length - errorCount };
+}
+
+// ── Loading ─────────────────────────────────────────────────────────
+
+async function git(dir: string, args: string[]): Promise<string> {
+  const { stdout } = await execFile("git", args, {
+    cwd: dir,
+    maxBuffer: 10 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+function splitNul(output: string): string[] {
+  return output.split("\0").filter(Boolean);
+}
+
+async function readHeadContent(
+  dir: string,
+  path: string,
+): Promise<string | null> {
+  try {
+    return await git(dir, ["show", `HEAD:${path}`]);
+  } catch {
+    return null;
+  }
+}
+
+async function listMarkdownFiles(root: string, dir = root): Promise<string[]> {
+  const paths: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (entry.name === ".git") continue;
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      paths.push(...(await listMarkdownFiles(root, fullPath)));
+    } else if (entry.name.endsWith(".md")) {
+      paths.push(relative(root, fullPath).replace(/\\/g, "/"));
+    }
+  }
+  return paths;
+}
+
+/**
+ * Load the .md files of a memory directory's working tree. In a git repo,
+ * changed files are marked and carry their HEAD content for the read-only
+ * checks.
+ */
+export async function loadMemoryLintFiles(
+  dir: string,
+): Promise<MemoryLintFile[]> {
+  const paths = await listMarkdownFiles(dir);
+  let changed = new Set<string>();
+  const isRepo = existsSync(join(dir, ".git"));
+  if (isRepo) {
+    try {
+      changed = new Set([
+        ...splitNul(await git(dir, ["diff", "--name-only", "-z", "HEAD"])),
+        ...splitNul(
+          await git(dir, ["ls-files", "--others", "--exclude-standard", "-z"]),
+        ),
+      ]);
+    } catch {
+      // No HEAD yet: every file is new
+      changed = new Set(paths);
+    }
+  }
+
+  const files: MemoryLintFile[] = [];
+  for (const path of paths) {
+    const file: MemoryLintFile = {
+      path,
+      content: await readFile(join(dir, path), "utf-8"),
+    };
+    if (changed.has(path)) {
+      file.changed = true;
+      file.headContent = await readHeadContent(dir, path);
+    }
+    files.push(file);
+  }
+  return files;
+}
+
+/**
+ * Load the staged (index) version of every .md file in a memory repo, for
+ * the pre-commit gate. Staged changes are marked and carry their HEAD
+ * content.
+ */
+export async function loadStagedMemoryLintFiles(
+  dir: string,
+): Promise<MemoryLintFile[]> {
+  const paths = splitNul(await git(dir, ["ls-files", "--cached", "-z"])).filter(
+    (path) => path.endsWith(".md"),
+  );
+  const staged = new Set(
+    splitNul(
+      await git(dir, [
+        "diff",
+        "--cached",
+        "--name-only",
+        "--diff-filter=ACMR",
+        "-z",
+      ]),
+    ),
+  );
+
+  const files: MemoryLintFile[] = [];
+  for (const path of paths) {
+    const file: MemoryLintFile = {
+      path,
+      content: await git(dir, ["show", `:${path}`]),
+    };
+    if (staged.has(path)) {
+      file.changed = true;
+      file.headContent = await readHeadContent(dir, path);
+    }
+    files.push(file);
+  }
+  return files;
+}
+
+/**
+ * Lint a memory directory's working tree, or its index with `staged`. In a
+ * git repo only changed (or staged) files can have errors; the rest of the
+ * tree is reported as warnings.
+ */
+export async function lintMemoryDirectory(
+  dir: string,
+  options: MemoryLintOptions & { staged?: boolean } = {},
+): Promise<MemoryLintResult> {
+  const files = options.staged
+    ? await loadStagedMemoryLintFiles(dir)
+    : await loadMemoryLintFiles(dir);
+  return lintMemoryFiles(files, {
+    changedOnly: options.staged || existsSync(join(dir, ".git")),
+    ...options,
+  });
+}
+
+// ── Formatting ──────────────────────────────────────────────────────
+
+/**
+ * Human-readable report, one issue per line ("" when clean).
+ */
+export function formatMemoryLintIssues(result: MemoryLintResult): string {
+  if (result.issues.length === 0) return "";
+  const lines = [
+    `Memory lint: ${result.errorCount} error(s), ${result.warningCount} warning(s)`,
+  ];
+  for (const issue of result.issues) {
+    lines.push(
+      `  ${issue.path}: ${issue.severity}: ${issue.message} [${issue.rule}]`,
+    );
+  }
+  return lines.join("\n");
+}
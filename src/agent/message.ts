@@ -2,6 +2,7 @@
  * Utilities for sending messages to an agent via conversations
  **/
 
+import type Letta from "@letta-ai/letta-client";
 import type { Stream } from "@letta-ai/letta-client/core/streaming";
 import type { MessageCreate } from "@letta-ai/letta-client/resources/agents/agents";
 import type {
@@ -23,6 +24,7 @@ import {
   type ApprovalNormalizationOptions,
   normalizeOutgoingApprovalMessages,
 } from "./approval-result-normalization";
+import { getCassetteRecorder } from "./cassette";
 import { getClient } from "./client";
 import { buildClientSkillsPayload } from "./clientSkills";
 import { ALL_SKILL_SOURCES } from "./skillSources";
@@ -73,6 +75,8 @@ export type SendMessageStreamOptions = {
   overrideModel?: string;
   /** Explicit turn-scoped tool snapshot. When present, bypasses the global registry. */
   preparedToolContext?: PreparedToolExecutionContext;
+  /** API client to send with instead of getClient() (e.g. a cassette replay's stub) */
+  client?: Letta;
 };
 
 export function buildConversationMessagesCreateRequestBody(
@@ -115,6 +119,8 @@ export function buildConversationMessagesCreateRequestBody(
  * For the "default" conversation (agent's primary message history without
  * an explicit conversation object), pass conversationId="default" and
  * provide agentId in opts. The agent id is sent in the request body.
+ *
+ * While a cassette is being recorded, the stream is recorded as it is read.
  */
 export async function sendMessageStream(
   conversationId: string,
@@ -132,7 +138,7 @@ export async function sendMessageStream(
 ): Promise<Stream<LettaStreamingResponse>> {
   const requestStartTime = isTimingsEnabled() ? performance.now() : undefined;
   const requestStartedAtMs = Date.now();
-  const client = await getClient();
+  const client = opts.client ?? (await getClient());
 
   const preparedToolContext = opts.preparedToolContext
     ? opts.preparedToolContext
@@ -240,6 +246,17 @@ export async function sendMessageStream(
         },
       },
     );
+    const cassetteRecorder = getCassetteRecorder();
+    if (cassetteRecorder) {
+      stream = cassetteRecorder.recordStream(
+        {
+          conversationId: resolvedConversationId,
+          agentId: opts.agentId ?? null,
+          messages,
+        },
+        stream,
+      );
+    }
   } catch (error) {
     abortRelay?.cleanup();
     debugWarn(
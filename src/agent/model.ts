@@ -3,6 +3,7 @@
  */
 import modelsData from "../models.json";
 import { OPENAI_CODEX_PROVIDER_NAME } from "../providers/openai-codex-provider";
+import type { ModelPricing } from "./pricing";
 
 export const models = modelsData.models;
 
@@ -394,6 +395,18 @@ export function getModelShortName(handle: string): string | null {
   return (model as { shortLabel?: string }).shortLabel ?? model.label;
 }
 
+/**
+ * Get the pricing of a model by ID or handle
+ * @param modelIdentifier - A model ID (e.g., "opus-4.5") or handle, including
+ *   provider-prefixed handles reported by the server
+ * @returns Pricing in USD per million tokens, or null if the model is unknown or unpriced
+ */
+export function getModelPricing(modelIdentifier: string): ModelPricing | null {
+  const model =
+    getModelInfo(modelIdentifier) ?? findModelByHandle(modelIdentifier);
+  return (model as { pricing?: ModelPricing } | null)?.pricing ?? null;
+}
+
 /**
  * Resolve a model ID from the llm_config.model value
  * The llm_config.model is the model portion without the provider prefix
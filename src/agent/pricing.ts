@@ -0,0 +1,121 @@
+/**
+ * Cost accounting
+ *
+ * Models in models.json can carry optional pricing in USD per million
+ * tokens. Usage is priced per step, so a session that switches models is
+ * charged at each model's rate. Usage of models without pricing is tracked
+ * separately and reported as unpriced.
+ */
+
+import type { UsageStats } from "./stats";
+
+/**
+ * Model pricing in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Cached input tokens (defaults to the input price) */
+  cacheRead?: number;
+  /** Tokens written to the prompt cache (defaults to the input price) */
+  cacheWrite?: number;
+  /** Reasoning tokens, a subset of output tokens (defaults to the output price) */
+  reasoning?: number;
+}
+
+/**
+ * Spend thresholds in USD for a session, including its subagents
+ */
+export interface SpendThresholds {
+  /** Show a warning once spend reaches this amount */
+  warnUsd?: number;
+  /** Stop sending new turns once spend reaches this amount */
+  stopUsd?: number;
+}
+
+export type SpendThresholdStatus = "warn" | "stop";
+
+export type PricedUsage = Pick<
+  UsageStats,
+  | "promptTokens"
+  | "completionTokens"
+  | "cachedInputTokens"
+  | "cacheWriteTokens"
+  | "reasoningTokens"
+>;
+
+const TOKENS_PER_UNIT = 1_000_000;
+
+/**
+ * Price a usage delta. Prompt tokens include cached and cache-write tokens;
+ * completion tokens include reasoning tokens.
+ */
+export function calculateUsageCost(
+  usage: PricedUsage,
+  pricing: ModelPricing,
+): number {
+  const cachedInput = Math.min(usage.cachedInputTokens, usage.promptTokens);
+  const cacheWrite = Math.min(
+    usage.cacheWriteTokens,
+    usage.promptTokens - cachedInput,
+  );
+  const uncachedInput = usage.promptTokens - cachedInput - cacheWrite;
+  const reasoning = Math.min(usage.reasoningTokens, usage.completionTokens);
+  const output = usage.completionTokens - reasoning;
+
+  const cost =
+    uncachedInput * pricing.input +
+    cachedInput * (pricing.cacheRead ?? pricing.input) +
+    cacheWrite * (pricing.cacheWrite ?? pricing.input) +
+    output * pricing.output +
+    reasoning * (pricing.reasoning ?? pricing.output);
+  return cost / TOKENS_PER_UNIT;
+}
+
+/**
+ * Parse a USD threshold from settings. Returns undefined for missing,
+ * non-numeric or non-positive values.
+ */
+export function parseSpendThreshold(value: unknown): number | undefined {
+  const parsed = typeof value === "string" ? Number(value.trim()) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed) || parsed <= 0) {
+    return undefined;
+  }
+  return parsed;
+}
+
+/**
+ * The highest threshold the spend has reached, or null when below both
+ */
+export function checkSpendThresholds(
+  totalUsd: number,
+  thresholds: SpendThresholds | undefined,
+): SpendThresholdStatus | null {
+  const stopUsd = parseSpendThreshold(thresholds?.stopUsd);
+  if (stopUsd !== undefined && totalUsd >= stopUsd) return "stop";
+  const warnUsd = parseSpendThreshold(thresholds?.warnUsd);
+  if (warnUsd !== undefined && totalUsd >= warnUsd) return "warn";
+  return null;
+}
+
+/**
+ * Format a dollar amount, e.g. "$1.24" or "$0.0031" for amounts under a cent
+ */
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * Describe a reached spend threshold for display
+ */
+export function formatSpendThresholdMessage(
+  status: SpendThresholdStatus,
+  totalUsd: number,
+  thresholds: SpendThresholds,
+): string {
+  if (status === "stop") {
+    return `Session spend of ${formatCost(totalUsd)} reached the hard limit of ${formatCost(thresholds.stopUsd ?? 0)}. New turns are blocked; raise the limit with /spend stop <usd> or remove it with /spend stop off.`;
+  }
+  return `Session spend of ${formatCost(totalUsd)} reached the warning threshold of ${formatCost(thresholds.warnUsd ?? 0)}.`;
+}
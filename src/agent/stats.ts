@@ -1,4 +1,5 @@
 import type { Buffers } from "../cli/helpers/accumulator";
+import { calculateUsageCost, type ModelPricing } from "./pricing";
 
 export interface UsageStats {
   promptTokens: number;
@@ -11,13 +12,26 @@ export interface UsageStats {
   stepCount: number;
 }
 
-export type UsageStatsDelta = UsageStats;
+export interface UsageStatsDelta extends UsageStats {
+  /** Cost of the delta in USD (0 when the model has no pricing) */
+  costUsd: number;
+}
+
+export interface CostStats {
+  /** Main agent and subagents combined, in USD */
+  totalUsd: number;
+  mainUsd: number;
+  subagentUsd: number;
+  /** Tokens used by models without pricing, not included in the totals */
+  unpricedTokens: number;
+}
 
 export interface SessionStatsSnapshot {
   sessionStartMs: number;
   totalWallMs: number;
   totalApiMs: number;
   usage: UsageStats;
+  cost: CostStats;
 }
 
 export interface TrajectoryStatsSnapshot {
@@ -28,6 +42,7 @@ export interface TrajectoryStatsSnapshot {
   localMs: number;
   stepCount: number;
   tokens: number;
+  costUsd: number;
 }
 
 export class SessionStats {
@@ -41,6 +56,10 @@ export class SessionStats {
   private trajectoryWallMs: number;
   private trajectoryStepCount: number;
   private trajectoryTokens: number;
+  private trajectoryCostUsd: number;
+  private mainCostUsd: number;
+  private subagentCostUsd: number;
+  private unpricedTokens: number;
 
   constructor() {
     this.sessionStartMs = performance.now();
@@ -62,13 +81,25 @@ export class SessionStats {
     this.trajectoryWallMs = 0;
     this.trajectoryStepCount = 0;
     this.trajectoryTokens = 0;
+    this.trajectoryCostUsd = 0;
+    this.mainCostUsd = 0;
+    this.subagentCostUsd = 0;
+    this.unpricedTokens = 0;
   }
 
   endTurn(apiDurationMs: number): void {
     this.totalApiMs += apiDurationMs;
   }
 
-  updateUsageFromBuffers(buffers: Buffers): UsageStatsDelta {
+  /**
+   * Sync usage with the stream buffers and price the new usage.
+   * @param pricing - Pricing of the model that produced the usage; usage is
+   *   counted as unpriced when omitted
+   */
+  updateUsageFromBuffers(
+    buffers: Buffers,
+    pricing?: ModelPricing | null,
+  ): UsageStatsDelta {
     const nextUsage = { ...buffers.usage };
     const prevUsage = this.lastUsageSnapshot;
 
@@ -96,8 +127,16 @@ export class SessionStats {
       ),
       contextTokens: nextUsage.contextTokens,
       stepCount: Math.max(0, nextUsage.stepCount - prevUsage.stepCount),
+      costUsd: 0,
     };
 
+    if (pricing) {
+      delta.costUsd = calculateUsageCost(delta, pricing);
+      this.mainCostUsd += delta.costUsd;
+    } else {
+      this.unpricedTokens += delta.totalTokens;
+    }
+
     this.usage = nextUsage;
     this.lastUsageSnapshot = nextUsage;
     return delta;
@@ -129,12 +168,29 @@ export class SessionStats {
     }
     if (options.usageDelta) {
       this.trajectoryStepCount += options.usageDelta.stepCount;
+      this.trajectoryCostUsd += options.usageDelta.costUsd;
     }
     if (options.tokenDelta) {
       this.trajectoryTokens += options.tokenDelta;
     }
   }
 
+  /**
+   * Add the cost of a finished subagent to the session and, while one is
+   * running, the current trajectory
+   */
+  recordSubagentCost(costUsd: number): void {
+    if (!(costUsd > 0)) return;
+    this.subagentCostUsd += costUsd;
+    if (this.trajectoryStartMs !== null) {
+      this.trajectoryCostUsd += costUsd;
+    }
+  }
+
+  getTotalCostUsd(): number {
+    return this.mainCostUsd + this.subagentCostUsd;
+  }
+
   getTrajectorySnapshot(): TrajectoryStatsSnapshot | null {
     if (this.trajectoryStartMs === null) return null;
     const workMs = this.trajectoryApiMs + this.trajectoryLocalMs;
@@ -146,6 +202,7 @@ export class SessionStats {
       localMs: this.trajectoryLocalMs,
       stepCount: this.trajectoryStepCount,
       tokens: this.trajectoryTokens,
+      costUsd: this.trajectoryCostUsd,
     };
   }
 
@@ -162,6 +219,7 @@ export class SessionStats {
     this.trajectoryWallMs = 0;
     this.trajectoryStepCount = 0;
     this.trajectoryTokens = 0;
+    this.trajectoryCostUsd = 0;
   }
 
   getSnapshot(): SessionStatsSnapshot {
@@ -171,6 +229,12 @@ export class SessionStats {
       totalWallMs: now - this.sessionStartMs,
       totalApiMs: this.totalApiMs,
       usage: { ...this.usage },
+      cost: {
+        totalUsd: this.getTotalCostUsd(),
+        mainUsd: this.mainCostUsd,
+        subagentUsd: this.subagentCostUsd,
+        unpricedTokens: this.unpricedTokens,
+      },
     };
   }
 
@@ -188,6 +252,9 @@ export class SessionStats {
       stepCount: 0,
     };
     this.lastUsageSnapshot = { ...this.usage };
+    this.mainCostUsd = 0;
+    this.subagentCostUsd = 0;
+    this.unpricedTokens = 0;
     this.resetTrajectory();
   }
 }
@@ -0,0 +1,160 @@
+/**
+ * Per-subagent budgets
+ *
+ * A subagent can be capped by tokens, wall-clock time and tool calls. Limits
+ * come from the subagent's frontmatter (maxTokens, maxDurationMs,
+ * maxToolCalls) and can be overridden per Task call. The subagent manager
+ * stops a child that runs over budget and returns its partial report.
+ */
+
+export interface SubagentBudget {
+  /** Total tokens (prompt + completion) across all steps */
+  maxTokens?: number;
+  /** Wall-clock time from launch */
+  maxDurationMs?: number;
+  /** Tool calls started by the subagent */
+  maxToolCalls?: number;
+}
+
+export type SubagentBudgetLimit = keyof SubagentBudget;
+
+/**
+ * Resources a subagent has used so far
+ */
+export interface SubagentBudgetUsage {
+  tokens: number;
+  durationMs: number;
+  toolCalls: number;
+}
+
+/**
+ * The limit a subagent ran over, as reported in its result
+ */
+export interface SubagentBudgetExceeded {
+  limit: SubagentBudgetLimit;
+  max: number;
+  used: number;
+}
+
+const BUDGET_LIMITS: SubagentBudgetLimit[] = [
+  "maxTokens",
+  "maxDurationMs",
+  "maxToolCalls",
+];
+
+/**
+ * Parse a budget limit from frontmatter or tool arguments.
+ * Returns undefined for missing, non-numeric or non-positive values.
+ */
+export function parseBudgetLimit(
+  value: string | number | undefined,
+): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = typeof value === "number" ? value : Number(value.trim());
+  if (!Number.isFinite(parsed) || parsed <= 0) return undefined;
+  return Math.floor(parsed);
+}
+
+/**
+ * Combine a subagent config's budget with per-call overrides.
+ * Each override replaces the config's limit for that resource.
+ */
+export function resolveSubagentBudget(
+  config: SubagentBudget,
+  overrides: SubagentBudget = {},
+): SubagentBudget {
+  const budget: SubagentBudget = {};
+  for (const limit of BUDGET_LIMITS) {
+    const value =
+      parseBudgetLimit(overrides[limit]) ?? parseBudgetLimit(config[limit]);
+    if (value !== undefined) budget[limit] = value;
+  }
+  return budget;
+}
+
+export function hasBudget(budget: SubagentBudget | undefined): boolean {
+  return budget !== undefined && BUDGET_LIMITS.some((l) => budget[l]);
+}
+
+/**
+ * The first limit the usage has run over, or null when within budget.
+ * Tokens and time are exhausted on reaching the limit; tool calls only
+ * when one more than allowed is started.
+ */
+export function checkSubagentBudget(
+  budget: SubagentBudget,
+  usage: SubagentBudgetUsage,
+): SubagentBudgetExceeded | null {
+  if (budget.maxTokens !== undefined && usage.tokens >= budget.maxTokens) {
+    return { limit: "maxTokens", max: budget.maxTokens, used: usage.tokens };
+  }
+  if (
+    budget.maxDurationMs !== undefined &&
+    usage.durationMs >= budget.maxDurationMs
+  ) {
+    return {
+      limit: "maxDurationMs",
+      max: budget.maxDurationMs,
+      used: usage.durationMs,
+    };
+  }
+  if (
+    budget.maxToolCalls !== undefined &&
+    usage.toolCalls > budget.maxToolCalls
+  ) {
+    return {
+      limit: "maxToolCalls",
+      max: budget.maxToolCalls,
+      used: usage.toolCalls,
+    };
+  }
+  return null;
+}
+
+/**
+ * Format a duration budget, e.g. "4m 10s"
+ */
+export function formatBudgetDuration(ms: number): string {
+  if (ms < 1000) return `${Math.max(0, Math.round(ms))}ms`;
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * Describe an exceeded budget, e.g. "token budget of 50000 exhausted (50412 used)"
+ */
+export function formatBudgetExceeded(exceeded: SubagentBudgetExceeded): string {
+  switch (exceeded.limit) {
+    case "maxTokens":
+      return `token budget of ${exceeded.max} exhausted (${exceeded.used} used)`;
+    case "maxDurationMs":
+      return `time budget of ${formatBudgetDuration(exceeded.max)} exhausted`;
+    case "maxToolCalls":
+      return `tool call budget of ${exceeded.max} exhausted`;
+  }
+}
+
+/**
+ * What is left of each limit, clamped at zero. Unlimited resources are omitted.
+ */
+export function getRemainingBudget(
+  budget: SubagentBudget,
+  usage: SubagentBudgetUsage,
+): SubagentBudget {
+  const remaining: SubagentBudget = {};
+  if (budget.maxTokens !== undefined) {
+    remaining.maxTokens = Math.max(0, budget.maxTokens - usage.tokens);
+  }
+  if (budget.maxDurationMs !== undefined) {
+    remaining.maxDurationMs = Math.max(
+      0,
+      budget.maxDurationMs - usage.durationMs,
+    );
+  }
+  if (budget.maxToolCalls !== undefined) {
+    remaining.maxToolCalls = Math.max(0, budget.maxToolCalls - usage.toolCalls);
+  }
+  return remaining;
+}
@@ -16,6 +16,7 @@ import {
   parseFrontmatter,
 } from "../../utils/frontmatter";
 import { MEMORY_BLOCK_LABELS, type MemoryBlockLabel } from "../memory";
+import { parseBudgetLimit } from "./budget";
 
 // Built-in subagent definitions (embedded at build time)
 import exploreAgentMd from "./builtin/explore.md";
@@ -27,6 +28,7 @@ import memoryAgentMd from "./builtin/memory.md";
 
 import recallAgentMd from "./builtin/recall.md";
 import reflectionAgentMd from "./builtin/reflection.md";
+import { parseSubagentIsolation, type SubagentIsolation } from "./worktree";
 
 const BUILTIN_SOURCES = [
   exploreAgentMd,
@@ -40,7 +42,7 @@ const BUILTIN_SOURCES = [
 ];
 
 // Re-export for convenience
-export type { MemoryBlockLabel };
+export type { MemoryBlockLabel, SubagentIsolation };
 
 // ============================================================================
 // Types
@@ -74,6 +76,14 @@ export interface SubagentConfig {
   background: boolean;
   /** Permission mode for this subagent (default, acceptEdits, plan, memory, bypassPermissions) */
   permissionMode?: string;
+  /** Run in a temporary git worktree on its own branch ("worktree") */
+  isolation?: SubagentIsolation;
+  /** Stop the subagent once it has used this many tokens */
+  maxTokens?: number;
+  /** Stop the subagent after this much wall-clock time */
+  maxDurationMs?: number;
+  /** Stop the subagent when it starts more tool calls than this */
+  maxToolCalls?: number;
 }
 
 /**
@@ -215,6 +225,8 @@ function validateFrontmatter(frontmatter: Record<string, string | string[]>): {
   // Don't validate model or permissionMode here - they're handled at runtime:
   // - model: resolveModel() returns null for invalid values, subagent-manager falls back
   // - permissionMode: unknown values default to "default" behavior
+  // - isolation: unknown values run the subagent without isolation
+  // - maxTokens/maxDurationMs/maxToolCalls: invalid values mean no limit
 
   return { valid: errors.length === 0, errors };
 }
@@ -249,6 +261,12 @@ function parseSubagentContent(content: string): SubagentConfig {
     background:
       getStringField(frontmatter, "background")?.toLowerCase() === "true",
     permissionMode: getStringField(frontmatter, "permissionMode"),
+    isolation: parseSubagentIsolation(getStringField(frontmatter, "isolation")),
+    maxTokens: parseBudgetLimit(getStringField(frontmatter, "maxTokens")),
+    maxDurationMs: parseBudgetLimit(
+      getStringField(frontmatter, "maxDurationMs"),
+    ),
+    maxToolCalls: parseBudgetLimit(getStringField(frontmatter, "maxToolCalls")),
   };
 }
 
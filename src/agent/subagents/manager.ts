@@ -30,9 +30,29 @@ import { getErrorMessage } from "../../utils/error";
 import { getAvailableModelHandles } from "../available-models";
 import { getClient } from "../client";
 import { getCurrentAgentId } from "../context";
-import { getDefaultModelForTier, resolveModel } from "../model";
+import {
+  getDefaultModelForTier,
+  getModelPricing,
+  resolveModel,
+} from "../model";
+import { calculateUsageCost, type PricedUsage } from "../pricing";
 
 import { getAllSubagentConfigs, type SubagentConfig } from ".";
+import {
+  checkSubagentBudget,
+  formatBudgetExceeded,
+  hasBudget,
+  resolveSubagentBudget,
+  type SubagentBudget,
+  type SubagentBudgetExceeded,
+} from "./budget";
+import {
+  createSubagentWorktree,
+  finalizeSubagentWorktree,
+  type PreparedSubagentWorktree,
+  type SubagentIsolation,
+  type SubagentWorktree,
+} from "./worktree";
 
 // ============================================================================
 // Types
@@ -48,6 +68,12 @@ export interface SubagentResult {
   success: boolean;
   error?: string;
   totalTokens?: number;
+  /** Cost in USD, when the subagent's model has pricing */
+  costUsd?: number;
+  /** Worktree the subagent ran in, when run with worktree isolation */
+  worktree?: SubagentWorktree;
+  /** Set when the subagent was stopped for running over its budget */
+  budgetExceeded?: SubagentBudgetExceeded;
 }
 
 /**
@@ -61,8 +87,17 @@ interface ExecutionState {
   resultStats: { durationMs: number; totalTokens: number } | null;
   displayedToolCalls: Set<string>;
   pendingToolCalls: Map<string, { name: string; args: string }>;
+  /** Tokens reported by usage_statistics events so far */
+  tokensUsed: number;
+  /** Usage reported by usage_statistics events so far, priced at the end */
+  usage: PricedUsage;
+  /** Latest assistant message, returned as the partial report if stopped */
+  lastAssistantMessage: { id: string | null; text: string } | null;
 }
 
+/** Grace period between SIGTERM and SIGKILL for a subagent over budget */
+const BUDGET_STOP_GRACE_MS = 5000;
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -375,6 +410,71 @@ function handleResultEvent(
   });
 }
 
+/**
+ * Handle a usage_statistics message event (sent after each step)
+ */
+function handleUsageStatisticsEvent(
+  event: {
+    total_tokens?: number;
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    cached_input_tokens?: number | null;
+    cache_write_tokens?: number | null;
+    reasoning_tokens?: number | null;
+  },
+  state: ExecutionState,
+  subagentId: string,
+): void {
+  state.usage.promptTokens += event.prompt_tokens ?? 0;
+  state.usage.completionTokens += event.completion_tokens ?? 0;
+  state.usage.cachedInputTokens += event.cached_input_tokens ?? 0;
+  state.usage.cacheWriteTokens += event.cache_write_tokens ?? 0;
+  state.usage.reasoningTokens += event.reasoning_tokens ?? 0;
+  if (typeof event.total_tokens !== "number") return;
+  state.tokensUsed += event.total_tokens;
+  updateSubagent(subagentId, { totalTokens: state.tokensUsed });
+}
+
+/**
+ * Price the usage a subagent has reported. Returns undefined when the model
+ * is unknown or has no pricing.
+ */
+function getSubagentCost(
+  state: ExecutionState,
+  model: string | null,
+): number | undefined {
+  const pricing = model ? getModelPricing(model) : null;
+  return pricing ? calculateUsageCost(state.usage, pricing) : undefined;
+}
+
+function extractMessageText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part) =>
+      part && typeof part === "object" && typeof part.text === "string"
+        ? part.text
+        : "",
+    )
+    .join("");
+}
+
+/**
+ * Handle an assistant_message event, tracking the latest message text
+ */
+function handleAssistantMessageEvent(
+  event: { id?: string; otid?: string; content?: unknown },
+  state: ExecutionState,
+): void {
+  const id = event.otid || event.id || null;
+  const text = extractMessageText(event.content);
+  if (state.lastAssistantMessage && state.lastAssistantMessage.id === id) {
+    state.lastAssistantMessage.text += text;
+  } else if (text) {
+    state.lastAssistantMessage = { id, text };
+  }
+}
+
 /**
  * Process a single JSON event from the subagent stream
  */
@@ -399,6 +499,11 @@ function processStreamEvent(
         if (event.message_type === "approval_request_message") {
           handleApprovalRequestEvent(event, state);
         } else {
+          if (event.message_type === "usage_statistics") {
+            handleUsageStatisticsEvent(event, state, subagentId);
+          } else if (event.message_type === "assistant_message") {
+            handleAssistantMessageEvent(event, state);
+          }
           // Forward non-approval message events for WS streaming to the web UI.
           // Approval requests are internal to the subagent's permission flow.
           emitStreamEvent(subagentId, event);
@@ -653,6 +758,9 @@ async function executeSubagent(
   existingAgentId?: string,
   existingConversationId?: string,
   maxTurns?: number,
+  workingDirectory?: string,
+  budget?: SubagentBudget,
+  startedAt: number = Date.now(),
 ): Promise<SubagentResult> {
   // Check if already aborted before starting
   if (signal?.aborted) {
@@ -668,6 +776,9 @@ async function executeSubagent(
   if (model) {
     updateSubagent(subagentId, { model });
   }
+  if (budget) {
+    updateSubagent(subagentId, { budget });
+  }
 
   try {
     const cliArgs = buildSubagentArgs(
@@ -696,7 +807,8 @@ async function executeSubagent(
       process.env.LETTA_API_KEY || settings.env?.LETTA_API_KEY;
     const inheritedBaseUrl =
       process.env.LETTA_BASE_URL || settings.env?.LETTA_BASE_URL;
-    const subagentWorkingDirectory = resolveSubagentWorkingDirectory();
+    const subagentWorkingDirectory =
+      workingDirectory ?? resolveSubagentWorkingDirectory();
     const inheritedMemoryRoots = resolveAllowedMemoryRoots();
     const childEnv: NodeJS.ProcessEnv = {
       ...process.env,
@@ -704,6 +816,7 @@ async function executeSubagent(
       ...(inheritedBaseUrl && { LETTA_BASE_URL: inheritedBaseUrl }),
       LETTA_CODE_AGENT_ROLE: "subagent",
       ...(parentAgentId && { LETTA_PARENT_AGENT_ID: parentAgentId }),
+      ...(workingDirectory && { USER_CWD: workingDirectory }),
     };
 
     if (config.permissionMode === "memory") {
@@ -755,7 +868,55 @@ async function executeSubagent(
       resultStats: null,
       displayedToolCalls: new Set(),
       pendingToolCalls: new Map(),
+      tokensUsed: 0,
+      usage: {
+        promptTokens: 0,
+        completionTokens: 0,
+        cachedInputTokens: 0,
+        cacheWriteTokens: 0,
+        reasoningTokens: 0,
+      },
+      lastAssistantMessage: null,
+    };
+
+    // Budget enforcement: stop the child gracefully (SIGTERM, then SIGKILL
+    // after a grace period) and keep what it reported so far. The duration
+    // budget counts from the first attempt, so a retry gets what is left.
+    const budgetStop: { exceeded: SubagentBudgetExceeded | null } = {
+      exceeded: null,
+    };
+    let budgetKillTimer: ReturnType<typeof setTimeout> | undefined;
+    const stopForBudget = (exceeded: SubagentBudgetExceeded) => {
+      if (budgetStop.exceeded || wasAborted) return;
+      budgetStop.exceeded = exceeded;
+      proc.kill("SIGTERM");
+      budgetKillTimer = setTimeout(() => {
+        proc.kill("SIGKILL");
+      }, BUDGET_STOP_GRACE_MS);
+    };
+    const enforceBudget = () => {
+      if (!budget) return;
+      const exceeded = checkSubagentBudget(budget, {
+        tokens: state.tokensUsed,
+        durationMs: Date.now() - startedAt,
+        toolCalls: state.displayedToolCalls.size,
+      });
+      if (exceeded) stopForBudget(exceeded);
     };
+    const maxDurationMs = budget?.maxDurationMs;
+    const budgetDurationTimer =
+      maxDurationMs !== undefined
+        ? setTimeout(
+            () => {
+              stopForBudget({
+                limit: "maxDurationMs",
+                max: maxDurationMs,
+                used: Date.now() - startedAt,
+              });
+            },
+            Math.max(0, maxDurationMs - (Date.now() - startedAt)),
+          )
+        : undefined;
 
     // Create readline interface to parse JSON events line by line
     const rl = createInterface({
@@ -774,6 +935,7 @@ async function executeSubagent(
     rl.on("line", (line: string) => {
       stdoutChunks.push(Buffer.from(`${line}\n`));
       processStreamEvent(line, state, subagentId);
+      enforceBudget();
     });
 
     proc.stderr.on("data", (data: Buffer) => {
@@ -793,8 +955,10 @@ async function executeSubagent(
     }
     await rlClosedPromise;
 
-    // Clean up abort listener
+    // Clean up abort listener and budget timers
     signal?.removeEventListener("abort", abortHandler);
+    clearTimeout(budgetDurationTimer);
+    clearTimeout(budgetKillTimer);
 
     // Check if process was aborted by user
     if (wasAborted) {
@@ -807,6 +971,21 @@ async function executeSubagent(
       };
     }
 
+    // Stopped over budget - unless it finished before the stop took effect
+    const exceeded = budgetStop.exceeded;
+    if (exceeded && !(exitCode === 0 && state.finalResult !== null)) {
+      return {
+        agentId: state.agentId || "",
+        conversationId: state.conversationId || undefined,
+        report: state.finalResult || state.lastAssistantMessage?.text || "",
+        success: false,
+        error: `budget_exceeded: ${formatBudgetExceeded(exceeded)}`,
+        totalTokens: state.tokensUsed,
+        costUsd: getSubagentCost(state, model),
+        budgetExceeded: exceeded,
+      };
+    }
+
     const stderr = Buffer.concat(stderrChunks).toString("utf-8").trim();
 
     // Handle non-zero exit code
@@ -828,6 +1007,9 @@ async function executeSubagent(
             undefined, // existingAgentId
             undefined, // existingConversationId
             maxTurns,
+            workingDirectory,
+            budget,
+            startedAt,
           );
         }
       }
@@ -841,6 +1023,7 @@ async function executeSubagent(
         report: "",
         success: false,
         error: propagatedError || fallbackError,
+        costUsd: getSubagentCost(state, model),
       };
     }
 
@@ -853,6 +1036,7 @@ async function executeSubagent(
         success: !state.finalError,
         error: state.finalError || undefined,
         totalTokens: state.resultStats?.totalTokens,
+        costUsd: getSubagentCost(state, model),
       };
     }
 
@@ -865,6 +1049,7 @@ async function executeSubagent(
         success: false,
         error: state.finalError,
         totalTokens: state.resultStats?.totalTokens,
+        costUsd: getSubagentCost(state, model),
       };
     }
 
@@ -932,6 +1117,18 @@ ${SYSTEM_REMINDER_CLOSE}
 `;
 }
 
+function buildWorktreeSystemReminder(
+  worktree: PreparedSubagentWorktree,
+): string {
+  return `${SYSTEM_REMINDER_OPEN}
+You are running in an isolated git worktree at ${worktree.path} on branch ${worktree.branch}.
+Make all file changes inside this worktree, not in the original checkout at ${worktree.repoRoot}.
+Your changes stay on this branch for the caller to review and merge.
+${SYSTEM_REMINDER_CLOSE}
+
+`;
+}
+
 /**
  * Spawn a subagent and execute it autonomously
  *
@@ -942,6 +1139,8 @@ ${SYSTEM_REMINDER_CLOSE}
  * @param signal - Optional abort signal for interruption handling
  * @param existingAgentId - Optional ID of an existing agent to deploy
  * @param existingConversationId - Optional conversation ID to resume
+ * @param isolation - Optional isolation override; defaults to the config's
+ * @param budgetOverrides - Optional limits that replace the config's budget
  */
 export async function spawnSubagent(
   type: string,
@@ -953,6 +1152,8 @@ export async function spawnSubagent(
   existingConversationId?: string,
   maxTurns?: number,
   forkedContext?: boolean,
+  isolation?: SubagentIsolation,
+  budgetOverrides?: SubagentBudget,
 ): Promise<SubagentResult> {
   const allConfigs = await getAllSubagentConfigs();
   const config = allConfigs[type];
@@ -1007,20 +1208,53 @@ export async function spawnSubagent(
     }
   }
 
-  // Execute subagent - state updates are handled via the state store
-  const result = await executeSubagent(
-    type,
-    config,
-    model,
-    finalPrompt,
-    baseURL,
-    subagentId,
-    false,
-    signal,
-    existingAgentId,
-    existingConversationId,
-    maxTurns,
-  );
+  const budget = resolveSubagentBudget(config, budgetOverrides);
+
+  let worktree: PreparedSubagentWorktree | undefined;
+  if ((isolation ?? config.isolation) === "worktree") {
+    try {
+      worktree = await createSubagentWorktree(
+        resolveSubagentWorkingDirectory(),
+        subagentId,
+      );
+    } catch (error) {
+      return {
+        agentId: "",
+        report: "",
+        success: false,
+        error: getErrorMessage(error),
+      };
+    }
+    finalPrompt = buildWorktreeSystemReminder(worktree) + finalPrompt;
+  }
+
+  // Execute subagent - state updates are handled via the state store.
+  // An unchanged worktree is removed even if the run throws.
+  let result: SubagentResult;
+  let finalizedWorktree: SubagentWorktree | undefined;
+  try {
+    result = await executeSubagent(
+      type,
+      config,
+      model,
+      finalPrompt,
+      baseURL,
+      subagentId,
+      false,
+      signal,
+      existingAgentId,
+      existingConversationId,
+      maxTurns,
+      worktree?.workingDirectory,
+      hasBudget(budget) ? budget : undefined,
+    );
+  } finally {
+    if (worktree) {
+      finalizedWorktree = await finalizeSubagentWorktree(worktree);
+    }
+  }
 
-  return result;
+  return finalizedWorktree
+    ? { ...result, worktree: finalizedWorktree }
+    : result;
 }
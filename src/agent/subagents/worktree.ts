@@ -0,0 +1,179 @@
+/**
+ * Git worktree isolation for subagents
+ *
+ * A subagent with `isolation: "worktree"` runs in its own temporary
+ * worktree on a new branch, so its edits cannot collide with the parent or
+ * with other subagents. Worktrees the subagent left unchanged are removed
+ * when it finishes; worktrees with changes or commits are kept for review.
+ */
+
+import { execFile as execFileCb } from "node:child_process";
+import { mkdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { promisify } from "node:util";
+import { debugLog, debugWarn } from "../../utils/debug";
+import { getErrorMessage } from "../../utils/error";
+
+const execFile = promisify(execFileCb);
+
+export type SubagentIsolation = "worktree";
+
+export const SUBAGENT_ISOLATION_MODES: readonly SubagentIsolation[] = [
+  "worktree",
+];
+
+/**
+ * Worktree a subagent ran in, as reported in its result
+ */
+export interface SubagentWorktree {
+  /** Absolute path of the worktree root */
+  path: string;
+  /** Branch checked out in the worktree */
+  branch: string;
+  /** True when the worktree had no changes and was removed */
+  removed: boolean;
+}
+
+/**
+ * A worktree created for a running subagent
+ */
+export interface PreparedSubagentWorktree {
+  path: string;
+  branch: string;
+  /** Repository the worktree belongs to */
+  repoRoot: string;
+  /** Commit the branch was created from */
+  baseCommit: string;
+  /** Directory inside the worktree matching the parent's working directory */
+  workingDirectory: string;
+}
+
+/**
+ * Parse an isolation value from frontmatter or tool arguments.
+ * Returns undefined for missing or unknown values.
+ */
+export function parseSubagentIsolation(
+  value: string | undefined,
+): SubagentIsolation | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return SUBAGENT_ISOLATION_MODES.find((mode) => mode === normalized);
+}
+
+async function runGit(cwd: string, args: string[]): Promise<string> {
+  debugLog("subagent-worktree", `git ${args.join(" ")} (in ${cwd})`);
+  const result = await execFile("git", args, {
+    cwd,
+    maxBuffer: 10 * 1024 * 1024,
+    timeout: 60_000,
+  });
+  return result.stdout.toString().trim();
+}
+
+/**
+ * Directory that holds subagent worktrees
+ */
+export function getSubagentWorktreesDir(): string {
+  return join(tmpdir(), "letta-worktrees");
+}
+
+/**
+ * Create a worktree on a new branch for a subagent.
+ * The branch starts at the current HEAD of the repository containing
+ * `workingDirectory`. Throws when that directory is not in a git repository.
+ */
+export async function createSubagentWorktree(
+  workingDirectory: string,
+  subagentId: string,
+): Promise<PreparedSubagentWorktree> {
+  let repoRoot: string;
+  try {
+    repoRoot = await runGit(workingDirectory, ["rev-parse", "--show-toplevel"]);
+  } catch {
+    throw new Error(
+      `Worktree isolation requires a git repository, but ${workingDirectory} is not inside one`,
+    );
+  }
+
+  let baseCommit: string;
+  try {
+    baseCommit = await runGit(repoRoot, ["rev-parse", "--verify", "HEAD"]);
+  } catch {
+    throw new Error(
+      "Worktree isolation requires at least one commit in the repository",
+    );
+  }
+
+  // Keep the subagent in the same subdirectory the parent is working in
+  const prefix = await runGit(workingDirectory, ["rev-parse", "--show-prefix"]);
+
+  const branch = `letta/${subagentId}`;
+  const worktreesDir = getSubagentWorktreesDir();
+  await mkdir(worktreesDir, { recursive: true });
+  const path = join(worktreesDir, `${basename(repoRoot)}-${subagentId}`);
+
+  try {
+    await runGit(repoRoot, ["worktree", "add", "-b", branch, path, baseCommit]);
+  } catch (error) {
+    throw new Error(
+      `Failed to create worktree for subagent: ${getErrorMessage(error)}`,
+    );
+  }
+
+  return {
+    path,
+    branch,
+    repoRoot,
+    baseCommit,
+    workingDirectory: prefix ? join(path, prefix.replace(/\/$/, "")) : path,
+  };
+}
+
+/**
+ * Whether the worktree has uncommitted changes, untracked files or new commits
+ */
+async function hasWorktreeChanges(
+  worktree: PreparedSubagentWorktree,
+): Promise<boolean> {
+  const status = await runGit(worktree.path, ["status", "--porcelain"]);
+  if (status) return true;
+  const head = await runGit(worktree.path, ["rev-parse", "HEAD"]);
+  return head !== worktree.baseCommit;
+}
+
+/**
+ * Remove the worktree and its branch if the subagent left them unchanged.
+ * Worktrees that cannot be inspected are kept. Never throws.
+ */
+export async function finalizeSubagentWorktree(
+  worktree: PreparedSubagentWorktree,
+): Promise<SubagentWorktree> {
+  const kept: SubagentWorktree = {
+    path: worktree.path,
+    branch: worktree.branch,
+    removed: false,
+  };
+
+  try {
+    if (await hasWorktreeChanges(worktree)) {
+      return kept;
+    }
+    await runGit(worktree.repoRoot, ["worktree", "remove", worktree.path]);
+  } catch (error) {
+    debugWarn(
+      "subagent-worktree",
+      `Keeping worktree ${worktree.path}: ${getErrorMessage(error)}`,
+    );
+    return kept;
+  }
+
+  try {
+    await runGit(worktree.repoRoot, ["branch", "-D", worktree.branch]);
+  } catch (error) {
+    debugWarn(
+      "subagent-worktree",
+      `Failed to delete branch ${worktree.branch}: ${getErrorMessage(error)}`,
+    );
+  }
+  return { ...kept, removed: true };
+}
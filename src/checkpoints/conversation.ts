@@ -0,0 +1,83 @@
+/**
+ * Conversation rewind - moves the agent's context back to just before a
+ * checkpoint's user message.
+ *
+ * The API can only replace the in-context messages of an agent's default
+ * conversation (message_ids), so explicit conversations cannot be rewound.
+ */
+
+import type Letta from "@letta-ai/letta-client";
+import type { AgentState } from "@letta-ai/letta-client/resources/agents/agents";
+import type { Checkpoint } from "./manager.js";
+
+/** User messages searched (newest first) for the checkpoint's message */
+const MAX_USER_MESSAGES_SCANNED = 500;
+
+/**
+ * Why the checkpoint's conversation cannot be rewound, or null if it can
+ */
+export function getConversationRewindBlocker(
+  checkpoint: Checkpoint,
+): string | null {
+  if (checkpoint.conversationId !== "default") {
+    return `Conversation ${checkpoint.conversationId} cannot be rewound; only the agent's default conversation can. Use /fork or /new to start over instead`;
+  }
+  if (checkpoint.agentId === null || checkpoint.otid === null) {
+    return "The turn's message cannot be located in the conversation";
+  }
+  return null;
+}
+
+export function canRewindConversation(checkpoint: Checkpoint): boolean {
+  return getConversationRewindBlocker(checkpoint) === null;
+}
+
+/**
+ * Drop the checkpoint's user message and everything after it from the
+ * agent's context. Returns the number of messages removed.
+ */
+export async function rewindConversation(
+  client: Letta,
+  checkpoint: Checkpoint,
+): Promise<number> {
+  const { agentId, otid } = checkpoint;
+  const blocker = getConversationRewindBlocker(checkpoint);
+  if (blocker || !agentId || !otid) {
+    throw new Error(blocker ?? "The turn cannot be rewound");
+  }
+
+  let messageId: string | null = null;
+  let scanned = 0;
+  for await (const message of client.agents.messages.list(agentId, {
+    conversation_id: "default",
+    order: "desc",
+    limit: 50,
+    include_return_message_types: ["user_message"],
+  })) {
+    if (message.otid === otid) {
+      messageId = message.id;
+      break;
+    }
+    scanned += 1;
+    if (scanned >= MAX_USER_MESSAGES_SCANNED) break;
+  }
+  if (!messageId) {
+    throw new Error("The turn's message was not found in the conversation");
+  }
+
+  const agent = (await client.agents.retrieve(agentId)) as AgentState & {
+    in_context_message_ids?: string[] | null;
+  };
+  const inContextIds = agent.in_context_message_ids ?? agent.message_ids ?? [];
+  const index = inContextIds.indexOf(messageId);
+  if (index === -1) {
+    throw new Error(
+      "The turn is no longer in the agent's context (it may have been compacted)",
+    );
+  }
+
+  await client.agents.update(agentId, {
+    message_ids: inContextIds.slice(0, index),
+  });
+  return inContextIds.length - index;
+}
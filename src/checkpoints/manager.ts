@@ -0,0 +1,337 @@
+/**
+ * Checkpoint Manager - Keeps the pre-image of every file a client-side edit
+ * tool modifies, grouped by the user turn that made the change, so /rewind
+ * can put the working tree back as it was before any earlier turn.
+ *
+ * Snapshots are plain file contents held in memory for the session; no git
+ * repository is needed. Past a memory budget, further snapshots are spilled
+ * to a temporary directory that is removed on exit.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { getMutatedFilePaths } from "../tools/file-mutations.js";
+import { debugWarn } from "../utils/debug.js";
+import { getErrorMessage } from "../utils/error.js";
+
+/** Larger files are noted but not snapshotted */
+const MAX_SNAPSHOT_BYTES = 10 * 1024 * 1024;
+
+/** Snapshot bytes kept in memory before spilling to disk */
+const DEFAULT_MEMORY_LIMIT_BYTES = 64 * 1024 * 1024;
+
+/**
+ * A file as it was before the turn first modified it
+ */
+export interface FileSnapshot {
+  path: string;
+  /** False when the turn created the file; restoring deletes it */
+  existed: boolean;
+  content: Buffer | null;
+  /** Where the content was spilled to when over the memory budget */
+  spillPath?: string;
+  /** Too large to snapshot; cannot be restored */
+  tooLarge?: boolean;
+}
+
+/**
+ * One user turn and the files it changed
+ */
+export interface Checkpoint {
+  /** Turn id (the transcript id of the user message) */
+  id: string;
+  /** otid of the user message, used to find it in the conversation */
+  otid: string | null;
+  conversationId: string;
+  agentId: string | null;
+  /** The user's message text */
+  prompt: string;
+  createdAt: number;
+  /** Runs the turn produced */
+  runIds: string[];
+  /** Pre-images by absolute path, in the order the files were first changed */
+  files: Map<string, FileSnapshot>;
+}
+
+export interface RestoreFilesResult {
+  restored: string[];
+  deleted: string[];
+  errors: string[];
+}
+
+function snapshotFile(filePath: string): FileSnapshot {
+  if (!existsSync(filePath)) {
+    return { path: filePath, existed: false, content: null };
+  }
+  if (statSync(filePath).size > MAX_SNAPSHOT_BYTES) {
+    return { path: filePath, existed: true, content: null, tooLarge: true };
+  }
+  return { path: filePath, existed: true, content: readFileSync(filePath) };
+}
+
+/**
+ * Global checkpoint manager singleton
+ */
+export class CheckpointManager {
+  private static instance: CheckpointManager | null = null;
+  private checkpoints: Checkpoint[] = [];
+  private current: Checkpoint | null = null;
+  private memoryLimitBytes = DEFAULT_MEMORY_LIMIT_BYTES;
+  private inMemoryBytes = 0;
+  private spillDir: string | null = null;
+  private spillCount = 0;
+  private exitCleanupRegistered = false;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): CheckpointManager {
+    if (!CheckpointManager.instance) {
+      CheckpointManager.instance = new CheckpointManager();
+    }
+    return CheckpointManager.instance;
+  }
+
+  /**
+   * Start a checkpoint for a new user turn. File changes are recorded
+   * against it until the next turn begins.
+   */
+  beginTurn(turn: {
+    id: string;
+    otid?: string | null;
+    conversationId: string;
+    agentId?: string | null;
+    prompt: string;
+  }): Checkpoint {
+    const checkpoint: Checkpoint = {
+      id: turn.id,
+      otid: turn.otid ?? null,
+      conversationId: turn.conversationId,
+      agentId: turn.agentId ?? null,
+      prompt: turn.prompt,
+      createdAt: Date.now(),
+      runIds: [],
+      files: new Map(),
+    };
+    this.checkpoints.push(checkpoint);
+    this.current = checkpoint;
+    return checkpoint;
+  }
+
+  /**
+   * Associate a run with the current turn
+   */
+  recordRun(runId: string): void {
+    if (this.current && !this.current.runIds.includes(runId)) {
+      this.current.runIds.push(runId);
+    }
+  }
+
+  /**
+   * Snapshot the files a tool call is about to change. Only the first change
+   * to a file in a turn is kept. Does nothing outside a turn; never throws.
+   */
+  captureFileMutation(
+    toolName: string,
+    args: Record<string, unknown>,
+    workingDirectory: string,
+  ): void {
+    const checkpoint = this.current;
+    if (!checkpoint) return;
+    for (const filePath of getMutatedFilePaths(
+      toolName,
+      args,
+      workingDirectory,
+      { includeDeleted: true },
+    )) {
+      if (checkpoint.files.has(filePath)) continue;
+      try {
+        checkpoint.files.set(filePath, this.store(snapshotFile(filePath)));
+      } catch (error) {
+        debugWarn(
+          "checkpoints",
+          `Failed to snapshot ${filePath}: ${getErrorMessage(error)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Checkpoints, oldest first (optionally only those of one conversation)
+   */
+  list(conversationId?: string): Checkpoint[] {
+    return this.checkpoints.filter(
+      (checkpoint) =>
+        conversationId === undefined ||
+        checkpoint.conversationId === conversationId,
+    );
+  }
+
+  get(id: string): Checkpoint | undefined {
+    return this.checkpoints.find((checkpoint) => checkpoint.id === id);
+  }
+
+  /**
+   * Put every file changed by the checkpoint's turn or any later turn of
+   * the same conversation back as it was before that turn. The snapshots
+   * used are dropped, since the changes they undo no longer exist.
+   */
+  restoreFiles(id: string): RestoreFilesResult {
+    const result: RestoreFilesResult = {
+      restored: [],
+      deleted: [],
+      errors: [],
+    };
+    const affected = this.getCheckpointsFrom(id);
+
+    // The earliest snapshot of a file is its state before the target turn
+    const preImages = new Map<string, FileSnapshot>();
+    for (const checkpoint of affected) {
+      for (const [filePath, snapshot] of checkpoint.files) {
+        if (!preImages.has(filePath)) preImages.set(filePath, snapshot);
+      }
+    }
+
+    for (const snapshot of preImages.values()) {
+      try {
+        if (snapshot.tooLarge) {
+          result.errors.push(
+            `${snapshot.path}: too large to snapshot, left unchanged`,
+          );
+        } else if (snapshot.existed) {
+          const content =
+            snapshot.content ??
+            (snapshot.spillPath ? readFileSync(snapshot.spillPath) : null);
+          if (!content) continue;
+          mkdirSync(path.dirname(snapshot.path), { recursive: true });
+          writeFileSync(snapshot.path, content);
+          result.restored.push(snapshot.path);
+        } else if (!snapshot.existed && existsSync(snapshot.path)) {
+          rmSync(snapshot.path, { force: true });
+          result.deleted.push(snapshot.path);
+        }
+      } catch (error) {
+        result.errors.push(`${snapshot.path}: ${getErrorMessage(error)}`);
+      }
+    }
+
+    for (const checkpoint of affected) {
+      this.release(checkpoint);
+    }
+    return result;
+  }
+
+  /**
+   * Forget the checkpoint and every later one of the same conversation
+   * (after their turns were removed from the conversation)
+   */
+  truncate(id: string): void {
+    const removed = new Set(this.getCheckpointsFrom(id));
+    for (const checkpoint of removed) {
+      this.release(checkpoint);
+    }
+    this.checkpoints = this.checkpoints.filter(
+      (checkpoint) => !removed.has(checkpoint),
+    );
+    if (this.current && removed.has(this.current)) {
+      this.current = null;
+    }
+  }
+
+  /**
+   * Forget all checkpoints
+   */
+  clear(): void {
+    for (const checkpoint of this.checkpoints) {
+      this.release(checkpoint);
+    }
+    this.checkpoints = [];
+    this.current = null;
+    this.inMemoryBytes = 0;
+    this.removeSpillDir();
+  }
+
+  /**
+   * Override the in-memory snapshot budget (useful for tests)
+   */
+  setMemoryLimit(bytes: number): void {
+    this.memoryLimitBytes = bytes;
+  }
+
+  /**
+   * Keep the snapshot in memory, or spill its content to disk when that
+   * would exceed the memory budget
+   */
+  private store(snapshot: FileSnapshot): FileSnapshot {
+    const content = snapshot.content;
+    if (!content) return snapshot;
+    if (this.inMemoryBytes + content.length <= this.memoryLimitBytes) {
+      this.inMemoryBytes += content.length;
+      return snapshot;
+    }
+    if (!this.spillDir) {
+      this.spillDir = mkdtempSync(path.join(tmpdir(), "letta-checkpoints-"));
+      if (!this.exitCleanupRegistered) {
+        this.exitCleanupRegistered = true;
+        process.on("exit", () => this.removeSpillDir());
+      }
+    }
+    this.spillCount += 1;
+    const spillPath = path.join(this.spillDir, String(this.spillCount));
+    writeFileSync(spillPath, content);
+    return { ...snapshot, content: null, spillPath };
+  }
+
+  /**
+   * Drop a checkpoint's snapshots, freeing their memory and spill files
+   */
+  private release(checkpoint: Checkpoint): void {
+    for (const snapshot of checkpoint.files.values()) {
+      if (snapshot.content) {
+        this.inMemoryBytes -= snapshot.content.length;
+      } else if (snapshot.spillPath) {
+        rmSync(snapshot.spillPath, { force: true });
+      }
+    }
+    checkpoint.files.clear();
+  }
+
+  private removeSpillDir(): void {
+    if (!this.spillDir) return;
+    try {
+      rmSync(this.spillDir, { recursive: true, force: true });
+    } catch (error) {
+      debugWarn(
+        "checkpoints",
+        `Failed to remove ${this.spillDir}: ${getErrorMessage(error)}`,
+      );
+    }
+    this.spillDir = null;
+  }
+
+  private getCheckpointsFrom(id: string): Checkpoint[] {
+    const target = this.get(id);
+    if (!target) {
+      throw new Error(`Checkpoint not found: ${id}`);
+    }
+    const index = this.checkpoints.indexOf(target);
+    return this.checkpoints
+      .slice(index)
+      .filter(
+        (checkpoint) => checkpoint.conversationId === target.conversationId,
+      );
+  }
+}
+
+// Export singleton instance
+export const checkpointManager = CheckpointManager.getInstance();
@@ -59,6 +59,7 @@ import { getStreamToolContextId, sendMessageStream } from "../agent/message";
 import {
   getModelInfo,
   getModelInfoForLlmConfig,
+  getModelPricing,
   getModelShortName,
   type ModelReasoningEffort,
 } from "../agent/model";
@@ -69,6 +70,11 @@ import {
   getPersonalityOption,
   type PersonalityId,
 } from "../agent/personality";
+import {
+  checkSpendThresholds,
+  formatSpendThresholdMessage,
+  type ModelPricing,
+} from "../agent/pricing";
 import {
   INTERRUPT_RECOVERY_ALERT,
   shouldRecommendDefaultPrompt,
@@ -76,6 +82,12 @@ import {
 import { reconcileExistingAgentState } from "../agent/reconcileExistingAgentState";
 import { recordSessionEnd } from "../agent/sessionHistory";
 import { SessionStats } from "../agent/stats";
+import {
+  canRewindConversation,
+  getConversationRewindBlocker,
+  rewindConversation,
+} from "../checkpoints/conversation";
+import { checkpointManager } from "../checkpoints/manager";
 import {
   DEFAULT_SUMMARIZATION_MODEL,
   INTERRUPTED_BY_USER,
@@ -86,6 +98,9 @@ import {
   SYSTEM_REMINDER_OPEN,
 } from "../constants";
 import {
+  type HookExecutionResult,
+  runConversationForkHooks,
+  runModelSwitchHooks,
   runNotificationHooks,
   runPreCompactHooks,
   runSessionEndHooks,
@@ -106,6 +121,11 @@ import {
   type RalphState,
   ralphMode,
 } from "../ralph/mode";
+import {
+  buildVerificationFailureFeedback,
+  formatRalphSummary,
+  runVerifyCommand,
+} from "../ralph/verify";
 import { buildSharedReminderParts } from "../reminders/engine";
 import { getPlanModeReminder } from "../reminders/planModeReminder";
 import {
@@ -124,6 +144,7 @@ import {
   executeTool,
   getToolNames,
   releaseToolExecutionContext,
+  restrictToolExecutionContext,
   savePermissionRule,
   type ToolExecutionResult,
 } from "../tools/manager";
@@ -141,8 +162,10 @@ import {
   isDebugEnabled,
 } from "../utils/debug";
 import { getVersion } from "../version";
+import type { CustomCommandTurn } from "./commands/custom";
 import {
   handleMcpAdd,
+  handleMcpLocalCommand,
   type McpCommandContext,
   setActiveCommandId as setActiveMcpCommandId,
 } from "./commands/mcp";
@@ -157,6 +180,11 @@ import {
   setActiveCommandId as setActiveProfileCommandId,
   validateProfileLoad,
 } from "./commands/profile";
+import {
+  formatRewindResult,
+  REWIND_MODES,
+  type RewindMode,
+} from "./commands/rewind";
 import {
   type CommandFinishedEvent,
   type CommandHandle,
@@ -193,6 +221,7 @@ import { PersonalitySelector } from "./components/PersonalitySelector";
 import { PinDialog, validateAgentName } from "./components/PinDialog";
 import { ProviderSelector } from "./components/ProviderSelector";
 import { ReasoningMessage } from "./components/ReasoningMessageRich";
+import { RewindSelector } from "./components/RewindSelector";
 import { formatDuration, formatUsageStats } from "./components/SessionStats";
 import { SkillsDialog } from "./components/SkillsDialog";
 import { SleeptimeSelector } from "./components/SleeptimeSelector";
@@ -252,6 +281,7 @@ import { parsePatchOperations } from "./helpers/formatArgsDisplay";
 import {
   buildDoctorMessage,
   buildInitMessage,
+  gatherDoctorMemoryLint,
   gatherInitGitContext,
 } from "./helpers/initCommand";
 import {
@@ -294,7 +324,10 @@ import {
   resolveStatusLineConfig,
 } from "./helpers/statusLineConfig";
 import { formatStatusLineHelp } from "./helpers/statusLineHelp";
-import { buildStatusLinePayload } from "./helpers/statusLinePayload";
+import {
+  buildStatusLinePayload,
+  getStatusLineCostInput,
+} from "./helpers/statusLinePayload";
 import { executeStatusLineCommand } from "./helpers/statusLineRuntime";
 import {
   type ApprovalRequest,
@@ -315,6 +348,7 @@ import {
   getSnapshot as getSubagentSnapshot,
   hasActiveSubagents,
   interruptActiveSubagents,
+  subscribeToSubagentCosts,
   subscribe as subscribeToSubagents,
 } from "./helpers/subagentState";
 import {
@@ -627,6 +661,9 @@ const NON_STATE_COMMANDS = new Set([
   "/statusline",
   "/reasoning-tab",
   "/secret",
+  "/permissions",
+  "/lsp",
+  "/spend",
 ]);
 
 // Check if a command is interactive (opens overlay, should not be queued)
@@ -906,9 +943,18 @@ function parseRalphArgs(input: string): {
   prompt: string | null;
   completionPromise: string | null | undefined; // undefined = use default, null = no promise
   maxIterations: number;
+  verifyCommand: string | null;
 } {
   let rest = input.replace(/^\/(yolo-)?ralph\s*/, "");
 
+  // Extract --verify "command" (matching quotes, so commands may contain the other kind)
+  let verifyCommand: string | null = null;
+  const verifyMatch = rest.match(/--verify\s+(["'])([\s\S]*?)\1/);
+  if (verifyMatch) {
+    verifyCommand = verifyMatch[2]?.trim() || null;
+    rest = rest.replace(/--verify\s+(["'])[\s\S]*?\1\s*/, "");
+  }
+
   // Extract --completion-promise "value" or --completion-promise 'value'
   // Also handles --completion-promise "" or none for opt-out
   let completionPromise: string | null | undefined;
@@ -926,7 +972,7 @@ function parseRalphArgs(input: string): {
 
   // Remaining text is the inline prompt (may be quoted)
   const prompt = rest.trim().replace(/^["']|["']$/g, "") || null;
-  return { prompt, completionPromise, maxIterations };
+  return { prompt, completionPromise, maxIterations, verifyCommand };
 }
 
 // Build Ralph first-turn reminder (when activating)
@@ -966,6 +1012,13 @@ IMPORTANT - Do not circumvent the loop:
   true naturally. Do not force it by lying.
 ═══════════════════════════════════════════════════════════
 `;
+    if (state.verifyCommand) {
+      reminder += `
+VERIFICATION GATE: when you output the promise, \`${state.verifyCommand}\` is run.
+The promise is only accepted if it exits successfully; otherwise the loop
+continues and its output is sent back to you.
+`;
+    }
   } else {
     reminder += `
 No completion promise set - loop runs until --max-iterations or ESC/Shift+Tab to exit.
@@ -1410,6 +1463,7 @@ export default function App({
     completionPromise: string | null | undefined;
     maxIterations: number;
     isYolo: boolean;
+    verifyCommand: string | null;
   } | null>(null);
 
   // Track ralph mode for UI updates (singleton state doesn't trigger re-renders)
@@ -1540,6 +1594,7 @@ export default function App({
     | "hooks"
     | "connect"
     | "skills"
+    | "rewind"
     | null;
   const [activeOverlay, setActiveOverlay] = useState<ActiveOverlay>(null);
   const pendingOverlayCommandRef = useRef<{
@@ -1703,6 +1758,11 @@ export default function App({
       ? `${llmConfig.model_endpoint_type}/${llmConfig.model}`
       : (llmConfig?.model ?? null)) ||
     null;
+  // Pricing of the active model, read when usage is synced after each stream
+  const currentModelPricingRef = useRef<ModelPricing | null>(null);
+  currentModelPricingRef.current = currentModelLabel
+    ? getModelPricing(currentModelLabel)
+    : null;
 
   // Derive reasoning effort from model_settings (canonical) with llm_config as legacy fallback.
   // When a conversation override is active, the server may still return an agent llm_config
@@ -1857,6 +1917,15 @@ export default function App({
     trajectorySegmentStartRef.current = null;
   }, []);
 
+  // Add finished subagents' costs to the session and trajectory totals
+  useEffect(
+    () =>
+      subscribeToSubagentCosts((costUsd) => {
+        sessionStatsRef.current.recordSubagentCost(costUsd);
+      }),
+    [],
+  );
+
   // Wire up session stats to telemetry for safety net handlers
   useEffect(() => {
     telemetry.setSessionStatsGetter(() =>
@@ -2092,33 +2161,46 @@ export default function App({
     approvalToolContextIdRef.current = null;
     releaseToolExecutionContext(contextId);
   }, []);
+  // Model and tool restrictions from the custom command that started the
+  // current turn. Kept through approval continuations; cleared by the next
+  // user submission.
+  const customCommandTurnRef = useRef<CustomCommandTurn | null>(null);
   const prepareScopedToolExecutionContext = useCallback(
-    async (overrideModel?: string | null) => {
+    async (requestedModel?: string | null) => {
       const workingDirectory = process.env.USER_CWD || process.cwd();
+      const commandTurn = customCommandTurnRef.current;
+      const overrideModel = commandTurn?.model ?? requestedModel;
       const desiredModel = overrideModel ?? currentModelHandle;
 
-      if (desiredModel) {
-        return prepareToolExecutionContextForResolvedTarget({
-          modelIdentifier: desiredModel,
-          toolsetPreference: currentToolsetPreference,
-          workingDirectory,
-        });
-      }
+      const prepared = desiredModel
+        ? await prepareToolExecutionContextForResolvedTarget({
+            modelIdentifier: desiredModel,
+            toolsetPreference: currentToolsetPreference,
+            workingDirectory,
+          })
+        : agentIdRef.current
+          ? await prepareToolExecutionContextForScope({
+              agentId: agentIdRef.current,
+              conversationId: conversationIdRef.current,
+              overrideModel,
+              workingDirectory,
+            })
+          : await prepareToolExecutionContextForResolvedTarget({
+              modelIdentifier: null,
+              toolsetPreference: currentToolsetPreference,
+              workingDirectory,
+            });
 
-      if (agentIdRef.current) {
-        return prepareToolExecutionContextForScope({
-          agentId: agentIdRef.current,
-          conversationId: conversationIdRef.current,
-          overrideModel,
-          workingDirectory,
-        });
+      if (!commandTurn?.allowedTools) {
+        return prepared;
       }
-
-      return prepareToolExecutionContextForResolvedTarget({
-        modelIdentifier: null,
-        toolsetPreference: currentToolsetPreference,
-        workingDirectory,
-      });
+      return {
+        ...prepared,
+        preparedToolContext: restrictToolExecutionContext(
+          prepared.preparedToolContext,
+          commandTurn.allowedTools,
+        ),
+      };
     },
     [currentModelHandle, currentToolsetPreference],
   );
@@ -2750,6 +2832,10 @@ export default function App({
     lastRunId: lastRunIdRef.current,
     totalDurationMs: sessionStatsSnapshot.totalWallMs,
     totalApiDurationMs: sessionStatsSnapshot.totalApiMs,
+    ...getStatusLineCostInput(
+      sessionStatsSnapshot,
+      sessionStatsRef.current.getTrajectorySnapshot(),
+    ),
     totalInputTokens: sessionStatsSnapshot.usage.promptTokens,
     totalOutputTokens: sessionStatsSnapshot.usage.completionTokens,
     contextWindowSize,
@@ -3770,6 +3856,31 @@ export default function App({
     [refreshDerived, currentModelId],
   );
 
+  // Warn once when the session's spend reaches the warning threshold.
+  // Returns a message once it has reached the hard limit.
+  const spendWarningShownRef = useRef(false);
+  const checkSpendLimit = useCallback((): string | null => {
+    const thresholds = settingsManager.getSettings().spendThresholds;
+    const totalUsd = sessionStatsRef.current.getTotalCostUsd();
+    const status = checkSpendThresholds(totalUsd, thresholds);
+    if (!status || !thresholds) return null;
+    if (status === "stop") {
+      return formatSpendThresholdMessage(status, totalUsd, thresholds);
+    }
+    if (!spendWarningShownRef.current) {
+      spendWarningShownRef.current = true;
+      const statusId = uid("status");
+      buffersRef.current.byId.set(statusId, {
+        kind: "status",
+        id: statusId,
+        lines: [formatSpendThresholdMessage(status, totalUsd, thresholds)],
+      });
+      buffersRef.current.order.push(statusId);
+      refreshDerived();
+    }
+    return null;
+  }, [refreshDerived]);
+
   const updateMemorySyncCommand = useCallback(
     (
       commandId: string,
@@ -3924,8 +4035,18 @@ export default function App({
         allowReentry?: boolean;
         submissionGeneration?: number;
         transcriptStartLineIndex?: number | null;
+        customCommand?: CustomCommandTurn;
       },
     ): Promise<void> => {
+      // A new user turn replaces the custom command restrictions of the
+      // previous turn; approval results and reentries continue it.
+      if (
+        !options?.allowReentry &&
+        !initialInput.some((item) => item.type === "approval")
+      ) {
+        customCommandTurnRef.current = options?.customCommand ?? null;
+      }
+
       // Transient pre-stream retries can yield for seconds.
       // Pin the user's permission mode for the duration of the submission so
       // auto-approvals (YOLO / bypassPermissions) don't regress after a retry.
@@ -3981,9 +4102,34 @@ export default function App({
       }
       // Helper function for Ralph Wiggum mode continuation
       // Defined here to have access to buffersRef, processConversation via closure
-      const handleRalphContinuation = () => {
+      const handleRalphContinuation = async () => {
         const ralphState = ralphMode.getState();
 
+        const addRalphStatus = (lines: string[]) => {
+          const statusId = uid("status");
+          buffersRef.current.byId.set(statusId, {
+            kind: "status",
+            id: statusId,
+            lines,
+          });
+          buffersRef.current.order.push(statusId);
+          refreshDerived();
+          return statusId;
+        };
+
+        // Exit ralph mode with a per-iteration summary
+        const endRalphLoop = (headline: string) => {
+          const finalState = ralphMode.getState();
+          const wasYolo = finalState.isYolo;
+          ralphMode.deactivate();
+          setUiRalphActive(false);
+          if (wasYolo) {
+            permissionMode.setMode("default");
+            setUiPermissionMode("default");
+          }
+          addRalphStatus([headline, ...formatRalphSummary(finalState)]);
+        };
+
         // Extract LAST assistant message from buffers to check for promise
         // (We only want to check the most recent response, not the entire transcript)
         const lines = toLines(buffersRef.current);
@@ -3996,52 +4142,76 @@ export default function App({
             : "";
 
         // Check for completion promise
+        let verificationFeedback: string | null = null;
         if (ralphMode.checkForPromise(lastAssistantText)) {
-          // Promise matched - exit ralph mode
-          const wasYolo = ralphState.isYolo;
-          ralphMode.deactivate();
-          setUiRalphActive(false);
-          if (wasYolo) {
-            permissionMode.setMode("default");
-            setUiPermissionMode("default");
+          const verifyCommand = ralphState.verifyCommand;
+          if (!verifyCommand) {
+            // Promise matched - exit ralph mode
+            ralphMode.recordIteration({ promiseDetected: true });
+            endRalphLoop(
+              `✅ Ralph loop complete: promise detected after ${ralphState.currentIteration} iteration(s)`,
+            );
+            return;
           }
 
-          // Add completion status to transcript
-          const statusId = uid("status");
-          buffersRef.current.byId.set(statusId, {
+          // Promise matched - only accept it if the verify command passes.
+          // Stay busy while it runs so input is queued and ESC interrupts it.
+          const verifyStatusId = addRalphStatus([
+            `🧪 Ralph verify: running ${verifyCommand}...`,
+          ]);
+          setStreaming(true);
+          const verification = await runVerifyCommand(verifyCommand, {
+            signal: abortControllerRef.current?.signal,
+          });
+          if (myGeneration !== conversationGenerationRef.current) {
+            // Interrupted: the loop pauses like any other interrupted turn
+            buffersRef.current.byId.set(verifyStatusId, {
+              kind: "status",
+              id: verifyStatusId,
+              lines: [
+                `🧪 Ralph verify interrupted: ${verifyCommand}`,
+                `⏸️ Ralph loop paused - type to continue or shift+tab to exit`,
+              ],
+            });
+            refreshDerived();
+            return;
+          }
+          setStreaming(false);
+          ralphMode.recordIteration({ promiseDetected: true, verification });
+          buffersRef.current.byId.set(verifyStatusId, {
             kind: "status",
-            id: statusId,
+            id: verifyStatusId,
             lines: [
-              `✅ Ralph loop complete: promise detected after ${ralphState.currentIteration} iteration(s)`,
+              verification.passed
+                ? `🧪 Ralph verify passed: ${verifyCommand}`
+                : `🧪 Ralph verify failed (${verification.timedOut ? "timed out" : `exit ${verification.exitCode ?? "?"}`}): ${verifyCommand}`,
             ],
           });
-          buffersRef.current.order.push(statusId);
           refreshDerived();
-          return;
+
+          // The loop may have been exited (shift+tab) while verifying
+          if (!ralphMode.getState().isActive) return;
+
+          if (verification.passed) {
+            endRalphLoop(
+              `✅ Ralph loop complete: promise verified after ${ralphState.currentIteration} iteration(s)`,
+            );
+            return;
+          }
+          verificationFeedback = buildVerificationFailureFeedback(
+            verifyCommand,
+            verification,
+          );
+        } else {
+          ralphMode.recordIteration({ promiseDetected: false });
         }
 
         // Check iteration limit
         if (!ralphMode.shouldContinue()) {
           // Max iterations reached - exit ralph mode
-          const wasYolo = ralphState.isYolo;
-          ralphMode.deactivate();
-          setUiRalphActive(false);
-          if (wasYolo) {
-            permissionMode.setMode("default");
-            setUiPermissionMode("default");
-          }
-
-          // Add status to transcript
-          const statusId = uid("status");
-          buffersRef.current.byId.set(statusId, {
-            kind: "status",
-            id: statusId,
-            lines: [
-              `🛑 Ralph loop: Max iterations (${ralphState.maxIterations}) reached`,
-            ],
-          });
-          buffersRef.current.order.push(statusId);
-          refreshDerived();
+          endRalphLoop(
+            `🛑 Ralph loop: Max iterations (${ralphState.maxIterations}) reached`,
+          );
           return;
         }
 
@@ -4049,6 +4219,9 @@ export default function App({
         ralphMode.incrementIteration();
         const newState = ralphMode.getState();
         const systemMsg = buildRalphContinuationReminder(newState);
+        const feedback = verificationFeedback
+          ? `${SYSTEM_REMINDER_OPEN}\n${verificationFeedback}\n${SYSTEM_REMINDER_CLOSE}\n\n`
+          : "";
 
         // Re-inject original prompt with ralph reminder prepended
         // Use setTimeout to avoid blocking the current render cycle
@@ -4058,7 +4231,7 @@ export default function App({
               {
                 type: "message",
                 role: "user",
-                content: `${systemMsg}\n\n${newState.originalPrompt}`,
+                content: `${systemMsg}\n\n${feedback}${newState.originalPrompt}`,
                 otid: randomUUID(),
               },
             ],
@@ -4237,6 +4410,22 @@ export default function App({
             return;
           }
 
+          // Hard spend limit: stop before sending new input. Approval
+          // continuations still go out, or the run would be left stuck in
+          // requires_approval.
+          const hasApprovalContinuation = currentInput.some(
+            (item) => item.type === "approval",
+          );
+          const spendLimitMessage = hasApprovalContinuation
+            ? null
+            : checkSpendLimit();
+          if (spendLimitMessage) {
+            appendError(spendLimitMessage, true);
+            setStreaming(false);
+            closeTrajectorySegment();
+            return;
+          }
+
           // Inject queued skill content as user message parts (LET-7353)
           // This centralizes skill content injection so all approval-send paths
           // automatically get skill SKILL.md content alongside tool results.
@@ -4275,7 +4464,10 @@ export default function App({
               currentInput,
               {
                 agentId: agentIdRef.current,
-                overrideModel: tempModelOverrideRef.current ?? undefined,
+                overrideModel:
+                  customCommandTurnRef.current?.model ??
+                  tempModelOverrideRef.current ??
+                  undefined,
                 preparedToolContext: preparedToolContext.preparedToolContext,
               },
             );
@@ -4840,11 +5032,13 @@ export default function App({
           currentRunId = lastRunId ?? undefined;
           // Expose to statusline
           if (lastRunId) lastRunIdRef.current = lastRunId;
+          if (lastRunId) checkpointManager.recordRun(lastRunId);
 
           // Track API duration and trajectory deltas
           sessionStatsRef.current.endTurn(apiDurationMs);
           const usageDelta = sessionStatsRef.current.updateUsageFromBuffers(
             buffersRef.current,
+            currentModelPricingRef.current,
           );
           const tokenDelta = Math.max(
             0,
@@ -4856,6 +5050,7 @@ export default function App({
             tokenDelta,
           });
           syncTrajectoryTokenBase();
+          checkSpendLimit();
 
           const wasInterrupted = !!buffersRef.current.interrupted;
           const wasAborted = !!signal?.aborted;
@@ -4959,8 +5154,20 @@ export default function App({
               userMessage,
             );
 
+            // A hook returning `continue: false` ends the turn outright
+            if (stopHookResult.stopped && stopHookResult.stopReason) {
+              const statusId = uid("status");
+              buffersRef.current.byId.set(statusId, {
+                kind: "status",
+                id: statusId,
+                lines: [`Stop hook: ${stopHookResult.stopReason}`],
+              });
+              buffersRef.current.order.push(statusId);
+              refreshDerived();
+            }
+
             // If hook blocked (exit 2), inject stderr feedback and continue conversation
-            if (stopHookResult.blocked) {
+            if (stopHookResult.blocked && !stopHookResult.stopped) {
               const stderrOutput = stopHookResult.results
                 .map((r) => r.stderr)
                 .filter(Boolean)
@@ -5082,7 +5289,7 @@ export default function App({
             // Check if ralph mode is active and should auto-continue
             // This happens at the very end, right before we'd release input
             if (ralphMode.getState().isActive) {
-              handleRalphContinuation();
+              await handleRalphContinuation();
               return;
             }
 
@@ -7669,18 +7876,23 @@ export default function App({
 
       // Run UserPromptSubmit hooks - can block the prompt from being processed
       const isCommand = userTextForInput.startsWith("/");
-      const hookResult = isSystemOnly
-        ? { blocked: false, feedback: [] as string[] }
+      const hookResult: Pick<
+        HookExecutionResult,
+        "blocked" | "feedback" | "additionalContext" | "stopped" | "stopReason"
+      > = isSystemOnly
+        ? { blocked: false, feedback: [] }
         : await runUserPromptSubmitHooks(
             userTextForInput,
             isCommand,
             agentId,
             conversationIdRef.current,
           );
-      if (!isSystemOnly && hookResult.blocked) {
+      if (!isSystemOnly && (hookResult.blocked || hookResult.stopped)) {
         // Show feedback from hook in the transcript
         const feedbackId = uid("status");
-        const feedback = hookResult.feedback.join("\n") || "Blocked by hook";
+        const feedback = hookResult.stopped
+          ? hookResult.stopReason || "Stopped by hook"
+          : hookResult.feedback.join("\n") || "Blocked by hook";
         buffersRef.current.byId.set(feedbackId, {
           kind: "status",
           id: feedbackId,
@@ -7694,9 +7906,13 @@ export default function App({
       }
 
       // Capture successful hook feedback to inject into agent context
+      const hookContext = [
+        ...hookResult.feedback,
+        ...(hookResult.additionalContext ?? []),
+      ];
       const userPromptSubmitHookFeedback =
-        hookResult.feedback.length > 0
-          ? `${SYSTEM_REMINDER_OPEN}\n${hookResult.feedback.join("\n")}\n${SYSTEM_REMINDER_CLOSE}`
+        hookContext.length > 0
+          ? `${SYSTEM_REMINDER_OPEN}\n${hookContext.join("\n")}\n${SYSTEM_REMINDER_CLOSE}`
           : "";
 
       // Capture the generation at submission time, BEFORE any async work.
@@ -7784,8 +8000,15 @@ export default function App({
       // Track if we just activated so we can use first turn reminder vs continuation
       let justActivatedRalph = false;
       if (pendingRalphConfig && !msg.startsWith("/")) {
-        const { completionPromise, maxIterations, isYolo } = pendingRalphConfig;
-        ralphMode.activate(msg, completionPromise, maxIterations, isYolo);
+        const { completionPromise, maxIterations, isYolo, verifyCommand } =
+          pendingRalphConfig;
+        ralphMode.activate(
+          msg,
+          completionPromise,
+          maxIterations,
+          isYolo,
+          verifyCommand,
+        );
         setUiRalphActive(true);
         setPendingRalphConfig(null);
         justActivatedRalph = true;
@@ -7807,6 +8030,9 @@ export default function App({
           lines: [
             `🔄 ${isYolo ? "yolo-ralph" : "ralph"} mode started (iter 1/${maxIterations || "∞"})`,
             `Promise: ${promiseDisplay}`,
+            ...(ralphState.verifyCommand
+              ? [`Verify: ${ralphState.verifyCommand}`]
+              : []),
           ],
         });
         buffersRef.current.order.push(statusId);
@@ -7864,6 +8090,26 @@ export default function App({
           return { submitted: true };
         }
 
+        // Special handling for /rewind command - opens the checkpoint selector
+        if (trimmed === "/rewind") {
+          if (checkpointManager.list(conversationIdRef.current).length === 0) {
+            const cmd = commandRunner.start(trimmed, "Loading checkpoints...");
+            cmd.finish(
+              "No checkpoints yet. Each message you send in this session creates one.",
+              true,
+            );
+            return { submitted: true };
+          }
+          startOverlayCommand(
+            "rewind",
+            "/rewind",
+            "Opening rewind selector...",
+            "Rewind cancelled",
+          );
+          setActiveOverlay("rewind");
+          return { submitted: true };
+        }
+
         // Special handling for /compaction command - opens compaction mode settings
         if (trimmed === "/compaction") {
           startOverlayCommand(
@@ -8071,6 +8317,18 @@ export default function App({
             return { submitted: true };
           }
 
+          // /mcp local [restart [name]] - local stdio servers
+          if (firstWord === "local") {
+            const cmd = commandRunner.start(
+              msg,
+              "Checking local MCP servers...",
+            );
+            const localArgs = afterMcp.split(/\s+/).slice(1);
+            const result = await handleMcpLocalCommand(localArgs);
+            cmd.finish(result.output, result.success);
+            return { submitted: true };
+          }
+
           // /mcp help - show usage
           if (firstWord === "help") {
             const cmd = commandRunner.start(msg, "Showing MCP help...");
@@ -8083,6 +8341,7 @@ export default function App({
               "  /mcp              — open MCP server manager",
               "  /mcp add ...      — add a new server (without OAuth)",
               "  /mcp connect      — interactive wizard with OAuth support",
+              "  /mcp local        — show local stdio servers and their tools",
               "  /mcp help         — show this help",
               "",
               "EXAMPLES",
@@ -8369,6 +8628,10 @@ export default function App({
                     lastRunId: lastRunIdRef.current,
                     totalDurationMs: stats.totalWallMs,
                     totalApiDurationMs: stats.totalApiMs,
+                    ...getStatusLineCostInput(
+                      stats,
+                      sessionStatsRef.current.getTrajectorySnapshot(),
+                    ),
                     totalInputTokens: stats.usage.promptTokens,
                     totalOutputTokens: stats.usage.completionTokens,
                     contextWindowSize: llmConfigRef.current?.context_window,
@@ -8499,6 +8762,8 @@ export default function App({
 
               const output = formatUsageStats({
                 stats,
+                trajectory: sessionStatsRef.current.getTrajectorySnapshot(),
+                thresholds: settingsManager.getSettings().spendThresholds,
                 balance,
               });
 
@@ -8700,7 +8965,7 @@ export default function App({
         // Special handling for /ralph and /yolo-ralph commands - Ralph Wiggum mode
         if (trimmed.startsWith("/yolo-ralph") || trimmed.startsWith("/ralph")) {
           const isYolo = trimmed.startsWith("/yolo-ralph");
-          const { prompt, completionPromise, maxIterations } =
+          const { prompt, completionPromise, maxIterations, verifyCommand } =
             parseRalphArgs(trimmed);
 
           const cmd = commandRunner.start(trimmed, "Activating ralph mode...");
@@ -8712,6 +8977,7 @@ export default function App({
               completionPromise,
               maxIterations,
               isYolo,
+              verifyCommand,
             );
             setUiRalphActive(true);
             if (isYolo) {
@@ -8725,7 +8991,7 @@ export default function App({
               : "(none)";
 
             cmd.finish(
-              `🔄 ${isYolo ? "yolo-ralph" : "ralph"} mode activated (iter 1/${maxIterations || "∞"})\nPromise: ${promiseDisplay}`,
+              `🔄 ${isYolo ? "yolo-ralph" : "ralph"} mode activated (iter 1/${maxIterations || "∞"})\nPromise: ${promiseDisplay}${verifyCommand ? `\nVerify: ${verifyCommand}` : ""}`,
               true,
             );
 
@@ -8741,7 +9007,12 @@ export default function App({
             ]);
           } else {
             // No inline prompt - wait for next message
-            setPendingRalphConfig({ completionPromise, maxIterations, isYolo });
+            setPendingRalphConfig({
+              completionPromise,
+              maxIterations,
+              isYolo,
+              verifyCommand,
+            });
 
             const defaultPromisePreview = DEFAULT_COMPLETION_PROMISE.slice(
               0,
@@ -8749,7 +9020,7 @@ export default function App({
             );
 
             cmd.finish(
-              `🔄 ${isYolo ? "yolo-ralph" : "ralph"} mode ready (waiting for task)\nMax iterations: ${maxIterations || "unlimited"}\nPromise: ${completionPromise === null ? "(none)" : (completionPromise ?? `"${defaultPromisePreview}..." (default)`)}\n\nType your task to begin the loop.`,
+              `🔄 ${isYolo ? "yolo-ralph" : "ralph"} mode ready (waiting for task)\nMax iterations: ${maxIterations || "unlimited"}\nPromise: ${completionPromise === null ? "(none)" : (completionPromise ?? `"${defaultPromisePreview}..." (default)`)}${verifyCommand ? `\nVerify: ${verifyCommand}` : ""}\n\nType your task to begin the loop.`,
               true,
             );
           }
@@ -8935,6 +9206,19 @@ export default function App({
           resetPendingReasoningCycle();
           setCommandRunning(true);
 
+          // Run ConversationFork hooks - can block the fork
+          const forkHookResult = await runConversationForkHooks(
+            conversationIdRef.current,
+            agentId,
+          );
+          if (forkHookResult.blocked) {
+            const feedback =
+              forkHookResult.feedback.join("\n") || "Blocked by hook";
+            cmd.fail(`Fork blocked: ${feedback}`);
+            setCommandRunning(false);
+            return { submitted: true };
+          }
+
           await runEndHooks();
 
           try {
@@ -10451,9 +10735,14 @@ export default function App({
               ? getMemoryFilesystemRoot(agentId)
               : undefined;
 
+            const memoryLint = memoryDir
+              ? await gatherDoctorMemoryLint(memoryDir)
+              : undefined;
+
             const doctorMessage = buildDoctorMessage({
               gitContext,
               memoryDir,
+              memoryLint,
             });
 
             await processConversation([
@@ -10574,8 +10863,9 @@ export default function App({
 
         // === Custom command handling ===
         // Check BEFORE falling through to executeCommand()
-        const { findCustomCommand, substituteArguments, expandBashCommands } =
-          await import("./commands/custom.js");
+        const { findCustomCommand, expandCustomCommand } = await import(
+          "./commands/custom.js"
+        );
         const customCommandName = trimmed.split(/\s+/)[0]?.slice(1) || ""; // e.g., "review" from "/review arg"
         const matchedCustom = await findCustomCommand(customCommandName);
 
@@ -10597,9 +10887,11 @@ export default function App({
           // Extract arguments (everything after command name)
           const args = trimmed.slice(`/${matchedCustom.id}`.length).trim();
 
-          // Build prompt: 1) substitute args, 2) expand bash commands
-          let prompt = substituteArguments(matchedCustom.content, args);
-          prompt = await expandBashCommands(prompt);
+          // Build prompt: substitute args, expand bash commands and @files
+          const { prompt, model, allowedTools } = await expandCustomCommand(
+            matchedCustom,
+            args,
+          );
 
           // Show command in transcript (running phase for visual feedback)
           setCommandRunning(true);
@@ -10609,19 +10901,31 @@ export default function App({
             // (matches /remember pattern - command succeeded in triggering agent)
             cmd.finish("Running custom command...", true);
 
+            const customOtid = randomUUID();
+            checkpointManager.beginTurn({
+              id: cmd.id,
+              otid: customOtid,
+              conversationId: conversationIdRef.current,
+              agentId,
+              prompt: trimmed,
+            });
+
             // Send prompt to agent
             // NOTE: Unlike /remember, we DON'T append args separately because
             // they're already substituted into the prompt via $ARGUMENTS
-            await processConversation([
-              {
-                type: "message",
-                role: "user",
-                content: buildTextParts(
-                  `${SYSTEM_REMINDER_OPEN}\n${prompt}\n${SYSTEM_REMINDER_CLOSE}`,
-                ),
-                otid: randomUUID(),
-              },
-            ]);
+            await processConversation(
+              [
+                {
+                  type: "message",
+                  role: "user",
+                  content: buildTextParts(
+                    `${SYSTEM_REMINDER_OPEN}\n${prompt}\n${SYSTEM_REMINDER_CLOSE}`,
+                  ),
+                  otid: customOtid,
+                },
+              ],
+              { customCommand: { model, allowedTools } },
+            );
           } catch (error) {
             // Only catch errors from processConversation setup, not agent execution
             const errorDetails = formatErrorDetails(error, agentId);
@@ -11494,11 +11798,21 @@ ${SYSTEM_REMINDER_CLOSE}
         interruptQueuedRef.current = false;
       }
 
+      const userOtid = randomUUID();
       initialInput.push({
         type: "message",
         role: "user",
         content: messageContent as unknown as MessageCreate["content"],
-        otid: randomUUID(),
+        otid: userOtid,
+      });
+
+      // File changes from here on are checkpointed against this turn
+      checkpointManager.beginTurn({
+        id: userId,
+        otid: userOtid,
+        conversationId: conversationIdRef.current,
+        agentId,
+        prompt: userTextForInput,
       });
 
       await processConversation(initialInput, {
@@ -12441,6 +12755,20 @@ ${SYSTEM_REMINDER_CLOSE}
             phase: "running",
           });
 
+          // Run ModelSwitch hooks - can block the switch
+          const modelSwitchResult = await runModelSwitchHooks(
+            modelHandle,
+            currentModelHandle ?? undefined,
+            agentIdRef.current,
+            conversationIdRef.current,
+          );
+          if (modelSwitchResult.blocked) {
+            const feedback =
+              modelSwitchResult.feedback.join("\n") || "Blocked by hook";
+            cmd.fail(`Model switch blocked: ${feedback}`);
+            return;
+          }
+
           // "default" is a virtual sentinel for the agent's primary history, not a
           // real conversation object. When active, model changes must update the agent
           // itself (otherwise the next agent sync will snap back).
@@ -12595,6 +12923,7 @@ ${SYSTEM_REMINDER_CLOSE}
       agentId,
       commandRunner,
       consumeOverlayCommand,
+      currentModelHandle,
       currentToolset,
       isAgentBusy,
       maybeRecordToolsetChangeReminder,
@@ -12925,6 +13254,97 @@ ${SYSTEM_REMINDER_CLOSE}
     ],
   );
 
+  const handleRewindSelect = useCallback(
+    async (checkpointId: string, mode: RewindMode) => {
+      const overlayCommand = consumeOverlayCommand("rewind");
+      const checkpoint = checkpointManager.get(checkpointId);
+
+      if (isAgentBusy() || !checkpoint) {
+        setActiveOverlay(null);
+        const cmd = overlayCommand ?? commandRunner.start("/rewind", "");
+        cmd.fail(
+          checkpoint
+            ? "Cannot rewind while the agent is working. Try again when it is idle."
+            : "Checkpoint no longer exists",
+        );
+        return;
+      }
+
+      await withCommandLock(async () => {
+        const cmd =
+          overlayCommand ?? commandRunner.start("/rewind", "Rewinding...");
+        cmd.update({ output: "Rewinding...", phase: "running" });
+        const cwd = process.cwd();
+
+        let messagesRemoved: number | undefined;
+        if (mode !== "code") {
+          const blocker = getConversationRewindBlocker(checkpoint);
+          if (blocker) {
+            cmd.fail(
+              `${blocker}${mode === "both" ? "\nNo files were changed." : ""}`,
+            );
+            return;
+          }
+          try {
+            const client = await getClient();
+            messagesRemoved = await rewindConversation(client, checkpoint);
+          } catch (error) {
+            cmd.fail(
+              `Failed to rewind the conversation: ${formatErrorDetails(error, agentId)}${mode === "both" ? "\nNo files were changed." : ""}`,
+            );
+            return;
+          }
+        }
+
+        const files =
+          mode !== "conversation"
+            ? checkpointManager.restoreFiles(checkpointId)
+            : undefined;
+
+        if (mode !== "code") {
+          checkpointManager.truncate(checkpointId);
+
+          // Drop the rewound turns from the transcript and put the message
+          // back in the input so it can be edited and resent
+          const order = buffersRef.current.order;
+          const index = order.indexOf(checkpointId);
+          if (index !== -1) {
+            for (const id of order.slice(index)) {
+              buffersRef.current.byId.delete(id);
+              emittedIdsRef.current.delete(id);
+            }
+            buffersRef.current.order = order.slice(0, index);
+          }
+          setStaticItems((prev) => {
+            const staticIndex = prev.findIndex(
+              (item) => item.id === checkpointId,
+            );
+            return staticIndex === -1 ? prev : prev.slice(0, staticIndex);
+          });
+          clearAndRemount(rawColumns);
+          resetContextHistory(contextTrackerRef.current);
+          setRestoredInput(checkpoint.prompt);
+        }
+
+        const output = formatRewindResult({ files, messagesRemoved }, cwd);
+        if (files && files.errors.length > 0) {
+          cmd.fail(output);
+        } else {
+          cmd.finish(output, true);
+        }
+      });
+    },
+    [
+      agentId,
+      clearAndRemount,
+      commandRunner,
+      consumeOverlayCommand,
+      isAgentBusy,
+      rawColumns,
+      withCommandLock,
+    ],
+  );
+
   const handleCompactionModeSelect = useCallback(
     async (mode: string, commandId?: string | null) => {
       const overlayCommand = commandId
@@ -13363,8 +13783,23 @@ ${SYSTEM_REMINDER_CLOSE}
         permissionMode.setMode("default");
         setUiPermissionMode("default");
       }
+
+      const summary = formatRalphSummary(ralph);
+      if (summary.length > 0) {
+        const statusId = uid("status");
+        buffersRef.current.byId.set(statusId, {
+          kind: "status",
+          id: statusId,
+          lines: [
+            `⏹️ Ralph loop exited after ${ralph.currentIteration} iteration(s)`,
+            ...summary,
+          ],
+        });
+        buffersRef.current.order.push(statusId);
+        refreshDerived();
+      }
     }
-  }, [setUiPermissionMode]);
+  }, [setUiPermissionMode, refreshDerived]);
 
   // Handle permission mode changes from the Input component (e.g., shift+tab cycling)
   const handlePermissionModeChange = useCallback(
@@ -14783,6 +15218,19 @@ If using apply_patch, use this exact relative patch path: ${applyPatchRelativePa
               />
             )}
 
+            {activeOverlay === "rewind" && (
+              <RewindSelector
+                checkpoints={checkpointManager.list(conversationId)}
+                cwd={process.cwd()}
+                getModes={(checkpoint) =>
+                  canRewindConversation(checkpoint) ? REWIND_MODES : ["code"]
+                }
+                getConversationBlocker={getConversationRewindBlocker}
+                onSelect={handleRewindSelect}
+                onCancel={closeOverlay}
+              />
+            )}
+
             {activeOverlay === "compaction" && (
               <CompactionSelector
                 initialMode={agentState?.compaction_settings?.mode}
@@ -3,8 +3,9 @@
  */
 
 import { existsSync } from "node:fs";
-import { readdir, readFile } from "node:fs/promises";
-import { basename, dirname, join } from "node:path";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import { resolveModel } from "../../agent/model.js";
 import { getStringField, parseFrontmatter } from "../../utils/frontmatter.js";
 
 export const COMMANDS_DIR = ".commands";
@@ -21,10 +22,23 @@ export interface CustomCommand {
   source: "project" | "user";
   path: string; // Full path to .md file
   content: string; // Prompt body (after frontmatter)
-  // Future fields (parsed but not used in MVP):
-  // allowedTools?: string[];
-  // model?: string;
-  // disableModelInvocation?: boolean;
+  allowedTools?: string[]; // Tools the command's turn may use (all when unset)
+  model?: string; // Model handle or ID for the command's turn
+}
+
+/**
+ * Per-turn model and tool restrictions from a command's frontmatter
+ */
+export interface CustomCommandTurn {
+  model?: string;
+  allowedTools?: string[];
+}
+
+/**
+ * A custom command ready to send: the expanded prompt plus its turn settings
+ */
+export interface ExpandedCustomCommand extends CustomCommandTurn {
+  prompt: string;
 }
 
 // Cached commands (lazy initialized)
@@ -160,6 +174,8 @@ async function parseCommandFile(
   }
 
   const argumentHint = getStringField(frontmatter, "argument-hint");
+  const allowedTools = parseAllowedTools(frontmatter["allowed-tools"]);
+  const model = getStringField(frontmatter, "model")?.trim() || undefined;
 
   return {
     id,
@@ -169,9 +185,40 @@ async function parseCommandFile(
     source,
     path: filePath,
     content: body,
+    allowedTools,
+    model,
   };
 }
 
+/**
+ * Parse the allowed-tools field, given as a YAML list or a comma-separated
+ * string. Commas inside rule specifiers like "Bash(git add:*, git commit:*)"
+ * do not split entries.
+ */
+export function parseAllowedTools(
+  value: string | string[] | undefined,
+): string[] | undefined {
+  if (value === undefined) return undefined;
+  const entries = Array.isArray(value) ? value : [value];
+  const tools: string[] = [];
+  for (const entry of entries) {
+    let current = "";
+    let depth = 0;
+    for (const char of entry) {
+      if (char === "(") depth++;
+      if (char === ")") depth = Math.max(0, depth - 1);
+      if (char === "," && depth === 0) {
+        if (current.trim()) tools.push(current.trim());
+        current = "";
+      } else {
+        current += char;
+      }
+    }
+    if (current.trim()) tools.push(current.trim());
+  }
+  return tools.length > 0 ? tools : undefined;
+}
+
 /**
  * Substitute arguments in command content
  */
@@ -239,6 +286,71 @@ export async function expandBashCommands(content: string): Promise<string> {
   return result;
 }
 
+/**
+ * Expand @file references in content
+ * Replaces `@path` (at the start of a line or after whitespace) with the
+ * file's contents. Paths are resolved against the working directory;
+ * references to missing files and directories are left as written.
+ */
+export async function expandFileReferences(
+  content: string,
+  cwd: string = process.env.USER_CWD || process.cwd(),
+): Promise<string> {
+  const filePattern = /(^|\s)@([^\s`]+)/g;
+  const matches = [...content.matchAll(filePattern)];
+
+  if (matches.length === 0) {
+    return content;
+  }
+
+  const replacements = new Map<string, string>();
+  for (const match of matches) {
+    const rawPath = match[2];
+    if (!rawPath || replacements.has(rawPath)) continue;
+
+    // Trailing punctuation belongs to the sentence, not the path
+    const path = rawPath.replace(/[.,;:!?)]+$/, "");
+    const absolutePath = resolve(cwd, path);
+    try {
+      if (!(await stat(absolutePath)).isFile()) continue;
+      const fileContent = await readFile(absolutePath, "utf-8");
+      replacements.set(
+        rawPath,
+        `\n<file path="${path}">\n${fileContent.trimEnd()}\n</file>\n${rawPath.slice(path.length)}`,
+      );
+    } catch {
+      // Unreadable file - leave the reference as written
+    }
+  }
+
+  return content.replace(filePattern, (fullMatch, prefix, rawPath) => {
+    const replacement = replacements.get(rawPath);
+    return replacement === undefined ? fullMatch : `${prefix}${replacement}`;
+  });
+}
+
+/**
+ * Build the prompt for a custom command invocation
+ * 1) substitute arguments, 2) expand bash commands, 3) include @file contents.
+ * Files are included last so their contents are never run as commands.
+ */
+export async function expandCustomCommand(
+  command: CustomCommand,
+  args: string,
+): Promise<ExpandedCustomCommand> {
+  let prompt = substituteArguments(command.content, args);
+  prompt = await expandBashCommands(prompt);
+  prompt = await expandFileReferences(prompt);
+
+  return {
+    prompt,
+    model: command.model
+      ? (resolveModel(command.model) ?? command.model)
+      : undefined,
+    allowedTools: command.allowedTools,
+  };
+}
+
 /**
  * Find a custom command by name (handles namespace disambiguation)
  * Returns the highest priority match (project > user, then first namespace)
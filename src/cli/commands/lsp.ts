@@ -0,0 +1,111 @@
+/**
+ * /lsp command handler.
+ * Shows configured and running language servers and restarts them.
+ */
+
+import { homedir } from "node:os";
+import { type LSPStatus, lspManager } from "../../lsp/manager";
+
+export interface LspCommandResult {
+  output: string;
+}
+
+const USAGE = `LSP commands:
+
+  /lsp status          Show configured language servers and which are running
+  /lsp restart [id]    Stop running servers (all, or one by id); they start again on the next file they handle
+
+Servers and the on/off switch are configured under "lsp" in ~/.letta/settings.json, .letta/settings.json or .letta/settings.local.json:
+
+  "lsp": {
+    "enabled": true,
+    "servers": [{ "id": "zig", "command": ["zls"], "extensions": [".zig"], "rootMarkers": ["build.zig"] }]
+  }`;
+
+const DISABLED_MESSAGE = `LSP is disabled.
+Enable it with "lsp": { "enabled": true } in ~/.letta/settings.json or .letta/settings.json, then restart Letta Code.`;
+
+function shortenPath(filePath: string): string {
+  return filePath.replace(homedir(), "~");
+}
+
+/**
+ * Render the status snapshot as plain text
+ */
+export function formatLspStatus(status: LSPStatus): string {
+  if (!status.enabled) return DISABLED_MESSAGE;
+
+  const lines = [
+    `LSP: enabled${status.projectRoot ? ` (project: ${shortenPath(status.projectRoot)})` : ""}`,
+    "",
+    "Servers:",
+  ];
+  for (const server of status.servers) {
+    lines.push(
+      `  ${server.id} (${server.source})  ${server.extensions.join(" ")}  $ ${server.command.join(" ")}`,
+    );
+    if (server.running.length === 0) {
+      lines.push("    not running");
+    }
+    for (const instance of server.running) {
+      lines.push(
+        `    running${instance.pid ? ` (pid ${instance.pid})` : ""} in ${shortenPath(instance.root)}`,
+      );
+    }
+  }
+  if (status.warnings.length > 0) {
+    lines.push("", "Settings warnings:");
+    for (const warning of status.warnings) {
+      lines.push(`  ${warning}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Handle the /lsp command.
+ * Usage:
+ *   /lsp status
+ *   /lsp restart [server-id]
+ */
+export async function handleLspCommand(
+  args: string[],
+): Promise<LspCommandResult> {
+  const [subcommand, serverId] = args;
+
+  switch (subcommand) {
+    case undefined:
+    case "":
+    case "status":
+      return { output: formatLspStatus(lspManager.getStatus()) };
+
+    case "restart": {
+      if (!lspManager.isEnabled()) {
+        return { output: DISABLED_MESSAGE };
+      }
+      const status = lspManager.getStatus();
+      if (serverId && !status.servers.some((s) => s.id === serverId)) {
+        return {
+          output: `Unknown LSP server '${serverId}'. Configured servers: ${status.servers.map((s) => s.id).join(", ")}`,
+        };
+      }
+      const stopped = await lspManager.restart(serverId);
+      if (stopped.length === 0) {
+        return {
+          output: `No ${serverId ? `${serverId} ` : ""}servers were running. Servers start on the next file they handle.`,
+        };
+      }
+      return {
+        output: `Stopped ${stopped.length} server${stopped.length === 1 ? "" : "s"} (${[...new Set(stopped)].join(", ")}). They start again on the next file they handle.`,
+      };
+    }
+
+    case "help":
+      return { output: USAGE };
+
+    default:
+      return {
+        output: `Unknown subcommand '${subcommand}'.\nUse /lsp help for usage.`,
+      };
+  }
+}
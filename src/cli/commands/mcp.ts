@@ -7,6 +7,7 @@ import type {
   CreateStreamableHTTPMcpServer,
 } from "@letta-ai/letta-client/resources/mcp-servers/mcp-servers";
 import { getClient } from "../../agent/client";
+import { type LocalMcpStatus, localMcpManager } from "../../mcp/manager";
 import type { Buffers, Line } from "../helpers/accumulator";
 import { formatErrorDetails } from "../helpers/errorFormatter";
 
@@ -372,9 +373,111 @@ export function handleMcpUsage(ctx: McpCommandContext, msg: string): void {
     "Usage: /mcp [subcommand ...]\n" +
       "  /mcp                  - Open MCP server manager\n" +
       "  /mcp add ...          - Add a new server (without OAuth)\n" +
-      "  /mcp connect          - Interactive wizard with OAuth support\n\n" +
+      "  /mcp connect          - Interactive wizard with OAuth support\n" +
+      "  /mcp local            - Show local stdio servers run by Letta Code\n\n" +
       "Examples:\n" +
       "  /mcp add --transport http notion https://mcp.notion.com/mcp",
     false,
   );
 }
+
+const LOCAL_USAGE = `Local MCP commands:
+
+  /mcp local                   Show local servers, their health and tools
+  /mcp local restart [name]    Re-read settings and restart local servers (all, or one by name)
+
+Local servers run on this machine, so their tools can use local files and credentials.
+They are configured under "mcpServers" in .letta/settings.json or .letta/settings.local.json:
+
+  "mcpServers": {
+    "github": { "command": "npx", "args": ["-y", "@modelcontextprotocol/server-github"], "env": { "GITHUB_TOKEN": "..." } }
+  }
+
+Their tools are named mcp__<server>__<tool> and ask for approval unless a permission rule allows them.`;
+
+/**
+ * Render the local MCP status snapshot as plain text
+ */
+export function formatLocalMcpStatus(status: LocalMcpStatus): string {
+  if (status.servers.length === 0 && status.warnings.length === 0) {
+    return 'No local MCP servers configured. Add them under "mcpServers" in .letta/settings.json (see /mcp local help).';
+  }
+
+  const lines = ["Local MCP servers:"];
+  for (const server of status.servers) {
+    const health =
+      server.state === "connected"
+        ? `connected${server.pid ? ` (pid ${server.pid})` : ""}`
+        : server.state === "failed"
+          ? `failed: ${server.error ?? "unknown error"}`
+          : "starting";
+    lines.push(
+      `  ${server.name} (${server.source})  ${health}  $ ${server.command.join(" ")}`,
+    );
+    if (server.tools.length > 0) {
+      lines.push(`    tools: ${server.tools.join(", ")}`);
+    } else if (server.state === "connected") {
+      lines.push("    no tools");
+    }
+    if (server.state === "failed" && server.stderr.length > 0) {
+      lines.push("    stderr:");
+      for (const line of server.stderr.slice(-5)) {
+        lines.push(`      ${line}`);
+      }
+    }
+  }
+  if (status.warnings.length > 0) {
+    lines.push("", "Settings warnings:");
+    for (const warning of status.warnings) {
+      lines.push(`  ${warning}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Handle /mcp local.
+ * Usage:
+ *   /mcp local
+ *   /mcp local restart [name]
+ */
+export async function handleMcpLocalCommand(
+  args: string[],
+): Promise<{ output: string; success: boolean }> {
+  const [subcommand, serverName] = args;
+
+  switch (subcommand) {
+    case undefined:
+    case "":
+    case "status":
+      return {
+        output: formatLocalMcpStatus(localMcpManager.getStatus()),
+        success: true,
+      };
+
+    case "restart": {
+      const restarted = await localMcpManager.restart(serverName);
+      if (restarted.length === 0) {
+        return {
+          output: serverName
+            ? `No local MCP server named '${serverName}' is configured.`
+            : "No local MCP servers are configured.",
+          success: false,
+        };
+      }
+      return {
+        output: `Restarted ${restarted.join(", ")}.\n\n${formatLocalMcpStatus(localMcpManager.getStatus())}`,
+        success: true,
+      };
+    }
+
+    case "help":
+      return { output: LOCAL_USAGE, success: true };
+
+    default:
+      return {
+        output: `Unknown subcommand '${subcommand}'.\nUse /mcp local help for usage.`,
+        success: false,
+      };
+  }
+}
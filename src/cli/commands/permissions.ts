@@ -0,0 +1,58 @@
+/**
+ * /permissions command handler.
+ * Explains how a tool call would be permission-checked, using the same
+ * trace as `letta permissions explain`.
+ */
+
+import {
+  explainPermission,
+  formatPermissionExplanation,
+  parseToolInput,
+} from "../../permissions/explain";
+
+export interface PermissionsCommandResult {
+  output: string;
+}
+
+const USAGE = `Permission commands:
+
+  /permissions explain <tool> [json-input]   Explain the decision for a tool call
+
+Example: /permissions explain Bash {"command":"git push origin main"}
+
+Shows the rule sources, each checker stage, the matched rule and the settings file it came from, and any v1/v2 engine disagreement. The tool is not run.`;
+
+/**
+ * Handle the /permissions command.
+ * Usage:
+ *   /permissions explain <tool> [json-input]
+ */
+export async function handlePermissionsCommand(
+  args: string[],
+): Promise<PermissionsCommandResult> {
+  const [subcommand, toolName, ...inputParts] = args;
+
+  switch (subcommand) {
+    case "explain": {
+      if (!toolName) {
+        return { output: "Usage: /permissions explain <tool> [json-input]" };
+      }
+      const input = parseToolInput(inputParts.join(" "));
+      if (typeof input === "string") {
+        return { output: `Error: ${input}` };
+      }
+      const explanation = await explainPermission(toolName, input);
+      return { output: formatPermissionExplanation(explanation) };
+    }
+
+    case undefined:
+    case "":
+    case "help":
+      return { output: USAGE };
+
+    default:
+      return {
+        output: `Unknown subcommand '${subcommand}'.\nUse /permissions help for usage.`,
+      };
+  }
+}
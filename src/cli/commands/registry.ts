@@ -1,7 +1,10 @@
 // src/cli/commands/registry.ts
 // Registry of available CLI commands
 
+import { handleLspCommand } from "./lsp";
+import { handlePermissionsCommand } from "./permissions";
 import { handleSecretCommand } from "./secret";
+import { handleSpendCommand } from "./spend";
 
 type CommandHandler = (args: string[]) => Promise<string> | string;
 
@@ -193,6 +196,15 @@ export const commands: Record<string, Command> = {
       return "Forking conversation...";
     },
   },
+  "/rewind": {
+    desc: "Rewind code and/or conversation to before an earlier turn",
+    order: 20.6,
+    noArgs: true,
+    handler: () => {
+      // Handled specially in App.tsx to open the checkpoint selector
+      return "Opening rewind selector...";
+    },
+  },
   "/pin": {
     desc: "Pin current agent globally, or use -l for local only",
     order: 22,
@@ -298,8 +310,26 @@ export const commands: Record<string, Command> = {
       return result.output;
     },
   },
+  "/permissions": {
+    desc: "Explain permission decisions (/permissions explain <tool> [json])",
+    order: 33.2,
+    args: "explain <tool> [json-input]",
+    handler: async (args: string[]) => {
+      const result = await handlePermissionsCommand(args);
+      return result.output;
+    },
+  },
+  "/lsp": {
+    desc: "Show or restart language servers (/lsp status|restart [id])",
+    order: 33.3,
+    args: "[status|restart [id]]",
+    handler: async (args: string[]) => {
+      const result = await handleLspCommand(args);
+      return result.output;
+    },
+  },
   "/usage": {
-    desc: "Show session usage statistics and balance",
+    desc: "Show session usage, cost and balance",
     order: 33,
     noArgs: true,
     handler: () => {
@@ -307,6 +337,12 @@ export const commands: Record<string, Command> = {
       return "Fetching usage statistics...";
     },
   },
+  "/spend": {
+    desc: "Show or set session spend thresholds (/spend warn|stop <usd|off>)",
+    order: 33.1,
+    args: "[warn|stop <usd|off>]",
+    handler: (args: string[]) => handleSpendCommand(args).output,
+  },
   "/context": {
     desc: "Show context window usage",
     order: 33.5,
@@ -493,7 +529,7 @@ export const commands: Record<string, Command> = {
 
   // === Ralph Wiggum mode (order 45-46) ===
   "/ralph": {
-    desc: 'Start Ralph Wiggum loop (/ralph [prompt] [--completion-promise "X"] [--max-iterations N])',
+    desc: 'Start Ralph Wiggum loop (/ralph [prompt] [--completion-promise "X"] [--max-iterations N] [--verify "cmd"])',
     order: 45,
     handler: () => {
       // Handled specially in App.tsx
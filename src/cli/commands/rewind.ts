@@ -0,0 +1,84 @@
+/**
+ * /rewind command helpers.
+ * The selector lists the turns of the current conversation with the files
+ * each changed; picking one restores the code, the conversation or both to
+ * how they were before that turn.
+ */
+
+import * as path from "node:path";
+import type { Checkpoint, RestoreFilesResult } from "../../checkpoints/manager";
+
+export type RewindMode = "both" | "code" | "conversation";
+
+export const REWIND_MODES: RewindMode[] = ["both", "code", "conversation"];
+
+export const REWIND_MODE_LABELS: Record<RewindMode, string> = {
+  both: "Code and conversation",
+  code: "Code only",
+  conversation: "Conversation only",
+};
+
+const MAX_PROMPT_PREVIEW = 60;
+
+/**
+ * Show a path relative to the working directory when it is inside it
+ */
+export function formatCheckpointPath(filePath: string, cwd: string): string {
+  const relative = path.relative(cwd, filePath);
+  return relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+    ? relative
+    : filePath;
+}
+
+/**
+ * One-line summary of a turn for the selector
+ */
+export function formatCheckpointLabel(checkpoint: Checkpoint): string {
+  const firstLine = checkpoint.prompt.split("\n")[0] ?? "";
+  const prompt =
+    firstLine.length > MAX_PROMPT_PREVIEW
+      ? `${firstLine.slice(0, MAX_PROMPT_PREVIEW - 1)}…`
+      : firstLine;
+  const count = checkpoint.files.size;
+  const files =
+    count === 0 ? "no file changes" : `${count} file${count === 1 ? "" : "s"}`;
+  return `${prompt || "(empty message)"} · ${files}`;
+}
+
+/**
+ * Summarize what a rewind did
+ */
+export function formatRewindResult(
+  result: {
+    files?: RestoreFilesResult;
+    messagesRemoved?: number;
+  },
+  cwd: string,
+): string {
+  const lines: string[] = [];
+  if (result.messagesRemoved !== undefined) {
+    lines.push(
+      `Rewound conversation (${result.messagesRemoved} message${result.messagesRemoved === 1 ? "" : "s"} removed from context)`,
+    );
+  }
+  if (result.files) {
+    const { restored, deleted, errors } = result.files;
+    const changed = restored.length + deleted.length;
+    if (changed === 0 && errors.length === 0) {
+      lines.push("No file changes to restore");
+    }
+    if (changed > 0) {
+      lines.push(`Restored ${changed} file${changed === 1 ? "" : "s"}:`);
+    }
+    for (const filePath of restored) {
+      lines.push(`  restored ${formatCheckpointPath(filePath, cwd)}`);
+    }
+    for (const filePath of deleted) {
+      lines.push(`  deleted  ${formatCheckpointPath(filePath, cwd)}`);
+    }
+    for (const error of errors) {
+      lines.push(`  failed   ${error}`);
+    }
+  }
+  return lines.join("\n");
+}
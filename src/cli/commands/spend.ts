@@ -0,0 +1,94 @@
+/**
+ * /spend command handler.
+ * Shows and sets the per-session spend thresholds in ~/.letta/settings.json.
+ */
+
+import {
+  formatCost,
+  parseSpendThreshold,
+  type SpendThresholds,
+} from "../../agent/pricing";
+import { settingsManager } from "../../settings-manager";
+
+export interface SpendCommandResult {
+  output: string;
+}
+
+const USAGE = `Spend commands:
+
+  /spend                   Show the spend thresholds
+  /spend warn <usd|off>    Warn once when the session's spend reaches this amount
+  /spend stop <usd|off>    Block new turns once the session's spend reaches this amount
+
+Spend covers the main agent and its subagents, priced with the model pricing in models.json.
+Thresholds are stored under "spendThresholds" in ~/.letta/settings.json:
+
+  "spendThresholds": { "warnUsd": 5, "stopUsd": 20 }`;
+
+/**
+ * Render the configured thresholds as plain text
+ */
+export function formatSpendThresholds(
+  thresholds: SpendThresholds | undefined,
+): string {
+  const describe = (value: unknown) => {
+    const usd = parseSpendThreshold(value);
+    return usd === undefined ? "not set" : formatCost(usd);
+  };
+  return [
+    "Spend thresholds (per session, including subagents):",
+    `  warn: ${describe(thresholds?.warnUsd)}`,
+    `  stop: ${describe(thresholds?.stopUsd)}`,
+  ].join("\n");
+}
+
+/**
+ * Handle the /spend command.
+ * Usage:
+ *   /spend
+ *   /spend warn <usd|off>
+ *   /spend stop <usd|off>
+ */
+export function handleSpendCommand(args: string[]): SpendCommandResult {
+  const [subcommand, value] = args;
+  const current = settingsManager.getSettings().spendThresholds ?? {};
+
+  switch (subcommand) {
+    case undefined:
+    case "":
+    case "status":
+      return { output: formatSpendThresholds(current) };
+
+    case "warn":
+    case "stop": {
+      const key = subcommand === "warn" ? "warnUsd" : "stopUsd";
+      if (!value) {
+        return { output: `Usage: /spend ${subcommand} <usd|off>` };
+      }
+      const next: SpendThresholds = { ...current };
+      if (value === "off") {
+        delete next[key];
+      } else {
+        const usd = parseSpendThreshold(value.replace(/^\$/, ""));
+        if (usd === undefined) {
+          return {
+            output: `Invalid amount '${value}'. Use a positive number of dollars, e.g. /spend ${subcommand} 10`,
+          };
+        }
+        next[key] = usd;
+      }
+      settingsManager.updateSettings({
+        spendThresholds: Object.keys(next).length > 0 ? next : undefined,
+      });
+      return { output: formatSpendThresholds(next) };
+    }
+
+    case "help":
+      return { output: USAGE };
+
+    default:
+      return {
+        output: `Unknown subcommand '${subcommand}'.\nUse /spend help for usage.`,
+      };
+  }
+}
@@ -8,11 +8,12 @@ import {
   type HookEvent,
   type HookMatcher,
   isCommandHook,
+  isHttpHook,
+  isMatcherEvent,
   isPromptHook,
-  isToolEvent,
+  type MatcherHookEvent,
   type SimpleHookEvent,
   type SimpleHookMatcher,
-  type ToolHookEvent,
 } from "../../hooks/types";
 import {
   addHookMatcher,
@@ -54,6 +55,9 @@ function getHookDisplayLabel(hook: HookCommand | undefined): string {
   if (isPromptHook(hook)) {
     return `${hook.prompt.slice(0, 40)}${hook.prompt.length > 40 ? "..." : ""}`;
   }
+  if (isHttpHook(hook)) {
+    return `${hook.method ?? "POST"} ${hook.url}`;
+  }
   return "";
 }
 
@@ -83,8 +87,55 @@ const HOOK_EVENTS: { event: HookEvent; description: string }[] = [
   { event: "PreCompact", description: "Before context compaction" },
   { event: "SessionStart", description: "When a session starts" },
   { event: "SessionEnd", description: "When a session ends" },
+  { event: "PreMemoryWrite", description: "Before a memory file is written" },
+  {
+    event: "PostMemoryCommit",
+    description: "After memory changes are committed",
+  },
+  { event: "ModelSwitch", description: "Before the model is switched" },
+  { event: "ConversationFork", description: "Before a conversation is forked" },
+  { event: "CronFire", description: "Before a scheduled prompt is sent" },
 ];
 
+// Matcher help for matcher events that aren't matched against tool names
+const LIFECYCLE_MATCHER_HELP: Partial<
+  Record<
+    HookEvent,
+    { field: string; label: string; values: string; examples: string[] }
+  >
+> = {
+  PreMemoryWrite: {
+    field: "memory_path",
+    label: "Memory path matcher",
+    values: "Memory file paths relative to the memory root",
+    examples: [
+      "system/persona.md (single file)",
+      "system/.* (all system files)",
+      "* (all files)",
+    ],
+  },
+  ModelSwitch: {
+    field: "new_model",
+    label: "Model matcher",
+    values: "Model handles being switched to",
+    examples: [
+      "openai/gpt-5 (single model)",
+      "anthropic/.* (a provider)",
+      "* (all models)",
+    ],
+  },
+  CronFire: {
+    field: "task_name",
+    label: "Task matcher",
+    values: "Cron task names",
+    examples: [
+      "daily-standup (single task)",
+      "report-.* (name prefix)",
+      "* (all tasks)",
+    ],
+  },
+};
+
 // Fallback tool names if agent tools can't be fetched
 const FALLBACK_TOOL_NAMES = [
   "Task",
@@ -208,7 +259,9 @@ export const HooksManager = memo(function HooksManager({
   const [deleteConfirmIndex, setDeleteConfirmIndex] = useState(1); // Default to No
 
   // Helper to check if current event is a tool event
-  const isCurrentToolEvent = selectedEvent ? isToolEvent(selectedEvent) : false;
+  const isCurrentMatcherEvent = selectedEvent
+    ? isMatcherEvent(selectedEvent)
+    : false;
 
   // Refresh counts - called when hooks change
   const refreshCounts = useCallback(() => {
@@ -245,8 +298,8 @@ export const HooksManager = memo(function HooksManager({
 
   // Load hooks when event is selected (matchers for both tool and simple events)
   const loadHooks = useCallback((event: HookEvent) => {
-    if (isToolEvent(event)) {
-      setHooks(loadMatchersWithSource(event as ToolHookEvent));
+    if (isMatcherEvent(event)) {
+      setHooks(loadMatchersWithSource(event as MatcherHookEvent));
     } else {
       setHooks(loadSimpleMatchersWithSource(event as SimpleHookEvent));
     }
@@ -259,13 +312,17 @@ export const HooksManager = memo(function HooksManager({
     const location = SAVE_LOCATIONS[selectedLocation]?.location;
     if (!location) return;
 
-    if (isToolEvent(selectedEvent)) {
+    if (isMatcherEvent(selectedEvent)) {
       // Tool events use HookMatcher with matcher pattern
       const matcher: HookMatcher = {
         matcher: newMatcher.trim() || "*",
         hooks: [{ type: "command", command: newCommand.trim() }],
       };
-      await addHookMatcher(selectedEvent as ToolHookEvent, matcher, location);
+      await addHookMatcher(
+        selectedEvent as MatcherHookEvent,
+        matcher,
+        location,
+      );
     } else {
       // Simple events use SimpleHookMatcher (same structure, just no matcher field)
       const matcher: SimpleHookMatcher = {
@@ -364,7 +421,7 @@ export const HooksManager = memo(function HooksManager({
       } else if (key.return) {
         if (selectedIndex === 0) {
           // Add new hook - for tool events, go to matcher screen; for simple, go to command
-          if (isCurrentToolEvent) {
+          if (isCurrentMatcherEvent) {
             setScreen("add-matcher");
             setNewMatcher("");
           } else {
@@ -398,7 +455,7 @@ export const HooksManager = memo(function HooksManager({
         setSelectedLocation(0);
       } else if (key.escape) {
         // Go back to matcher screen for tool events, or hooks list for simple
-        if (isCurrentToolEvent) {
+        if (isCurrentMatcherEvent) {
           setScreen("add-matcher");
         } else {
           setScreen("hooks-list");
@@ -496,10 +553,10 @@ export const HooksManager = memo(function HooksManager({
 
   // Render Hooks List (matchers for tool events, commands for simple events)
   if (screen === "hooks-list" && selectedEvent) {
-    const title = isCurrentToolEvent
+    const title = isCurrentMatcherEvent
       ? ` ${selectedEvent} - Tool Matchers `
       : ` ${selectedEvent} - Hooks `;
-    const addLabel = isCurrentToolEvent
+    const addLabel = isCurrentMatcherEvent
       ? "+ Add new matcher..."
       : "+ Add new hook...";
 
@@ -509,7 +566,7 @@ export const HooksManager = memo(function HooksManager({
         <Text>{boxLine(title, boxWidth)}</Text>
         <Text>{boxBottom(boxWidth)}</Text>
 
-        {isCurrentToolEvent ? (
+        {isCurrentMatcherEvent ? (
           <>
             <Text dimColor>
               Input to command is JSON of tool call arguments.
@@ -582,6 +639,7 @@ export const HooksManager = memo(function HooksManager({
 
   // Render Add Matcher - Tool Pattern Input
   if (screen === "add-matcher" && selectedEvent) {
+    const lifecycleHelp = LIFECYCLE_MATCHER_HELP[selectedEvent];
     return (
       <Box flexDirection="column" paddingX={1}>
         <Text>{boxTop(boxWidth)}</Text>
@@ -590,18 +648,37 @@ export const HooksManager = memo(function HooksManager({
         </Text>
         <Text>{boxBottom(boxWidth)}</Text>
 
-        <Text dimColor>Input to command is JSON of tool call arguments.</Text>
-        <Text dimColor>Exit code 0 - stdout/stderr not shown</Text>
-        <Text dimColor>
-          Exit code 2 - show stderr to model and block tool call
-        </Text>
-        <Text> </Text>
+        {lifecycleHelp ? (
+          <>
+            <Text dimColor>Input to command is JSON of the event.</Text>
+            <Text dimColor>Exit code 0 - stdout/stderr not shown</Text>
+            <Text dimColor>Exit code 2 - show stderr and block the action</Text>
+            <Text> </Text>
 
-        <Text dimColor>Possible matcher values for field tool_name:</Text>
-        <Text dimColor>{toolNames.join(", ")}</Text>
-        <Text> </Text>
+            <Text dimColor>
+              Possible matcher values for field {lifecycleHelp.field}:
+            </Text>
+            <Text dimColor>{lifecycleHelp.values}</Text>
+            <Text> </Text>
+          </>
+        ) : (
+          <>
+            <Text dimColor>
+              Input to command is JSON of tool call arguments.
+            </Text>
+            <Text dimColor>Exit code 0 - stdout/stderr not shown</Text>
+            <Text dimColor>
+              Exit code 2 - show stderr to model and block tool call
+            </Text>
+            <Text> </Text>
 
-        <Text>Tool matcher:</Text>
+            <Text dimColor>Possible matcher values for field tool_name:</Text>
+            <Text dimColor>{toolNames.join(", ")}</Text>
+            <Text> </Text>
+          </>
+        )}
+
+        <Text>{lifecycleHelp?.label ?? "Tool matcher"}:</Text>
         <Box
           borderStyle="round"
           borderColor="gray"
@@ -613,16 +690,26 @@ export const HooksManager = memo(function HooksManager({
             <PasteAwareTextInput
               value={newMatcher}
               onChange={setNewMatcher}
-              placeholder="* (matches all tools)"
+              placeholder={
+                lifecycleHelp ? "* (matches all)" : "* (matches all tools)"
+              }
             />
           </Box>
         </Box>
         <Text> </Text>
 
         <Text dimColor>Example Matchers:</Text>
-        <Text dimColor>• Write (single tool)</Text>
-        <Text dimColor>• Write|Edit (multiple tools)</Text>
-        <Text dimColor>• * (all tools)</Text>
+        {(
+          lifecycleHelp?.examples ?? [
+            "Write (single tool)",
+            "Write|Edit (multiple tools)",
+            "* (all tools)",
+          ]
+        ).map((example) => (
+          <Text key={example} dimColor>
+            • {example}
+          </Text>
+        ))}
         <Text> </Text>
         <Text dimColor>Enter to continue · esc to cancel</Text>
       </Box>
@@ -631,7 +718,7 @@ export const HooksManager = memo(function HooksManager({
 
   // Render Add Command Input
   if (screen === "add-command" && selectedEvent) {
-    const title = isCurrentToolEvent
+    const title = isCurrentMatcherEvent
       ? ` Add new matcher for ${selectedEvent} `
       : ` Add new hook for ${selectedEvent} `;
 
@@ -641,8 +728,8 @@ export const HooksManager = memo(function HooksManager({
         <Text>{boxLine(title, boxWidth)}</Text>
         <Text>{boxBottom(boxWidth)}</Text>
 
-        {isCurrentToolEvent && <Text>Matcher: {newMatcher || "*"}</Text>}
-        {isCurrentToolEvent && <Text> </Text>}
+        {isCurrentMatcherEvent && <Text>Matcher: {newMatcher || "*"}</Text>}
+        {isCurrentMatcherEvent && <Text> </Text>}
 
         <Text>Command:</Text>
         <Box
@@ -677,7 +764,7 @@ export const HooksManager = memo(function HooksManager({
         <Text> </Text>
 
         <Text>Event: {selectedEvent}</Text>
-        {isCurrentToolEvent && <Text>Matcher: {newMatcher || "*"}</Text>}
+        {isCurrentMatcherEvent && <Text>Matcher: {newMatcher || "*"}</Text>}
         <Text>Command: {newCommand}</Text>
         <Text> </Text>
 
@@ -1180,13 +1180,8 @@ export function Input({
         return;
       }
 
-      // Cycle through permission modes
-      const modes: PermissionMode[] = [
-        "default",
-        "plan",
-        "acceptEdits",
-        "bypassPermissions",
-      ];
+      // Cycle through permission modes (built-in, then custom modes from settings)
+      const modes: PermissionMode[] = permissionMode.getCycleModes();
       const currentIndex = modes.indexOf(currentMode);
       const nextIndex = (currentIndex + 1) % modes.length;
       const nextMode = modes[nextIndex] ?? "default";
@@ -1563,8 +1558,12 @@ export function Input({
           color: colors.status.error,
           glyph: "⚡︎",
         };
-      default:
+      case "default":
+      case "memory":
         return null;
+      default:
+        // Custom mode declared in settings
+        return { name: `${currentMode} mode`, color: colors.status.processing };
     }
   }, [ralphPending, ralphPendingYolo, ralphActive, currentMode]);
 
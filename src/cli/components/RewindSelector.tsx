@@ -0,0 +1,175 @@
+import { Box, useInput } from "ink";
+import { useMemo, useState } from "react";
+import type { Checkpoint } from "../../checkpoints/manager";
+import {
+  formatCheckpointLabel,
+  formatCheckpointPath,
+  REWIND_MODE_LABELS,
+  type RewindMode,
+} from "../commands/rewind";
+import { useTerminalWidth } from "../hooks/useTerminalWidth";
+import { colors } from "./colors";
+import { Text } from "./Text";
+
+const SOLID_LINE = "─";
+
+/** Turns shown at once */
+const VISIBLE_TURNS = 8;
+
+/** Changed files listed for the highlighted turn */
+const VISIBLE_FILES = 6;
+
+interface RewindSelectorProps {
+  /** Oldest first */
+  checkpoints: Checkpoint[];
+  cwd: string;
+  /** Modes that can be chosen for a turn (conversation rewind may be unavailable) */
+  getModes: (checkpoint: Checkpoint) => RewindMode[];
+  /** Why conversation rewind is unavailable for a turn, if it is */
+  getConversationBlocker?: (checkpoint: Checkpoint) => string | null;
+  onSelect: (checkpointId: string, mode: RewindMode) => void;
+  onCancel: () => void;
+}
+
+export function RewindSelector({
+  checkpoints,
+  cwd,
+  getModes,
+  getConversationBlocker,
+  onSelect,
+  onCancel,
+}: RewindSelectorProps) {
+  const terminalWidth = useTerminalWidth();
+  const solidLine = SOLID_LINE.repeat(Math.max(terminalWidth, 10));
+
+  // Newest turn first
+  const turns = useMemo(() => [...checkpoints].reverse(), [checkpoints]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [mode, setMode] = useState<RewindMode>("both");
+
+  const selected = turns[selectedIndex];
+  const modes = selected ? getModes(selected) : [];
+  const activeMode = modes.includes(mode) ? mode : (modes[0] ?? "code");
+  const conversationBlocker =
+    selected && !modes.includes("conversation")
+      ? (getConversationBlocker?.(selected) ?? null)
+      : null;
+
+  useInput((input, key) => {
+    if (key.ctrl && input === "c") {
+      onCancel();
+      return;
+    }
+
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+
+    if (key.upArrow) {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex((prev) => Math.min(turns.length - 1, prev + 1));
+    } else if (key.leftArrow || key.rightArrow || key.tab) {
+      if (modes.length === 0) return;
+      const direction = key.leftArrow ? -1 : 1;
+      const index = modes.indexOf(activeMode);
+      setMode(
+        modes[(index + direction + modes.length) % modes.length] ?? activeMode,
+      );
+    } else if (key.return && selected) {
+      onSelect(selected.id, activeMode);
+    }
+  });
+
+  const start = Math.min(
+    Math.max(0, selectedIndex - Math.floor(VISIBLE_TURNS / 2)),
+    Math.max(0, turns.length - VISIBLE_TURNS),
+  );
+  const visibleTurns = turns.slice(start, start + VISIBLE_TURNS);
+  const files = selected ? [...selected.files.values()] : [];
+
+  return (
+    <Box flexDirection="column">
+      <Text dimColor>{"> /rewind"}</Text>
+      <Text dimColor>{solidLine}</Text>
+
+      <Box height={1} />
+
+      <Box marginBottom={1}>
+        <Text bold color={colors.selector.title}>
+          Rewind to before a turn
+        </Text>
+      </Box>
+
+      <Box flexDirection="column">
+        {visibleTurns.map((checkpoint, offset) => {
+          const index = start + offset;
+          const isSelected = index === selectedIndex;
+          return (
+            <Box key={checkpoint.id} flexDirection="row">
+              <Text
+                color={isSelected ? colors.selector.itemHighlighted : undefined}
+              >
+                {isSelected ? "> " : "  "}
+              </Text>
+              <Text
+                bold={isSelected}
+                color={isSelected ? colors.selector.itemHighlighted : undefined}
+              >
+                {`${turns.length - index}. ${formatCheckpointLabel(checkpoint)}`}
+              </Text>
+            </Box>
+          );
+        })}
+      </Box>
+
+      {files.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          {files.slice(0, VISIBLE_FILES).map((file) => (
+            <Text key={file.path} dimColor>
+              {`    ${file.existed ? "modified" : "created "} ${formatCheckpointPath(file.path, cwd)}`}
+            </Text>
+          ))}
+          {files.length > VISIBLE_FILES && (
+            <Text dimColor>{`    … ${files.length - VISIBLE_FILES} more`}</Text>
+          )}
+        </Box>
+      )}
+
+      <Box marginTop={1} flexDirection="row">
+        <Text>{"  "}</Text>
+        <Text bold>Restore:</Text>
+        <Text>{"  "}</Text>
+        {modes.map((option) => (
+          <Box key={option} flexDirection="row">
+            <Text
+              backgroundColor={
+                option === activeMode
+                  ? colors.selector.itemHighlighted
+                  : undefined
+              }
+              color={option === activeMode ? "black" : undefined}
+              bold={option === activeMode}
+            >
+              {` ${REWIND_MODE_LABELS[option]} `}
+            </Text>
+            <Text> </Text>
+          </Box>
+        ))}
+      </Box>
+
+      {conversationBlocker && (
+        <Box>
+          <Text dimColor>{`  ${conversationBlocker}`}</Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text dimColor>
+          {"  Enter rewind · ↑↓ turns · ←→/Tab restore · Esc cancel"}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
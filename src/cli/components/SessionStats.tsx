@@ -1,4 +1,12 @@
-import type { SessionStatsSnapshot } from "../../agent/stats";
+import {
+  formatCost,
+  parseSpendThreshold,
+  type SpendThresholds,
+} from "../../agent/pricing";
+import type {
+  SessionStatsSnapshot,
+  TrajectoryStatsSnapshot,
+} from "../../agent/stats";
 import { buildAppUrl } from "../helpers/appUrls";
 import { formatCompact } from "../helpers/format";
 
@@ -34,14 +42,54 @@ interface BalanceInfo {
 
 interface FormatUsageStatsOptions {
   stats: SessionStatsSnapshot;
+  trajectory?: TrajectoryStatsSnapshot | null;
+  thresholds?: SpendThresholds;
   balance?: BalanceInfo;
 }
 
+function formatCostLines(
+  stats: SessionStatsSnapshot,
+  trajectory: TrajectoryStatsSnapshot | null | undefined,
+  thresholds: SpendThresholds | undefined,
+): string[] {
+  const { cost } = stats;
+  const lines: string[] = [];
+  // Without any priced usage a $0.00 total would be misleading
+  if (cost.totalUsd > 0 || cost.unpricedTokens === 0) {
+    lines.push(
+      `Session cost:          ${formatCost(cost.totalUsd)} (${formatCost(cost.mainUsd)} main, ${formatCost(cost.subagentUsd)} subagents)`,
+    );
+    if (trajectory) {
+      lines.push(`Current trajectory:    ${formatCost(trajectory.costUsd)}`);
+    }
+  }
+  if (cost.unpricedTokens > 0) {
+    lines.push(
+      `Unpriced usage:        ${formatCompact(cost.unpricedTokens)} tokens on models without pricing`,
+    );
+  }
+  const warnUsd = parseSpendThreshold(thresholds?.warnUsd);
+  const stopUsd = parseSpendThreshold(thresholds?.stopUsd);
+  if (warnUsd !== undefined || stopUsd !== undefined) {
+    lines.push(
+      `Spend thresholds:      ${[
+        warnUsd !== undefined ? `warn at ${formatCost(warnUsd)}` : null,
+        stopUsd !== undefined ? `stop at ${formatCost(stopUsd)}` : null,
+      ]
+        .filter(Boolean)
+        .join(", ")}`,
+    );
+  }
+  return lines;
+}
+
 /**
  * Format usage statistics as markdown text for display in CommandMessage
  */
 export function formatUsageStats({
   stats,
+  trajectory,
+  thresholds,
   balance,
 }: FormatUsageStatsOptions): string {
   const outputLines = [
@@ -54,6 +102,7 @@ export function formatUsageStats({
           `Latest context:       ${formatCompact(stats.usage.contextTokens)} tokens`,
         ]
       : []),
+    ...formatCostLines(stats, trajectory, thresholds),
     "",
   ];
 
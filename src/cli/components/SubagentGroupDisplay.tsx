@@ -19,6 +19,7 @@ import { Box, useInput } from "ink";
 import { memo, useSyncExternalStore } from "react";
 import { useAnimation } from "../contexts/AnimationContext.js";
 import {
+  formatRemainingBudget,
   formatStats,
   getSubagentModelDisplay,
   getTreeChars,
@@ -87,7 +88,14 @@ const AgentRow = memo(
       !(agent.isBackground && isRunning) && !(isRunning && toolCount === 0);
     const hideBackgroundStatusLine =
       agent.isBackground && isRunning && !agent.agentURL;
-    const stats = formatStats(toolCount, agent.totalTokens);
+    const stats = formatStats(toolCount, agent.totalTokens, agent.costUsd);
+    const remainingBudget = isRunning
+      ? formatRemainingBudget(agent.budget, {
+          tokens: agent.totalTokens,
+          durationMs: Date.now() - agent.startTime,
+          toolCalls: toolCount,
+        })
+      : null;
     const modelDisplay = getSubagentModelDisplay(agent.model);
     const lastTool = agent.toolCalls[agent.toolCalls.length - 1];
 
@@ -209,6 +217,12 @@ const AgentRow = memo(
                 {stats}
               </Text>
             )}
+            {remainingBudget && (
+              <Text dimColor>
+                {" · "}
+                {remainingBudget}
+              </Text>
+            )}
           </Text>
         </Box>
 
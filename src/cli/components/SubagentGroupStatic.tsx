@@ -35,6 +35,7 @@ export interface StaticSubagent {
   status: "completed" | "error" | "running";
   toolCount: number;
   totalTokens: number;
+  costUsd?: number;
   agentURL: string | null;
   error?: string;
   model?: string;
@@ -68,7 +69,7 @@ const AgentRow = memo(({ agent, isLast }: AgentRowProps) => {
   const showStats = !(agent.isBackground && isRunning);
   const hideBackgroundStatusLine =
     agent.isBackground && isRunning && !agent.agentURL;
-  const stats = formatStats(agent.toolCount, agent.totalTokens);
+  const stats = formatStats(agent.toolCount, agent.totalTokens, agent.costUsd);
   const modelDisplay = getSubagentModelDisplay(agent.model);
 
   return (
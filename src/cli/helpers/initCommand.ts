@@ -5,6 +5,10 @@
  * (commandRunner, processConversation, setCommandRunning, etc.)
  */
 
+import {
+  formatMemoryLintIssues,
+  lintMemoryDirectory,
+} from "../../agent/memoryLint";
 import { SYSTEM_REMINDER_CLOSE, SYSTEM_REMINDER_OPEN } from "../../constants";
 import { gatherGitContextSnapshot } from "./gitContext";
 import { getSnapshot as getSubagentSnapshot } from "./subagentState";
@@ -119,13 +123,35 @@ ${args.gitContext}
 ${SYSTEM_REMINDER_CLOSE}`;
 }
 
+// ── Doctor ─────────────────────────────────────────────────
+
+/**
+ * Memory lint findings for /doctor, or undefined when the memory
+ * directory is clean or could not be linted.
+ */
+export async function gatherDoctorMemoryLint(
+  memoryDir: string,
+): Promise<string | undefined> {
+  try {
+    const report = formatMemoryLintIssues(await lintMemoryDirectory(memoryDir));
+    return report || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /** Message for the primary agent via processConversation when user runs /doctor. */
 export function buildDoctorMessage(args: {
   gitContext: string;
   memoryDir?: string;
+  /** Output of gatherDoctorMemoryLint. */
+  memoryLint?: string;
 }): string {
+  const lintSection = args.memoryLint
+    ? `\n### Memory lint\n\nThe memory linter (\`letta memfs lint\`) reported these issues. Fix them as part of the check.\n\n${args.memoryLint}\n`
+    : "";
   const memfsSection = args.memoryDir
-    ? `\n## Memory filesystem\n\nMemory filesystem is enabled. Memory directory: \`${args.memoryDir}\`\n`
+    ? `\n## Memory filesystem\n\nMemory filesystem is enabled. Memory directory: \`${args.memoryDir}\`\n${lintSection}`
     : "";
 
   return `${SYSTEM_REMINDER_OPEN}
@@ -1,3 +1,7 @@
+import type {
+  SessionStatsSnapshot,
+  TrajectoryStatsSnapshot,
+} from "../../agent/stats";
 import { getVersion } from "../../version";
 
 export interface StatusLinePayloadBuildInput {
@@ -14,6 +18,10 @@ export interface StatusLinePayloadBuildInput {
   lastRunId?: string | null;
   totalDurationMs?: number;
   totalApiDurationMs?: number;
+  /** Session cost including subagents; null when no usage could be priced */
+  totalCostUsd?: number | null;
+  trajectoryCostUsd?: number | null;
+  subagentCostUsd?: number | null;
   totalInputTokens?: number;
   totalOutputTokens?: number;
   contextWindowSize?: number;
@@ -62,6 +70,8 @@ export interface StatusLinePayload {
   };
   cost: {
     total_cost_usd: number | null;
+    trajectory_cost_usd: number | null;
+    subagent_cost_usd: number | null;
     total_duration_ms: number;
     total_api_duration_ms: number;
     total_lines_added: number | null;
@@ -123,6 +133,38 @@ export function calculateContextPercentages(
   return { used, remaining: Math.max(0, 100 - used) };
 }
 
+/**
+ * Cost fields for the payload. All are null when the session has only used
+ * models without pricing, so scripts can tell "free" from "unknown".
+ */
+export function getStatusLineCostInput(
+  stats: SessionStatsSnapshot,
+  trajectory: TrajectoryStatsSnapshot | null,
+): Pick<
+  StatusLinePayloadBuildInput,
+  "totalCostUsd" | "trajectoryCostUsd" | "subagentCostUsd"
+> {
+  if (stats.cost.totalUsd === 0 && stats.cost.unpricedTokens > 0) {
+    return {
+      totalCostUsd: null,
+      trajectoryCostUsd: null,
+      subagentCostUsd: null,
+    };
+  }
+  return {
+    totalCostUsd: stats.cost.totalUsd,
+    trajectoryCostUsd: trajectory?.costUsd ?? 0,
+    subagentCostUsd: stats.cost.subagentUsd,
+  };
+}
+
+function roundUsd(value: number | null | undefined): number | null {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return null;
+  }
+  return Math.round(Math.max(0, value) * 1_000_000) / 1_000_000;
+}
+
 export function buildStatusLinePayload(
   input: StatusLinePayloadBuildInput,
 ): StatusLinePayload {
@@ -177,7 +219,9 @@ export function buildStatusLinePayload(
       name: null,
     },
     cost: {
-      total_cost_usd: null,
+      total_cost_usd: roundUsd(input.totalCostUsd),
+      trajectory_cost_usd: roundUsd(input.trajectoryCostUsd),
+      subagent_cost_usd: roundUsd(input.subagentCostUsd),
       total_duration_ms: totalDurationMs,
       total_api_duration_ms: totalApiDurationMs,
       total_lines_added: null,
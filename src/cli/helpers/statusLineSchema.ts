@@ -36,4 +36,7 @@ export const STATUSLINE_DERIVED_FIELDS: StatusLineFieldSpec[] = [
   { path: "context_window.used_percentage" },
   { path: "context_window.remaining_percentage" },
   { path: "exceeds_200k_tokens" },
+  { path: "cost.total_cost_usd" },
+  { path: "cost.trajectory_cost_usd" },
+  { path: "cost.subagent_cost_usd" },
 ];
@@ -139,6 +139,7 @@ export function createSubagentGroupItem(
           : (subagent.status as "completed" | "error"),
         toolCount: getSubagentToolCount(subagent),
         totalTokens: subagent.totalTokens,
+        costUsd: subagent.costUsd,
         agentURL: subagent.agentURL,
         error: subagent.error,
         model: subagent.model,
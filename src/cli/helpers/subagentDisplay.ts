@@ -4,23 +4,63 @@
  * Used by both SubagentGroupDisplay (live) and SubagentGroupStatic (frozen).
  */
 import { getModelShortName, resolveModel } from "../../agent/model";
+import { formatCost } from "../../agent/pricing";
+import {
+  formatBudgetDuration,
+  getRemainingBudget,
+  type SubagentBudget,
+  type SubagentBudgetUsage,
+} from "../../agent/subagents/budget";
 import { OPENAI_CODEX_PROVIDER_NAME } from "../../providers/openai-codex-provider";
 import { formatCompact } from "./format";
 
 /**
- * Format tool count and token statistics for display
+ * Format tool count, token and cost statistics for display
  *
  * @param toolCount - Number of tool calls
  * @param totalTokens - Total tokens used (0 or undefined means no data available)
+ * @param costUsd - Cost in USD (omitted when undefined or 0)
  */
-export function formatStats(toolCount: number, totalTokens: number): string {
-  const toolStr = `${toolCount} tool use${toolCount !== 1 ? "s" : ""}`;
+export function formatStats(
+  toolCount: number,
+  totalTokens: number,
+  costUsd?: number,
+): string {
+  const parts = [`${toolCount} tool use${toolCount !== 1 ? "s" : ""}`];
 
   if (totalTokens > 0) {
-    return `${toolStr} · ${formatCompact(totalTokens)} tokens`;
+    parts.push(`${formatCompact(totalTokens)} tokens`);
   }
+  if (costUsd) {
+    parts.push(formatCost(costUsd));
+  }
+
+  return parts.join(" · ");
+}
 
-  return toolStr;
+/**
+ * Format what is left of a subagent's budget, e.g.
+ * "12k tokens · 3 tool uses · 1m 20s left". Returns null without a budget.
+ */
+export function formatRemainingBudget(
+  budget: SubagentBudget | undefined,
+  usage: SubagentBudgetUsage,
+): string | null {
+  if (!budget) return null;
+  const remaining = getRemainingBudget(budget, usage);
+  const parts: string[] = [];
+  if (remaining.maxTokens !== undefined) {
+    parts.push(`${formatCompact(remaining.maxTokens)} tokens`);
+  }
+  if (remaining.maxToolCalls !== undefined) {
+    parts.push(
+      `${remaining.maxToolCalls} tool use${remaining.maxToolCalls !== 1 ? "s" : ""}`,
+    );
+  }
+  if (remaining.maxDurationMs !== undefined) {
+    parts.push(formatBudgetDuration(remaining.maxDurationMs));
+  }
+  return parts.length > 0 ? `${parts.join(" · ")} left` : null;
 }
 
 /**
@@ -6,6 +6,8 @@
  * Uses an event-emitter pattern compatible with React's useSyncExternalStore.
  */
 
+import type { SubagentBudget } from "../../agent/subagents/budget";
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -26,9 +28,11 @@ export interface SubagentState {
   // Monotonic counter to avoid transient regressions in rendered tool usage.
   maxToolCallsSeen: number;
   totalTokens: number;
+  costUsd?: number; // Set on completion when the model has pricing
   durationMs: number;
   error?: string;
   model?: string;
+  budget?: SubagentBudget; // Limits the subagent is stopped at
   startTime: number;
   toolCallId?: string; // Links this subagent to its parent Task tool call
   isBackground?: boolean; // True if running in background (fire-and-forget)
@@ -276,7 +280,12 @@ export function addToolCall(
  */
 export function completeSubagent(
   id: string,
-  result: { success: boolean; error?: string; totalTokens?: number },
+  result: {
+    success: boolean;
+    error?: string;
+    totalTokens?: number;
+    costUsd?: number;
+  },
 ): void {
   const agent = store.agents.get(id);
   if (!agent) return;
@@ -288,11 +297,17 @@ export function completeSubagent(
     error: result.error,
     durationMs: Date.now() - agent.startTime,
     totalTokens: result.totalTokens ?? agent.totalTokens,
+    costUsd: result.costUsd,
     maxToolCallsSeen: Math.max(agent.maxToolCallsSeen, agent.toolCalls.length),
   } as SubagentState;
   store.agents.set(id, updatedAgent);
   scheduleCompletedSubagentCleanup(id);
   notifyListeners();
+  if (result.costUsd) {
+    for (const listener of costListeners) {
+      listener(result.costUsd, updatedAgent);
+    }
+  }
 }
 
 export function __setCompletedSubagentRetentionMsForTests(ms: number): void {
@@ -507,3 +522,31 @@ export function emitStreamEvent(
     listener(subagentId, event);
   }
 }
+
+// ============================================================================
+// Cost Forwarding
+// ============================================================================
+
+/**
+ * Callback for the cost of a finished subagent, so the parent session can
+ * add it to its own totals.
+ */
+export type SubagentCostListener = (
+  costUsd: number,
+  subagent: SubagentState,
+) => void;
+
+const costListeners = new Set<SubagentCostListener>();
+
+/**
+ * Subscribe to the costs of finished subagents.
+ * Returns an unsubscribe function.
+ */
+export function subscribeToSubagentCosts(
+  listener: SubagentCostListener,
+): () => void {
+  costListeners.add(listener);
+  return () => {
+    costListeners.delete(listener);
+  };
+}
@@ -27,6 +27,7 @@ export function getDisplayToolName(rawName: string): string {
   if (rawName === "EnterPlanMode" || rawName === "ExitPlanMode")
     return "Planning";
   if (rawName === "AskUserQuestion") return "Question";
+  if (rawName === "WebFetch") return "Fetch";
 
   // Codex toolset (snake_case)
   if (rawName === "update_plan") return "Planning";
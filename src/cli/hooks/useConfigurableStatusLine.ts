@@ -32,6 +32,9 @@ export interface StatusLineInputs {
   lastRunId?: string | null;
   totalDurationMs?: number;
   totalApiDurationMs?: number;
+  totalCostUsd?: number | null;
+  trajectoryCostUsd?: number | null;
+  subagentCostUsd?: number | null;
   totalInputTokens?: number;
   totalOutputTokens?: number;
   contextWindowSize?: number;
@@ -106,6 +109,9 @@ function toPayloadInput(inputs: StatusLineInputs): StatusLinePayloadBuildInput {
     lastRunId: inputs.lastRunId,
     totalDurationMs: inputs.totalDurationMs,
     totalApiDurationMs: inputs.totalApiDurationMs,
+    totalCostUsd: inputs.totalCostUsd,
+    trajectoryCostUsd: inputs.trajectoryCostUsd,
+    subagentCostUsd: inputs.subagentCostUsd,
     totalInputTokens: inputs.totalInputTokens,
     totalOutputTokens: inputs.totalOutputTokens,
     contextWindowSize: inputs.contextWindowSize,
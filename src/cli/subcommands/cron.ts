@@ -4,24 +4,34 @@
  * Usage:
  *   letta cron add --prompt <text> --every <interval> [--agent <id>] [--conversation <id>]
  *   letta cron add --prompt <text> --at <time> [--once] [--agent <id>]
- *   letta cron add --prompt <text> --cron <expr> [--agent <id>]
+ *   letta cron add --prompt <text> --cron <expr> [--timezone <tz>] [--agent <id>]
  *   letta cron list [--agent <id>] [--conversation <id>]
- *   letta cron get <id>
+ *   letta cron get <id> [--next <n>]
+ *   letta cron history <id> [--limit <n>]
  *   letta cron delete <id>
  *   letta cron delete --all [--agent <id>]
+ *   letta cron daemon [--permission-mode <mode>] [--log-dir <dir>]
  */
 
 import { parseArgs } from "node:util";
 import {
   addTask,
+  CATCH_UP_POLICIES,
+  type CatchUpPolicy,
+  DEFAULT_FIRE_TIME_PREVIEW_COUNT,
+  DEFAULT_HISTORY_LIMIT,
   deleteAllTasks,
   deleteTask,
+  getCronRunHistory,
   getTask,
+  getTaskNextFireTimes,
   isValidCron,
+  isValidTimezone,
   listTasks,
   parseAt,
   parseEvery,
 } from "../../cron";
+import { runCronDaemon } from "../../cron/daemon";
 
 // ── Usage ───────────────────────────────────────────────────────────
 
@@ -33,16 +43,25 @@ Usage:
   letta cron add --prompt <text> --at <time> [--once] [options]
   letta cron add --prompt <text> --cron <expr> [options]
   letta cron list [options]
-  letta cron get <id>
+  letta cron get <id> [--next <n>]
+  letta cron history <id> [--limit <n>]
   letta cron delete <id>
   letta cron delete --all [--agent <id>]
+  letta cron daemon [--permission-mode <mode>] [--log-dir <dir>]
 
 Add options:
   --prompt <text>        Prompt to send to the agent (required)
   --every <interval>     Recurring interval (e.g. 5m, 2h, 1d)
   --at <time>            Scheduled time (e.g. "3:00pm", "in 45m")
   --once                 Fire once (with --at); default for --at
-  --cron <expr>          Raw 5-field cron expression
+  --cron <expr>          Cron expression: 5 fields with lists, ranges, steps,
+                         JAN-DEC / SUN-SAT names, L and # modifiers
+                         (e.g. "*/15 9-16 * * MON-FRI"), or a macro
+                         (@hourly, @daily, @weekly, @monthly, @yearly)
+  --timezone <tz>        IANA timezone for --every/--cron schedules
+                         (defaults to the system timezone)
+  --catch-up <policy>    What to do with occurrences missed while no server
+                         was running: skip (default), run_once, run_all_bounded
   --agent <id>           Agent ID (defaults to LETTA_AGENT_ID)
   --conversation <id>    Conversation ID (defaults to LETTA_CONVERSATION_ID or "default")
 
@@ -50,10 +69,21 @@ List/filter options:
   --agent <id>           Filter by agent ID
   --conversation <id>    Filter by conversation ID
 
+Get options:
+  --next <n>             Number of upcoming fire times to preview (default ${DEFAULT_FIRE_TIME_PREVIEW_COUNT})
+
+History options:
+  --limit <n>            Maximum number of runs to show (default ${DEFAULT_HISTORY_LIMIT})
+
 Delete options:
   --all                  Delete all tasks for the given agent
 
-Output is JSON.
+Daemon options (runs the scheduler without \`letta server\`; fired prompts
+run in headless mode against the task's conversation):
+  --permission-mode <m>  Permission mode for each run (default: default)
+  --log-dir <dir>        Directory for per-run logs (default ~/.letta/cron-logs)
+
+Output is JSON (the daemon prints one JSON event per line).
 `.trim(),
   );
 }
@@ -69,9 +99,15 @@ const CRON_OPTIONS = {
   at: { type: "string" },
   once: { type: "boolean" },
   cron: { type: "string" },
+  timezone: { type: "string" },
+  next: { type: "string" },
+  "catch-up": { type: "string" },
+  limit: { type: "string" },
   agent: { type: "string" },
   conversation: { type: "string" },
   all: { type: "boolean" },
+  "permission-mode": { type: "string" },
+  "log-dir": { type: "string" },
 } as const;
 
 function parseCronArgs(argv: string[]) {
@@ -120,6 +156,25 @@ function handleAdd(values: ReturnType<typeof parseCronArgs>["values"]): number {
 
   const conversationId = getConversationId(values.conversation);
 
+  const catchUp = values["catch-up"];
+  if (
+    catchUp !== undefined &&
+    !CATCH_UP_POLICIES.includes(catchUp as CatchUpPolicy)
+  ) {
+    console.error(
+      `Error: invalid --catch-up "${catchUp}". Use one of: ${CATCH_UP_POLICIES.join(", ")}`,
+    );
+    return 1;
+  }
+
+  const timezone = values.timezone;
+  if (timezone !== undefined && !isValidTimezone(timezone)) {
+    console.error(
+      `Error: invalid timezone "${timezone}". Use an IANA name like "Europe/Berlin".`,
+    );
+    return 1;
+  }
+
   // Determine schedule type
   const everyValue = values.every;
   const atValue = values.at;
@@ -141,7 +196,15 @@ function handleAdd(values: ReturnType<typeof parseCronArgs>["values"]): number {
   let note: string | undefined;
 
   if (everyValue) {
-    const parsed = parseEvery(everyValue);
+    let parsed: ReturnType<typeof parseEvery>;
+    try {
+      parsed = parseEvery(everyValue);
+    } catch (err) {
+      console.error(
+        `Error: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return 1;
+    }
     if (!parsed) {
       console.error(`Error: invalid interval "${everyValue}". Try: 5m, 2h, 1d`);
       return 1;
@@ -164,7 +227,7 @@ function handleAdd(values: ReturnType<typeof parseCronArgs>["values"]): number {
   } else if (cronValue) {
     if (!isValidCron(cronValue)) {
       console.error(
-        `Error: invalid cron expression "${cronValue}". Needs 5 fields.`,
+        `Error: invalid cron expression "${cronValue}". Expected 5 fields (minute hour day-of-month month day-of-week) or a macro like @daily.`,
       );
       return 1;
     }
@@ -188,9 +251,11 @@ function handleAdd(values: ReturnType<typeof parseCronArgs>["values"]): number {
       name,
       description,
       cron,
+      timezone,
       recurring,
       prompt,
       scheduled_for: scheduledFor,
+      catch_up: catchUp as CatchUpPolicy | undefined,
     });
 
     const output: Record<string, unknown> = {
@@ -198,6 +263,8 @@ function handleAdd(values: ReturnType<typeof parseCronArgs>["values"]): number {
       status: result.task.status,
       cron: result.task.cron,
       recurring: result.task.recurring,
+      timezone: result.task.timezone,
+      catch_up: result.task.catch_up,
       agent_id: result.task.agent_id,
       conversation_id: result.task.conversation_id,
       created_at: result.task.created_at,
@@ -239,20 +306,61 @@ function handleList(
   return 0;
 }
 
-function handleGet(positionals: string[]): number {
+function handleGet(
+  values: ReturnType<typeof parseCronArgs>["values"],
+  positionals: string[],
+): number {
   const taskId = positionals[1];
   if (!taskId) {
     console.error("Error: task ID required. Usage: letta cron get <id>");
     return 1;
   }
 
+  let count = DEFAULT_FIRE_TIME_PREVIEW_COUNT;
+  if (values.next !== undefined) {
+    count = Number.parseInt(values.next, 10);
+    if (!Number.isInteger(count) || count < 0 || count > 100) {
+      console.error("Error: --next must be an integer between 0 and 100.");
+      return 1;
+    }
+  }
+
   const task = getTask(taskId);
   if (!task) {
     console.error(`Error: task ${taskId} not found.`);
     return 1;
   }
 
-  console.log(JSON.stringify(task, null, 2));
+  const output = {
+    ...task,
+    next_fire_times: getTaskNextFireTimes(task, count),
+  };
+  console.log(JSON.stringify(output, null, 2));
+  return 0;
+}
+
+function handleHistory(
+  values: ReturnType<typeof parseCronArgs>["values"],
+  positionals: string[],
+): number {
+  const taskId = positionals[1];
+  if (!taskId) {
+    console.error("Error: task ID required. Usage: letta cron history <id>");
+    return 1;
+  }
+
+  let limit = DEFAULT_HISTORY_LIMIT;
+  if (values.limit !== undefined) {
+    limit = Number.parseInt(values.limit, 10);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      console.error("Error: --limit must be a positive integer.");
+      return 1;
+    }
+  }
+
+  // History outlives the task (deleted tasks keep their runs), so a missing
+  // task is not an error here.
+  console.log(JSON.stringify(getCronRunHistory(taskId, limit), null, 2));
   return 0;
 }
 
@@ -313,9 +421,16 @@ export async function runCronSubcommand(argv: string[]): Promise<number> {
     case "list":
       return handleList(parsed.values);
     case "get":
-      return handleGet(parsed.positionals);
+      return handleGet(parsed.values, parsed.positionals);
+    case "history":
+      return handleHistory(parsed.values, parsed.positionals);
     case "delete":
       return handleDelete(parsed.values, parsed.positionals);
+    case "daemon":
+      return runCronDaemon({
+        permissionMode: parsed.values["permission-mode"],
+        logDir: parsed.values["log-dir"],
+      });
     default:
       console.error(`Unknown action: ${action}`);
       printUsage();
@@ -58,15 +58,19 @@ export async function runListenSubcommand(argv: string[]): Promise<number> {
       envName: { type: "string" },
       help: { type: "boolean", short: "h" },
       debug: { type: "boolean" },
+      "persist-queue": { type: "boolean" },
     },
     allowPositionals: false,
   });
 
   const debugMode = !!values.debug;
+  const persistQueue = !!values["persist-queue"];
 
   // Show help
   if (values.help) {
-    console.log("Usage: letta server [--env-name <name>] [--debug]\n");
+    console.log(
+      "Usage: letta server [--env-name <name>] [--debug] [--persist-queue]\n",
+    );
     console.log(
       "Register this letta-code instance to receive messages from Letta Cloud.\n",
     );
@@ -77,6 +81,9 @@ export async function runListenSubcommand(argv: string[]): Promise<number> {
     console.log(
       "  --debug            Plain-text mode: log all WebSocket events instead of interactive UI",
     );
+    console.log(
+      "  --persist-queue    Journal queued messages to ~/.letta/queue so they survive restarts",
+    );
     console.log("  -h, --help         Show this help message\n");
     console.log("Examples:");
     console.log(
@@ -243,6 +250,7 @@ export async function runListenSubcommand(argv: string[]): Promise<number> {
           wsUrl: url,
           deviceId,
           connectionName,
+          persistQueue,
           onWsEvent: wsEventLogger,
           onStatusChange: (status) => {
             sessionLog.log(`status: ${status}`);
@@ -326,6 +334,7 @@ export async function runListenSubcommand(argv: string[]): Promise<number> {
           wsUrl: url,
           deviceId,
           connectionName,
+          persistQueue,
           onWsEvent: wsEventLogger,
           onStatusChange: (status) => {
             sessionLog.log(`status: ${status}`);
@@ -9,6 +9,10 @@ import {
   isGitRepo,
   pullMemory,
 } from "../../agent/memoryGit";
+import {
+  formatMemoryLintIssues,
+  lintMemoryDirectory,
+} from "../../agent/memoryLint";
 
 function printUsage(): void {
   console.log(
@@ -21,10 +25,12 @@ Usage:
   letta memfs restore --from <backup> --force [--agent <id>]
   letta memfs export --agent <id> --out <dir>
   letta memfs pull [--agent <id>]
+  letta memfs lint [--agent <id> | --dir <path>] [--staged] [--format json|text]
 
 Notes:
-  - Requires agent id via --agent or LETTA_AGENT_ID.
-  - Output is JSON only.
+  - Requires agent id via --agent or LETTA_AGENT_ID (lint also takes --dir).
+  - Output is JSON only (except lint --format text).
+  - lint exits 2 when it finds errors; --staged lints the git index.
   - Memory is git-backed. Use git commands for commit/push.
 
 Examples:
@@ -32,6 +38,7 @@ Examples:
   letta memfs pull --agent agent-123
   letta memfs backup --agent agent-123
   letta memfs export --agent agent-123 --out /tmp/letta-memfs-agent-123
+  letta memfs lint --agent agent-123 --format text
 `.trim(),
   );
 }
@@ -47,6 +54,9 @@ const MEMFS_OPTIONS = {
   from: { type: "string" },
   force: { type: "boolean" },
   out: { type: "string" },
+  dir: { type: "string" },
+  staged: { type: "boolean" },
+  format: { type: "string" },
 } as const;
 
 function parseMemfsArgs(argv: string[]) {
@@ -107,6 +117,29 @@ async function listBackups(
   return backups;
 }
 
+async function runLint(
+  dir: string,
+  options: { staged?: boolean; format?: string },
+): Promise<number> {
+  const format = options.format ?? "json";
+  if (format !== "json" && format !== "text") {
+    console.error(`Invalid --format: ${format} (expected json or text)`);
+    return 1;
+  }
+  if (!existsSync(dir)) {
+    console.error(`Memory directory not found: ${dir}`);
+    return 1;
+  }
+  const result = await lintMemoryDirectory(dir, { staged: options.staged });
+  if (format === "text") {
+    const report = formatMemoryLintIssues(result);
+    if (report) console.log(report);
+  } else {
+    console.log(JSON.stringify(result, null, 2));
+  }
+  return result.errorCount > 0 ? 2 : 0;
+}
+
 function resolveBackupPath(agentId: string, from: string): string {
   if (from.startsWith("/") || /^[A-Za-z]:[/\\]/.test(from)) {
     return from;
@@ -134,6 +167,15 @@ export async function runMemfsSubcommand(argv: string[]): Promise<number> {
 
   const agentId = getAgentId(parsed.values.agent, parsed.values["agent-id"]);
 
+  if (action === "lint" && parsed.values.dir) {
+    try {
+      return await runLint(parsed.values.dir, parsed.values);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      return 1;
+    }
+  }
+
   if (!agentId) {
     console.error(
       "Missing agent id. Set LETTA_AGENT_ID or pass --agent/--agent-id.",
@@ -182,6 +224,10 @@ export async function runMemfsSubcommand(argv: string[]): Promise<number> {
       return 0;
     }
 
+    if (action === "lint") {
+      return await runLint(getMemoryRoot(agentId), parsed.values);
+    }
+
     if (action === "backup") {
       const root = getMemoryRoot(agentId);
       if (!existsSync(root)) {
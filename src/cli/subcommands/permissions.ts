@@ -0,0 +1,136 @@
+/**
+ * `letta permissions` CLI subcommand.
+ *
+ * Usage:
+ *   letta permissions explain --tool <name> [--input <json>] [--cwd <dir>]
+ *                             [--permission-mode <mode>] [--json]
+ */
+
+import { parseArgs } from "node:util";
+import {
+  explainPermission,
+  formatPermissionExplanation,
+  parseToolInput,
+} from "../../permissions/explain";
+import { registerCustomPermissionModes } from "../../permissions/loader";
+import {
+  BUILTIN_PERMISSION_MODES,
+  permissionMode,
+} from "../../permissions/mode";
+
+// ── Usage ───────────────────────────────────────────────────────────
+
+function printUsage(): void {
+  console.log(
+    `
+Usage:
+  letta permissions explain --tool <name> [--input <json>] [options]
+
+Replays a tool call through the permission checker (without running it) and
+prints the rule sources, each trace stage, the decision with the settings
+file its rule came from, and any disagreement between the v1 and v2 engines.
+
+Explain options:
+  --tool <name>           Tool name (e.g. Bash, Edit, WebFetch)
+  --input <json>          Tool arguments as a JSON object
+                          (e.g. '{"command":"git push"}')
+  --cwd <dir>             Working directory (default: current directory)
+  --permission-mode <m>   Evaluate under this mode (default: default)
+  --json                  Print the explanation as JSON
+`.trim(),
+  );
+}
+
+// ── Args ────────────────────────────────────────────────────────────
+
+const PERMISSIONS_OPTIONS = {
+  help: { type: "boolean", short: "h" },
+  tool: { type: "string" },
+  input: { type: "string" },
+  cwd: { type: "string" },
+  "permission-mode": { type: "string" },
+  json: { type: "boolean" },
+} as const;
+
+function parsePermissionsArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    options: PERMISSIONS_OPTIONS,
+    strict: true,
+    allowPositionals: true,
+  });
+}
+
+// ── Handlers ────────────────────────────────────────────────────────
+
+async function handleExplain(
+  values: ReturnType<typeof parsePermissionsArgs>["values"],
+): Promise<number> {
+  const tool = values.tool;
+  if (!tool) {
+    console.error("Error: --tool is required.");
+    return 1;
+  }
+
+  const input = parseToolInput(values.input);
+  if (typeof input === "string") {
+    console.error(`Error: ${input}`);
+    return 1;
+  }
+
+  const workingDirectory = values.cwd ?? process.cwd();
+  const modeValue = values["permission-mode"] ?? "default";
+  await registerCustomPermissionModes(workingDirectory);
+  if (!permissionMode.isKnownMode(modeValue)) {
+    const validModes = [
+      ...BUILTIN_PERMISSION_MODES,
+      ...Object.keys(permissionMode.getCustomModes()),
+    ];
+    console.error(
+      `Error: invalid permission mode "${modeValue}". Valid modes: ${validModes.join(", ")}`,
+    );
+    return 1;
+  }
+
+  const explanation = await explainPermission(tool, input, {
+    workingDirectory,
+    mode: modeValue,
+  });
+
+  if (values.json) {
+    console.log(JSON.stringify(explanation, null, 2));
+  } else {
+    console.log(formatPermissionExplanation(explanation));
+  }
+  return 0;
+}
+
+// ── Entry ───────────────────────────────────────────────────────────
+
+export async function runPermissionsSubcommand(
+  argv: string[],
+): Promise<number> {
+  let parsed: ReturnType<typeof parsePermissionsArgs>;
+  try {
+    parsed = parsePermissionsArgs(argv);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    printUsage();
+    return 1;
+  }
+
+  const [action] = parsed.positionals;
+  if (parsed.values.help || !action || action === "help") {
+    printUsage();
+    return 0;
+  }
+
+  switch (action) {
+    case "explain":
+      return handleExplain(parsed.values);
+    default:
+      console.error(`Unknown action: ${action}`);
+      printUsage();
+      return 1;
+  }
+}
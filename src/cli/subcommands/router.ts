@@ -5,6 +5,7 @@ import { runCronSubcommand } from "./cron";
 import { runListenSubcommand } from "./listen.tsx";
 import { runMemfsSubcommand } from "./memfs";
 import { runMessagesSubcommand } from "./messages";
+import { runPermissionsSubcommand } from "./permissions";
 
 export async function runSubcommand(argv: string[]): Promise<number | null> {
   const [command, ...rest] = argv;
@@ -29,6 +30,8 @@ export async function runSubcommand(argv: string[]): Promise<number | null> {
       return runConnectSubcommand(rest);
     case "cron":
       return runCronSubcommand(rest);
+    case "permissions":
+      return runPermissionsSubcommand(rest);
     default:
       return null;
   }
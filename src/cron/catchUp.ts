@@ -0,0 +1,82 @@
+/**
+ * Catch-up planning for occurrences missed while no scheduler was running.
+ *
+ * The scheduler only evaluates the current minute on each tick, so when the
+ * listener is down (or the machine sleeps) occurrences pass unseen. On
+ * startup and after a tick gap, the scheduler asks planCatchUp which of
+ * those occurrences to fire late and which to record as missed, according
+ * to the task's CatchUpPolicy.
+ */
+
+import { getNextFireTimes } from "./cronExpression";
+import type { CronTask } from "./cronFile";
+
+// ── Constants ───────────────────────────────────────────────────────
+
+/** Occurrences older than this are neither fired nor recorded. */
+export const CATCH_UP_LOOKBACK_MS = 24 * 60 * 60_000;
+/** Upper bound on late runs for the run_all_bounded policy. */
+export const MAX_CATCH_UP_RUNS = 5;
+/** Upper bound on individually recorded misses per catch-up pass. */
+const MAX_RECORDED_MISSES = 100;
+/** Every-minute crons produce at most one occurrence per minute. */
+const MAX_SCANNED_OCCURRENCES = CATCH_UP_LOOKBACK_MS / 60_000 + 1;
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface CatchUpPlan {
+  /** Occurrences to fire now, oldest first. */
+  fire: Date[];
+  /** Occurrences to record as missed, oldest first. */
+  missed: Date[];
+  /** New value for the task's caught_up_through watermark. */
+  caughtUpThrough: Date;
+}
+
+// ── Planning ────────────────────────────────────────────────────────
+
+function latestMs(...isoTimes: Array<string | null | undefined>): number {
+  return Math.max(0, ...isoTimes.map((t) => (t ? new Date(t).getTime() : 0)));
+}
+
+/**
+ * Plan catch-up for a recurring task. Returns null when no occurrence was
+ * missed between the task's last known activity and the start of the
+ * current minute (the current minute is left to the regular tick).
+ */
+export function planCatchUp(task: CronTask, now: Date): CatchUpPlan | null {
+  if (!task.recurring || task.status !== "active") return null;
+
+  const currentMinuteMs = Math.floor(now.getTime() / 60_000) * 60_000;
+  const anchorMs = Math.max(
+    latestMs(task.created_at, task.last_fired_at, task.caught_up_through),
+    now.getTime() - CATCH_UP_LOOKBACK_MS,
+  );
+  const expiresMs = task.expires_at
+    ? new Date(task.expires_at).getTime()
+    : Number.POSITIVE_INFINITY;
+
+  const occurrences = getNextFireTimes(task.cron, {
+    from: new Date(anchorMs),
+    count: MAX_SCANNED_OCCURRENCES,
+    timezone: task.timezone,
+  }).filter((d) => d.getTime() < currentMinuteMs && d.getTime() < expiresMs);
+
+  const last = occurrences[occurrences.length - 1];
+  if (!last) return null;
+
+  const policy = task.catch_up ?? "skip";
+  const fireCount =
+    policy === "run_once"
+      ? 1
+      : policy === "run_all_bounded"
+        ? MAX_CATCH_UP_RUNS
+        : 0;
+  const splitAt = Math.max(0, occurrences.length - fireCount);
+
+  return {
+    fire: occurrences.slice(splitAt),
+    missed: occurrences.slice(0, splitAt).slice(-MAX_RECORDED_MISSES),
+    caughtUpThrough: last,
+  };
+}
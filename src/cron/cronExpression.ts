@@ -0,0 +1,422 @@
+/**
+ * 5-field cron expression parser and evaluator.
+ *
+ * Fields: minute hour day-of-month month day-of-week
+ *
+ * Supported syntax per field:
+ *   *            any value (`?` is accepted as an alias in day fields)
+ *   N            exact value
+ *   N-M          inclusive range
+ *   ∗/S, N-M/S   steps over the full range or a sub-range (`N/S` = `N-max/S`)
+ *   A,B-C,D/S    comma-separated lists of any of the above
+ *   JAN-DEC      month names; SUN-SAT day names (7 is also Sunday)
+ *   L, L-N       day-of-month: last day of the month, N days before it
+ *   NL           day-of-week: last weekday N of the month (e.g. 5L)
+ *   N#K          day-of-week: K-th weekday N of the month (e.g. 1#2)
+ *
+ * Macros: @yearly, @annually, @monthly, @weekly, @daily, @midnight, @hourly.
+ *
+ * DST handling (matches Vixie cron):
+ * - "Fixed-time" expressions (no `*` in the minute or hour field) fire once
+ *   per wall-clock occurrence: in a fall-back overlap they fire on the first
+ *   occurrence only, and wall times skipped by spring-forward fire at the
+ *   moment the clocks jump.
+ * - Interval expressions (`*` in minute or hour) follow the wall clock as it
+ *   happens: skipped minutes don't fire, repeated minutes fire twice.
+ */
+
+import {
+  addWallMinutes,
+  findGapEnd,
+  getUtcOffsetMinutes,
+  toWallClock,
+  type WallClock,
+  wallClockToInstants,
+  wallClockToUtcFields,
+} from "./timezone";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface ParsedCron {
+  /** The 5-field expression (macros expanded). */
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** `L` → 0, `L-3` → 3 (days before the last day of the month). */
+  lastDayOffsets: number[];
+  /** Weekdays from `NL` entries (last N-weekday of the month). */
+  lastWeekdays: number[];
+  /** Entries from `N#K` (K-th N-weekday of the month). */
+  nthWeekdays: Array<{ weekday: number; nth: number }>;
+  /** False when the field is `*` / `?` (standard cron OR semantics). */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+  /** True when neither minute nor hour uses `*` (see DST notes above). */
+  fixedTime: boolean;
+}
+
+interface FieldSpec {
+  min: number;
+  max: number;
+  names?: Record<string, number>;
+}
+
+// ── Constants ───────────────────────────────────────────────────────
+
+const MINUTE_MS = 60_000;
+
+/** How far ahead getNextFireTimes searches before giving up (~8 years). */
+const MAX_LOOKAHEAD_DAYS = 366 * 8;
+
+const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES: Record<string, number> = {
+  JAN: 1,
+  FEB: 2,
+  MAR: 3,
+  APR: 4,
+  MAY: 5,
+  JUN: 6,
+  JUL: 7,
+  AUG: 8,
+  SEP: 9,
+  OCT: 10,
+  NOV: 11,
+  DEC: 12,
+};
+
+const DAY_NAMES: Record<string, number> = {
+  SUN: 0,
+  MON: 1,
+  TUE: 2,
+  WED: 3,
+  THU: 4,
+  FRI: 5,
+  SAT: 6,
+};
+
+const MINUTE_FIELD: FieldSpec = { min: 0, max: 59 };
+const HOUR_FIELD: FieldSpec = { min: 0, max: 23 };
+const DOM_FIELD: FieldSpec = { min: 1, max: 31 };
+const MONTH_FIELD: FieldSpec = { min: 1, max: 12, names: MONTH_NAMES };
+// 7 is accepted as Sunday and folded to 0 after parsing.
+const DOW_FIELD: FieldSpec = { min: 0, max: 7, names: DAY_NAMES };
+
+// ── Parsing ─────────────────────────────────────────────────────────
+
+/**
+ * Expand a `@macro` into its 5-field equivalent. Other input is returned
+ * trimmed and unchanged.
+ */
+export function expandCronMacro(expr: string): string {
+  const trimmed = expr.trim();
+  return CRON_MACROS[trimmed.toLowerCase()] ?? trimmed;
+}
+
+function parseValue(token: string, spec: FieldSpec): number | null {
+  const upper = token.toUpperCase();
+  if (spec.names && upper in spec.names) {
+    return spec.names[upper] ?? null;
+  }
+  if (!/^\d+$/.test(token)) return null;
+  const value = Number.parseInt(token, 10);
+  if (value < spec.min || value > spec.max) return null;
+  return value;
+}
+
+/**
+ * Parse a plain field (no L/# modifiers) into the set of matching values.
+ * Returns null on any syntax or range error.
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> | null {
+  const values = new Set<number>();
+  for (const item of field.split(",")) {
+    if (!addFieldItem(item, spec, values)) return null;
+  }
+  return values;
+}
+
+function addFieldItem(
+  item: string,
+  spec: FieldSpec,
+  values: Set<number>,
+): boolean {
+  const [rangePart, stepPart, extra] = item.split("/");
+  if (extra !== undefined || !rangePart) return false;
+
+  let step = 1;
+  if (stepPart !== undefined) {
+    if (!/^\d+$/.test(stepPart)) return false;
+    step = Number.parseInt(stepPart, 10);
+    if (step <= 0) return false;
+  }
+
+  let start: number;
+  let end: number;
+  if (rangePart === "*" || rangePart === "?") {
+    start = spec.min;
+    end = spec.max;
+  } else if (rangePart.includes("-")) {
+    const [startStr, endStr, rest] = rangePart.split("-");
+    if (rest !== undefined) return false;
+    const s = parseValue(startStr ?? "", spec);
+    const e = parseValue(endStr ?? "", spec);
+    if (s === null || e === null || s > e) return false;
+    start = s;
+    end = e;
+  } else {
+    const v = parseValue(rangePart, spec);
+    if (v === null) return false;
+    start = v;
+    // `N/S` means "from N to the end of the range, every S".
+    end = stepPart !== undefined ? spec.max : v;
+  }
+
+  for (let v = start; v <= end; v += step) {
+    values.add(v);
+  }
+  return true;
+}
+
+/**
+ * Parse a cron expression (5 fields or a `@macro`).
+ * Returns null if the expression is invalid.
+ */
+export function parseCron(expr: string): ParsedCron | null {
+  const expression = expandCronMacro(expr);
+  const fields = expression.split(/\s+/);
+  if (fields.length !== 5) return null;
+  const [fMinute, fHour, fDom, fMonth, fDow] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string,
+  ];
+
+  const minutes = parseField(fMinute, MINUTE_FIELD);
+  const hours = parseField(fHour, HOUR_FIELD);
+  const months = parseField(fMonth, MONTH_FIELD);
+  if (!minutes || !hours || !months) return null;
+
+  // Day-of-month: plain items plus L / L-N.
+  const daysOfMonth = new Set<number>();
+  const lastDayOffsets: number[] = [];
+  for (const item of fDom.split(",")) {
+    const lastMatch = item.toUpperCase().match(/^L(?:-(\d+))?$/);
+    if (lastMatch) {
+      const offset = Number.parseInt(lastMatch[1] ?? "0", 10);
+      if (offset > 30) return null;
+      lastDayOffsets.push(offset);
+      continue;
+    }
+    if (!addFieldItem(item, DOM_FIELD, daysOfMonth)) return null;
+  }
+
+  // Day-of-week: plain items plus NL / N#K.
+  const daysOfWeek = new Set<number>();
+  const lastWeekdays: number[] = [];
+  const nthWeekdays: Array<{ weekday: number; nth: number }> = [];
+  for (const item of fDow.split(",")) {
+    const lastMatch = item.match(/^(\w+)L$/i);
+    if (lastMatch) {
+      const weekday = parseValue(lastMatch[1] ?? "", DOW_FIELD);
+      if (weekday === null) return null;
+      lastWeekdays.push(weekday % 7);
+      continue;
+    }
+    const nthMatch = item.match(/^(\w+)#(\d)$/);
+    if (nthMatch) {
+      const weekday = parseValue(nthMatch[1] ?? "", DOW_FIELD);
+      const nth = Number.parseInt(nthMatch[2] ?? "", 10);
+      if (weekday === null || nth < 1 || nth > 5) return null;
+      nthWeekdays.push({ weekday: weekday % 7, nth });
+      continue;
+    }
+    if (!addFieldItem(item, DOW_FIELD, daysOfWeek)) return null;
+  }
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    lastDayOffsets,
+    lastWeekdays,
+    nthWeekdays,
+    domRestricted: fDom !== "*" && fDom !== "?",
+    dowRestricted: fDow !== "*" && fDow !== "?",
+    fixedTime: !fMinute.includes("*") && !fHour.includes("*"),
+  };
+}
+
+// ── Matching ────────────────────────────────────────────────────────
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function dayMatches(cron: ParsedCron, wall: WallClock): boolean {
+  if (!cron.months.has(wall.month)) return false;
+
+  const lastDay = daysInMonth(wall.year, wall.month);
+  const domMatch =
+    cron.daysOfMonth.has(wall.day) ||
+    cron.lastDayOffsets.some((offset) => wall.day === lastDay - offset);
+  const dowMatch =
+    cron.daysOfWeek.has(wall.dayOfWeek) ||
+    cron.lastWeekdays.some(
+      (weekday) => weekday === wall.dayOfWeek && wall.day + 7 > lastDay,
+    ) ||
+    cron.nthWeekdays.some(
+      ({ weekday, nth }) =>
+        weekday === wall.dayOfWeek && Math.ceil(wall.day / 7) === nth,
+    );
+
+  // Standard cron: when both day fields are restricted, either may match.
+  if (cron.domRestricted && cron.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+function wallClockMatches(cron: ParsedCron, wall: WallClock): boolean {
+  return (
+    cron.minutes.has(wall.minute) &&
+    cron.hours.has(wall.hour) &&
+    dayMatches(cron, wall)
+  );
+}
+
+/**
+ * Check whether a parsed cron fires at the minute containing `date`,
+ * evaluated in `timezone` (local time when null/invalid).
+ */
+export function parsedCronMatches(
+  cron: ParsedCron,
+  date: Date,
+  timezone?: string | null,
+): boolean {
+  const minuteMs = Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+  const wall = toWallClock(minuteMs, timezone);
+
+  if (wallClockMatches(cron, wall)) {
+    if (!cron.fixedTime) return true;
+    // Fall-back overlap: only the first occurrence of a fixed time fires.
+    const instants = wallClockToInstants(wall, timezone);
+    return instants.length === 0 || instants[0] === minuteMs;
+  }
+
+  if (!cron.fixedTime) return false;
+
+  // Spring-forward gap: fixed times skipped by the jump fire at the first
+  // minute after it.
+  const skipped =
+    getUtcOffsetMinutes(minuteMs, timezone) -
+    getUtcOffsetMinutes(minuteMs - MINUTE_MS, timezone);
+  for (let i = 1; i <= skipped; i++) {
+    if (wallClockMatches(cron, addWallMinutes(wall, -i))) return true;
+  }
+  return false;
+}
+
+// ── Next fire times ─────────────────────────────────────────────────
+
+export interface NextFireTimesOptions {
+  /** Start point (exclusive). Defaults to now. */
+  from?: Date;
+  /** Number of fire times to return. */
+  count: number;
+  timezone?: string | null;
+}
+
+/**
+ * Compute the next `count` instants at which `expr` fires, after `from`.
+ * Returns fewer entries (possibly none) if the expression is invalid or
+ * doesn't fire within the lookahead window.
+ */
+export function getNextFireTimes(
+  expr: string,
+  options: NextFireTimesOptions,
+): Date[] {
+  const cron = parseCron(expr);
+  if (!cron || options.count <= 0) return [];
+
+  const { timezone } = options;
+  const fromMs = (options.from ?? new Date()).getTime();
+  const startMs = Math.floor(fromMs / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const startWall = toWallClock(startMs, timezone);
+  // Wall times this far before the start can't map to instants after it.
+  const earliestWallMs = wallClockToUtcFields(startWall) - 3 * 60 * MINUTE_MS;
+
+  const sortedHours = [...cron.hours].sort((a, b) => a - b);
+  const sortedMinutes = [...cron.minutes].sort((a, b) => a - b);
+  const results: number[] = [];
+  const seen = new Set<number>();
+
+  // Walk calendar days from the day before the start (DST can move the
+  // start's wall date), collecting candidate instants per day.
+  const firstDayMs = Date.UTC(
+    startWall.year,
+    startWall.month - 1,
+    startWall.day - 1,
+  );
+  for (let i = 0; i <= MAX_LOOKAHEAD_DAYS; i++) {
+    const day = new Date(firstDayMs + i * 24 * 60 * MINUTE_MS);
+    const dayWall: WallClock = {
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+      hour: 0,
+      minute: 0,
+      dayOfWeek: day.getUTCDay(),
+    };
+    if (!dayMatches(cron, dayWall)) continue;
+
+    const dayInstants: number[] = [];
+    for (const hour of sortedHours) {
+      for (const minute of sortedMinutes) {
+        const wall = { ...dayWall, hour, minute };
+        if (wallClockToUtcFields(wall) < earliestWallMs) continue;
+
+        const instants = wallClockToInstants(wall, timezone);
+        if (instants.length === 0) {
+          if (!cron.fixedTime) continue;
+          const gapEnd = findGapEnd(wall, timezone);
+          if (gapEnd !== null) dayInstants.push(gapEnd);
+        } else if (cron.fixedTime) {
+          dayInstants.push(instants[0] as number);
+        } else {
+          dayInstants.push(...instants);
+        }
+      }
+    }
+
+    // Overlaps can produce out-of-order instants within a day.
+    dayInstants.sort((a, b) => a - b);
+    for (const ms of dayInstants) {
+      if (ms < startMs || seen.has(ms)) continue;
+      seen.add(ms);
+      results.push(ms);
+      if (results.length >= options.count) {
+        return results.map((r) => new Date(r));
+      }
+    }
+  }
+
+  return results.map((r) => new Date(r));
+}
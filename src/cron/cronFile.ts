@@ -19,12 +19,31 @@ import {
   writeFileSync,
 } from "node:fs";
 import { join } from "node:path";
+import { getLettaDir } from "../utils/lettaDir";
+import { getNextFireTimes } from "./cronExpression";
 import { estimatePeriodMs } from "./parseInterval";
 
 // ── Types ───────────────────────────────────────────────────────────
 
 export type CronTaskStatus = "active" | "fired" | "missed" | "cancelled";
-export type CancelReason = "conversation_not_found" | "expired";
+export type CancelReason =
+  | "conversation_not_found"
+  | "expired"
+  | "blocked_by_hook";
+
+/**
+ * What to do with occurrences that passed while no scheduler was running.
+ * - skip: record them as missed (default)
+ * - run_once: fire a single catch-up run for the most recent occurrence
+ * - run_all_bounded: fire each missed occurrence, up to a fixed bound
+ */
+export type CatchUpPolicy = "skip" | "run_once" | "run_all_bounded";
+
+export const CATCH_UP_POLICIES: readonly CatchUpPolicy[] = [
+  "skip",
+  "run_once",
+  "run_all_bounded",
+];
 
 export interface SchedulerOwner {
   pid: number;
@@ -59,6 +78,11 @@ export interface CronTask {
   cancel_reason: CancelReason | null;
   jitter_offset_ms: number;
 
+  // Catch-up (absent in files written before catch-up support → "skip")
+  catch_up?: CatchUpPolicy;
+  /** Occurrences at or before this time have been accounted for (ISO). */
+  caught_up_through?: string | null;
+
   // One-shot specific
   scheduled_for: string | null; // ISO UTC
   fired_at: string | null;
@@ -86,11 +110,6 @@ const GC_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
 
 // ── Paths ───────────────────────────────────────────────────────────
 
-function getLettaDir(): string {
-  if (process.env.LETTA_HOME) return process.env.LETTA_HOME;
-  return join(process.env.HOME ?? process.env.USERPROFILE ?? "~", ".letta");
-}
-
 function getCronFilePath(): string {
   return join(getLettaDir(), CRON_FILE_NAME);
 }
@@ -324,6 +343,7 @@ export interface AddTaskInput {
   recurring: boolean;
   prompt: string;
   scheduled_for?: Date; // for one-shots
+  catch_up?: CatchUpPolicy;
 }
 
 export interface AddTaskResult {
@@ -380,6 +400,8 @@ export function addTask(input: AddTaskInput): AddTaskResult {
         input.scheduled_for ?? null,
         now,
       ),
+      catch_up: input.catch_up ?? "skip",
+      caught_up_through: null,
       scheduled_for: input.scheduled_for?.toISOString() ?? null,
       fired_at: null,
       missed_at: null,
@@ -581,6 +603,41 @@ export function getActiveTasks(): CronTask[] {
   return data.tasks.filter((t) => t.status === "active");
 }
 
+// ── Fire time preview ───────────────────────────────────────────────
+
+export const DEFAULT_FIRE_TIME_PREVIEW_COUNT = 5;
+
+/**
+ * Preview the next `count` times a task will fire (ISO UTC), including its
+ * jitter offset. Recurring previews stop at `expires_at`; one-shots return
+ * their scheduled time. Inactive tasks return an empty list.
+ */
+export function getTaskNextFireTimes(
+  task: CronTask,
+  count: number = DEFAULT_FIRE_TIME_PREVIEW_COUNT,
+  from: Date = new Date(),
+): string[] {
+  if (task.status !== "active" || count <= 0) return [];
+
+  if (!task.recurring) {
+    if (!task.scheduled_for) return [];
+    const ms = new Date(task.scheduled_for).getTime() + task.jitter_offset_ms;
+    return [new Date(Math.max(ms, from.getTime())).toISOString()];
+  }
+
+  const expiresMs = task.expires_at
+    ? new Date(task.expires_at).getTime()
+    : Number.POSITIVE_INFINITY;
+  return getNextFireTimes(task.cron, {
+    from,
+    count,
+    timezone: task.timezone,
+  })
+    .map((d) => d.getTime() + task.jitter_offset_ms)
+    .filter((ms) => ms < expiresMs)
+    .map((ms) => new Date(ms).toISOString());
+}
+
 /**
  * Get the mtime of crons.json for change detection.
  * Returns 0 if the file doesn't exist.
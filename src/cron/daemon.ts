@@ -0,0 +1,341 @@
+/**
+ * Standalone cron daemon (`letta cron daemon`).
+ *
+ * Hosts the cron scheduler without a WS listener so scheduled prompts fire
+ * on machines that never run `letta server` (e.g. a CI box). It claims the
+ * same scheduler lease as the listener, so at most one of them fires tasks
+ * at a time.
+ *
+ * Each fired prompt runs as a headless `letta -p` child process against the
+ * task's agent and conversation, so results land in the target
+ * conversation exactly as if the prompt had been sent there. Runs in the
+ * same conversation are serialized; child output is written to a per-run
+ * log under ~/.letta/cron-logs/<task-id>/<run-id>.log.
+ */
+
+import { spawn } from "node:child_process";
+import {
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  type WriteStream,
+} from "node:fs";
+import { join } from "node:path";
+import { createInterface } from "node:readline";
+import { getLettaDir } from "../utils/lettaDir";
+import type { CronTask } from "./cronFile";
+import { type CronRunRecord, recordCronRunCompleted } from "./runHistory";
+import {
+  type CronDispatcher,
+  startScheduler,
+  stopScheduler,
+} from "./scheduler";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface CronLauncher {
+  command: string;
+  args: string[];
+}
+
+export interface CronDaemonOptions {
+  /** Permission mode forwarded to each headless run. */
+  permissionMode?: string;
+  /** Directory for per-run logs (defaults to ~/.letta/cron-logs). */
+  logDir?: string;
+  /** How to launch the letta CLI; defaults to the subagent launcher. */
+  resolveLauncher?: (cliArgs: string[]) => CronLauncher;
+}
+
+export interface CronRunOutcome {
+  success: boolean;
+  runId: string | null;
+  stopReason: string | null;
+  error: string | null;
+  logPath: string;
+}
+
+/** The subset of a headless stream-json `result` event the daemon reads. */
+interface HeadlessResultEvent {
+  type: "result";
+  subtype: string;
+  run_ids?: string[];
+  stop_reason?: string;
+  result?: string | null;
+}
+
+// ── Constants ───────────────────────────────────────────────────────
+
+const LOG_DIR_NAME = "cron-logs";
+/** Grace period for children to exit after SIGTERM on shutdown. */
+const SHUTDOWN_KILL_DELAY_MS = 5_000;
+
+// ── Paths ───────────────────────────────────────────────────────────
+
+export function getDefaultCronLogDir(): string {
+  return join(getLettaDir(), LOG_DIR_NAME);
+}
+
+function getRunLogPath(logDir: string, task: CronTask, recordId: string) {
+  return join(logDir, task.id, `${recordId}.log`);
+}
+
+// ── Headless runs ───────────────────────────────────────────────────
+
+/**
+ * CLI arguments for running a fired prompt in headless mode against the
+ * task's conversation.
+ */
+export function buildCronRunArgs(
+  task: CronTask,
+  prompt: string,
+  options: Pick<CronDaemonOptions, "permissionMode"> = {},
+): string[] {
+  // Headless derives the agent from an explicit conversation ID; the
+  // agent's default conversation needs the agent ID alongside it.
+  const args =
+    task.conversation_id === "default"
+      ? ["--agent", task.agent_id, "--conv", "default"]
+      : ["--conv", task.conversation_id];
+
+  args.push("-p", prompt);
+  args.push("--output-format", "stream-json");
+
+  if (options.permissionMode && options.permissionMode !== "default") {
+    args.push("--permission-mode", options.permissionMode);
+  }
+  return args;
+}
+
+async function resolveDefaultLauncher(
+  cliArgs: string[],
+): Promise<CronLauncher> {
+  const { resolveSubagentLauncher } = await import(
+    "../agent/subagents/manager"
+  );
+  return resolveSubagentLauncher(cliArgs);
+}
+
+function parseResultEvent(line: string): HeadlessResultEvent | null {
+  if (!line.startsWith("{")) return null;
+  try {
+    const event = JSON.parse(line) as { type?: unknown };
+    return event.type === "result" ? (event as HeadlessResultEvent) : null;
+  } catch {
+    return null;
+  }
+}
+
+function failure(error: string): Omit<CronRunOutcome, "logPath"> {
+  return { success: false, runId: null, stopReason: null, error };
+}
+
+async function runHeadless(
+  cliArgs: string[],
+  options: CronDaemonOptions,
+  log: WriteStream,
+  signal?: AbortSignal,
+): Promise<Omit<CronRunOutcome, "logPath">> {
+  let launcher: CronLauncher;
+  try {
+    launcher = options.resolveLauncher
+      ? options.resolveLauncher(cliArgs)
+      : await resolveDefaultLauncher(cliArgs);
+  } catch (err) {
+    return failure(
+      `Failed to launch headless run: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  if (signal?.aborted) return failure("Interrupted before start");
+
+  return new Promise((resolve) => {
+    const proc = spawn(launcher.command, launcher.args, {
+      cwd: process.cwd(),
+      env: process.env,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    const abortHandler = () => proc.kill("SIGTERM");
+    signal?.addEventListener("abort", abortHandler);
+
+    let result: HeadlessResultEvent | null = null;
+    let lastStderrLine = "";
+
+    createInterface({ input: proc.stdout }).on("line", (line) => {
+      log.write(`${line}\n`);
+      result = parseResultEvent(line) ?? result;
+    });
+    createInterface({ input: proc.stderr }).on("line", (line) => {
+      log.write(`[stderr] ${line}\n`);
+      if (line.trim()) lastStderrLine = line.trim();
+    });
+
+    proc.on("error", (err) => {
+      signal?.removeEventListener("abort", abortHandler);
+      resolve(failure(`Failed to launch headless run: ${err.message}`));
+    });
+
+    proc.on("close", (code) => {
+      signal?.removeEventListener("abort", abortHandler);
+      const final = result as HeadlessResultEvent | null;
+      const runId = final?.run_ids?.[final.run_ids.length - 1] ?? null;
+      if (final?.subtype === "success" && code === 0) {
+        resolve({
+          success: true,
+          runId,
+          stopReason: final.stop_reason ?? "end_turn",
+          error: null,
+        });
+        return;
+      }
+      resolve({
+        success: false,
+        runId,
+        stopReason: final?.stop_reason ?? null,
+        error: signal?.aborted
+          ? "Interrupted by daemon shutdown"
+          : lastStderrLine || `Headless run exited with code ${code}`,
+      });
+    });
+  });
+}
+
+/**
+ * Execute one fired prompt as a headless child process, log its output and
+ * record the outcome in the run history. Never throws.
+ */
+export async function executeCronRun(
+  task: CronTask,
+  prompt: string,
+  runRecord: CronRunRecord,
+  options: CronDaemonOptions = {},
+  signal?: AbortSignal,
+): Promise<CronRunOutcome> {
+  const logDir = options.logDir ?? getDefaultCronLogDir();
+  const logPath = getRunLogPath(logDir, task, runRecord.id);
+  const taskLogDir = join(logDir, task.id);
+  if (!existsSync(taskLogDir)) {
+    mkdirSync(taskLogDir, { recursive: true });
+  }
+
+  const log = createWriteStream(logPath, { flags: "a" });
+  log.write(
+    `# cron task ${task.id} (${task.name}) run ${runRecord.id}\n` +
+      `# scheduled_for ${runRecord.scheduled_for}, started ${new Date().toISOString()}\n`,
+  );
+
+  const outcome = await runHeadless(
+    buildCronRunArgs(task, prompt, options),
+    options,
+    log,
+    signal,
+  );
+
+  log.write(
+    `# finished ${new Date().toISOString()}: ${outcome.success ? "succeeded" : `failed (${outcome.error})`}\n`,
+  );
+  await new Promise<void>((resolve) => log.end(resolve));
+
+  try {
+    recordCronRunCompleted(runRecord.id, task.id, { ...outcome, logPath });
+  } catch (err) {
+    console.error(`[Cron] Failed to record run outcome for ${task.id}:`, err);
+  }
+
+  return { ...outcome, logPath };
+}
+
+// ── Daemon ──────────────────────────────────────────────────────────
+
+function emitEvent(event: Record<string, unknown>): void {
+  console.log(JSON.stringify({ ...event, at: new Date().toISOString() }));
+}
+
+/**
+ * Run the cron daemon until SIGINT/SIGTERM or until the scheduler lease is
+ * lost. Resolves with the process exit code.
+ */
+export function runCronDaemon(
+  options: CronDaemonOptions = {},
+): Promise<number> {
+  const logDir = options.logDir ?? getDefaultCronLogDir();
+  const abort = new AbortController();
+  /** Tail of the run chain per conversation; runs in a conversation are serialized. */
+  const chains = new Map<string, Promise<void>>();
+
+  const dispatch: CronDispatcher = (task, prompt, runRecord) => {
+    const key = `${task.agent_id}:${task.conversation_id}`;
+    const previous = chains.get(key) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      if (abort.signal.aborted) return;
+      emitEvent({
+        event: "run_started",
+        task_id: task.id,
+        run_record_id: runRecord.id,
+        scheduled_for: runRecord.scheduled_for,
+      });
+      const outcome = await executeCronRun(
+        task,
+        prompt,
+        runRecord,
+        { ...options, logDir },
+        abort.signal,
+      );
+      emitEvent({
+        event: "run_finished",
+        task_id: task.id,
+        run_record_id: runRecord.id,
+        success: outcome.success,
+        run_id: outcome.runId,
+        stop_reason: outcome.stopReason,
+        error: outcome.error,
+        log_path: outcome.logPath,
+      });
+    });
+    chains.set(key, next);
+    void next.finally(() => {
+      if (chains.get(key) === next) chains.delete(key);
+    });
+    return { delivered: true };
+  };
+
+  return new Promise<number>((resolve) => {
+    let stopping = false;
+
+    const shutdown = async (code: number, reason: string) => {
+      if (stopping) return;
+      stopping = true;
+      process.off("SIGINT", onSignal);
+      process.off("SIGTERM", onSignal);
+      stopScheduler();
+      emitEvent({ event: "stopping", reason, in_flight: chains.size });
+
+      abort.abort();
+      const forceExit = setTimeout(() => resolve(code), SHUTDOWN_KILL_DELAY_MS);
+      await Promise.allSettled(chains.values());
+      clearTimeout(forceExit);
+      resolve(code);
+    };
+
+    const onSignal = (signal: NodeJS.Signals) => {
+      void shutdown(0, signal);
+    };
+
+    const started = startScheduler(dispatch, {
+      onLeaseLost: () => {
+        void shutdown(1, "lease_lost");
+      },
+    });
+    if (!started) {
+      console.error(
+        "Error: another process (a running `letta server` or cron daemon) holds the cron scheduler lease.",
+      );
+      resolve(1);
+      return;
+    }
+
+    process.on("SIGINT", onSignal);
+    process.on("SIGTERM", onSignal);
+    emitEvent({ event: "started", pid: process.pid, log_dir: logDir });
+  });
+}
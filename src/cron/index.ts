@@ -1,18 +1,36 @@
+export {
+  CATCH_UP_LOOKBACK_MS,
+  type CatchUpPlan,
+  MAX_CATCH_UP_RUNS,
+  planCatchUp,
+} from "./catchUp";
+
+export {
+  expandCronMacro,
+  getNextFireTimes,
+  type NextFireTimesOptions,
+  type ParsedCron,
+  parseCron,
+} from "./cronExpression";
 export {
   type AddTaskInput,
   type AddTaskResult,
   addTask,
+  CATCH_UP_POLICIES,
   type CancelReason,
+  type CatchUpPolicy,
   type CronTask,
   type CronTaskStatus,
   claimSchedulerLease,
   computeJitter,
+  DEFAULT_FIRE_TIME_PREVIEW_COUNT,
   deleteAllTasks,
   deleteTask,
   garbageCollect,
   getActiveTasks,
   getCronFileMtime,
   getTask,
+  getTaskNextFireTimes,
   listTasks,
   readCronFile,
   releaseSchedulerLease,
@@ -31,3 +49,17 @@ export {
   parseAt,
   parseEvery,
 } from "./parseInterval";
+
+export {
+  type CronRunRecord,
+  type CronRunStatus,
+  compactCronRunHistory,
+  DEFAULT_HISTORY_LIMIT,
+  getCronRunHistory,
+  recordCronRunAwaitingApproval,
+  recordCronRunCompleted,
+  recordCronRunMissed,
+  recordCronRunQueued,
+} from "./runHistory";
+
+export { isValidTimezone } from "./timezone";
@@ -7,23 +7,35 @@
  *   --every 1d        → "0 0 ∗ ∗ ∗"
  *   --at "3:00pm"     → one-shot cron + scheduledFor (UTC)
  *   --at "in 45m"     → one-shot cron + scheduledFor (UTC)
- *   --cron "∗/10 ∗ ∗ ∗ ∗"  → passthrough
+ *   --cron "∗/10 ∗ ∗ ∗ ∗"  → passthrough (validated by cronExpression.ts)
  */
 
+import {
+  expandCronMacro,
+  parseCron,
+  parsedCronMatches,
+} from "./cronExpression";
+
 // ── Interval parsing (--every) ──────────────────────────────────────
 
 export interface ParsedInterval {
   cron: string;
-  /** Human-readable summary of what was parsed / any rounding applied. */
+  /** Human-readable caveat about how the schedule behaves, if any. */
   note?: string;
 }
 
 const INTERVAL_RE =
   /^(\d+)\s*(s|sec|secs|seconds?|m|min|mins|minutes?|h|hr|hrs|hours?|d|day|days?)$/i;
 
+/** Steps that repeat evenly within an hour / a day. */
+const MINUTE_STEPS = [1, 2, 3, 4, 5, 6, 10, 12, 15, 20, 30];
+const HOUR_STEPS = [1, 2, 3, 4, 6, 8, 12];
+
 /**
  * Parse an --every value (e.g. "5m", "2h", "1d") into a 5-field cron expression.
- * Returns null if the string is not a valid interval.
+ * Returns null if the string is not a valid interval, and throws if it is
+ * valid but has no exact cron equivalent (e.g. "7h" or "90s") rather than
+ * silently scheduling something else.
  */
 export function parseEvery(input: string): ParsedInterval | null {
   const match = input.trim().match(INTERVAL_RE);
@@ -34,78 +46,60 @@ export function parseEvery(input: string): ParsedInterval | null {
 
   const unit = (match[2] ?? "").toLowerCase();
 
-  // Seconds → round up to 1-minute minimum
   if (unit.startsWith("s")) {
-    if (value < 60) {
-      return {
-        cron: "*/1 * * * *",
-        note: `Rounded ${value}s up to 1m (minimum granularity is 1 minute)`,
-      };
+    if (value % 60 !== 0) {
+      throw inexpressible(`${value}s`, "cron fires at most once a minute");
     }
-    // >= 60s → convert to minutes
-    const mins = Math.round(value / 60);
-    return minuteCron(mins);
-  }
-
-  // Minutes
-  if (unit.startsWith("m")) {
-    return minuteCron(value);
-  }
-
-  // Hours
-  if (unit.startsWith("h")) {
-    if (value >= 24) {
-      return { cron: "0 0 * * *", note: `${value}h clamped to daily` };
-    }
-    if (24 % value === 0) {
-      return { cron: `0 */${value} * * *` };
-    }
-    // Non-clean divisor: use closest divisor of 24
-    const divisors = [1, 2, 3, 4, 6, 8, 12, 24];
-    const closest = divisors.reduce((prev, curr) =>
-      Math.abs(curr - value) < Math.abs(prev - value) ? curr : prev,
-    );
-    return {
-      cron: `0 */${closest} * * *`,
-      note: `${value}h rounded to every ${closest}h (nearest clean divisor of 24)`,
-    };
-  }
-
-  // Days
-  if (unit.startsWith("d")) {
-    if (value === 1) {
-      return { cron: "0 0 * * *" };
-    }
-    // Multi-day: use day-of-month step
-    return { cron: `0 0 */${value} * *` };
+    return minuteCron(value / 60);
   }
+  if (unit.startsWith("m")) return minuteCron(value);
+  if (unit.startsWith("h")) return hourCron(value);
+  if (unit.startsWith("d")) return dayCron(value);
 
   return null;
 }
 
 function minuteCron(mins: number): ParsedInterval {
-  if (mins <= 0) return { cron: "*/1 * * * *", note: "Rounded to 1m minimum" };
-  if (mins >= 60) {
-    const hours = Math.round(mins / 60);
-    return { cron: `0 */${Math.max(1, hours)} * * *` };
+  if (mins % 60 === 0) return hourCron(mins / 60);
+  if (!MINUTE_STEPS.includes(mins)) {
+    throw inexpressible(
+      `${mins}m`,
+      `minute intervals must divide 60 (${MINUTE_STEPS.join(", ")})`,
+    );
   }
+  return { cron: `*/${mins} * * * *` };
+}
 
-  // Clean divisors of 60
-  if (60 % mins === 0) {
-    return { cron: `*/${mins} * * * *` };
+function hourCron(hours: number): ParsedInterval {
+  if (hours % 24 === 0) return dayCron(hours / 24);
+  if (!HOUR_STEPS.includes(hours)) {
+    throw inexpressible(
+      `${hours}h`,
+      `hour intervals must divide 24 (${HOUR_STEPS.join(", ")})`,
+    );
   }
+  return { cron: `0 */${hours} * * *` };
+}
 
-  // Round to nearest clean divisor of 60
-  const divisors = [1, 2, 3, 4, 5, 6, 10, 12, 15, 20, 30, 60];
-  const closest = divisors.reduce((prev, curr) =>
-    Math.abs(curr - mins) < Math.abs(prev - mins) ? curr : prev,
-  );
+function dayCron(days: number): ParsedInterval {
+  if (days === 1) return { cron: "0 0 * * *" };
+  if (days > 31) {
+    throw inexpressible(`${days}d`, "day intervals cannot exceed a month");
+  }
+  // Day-of-month steps restart on the 1st, so the gap across a month end
+  // can be shorter than the requested interval.
   return {
-    cron: `*/${closest} * * * *`,
-    note: `${mins}m rounded to every ${closest}m (nearest clean divisor of 60)`,
+    cron: `0 0 */${days} * *`,
+    note: `Runs on day 1, ${1 + days}, ... of each month; the ${days}-day interval restarts on the 1st`,
   };
 }
 
+function inexpressible(interval: string, reason: string): Error {
+  return new Error(
+    `cannot run every ${interval} exactly: ${reason}. Use --cron for a custom schedule.`,
+  );
+}
+
 // ── Time parsing (--at) ─────────────────────────────────────────────
 
 export interface ParsedAt {
@@ -182,96 +176,19 @@ function dateToCron(d: Date): string {
 
 // ── Cron validation ─────────────────────────────────────────────────
 
-const CRON_FIELD_RE = /^(\*|\d+)([/-]\d+)?$/;
-
 /**
- * Validate a 5-field cron expression. Very basic — checks field count and
- * each field matches `*`, `N`, `*​/N`, or `N-N` patterns.
+ * Validate a cron expression: 5 fields (lists, ranges, steps, month/day
+ * names, `L`/`#` modifiers) or a `@daily`-style macro. See cronExpression.ts
+ * for the full dialect.
  */
 export function isValidCron(expr: string): boolean {
-  const fields = expr.trim().split(/\s+/);
-  if (fields.length !== 5) return false;
-  return fields.every((f) => CRON_FIELD_RE.test(f));
+  return parseCron(expr) !== null;
 }
 
 // ── Cron evaluation ─────────────────────────────────────────────────
 
-/**
- * Derive minute/hour/day/month/dow for a Date in a given IANA timezone.
- * Falls back to local time if the timezone is invalid or unavailable.
- *
- * Note on DST: Standard cron semantics apply — if a wall-clock minute is
- * skipped during spring-forward, tasks scheduled for that minute won't fire.
- * If a wall-clock hour repeats during fall-back, tasks may fire twice (once
- * per occurrence of the matching minute).
- */
-function getTimeComponents(
-  date: Date,
-  timezone?: string | null,
-): [
-  minute: number,
-  hour: number,
-  dayOfMonth: number,
-  month: number,
-  dayOfWeek: number,
-] {
-  if (!timezone) {
-    return [
-      date.getMinutes(),
-      date.getHours(),
-      date.getDate(),
-      date.getMonth() + 1,
-      date.getDay(),
-    ];
-  }
-  try {
-    // Intl.DateTimeFormat gives us wall-clock components in the target tz.
-    const fmt = new Intl.DateTimeFormat("en-US", {
-      timeZone: timezone,
-      hour: "numeric",
-      minute: "numeric",
-      day: "numeric",
-      month: "numeric",
-      weekday: "short",
-      hour12: false,
-    });
-    const parts = new Map(
-      fmt.formatToParts(date).map((p) => [p.type, p.value]),
-    );
-
-    const dayOfWeekStr = parts.get("weekday") ?? "";
-    const dowMap: Record<string, number> = {
-      Sun: 0,
-      Mon: 1,
-      Tue: 2,
-      Wed: 3,
-      Thu: 4,
-      Fri: 5,
-      Sat: 6,
-    };
-
-    return [
-      Number.parseInt(parts.get("minute") ?? "0", 10),
-      Number.parseInt(parts.get("hour") ?? "0", 10),
-      Number.parseInt(parts.get("day") ?? "1", 10),
-      Number.parseInt(parts.get("month") ?? "1", 10),
-      dowMap[dayOfWeekStr] ?? date.getDay(),
-    ];
-  } catch {
-    // Invalid timezone — fall back to local time.
-    return [
-      date.getMinutes(),
-      date.getHours(),
-      date.getDate(),
-      date.getMonth() + 1,
-      date.getDay(),
-    ];
-  }
-}
-
 /**
  * Check if a cron expression matches a given date/time (minute-level).
- * Supports: *, N, step (N), range (N-N) per field.
  * Fields: minute, hour, day-of-month, month, day-of-week.
  *
  * Standard cron day semantics: when both day-of-month (field 2) and
@@ -280,75 +197,18 @@ function getTimeComponents(
  * constrained, it behaves as a normal AND with the other fields.
  *
  * When `timezone` is provided, the date is evaluated in that IANA timezone
- * rather than the process's local timezone.
+ * rather than the process's local timezone (invalid timezones fall back to
+ * local time). DST transitions follow the rules documented in
+ * cronExpression.ts. Invalid expressions never match.
  */
 export function cronMatchesTime(
   expr: string,
   date: Date,
   timezone?: string | null,
 ): boolean {
-  const fields = expr.trim().split(/\s+/);
-  if (fields.length !== 5) return false;
-
-  const [minute, hour, dayOfMonth, month, dayOfWeek] = getTimeComponents(
-    date,
-    timezone,
-  );
-
-  // Destructure after length check so Biome doesn't complain about non-null.
-  const [fMinute, fHour, fDom, fMonth, fDow] = fields as [
-    string,
-    string,
-    string,
-    string,
-    string,
-  ];
-
-  // Minute, hour, month must always match.
-  if (!fieldMatches(fMinute, minute)) return false;
-  if (!fieldMatches(fHour, hour)) return false;
-  if (!fieldMatches(fMonth, month)) return false;
-
-  const domField = fDom;
-  const dowField = fDow;
-  const domConstrained = domField !== "*";
-  const dowConstrained = dowField !== "*";
-
-  if (domConstrained && dowConstrained) {
-    // Standard cron OR: fire if either day-of-month or day-of-week matches.
-    return (
-      fieldMatches(domField, dayOfMonth) || fieldMatches(dowField, dayOfWeek)
-    );
-  }
-
-  // One or neither constrained — AND logic (unconstrained fields always match).
-  return (
-    fieldMatches(domField, dayOfMonth) && fieldMatches(dowField, dayOfWeek)
-  );
-}
-
-function fieldMatches(field: string, value: number): boolean {
-  if (field === "*") return true;
-
-  // Step: */N
-  if (field.startsWith("*/")) {
-    const step = Number.parseInt(field.slice(2), 10);
-    if (step <= 0 || !Number.isFinite(step)) return false;
-    return value % step === 0;
-  }
-
-  // Range: N-N
-  if (field.includes("-")) {
-    const [startStr, endStr] = field.split("-");
-    const start = Number.parseInt(startStr ?? "", 10);
-    const end = Number.parseInt(endStr ?? "", 10);
-    if (!Number.isFinite(start) || !Number.isFinite(end)) return false;
-    return value >= start && value <= end;
-  }
-
-  // Exact
-  const exact = Number.parseInt(field, 10);
-  return Number.isFinite(exact) && value === exact;
+  const cron = parseCron(expr);
+  if (!cron) return false;
+  return parsedCronMatches(cron, date, timezone);
 }
 
 // ── Period estimation (for jitter) ──────────────────────────────────
@@ -358,7 +218,7 @@ function fieldMatches(field: string, value: number): boolean {
  * Only handles common patterns; returns 0 for complex expressions.
  */
 export function estimatePeriodMs(cron: string): number {
-  const fields = cron.trim().split(/\s+/);
+  const fields = expandCronMacro(cron).split(/\s+/);
   if (fields.length !== 5) return 0;
 
   const [minute, hour, dom, month, dow] = fields as [
@@ -0,0 +1,303 @@
+/**
+ * Append-only cron run history backed by ~/.letta/cron-history.jsonl.
+ *
+ * Every occurrence the scheduler handles gets a run record. Records are
+ * never rewritten in place: each state change (queued → awaiting_approval
+ * → succeeded/failed) appends a new event line with the same record ID, and
+ * readers fold the events for an ID into its latest state.
+ *
+ * Retention: compactCronRunHistory() keeps the newest runs of each task
+ * within a retention window, one folded event per run. The scheduler runs
+ * it with its garbage collection, and reads run it once the file grows past
+ * a size threshold.
+ */
+
+import { randomBytes } from "node:crypto";
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { getLettaDir } from "../utils/lettaDir";
+import type { CronTask } from "./cronFile";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export type CronRunStatus =
+  | "queued"
+  | "awaiting_approval"
+  | "succeeded"
+  | "failed"
+  | "missed";
+
+export interface CronRunRecord {
+  id: string;
+  task_id: string;
+  agent_id: string;
+  conversation_id: string;
+  /** The occurrence this run belongs to (ISO UTC). */
+  scheduled_for: string;
+  status: CronRunStatus;
+  /** True when the run was fired late by a catch-up policy. */
+  catch_up: boolean;
+  fired_at: string | null;
+  completed_at: string | null;
+  /** Letta run produced by the turn, when known. */
+  run_id: string | null;
+  stop_reason: string | null;
+  error: string | null;
+  /** Per-run output log, for runs executed by `letta cron daemon`. */
+  log_path?: string | null;
+}
+
+type CronRunEvent = Partial<CronRunRecord> & {
+  id: string;
+  task_id: string;
+  recorded_at: string;
+};
+
+// ── Constants ───────────────────────────────────────────────────────
+
+const HISTORY_FILE_NAME = "cron-history.jsonl";
+const RUN_ID_BYTES = 6; // 12 hex chars
+export const DEFAULT_HISTORY_LIMIT = 50;
+/** Runs kept per task by compaction. */
+export const MAX_RUNS_PER_TASK = 200;
+/** Runs scheduled longer ago than this are dropped by compaction. */
+export const HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+/** History files larger than this are compacted when read. */
+const COMPACT_ON_READ_BYTES = 4 * 1024 * 1024; // 4 MB
+
+// ── Paths ───────────────────────────────────────────────────────────
+
+function getHistoryFilePath(): string {
+  return join(getLettaDir(), HISTORY_FILE_NAME);
+}
+
+// ── File I/O ────────────────────────────────────────────────────────
+
+function appendEvent(event: CronRunEvent): void {
+  const dir = getLettaDir();
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  appendFileSync(getHistoryFilePath(), `${JSON.stringify(event)}\n`);
+}
+
+function readEvents(): CronRunEvent[] {
+  const path = getHistoryFilePath();
+  if (!existsSync(path)) return [];
+  let raw: string;
+  try {
+    if (statSync(path).size > COMPACT_ON_READ_BYTES) {
+      compactCronRunHistory();
+    }
+    raw = readFileSync(path, "utf-8");
+  } catch {
+    return [];
+  }
+  return parseEvents(raw);
+}
+
+function parseEvents(raw: string): CronRunEvent[] {
+  const events: CronRunEvent[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line) as CronRunEvent;
+      if (typeof event.id === "string" && typeof event.task_id === "string") {
+        events.push(event);
+      }
+    } catch {
+      // Skip torn or corrupt lines (e.g. a crash mid-append).
+    }
+  }
+  return events;
+}
+
+// ── Recording ───────────────────────────────────────────────────────
+
+function generateRunRecordId(): string {
+  return `cr-${randomBytes(RUN_ID_BYTES).toString("hex")}`;
+}
+
+function newRecord(
+  task: CronTask,
+  scheduledFor: Date,
+  status: CronRunStatus,
+  catchUp: boolean,
+  firedAt: Date | null,
+): CronRunRecord {
+  return {
+    id: generateRunRecordId(),
+    task_id: task.id,
+    agent_id: task.agent_id,
+    conversation_id: task.conversation_id,
+    scheduled_for: scheduledFor.toISOString(),
+    status,
+    catch_up: catchUp,
+    fired_at: firedAt?.toISOString() ?? null,
+    completed_at: null,
+    run_id: null,
+    stop_reason: null,
+    error: null,
+  };
+}
+
+/**
+ * Record that an occurrence was handed to the agent. Returns the record so
+ * the caller can attach its ID to the queued turn.
+ */
+export function recordCronRunQueued(
+  task: CronTask,
+  scheduledFor: Date,
+  options: { catchUp?: boolean; firedAt?: Date } = {},
+): CronRunRecord {
+  const record = newRecord(
+    task,
+    scheduledFor,
+    "queued",
+    options.catchUp ?? false,
+    options.firedAt ?? new Date(),
+  );
+  appendEvent({ ...record, recorded_at: new Date().toISOString() });
+  return record;
+}
+
+/** Record that an occurrence was skipped because no scheduler was running. */
+export function recordCronRunMissed(
+  task: CronTask,
+  scheduledFor: Date,
+): CronRunRecord {
+  const record = newRecord(task, scheduledFor, "missed", false, null);
+  appendEvent({ ...record, recorded_at: new Date().toISOString() });
+  return record;
+}
+
+/**
+ * Record that a queued run's turn stopped to wait for a tool approval. The
+ * run is completed by the turn that resumes after the approval.
+ */
+export function recordCronRunAwaitingApproval(
+  recordId: string,
+  taskId: string,
+  runId: string | null,
+): void {
+  appendEvent({
+    id: recordId,
+    task_id: taskId,
+    recorded_at: new Date().toISOString(),
+    status: "awaiting_approval",
+    run_id: runId,
+    stop_reason: "requires_approval",
+  });
+}
+
+/** Record the outcome of a previously queued run. */
+export function recordCronRunCompleted(
+  recordId: string,
+  taskId: string,
+  outcome: {
+    success: boolean;
+    runId?: string | null;
+    stopReason?: string | null;
+    error?: string | null;
+    logPath?: string | null;
+  },
+): void {
+  const now = new Date().toISOString();
+  appendEvent({
+    id: recordId,
+    task_id: taskId,
+    recorded_at: now,
+    status: outcome.success ? "succeeded" : "failed",
+    completed_at: now,
+    run_id: outcome.runId ?? null,
+    stop_reason: outcome.stopReason ?? null,
+    error: outcome.error ?? null,
+    ...(outcome.logPath && { log_path: outcome.logPath }),
+  });
+}
+
+// ── Reading ─────────────────────────────────────────────────────────
+
+/** Fold events into records, most recent occurrence first. */
+function foldEvents(events: CronRunEvent[], taskId?: string): CronRunRecord[] {
+  const byId = new Map<string, CronRunRecord>();
+  for (const event of events) {
+    if (taskId !== undefined && event.task_id !== taskId) continue;
+    const { recorded_at: _recordedAt, ...fields } = event;
+    const existing = byId.get(event.id);
+    // Completion events can only refine a record whose creation we saw.
+    if (!existing && fields.scheduled_for === undefined) continue;
+    byId.set(event.id, { ...existing, ...fields } as CronRunRecord);
+  }
+  return [...byId.values()].sort(
+    (a, b) =>
+      new Date(b.scheduled_for).getTime() - new Date(a.scheduled_for).getTime(),
+  );
+}
+
+/**
+ * Run history for a task, most recent occurrence first.
+ */
+export function getCronRunHistory(
+  taskId: string,
+  limit: number = DEFAULT_HISTORY_LIMIT,
+): CronRunRecord[] {
+  return foldEvents(readEvents(), taskId).slice(0, Math.max(0, limit));
+}
+
+// ── Retention ───────────────────────────────────────────────────────
+
+/**
+ * Rewrite the history file keeping, per task, the newest MAX_RUNS_PER_TASK
+ * runs scheduled within HISTORY_RETENTION_MS, each as a single folded
+ * event. Events appended while compacting are carried over. Returns the
+ * number of runs removed.
+ */
+export function compactCronRunHistory(now: number = Date.now()): number {
+  const path = getHistoryFilePath();
+  if (!existsSync(path)) return 0;
+
+  const raw = readFileSync(path);
+  const events = parseEvents(raw.toString("utf-8"));
+  const records = foldEvents(events);
+  const cutoff = now - HISTORY_RETENTION_MS;
+  const keptPerTask = new Map<string, number>();
+  const kept: CronRunRecord[] = [];
+  for (const record of records) {
+    const count = keptPerTask.get(record.task_id) ?? 0;
+    if (count >= MAX_RUNS_PER_TASK) continue;
+    // Unfinished runs are kept so their completion can still be recorded.
+    const finished =
+      record.status !== "queued" && record.status !== "awaiting_approval";
+    if (finished && new Date(record.scheduled_for).getTime() < cutoff) continue;
+    keptPerTask.set(record.task_id, count + 1);
+    kept.push(record);
+  }
+
+  // Already one event per kept run: nothing to rewrite.
+  if (kept.length === records.length && events.length === records.length) {
+    return 0;
+  }
+
+  const recordedAt = new Date(now).toISOString();
+  const lines = kept
+    .reverse()
+    .map(
+      (record) => `${JSON.stringify({ ...record, recorded_at: recordedAt })}\n`,
+    )
+    .join("");
+  // Appends that landed since the read follow the compacted runs.
+  const tail = readFileSync(path).subarray(raw.length);
+  const tempPath = `${path}.tmp`;
+  writeFileSync(tempPath, Buffer.concat([Buffer.from(lines), tail]));
+  renameSync(tempPath, path);
+  return records.length - kept.length;
+}
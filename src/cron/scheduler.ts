@@ -1,29 +1,29 @@
 /**
- * In-process cron scheduler for the WS listener.
+ * In-process cron scheduler.
+ *
+ * The scheduler decides *when* tasks fire; how a fired prompt reaches its
+ * agent is up to the CronDispatcher supplied by the host. The WS listener
+ * enqueues prompts into the conversation's queue runtime; `letta cron
+ * daemon` runs them through headless mode.
  *
  * On start:
  * 1. Claims the scheduler lease in crons.json
  * 2. Starts a setInterval that fires every 60s
  * 3. On each tick: reads active tasks, checks cron match against current time,
- *    enqueues matching tasks into their ConversationRuntime's queueRuntime,
- *    and kicks the queue pump
- * 4. Runs GC every 60 minutes
+ *    and hands matching tasks to the dispatcher
+ * 4. On the first tick and after a tick gap (e.g. system sleep), applies each
+ *    task's catch-up policy to occurrences that passed unseen
+ * 5. Records every handled occurrence in the run history
+ * 6. Runs CronFire hooks before each dispatch; a blocking hook fails the run.
+ *    A task's occurrences are fired one after the other, and its fire count
+ *    is only bumped once the hooks let an occurrence through
+ * 7. Runs GC every 60 minutes
  *
  * On stop: clears interval, releases lease.
  */
 
-import type WebSocket from "ws";
-import type { CronPromptQueueItem, DequeuedBatch } from "../queue/queueRuntime";
-import { ensureConversationQueueRuntime } from "../websocket/listener/client";
-import { scheduleQueuePump } from "../websocket/listener/queue";
-import {
-  getActiveRuntime,
-  getOrCreateConversationRuntime,
-} from "../websocket/listener/runtime";
-import type {
-  IncomingMessage,
-  StartListenerOptions,
-} from "../websocket/listener/types";
+import { runCronFireHooks } from "../hooks";
+import { planCatchUp } from "./catchUp";
 import {
   type CronTask,
   claimSchedulerLease,
@@ -36,16 +36,46 @@ import {
   updateTask,
   verifySchedulerLease,
 } from "./index";
+import {
+  type CronRunRecord,
+  compactCronRunHistory,
+  recordCronRunCompleted,
+  recordCronRunMissed,
+  recordCronRunQueued,
+} from "./runHistory";
 
 // ── Types ───────────────────────────────────────────────────────────
 
-type ProcessQueuedTurn = (
-  queuedTurn: IncomingMessage,
-  dequeuedBatch: DequeuedBatch,
-) => Promise<void>;
+/**
+ * Outcome of handing a prompt to a dispatcher. When it was not delivered
+ * the scheduler records the run as failed and leaves the task's fire state
+ * untouched.
+ */
+export type CronDispatchResult =
+  | { delivered: true }
+  | { delivered: false; error: string };
+
+/**
+ * Delivers a fired prompt to the task's conversation. Called once the
+ * occurrence's CronFire hooks allow it; long-running work must be
+ * scheduled, not awaited. Once the prompt is delivered the dispatcher owns
+ * completing `runRecord` (see recordCronRunCompleted).
+ */
+export type CronDispatcher = (
+  task: CronTask,
+  prompt: string,
+  runRecord: CronRunRecord,
+) => CronDispatchResult;
+
+export interface StartSchedulerOptions {
+  /** Called when the scheduler stops itself after losing the lease. */
+  onLeaseLost?: () => void;
+}
 
 interface SchedulerState {
   token: string;
+  dispatch: CronDispatcher;
+  onLeaseLost?: () => void;
   tickInterval: NodeJS.Timeout;
   gcInterval: NodeJS.Timeout;
   /** Last mtime of crons.json — skip re-reads when unchanged. */
@@ -58,6 +88,15 @@ interface SchedulerState {
   lastMinuteKey: string;
   /** Pending jitter-delayed timers — cleared on stop/lease loss. */
   pendingTimers: Set<NodeJS.Timeout>;
+  /** Time of the previous tick (0 before the first tick). */
+  lastTickAt: number;
+}
+
+interface FireOccurrence {
+  /** The occurrence being fired (minute start or one-shot scheduled time). */
+  scheduledFor: Date;
+  /** True when fired late by a catch-up policy. */
+  catchUp: boolean;
 }
 
 let schedulerState: SchedulerState | null = null;
@@ -66,6 +105,10 @@ let schedulerState: SchedulerState | null = null;
 
 const TICK_INTERVAL_MS = 60_000;
 const GC_INTERVAL_MS = 60 * 60_000; // 1 hour
+/** A tick arriving later than this after the previous one triggers catch-up. */
+const TICK_GAP_THRESHOLD_MS = 2 * TICK_INTERVAL_MS;
+/** One-shots later than this are overdue and subject to their catch-up policy. */
+const ONE_SHOT_MISS_THRESHOLD_MS = 5 * 60_000;
 
 // ── Helpers ─────────────────────────────────────────────────────────
 
@@ -73,7 +116,11 @@ function minuteKey(date: Date): string {
   return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}T${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
 }
 
-function wrapCronPrompt(task: CronTask): string {
+function minuteStart(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / 60_000) * 60_000);
+}
+
+function wrapCronPrompt(task: CronTask, occurrence: FireOccurrence): string {
   const lines = [
     "<system-reminder>",
     `Scheduled task "${task.name}" is firing.`,
@@ -81,6 +128,11 @@ function wrapCronPrompt(task: CronTask): string {
     task.recurring
       ? `This is fire #${task.fire_count + 1} (cron: ${task.cron}).`
       : `This is a one-off scheduled task.`,
+    ...(occurrence.catchUp
+      ? [
+          `This is a late catch-up run for the occurrence scheduled at ${occurrence.scheduledFor.toISOString()}, which was missed while no scheduler was running.`,
+        ]
+      : []),
     "",
     task.prompt,
     "</system-reminder>",
@@ -118,43 +170,46 @@ function shouldFireTask(task: CronTask, now: Date): boolean {
   return cronMatchesTime(task.cron, now, task.timezone);
 }
 
-function fireCronTask(
+/**
+ * Fire one occurrence: run its CronFire hooks, then dispatch it and record
+ * the fire on the task. A blocking hook fails the run without counting it
+ * as a fire (a blocked one-shot is cancelled so it does not fire again).
+ */
+async function fireCronTask(
   task: CronTask,
   now: Date,
-  socket: WebSocket,
-  opts: StartListenerOptions,
-  processQueuedTurn: ProcessQueuedTurn,
-): void {
-  const listener = getActiveRuntime();
-  if (!listener) return;
-
-  const rawRuntime = getOrCreateConversationRuntime(
-    listener,
-    task.agent_id,
-    task.conversation_id === "default" ? undefined : task.conversation_id,
-  );
-
-  if (!rawRuntime) return;
-
-  // Ensure the queue runtime is initialized (getOrCreateConversationRuntime
-  // leaves queueRuntime as null — the listener's scoped helper initializes it).
-  const conversationRuntime = ensureConversationQueueRuntime(
-    listener,
-    rawRuntime,
-  );
-
-  const text = wrapCronPrompt(task);
-
-  conversationRuntime.queueRuntime.enqueue({
-    kind: "cron_prompt",
-    source: "cron" as import("../types/protocol").QueueItemSource,
-    text,
-    cronTaskId: task.id,
-    agentId: task.agent_id,
-    conversationId: task.conversation_id,
-  } as Omit<CronPromptQueueItem, "id" | "enqueuedAt">);
+  occurrence: FireOccurrence,
+  dispatch: CronDispatcher,
+): Promise<void> {
+  const text = wrapCronPrompt(task, occurrence);
+  const runRecord = recordCronRunQueued(task, occurrence.scheduledFor, {
+    catchUp: occurrence.catchUp,
+    firedAt: now,
+  });
+
+  const blockedReason = await runFireHooks(task, text, occurrence);
+  if (blockedReason !== null) {
+    recordCronRunCompleted(runRecord.id, task.id, {
+      success: false,
+      error: `Blocked by CronFire hook: ${blockedReason}`,
+    });
+    if (!task.recurring) {
+      updateTask(task.id, (t) => {
+        t.status = "cancelled";
+        t.cancel_reason = "blocked_by_hook";
+      });
+    }
+    return;
+  }
 
-  scheduleQueuePump(conversationRuntime, socket, opts, processQueuedTurn);
+  const result = dispatch(task, text, runRecord);
+  if (!result.delivered) {
+    recordCronRunCompleted(runRecord.id, task.id, {
+      success: false,
+      error: result.error,
+    });
+    return;
+  }
 
   // Update task state
   const nowIso = now.toISOString();
@@ -174,6 +229,32 @@ function fireCronTask(
   }
 }
 
+/**
+ * Run CronFire hooks for a fired occurrence. Returns the hook feedback when
+ * a hook blocks it, null otherwise.
+ */
+async function runFireHooks(
+  task: CronTask,
+  text: string,
+  occurrence: FireOccurrence,
+): Promise<string | null> {
+  try {
+    const hookResult = await runCronFireHooks(
+      task,
+      text,
+      occurrence.scheduledFor,
+      occurrence.catchUp,
+    );
+    if (hookResult.blocked) {
+      return hookResult.feedback.join("\n") || "Blocked by hook";
+    }
+  } catch (err) {
+    // Hook failures never prevent a scheduled prompt from firing.
+    console.error(`[Cron] CronFire hooks failed for ${task.id}:`, err);
+  }
+  return null;
+}
+
 function handleExpiredRecurring(task: CronTask, now: Date): void {
   if (!task.recurring || !task.expires_at) return;
   if (new Date(task.expires_at).getTime() <= now.getTime()) {
@@ -184,38 +265,83 @@ function handleExpiredRecurring(task: CronTask, now: Date): void {
   }
 }
 
-/** Returns true if the task was marked as missed (caller should skip firing). */
+/**
+ * Returns true if the task was marked as missed (caller should skip firing).
+ * Overdue one-shots with a non-skip catch-up policy are left active so the
+ * tick fires them late instead.
+ */
 function handleMissedOneShot(task: CronTask, now: Date): boolean {
+  if (!isOverdueOneShot(task, now)) return false;
+  if ((task.catch_up ?? "skip") !== "skip") return false;
+  updateTask(task.id, (t) => {
+    t.status = "missed";
+    t.missed_at = now.toISOString();
+  });
+  recordCronRunMissed(task, new Date(task.scheduled_for ?? now));
+  return true;
+}
+
+function isOverdueOneShot(task: CronTask, now: Date): boolean {
   if (task.recurring || !task.scheduled_for) return false;
-  // A one-shot is "missed" if it's been more than 5 minutes past scheduled time
   const scheduledMs = new Date(task.scheduled_for).getTime();
-  const missThreshold = 5 * 60_000;
-  if (now.getTime() > scheduledMs + missThreshold && task.status === "active") {
-    updateTask(task.id, (t) => {
-      t.status = "missed";
-      t.missed_at = now.toISOString();
-    });
-    return true;
+  return (
+    task.status === "active" &&
+    now.getTime() > scheduledMs + ONE_SHOT_MISS_THRESHOLD_MS
+  );
+}
+
+/**
+ * Apply a recurring task's catch-up policy to occurrences missed since its
+ * last activity: record skipped ones, fire the ones the policy keeps.
+ */
+async function catchUpRecurring(
+  task: CronTask,
+  now: Date,
+  dispatch: CronDispatcher,
+): Promise<void> {
+  const plan = planCatchUp(task, now);
+  if (!plan) return;
+
+  for (const scheduledFor of plan.missed) {
+    recordCronRunMissed(task, scheduledFor);
+  }
+
+  // Mark the plan handled before firing so an overlapping tick does not
+  // plan the same occurrences again.
+  const caughtUpThrough = plan.caughtUpThrough.toISOString();
+  updateTask(task.id, (t) => {
+    t.caught_up_through = caughtUpThrough;
+  });
+
+  // Fire in order: each occurrence is dispatched before the next one's
+  // hooks run.
+  let current = task;
+  for (const scheduledFor of plan.fire) {
+    await fireCronTask(current, now, { scheduledFor, catchUp: true }, dispatch);
+    // Re-read so the next prompt reports the updated fire count.
+    current = getTask(task.id) ?? current;
   }
-  return false;
 }
 
-function tick(
-  state: SchedulerState,
-  socket: WebSocket,
-  opts: StartListenerOptions,
-  processQueuedTurn: ProcessQueuedTurn,
-): void {
+function tick(state: SchedulerState): void {
   // Verify we still hold the lease
   if (!verifySchedulerLease(state.token)) {
     console.error("[Cron] Scheduler lease lost. Stopping.");
     stopScheduler();
+    state.onLeaseLost?.();
     return;
   }
 
   const now = new Date();
   const currentMinuteKey = minuteKey(now);
 
+  // Catch up on the first tick (listener was down) and after a gap between
+  // ticks (e.g. the machine slept).
+  const needsCatchUp =
+    state.lastTickAt === 0 ||
+    now.getTime() - state.lastTickAt > TICK_GAP_THRESHOLD_MS;
+  state.lastTickAt = now.getTime();
+
   // Reset per-minute dedup when minute changes
   if (currentMinuteKey !== state.lastMinuteKey) {
     state.firedThisMinute.clear();
@@ -234,56 +360,80 @@ function tick(
     // Handle missed one-shots (skip firing if marked missed)
     if (handleMissedOneShot(task, now)) continue;
 
-    // Per-minute dedup
-    if (state.firedThisMinute.has(task.id)) continue;
-
-    if (shouldFireTask(task, now)) {
-      state.firedThisMinute.add(task.id);
-
-      // Apply jitter as a real delay for recurring tasks so that tasks with
-      // different jitter values actually fire at different times.
-      const jitterMs = task.recurring ? task.jitter_offset_ms : 0;
-      const taskId = task.id;
-      const doFire = () => {
-        // Revalidate before firing: scheduler may have stopped, lease may
-        // have been lost, or the task may have been deleted/cancelled during
-        // the jitter window.
-        if (!schedulerState) return;
-        const freshTask = getTask(taskId);
-        if (!freshTask || freshTask.status !== "active") return;
-
-        try {
-          fireCronTask(freshTask, now, socket, opts, processQueuedTurn);
-        } catch (err) {
-          console.error(`[Cron] Error firing task ${taskId}:`, err);
-        }
-      };
+    void fireDueOccurrences(state, task, now, needsCatchUp);
+  }
+}
 
-      if (jitterMs > 0) {
-        const handle = setTimeout(() => {
-          state.pendingTimers.delete(handle);
-          doFire();
-        }, jitterMs);
-        state.pendingTimers.add(handle);
-      } else {
-        doFire();
-      }
+/**
+ * Fire a task's catch-up occurrences, then its current one, one after the
+ * other.
+ */
+async function fireDueOccurrences(
+  state: SchedulerState,
+  task: CronTask,
+  now: Date,
+  needsCatchUp: boolean,
+): Promise<void> {
+  if (needsCatchUp && task.recurring) {
+    try {
+      await catchUpRecurring(task, now, state.dispatch);
+    } catch (err) {
+      console.error(`[Cron] Error catching up task ${task.id}:`, err);
     }
   }
+
+  // Per-minute dedup
+  if (state.firedThisMinute.has(task.id)) return;
+  if (!shouldFireTask(task, now)) return;
+  state.firedThisMinute.add(task.id);
+
+  // Apply jitter as a real delay for recurring tasks so that tasks with
+  // different jitter values actually fire at different times.
+  const jitterMs = task.recurring ? task.jitter_offset_ms : 0;
+  const taskId = task.id;
+  const occurrence: FireOccurrence = task.recurring
+    ? { scheduledFor: minuteStart(now), catchUp: false }
+    : {
+        scheduledFor: new Date(task.scheduled_for ?? now),
+        catchUp: isOverdueOneShot(task, now),
+      };
+
+  if (jitterMs > 0) {
+    await new Promise<void>((resolve) => {
+      const handle = setTimeout(() => {
+        state.pendingTimers.delete(handle);
+        resolve();
+      }, jitterMs);
+      state.pendingTimers.add(handle);
+    });
+  }
+
+  // Revalidate before firing: scheduler may have stopped, lease may have
+  // been lost, or the task may have been deleted/cancelled during the
+  // jitter window or the catch-up runs.
+  if (schedulerState !== state) return;
+  const freshTask = getTask(taskId);
+  if (!freshTask || freshTask.status !== "active") return;
+
+  try {
+    await fireCronTask(freshTask, now, occurrence, state.dispatch);
+  } catch (err) {
+    console.error(`[Cron] Error firing task ${taskId}:`, err);
+  }
 }
 
 // ── Public API ──────────────────────────────────────────────────────
 
 /**
- * Start the cron scheduler. Should be called when the WS listener connects.
- * No-ops if already running.
+ * Start the cron scheduler. Returns true if this process now owns the
+ * scheduler, false if another live process holds the lease. No-ops (and
+ * returns true) if already running.
  */
 export function startScheduler(
-  socket: WebSocket,
-  opts: StartListenerOptions,
-  processQueuedTurn: ProcessQueuedTurn,
-): void {
-  if (schedulerState) return;
+  dispatch: CronDispatcher,
+  options: StartSchedulerOptions = {},
+): boolean {
+  if (schedulerState) return true;
 
   let token: string;
   try {
@@ -291,12 +441,14 @@ export function startScheduler(
   } catch (err) {
     // Another process holds the lease — that's OK, don't start scheduler here
     console.error("[Cron] Could not claim scheduler lease:", err);
-    return;
+    return false;
   }
 
   const now = new Date();
   const state: SchedulerState = {
     token,
+    dispatch,
+    onLeaseLost: options.onLeaseLost,
     tickInterval: null as unknown as NodeJS.Timeout,
     gcInterval: null as unknown as NodeJS.Timeout,
     lastMtime: 0,
@@ -304,13 +456,19 @@ export function startScheduler(
     firedThisMinute: new Set(),
     lastMinuteKey: minuteKey(now),
     pendingTimers: new Set(),
+    lastTickAt: 0,
   };
 
+  // Publish state before the initial tick so jitter-free fires pass the
+  // revalidation guard in fireDueOccurrences.
+  schedulerState = state;
+
   // Initial tick
-  tick(state, socket, opts, processQueuedTurn);
+  tick(state);
+  if (schedulerState !== state) return false;
 
   state.tickInterval = setInterval(() => {
-    tick(state, socket, opts, processQueuedTurn);
+    tick(state);
   }, TICK_INTERVAL_MS);
 
   state.gcInterval = setInterval(() => {
@@ -319,16 +477,17 @@ export function startScheduler(
       if (removed > 0) {
         state.lastMtime = 0; // Force cache refresh
       }
+      compactCronRunHistory();
     } catch (err) {
       console.error("[Cron] GC error:", err);
     }
   }, GC_INTERVAL_MS);
 
-  schedulerState = state;
+  return true;
 }
 
 /**
- * Stop the cron scheduler. Should be called when the WS listener disconnects.
+ * Stop the cron scheduler and release the lease.
  */
 export function stopScheduler(): void {
   if (!schedulerState) return;
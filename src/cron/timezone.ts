@@ -0,0 +1,179 @@
+/**
+ * Wall-clock ↔ instant conversion for cron evaluation.
+ *
+ * Cron expressions describe wall-clock times in a task's IANA timezone, but
+ * the scheduler works in absolute instants. Around DST transitions a wall
+ * time can map to zero instants (spring-forward gap) or two instants
+ * (fall-back overlap); these helpers expose both cases so callers can apply
+ * cron's DST rules explicitly.
+ *
+ * A null/invalid timezone means the process's local timezone.
+ */
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface WallClock {
+  year: number;
+  /** 1-12 */
+  month: number;
+  /** 1-31 */
+  day: number;
+  /** 0-23 */
+  hour: number;
+  /** 0-59 */
+  minute: number;
+  /** 0-6, Sunday = 0 */
+  dayOfWeek: number;
+}
+
+// ── Constants ───────────────────────────────────────────────────────
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ── Timezone resolution ─────────────────────────────────────────────
+
+const formatterCache = new Map<string, Intl.DateTimeFormat | null>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat | null {
+  const cached = formatterCache.get(timezone);
+  if (cached !== undefined) return cached;
+  let fmt: Intl.DateTimeFormat | null;
+  try {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+  } catch {
+    // Invalid timezone — callers fall back to local time.
+    fmt = null;
+  }
+  formatterCache.set(timezone, fmt);
+  return fmt;
+}
+
+/** Returns true if `timezone` is a valid IANA timezone identifier. */
+export function isValidTimezone(timezone: string): boolean {
+  return getFormatter(timezone) !== null;
+}
+
+// ── Offsets ─────────────────────────────────────────────────────────
+
+/**
+ * UTC offset (in minutes, east-positive) of `timezone` at instant `ms`.
+ */
+export function getUtcOffsetMinutes(
+  ms: number,
+  timezone?: string | null,
+): number {
+  const fmt = timezone ? getFormatter(timezone) : null;
+  if (!fmt) {
+    return -new Date(ms).getTimezoneOffset();
+  }
+  const parts = new Map(
+    fmt.formatToParts(new Date(ms)).map((p) => [p.type, p.value]),
+  );
+  const field = (type: Intl.DateTimeFormatPartTypes) =>
+    Number.parseInt(parts.get(type) ?? "0", 10);
+  const asUtc = Date.UTC(
+    field("year"),
+    field("month") - 1,
+    field("day"),
+    field("hour"),
+    field("minute"),
+    field("second"),
+  );
+  const flooredMs = Math.floor(ms / 1000) * 1000;
+  return Math.round((asUtc - flooredMs) / MINUTE_MS);
+}
+
+// ── Conversion ──────────────────────────────────────────────────────
+
+function wallFromUtcFields(ms: number): WallClock {
+  const d = new Date(ms);
+  return {
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+    hour: d.getUTCHours(),
+    minute: d.getUTCMinutes(),
+    dayOfWeek: d.getUTCDay(),
+  };
+}
+
+/** Encode a wall-clock time as if it were UTC (for arithmetic only). */
+export function wallClockToUtcFields(wall: Omit<WallClock, "dayOfWeek">) {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+}
+
+/** Wall-clock components of instant `ms` in `timezone`. */
+export function toWallClock(ms: number, timezone?: string | null): WallClock {
+  return wallFromUtcFields(ms + getUtcOffsetMinutes(ms, timezone) * MINUTE_MS);
+}
+
+/** Shift a wall-clock time by `minutes` on the wall clock (no DST applied). */
+export function addWallMinutes(wall: WallClock, minutes: number): WallClock {
+  return wallFromUtcFields(wallClockToUtcFields(wall) + minutes * MINUTE_MS);
+}
+
+/**
+ * All instants whose wall-clock time in `timezone` equals `wall`, ascending.
+ *
+ * Returns an empty array for wall times inside a spring-forward gap and two
+ * instants for wall times inside a fall-back overlap.
+ */
+export function wallClockToInstants(
+  wall: Omit<WallClock, "dayOfWeek">,
+  timezone?: string | null,
+): number[] {
+  const guess = wallClockToUtcFields(wall);
+  // DST transitions never occur twice within two days, so the offsets one
+  // day either side cover every candidate.
+  const offsets = new Set([
+    getUtcOffsetMinutes(guess - DAY_MS, timezone),
+    getUtcOffsetMinutes(guess + DAY_MS, timezone),
+  ]);
+  const instants: number[] = [];
+  for (const offset of offsets) {
+    const candidate = guess - offset * MINUTE_MS;
+    if (getUtcOffsetMinutes(candidate, timezone) === offset) {
+      instants.push(candidate);
+    }
+  }
+  return instants.sort((a, b) => a - b);
+}
+
+/**
+ * For a wall time inside a spring-forward gap, the first instant after the
+ * gap (i.e. the moment the clocks jumped). Returns null if `wall` is not
+ * inside a gap.
+ */
+export function findGapEnd(
+  wall: Omit<WallClock, "dayOfWeek">,
+  timezone?: string | null,
+): number | null {
+  const guess = wallClockToUtcFields(wall);
+  const before = getUtcOffsetMinutes(guess - DAY_MS, timezone);
+  const after = getUtcOffsetMinutes(guess + DAY_MS, timezone);
+  if (after <= before) return null;
+
+  // Binary search (minute resolution) for the first instant using `after`.
+  let lo = Math.floor((guess - after * MINUTE_MS) / MINUTE_MS);
+  let hi = Math.ceil((guess - before * MINUTE_MS) / MINUTE_MS);
+  if (getUtcOffsetMinutes(hi * MINUTE_MS, timezone) !== after) return null;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (getUtcOffsetMinutes(mid * MINUTE_MS, timezone) === after) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  return hi * MINUTE_MS;
+}
@@ -33,15 +33,21 @@ import { getStreamToolContextId, sendMessageStream } from "./agent/message";
 import {
   getModelInfo,
   getModelPresetUpdateForAgent,
+  getModelPricing,
   getModelUpdateArgs,
   getResumeRefreshArgs,
   resolveModel,
 } from "./agent/model";
 import { updateAgentLLMConfig, updateAgentSystemPrompt } from "./agent/modify";
+import {
+  checkSpendThresholds,
+  formatSpendThresholdMessage,
+} from "./agent/pricing";
 import { resolveSkillSourcesSelection } from "./agent/skillSources";
 import type { SkillSource } from "./agent/skills";
 import { SessionStats } from "./agent/stats";
 import type { ParsedCliArgs } from "./cli/args";
+import type { CustomCommandTurn } from "./cli/commands/custom";
 import {
   normalizeConversationShorthandFlags,
   parseCsvListFlag,
@@ -72,6 +78,7 @@ import {
   type DrainStreamHook,
   drainStreamWithResume,
 } from "./cli/helpers/stream";
+import { subscribeToSubagentCosts } from "./cli/helpers/subagentState";
 import {
   validateConversationDefaultRequiresAgent,
   validateFlagConflicts,
@@ -79,6 +86,7 @@ import {
 } from "./cli/startupFlagValidation";
 import { SYSTEM_REMINDER_CLOSE, SYSTEM_REMINDER_OPEN } from "./constants";
 import { computeDiffPreviews } from "./helpers/diffPreview";
+import { localMcpManager } from "./mcp/manager";
 import { QueueRuntime } from "./queue/queueRuntime";
 import {
   mergeQueuedTurnInput,
@@ -103,6 +111,7 @@ import {
 import {
   type ExternalToolDefinition,
   registerExternalTools,
+  restrictToolExecutionContext,
   setExternalToolExecutor,
 } from "./tools/manager";
 import {
@@ -308,6 +317,7 @@ async function prepareHeadlessToolExecutionContext(params: {
   agentId: string;
   conversationId: string;
   overrideModel?: string | null;
+  allowedTools?: string[];
 }): Promise<{
   preparedToolContext: Awaited<
     ReturnType<typeof prepareToolExecutionContextForScope>
@@ -321,6 +331,12 @@ async function prepareHeadlessToolExecutionContext(params: {
     workingDirectory: getCurrentWorkingDirectory(),
     exclude: ["AskUserQuestion"],
   });
+  if (params.allowedTools) {
+    preparedToolContext.preparedToolContext = restrictToolExecutionContext(
+      preparedToolContext.preparedToolContext,
+      params.allowedTools,
+    );
+  }
 
   return {
     preparedToolContext,
@@ -371,22 +387,9 @@ export async function handleHeadlessCommand(
     if (yoloMode) {
       permissionMode.setMode("bypassPermissions");
     } else if (permissionModeValue) {
-      const validModes = [
-        "default",
-        "acceptEdits",
-        "bypassPermissions",
-        "plan",
-        "memory",
-      ];
-      if (validModes.includes(permissionModeValue)) {
-        permissionMode.setMode(
-          permissionModeValue as
-            | "default"
-            | "acceptEdits"
-            | "bypassPermissions"
-            | "plan"
-            | "memory",
-        );
+      // Custom modes from settings were registered at startup (index.ts)
+      if (permissionMode.isKnownMode(permissionModeValue)) {
+        permissionMode.setMode(permissionModeValue);
       }
     }
   }
@@ -1331,6 +1334,14 @@ export async function handleHeadlessCommand(
 
   // Initialize session stats
   const sessionStats = new SessionStats();
+  subscribeToSubagentCosts((costUsd) => {
+    sessionStats.recordSubagentCost(costUsd);
+  });
+  const agentModelHandle =
+    agent.model ||
+    (agent.llm_config?.model_endpoint_type && agent.llm_config.model
+      ? `${agent.llm_config.model_endpoint_type}/${agent.llm_config.model}`
+      : null);
 
   // Use agent.id as session_id for all stream-json messages
   const sessionId = agent.id;
@@ -1346,7 +1357,10 @@ export async function handleHeadlessCommand(
       model: agent.llm_config?.model ?? "",
       tools: availableTools,
       cwd: getCurrentWorkingDirectory(),
-      mcp_servers: [],
+      mcp_servers: localMcpManager.getStatus().servers.map((server) => ({
+        name: server.name,
+        status: server.state,
+      })),
       permission_mode: "",
       slash_commands: [],
       memfs_enabled: settingsManager.isMemfsEnabled(agent.id),
@@ -1652,6 +1666,26 @@ ${SYSTEM_REMINDER_CLOSE}
     }
   }
 
+  // Expand a custom slash command prompt (e.g. -p "/review src/app.ts").
+  // Its model and allowed tools apply to every step of this run.
+  let customCommandTurn: CustomCommandTurn = {};
+  if (prompt.startsWith("/")) {
+    const { findCustomCommand, expandCustomCommand } = await import(
+      "./cli/commands/custom"
+    );
+    const commandName = prompt.split(/\s+/)[0]?.slice(1) || "";
+    const customCommand = await findCustomCommand(commandName);
+    if (customCommand) {
+      const args = prompt.slice(`/${customCommand.id}`.length).trim();
+      const expanded = await expandCustomCommand(customCommand, args);
+      prompt = `${SYSTEM_REMINDER_OPEN}\n${expanded.prompt}\n${SYSTEM_REMINDER_CLOSE}`;
+      customCommandTurn = {
+        model: expanded.model,
+        allowedTools: expanded.allowedTools,
+      };
+    }
+  }
+
   // Add user prompt
   pushPart(prompt);
 
@@ -1677,7 +1711,7 @@ ${SYSTEM_REMINDER_CLOSE}
   let emptyResponseRetries = 0;
   let conversationBusyRetries = 0;
   let providerFallbackAttempted = false;
-  let overrideModelHandle: string | undefined;
+  let overrideModelHandle: string | undefined = customCommandTurn.model;
   markMilestone("HEADLESS_FIRST_STREAM_START");
   measureSinceMilestone("headless-setup-total", "HEADLESS_CLIENT_READY");
 
@@ -1702,6 +1736,46 @@ ${SYSTEM_REMINDER_CLOSE}
     }
   };
 
+  // Sync usage from buffers, priced with the model currently in use
+  const syncSessionUsage = () => {
+    const handle = overrideModelHandle ?? agentModelHandle;
+    sessionStats.updateUsageFromBuffers(
+      buffers,
+      handle ? getModelPricing(handle) : null,
+    );
+  };
+
+  // Helper to enforce the spend thresholds from settings. Like the max turns
+  // limit, this must not run while the backend is waiting for approvals.
+  let spendWarningShown = false;
+  const checkSpendLimit = () => {
+    const thresholds = settingsManager.getSettings().spendThresholds;
+    const totalUsd = sessionStats.getTotalCostUsd();
+    const status = checkSpendThresholds(totalUsd, thresholds);
+    if (!status || !thresholds) return;
+    const message = formatSpendThresholdMessage(status, totalUsd, thresholds);
+    if (status === "warn") {
+      if (!spendWarningShown) {
+        spendWarningShown = true;
+        console.error(`Warning: ${message}`);
+      }
+      return;
+    }
+    if (outputFormat === "stream-json") {
+      const errorMsg: ErrorMessage = {
+        type: "error",
+        message,
+        stop_reason: "error",
+        session_id: sessionId,
+        uuid: `error-spend-limit-${randomUUID()}`,
+      };
+      console.log(JSON.stringify(errorMsg));
+    } else {
+      console.error(message);
+    }
+    process.exit(1);
+  };
+
   try {
     while (true) {
       const hasApprovalContinuation = currentInput.some(
@@ -1714,6 +1788,7 @@ ${SYSTEM_REMINDER_CLOSE}
       // response, leaving the run stuck in requires_approval.
       if (!hasApprovalContinuation) {
         checkMaxTurns();
+        checkSpendLimit();
       }
 
       // Inject queued skill content as user message parts (LET-7353)
@@ -1745,6 +1820,7 @@ ${SYSTEM_REMINDER_CLOSE}
           agentId: agent.id,
           conversationId,
           overrideModel: overrideModelHandle,
+          allowedTools: customCommandTurn.allowedTools,
         });
         availableTools = turnToolContext.availableTools;
         stream = await sendMessageStream(conversationId, currentInput, {
@@ -2093,6 +2169,7 @@ ${SYSTEM_REMINDER_CLOSE}
 
       // Track API duration for this stream
       sessionStats.endTurn(apiDurationMs);
+      syncSessionUsage();
 
       // Check max turns after each turn (server may have taken multiple steps),
       // but defer the limit when we're still resolving pending approvals.
@@ -2100,6 +2177,7 @@ ${SYSTEM_REMINDER_CLOSE}
       // leaving the run stuck in requires_approval.
       if (stopReason !== "requires_approval" && !approvalPendingRecovery) {
         checkMaxTurns();
+        checkSpendLimit();
       }
 
       if (approvalPendingRecovery) {
@@ -2606,7 +2684,7 @@ ${SYSTEM_REMINDER_CLOSE}
   }
 
   // Update stats with final usage data from buffers
-  sessionStats.updateUsageFromBuffers(buffers);
+  syncSessionUsage();
 
   // Extract final result from transcript, with sensible fallbacks
   const lines = toLines(buffers);
@@ -2657,6 +2735,11 @@ ${SYSTEM_REMINDER_CLOSE}
       context_tokens: stats.usage.contextTokens,
     }),
   };
+  // Null when nothing could be priced, so consumers can tell it from free
+  const totalCostUsd =
+    stats.cost.totalUsd > 0 || stats.cost.unpricedTokens === 0
+      ? stats.cost.totalUsd
+      : null;
 
   // Output based on format
   if (outputFormat === "json") {
@@ -2671,6 +2754,7 @@ ${SYSTEM_REMINDER_CLOSE}
       agent_id: agent.id,
       conversation_id: conversationId,
       usage,
+      total_cost_usd: totalCostUsd,
     };
     console.log(JSON.stringify(output, null, 2));
   } else if (outputFormat === "stream-json") {
@@ -2702,6 +2786,7 @@ ${SYSTEM_REMINDER_CLOSE}
       conversation_id: conversationId,
       run_ids: Array.from(allRunIds),
       usage,
+      total_cost_usd: totalCostUsd,
       uuid: resultUuid,
     };
     console.log(JSON.stringify(resultEvent));
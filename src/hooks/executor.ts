@@ -4,6 +4,7 @@
 
 import { type ChildProcess, spawn } from "node:child_process";
 import { buildShellLaunchers } from "../tools/impl/shellLaunchers";
+import { executeHttpHook } from "./http-executor";
 import { executePromptHook } from "./prompt-executor";
 import {
   type CommandHookConfig,
@@ -11,9 +12,12 @@ import {
   type HookExecutionResult,
   HookExitCode,
   type HookInput,
+  type HookPermissionDecision,
   type HookResult,
   isCommandHook,
+  isHttpHook,
   isPromptHook,
+  parseHookJsonOutput,
 } from "./types";
 
 /** Default timeout for hook execution (60 seconds) */
@@ -30,6 +34,9 @@ function getHookIdentifier(hook: HookCommand): string {
     // Use first 50 chars of prompt as identifier
     return `prompt:${hook.prompt.slice(0, 50)}${hook.prompt.length > 50 ? "..." : ""}`;
   }
+  if (isHttpHook(hook)) {
+    return `${hook.method ?? "POST"} ${hook.url}`;
+  }
   return "unknown";
 }
 
@@ -72,6 +79,7 @@ function trySpawnWithLauncher(
  * Dispatches to appropriate executor based on hook type:
  * - "command": executes shell command with JSON via stdin
  * - "prompt": sends to LLM for evaluation
+ * - "http": sends JSON to a webhook
  */
 export async function executeHookCommand(
   hook: HookCommand,
@@ -83,6 +91,10 @@ export async function executeHookCommand(
     return executePromptHook(hook, input, workingDirectory);
   }
 
+  if (isHttpHook(hook)) {
+    return executeHttpHook(hook, input, workingDirectory);
+  }
+
   // Default to command hook execution
   if (isCommandHook(hook)) {
     return executeCommandHook(hook, input, workingDirectory);
@@ -208,7 +220,7 @@ function executeWithLauncher(
         console.log(
           `\x1b[90m  \u23BF ${exitLabel} (${result.durationMs}ms)\x1b[0m`,
         );
-        if (result.stdout) {
+        if (result.stdout && !result.output?.suppressOutput) {
           console.log(`\x1b[90m  \u23BF (stdout)\x1b[0m`);
           const indented = result.stdout
             .split("\n")
@@ -291,6 +303,21 @@ function executeWithLauncher(
         exitCode = HookExitCode.ERROR;
       }
 
+      // On success, stdout may carry a structured JSON decision
+      const parsedOutput =
+        exitCode === HookExitCode.ALLOW ? parseHookJsonOutput(stdout) : null;
+      if (parsedOutput && "error" in parsedOutput) {
+        safeResolve({
+          exitCode: HookExitCode.ERROR,
+          stdout: stdout.trim(),
+          stderr: stderr.trim(),
+          timedOut,
+          durationMs,
+          error: parsedOutput.error,
+        });
+        return;
+      }
+
       safeResolve({
         exitCode,
         stdout: stdout.trim(),
@@ -298,6 +325,7 @@ function executeWithLauncher(
         timedOut,
         durationMs,
         ...(timedOut && { error: `Hook timed out after ${timeout}ms` }),
+        ...(parsedOutput && { output: parsedOutput.output }),
       });
     });
 
@@ -325,9 +353,17 @@ function executeWithLauncher(
   });
 }
 
+const PERMISSION_DECISION_RANK: Record<HookPermissionDecision, number> = {
+  allow: 0,
+  ask: 1,
+  deny: 2,
+};
+
 /**
  * Execute multiple hooks sequentially and aggregate results
- * Stops early if any hook returns BLOCK (exit code 2)
+ * Stops early if any hook returns BLOCK (exit code 2), denies via its JSON
+ * output, or returns `continue: false`. A hook's updatedInput is applied to
+ * the tool input seen by the hooks after it.
  */
 export async function executeHooks(
   hooks: HookCommand[],
@@ -336,13 +372,56 @@ export async function executeHooks(
 ): Promise<HookExecutionResult> {
   const results: HookResult[] = [];
   const feedback: string[] = [];
+  const additionalContext: string[] = [];
   let blocked = false;
   let errored = false;
+  let permissionDecision: HookPermissionDecision | undefined;
+  let updatedInput: Record<string, unknown> | undefined;
+  let stopped = false;
+  let stopReason: string | undefined;
+  let currentInput = input;
 
   for (const hook of hooks) {
-    const result = await executeHookCommand(hook, input, workingDirectory);
+    const result = await executeHookCommand(
+      hook,
+      currentInput,
+      workingDirectory,
+    );
     results.push(result);
 
+    // Structured JSON decision (exit 0 only)
+    const output = result.output;
+    if (output) {
+      if (output.additionalContext) {
+        additionalContext.push(output.additionalContext);
+      }
+      if (output.updatedInput && "tool_input" in currentInput) {
+        updatedInput = { ...currentInput.tool_input, ...output.updatedInput };
+        currentInput = { ...currentInput, tool_input: updatedInput };
+      }
+      if (
+        output.permissionDecision &&
+        (!permissionDecision ||
+          PERMISSION_DECISION_RANK[output.permissionDecision] >
+            PERMISSION_DECISION_RANK[permissionDecision])
+      ) {
+        permissionDecision = output.permissionDecision;
+      }
+      if (output.continue === false) {
+        stopped = true;
+        stopReason = output.stopReason;
+        break;
+      }
+      if (output.permissionDecision === "deny") {
+        blocked = true;
+        feedback.push(
+          `[${getHookIdentifier(hook)}]: ${output.permissionDecisionReason || "Denied by hook"}`,
+        );
+        break;
+      }
+      continue;
+    }
+
     // Collect feedback from stdout when hook succeeds (exit 0)
     // Only for UserPromptSubmit and SessionStart hooks
     if (result.exitCode === HookExitCode.ALLOW) {
@@ -382,6 +461,10 @@ export async function executeHooks(
     errored,
     feedback,
     results,
+    ...(permissionDecision && { permissionDecision }),
+    ...(updatedInput && { updatedInput }),
+    ...(additionalContext.length > 0 && { additionalContext }),
+    ...(stopped && { stopped, stopReason }),
   };
 }
 
@@ -400,6 +483,8 @@ export async function executeHooksParallel(
   const feedback: string[] = [];
   let blocked = false;
   let errored = false;
+  let stopped = false;
+  let stopReason: string | undefined;
 
   // Zip hooks with results to access command for formatting
   for (let i = 0; i < results.length; i++) {
@@ -407,19 +492,17 @@ export async function executeHooksParallel(
     const hook = hooks[i];
     if (!result || !hook) continue;
 
-    // For exit 0, try to parse JSON for additionalContext
-    if (result.exitCode === HookExitCode.ALLOW && result.stdout?.trim()) {
-      try {
-        const json = JSON.parse(result.stdout.trim());
-        const additionalContext =
-          json?.hookSpecificOutput?.additionalContext ||
-          json?.additionalContext;
-        if (additionalContext) {
-          feedback.push(additionalContext);
-        }
-      } catch {
-        // Not JSON, ignore
-      }
+    // For exit 0, surface additionalContext and stop requests from the
+    // hook's JSON output
+    if (result.output?.additionalContext) {
+      feedback.push(result.output.additionalContext);
+    }
+    if (result.output?.continue === false) {
+      stopped = true;
+      stopReason ??= result.output.stopReason;
+      feedback.push(
+        `[${getHookIdentifier(hook)}]: Stop requested${result.output.stopReason ? `: ${result.output.stopReason}` : ""}`,
+      );
     }
 
     // Collect feedback from stderr when hook blocks
@@ -444,5 +527,6 @@ export async function executeHooksParallel(
     errored,
     feedback,
     results,
+    ...(stopped && { stopped, stopReason }),
   };
 }
@@ -0,0 +1,234 @@
+// src/hooks/http-executor.ts
+// Executes http hooks by sending the hook input JSON to a webhook
+
+import { substituteSecretsInString } from "../tools/secret-substitution";
+import {
+  HookExitCode,
+  type HookInput,
+  type HookResult,
+  type HttpHookConfig,
+  parseHookJsonOutput,
+} from "./types";
+
+/** Default per-attempt timeout for http hook execution (10 seconds) */
+const DEFAULT_HTTP_TIMEOUT_MS = 10000;
+
+/** Default delay before the first retry (doubled for each further retry) */
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+/** Upper bound on retries, whatever the config asks for */
+const MAX_RETRIES = 5;
+
+/** Response bodies longer than this are truncated in stdout/stderr */
+const MAX_BODY_CHARS = 10000;
+
+/**
+ * Outcome of a single request attempt
+ */
+type AttemptOutcome =
+  | { ok: true; status: number; body: string }
+  | { ok: false; retryable: boolean; error: string; timedOut: boolean };
+
+/**
+ * Build request headers. $SECRET_NAME references in header values are
+ * substituted here, so secrets never appear in settings files or logs.
+ */
+function buildHeaders(
+  hook: HttpHookConfig,
+  input: HookInput,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Letta-Hook-Event": input.event_type,
+  };
+  for (const [name, value] of Object.entries(hook.headers ?? {})) {
+    headers[name] = substituteSecretsInString(value);
+  }
+  return headers;
+}
+
+function truncateBody(body: string): string {
+  return body.length > MAX_BODY_CHARS
+    ? `${body.slice(0, MAX_BODY_CHARS)}... (truncated)`
+    : body;
+}
+
+/**
+ * Whether an HTTP status is worth retrying (rate limits and server errors)
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Send one request, mapping transport failures and non-2xx responses to a
+ * failed outcome
+ */
+async function attemptRequest(
+  hook: HttpHookConfig,
+  headers: Record<string, string>,
+  body: string,
+  timeout: number,
+): Promise<AttemptOutcome> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(hook.url, {
+      method: hook.method ?? "POST",
+      headers,
+      body,
+      signal: controller.signal,
+    });
+    const text = await response.text();
+
+    if (response.ok) {
+      return { ok: true, status: response.status, body: text };
+    }
+    return {
+      ok: false,
+      retryable: isRetryableStatus(response.status),
+      error: `HTTP ${response.status}${text.trim() ? `: ${truncateBody(text.trim())}` : ""}`,
+      timedOut: false,
+    };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return {
+        ok: false,
+        retryable: true,
+        error: `Request timed out after ${timeout}ms`,
+        timedOut: true,
+      };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false, retryable: true, error: message, timedOut: false };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Map a failure to a HookResult according to the hook's failure policy:
+ * fail-open reports an error (the action proceeds), fail-closed blocks.
+ */
+function failureResult(
+  hook: HttpHookConfig,
+  error: string,
+  timedOut: boolean,
+  durationMs: number,
+): HookResult {
+  if (hook.failurePolicy === "closed") {
+    return {
+      exitCode: HookExitCode.BLOCK,
+      stdout: "",
+      stderr: `HTTP hook ${hook.url} failed (fail-closed): ${error}`,
+      timedOut,
+      durationMs,
+    };
+  }
+  return {
+    exitCode: HookExitCode.ERROR,
+    stdout: "",
+    stderr: error,
+    timedOut,
+    durationMs,
+    error,
+  };
+}
+
+/**
+ * Log hook completion (matching command hook format from executor.ts).
+ * Headers are never logged since they may carry substituted secrets.
+ */
+function logHttpHook(
+  hook: HttpHookConfig,
+  input: HookInput,
+  result: HookResult,
+  attempts: number,
+): void {
+  const exitCode =
+    result.exitCode === HookExitCode.ALLOW
+      ? 0
+      : result.exitCode === HookExitCode.BLOCK
+        ? 2
+        : 1;
+  const exitColor =
+    result.exitCode === HookExitCode.ALLOW
+      ? "\x1b[32m"
+      : result.exitCode === HookExitCode.BLOCK
+        ? "\x1b[31m"
+        : "\x1b[33m";
+  const exitLabel = result.timedOut
+    ? `${exitColor}timeout\x1b[0m`
+    : `${exitColor}exit ${exitCode}\x1b[0m`;
+  const attemptsLabel = attempts > 1 ? `, ${attempts} attempts` : "";
+  console.log(
+    `\x1b[90m[hook:${input.event_type}] ${hook.method ?? "POST"} ${hook.url}\x1b[0m`,
+  );
+  console.log(
+    `\x1b[90m  \u23BF ${exitLabel} (${result.durationMs}ms${attemptsLabel})\x1b[0m`,
+  );
+  if (result.stdout && !result.output?.suppressOutput) {
+    console.log(`\x1b[90m  \u23BF (response)\x1b[0m`);
+    console.log(`\x1b[90m    ${result.stdout}\x1b[0m`);
+  }
+  if (result.stderr) {
+    console.log(`\x1b[90m  \u23BF (stderr)\x1b[0m`);
+    console.log(`\x1b[90m    ${result.stderr}\x1b[0m`);
+  }
+}
+
+/**
+ * Execute an http hook by sending the hook input JSON to its endpoint.
+ * A 2xx response allows the action and may carry a structured JSON decision
+ * in its body; network errors, timeouts, non-2xx responses (after retries)
+ * and invalid decisions are handled by the hook's failure policy.
+ */
+export async function executeHttpHook(
+  hook: HttpHookConfig,
+  input: HookInput,
+  _workingDirectory: string = process.cwd(),
+): Promise<HookResult> {
+  const startTime = Date.now();
+  const timeout = hook.timeout ?? DEFAULT_HTTP_TIMEOUT_MS;
+  const retries = Math.min(Math.max(hook.retries ?? 0, 0), MAX_RETRIES);
+  const retryDelayMs = hook.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+  const headers = buildHeaders(hook, input);
+  const body = JSON.stringify(input);
+
+  let attempts = 0;
+  let outcome: AttemptOutcome;
+  for (;;) {
+    attempts++;
+    outcome = await attemptRequest(hook, headers, body, timeout);
+    if (outcome.ok || !outcome.retryable || attempts > retries) break;
+    await new Promise((resolve) =>
+      setTimeout(resolve, retryDelayMs * 2 ** (attempts - 1)),
+    );
+  }
+
+  const durationMs = Date.now() - startTime;
+  let result: HookResult;
+  if (!outcome.ok) {
+    result = failureResult(hook, outcome.error, outcome.timedOut, durationMs);
+  } else {
+    const responseBody = truncateBody(outcome.body.trim());
+    const parsedOutput = parseHookJsonOutput(outcome.body);
+    if (parsedOutput && "error" in parsedOutput) {
+      result = failureResult(hook, parsedOutput.error, false, durationMs);
+    } else {
+      result = {
+        exitCode: HookExitCode.ALLOW,
+        stdout: responseBody,
+        stderr: "",
+        timedOut: false,
+        durationMs,
+        ...(parsedOutput && { output: parsedOutput.output }),
+      };
+    }
+  }
+
+  logHttpHook(hook, input, result, attempts);
+  return result;
+}
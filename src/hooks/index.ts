@@ -5,13 +5,18 @@ import { sessionPermissions } from "../permissions/session";
 import { executeHooks, executeHooksParallel } from "./executor";
 import { getHooksForEvent, hasHooksForEvent, loadHooks } from "./loader";
 import type {
+  ConversationForkHookInput,
+  CronFireHookInput,
   HookEvent,
   HookExecutionResult,
+  ModelSwitchHookInput,
   NotificationHookInput,
   PermissionRequestHookInput,
+  PostMemoryCommitHookInput,
   PostToolUseFailureHookInput,
   PostToolUseHookInput,
   PreCompactHookInput,
+  PreMemoryWriteHookInput,
   PreToolUseHookInput,
   SessionEndHookInput,
   SessionStartHookInput,
@@ -30,7 +35,8 @@ export * from "./types";
 
 /**
  * Run PreToolUse hooks before a tool is executed
- * Can block the tool call by returning blocked: true
+ * Can block the tool call by returning blocked: true, or rewrite its
+ * arguments via updatedInput in the hook's JSON output
  */
 export async function runPreToolUseHooks(
   toolName: string,
@@ -391,9 +397,14 @@ export async function runSessionStartHooks(
   const result = await executeHooks(hooks, input, workingDirectory);
 
   // For SessionStart, collect stdout from all hooks regardless of exit code
+  // (hooks printing a JSON decision contribute their additionalContext)
   const feedback: string[] = [];
   for (const hookResult of result.results) {
-    if (hookResult.stdout?.trim()) {
+    if (hookResult.output) {
+      if (hookResult.output.additionalContext) {
+        feedback.push(hookResult.output.additionalContext);
+      }
+    } else if (hookResult.stdout?.trim()) {
       feedback.push(hookResult.stdout.trim());
     }
   }
@@ -440,6 +451,176 @@ export async function runSessionEndHooks(
   return executeHooksParallel(hooks, input, workingDirectory);
 }
 
+/**
+ * Run PreMemoryWrite hooks before a memory file is written
+ * Matched against the memory path; can block the write (exit 2)
+ */
+export async function runPreMemoryWriteHooks(
+  memoryPath: string,
+  operation: string,
+  content: { newContent?: string; oldContent?: string },
+  reason?: string,
+  agentId?: string,
+  workingDirectory: string = process.cwd(),
+): Promise<HookExecutionResult> {
+  const hooks = await getHooksForEvent(
+    "PreMemoryWrite",
+    memoryPath,
+    workingDirectory,
+  );
+  if (hooks.length === 0) {
+    return { blocked: false, errored: false, feedback: [], results: [] };
+  }
+
+  const input: PreMemoryWriteHookInput = {
+    event_type: "PreMemoryWrite",
+    working_directory: workingDirectory,
+    memory_path: memoryPath,
+    operation,
+    new_content: content.newContent,
+    old_content: content.oldContent,
+    reason,
+    agent_id: agentId,
+  };
+
+  // Run sequentially - PreMemoryWrite can block
+  return executeHooks(hooks, input, workingDirectory);
+}
+
+/**
+ * Run PostMemoryCommit hooks after memory changes are committed
+ * These run in parallel and cannot block (the commit already exists)
+ */
+export async function runPostMemoryCommitHooks(
+  commitSha: string,
+  commitMessage: string,
+  memoryPaths: string[],
+  pushed: boolean,
+  agentId?: string,
+  workingDirectory: string = process.cwd(),
+): Promise<HookExecutionResult> {
+  const hooks = await getHooksForEvent(
+    "PostMemoryCommit",
+    undefined,
+    workingDirectory,
+  );
+  if (hooks.length === 0) {
+    return { blocked: false, errored: false, feedback: [], results: [] };
+  }
+
+  const input: PostMemoryCommitHookInput = {
+    event_type: "PostMemoryCommit",
+    working_directory: workingDirectory,
+    commit_sha: commitSha,
+    commit_message: commitMessage,
+    memory_paths: memoryPaths,
+    pushed,
+    agent_id: agentId,
+  };
+
+  const result = await executeHooksParallel(hooks, input, workingDirectory);
+  return { ...result, blocked: false };
+}
+
+/**
+ * Run ModelSwitch hooks before the model is switched
+ * Matched against the new model handle; can block the switch (exit 2)
+ */
+export async function runModelSwitchHooks(
+  newModel: string,
+  previousModel?: string,
+  agentId?: string,
+  conversationId?: string,
+  workingDirectory: string = process.cwd(),
+): Promise<HookExecutionResult> {
+  const hooks = await getHooksForEvent(
+    "ModelSwitch",
+    newModel,
+    workingDirectory,
+  );
+  if (hooks.length === 0) {
+    return { blocked: false, errored: false, feedback: [], results: [] };
+  }
+
+  const input: ModelSwitchHookInput = {
+    event_type: "ModelSwitch",
+    working_directory: workingDirectory,
+    previous_model: previousModel,
+    new_model: newModel,
+    agent_id: agentId,
+    conversation_id: conversationId,
+  };
+
+  // Run sequentially - ModelSwitch can block
+  return executeHooks(hooks, input, workingDirectory);
+}
+
+/**
+ * Run ConversationFork hooks before a conversation is forked
+ * Can block the fork (exit 2)
+ */
+export async function runConversationForkHooks(
+  sourceConversationId: string,
+  agentId?: string,
+  workingDirectory: string = process.cwd(),
+): Promise<HookExecutionResult> {
+  const hooks = await getHooksForEvent(
+    "ConversationFork",
+    undefined,
+    workingDirectory,
+  );
+  if (hooks.length === 0) {
+    return { blocked: false, errored: false, feedback: [], results: [] };
+  }
+
+  const input: ConversationForkHookInput = {
+    event_type: "ConversationFork",
+    working_directory: workingDirectory,
+    source_conversation_id: sourceConversationId,
+    agent_id: agentId,
+  };
+
+  // Run sequentially - ConversationFork can block
+  return executeHooks(hooks, input, workingDirectory);
+}
+
+/**
+ * Run CronFire hooks before a scheduled prompt is sent
+ * Matched against the task name; can block the occurrence (exit 2)
+ */
+export async function runCronFireHooks(
+  task: {
+    id: string;
+    name: string;
+    agent_id: string;
+    conversation_id: string;
+  },
+  prompt: string,
+  scheduledFor: Date,
+  catchUp: boolean,
+  workingDirectory: string = process.cwd(),
+): Promise<HookExecutionResult> {
+  const hooks = await getHooksForEvent("CronFire", task.name, workingDirectory);
+  if (hooks.length === 0) {
+    return { blocked: false, errored: false, feedback: [], results: [] };
+  }
+
+  const input: CronFireHookInput = {
+    event_type: "CronFire",
+    working_directory: workingDirectory,
+    task_id: task.id,
+    task_name: task.name,
+    prompt,
+    scheduled_for: scheduledFor.toISOString(),
+    catch_up: catchUp,
+    agent_id: task.agent_id,
+    conversation_id: task.conversation_id,
+  };
+
+  // Run sequentially - CronFire can block
+  return executeHooks(hooks, input, workingDirectory);
+}
+
 /**
  * Check if hooks are configured for a specific event
  */
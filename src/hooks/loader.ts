@@ -10,12 +10,12 @@ import {
   type HookEvent,
   type HookMatcher,
   type HooksConfig,
+  isMatcherEvent,
   isPromptHook,
-  isToolEvent,
+  type MatcherHookEvent,
   type SimpleHookEvent,
   type SimpleHookMatcher,
   supportsPromptHooks,
-  type ToolHookEvent,
 } from "./types";
 
 /**
@@ -127,15 +127,15 @@ export function mergeHooksConfigs(
   ]) as Set<HookEvent>;
 
   for (const event of allEvents) {
-    if (isToolEvent(event)) {
-      // Tool events use HookMatcher[]
-      const toolEvent = event as ToolHookEvent;
-      const globalMatchers = (global[toolEvent] || []) as HookMatcher[];
-      const projectMatchers = (project[toolEvent] || []) as HookMatcher[];
-      const projectLocalMatchers = (projectLocal[toolEvent] ||
+    if (isMatcherEvent(event)) {
+      // Matcher events use HookMatcher[]
+      const matcherEvent = event as MatcherHookEvent;
+      const globalMatchers = (global[matcherEvent] || []) as HookMatcher[];
+      const projectMatchers = (project[matcherEvent] || []) as HookMatcher[];
+      const projectLocalMatchers = (projectLocal[matcherEvent] ||
         []) as HookMatcher[];
       // Project-local runs first, then project, then global
-      (merged as Record<ToolHookEvent, HookMatcher[]>)[toolEvent] = [
+      (merged as Record<MatcherHookEvent, HookMatcher[]>)[matcherEvent] = [
         ...projectLocalMatchers,
         ...projectMatchers,
         ...globalMatchers,
@@ -240,9 +240,9 @@ export function getMatchingHooks(
   event: HookEvent,
   toolName?: string,
 ): HookCommand[] {
-  if (isToolEvent(event)) {
-    // Tool events use HookMatcher[] - need to match against tool name
-    const matchers = config[event as ToolHookEvent] as
+  if (isMatcherEvent(event)) {
+    // Matcher events use HookMatcher[] - need to match against tool name
+    const matchers = config[event as MatcherHookEvent] as
       | HookMatcher[]
       | undefined;
     if (!matchers || matchers.length === 0) {
@@ -280,9 +280,9 @@ export function hasHooksForEvent(
   config: HooksConfig,
   event: HookEvent,
 ): boolean {
-  if (isToolEvent(event)) {
-    // Tool events use HookMatcher[]
-    const matchers = config[event as ToolHookEvent] as
+  if (isMatcherEvent(event)) {
+    // Matcher events use HookMatcher[]
+    const matchers = config[event as MatcherHookEvent] as
       | HookMatcher[]
       | undefined;
     if (!matchers || matchers.length === 0) {
@@ -10,6 +10,20 @@ export type ToolHookEvent =
   | "PostToolUseFailure" // Runs after tool calls fail (cannot block, feeds stderr back to agent)
   | "PermissionRequest"; // Runs when a permission dialog is shown (can allow or deny)
 
+/**
+ * Non-tool hook events that also take matchers. The matcher is tested
+ * against an event-specific subject instead of a tool name.
+ */
+export type LifecycleMatcherHookEvent =
+  | "PreMemoryWrite" // Runs before a memory file is written (can block); matches the memory file path
+  | "ModelSwitch" // Runs before the model is switched (can block); matches the new model handle
+  | "CronFire"; // Runs before a scheduled cron prompt is sent (can block); matches the task name
+
+/**
+ * Hook events configured with HookMatcher[] (tool events plus matcher-based lifecycle events)
+ */
+export type MatcherHookEvent = ToolHookEvent | LifecycleMatcherHookEvent;
+
 /**
  * Simple hook events that don't require matchers
  */
@@ -20,12 +34,14 @@ export type SimpleHookEvent =
   | "SubagentStop" // Runs when subagent tasks complete (can block)
   | "PreCompact" // Runs before a compact operation (cannot block)
   | "SessionStart" // Runs when a new session starts or is resumed
-  | "SessionEnd"; // Runs when session ends (cannot block)
+  | "SessionEnd" // Runs when session ends (cannot block)
+  | "PostMemoryCommit" // Runs after memory changes are committed (cannot block)
+  | "ConversationFork"; // Runs before a conversation is forked (can block)
 
 /**
  * All hook event types
  */
-export type HookEvent = ToolHookEvent | SimpleHookEvent;
+export type HookEvent = MatcherHookEvent | SimpleHookEvent;
 
 /**
  * Command hook configuration - executes a shell command
@@ -58,6 +74,38 @@ export interface PromptHookConfig {
   timeout?: number;
 }
 
+/**
+ * What an HTTP hook reports when its endpoint can't be reached or doesn't
+ * answer with a valid decision:
+ * - "open": the hook errors and the action proceeds as if it had not run
+ * - "closed": the hook blocks the action
+ */
+export type HttpHookFailurePolicy = "open" | "closed";
+
+/**
+ * HTTP hook configuration - sends the hook input JSON to a webhook.
+ * A 2xx response allows the action; its body may carry the same JSON
+ * decision a command hook prints on stdout (permissionDecision, continue, ...).
+ */
+export interface HttpHookConfig {
+  /** Type of hook */
+  type: "http";
+  /** Endpoint URL */
+  url: string;
+  /** HTTP method (default: POST) */
+  method?: "POST" | "PUT" | "PATCH";
+  /** Extra request headers; $SECRET_NAME references are substituted from the secrets store */
+  headers?: Record<string, string>;
+  /** Optional per-attempt timeout in milliseconds (default: 10000 for http hooks) */
+  timeout?: number;
+  /** Retries after network errors, timeouts, 429 and 5xx responses (default: 0) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled per retry (default: 500) */
+  retryDelayMs?: number;
+  /** Behavior when the endpoint fails (default: "open") */
+  failurePolicy?: HttpHookFailurePolicy;
+}
+
 /**
  * Placeholder for $ARGUMENTS in prompt hooks
  */
@@ -86,9 +134,9 @@ export function supportsPromptHooks(event: HookEvent): boolean {
 }
 
 /**
- * Individual hook configuration - can be command or prompt type
+ * Individual hook configuration - can be command, prompt or http type
  */
-export type HookCommand = CommandHookConfig | PromptHookConfig;
+export type HookCommand = CommandHookConfig | PromptHookConfig | HttpHookConfig;
 
 /**
  * Type guard to check if a hook is a command hook
@@ -104,6 +152,13 @@ export function isPromptHook(hook: HookCommand): hook is PromptHookConfig {
   return hook.type === "prompt";
 }
 
+/**
+ * Type guard to check if a hook is an http hook
+ */
+export function isHttpHook(hook: HookCommand): hook is HttpHookConfig {
+  return hook.type === "http";
+}
+
 /**
  * Hook matcher configuration for tool events - matches hooks to specific tools
  */
@@ -129,7 +184,7 @@ export interface SimpleHookMatcher {
 
 /**
  * Full hooks configuration stored in settings
- * - Tool events (PreToolUse, PostToolUse, PermissionRequest) use HookMatcher[] with matcher patterns
+ * - Matcher events (tool events, PreMemoryWrite, ModelSwitch, CronFire) use HookMatcher[] with matcher patterns
  * - Simple events use SimpleHookMatcher[] (same structure, just no matcher field)
  * - disabled: when true, prevents all hooks from firing (checked across all config levels)
  */
@@ -137,7 +192,7 @@ export type HooksConfig = {
   /** When true, disables all hooks. User false overrides project settings; otherwise any true disables. */
   disabled?: boolean;
 } & {
-  [K in ToolHookEvent]?: HookMatcher[];
+  [K in MatcherHookEvent]?: HookMatcher[];
 } & {
   [K in SimpleHookEvent]?: SimpleHookMatcher[];
 };
@@ -159,6 +214,23 @@ export function isToolEvent(event: HookEvent): event is ToolHookEvent {
   return TOOL_EVENTS.has(event);
 }
 
+/**
+ * Set of all events configured with matchers
+ */
+export const MATCHER_EVENTS: Set<HookEvent> = new Set([
+  ...TOOL_EVENTS,
+  "PreMemoryWrite",
+  "ModelSwitch",
+  "CronFire",
+]);
+
+/**
+ * Type guard to check if an event is configured with matchers
+ */
+export function isMatcherEvent(event: HookEvent): event is MatcherHookEvent {
+  return MATCHER_EVENTS.has(event);
+}
+
 /**
  * Exit codes from hook execution
  */
@@ -187,6 +259,8 @@ export interface HookResult {
   durationMs: number;
   /** Error message if hook failed to execute */
   error?: string;
+  /** Structured decision parsed from stdout, when the hook printed one */
+  output?: HookJsonOutput;
 }
 
 /**
@@ -200,6 +274,100 @@ export interface PromptHookResponse {
   reason?: string;
 }
 
+/**
+ * Permission decision a hook can return in its JSON output
+ */
+export type HookPermissionDecision = "allow" | "deny" | "ask";
+
+/**
+ * Structured JSON output a command hook can print to stdout (with exit 0),
+ * or an http hook can return as its response body, instead of relying on
+ * exit codes alone. Fields may also be nested under
+ * `hookSpecificOutput` (Claude Code format).
+ */
+export interface HookJsonOutput {
+  /** false stops the agent after this hook; stopReason is shown to the user */
+  continue?: boolean;
+  /** Reason shown when continue is false */
+  stopReason?: string;
+  /** Hide the hook's stdout from the transcript */
+  suppressOutput?: boolean;
+  /**
+   * allow/ask/deny the action. PreToolUse runs after permissions are
+   * resolved: deny and ask block the tool call, allow is ignored.
+   * PermissionRequest: allow/deny answer the dialog, ask shows it.
+   */
+  permissionDecision?: HookPermissionDecision;
+  /** Explanation for permissionDecision (shown to the agent on deny) */
+  permissionDecisionReason?: string;
+  /**
+   * PreToolUse only: fields merged over the tool arguments before execution.
+   * The rewritten call is checked against the permission rules again.
+   */
+  updatedInput?: Record<string, unknown>;
+  /** Text injected into the agent's context for the next turn */
+  additionalContext?: string;
+}
+
+const HOOK_JSON_OUTPUT_SCHEMA: Record<
+  keyof HookJsonOutput,
+  (value: unknown) => boolean
+> = {
+  continue: (v) => typeof v === "boolean",
+  stopReason: (v) => typeof v === "string",
+  suppressOutput: (v) => typeof v === "boolean",
+  permissionDecision: (v) => v === "allow" || v === "deny" || v === "ask",
+  permissionDecisionReason: (v) => typeof v === "string",
+  updatedInput: (v) => typeof v === "object" && v !== null && !Array.isArray(v),
+  additionalContext: (v) => typeof v === "string",
+};
+
+/**
+ * Parse and validate a command hook's stdout against the HookJsonOutput
+ * schema. Returns null when stdout is not a structured decision (plain text,
+ * or JSON without any known field), so it keeps its plain-text meaning.
+ */
+export function parseHookJsonOutput(
+  stdout: string,
+): { output: HookJsonOutput } | { error: string } | null {
+  const trimmed = stdout.trim();
+  if (!trimmed.startsWith("{")) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return null;
+  }
+
+  const { hookSpecificOutput, ...topLevel } = parsed as Record<string, unknown>;
+  const fields: Record<string, unknown> = {
+    ...topLevel,
+    ...(typeof hookSpecificOutput === "object" && hookSpecificOutput !== null
+      ? hookSpecificOutput
+      : {}),
+  };
+
+  const output: Record<string, unknown> = {};
+  for (const [key, isValid] of Object.entries(HOOK_JSON_OUTPUT_SCHEMA)) {
+    const value = fields[key];
+    if (value === undefined) continue;
+    if (!isValid(value)) {
+      return {
+        error: `Invalid hook JSON output: "${key}" has an invalid value (${JSON.stringify(value)})`,
+      };
+    }
+    output[key] = value;
+  }
+
+  return Object.keys(output).length > 0
+    ? { output: output as HookJsonOutput }
+    : null;
+}
+
 /**
  * Aggregated result from running all matched hooks
  */
@@ -212,6 +380,16 @@ export interface HookExecutionResult {
   feedback: string[];
   /** Individual results from each hook */
   results: HookResult[];
+  /** Strongest permissionDecision returned by the hooks (deny > ask > allow) */
+  permissionDecision?: HookPermissionDecision;
+  /** Tool input after applying every hook's updatedInput (PreToolUse) */
+  updatedInput?: Record<string, unknown>;
+  /** additionalContext returned by the hooks, in order */
+  additionalContext?: string[];
+  /** Whether a hook returned `continue: false` */
+  stopped?: boolean;
+  /** stopReason from the hook that stopped execution */
+  stopReason?: string;
 }
 
 // ============================================================================
@@ -426,6 +604,90 @@ export interface SessionEndHookInput extends HookInputBase {
   conversation_id?: string;
 }
 
+/**
+ * Input for PreMemoryWrite hooks
+ * Triggered before the memory tools write a file in the memory repository
+ */
+export interface PreMemoryWriteHookInput extends HookInputBase {
+  event_type: "PreMemoryWrite";
+  /** Memory file path relative to the memory root (e.g., "system/persona.md") */
+  memory_path: string;
+  /** Memory operation being performed (e.g., "create", "str_replace", "apply_patch") */
+  operation: string;
+  /** Full file content that will be written; absent for deletes */
+  new_content?: string;
+  /** Current file content, when the file already exists */
+  old_content?: string;
+  /** Reason supplied by the agent for the change */
+  reason?: string;
+  /** Agent ID */
+  agent_id?: string;
+}
+
+/**
+ * Input for PostMemoryCommit hooks
+ */
+export interface PostMemoryCommitHookInput extends HookInputBase {
+  event_type: "PostMemoryCommit";
+  /** SHA of the new commit */
+  commit_sha: string;
+  /** Commit message */
+  commit_message: string;
+  /** Memory file paths included in the commit */
+  memory_paths: string[];
+  /** Whether the commit was pushed to the remote */
+  pushed: boolean;
+  /** Agent ID */
+  agent_id?: string;
+}
+
+/**
+ * Input for ModelSwitch hooks
+ */
+export interface ModelSwitchHookInput extends HookInputBase {
+  event_type: "ModelSwitch";
+  /** Model handle currently in use, if known */
+  previous_model?: string;
+  /** Model handle being switched to */
+  new_model: string;
+  /** Agent ID */
+  agent_id?: string;
+  /** Conversation ID */
+  conversation_id?: string;
+}
+
+/**
+ * Input for ConversationFork hooks
+ */
+export interface ConversationForkHookInput extends HookInputBase {
+  event_type: "ConversationFork";
+  /** Conversation being forked */
+  source_conversation_id: string;
+  /** Agent ID */
+  agent_id?: string;
+}
+
+/**
+ * Input for CronFire hooks
+ */
+export interface CronFireHookInput extends HookInputBase {
+  event_type: "CronFire";
+  /** Cron task ID */
+  task_id: string;
+  /** Cron task name */
+  task_name: string;
+  /** Prompt that will be sent */
+  prompt: string;
+  /** Occurrence being fired (ISO UTC) */
+  scheduled_for: string;
+  /** Whether the occurrence is fired late by a catch-up policy */
+  catch_up: boolean;
+  /** Target agent ID */
+  agent_id: string;
+  /** Target conversation ID */
+  conversation_id: string;
+}
+
 /**
  * Union type for all hook inputs
  */
@@ -440,4 +702,9 @@ export type HookInput =
   | SubagentStopHookInput
   | PreCompactHookInput
   | SessionStartHookInput
-  | SessionEndHookInput;
+  | SessionEndHookInput
+  | PreMemoryWriteHookInput
+  | PostMemoryCommitHookInput
+  | ModelSwitchHookInput
+  | ConversationForkHookInput
+  | CronFireHookInput;
@@ -9,10 +9,10 @@ import {
   type HookEvent,
   type HookMatcher,
   type HooksConfig,
-  isToolEvent,
+  isMatcherEvent,
+  type MatcherHookEvent,
   type SimpleHookEvent,
   type SimpleHookMatcher,
-  type ToolHookEvent,
 } from "./types";
 
 /**
@@ -115,7 +115,7 @@ export async function saveHooksToLocation(
  * Add a new hook matcher to a tool event (PreToolUse, PostToolUse, PermissionRequest)
  */
 export async function addHookMatcher(
-  event: ToolHookEvent,
+  event: MatcherHookEvent,
   matcher: HookMatcher,
   location: SaveLocation,
   workingDirectory: string = process.cwd(),
@@ -124,7 +124,7 @@ export async function addHookMatcher(
 
   // Initialize event array if needed
   if (!hooks[event]) {
-    (hooks as Record<ToolHookEvent, HookMatcher[]>)[event] = [];
+    (hooks as Record<MatcherHookEvent, HookMatcher[]>)[event] = [];
   }
 
   // Add the new matcher
@@ -170,8 +170,8 @@ export async function removeHook(
 ): Promise<void> {
   const hooks = loadHooksFromLocation(location, workingDirectory);
 
-  if (isToolEvent(event)) {
-    const eventMatchers = hooks[event as ToolHookEvent] as
+  if (isMatcherEvent(event)) {
+    const eventMatchers = hooks[event as MatcherHookEvent] as
       | HookMatcher[]
       | undefined;
     if (!eventMatchers || index < 0 || index >= eventMatchers.length) {
@@ -179,7 +179,7 @@ export async function removeHook(
     }
     eventMatchers.splice(index, 1);
     if (eventMatchers.length === 0) {
-      delete hooks[event as ToolHookEvent];
+      delete hooks[event as MatcherHookEvent];
     }
   } else {
     const eventMatchers = hooks[event as SimpleHookEvent] as
@@ -201,7 +201,7 @@ export async function removeHook(
  * Update a hook matcher at a specific index (tool events only)
  */
 export async function updateHookMatcher(
-  event: ToolHookEvent,
+  event: MatcherHookEvent,
   matcherIndex: number,
   matcher: HookMatcher,
   location: SaveLocation,
@@ -276,7 +276,7 @@ export type HookWithSource =
  * Load all hook matchers for a tool event with source tracking
  */
 export function loadMatchersWithSource(
-  event: ToolHookEvent,
+  event: MatcherHookEvent,
   workingDirectory: string = process.cwd(),
 ): HookMatcherWithSource[] {
   const result: HookMatcherWithSource[] = [];
@@ -347,9 +347,10 @@ export function countTotalHooks(
       if (key === "disabled") continue;
 
       const event = key as HookEvent;
-      if (isToolEvent(event)) {
+      if (isMatcherEvent(event)) {
         // Tool events have HookMatcher[] with nested hooks
-        const matchers = (hooks[event as ToolHookEvent] || []) as HookMatcher[];
+        const matchers = (hooks[event as MatcherHookEvent] ||
+          []) as HookMatcher[];
         for (const matcher of matchers) {
           count += matcher.hooks.length;
         }
@@ -380,9 +381,10 @@ export function countHooksForEvent(
 
   for (const location of locations) {
     const hooks = loadHooksFromLocation(location, workingDirectory);
-    if (isToolEvent(event)) {
+    if (isMatcherEvent(event)) {
       // Tool events have HookMatcher[] with nested hooks
-      const matchers = (hooks[event as ToolHookEvent] || []) as HookMatcher[];
+      const matchers = (hooks[event as MatcherHookEvent] ||
+        []) as HookMatcher[];
       for (const matcher of matchers) {
         count += matcher.hooks.length;
       }
@@ -43,7 +43,8 @@ import {
   validateRegistryHandleOrThrow,
 } from "./cli/startupFlagValidation";
 import { runSubcommand } from "./cli/subcommands/router";
-import { permissionMode } from "./permissions/mode";
+import { registerCustomPermissionModes } from "./permissions/loader";
+import { BUILTIN_PERMISSION_MODES, permissionMode } from "./permissions/mode";
 import { settingsManager, shouldPersistSessionState } from "./settings-manager";
 import { startStartupAutoUpdateCheck } from "./startup-auto-update";
 import { telemetry } from "./telemetry";
@@ -96,6 +97,7 @@ USAGE
   letta messages ...    Messages subcommands (JSON-only)
   letta blocks ...      Blocks subcommands (JSON-only)
   letta connect ...     Connect providers from terminal
+  letta permissions ... Explain permission decisions for a tool call
 
 OPTIONS
 ${renderCliOptionsHelp()}
@@ -370,17 +372,25 @@ async function main(): Promise<void> {
     process.exit(subcommandResult);
   }
 
-  // Initialize LSP infrastructure for type checking
-  if (process.env.LETTA_ENABLE_LSP) {
-    try {
-      const { lspManager } = await import("./lsp/manager.js");
-      await lspManager.initialize(process.cwd());
-    } catch (error) {
-      trackCliBoundaryError("lsp_init_failed", error, "tui_startup_lsp_init");
-      console.error("[LSP] Failed to initialize:", error);
-    }
+  // Initialize LSP infrastructure for type checking (no-op unless enabled
+  // via settings "lsp.enabled" or LETTA_ENABLE_LSP)
+  try {
+    const { lspManager } = await import("./lsp/manager.js");
+    await lspManager.initialize(process.cwd());
+  } catch (error) {
+    trackCliBoundaryError("lsp_init_failed", error, "tui_startup_lsp_init");
+    console.error("[LSP] Failed to initialize:", error);
   }
 
+  // Start local stdio MCP servers from project settings in the background
+  // (no-op unless "mcpServers" is configured). Each server's tools are
+  // registered as soon as it connects; the next turn picks them up.
+  const localMcpStartup = import("./mcp/manager.js")
+    .then(({ localMcpManager }) => localMcpManager.initialize(process.cwd()))
+    .catch((error) => {
+      trackCliBoundaryError("mcp_init_failed", error, "tui_startup_mcp_init");
+    });
+
   // Check for updates on startup (non-blocking)
   const { checkAndAutoUpdate } = await import("./updater/auto-update");
   const autoUpdatePromise = startStartupAutoUpdateCheck(checkAndAutoUpdate);
@@ -909,6 +919,10 @@ async function main(): Promise<void> {
     }
   }
 
+  // Custom modes declared in settings (permissions.modes) are selectable
+  // via --permission-mode and Shift+Tab
+  await registerCustomPermissionModes();
+
   // Set permission mode if provided (or via --yolo alias)
   const permissionModeValue = values["permission-mode"];
   const yoloMode = values.yolo;
@@ -919,17 +933,13 @@ async function main(): Promise<void> {
       permissionMode.setMode("bypassPermissions");
     } else if (permissionModeValue) {
       const mode = permissionModeValue;
-      const validModes = [
-        "default",
-        "acceptEdits",
-        "plan",
-        "memory",
-        "bypassPermissions",
-      ] as const;
-
-      if (validModes.includes(mode as (typeof validModes)[number])) {
-        permissionMode.setMode(mode as (typeof validModes)[number]);
+      if (permissionMode.isKnownMode(mode)) {
+        permissionMode.setMode(mode);
       } else {
+        const validModes = [
+          ...BUILTIN_PERMISSION_MODES,
+          ...Object.keys(permissionMode.getCustomModes()),
+        ];
         console.error(
           `Invalid permission mode: ${mode}. Valid modes: ${validModes.join(", ")}`,
         );
@@ -947,6 +957,8 @@ async function main(): Promise<void> {
     );
     // Exclude interactive-only tools that can't function without a live user session
     await loadTools(modelForTools, { exclude: ["AskUserQuestion"] });
+    // A headless run has a single first turn: give it the MCP tools too
+    await localMcpStartup;
     markMilestone("TOOLS_LOADED");
 
     // Keep headless startup in sync with interactive name resolution.
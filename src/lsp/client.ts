@@ -6,14 +6,27 @@ import { EventEmitter } from "node:events";
 import type { Readable, Writable } from "node:stream";
 import type {
   Diagnostic,
+  DocumentSymbol,
+  Hover,
   InitializeParams,
   InitializeResult,
   JsonRpcNotification,
   JsonRpcRequest,
   JsonRpcResponse,
+  Location,
+  LocationLink,
   LSPServerProcess,
+  Position,
+  SymbolInformation,
+  WorkspaceEdit,
 } from "./types.js";
 
+/** Timeout for navigation requests (definition, references, ...) */
+const NAVIGATION_TIMEOUT_MS = 10000;
+
+/** How long to wait for a graceful shutdown before killing the server */
+const SHUTDOWN_TIMEOUT_MS = 5000;
+
 export interface LSPClientOptions {
   serverID: string;
   server: LSPServerProcess;
@@ -130,7 +143,11 @@ export class LSPClient extends EventEmitter {
     this.emit("notification", notification);
   }
 
-  private sendRequest<T>(method: string, params?: unknown): Promise<T> {
+  private sendRequest<T>(
+    method: string,
+    params?: unknown,
+    timeoutMs?: number,
+  ): Promise<T> {
     return new Promise((resolve, reject) => {
       const id = ++this.requestId;
       const request: JsonRpcRequest = {
@@ -140,9 +157,28 @@ export class LSPClient extends EventEmitter {
         params,
       };
 
+      const timeoutId =
+        timeoutMs === undefined
+          ? undefined
+          : setTimeout(() => {
+              if (this.pendingRequests.delete(id)) {
+                reject(
+                  new Error(
+                    `LSP request ${method} timed out after ${timeoutMs}ms`,
+                  ),
+                );
+              }
+            }, timeoutMs);
+
       this.pendingRequests.set(id, {
-        resolve: resolve as (result: unknown) => void,
-        reject,
+        resolve: (result) => {
+          clearTimeout(timeoutId);
+          resolve(result as T);
+        },
+        reject: (error) => {
+          clearTimeout(timeoutId);
+          reject(error);
+        },
       });
 
       this.sendMessage(request);
@@ -177,6 +213,14 @@ export class LSPClient extends EventEmitter {
             relatedInformation: true,
             versionSupport: true,
           },
+          definition: { linkSupport: true },
+          references: {},
+          hover: { contentFormat: ["markdown", "plaintext"] },
+          documentSymbol: { hierarchicalDocumentSymbolSupport: true },
+          rename: { prepareSupport: false },
+        },
+        workspace: {
+          symbol: {},
         },
       },
       initializationOptions: this.process.initialization,
@@ -234,6 +278,20 @@ export class LSPClient extends EventEmitter {
     });
   }
 
+  /**
+   * Notify server that a document was saved to disk
+   */
+  didSave(uri: string, text: string): void {
+    if (!this.initialized) return;
+
+    this.sendNotification("textDocument/didSave", {
+      textDocument: {
+        uri,
+      },
+      text,
+    });
+  }
+
   /**
    * Notify server that a document was closed
    */
@@ -247,13 +305,96 @@ export class LSPClient extends EventEmitter {
     });
   }
 
+  /**
+   * Find where the symbol at a position is defined
+   */
+  async definition(
+    uri: string,
+    position: Position,
+  ): Promise<Location | Location[] | LocationLink[] | null> {
+    return this.sendRequest(
+      "textDocument/definition",
+      { textDocument: { uri }, position },
+      NAVIGATION_TIMEOUT_MS,
+    );
+  }
+
+  /**
+   * Find all references to the symbol at a position
+   */
+  async references(
+    uri: string,
+    position: Position,
+    includeDeclaration: boolean,
+  ): Promise<Location[] | null> {
+    return this.sendRequest(
+      "textDocument/references",
+      { textDocument: { uri }, position, context: { includeDeclaration } },
+      NAVIGATION_TIMEOUT_MS,
+    );
+  }
+
+  /**
+   * Get type information and docs for the symbol at a position
+   */
+  async hover(uri: string, position: Position): Promise<Hover | null> {
+    return this.sendRequest(
+      "textDocument/hover",
+      { textDocument: { uri }, position },
+      NAVIGATION_TIMEOUT_MS,
+    );
+  }
+
+  /**
+   * List the symbols declared in a document
+   */
+  async documentSymbols(
+    uri: string,
+  ): Promise<DocumentSymbol[] | SymbolInformation[] | null> {
+    return this.sendRequest(
+      "textDocument/documentSymbol",
+      { textDocument: { uri } },
+      NAVIGATION_TIMEOUT_MS,
+    );
+  }
+
+  /**
+   * Search symbols across the workspace
+   */
+  async workspaceSymbols(query: string): Promise<SymbolInformation[] | null> {
+    return this.sendRequest(
+      "workspace/symbol",
+      { query },
+      NAVIGATION_TIMEOUT_MS,
+    );
+  }
+
+  /**
+   * Compute the edits a rename would make (the edits are not applied)
+   */
+  async rename(
+    uri: string,
+    position: Position,
+    newName: string,
+  ): Promise<WorkspaceEdit | null> {
+    return this.sendRequest(
+      "textDocument/rename",
+      { textDocument: { uri }, position, newName },
+      NAVIGATION_TIMEOUT_MS,
+    );
+  }
+
   /**
    * Shutdown the LSP server gracefully
    */
   async shutdown(): Promise<void> {
     if (this.initialized) {
-      await this.sendRequest("shutdown");
-      this.sendNotification("exit");
+      try {
+        await this.sendRequest("shutdown", undefined, SHUTDOWN_TIMEOUT_MS);
+        this.sendNotification("exit");
+      } catch {
+        // Unresponsive server - kill it below
+      }
     }
     this.process.process.kill();
   }
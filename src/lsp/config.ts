@@ -0,0 +1,221 @@
+/**
+ * LSP configuration from settings.
+ *
+ * The "lsp" block may appear in user (~/.letta/settings.json), project
+ * (.letta/settings.json) and local project (.letta/settings.local.json)
+ * settings. Precedence: local project > project > user.
+ */
+
+import { settingsManager } from "../settings-manager.js";
+import { SERVERS } from "./servers/index.js";
+import {
+  DiagnosticSeverity,
+  type DiagnosticSeverityName,
+  type LSPServerInfo,
+  type LSPServerSettings,
+} from "./types.js";
+
+export type LSPSettingsScope = "built-in" | "user" | "project" | "local";
+
+export interface ResolvedLSPServers {
+  servers: LSPServerInfo[];
+  /** Where each server's definition came from, by id */
+  sources: Record<string, LSPSettingsScope>;
+  /** Invalid settings entries that were skipped */
+  warnings: string[];
+}
+
+/**
+ * Load the project-level settings files the LSP config reads from
+ */
+export async function loadLspSettings(workingDirectory: string): Promise<void> {
+  await settingsManager.loadProjectSettings(workingDirectory);
+  await settingsManager.loadLocalProjectSettings(workingDirectory);
+}
+
+/**
+ * Whether LSP is enabled.
+ * LETTA_ENABLE_LSP, when set, overrides settings for this process
+ * ("0" or "false" turns LSP off); otherwise the highest-precedence
+ * `lsp.enabled` wins. Off by default.
+ */
+export function isLspEnabled(
+  workingDirectory: string = process.cwd(),
+): boolean {
+  const envValue = process.env.LETTA_ENABLE_LSP;
+  if (envValue !== undefined && envValue !== "") {
+    return !["0", "false", "off"].includes(envValue.toLowerCase());
+  }
+  let enabled = false;
+  for (const { value: lsp } of settingsManager.getSettingsLayers(
+    "lsp",
+    workingDirectory,
+  )) {
+    if (typeof lsp.enabled === "boolean") enabled = lsp.enabled;
+  }
+  return enabled;
+}
+
+export interface PostEditDiagnosticsConfig {
+  /** Severities to report; empty when reporting is off */
+  severities: DiagnosticSeverity[];
+  timeoutMs: number;
+}
+
+const DEFAULT_POST_EDIT_TIMEOUT_MS = 3000;
+const MAX_POST_EDIT_TIMEOUT_MS = 30_000;
+
+const SEVERITY_BY_NAME: Record<DiagnosticSeverityName, DiagnosticSeverity> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  information: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+};
+
+/**
+ * Which newly introduced diagnostics to report after file edits.
+ * Each field comes from the highest-precedence level that sets it;
+ * unknown severity names are ignored.
+ */
+export function resolvePostEditDiagnosticsConfig(
+  workingDirectory: string = process.cwd(),
+): PostEditDiagnosticsConfig {
+  let severityNames: unknown[] = ["error"];
+  let timeoutMs = DEFAULT_POST_EDIT_TIMEOUT_MS;
+  for (const { value: lsp } of settingsManager.getSettingsLayers(
+    "lsp",
+    workingDirectory,
+  )) {
+    const settings = lsp.postEditDiagnostics;
+    if (!settings) continue;
+    if (Array.isArray(settings.severities)) {
+      severityNames = settings.severities;
+    }
+    if (typeof settings.timeoutMs === "number" && settings.timeoutMs >= 0) {
+      timeoutMs = Math.min(settings.timeoutMs, MAX_POST_EDIT_TIMEOUT_MS);
+    }
+  }
+  const severities = [
+    ...new Set(
+      severityNames.flatMap((name) =>
+        typeof name === "string" && name in SEVERITY_BY_NAME
+          ? [SEVERITY_BY_NAME[name as DiagnosticSeverityName]]
+          : [],
+      ),
+    ),
+  ];
+  return { severities, timeoutMs };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function normalizeExtension(extension: string): string {
+  const lower = extension.trim().toLowerCase();
+  return lower.startsWith(".") ? lower : `.${lower}`;
+}
+
+/**
+ * Validate one settings entry. Returns an error message when invalid.
+ */
+function validateServerSettings(
+  entry: LSPServerSettings,
+  isOverride: boolean,
+): string | null {
+  if (!entry || typeof entry !== "object") {
+    return "entry must be an object";
+  }
+  if (typeof entry.id !== "string" || entry.id.trim() === "") {
+    return "missing id";
+  }
+  if (entry.disabled) return null;
+  if (
+    entry.command !== undefined &&
+    (!isStringArray(entry.command) || entry.command.length === 0)
+  ) {
+    return "command must be a non-empty array of strings";
+  }
+  if (
+    entry.extensions !== undefined &&
+    (!isStringArray(entry.extensions) || entry.extensions.length === 0)
+  ) {
+    return "extensions must be a non-empty array of strings";
+  }
+  if (entry.rootMarkers !== undefined && !isStringArray(entry.rootMarkers)) {
+    return "rootMarkers must be an array of strings";
+  }
+  if (!isOverride && (!entry.command || !entry.extensions)) {
+    return "new servers need both command and extensions";
+  }
+  return null;
+}
+
+/**
+ * Resolve the server definitions: the built-in servers, then settings
+ * entries from user, project and local settings in turn. An entry replaces
+ * the fields it sets on a server with the same id; a replaced command drops
+ * the built-in auto-install.
+ */
+export function resolveLspServers(
+  workingDirectory: string = process.cwd(),
+): ResolvedLSPServers {
+  const servers = new Map<string, LSPServerInfo>(
+    SERVERS.map((server) => [server.id, server]),
+  );
+  const sources: Record<string, LSPSettingsScope> = Object.fromEntries(
+    SERVERS.map((server) => [server.id, "built-in" as const]),
+  );
+  const warnings: string[] = [];
+
+  for (const { scope, value: lsp } of settingsManager.getSettingsLayers(
+    "lsp",
+    workingDirectory,
+  )) {
+    if (lsp.servers === undefined) continue;
+    if (!Array.isArray(lsp.servers)) {
+      warnings.push(`${scope} settings: lsp.servers must be an array`);
+      continue;
+    }
+    for (const entry of lsp.servers) {
+      const existing =
+        typeof entry?.id === "string" ? servers.get(entry.id) : undefined;
+      const error = validateServerSettings(entry, existing !== undefined);
+      if (error) {
+        const label = typeof entry?.id === "string" ? ` "${entry.id}"` : "";
+        warnings.push(
+          `${scope} settings: lsp server${label} skipped: ${error}`,
+        );
+        continue;
+      }
+      if (entry.disabled) {
+        servers.delete(entry.id);
+        delete sources[entry.id];
+        continue;
+      }
+
+      const merged: LSPServerInfo = {
+        ...existing,
+        id: entry.id,
+        command: entry.command ?? existing?.command ?? [],
+        extensions: (entry.extensions ?? existing?.extensions ?? []).map(
+          normalizeExtension,
+        ),
+        ...(entry.env !== undefined && { env: entry.env }),
+        ...(entry.initialization !== undefined && {
+          initialization: entry.initialization,
+        }),
+        ...(entry.rootMarkers !== undefined && {
+          rootMarkers: entry.rootMarkers,
+        }),
+      };
+      if (entry.command !== undefined) {
+        delete merged.autoInstall;
+      }
+      servers.set(entry.id, merged);
+      sources[entry.id] = scope;
+    }
+  }
+
+  return { servers: [...servers.values()], sources, warnings };
+}
@@ -0,0 +1,162 @@
+/**
+ * Post-edit diagnostics - reports LSP diagnostics introduced by file edits.
+ *
+ * Before a file-editing tool runs, the current diagnostics of the files it
+ * touches are captured. Afterwards the servers are notified of the changes
+ * and any diagnostics that were not there before are appended to the tool
+ * result, so the agent can fix them in the same turn.
+ */
+
+import { existsSync } from "node:fs";
+import * as path from "node:path";
+import {
+  getMutatedFilePaths,
+  isFileMutationTool,
+} from "../tools/file-mutations.js";
+import {
+  type PostEditDiagnosticsConfig,
+  resolvePostEditDiagnosticsConfig,
+} from "./config.js";
+import { formatDiagnostic } from "./format.js";
+import { lspManager } from "./manager.js";
+import { type Diagnostic, DiagnosticSeverity } from "./types.js";
+
+/** Diagnostics listed per file before summarizing the rest */
+const MAX_DIAGNOSTICS_PER_FILE = 10;
+
+export interface EditDiagnosticsBaseline {
+  config: PostEditDiagnosticsConfig;
+  workingDirectory: string;
+  /** Pre-edit diagnostics by absolute path */
+  before: Map<string, Diagnostic[]>;
+}
+
+function diagnosticKey(diagnostic: Diagnostic): string {
+  // Ranges are left out: edits shift the lines of unrelated diagnostics
+  return JSON.stringify([
+    diagnostic.severity ?? DiagnosticSeverity.Error,
+    diagnostic.source ?? "",
+    diagnostic.code ?? "",
+    diagnostic.message,
+  ]);
+}
+
+/**
+ * Diagnostics in `after` that were not in `before`. Identical diagnostics
+ * are matched by count, so a second copy of an existing error is new.
+ */
+export function diffDiagnostics(
+  before: Diagnostic[],
+  after: Diagnostic[],
+): Diagnostic[] {
+  const remaining = new Map<string, number>();
+  for (const diagnostic of before) {
+    const key = diagnosticKey(diagnostic);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+  return after.filter((diagnostic) => {
+    const key = diagnosticKey(diagnostic);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Capture the diagnostics of the files an edit tool call will touch.
+ * Returns null when LSP is off, reporting is disabled, or no file is
+ * handled by a language server. Never throws.
+ */
+export async function captureEditDiagnosticsBaseline(
+  toolName: string,
+  args: Record<string, unknown>,
+  workingDirectory: string,
+): Promise<EditDiagnosticsBaseline | null> {
+  if (!lspManager.isEnabled() || !isFileMutationTool(toolName)) return null;
+  try {
+    const config = resolvePostEditDiagnosticsConfig(workingDirectory);
+    if (config.severities.length === 0) return null;
+
+    const files = getMutatedFilePaths(toolName, args, workingDirectory).filter(
+      (filePath) => lspManager.handlesFile(filePath),
+    );
+    if (files.length === 0) return null;
+
+    const before = new Map<string, Diagnostic[]>();
+    for (const filePath of files) {
+      if (!existsSync(filePath)) {
+        // New file - nothing to compare against
+        before.set(filePath, []);
+      } else if (lspManager.isDocumentOpen(filePath)) {
+        before.set(filePath, lspManager.getDiagnostics(filePath));
+      } else {
+        before.set(
+          filePath,
+          await lspManager.syncDiagnostics(filePath, false, config.timeoutMs),
+        );
+      }
+    }
+    return { config, workingDirectory, before };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Notify the servers of the edited files and describe the diagnostics the
+ * edit introduced. Returns null when there are none. Never throws.
+ */
+export async function reportIntroducedDiagnostics(
+  baseline: EditDiagnosticsBaseline,
+): Promise<string | null> {
+  const { config, workingDirectory } = baseline;
+  const sections: string[] = [];
+  let onlyErrors = true;
+
+  for (const [filePath, before] of baseline.before) {
+    if (!existsSync(filePath)) continue;
+    let after: Diagnostic[];
+    try {
+      after = await lspManager.syncDiagnostics(
+        filePath,
+        true,
+        config.timeoutMs,
+      );
+    } catch {
+      continue;
+    }
+
+    const introduced = diffDiagnostics(before, after).filter((diagnostic) =>
+      config.severities.includes(
+        diagnostic.severity ?? DiagnosticSeverity.Error,
+      ),
+    );
+    if (introduced.length === 0) continue;
+    if (
+      introduced.some(
+        (d) =>
+          (d.severity ?? DiagnosticSeverity.Error) !== DiagnosticSeverity.Error,
+      )
+    ) {
+      onlyErrors = false;
+    }
+
+    const displayed = introduced.slice(0, MAX_DIAGNOSTICS_PER_FILE);
+    const suffix =
+      introduced.length > MAX_DIAGNOSTICS_PER_FILE
+        ? `\n... and ${introduced.length - MAX_DIAGNOSTICS_PER_FILE} more`
+        : "";
+    const relative = path.relative(workingDirectory, filePath);
+    const displayPath =
+      relative && !relative.startsWith("..") ? relative : filePath;
+    sections.push(
+      `<file_diagnostics file="${displayPath}">\n${displayed.map(formatDiagnostic).join("\n")}${suffix}\n</file_diagnostics>`,
+    );
+  }
+
+  if (sections.length === 0) return null;
+  return `This edit introduced new ${onlyErrors ? "errors" : "diagnostics"}, please fix\n${sections.join("\n")}`;
+}
@@ -0,0 +1,211 @@
+/**
+ * Formatting of LSP navigation results as file:line:col text for agents
+ */
+
+import { readFileSync } from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  type Diagnostic,
+  type DocumentSymbol,
+  type Hover,
+  type Location,
+  type MarkedString,
+  type SymbolInformation,
+  SymbolKind,
+  type TextEdit,
+  type WorkspaceEdit,
+} from "./types.js";
+
+/** Maximum number of locations/symbols listed before summarizing the rest */
+const MAX_RESULTS = 100;
+
+export function uriToPath(uri: string): string {
+  if (!uri.startsWith("file://")) return uri;
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return uri.slice("file://".length);
+  }
+}
+
+function displayPath(uri: string, cwd: string): string {
+  const filePath = uriToPath(uri);
+  const relative = path.relative(cwd, filePath);
+  return relative && !relative.startsWith("..") && !path.isAbsolute(relative)
+    ? relative
+    : filePath;
+}
+
+/**
+ * Reads source lines for snippets, caching each file for one formatting pass
+ */
+function createLineReader(): (uri: string, line: number) => string | null {
+  const cache = new Map<string, string[] | null>();
+  return (uri, line) => {
+    let lines = cache.get(uri);
+    if (lines === undefined) {
+      try {
+        lines = readFileSync(uriToPath(uri), "utf-8").split("\n");
+      } catch {
+        lines = null;
+      }
+      cache.set(uri, lines);
+    }
+    return lines?.[line]?.trim() ?? null;
+  };
+}
+
+/**
+ * Format a single diagnostic in opencode style: "ERROR [line:col] message"
+ */
+export function formatDiagnostic(diag: Diagnostic): string {
+  const severityMap: Record<number, string> = {
+    1: "ERROR",
+    2: "WARN",
+    3: "INFO",
+    4: "HINT",
+  };
+  const severity = severityMap[diag.severity || 1] || "ERROR";
+  const line = diag.range.start.line + 1; // Convert to 1-based
+  const col = diag.range.start.character + 1;
+  return `${severity} [${line}:${col}] ${diag.message}`;
+}
+
+function symbolKindName(kind: SymbolKind): string {
+  return SymbolKind[kind] ?? "Symbol";
+}
+
+function moreSuffix(total: number): string {
+  return total > MAX_RESULTS ? `\n... and ${total - MAX_RESULTS} more` : "";
+}
+
+/**
+ * Format locations as "path:line:col: source line" (1-based)
+ */
+export function formatLocations(
+  locations: Location[],
+  cwd: string,
+  emptyMessage: string,
+): string {
+  if (locations.length === 0) return emptyMessage;
+  const readLine = createLineReader();
+  const lines = locations.slice(0, MAX_RESULTS).map((location) => {
+    const { line, character } = location.range.start;
+    const snippet = readLine(location.uri, line);
+    return `${displayPath(location.uri, cwd)}:${line + 1}:${character + 1}${snippet ? `: ${snippet}` : ""}`;
+  });
+  const header =
+    locations.length === 1 ? "1 location" : `${locations.length} locations`;
+  return `${header}\n${lines.join("\n")}${moreSuffix(locations.length)}`;
+}
+
+function markedStringToText(value: MarkedString): string {
+  if (typeof value === "string") return value;
+  return `\`\`\`${value.language}\n${value.value}\n\`\`\``;
+}
+
+/**
+ * Format hover contents as plain markdown
+ */
+export function formatHover(hover: Hover | null): string {
+  if (!hover) return "No hover information at this position";
+  const { contents } = hover;
+  let text: string;
+  if (Array.isArray(contents)) {
+    text = contents.map(markedStringToText).join("\n\n");
+  } else if (typeof contents === "object" && "kind" in contents) {
+    text = contents.value;
+  } else {
+    text = markedStringToText(contents);
+  }
+  return text.trim() || "No hover information at this position";
+}
+
+/**
+ * Format document symbols as an indented outline with line numbers
+ */
+export function formatDocumentSymbols(
+  symbols: DocumentSymbol[] | SymbolInformation[],
+): string {
+  if (symbols.length === 0) return "No symbols found";
+  const lines: string[] = [];
+  const visit = (symbol: DocumentSymbol, depth: number) => {
+    const line = symbol.selectionRange.start.line + 1;
+    lines.push(
+      `${"  ".repeat(depth)}${symbolKindName(symbol.kind)} ${symbol.name}${symbol.detail ? ` ${symbol.detail}` : ""} (line ${line})`,
+    );
+    for (const child of symbol.children ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  for (const symbol of symbols) {
+    if ("location" in symbol) {
+      const line = symbol.location.range.start.line + 1;
+      lines.push(
+        `${symbolKindName(symbol.kind)} ${symbol.name}${symbol.containerName ? ` (in ${symbol.containerName})` : ""} (line ${line})`,
+      );
+    } else {
+      visit(symbol, 0);
+    }
+  }
+  return `${lines.slice(0, MAX_RESULTS).join("\n")}${moreSuffix(lines.length)}`;
+}
+
+/**
+ * Format workspace symbols as "Kind name — path:line:col"
+ */
+export function formatWorkspaceSymbols(
+  symbols: SymbolInformation[],
+  cwd: string,
+): string {
+  if (symbols.length === 0) return "No matching symbols found";
+  const lines = symbols.slice(0, MAX_RESULTS).map((symbol) => {
+    const { line, character } = symbol.location.range.start;
+    return `${symbolKindName(symbol.kind)} ${symbol.name}${symbol.containerName ? ` (in ${symbol.containerName})` : ""} — ${displayPath(symbol.location.uri, cwd)}:${line + 1}:${character + 1}`;
+  });
+  return `${symbols.length} symbol${symbols.length === 1 ? "" : "s"}\n${lines.join("\n")}${moreSuffix(symbols.length)}`;
+}
+
+/**
+ * Format the edits of a rename as a per-file preview
+ */
+export function formatRenamePreview(
+  edit: WorkspaceEdit | null,
+  newName: string,
+  cwd: string,
+): string {
+  const byUri = new Map<string, TextEdit[]>();
+  for (const [uri, edits] of Object.entries(edit?.changes ?? {})) {
+    byUri.set(uri, [...(byUri.get(uri) ?? []), ...edits]);
+  }
+  for (const change of edit?.documentChanges ?? []) {
+    if ("textDocument" in change) {
+      const uri = change.textDocument.uri;
+      byUri.set(uri, [...(byUri.get(uri) ?? []), ...change.edits]);
+    }
+  }
+  if (byUri.size === 0) return "Rename is not possible at this position";
+
+  const readLine = createLineReader();
+  const total = [...byUri.values()].reduce((sum, e) => sum + e.length, 0);
+  const lines = [
+    `Renaming to "${newName}" would make ${total} edit${total === 1 ? "" : "s"} in ${byUri.size} file${byUri.size === 1 ? "" : "s"} (preview only, no files were changed):`,
+  ];
+  for (const [uri, edits] of byUri) {
+    lines.push("", displayPath(uri, cwd));
+    const sorted = [...edits].sort(
+      (a, b) =>
+        a.range.start.line - b.range.start.line ||
+        a.range.start.character - b.range.start.character,
+    );
+    for (const textEdit of sorted) {
+      const { line, character } = textEdit.range.start;
+      const snippet = readLine(uri, line);
+      lines.push(
+        `  ${line + 1}:${character + 1}${snippet ? `: ${snippet}` : ""}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
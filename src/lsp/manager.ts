@@ -2,14 +2,55 @@
  * LSP Manager - Orchestrates multiple LSP servers and maintains diagnostics
  */
 
+import { existsSync } from "node:fs";
 import * as path from "node:path";
 import { LSPClient } from "./client.js";
-import type { Diagnostic, LSPServerInfo } from "./types.js";
+import {
+  isLspEnabled,
+  type LSPSettingsScope,
+  loadLspSettings,
+  resolveLspServers,
+} from "./config.js";
+import type {
+  Diagnostic,
+  DocumentSymbol,
+  Hover,
+  Location,
+  LocationLink,
+  LSPServerInfo,
+  Position,
+  SymbolInformation,
+  WorkspaceEdit,
+} from "./types.js";
 
 interface ActiveServer {
+  id: string;
   client: LSPClient;
   rootUri: string;
   extensions: string[];
+  command: string[];
+  pid?: number;
+  startedAt: number;
+}
+
+/**
+ * Snapshot of configured and running servers for /lsp status
+ */
+export interface LSPStatus {
+  enabled: boolean;
+  projectRoot: string | null;
+  servers: {
+    id: string;
+    source: LSPSettingsScope;
+    command: string[];
+    extensions: string[];
+    running: { root: string; pid?: number; startedAt: number }[];
+  }[];
+  warnings: string[];
+}
+
+function serverKey(id: string, rootUri: string): string {
+  return `${id}:${rootUri}`;
 }
 
 /**
@@ -18,10 +59,20 @@ interface ActiveServer {
  */
 export class LSPManager {
   private static instance: LSPManager | null = null;
+  // Keyed by server id and workspace root ("go:/repo/svc")
   private servers = new Map<string, ActiveServer>();
+  private startingServers = new Map<string, Promise<ActiveServer | null>>();
   private diagnostics = new Map<string, Diagnostic[]>();
-  private openDocuments = new Map<string, { version: number; uri: string }>();
+  // Callbacks waiting for the next diagnostics published for a file
+  private diagnosticWaiters = new Map<string, Set<() => void>>();
+  private openDocuments = new Map<
+    string,
+    { version: number; uri: string; serverKey: string }
+  >();
   private serverDefinitions: LSPServerInfo[] = [];
+  private serverSources: Record<string, LSPSettingsScope> = {};
+  private configWarnings: string[] = [];
+  private projectRoot: string | null = null;
   private enabled = false;
 
   private constructor() {
@@ -36,33 +87,77 @@ export class LSPManager {
   }
 
   /**
-   * Initialize LSP system for a project
+   * Initialize LSP system for a project.
+   * Does nothing unless LSP is enabled in settings (or LETTA_ENABLE_LSP).
    */
   async initialize(projectRoot: string): Promise<void> {
+    this.projectRoot = projectRoot;
+    try {
+      await loadLspSettings(projectRoot);
+    } catch {
+      // Fall back to user settings and LETTA_ENABLE_LSP
+    }
+
     // Check if LSP is enabled
-    if (!process.env.LETTA_ENABLE_LSP) {
+    if (!isLspEnabled(projectRoot)) {
+      this.enabled = false;
       return;
     }
 
     this.enabled = true;
-
-    // Load server definitions
-    const { SERVERS } = await import("./servers/index.js");
-    this.serverDefinitions = SERVERS;
+    this.loadServerDefinitions();
 
     console.log(`[LSP] Initialized for project: ${projectRoot}`);
   }
 
+  /**
+   * Resolve server definitions from the built-ins and settings
+   */
+  private loadServerDefinitions(): void {
+    const { servers, sources, warnings } = resolveLspServers(
+      this.projectRoot ?? process.cwd(),
+    );
+    this.serverDefinitions = servers;
+    this.serverSources = sources;
+    this.configWarnings = warnings;
+    for (const warning of warnings) {
+      console.warn(`[LSP] ${warning}`);
+    }
+  }
+
+  /**
+   * Workspace root for a file: the nearest ancestor containing one of the
+   * server's root markers, falling back to the project root
+   */
+  private findWorkspaceRoot(filePath: string, serverDef: LSPServerInfo) {
+    const projectRoot = this.projectRoot ?? process.cwd();
+    const markers = serverDef.rootMarkers ?? [];
+    if (markers.length === 0) return projectRoot;
+
+    let dir = path.dirname(filePath);
+    for (;;) {
+      if (markers.some((marker) => existsSync(path.join(dir, marker)))) {
+        return dir;
+      }
+      const parent = path.dirname(dir);
+      if (dir === projectRoot || parent === dir) return projectRoot;
+      dir = parent;
+    }
+  }
+
   /**
    * Get or start LSP server for a file
    */
-  private async getOrStartServer(filePath: string): Promise<LSPClient | null> {
+  private async getOrStartServer(
+    filePath: string,
+  ): Promise<ActiveServer | null> {
     if (!this.enabled) return null;
 
     const ext = path.extname(filePath).toLowerCase();
 
-    // Find server definition for this file extension
-    const serverDef = this.serverDefinitions.find((s) =>
+    // Find server definition for this file extension; servers declared
+    // later (in settings) take precedence over built-ins
+    const serverDef = this.serverDefinitions.findLast((s) =>
       s.extensions.includes(ext),
     );
 
@@ -70,16 +165,38 @@ export class LSPManager {
       return null;
     }
 
-    // Check if server is already running
-    const existing = this.servers.get(serverDef.id);
+    const rootUri = this.findWorkspaceRoot(
+      path.isAbsolute(filePath) ? filePath : path.resolve(filePath),
+      serverDef,
+    );
+    const key = serverKey(serverDef.id, rootUri);
+
+    // Check if server is already running (or starting)
+    const existing = this.servers.get(key);
     if (existing) {
-      return existing.client;
+      return existing;
+    }
+    const starting = this.startingServers.get(key);
+    if (starting) {
+      return starting;
     }
 
-    // Start new server
+    const startPromise = this.startServer(serverDef, rootUri, key);
+    this.startingServers.set(key, startPromise);
+    try {
+      return await startPromise;
+    } finally {
+      this.startingServers.delete(key);
+    }
+  }
+
+  private async startServer(
+    serverDef: LSPServerInfo,
+    rootUri: string,
+    key: string,
+  ): Promise<ActiveServer | null> {
     try {
       const { spawn } = await import("node:child_process");
-      const rootUri = process.cwd();
 
       // Check if server binary is available
       if (serverDef.autoInstall) {
@@ -126,35 +243,58 @@ export class LSPManager {
 
       client.on("exit", (code: number | null) => {
         console.log(`[LSP] ${serverDef.id} exited with code ${code}`);
-        this.servers.delete(serverDef.id);
+        // A restarted server may already have replaced this one
+        if (this.servers.get(key)?.client === client) {
+          this.forgetServer(key);
+        }
       });
 
       // Initialize the server
       await client.initialize();
 
-      this.servers.set(serverDef.id, {
+      const server: ActiveServer = {
+        id: serverDef.id,
         client,
         rootUri,
         extensions: serverDef.extensions,
-      });
+        command: serverDef.command,
+        pid: proc.pid,
+        startedAt: Date.now(),
+      };
+      this.servers.set(key, server);
 
-      console.log(`[LSP] Started ${serverDef.id}`);
+      console.log(`[LSP] Started ${serverDef.id} (root: ${rootUri})`);
 
-      return client;
+      return server;
     } catch (error) {
       console.error(`[LSP] Failed to start ${serverDef.id}:`, error);
       return null;
     }
   }
 
+  /**
+   * Drop a server and the documents it had open, so they are reopened in
+   * its replacement
+   */
+  private forgetServer(key: string): void {
+    this.servers.delete(key);
+    for (const [filePath, doc] of this.openDocuments) {
+      if (doc.serverKey === key) {
+        this.openDocuments.delete(filePath);
+        this.diagnostics.delete(filePath);
+      }
+    }
+  }
+
   /**
    * Notify LSP that a file was opened or touched
    */
   async touchFile(filePath: string, changed: boolean): Promise<void> {
     if (!this.enabled) return;
 
-    const client = await this.getOrStartServer(filePath);
-    if (!client) return;
+    const server = await this.getOrStartServer(filePath);
+    if (!server) return;
+    const { client } = server;
 
     const absolutePath = path.isAbsolute(filePath)
       ? filePath
@@ -170,21 +310,142 @@ export class LSPManager {
       const languageId = this.getLanguageId(filePath);
 
       client.didOpen(uri, languageId, 1, text);
-      this.openDocuments.set(absolutePath, { version: 1, uri });
+      this.openDocuments.set(absolutePath, {
+        version: 1,
+        uri,
+        serverKey: serverKey(server.id, server.rootUri),
+      });
     } else if (changed) {
       // Document was changed
       const { promises: fs } = await import("node:fs");
       const text = await fs.readFile(absolutePath, "utf-8");
       const newVersion = existing.version + 1;
 
+      // Changes always come from disk, so the document is saved as well
       client.didChange(uri, newVersion, text);
+      client.didSave(uri, text);
       this.openDocuments.set(absolutePath, {
+        ...existing,
         version: newVersion,
-        uri,
       });
     }
   }
 
+  /**
+   * Whether LSP has been enabled for this session
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Open (or refresh) a file in its server and return the client and URI.
+   * Throws when no server handles the file, so navigation tools can report why.
+   */
+  private async getClientForFile(
+    filePath: string,
+  ): Promise<{ client: LSPClient; uri: string }> {
+    if (!this.enabled) {
+      throw new Error("LSP is not enabled");
+    }
+    const absolutePath = path.isAbsolute(filePath)
+      ? filePath
+      : path.resolve(process.cwd(), filePath);
+    const server = await this.getOrStartServer(absolutePath);
+    if (!server) {
+      throw new Error(
+        `No LSP server available for ${path.extname(absolutePath) || "this file type"}`,
+      );
+    }
+    await this.touchFile(absolutePath, false);
+    return { client: server.client, uri: `file://${absolutePath}` };
+  }
+
+  /**
+   * Go to the definition of the symbol at a position
+   */
+  async definition(filePath: string, position: Position): Promise<Location[]> {
+    const { client, uri } = await this.getClientForFile(filePath);
+    const result = await client.definition(uri, position);
+    if (!result) return [];
+    const items = Array.isArray(result) ? result : [result];
+    return items.map((item: Location | LocationLink) =>
+      "targetUri" in item
+        ? { uri: item.targetUri, range: item.targetSelectionRange }
+        : item,
+    );
+  }
+
+  /**
+   * Find references to the symbol at a position
+   */
+  async references(
+    filePath: string,
+    position: Position,
+    includeDeclaration = true,
+  ): Promise<Location[]> {
+    const { client, uri } = await this.getClientForFile(filePath);
+    return (await client.references(uri, position, includeDeclaration)) ?? [];
+  }
+
+  /**
+   * Hover information for the symbol at a position
+   */
+  async hover(filePath: string, position: Position): Promise<Hover | null> {
+    const { client, uri } = await this.getClientForFile(filePath);
+    return client.hover(uri, position);
+  }
+
+  /**
+   * Symbols declared in a file
+   */
+  async documentSymbols(
+    filePath: string,
+  ): Promise<DocumentSymbol[] | SymbolInformation[]> {
+    const { client, uri } = await this.getClientForFile(filePath);
+    return (await client.documentSymbols(uri)) ?? [];
+  }
+
+  /**
+   * Search symbols across the workspace. Uses the server for filePath when
+   * given, otherwise every running server.
+   */
+  async workspaceSymbols(
+    query: string,
+    filePath?: string,
+  ): Promise<SymbolInformation[]> {
+    if (filePath) {
+      const { client } = await this.getClientForFile(filePath);
+      return (await client.workspaceSymbols(query)) ?? [];
+    }
+    if (!this.enabled) {
+      throw new Error("LSP is not enabled");
+    }
+    if (this.servers.size === 0) {
+      throw new Error(
+        "No LSP server is running yet; pass a file_path so the right server can be started",
+      );
+    }
+    const results = await Promise.all(
+      [...this.servers.values()].map(
+        async (server) => (await server.client.workspaceSymbols(query)) ?? [],
+      ),
+    );
+    return results.flat();
+  }
+
+  /**
+   * Edits renaming the symbol at a position would make (nothing is applied)
+   */
+  async renamePreview(
+    filePath: string,
+    position: Position,
+    newName: string,
+  ): Promise<WorkspaceEdit | null> {
+    const { client, uri } = await this.getClientForFile(filePath);
+    return client.rename(uri, position, newName);
+  }
+
   /**
    * Update diagnostics for a file
    */
@@ -192,6 +453,72 @@ export class LSPManager {
     // Convert file:// URI to absolute path
     const filePath = uri.replace("file://", "");
     this.diagnostics.set(filePath, diagnostics);
+
+    const waiters = this.diagnosticWaiters.get(filePath);
+    if (waiters) {
+      this.diagnosticWaiters.delete(filePath);
+      for (const notify of waiters) notify();
+    }
+  }
+
+  /**
+   * Whether some server handles files of this type
+   */
+  handlesFile(filePath: string): boolean {
+    if (!this.enabled) return false;
+    const ext = path.extname(filePath).toLowerCase();
+    return this.serverDefinitions.some((s) => s.extensions.includes(ext));
+  }
+
+  /**
+   * Whether the file is open in a server, i.e. its diagnostics are current
+   */
+  isDocumentOpen(filePath: string): boolean {
+    const absolutePath = path.isAbsolute(filePath)
+      ? filePath
+      : path.resolve(process.cwd(), filePath);
+    return this.openDocuments.has(absolutePath);
+  }
+
+  /**
+   * Open the file (or send its changes) and wait for the diagnostics the
+   * server publishes in response. Returns the current diagnostics when
+   * none arrive within timeoutMs.
+   */
+  async syncDiagnostics(
+    filePath: string,
+    changed: boolean,
+    timeoutMs: number,
+  ): Promise<Diagnostic[]> {
+    if (!this.enabled) return [];
+    const absolutePath = path.isAbsolute(filePath)
+      ? filePath
+      : path.resolve(process.cwd(), filePath);
+
+    let notify: () => void = () => {};
+    const published = new Promise<void>((resolve) => {
+      notify = resolve;
+    });
+    const waiters = this.diagnosticWaiters.get(absolutePath) ?? new Set();
+    waiters.add(notify);
+    this.diagnosticWaiters.set(absolutePath, waiters);
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await this.touchFile(absolutePath, changed);
+      await Promise.race([
+        published,
+        new Promise<void>((resolve) => {
+          timeoutId = setTimeout(resolve, timeoutMs);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timeoutId);
+      const remaining = this.diagnosticWaiters.get(absolutePath);
+      remaining?.delete(notify);
+      if (remaining?.size === 0) this.diagnosticWaiters.delete(absolutePath);
+    }
+    return this.getDiagnostics(absolutePath);
   }
 
   /**
@@ -235,7 +562,53 @@ export class LSPManager {
       ".h": "c",
       ".hpp": "cpp",
     };
-    return languageMap[ext] || "plaintext";
+    // Servers declared in settings get the bare extension (".zig" -> "zig")
+    return languageMap[ext] || ext.slice(1) || "plaintext";
+  }
+
+  /**
+   * Configured servers and the instances currently running
+   */
+  getStatus(): LSPStatus {
+    const running = [...this.servers.values()];
+    return {
+      enabled: this.enabled,
+      projectRoot: this.projectRoot,
+      servers: this.serverDefinitions.map((def) => ({
+        id: def.id,
+        source: this.serverSources[def.id] ?? "built-in",
+        command: def.command,
+        extensions: def.extensions,
+        running: running
+          .filter((server) => server.id === def.id)
+          .map((server) => ({
+            root: server.rootUri,
+            pid: server.pid,
+            startedAt: server.startedAt,
+          })),
+      })),
+      warnings: this.enabled ? this.configWarnings : [],
+    };
+  }
+
+  /**
+   * Stop running servers (all, or those with the given id) and re-read the
+   * server definitions. Servers start again on the next file they handle.
+   * Returns the ids of the servers that were stopped.
+   */
+  async restart(serverId?: string): Promise<string[]> {
+    if (!this.enabled) {
+      throw new Error("LSP is not enabled");
+    }
+    const targets = [...this.servers.entries()].filter(
+      ([, server]) => !serverId || server.id === serverId,
+    );
+    for (const [key] of targets) {
+      this.forgetServer(key);
+    }
+    await Promise.all(targets.map(([, server]) => server.client.shutdown()));
+    this.loadServerDefinitions();
+    return targets.map(([, server]) => server.id);
   }
 
   /**
@@ -0,0 +1,67 @@
+/**
+ * Go LSP Server Definition
+ * Uses gopls, the official Go language server
+ */
+
+import type { LSPServerInfo } from "../types.js";
+
+/**
+ * Go Language Server (gopls)
+ */
+export const GoServer: LSPServerInfo = {
+  id: "go",
+  extensions: [".go"],
+  command: ["gopls", "serve"],
+  rootMarkers: ["go.work", "go.mod"],
+  autoInstall: {
+    async check(): Promise<boolean> {
+      try {
+        const { execSync } = await import("node:child_process");
+        execSync("gopls version", {
+          stdio: "ignore",
+        });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async install(): Promise<void> {
+      if (process.env.LETTA_DISABLE_LSP_DOWNLOAD) {
+        throw new Error(
+          "LSP auto-download is disabled. Please install gopls manually: go install golang.org/x/tools/gopls@latest",
+        );
+      }
+
+      console.log("[LSP] Installing gopls...");
+
+      const { spawn } = await import("node:child_process");
+
+      return new Promise((resolve, reject) => {
+        const proc = spawn(
+          "go",
+          ["install", "golang.org/x/tools/gopls@latest"],
+          {
+            stdio: "inherit",
+          },
+        );
+
+        proc.on("error", (error) => {
+          reject(
+            new Error(
+              `Could not run go install (is Go installed?): ${error.message}`,
+            ),
+          );
+        });
+
+        proc.on("exit", (code) => {
+          if (code === 0) {
+            console.log("[LSP] Successfully installed gopls");
+            resolve();
+          } else {
+            reject(new Error(`go install failed with code ${code}`));
+          }
+        });
+      });
+    },
+  },
+};
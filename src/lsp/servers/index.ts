@@ -3,11 +3,18 @@
  */
 
 import type { LSPServerInfo } from "../types.js";
+import { GoServer } from "./go.js";
 import { PythonServer } from "./python.js";
+import { RustServer } from "./rust.js";
 import { TypeScriptServer } from "./typescript.js";
 
 /**
- * All available LSP servers
- * Add new servers here as they are implemented
+ * Built-in LSP servers
+ * Settings can add more servers or override these by id (see ../config.ts)
  */
-export const SERVERS: LSPServerInfo[] = [TypeScriptServer, PythonServer];
+export const SERVERS: LSPServerInfo[] = [
+  TypeScriptServer,
+  PythonServer,
+  GoServer,
+  RustServer,
+];
@@ -0,0 +1,63 @@
+/**
+ * Rust LSP Server Definition
+ * Uses rust-analyzer
+ */
+
+import type { LSPServerInfo } from "../types.js";
+
+/**
+ * Rust Language Server (rust-analyzer)
+ */
+export const RustServer: LSPServerInfo = {
+  id: "rust",
+  extensions: [".rs"],
+  command: ["rust-analyzer"],
+  rootMarkers: ["Cargo.toml"],
+  autoInstall: {
+    async check(): Promise<boolean> {
+      try {
+        const { execSync } = await import("node:child_process");
+        execSync("rust-analyzer --version", {
+          stdio: "ignore",
+        });
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async install(): Promise<void> {
+      if (process.env.LETTA_DISABLE_LSP_DOWNLOAD) {
+        throw new Error(
+          "LSP auto-download is disabled. Please install rust-analyzer manually: rustup component add rust-analyzer",
+        );
+      }
+
+      console.log("[LSP] Installing rust-analyzer...");
+
+      const { spawn } = await import("node:child_process");
+
+      return new Promise((resolve, reject) => {
+        const proc = spawn("rustup", ["component", "add", "rust-analyzer"], {
+          stdio: "inherit",
+        });
+
+        proc.on("error", (error) => {
+          reject(
+            new Error(
+              `Could not run rustup (is Rust installed?): ${error.message}`,
+            ),
+          );
+        });
+
+        proc.on("exit", (code) => {
+          if (code === 0) {
+            console.log("[LSP] Successfully installed rust-analyzer");
+            resolve();
+          } else {
+            reject(new Error(`rustup failed with code ${code}`));
+          }
+        });
+      });
+    },
+  },
+};
@@ -53,6 +53,104 @@ export interface Location {
   range: Range;
 }
 
+/**
+ * Location link (returned by definition requests on servers that support it)
+ */
+export interface LocationLink {
+  originSelectionRange?: Range;
+  targetUri: string;
+  targetRange: Range;
+  targetSelectionRange: Range;
+}
+
+/**
+ * Hover contents: markup, a plain/marked string, or a list of them
+ */
+export interface MarkupContent {
+  kind: "plaintext" | "markdown";
+  value: string;
+}
+
+export type MarkedString = string | { language: string; value: string };
+
+export interface Hover {
+  contents: MarkupContent | MarkedString | MarkedString[];
+  range?: Range;
+}
+
+/**
+ * Symbol kinds (LSP SymbolKind, 1-based)
+ */
+export enum SymbolKind {
+  File = 1,
+  Module = 2,
+  Namespace = 3,
+  Package = 4,
+  Class = 5,
+  Method = 6,
+  Property = 7,
+  Field = 8,
+  Constructor = 9,
+  Enum = 10,
+  Interface = 11,
+  Function = 12,
+  Variable = 13,
+  Constant = 14,
+  String = 15,
+  Number = 16,
+  Boolean = 17,
+  Array = 18,
+  Object = 19,
+  Key = 20,
+  Null = 21,
+  EnumMember = 22,
+  Struct = 23,
+  Event = 24,
+  Operator = 25,
+  TypeParameter = 26,
+}
+
+/**
+ * Hierarchical symbol returned by textDocument/documentSymbol
+ */
+export interface DocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: SymbolKind;
+  range: Range;
+  selectionRange: Range;
+  children?: DocumentSymbol[];
+}
+
+/**
+ * Flat symbol returned by workspace/symbol (and older documentSymbol servers)
+ */
+export interface SymbolInformation {
+  name: string;
+  kind: SymbolKind;
+  location: Location;
+  containerName?: string;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+/**
+ * Edits a rename would make, keyed by document URI
+ */
+export interface WorkspaceEdit {
+  changes?: Record<string, TextEdit[]>;
+  documentChanges?: Array<
+    | {
+        textDocument: { uri: string; version?: number | null };
+        edits: TextEdit[];
+      }
+    | { kind: string }
+  >;
+}
+
 /**
  * LSP Server process handle
  */
@@ -70,12 +168,57 @@ export interface LSPServerInfo {
   command: string[];
   env?: Record<string, string>;
   initialization?: Record<string, unknown>;
+  /**
+   * Files or directories that mark a workspace root (e.g. "go.mod").
+   * The nearest ancestor of a file containing one becomes the server root;
+   * without markers the project root is used.
+   */
+  rootMarkers?: string[];
   autoInstall?: {
     check: () => Promise<boolean>;
     install: () => Promise<void>;
   };
 }
 
+/**
+ * A language server declared in settings ("lsp.servers"). Entries with the
+ * id of a built-in server replace it; `disabled: true` removes it.
+ */
+export interface LSPServerSettings {
+  id: string;
+  command?: string[];
+  extensions?: string[];
+  env?: Record<string, string>;
+  initialization?: Record<string, unknown>;
+  rootMarkers?: string[];
+  disabled?: boolean;
+}
+
+export type DiagnosticSeverityName =
+  | "error"
+  | "warning"
+  | "information"
+  | "hint";
+
+/**
+ * Reporting of diagnostics introduced by file edits
+ */
+export interface LSPPostEditDiagnosticsSettings {
+  /** Severities to report (default ["error"]; [] turns reporting off) */
+  severities?: DiagnosticSeverityName[];
+  /** How long to wait for the server after an edit (default 3000ms) */
+  timeoutMs?: number;
+}
+
+/**
+ * The "lsp" block of user, project and local project settings
+ */
+export interface LSPSettings {
+  enabled?: boolean;
+  servers?: LSPServerSettings[];
+  postEditDiagnostics?: LSPPostEditDiagnosticsSettings;
+}
+
 /**
  * Text document for LSP
  */
@@ -136,6 +279,14 @@ export interface ClientCapabilities {
       tagSupport?: { valueSet: number[] };
       versionSupport?: boolean;
     };
+    definition?: { linkSupport?: boolean };
+    references?: Record<string, never>;
+    hover?: { contentFormat?: Array<"plaintext" | "markdown"> };
+    documentSymbol?: { hierarchicalDocumentSymbolSupport?: boolean };
+    rename?: { prepareSupport?: boolean };
+  };
+  workspace?: {
+    symbol?: Record<string, never>;
   };
 }
 
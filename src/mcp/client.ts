@@ -0,0 +1,268 @@
+/**
+ * MCP Client - Handles JSON-RPC communication with a local MCP server over
+ * STDIO (one JSON message per line)
+ */
+
+import { type ChildProcess, spawn } from "node:child_process";
+import { EventEmitter } from "node:events";
+import { getVersion } from "../version.js";
+import type { LocalMcpServerConfig } from "./config.js";
+import type { McpJsonRpcMessage, McpTool, McpToolResult } from "./types.js";
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+/** Timeout for the initialize handshake and tools/list */
+const CONNECT_TIMEOUT_MS = 30_000;
+
+/** How long to wait after closing stdin before killing the server */
+const SHUTDOWN_TIMEOUT_MS = 2000;
+
+/** Lines of stderr kept for /mcp local */
+const MAX_STDERR_LINES = 20;
+
+/**
+ * MCP Client that spawns a stdio server and calls its tools
+ */
+export class McpStdioClient extends EventEmitter {
+  readonly config: LocalMcpServerConfig;
+  private process: ChildProcess | null = null;
+  private requestId = 0;
+  private pendingRequests = new Map<
+    number | string,
+    {
+      resolve: (result: unknown) => void;
+      reject: (error: Error) => void;
+    }
+  >();
+  private buffer = "";
+  private stderrLines: string[] = [];
+  private exited = false;
+
+  constructor(config: LocalMcpServerConfig) {
+    super();
+    this.config = config;
+  }
+
+  get pid(): number | undefined {
+    return this.process?.pid;
+  }
+
+  /** Recent stderr output from the server */
+  get stderrTail(): string[] {
+    return [...this.stderrLines];
+  }
+
+  /**
+   * Spawn the server and run the initialize handshake
+   */
+  async connect(): Promise<void> {
+    const proc = spawn(this.config.command, this.config.args, {
+      cwd: this.config.cwd,
+      env: { ...process.env, ...this.config.env },
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.process = proc;
+
+    proc.stdout?.on("data", (chunk: Buffer) => {
+      this.buffer += chunk.toString();
+      this.processBuffer();
+    });
+    proc.stderr?.on("data", (chunk: Buffer) => {
+      const lines = chunk.toString().split("\n").filter(Boolean);
+      this.stderrLines.push(...lines);
+      this.stderrLines.splice(0, this.stderrLines.length - MAX_STDERR_LINES);
+    });
+    proc.stdin?.on("error", (error) => {
+      this.emit("error", error);
+    });
+
+    // A failed spawn (e.g. command not found) rejects the pending handshake
+    proc.once("error", (error) => {
+      this.handleExit(null, error);
+    });
+    proc.once("exit", (code) => {
+      this.handleExit(code);
+    });
+
+    await this.sendRequest(
+      "initialize",
+      {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "letta-code", version: getVersion() },
+      },
+      CONNECT_TIMEOUT_MS,
+    );
+    this.sendNotification("notifications/initialized");
+  }
+
+  /**
+   * List every tool the server offers, following pagination cursors
+   */
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.sendRequest<{
+        tools?: McpTool[];
+        nextCursor?: string;
+      }>("tools/list", cursor ? { cursor } : {}, CONNECT_TIMEOUT_MS);
+      tools.push(...(result.tools ?? []));
+      cursor = result.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  /**
+   * Call a tool by its name on the server
+   */
+  callTool(
+    name: string,
+    args: Record<string, unknown>,
+  ): Promise<McpToolResult> {
+    return this.sendRequest<McpToolResult>(
+      "tools/call",
+      { name, arguments: args },
+      this.config.timeoutMs,
+    );
+  }
+
+  /**
+   * Close stdin so the server can exit, then kill it if it lingers
+   */
+  async close(): Promise<void> {
+    const proc = this.process;
+    if (!proc || this.exited) return;
+    proc.stdin?.end();
+    await new Promise<void>((resolve) => {
+      const timeoutId = setTimeout(() => {
+        proc.kill();
+        resolve();
+      }, SHUTDOWN_TIMEOUT_MS);
+      proc.once("exit", () => {
+        clearTimeout(timeoutId);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Kill the server immediately (used on process exit)
+   */
+  kill(): void {
+    if (!this.exited) this.process?.kill();
+  }
+
+  private handleExit(code: number | null, error?: Error): void {
+    if (this.exited) return;
+    this.exited = true;
+    const reason =
+      error?.message ??
+      `MCP server ${this.config.name} exited with code ${code}`;
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(new Error(reason));
+    }
+    this.pendingRequests.clear();
+    this.emit("exit", code, error);
+  }
+
+  private processBuffer(): void {
+    let newlineIndex = this.buffer.indexOf("\n");
+    while (newlineIndex !== -1) {
+      const line = this.buffer.slice(0, newlineIndex).trim();
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      newlineIndex = this.buffer.indexOf("\n");
+      if (!line) continue;
+
+      let message: McpJsonRpcMessage;
+      try {
+        message = JSON.parse(line) as McpJsonRpcMessage;
+      } catch {
+        // Servers sometimes log to stdout; ignore anything that isn't JSON
+        continue;
+      }
+      this.handleMessage(message);
+    }
+  }
+
+  private handleMessage(message: McpJsonRpcMessage): void {
+    // Requests from the server: answer pings, decline everything else
+    if (message.method && message.id !== undefined) {
+      if (message.method === "ping") {
+        this.sendMessage({ jsonrpc: "2.0", id: message.id, result: {} });
+      } else {
+        this.sendMessage({
+          jsonrpc: "2.0",
+          id: message.id,
+          error: {
+            code: -32601,
+            message: `Method not found: ${message.method}`,
+          },
+        });
+      }
+      return;
+    }
+
+    // Responses to our requests
+    if (message.id !== undefined) {
+      const pending = this.pendingRequests.get(message.id);
+      if (pending) {
+        this.pendingRequests.delete(message.id);
+        if (message.error) {
+          pending.reject(new Error(`MCP Error: ${message.error.message}`));
+        } else {
+          pending.resolve(message.result);
+        }
+      }
+      return;
+    }
+
+    // Notifications (e.g. notifications/tools/list_changed)
+    if (message.method) {
+      this.emit("notification", message.method, message.params);
+    }
+  }
+
+  private sendRequest<T>(
+    method: string,
+    params: unknown,
+    timeoutMs: number,
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (this.exited) {
+        reject(new Error(`MCP server ${this.config.name} is not running`));
+        return;
+      }
+      const id = ++this.requestId;
+
+      const timeoutId = setTimeout(() => {
+        if (this.pendingRequests.delete(id)) {
+          reject(
+            new Error(`MCP request ${method} timed out after ${timeoutMs}ms`),
+          );
+        }
+      }, timeoutMs);
+
+      this.pendingRequests.set(id, {
+        resolve: (result) => {
+          clearTimeout(timeoutId);
+          resolve(result as T);
+        },
+        reject: (error) => {
+          clearTimeout(timeoutId);
+          reject(error);
+        },
+      });
+
+      this.sendMessage({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  private sendNotification(method: string, params?: unknown): void {
+    this.sendMessage({ jsonrpc: "2.0", method, params });
+  }
+
+  private sendMessage(message: McpJsonRpcMessage): void {
+    this.process?.stdin?.write(`${JSON.stringify(message)}\n`);
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Local MCP configuration from settings.
+ *
+ * The "mcpServers" block may appear in project (.letta/settings.json) and
+ * local project (.letta/settings.local.json) settings, keyed by server name.
+ * A local entry replaces the project entry with the same name.
+ */
+
+import { isAbsolute, join } from "node:path";
+import { settingsManager } from "../settings-manager.js";
+import type { LocalMcpServerSettings } from "./types.js";
+
+export type LocalMcpSettingsScope = "project" | "local";
+
+export interface LocalMcpServerConfig {
+  name: string;
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  cwd: string;
+  timeoutMs: number;
+  source: LocalMcpSettingsScope;
+}
+
+export interface ResolvedLocalMcpServers {
+  servers: LocalMcpServerConfig[];
+  /** Invalid settings entries that were skipped */
+  warnings: string[];
+}
+
+export const DEFAULT_MCP_TOOL_TIMEOUT_MS = 60_000;
+
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Load the project-level settings files the MCP config reads from
+ */
+export async function loadLocalMcpSettings(
+  workingDirectory: string,
+): Promise<void> {
+  await settingsManager.loadProjectSettings(workingDirectory);
+  await settingsManager.loadLocalProjectSettings(workingDirectory);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string")
+  );
+}
+
+/**
+ * Validate one settings entry. Returns an error message when invalid.
+ */
+function validateServerSettings(
+  name: string,
+  entry: LocalMcpServerSettings,
+): string | null {
+  if (!SERVER_NAME_PATTERN.test(name)) {
+    return "names may only contain letters, digits, '_' and '-'";
+  }
+  if (!entry || typeof entry !== "object") {
+    return "entry must be an object";
+  }
+  if (entry.disabled) return null;
+  if (typeof entry.command !== "string" || entry.command.trim() === "") {
+    return "missing command";
+  }
+  if (entry.args !== undefined && !isStringArray(entry.args)) {
+    return "args must be an array of strings";
+  }
+  if (entry.env !== undefined && !isStringRecord(entry.env)) {
+    return "env must be an object of strings";
+  }
+  if (entry.cwd !== undefined && typeof entry.cwd !== "string") {
+    return "cwd must be a string";
+  }
+  if (
+    entry.timeoutMs !== undefined &&
+    (typeof entry.timeoutMs !== "number" || entry.timeoutMs <= 0)
+  ) {
+    return "timeoutMs must be a positive number";
+  }
+  return null;
+}
+
+/**
+ * Resolve the servers to start from project and local settings in turn.
+ * A local entry replaces the project entry of the same name; a disabled
+ * entry removes it.
+ */
+export function resolveLocalMcpServers(
+  workingDirectory: string = process.cwd(),
+): ResolvedLocalMcpServers {
+  const servers = new Map<string, LocalMcpServerConfig>();
+  const warnings: string[] = [];
+
+  for (const { scope, value: mcpServers } of settingsManager.getSettingsLayers(
+    "mcpServers",
+    workingDirectory,
+    ["project", "local"],
+  )) {
+    if (typeof mcpServers !== "object" || Array.isArray(mcpServers)) {
+      warnings.push(`${scope} settings: mcpServers must be an object`);
+      continue;
+    }
+    for (const [name, entry] of Object.entries(mcpServers)) {
+      const error = validateServerSettings(name, entry);
+      if (error) {
+        warnings.push(
+          `${scope} settings: MCP server "${name}" skipped: ${error}`,
+        );
+        continue;
+      }
+      if (entry.disabled) {
+        servers.delete(name);
+        continue;
+      }
+      const cwd = entry.cwd
+        ? isAbsolute(entry.cwd)
+          ? entry.cwd
+          : join(workingDirectory, entry.cwd)
+        : workingDirectory;
+      servers.set(name, {
+        name,
+        command: entry.command,
+        args: entry.args ?? [],
+        env: entry.env ?? {},
+        cwd,
+        timeoutMs: entry.timeoutMs ?? DEFAULT_MCP_TOOL_TIMEOUT_MS,
+        source: scope,
+      });
+    }
+  }
+
+  return { servers: [...servers.values()], warnings };
+}
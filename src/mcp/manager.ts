@@ -0,0 +1,296 @@
+/**
+ * Local MCP Manager - Spawns the stdio MCP servers from project settings and
+ * exposes their tools as client-side external tools.
+ *
+ * Tools are registered as `mcp__<server>__<tool>`. Calls to them go through
+ * the same approval flow and permission checker as built-in tools (unknown
+ * tools ask by default), then run against the local server process.
+ */
+
+import {
+  type ExternalToolDefinition,
+  type ExternalToolExecutor,
+  registerExternalTools,
+  unregisterExternalTools,
+} from "../tools/manager.js";
+import { debugLog, debugWarn } from "../utils/debug.js";
+import { getErrorMessage } from "../utils/error.js";
+import { McpStdioClient } from "./client.js";
+import {
+  type LocalMcpServerConfig,
+  type LocalMcpSettingsScope,
+  loadLocalMcpSettings,
+  resolveLocalMcpServers,
+} from "./config.js";
+import type { McpTool } from "./types.js";
+
+export type LocalMcpServerState = "starting" | "connected" | "failed";
+
+/** Maximum tool name length accepted by model providers */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+interface LocalMcpServer {
+  config: LocalMcpServerConfig;
+  client: McpStdioClient | null;
+  state: LocalMcpServerState;
+  error?: string;
+  startedAt?: number;
+  /** Registered tool name -> the server's own tool name */
+  tools: Map<string, string>;
+}
+
+/**
+ * Snapshot of configured servers for /mcp local
+ */
+export interface LocalMcpStatus {
+  projectRoot: string | null;
+  servers: {
+    name: string;
+    source: LocalMcpSettingsScope;
+    command: string[];
+    state: LocalMcpServerState;
+    error?: string;
+    pid?: number;
+    startedAt?: number;
+    tools: string[];
+    stderr: string[];
+  }[];
+  warnings: string[];
+}
+
+/**
+ * Name a server's tool is registered under, e.g. "mcp__github__create_issue".
+ * Characters providers reject are replaced with "_".
+ */
+export function getLocalMcpToolName(
+  serverName: string,
+  toolName: string,
+): string {
+  return `mcp__${serverName}__${toolName}`
+    .replace(/[^a-zA-Z0-9_-]/g, "_")
+    .slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Global local MCP manager singleton
+ */
+export class LocalMcpManager {
+  private static instance: LocalMcpManager | null = null;
+  private servers = new Map<string, LocalMcpServer>();
+  private configWarnings: string[] = [];
+  private projectRoot: string | null = null;
+  private exitHandlerInstalled = false;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): LocalMcpManager {
+    if (!LocalMcpManager.instance) {
+      LocalMcpManager.instance = new LocalMcpManager();
+    }
+    return LocalMcpManager.instance;
+  }
+
+  /**
+   * Start the servers configured for a project and register their tools.
+   * Servers that fail to start are reported by getStatus(); never throws.
+   */
+  async initialize(projectRoot: string): Promise<void> {
+    this.projectRoot = projectRoot;
+    try {
+      await loadLocalMcpSettings(projectRoot);
+    } catch {
+      // Unreadable settings - nothing to start
+    }
+
+    const { servers, warnings } = resolveLocalMcpServers(projectRoot);
+    this.configWarnings = warnings;
+    if (servers.length === 0) return;
+
+    this.installExitHandler();
+    await Promise.all(servers.map((config) => this.startServer(config)));
+  }
+
+  /**
+   * Spawn one server, list its tools and register them
+   */
+  private async startServer(config: LocalMcpServerConfig): Promise<void> {
+    const server: LocalMcpServer = {
+      config,
+      client: null,
+      state: "starting",
+      tools: new Map(),
+    };
+    this.servers.set(config.name, server);
+
+    const client = new McpStdioClient(config);
+    server.client = client;
+    client.on("error", (error: Error) => {
+      debugWarn("mcp", `${config.name} error: ${error.message}`);
+    });
+    client.on("exit", (code: number | null, error?: Error) => {
+      // A restarted server may already have replaced this one
+      if (this.servers.get(config.name) !== server) return;
+      this.unregisterTools(server);
+      server.state = "failed";
+      server.error = error?.message ?? `exited with code ${code}`;
+      debugWarn("mcp", `${config.name} stopped: ${server.error}`);
+    });
+    client.on("notification", (method: string) => {
+      if (method === "notifications/tools/list_changed") {
+        void this.refreshTools(server);
+      }
+    });
+
+    try {
+      await client.connect();
+      const tools = await client.listTools();
+      if (this.servers.get(config.name) !== server) return;
+      this.registerTools(server, tools);
+      server.state = "connected";
+      server.startedAt = Date.now();
+      debugLog(
+        "mcp",
+        `Started ${config.name} with ${tools.length} tool${tools.length === 1 ? "" : "s"}`,
+      );
+    } catch (error) {
+      server.state = "failed";
+      server.error = getErrorMessage(error);
+      client.kill();
+      debugWarn("mcp", `Failed to start ${config.name}: ${server.error}`);
+    }
+  }
+
+  private async refreshTools(server: LocalMcpServer): Promise<void> {
+    if (!server.client || server.state !== "connected") return;
+    try {
+      const tools = await server.client.listTools();
+      this.unregisterTools(server);
+      this.registerTools(server, tools);
+    } catch (error) {
+      debugWarn(
+        "mcp",
+        `Failed to refresh ${server.config.name} tools: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  private registerTools(server: LocalMcpServer, tools: McpTool[]): void {
+    const definitions: ExternalToolDefinition[] = [];
+    for (const tool of tools) {
+      const name = getLocalMcpToolName(server.config.name, tool.name);
+      server.tools.set(name, tool.name);
+      definitions.push({
+        name,
+        label: `${server.config.name}: ${tool.name}`,
+        description: tool.description ?? "",
+        parameters: tool.inputSchema ?? { type: "object", properties: {} },
+        executor: this.createExecutor(server),
+      });
+    }
+    registerExternalTools(definitions);
+  }
+
+  private unregisterTools(server: LocalMcpServer): void {
+    unregisterExternalTools([...server.tools.keys()]);
+    server.tools.clear();
+  }
+
+  private createExecutor(server: LocalMcpServer): ExternalToolExecutor {
+    return async (_toolCallId, toolName, input) => {
+      const mcpToolName = server.tools.get(toolName);
+      if (!server.client || server.state !== "connected" || !mcpToolName) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `MCP server ${server.config.name} is not running${server.error ? ` (${server.error})` : ""}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      const result = await server.client.callTool(mcpToolName, input);
+      return {
+        content: result.content ?? [],
+        isError: result.isError === true,
+      };
+    };
+  }
+
+  /**
+   * Configured servers, their health and tools
+   */
+  getStatus(): LocalMcpStatus {
+    return {
+      projectRoot: this.projectRoot,
+      servers: [...this.servers.values()].map((server) => ({
+        name: server.config.name,
+        source: server.config.source,
+        command: [server.config.command, ...server.config.args],
+        state: server.state,
+        error: server.error,
+        pid: server.state === "connected" ? server.client?.pid : undefined,
+        startedAt: server.startedAt,
+        tools: [...server.tools.values()],
+        stderr: server.client?.stderrTail ?? [],
+      })),
+      warnings: this.configWarnings,
+    };
+  }
+
+  /**
+   * Stop servers (all, or the one with the given name), re-read settings and
+   * start them again. Returns the names of the servers that were restarted.
+   */
+  async restart(serverName?: string): Promise<string[]> {
+    const projectRoot = this.projectRoot ?? process.cwd();
+    const targets = [...this.servers.values()].filter(
+      (server) => !serverName || server.config.name === serverName,
+    );
+    await Promise.all(targets.map((server) => this.stopServer(server)));
+
+    const { servers, warnings } = resolveLocalMcpServers(projectRoot);
+    this.configWarnings = warnings;
+    const toStart = servers.filter(
+      (config) =>
+        (!serverName || config.name === serverName) &&
+        !this.servers.has(config.name),
+    );
+    if (toStart.length > 0) this.installExitHandler();
+    await Promise.all(toStart.map((config) => this.startServer(config)));
+    return toStart.map((config) => config.name);
+  }
+
+  private async stopServer(server: LocalMcpServer): Promise<void> {
+    this.servers.delete(server.config.name);
+    this.unregisterTools(server);
+    await server.client?.close();
+  }
+
+  /**
+   * Stop all servers
+   */
+  async shutdown(): Promise<void> {
+    await Promise.all(
+      [...this.servers.values()].map((server) => this.stopServer(server)),
+    );
+  }
+
+  /**
+   * Kill server processes when the CLI exits without shutting down
+   */
+  private installExitHandler(): void {
+    if (this.exitHandlerInstalled) return;
+    this.exitHandlerInstalled = true;
+    process.on("exit", () => {
+      for (const server of this.servers.values()) {
+        server.client?.kill();
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const localMcpManager = LocalMcpManager.getInstance();
@@ -0,0 +1,61 @@
+/**
+ * Local MCP types - settings and the subset of the Model Context Protocol
+ * used to list and call tools over stdio
+ */
+
+/**
+ * One entry of the "mcpServers" block in project settings
+ */
+export interface LocalMcpServerSettings {
+  /** Executable to spawn */
+  command: string;
+  args?: string[];
+  /** Extra environment variables for the server process */
+  env?: Record<string, string>;
+  /** Working directory, relative to the project (defaults to the project) */
+  cwd?: string;
+  /** Skip this server without removing its definition */
+  disabled?: boolean;
+  /** Timeout for each tool call (defaults to 60s) */
+  timeoutMs?: number;
+}
+
+/**
+ * The "mcpServers" block of project (.letta/settings.json) and local project
+ * (.letta/settings.local.json) settings, keyed by server name
+ */
+export type LocalMcpSettings = Record<string, LocalMcpServerSettings>;
+
+/**
+ * A tool advertised by an MCP server (tools/list)
+ */
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+/**
+ * Content returned by an MCP tool call (tools/call)
+ */
+export interface McpToolResult {
+  content: Array<{
+    type: string;
+    text?: string;
+    data?: string;
+    mimeType?: string;
+  }>;
+  isError?: boolean;
+}
+
+/**
+ * JSON-RPC message exchanged with an MCP server (newline-delimited on stdio)
+ */
+export interface McpJsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
@@ -6,6 +6,7 @@ import { dirname, relative, resolve, win32 } from "node:path";
 import { canonicalToolName, isFileToolName } from "./canonical";
 import { isReadOnlyShellCommand, SAFE_GH_COMMANDS } from "./readOnlyShell";
 import { unwrapShellLauncherCommand } from "./shell-command-normalization";
+import type { PermissionRiskLevel } from "./types";
 
 export interface ApprovalContext {
   // What rule should be saved if user clicks "approve always"
@@ -157,6 +158,90 @@ export function analyzeApprovalContext(
   }
 }
 
+const READ_ONLY_TOOLS = new Set(["Read", "Glob", "Grep", "ListDir", "LSP"]);
+
+/** Files that hold credentials: reading them is never "read-only" risk */
+const SECRET_PATH_PATTERN =
+  /(^|\/)(\.env(\.[^/]*)?|\.netrc|\.npmrc|\.pgpass|id_(rsa|dsa|ecdsa|ed25519)[^/]*|[^/]+\.(pem|key|p12|pfx))$|(^|\/)\.(ssh|aws|gnupg)(\/|$)/i;
+
+/**
+ * Paths a read-only tool call reads: its path arguments (the working
+ * directory when it has none) and, for Glob, a pattern that is absolute or
+ * climbs out with "..".
+ */
+function getReadTargets(
+  canonicalTool: string,
+  toolArgs: ToolArgs,
+  workingDirectory: string,
+): string[] {
+  const targets = ["file_path", "path", "notebook_path"]
+    .map((key) => toolArgs[key])
+    .filter((value): value is string => typeof value === "string" && !!value);
+  const pattern = toolArgs.pattern;
+  if (
+    canonicalTool === "Glob" &&
+    typeof pattern === "string" &&
+    (pattern.startsWith("/") ||
+      pattern.startsWith("~") ||
+      isWindowsPath(pattern) ||
+      /(^|[\\/])\.\.([\\/]|$)/.test(pattern))
+  ) {
+    targets.push(pattern);
+  }
+  return targets.length > 0 ? targets : [workingDirectory];
+}
+
+/**
+ * Assess the risk of a tool call for structured permission rules.
+ * Shell commands are "read-only" only when the read-only analyzer accepts
+ * them and every path they touch is under one of allowedPathRoots; the same
+ * holds for read-only tools, which must also stay clear of secret files.
+ */
+export function assessPermissionRisk(
+  toolName: string,
+  toolArgs: ToolArgs,
+  workingDirectory: string,
+  allowedPathRoots: string[] = [workingDirectory],
+): PermissionRiskLevel {
+  const canonicalTool = canonicalToolName(toolName);
+
+  if (canonicalTool === "Bash") {
+    const command = toolArgs.command;
+    if (
+      (typeof command === "string" || Array.isArray(command)) &&
+      isReadOnlyShellCommand(command, {
+        allowedPathRoots,
+      })
+    ) {
+      return "read-only";
+    }
+  } else if (READ_ONLY_TOOLS.has(canonicalTool)) {
+    const targets = getReadTargets(canonicalTool, toolArgs, workingDirectory);
+    if (
+      targets.some((target) =>
+        SECRET_PATH_PATTERN.test(normalizeOsPath(target)),
+      )
+    ) {
+      return "moderate";
+    }
+    const withinRoots = targets.every((target) => {
+      const absolute = resolvePathForContext(
+        workingDirectory,
+        target.replace(/^~(?=$|[\\/])/, homedir()),
+      );
+      return allowedPathRoots.some((root) =>
+        isPathWithinDirectory(absolute, root),
+      );
+    });
+    if (withinRoots) {
+      return "read-only";
+    }
+  }
+
+  return analyzeApprovalContext(toolName, toolArgs, workingDirectory)
+    .safetyLevel;
+}
+
 /**
  * Analyze Read tool approval
  */
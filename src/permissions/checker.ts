@@ -11,16 +11,24 @@ import {
   type MatcherOptions,
   matchesBashPattern,
   matchesFilePattern,
+  matchesStructuredRule,
   matchesToolPattern,
+  matchesWebFetchPattern,
 } from "./matcher";
-import { permissionMode } from "./mode";
+import {
+  isBuiltinPermissionMode,
+  permissionMode,
+  resolveBasePermissionMode,
+} from "./mode";
 import { isMemoryDirCommand, isReadOnlyShellCommand } from "./readOnlyShell";
+import { formatPermissionRule } from "./rule-normalization";
 import { sessionPermissions } from "./session";
 import type {
   PermissionCheckResult,
   PermissionCheckTrace,
   PermissionDecision,
   PermissionEngine,
+  PermissionRule,
   PermissionRules,
   PermissionTraceEvent,
 } from "./types";
@@ -117,6 +125,8 @@ function shouldAttachTrace(result: PermissionCheckResult): boolean {
  * 1. Check deny rules from settings (first match wins) → DENY
  * 2. Check CLI disallowedTools (--disallowedTools flag) → DENY
  * 3. Check permission mode (--permission-mode flag) → ALLOW or DENY
+ *    (custom modes check their own deny/allow/ask rules, then apply
+ *    their base mode)
  * 4. Check CLI allowedTools (--allowedTools flag) → ALLOW
  * 5. For Read/Glob/Grep within working directory → ALLOW
  * 6. Check session allow rules (first match wins) → ALLOW
@@ -213,6 +223,49 @@ export function checkPermission(
   return result;
 }
 
+/**
+ * Result and trace of one engine's evaluation
+ */
+export interface PermissionEngineEvaluation {
+  result: PermissionCheckResult;
+  trace: PermissionCheckTrace;
+}
+
+/**
+ * Evaluate a tool call with the active engine and the other engine as a
+ * shadow, always returning both full traces (independent of the
+ * LETTA_PERMISSION_TRACE and LETTA_PERMISSIONS_DUAL_EVAL flags).
+ * Used by `letta permissions explain`.
+ */
+export function tracePermissionCheck(
+  toolName: string,
+  toolArgs: ToolArgs,
+  permissions: PermissionRules,
+  workingDirectory: string = process.cwd(),
+  modeState?: PermissionModeState,
+): { primary: PermissionEngineEvaluation; shadow: PermissionEngineEvaluation } {
+  const engine: PermissionEngine = isPermissionsV2Enabled() ? "v2" : "v1";
+  const shadowEngine: PermissionEngine = engine === "v2" ? "v1" : "v2";
+  return {
+    primary: checkPermissionForEngine(
+      engine,
+      toolName,
+      toolArgs,
+      permissions,
+      workingDirectory,
+      modeState,
+    ),
+    shadow: checkPermissionForEngine(
+      shadowEngine,
+      toolName,
+      toolArgs,
+      permissions,
+      workingDirectory,
+      modeState,
+    ),
+  };
+}
+
 function createTrace(
   engine: PermissionEngine,
   toolName: string,
@@ -259,11 +312,15 @@ function checkPermissionForEngine(
     engine === "v2" ? WORKING_DIRECTORY_TOOLS_V2 : WORKING_DIRECTORY_TOOLS_V1;
 
   if (permissions.deny) {
-    for (const pattern of permissions.deny) {
-      const matched = matchesPattern(
+    for (const rule of permissions.deny) {
+      const pattern = formatPermissionRule(rule);
+      const matched = matchesRule(
+        rule,
+        "deny",
         toolName,
+        toolArgs,
         query,
-        pattern,
+        permissions,
         workingDirectory,
         engine,
       );
@@ -308,11 +365,49 @@ function checkPermissionForEngine(
   const effectiveMode = modeState?.mode ?? permissionMode.getMode();
   const effectivePlanFilePath =
     modeState?.planFilePath ?? permissionMode.getPlanFilePath();
+  // Custom modes (settings permissions.modes) check their own rules first,
+  // then fall back to the behavior of their base mode.
+  const customModes = {
+    ...permissionMode.getCustomModes(),
+    ...permissions.modes,
+  };
+  const customMode = isBuiltinPermissionMode(effectiveMode)
+    ? undefined
+    : customModes[effectiveMode];
+  if (customMode) {
+    for (const decision of ["deny", "allow", "ask"] as const) {
+      for (const rule of customMode[decision] ?? []) {
+        const pattern = formatPermissionRule(rule);
+        const matched = matchesRule(
+          rule,
+          decision,
+          toolName,
+          toolArgs,
+          query,
+          permissions,
+          workingDirectory,
+          engine,
+        );
+        traceEvent(trace, `mode-${decision}-rule`, undefined, pattern, matched);
+        if (matched) {
+          return {
+            result: {
+              decision,
+              matchedRule: `${pattern} (${effectiveMode} mode)`,
+              reason: `Matched ${decision} rule of permission mode: ${effectiveMode}`,
+            },
+            trace,
+          };
+        }
+      }
+    }
+  }
+
   const modeOverride = permissionMode.checkModeOverride(
     toolName,
     toolArgs,
     workingDirectory,
-    effectiveMode,
+    resolveBasePermissionMode(effectiveMode, customModes),
     effectivePlanFilePath,
   );
   if (modeOverride) {
@@ -438,11 +533,15 @@ function checkPermissionForEngine(
   }
 
   if (sessionRules.allow) {
-    for (const pattern of sessionRules.allow) {
-      const matched = matchesPattern(
+    for (const rule of sessionRules.allow) {
+      const pattern = formatPermissionRule(rule);
+      const matched = matchesRule(
+        rule,
+        "allow",
         toolName,
+        toolArgs,
         query,
-        pattern,
+        permissions,
         workingDirectory,
         engine,
       );
@@ -461,11 +560,15 @@ function checkPermissionForEngine(
   }
 
   if (permissions.allow) {
-    for (const pattern of permissions.allow) {
-      const matched = matchesPattern(
+    for (const rule of permissions.allow) {
+      const pattern = formatPermissionRule(rule);
+      const matched = matchesRule(
+        rule,
+        "allow",
         toolName,
+        toolArgs,
         query,
-        pattern,
+        permissions,
         workingDirectory,
         engine,
       );
@@ -484,11 +587,15 @@ function checkPermissionForEngine(
   }
 
   if (permissions.ask) {
-    for (const pattern of permissions.ask) {
-      const matched = matchesPattern(
+    for (const rule of permissions.ask) {
+      const pattern = formatPermissionRule(rule);
+      const matched = matchesRule(
+        rule,
+        "ask",
         toolName,
+        toolArgs,
         query,
-        pattern,
+        permissions,
         workingDirectory,
         engine,
       );
@@ -653,6 +760,12 @@ function buildPermissionQuery(
       return `Bash(${command})`;
     }
 
+    case "WebFetch": {
+      // WebFetch: "WebFetch(url)"
+      const url = typeof toolArgs.url === "string" ? toolArgs.url : "";
+      return url ? `WebFetch(${url})` : toolName;
+    }
+
     default:
       // Other tools: just the tool name
       return toolName;
@@ -667,6 +780,24 @@ function extractShellCommand(toolArgs: ToolArgs): string | string[] | null {
   return null;
 }
 
+function getMatcherOptions(engine: PermissionEngine): MatcherOptions {
+  return engine === "v2"
+    ? { canonicalizeToolNames: true, allowBareToolFallback: true }
+    : { canonicalizeToolNames: false, allowBareToolFallback: false };
+}
+
+function isShellToolForEngine(
+  toolName: string,
+  engine: PermissionEngine,
+): boolean {
+  if (engine === "v2") {
+    return isShellToolName(toolName);
+  }
+  return (
+    toolName === "Bash" || toolName === "shell" || toolName === "shell_command"
+  );
+}
+
 /**
  * Check if query matches a permission pattern
  */
@@ -677,10 +808,7 @@ function matchesPattern(
   workingDirectory: string,
   engine: PermissionEngine,
 ): boolean {
-  const matcherOptions: MatcherOptions =
-    engine === "v2"
-      ? { canonicalizeToolNames: true, allowBareToolFallback: true }
-      : { canonicalizeToolNames: false, allowBareToolFallback: false };
+  const matcherOptions = getMatcherOptions(engine);
   const toolForMatch = engine === "v2" ? canonicalToolName(toolName) : toolName;
   const fileTools = engine === "v2" ? FILE_TOOLS_V2 : FILE_TOOLS_V1;
   // File tools use glob matching
@@ -689,20 +817,71 @@ function matchesPattern(
   }
 
   // Bash uses prefix matching
-  const legacyShellTool =
-    engine === "v1" &&
-    (toolForMatch === "Bash" ||
-      toolForMatch === "shell" ||
-      toolForMatch === "shell_command");
-  const v2ShellTool = engine === "v2" && isShellToolName(toolName);
-  if (toolForMatch === "Bash" || legacyShellTool || v2ShellTool) {
+  if (toolForMatch === "Bash" || isShellToolForEngine(toolName, engine)) {
     return matchesBashPattern(query, pattern, matcherOptions);
   }
 
+  // WebFetch matches URLs and domains
+  if (toolForMatch === "WebFetch") {
+    return matchesWebFetchPattern(query, pattern, matcherOptions);
+  }
+
   // Other tools use simple name matching
   return matchesToolPattern(toolForMatch, pattern, matcherOptions);
 }
 
+/**
+ * Whether a tool call matches a rule pattern such as "Bash(git add:*)" or
+ * "Read(src/**)", using the same matching as --allowedTools.
+ */
+export function matchesPermissionPattern(
+  toolName: string,
+  toolArgs: ToolArgs,
+  pattern: string,
+  workingDirectory: string = process.cwd(),
+): boolean {
+  const engine: PermissionEngine = isPermissionsV2Enabled() ? "v2" : "v1";
+  const queryTool = engine === "v2" ? canonicalToolName(toolName) : toolName;
+  const query = buildPermissionQuery(queryTool, toolArgs, engine);
+  return matchesPattern(toolName, query, pattern, workingDirectory, engine);
+}
+
+/**
+ * Check if a tool call matches a settings rule (string pattern or
+ * structured rule)
+ */
+function matchesRule(
+  rule: PermissionRule,
+  ruleDecision: PermissionDecision,
+  toolName: string,
+  toolArgs: ToolArgs,
+  query: string,
+  permissions: PermissionRules,
+  workingDirectory: string,
+  engine: PermissionEngine,
+): boolean {
+  if (typeof rule === "string") {
+    return matchesPattern(toolName, query, rule, workingDirectory, engine);
+  }
+
+  const command = isShellToolForEngine(toolName, engine)
+    ? extractShellCommand(toolArgs)
+    : null;
+  return matchesStructuredRule(
+    rule,
+    {
+      toolName,
+      toolArgs,
+      workingDirectory,
+      filePath: extractFilePath(toolArgs),
+      shellCommand: Array.isArray(command) ? command.join(" ") : command,
+      allowedPathRoots: getAllowedShellPathRoots(permissions, workingDirectory),
+      ruleDecision,
+    },
+    getMatcherOptions(engine),
+  );
+}
+
 /**
  * Subagent types that are safe to auto-approve by default.
  * Some are read-only explorers; others are memory-scoped writers whose
@@ -736,6 +915,7 @@ function getDefaultDecision(
     "TodoWrite",
     "TaskOutput",
     "LS",
+    "LSP",
     // Codex toolset (snake_case) - tools that don't require approval
     "read_file",
     "list_dir",
@@ -787,6 +967,7 @@ function getDefaultDecision(
  * Check permission for a tool execution with hook support.
  * When the decision would be "ask" (show permission dialog), runs PermissionRequest hooks
  * which can auto-allow (exit 0) or auto-deny (exit 2) without showing UI.
+ * Hooks printing a JSON permissionDecision can also defer to the dialog ("ask").
  *
  * @param toolName - Name of the tool
  * @param toolArgs - Tool arguments
@@ -819,9 +1000,13 @@ export async function checkPermissionWithHooks(
       workingDirectory,
     );
 
-    // If hook blocked (exit code 2), deny the permission
-    if (hookResult.blocked) {
-      const feedback = hookResult.feedback.join("\n") || "Denied by hook";
+    // If hook blocked (exit code 2 or permissionDecision "deny") or stopped
+    // execution, deny the permission
+    if (hookResult.blocked || hookResult.stopped) {
+      const feedback =
+        hookResult.feedback.join("\n") ||
+        hookResult.stopReason ||
+        "Denied by hook";
       return {
         decision: "deny",
         matchedRule: "PermissionRequest hook",
@@ -829,6 +1014,11 @@ export async function checkPermissionWithHooks(
       };
     }
 
+    // permissionDecision "ask" defers to the permission dialog
+    if (hookResult.permissionDecision === "ask") {
+      return result;
+    }
+
     // If hook succeeded (exit code 0 from any hook), allow the permission
     // Check if any hook ran and returned success
     const anyHookAllowed = hookResult.results.some(
@@ -0,0 +1,274 @@
+// src/permissions/explain.ts
+// Replay a tool call through the permission checker and explain the decision
+
+import { homedir } from "node:os";
+import type { PermissionModeState } from "../tools/manager";
+import { tracePermissionCheck } from "./checker";
+import { cliPermissions } from "./cli";
+import { loadPermissionSources, loadPermissions } from "./loader";
+import { type PermissionMode, permissionMode } from "./mode";
+import {
+  formatPermissionRule,
+  permissionRulesEquivalent,
+} from "./rule-normalization";
+import { sessionPermissions } from "./session";
+import type {
+  PermissionCheckResult,
+  PermissionCheckTrace,
+  PermissionDecision,
+  PermissionEngine,
+  PermissionRule,
+  PermissionRules,
+} from "./types";
+
+/**
+ * Where a set of rules came from: a settings file, the session store, or
+ * the --allowedTools/--disallowedTools flags
+ */
+export interface ExplainedRuleSource {
+  scope: "user-legacy" | "user" | "project" | "local" | "session" | "cli";
+  /** Settings file path (null for session and CLI rules) */
+  path: string | null;
+  exists: boolean;
+  error?: string;
+  permissions: PermissionRules;
+}
+
+export interface PermissionExplanation {
+  toolName: string;
+  toolArgs: Record<string, unknown>;
+  workingDirectory: string;
+  mode: PermissionMode;
+  sources: ExplainedRuleSource[];
+  engine: PermissionEngine;
+  result: PermissionCheckResult;
+  trace: PermissionCheckTrace;
+  /** Sources that define the matched rule (empty for non-rule decisions) */
+  matchedRuleSources: ExplainedRuleSource[];
+  shadow: {
+    engine: PermissionEngine;
+    decision: PermissionDecision;
+    matchedRule?: string;
+    reason?: string;
+  };
+  /** Whether the v1 and v2 engines disagree on decision or matched rule */
+  disagreement: boolean;
+}
+
+export interface ExplainPermissionOptions {
+  workingDirectory?: string;
+  /** Permission mode to evaluate under (defaults to the current mode) */
+  mode?: PermissionMode;
+}
+
+/**
+ * Parse a tool input JSON object. Returns an error message on failure.
+ */
+export function parseToolInput(
+  raw: string | undefined,
+): Record<string, unknown> | string {
+  if (raw === undefined || raw.trim() === "") return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    return `invalid tool input JSON: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return "tool input must be a JSON object";
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Find the sources whose rules of the decided kind contain the matched rule
+ */
+function findMatchedRuleSources(
+  result: PermissionCheckResult,
+  sources: ExplainedRuleSource[],
+): ExplainedRuleSource[] {
+  const matchedRule = result.matchedRule;
+  if (!matchedRule) return [];
+
+  let scope: ExplainedRuleSource["scope"] | null = null;
+  let rule = matchedRule;
+  let customMode: string | null = null;
+  const customModeMatch = matchedRule.match(/^([\s\S]+) \((\S+) mode\)$/);
+  if (customModeMatch?.[1] && customModeMatch[2]) {
+    rule = customModeMatch[1];
+    customMode = customModeMatch[2];
+  } else if (matchedRule.endsWith(" (session)")) {
+    scope = "session";
+    rule = matchedRule.slice(0, -" (session)".length);
+  } else if (matchedRule.endsWith(" (CLI)")) {
+    scope = "cli";
+    rule = matchedRule.slice(0, -" (CLI)".length);
+  }
+
+  const ruleMatches = (candidate: PermissionRule) =>
+    formatPermissionRule(candidate) === rule ||
+    (typeof candidate === "string" &&
+      !rule.startsWith("{") &&
+      permissionRulesEquivalent(candidate, rule));
+
+  return sources.filter((source) => {
+    if (scope ? source.scope !== scope : !source.path) return false;
+    const rules =
+      (customMode
+        ? source.permissions.modes?.[customMode]?.[result.decision]
+        : source.permissions[result.decision]) ?? [];
+    return rules.some(ruleMatches);
+  });
+}
+
+/**
+ * Evaluate a tool call exactly as the checker would, collecting the rule
+ * sources, the full trace of the active engine and the shadow engine's
+ * decision.
+ */
+export async function explainPermission(
+  toolName: string,
+  toolArgs: Record<string, unknown>,
+  options: ExplainPermissionOptions = {},
+): Promise<PermissionExplanation> {
+  const workingDirectory = options.workingDirectory ?? process.cwd();
+  const mode = options.mode ?? permissionMode.getMode();
+
+  const fileSources = await loadPermissionSources(workingDirectory);
+  const sources: ExplainedRuleSource[] = [
+    ...fileSources,
+    {
+      scope: "session",
+      path: null,
+      exists: true,
+      permissions: sessionPermissions.getRules(),
+    },
+    {
+      scope: "cli",
+      path: null,
+      exists: true,
+      permissions: {
+        allow: cliPermissions.getAllowedTools(),
+        deny: cliPermissions.getDisallowedTools(),
+      },
+    },
+  ];
+
+  const permissions = await loadPermissions(workingDirectory);
+  const modeState: PermissionModeState = {
+    mode,
+    planFilePath: permissionMode.getPlanFilePath(),
+    modeBeforePlan: null,
+  };
+  const { primary, shadow } = tracePermissionCheck(
+    toolName,
+    toolArgs,
+    permissions,
+    workingDirectory,
+    modeState,
+  );
+
+  return {
+    toolName,
+    toolArgs,
+    workingDirectory,
+    mode,
+    sources,
+    engine: primary.trace.engine,
+    result: primary.result,
+    trace: primary.trace,
+    matchedRuleSources: findMatchedRuleSources(primary.result, sources),
+    shadow: {
+      engine: shadow.trace.engine,
+      decision: shadow.result.decision,
+      matchedRule: shadow.result.matchedRule,
+      reason: shadow.result.reason,
+    },
+    disagreement:
+      primary.result.decision !== shadow.result.decision ||
+      primary.result.matchedRule !== shadow.result.matchedRule,
+  };
+}
+
+function formatSourceLabel(source: ExplainedRuleSource): string {
+  if (!source.path) {
+    return source.scope === "cli" ? "CLI flags" : "session";
+  }
+  return `${source.scope} (${source.path.replace(homedir(), "~")})`;
+}
+
+/**
+ * Render an explanation as plain text for the terminal
+ */
+export function formatPermissionExplanation(
+  explanation: PermissionExplanation,
+): string {
+  const lines: string[] = [
+    `Tool: ${explanation.toolName}`,
+    `Input: ${JSON.stringify(explanation.toolArgs)}`,
+    `Working directory: ${explanation.workingDirectory}`,
+    `Permission mode: ${explanation.mode}`,
+    "",
+    "Rule sources (lowest to highest precedence):",
+  ];
+
+  for (const source of explanation.sources) {
+    const label = formatSourceLabel(source);
+    if (!source.exists) {
+      lines.push(`  ${label}: not found`);
+      continue;
+    }
+    if (source.error) {
+      lines.push(`  ${label}: ignored (${source.error})`);
+      continue;
+    }
+    const kinds = (["deny", "ask", "allow"] as const).filter(
+      (kind) => (source.permissions[kind]?.length ?? 0) > 0,
+    );
+    if (kinds.length === 0) {
+      lines.push(`  ${label}: no rules`);
+      continue;
+    }
+    lines.push(`  ${label}:`);
+    for (const kind of kinds) {
+      for (const rule of source.permissions[kind] ?? []) {
+        lines.push(`    ${kind.padEnd(5)} ${formatPermissionRule(rule)}`);
+      }
+    }
+  }
+
+  lines.push(
+    "",
+    `Trace (${explanation.engine}, query ${explanation.trace.query}):`,
+  );
+  for (const event of explanation.trace.events) {
+    const parts = [`  ${event.stage}`];
+    if (event.pattern) parts.push(event.pattern);
+    if (event.matched !== undefined) {
+      parts.push(event.matched ? "→ matched" : "→ no match");
+    }
+    if (event.message) parts.push(event.message);
+    lines.push(parts.join("  "));
+  }
+
+  lines.push("", `Decision: ${explanation.result.decision}`);
+  if (explanation.result.matchedRule) {
+    const from = explanation.matchedRuleSources.map(formatSourceLabel);
+    lines.push(
+      `Matched rule: ${explanation.result.matchedRule}${from.length > 0 ? ` (from ${from.join(", ")})` : ""}`,
+    );
+  }
+  if (explanation.result.reason) {
+    lines.push(`Reason: ${explanation.result.reason}`);
+  }
+
+  const { shadow } = explanation;
+  const shadowSummary = `${shadow.engine} decides ${shadow.decision}${shadow.matchedRule ? ` (rule ${shadow.matchedRule})` : ""}`;
+  lines.push(
+    explanation.disagreement
+      ? `Engine disagreement: ${shadowSummary}`
+      : `Engines agree: ${shadowSummary}`,
+  );
+
+  return lines.join("\n");
+}
@@ -4,14 +4,15 @@ import { exists, readFile, writeFile } from "../utils/fs.js";
 
 import { homedir } from "node:os";
 import { join } from "node:path";
+import { permissionMode } from "./mode";
 import {
   normalizePermissionRule,
   permissionRulesEquivalent,
 } from "./rule-normalization";
-import type { PermissionRules } from "./types";
+import type { PermissionRule, PermissionRules } from "./types";
 
 type SettingsFile = {
-  permissions?: Record<string, string[]>;
+  permissions?: PermissionRules;
   [key: string]: unknown;
 };
 
@@ -36,6 +37,74 @@ export function getUserSettingsPaths(options: UserSettingsPathsOptions = {}): {
   };
 }
 
+/**
+ * Scope of a settings file that can carry permission rules
+ */
+export type PermissionSourceScope =
+  | "user-legacy"
+  | "user"
+  | "project"
+  | "local";
+
+/**
+ * Permission rules as read from one settings file
+ */
+export interface PermissionRuleSource {
+  scope: PermissionSourceScope;
+  path: string;
+  /** Whether the file exists */
+  exists: boolean;
+  /** Set when the file exists but could not be parsed */
+  error?: string;
+  permissions: PermissionRules;
+}
+
+/**
+ * Read the permission rules of each settings file, lowest precedence first:
+ * legacy user, user, project, local project.
+ */
+export async function loadPermissionSources(
+  workingDirectory: string = process.cwd(),
+): Promise<PermissionRuleSource[]> {
+  const { canonical: userSettingsPath, legacy: legacyUserSettingsPath } =
+    getUserSettingsPaths();
+  const files: Array<{ scope: PermissionSourceScope; path: string }> = [
+    { scope: "user-legacy", path: legacyUserSettingsPath },
+    { scope: "user", path: userSettingsPath },
+    {
+      scope: "project",
+      path: join(workingDirectory, ".letta", "settings.json"),
+    },
+    {
+      scope: "local",
+      path: join(workingDirectory, ".letta", "settings.local.json"),
+    },
+  ];
+
+  const sources: PermissionRuleSource[] = [];
+  for (const { scope, path } of files) {
+    const source: PermissionRuleSource = {
+      scope,
+      path,
+      exists: exists(path),
+      permissions: {},
+    };
+    if (source.exists) {
+      try {
+        const content = await readFile(path);
+        const settings = JSON.parse(content) as SettingsFile;
+        if (settings.permissions) {
+          source.permissions = settings.permissions;
+        }
+      } catch (error) {
+        source.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+    sources.push(source);
+  }
+  return sources;
+}
+
 /**
  * Load permissions from all settings files and merge them hierarchically.
  *
@@ -57,36 +126,30 @@ export async function loadPermissions(
     additionalDirectories: [],
   };
 
-  // Load in reverse precedence order (lowest to highest)
-  const { canonical: userSettingsPath, legacy: legacyUserSettingsPath } =
-    getUserSettingsPaths();
-  const sources = [
-    legacyUserSettingsPath, // User legacy
-    userSettingsPath, // User (canonical)
-    join(workingDirectory, ".letta", "settings.json"), // Project
-    join(workingDirectory, ".letta", "settings.local.json"), // Local
-  ];
-
-  for (const settingsPath of sources) {
-    try {
-      if (exists(settingsPath)) {
-        const content = await readFile(settingsPath);
-        const settings = JSON.parse(content) as SettingsFile;
-        if (settings.permissions) {
-          mergePermissions(merged, settings.permissions as PermissionRules);
-        }
-      }
-    } catch (_error) {
-      // Silently skip files that can't be parsed
-      // (user might have invalid JSON)
-    }
+  // Sources come in reverse precedence order (lowest to highest).
+  // Files that can't be parsed are silently skipped
+  // (user might have invalid JSON)
+  for (const source of await loadPermissionSources(workingDirectory)) {
+    mergePermissions(merged, source.permissions);
   }
 
   return merged;
 }
 
 /**
- * Merge permission rules by concatenating arrays
+ * Register the custom permission modes declared in settings, making them
+ * selectable via --permission-mode, Shift+Tab and change_device_state.
+ */
+export async function registerCustomPermissionModes(
+  workingDirectory: string = process.cwd(),
+): Promise<void> {
+  const { modes } = await loadPermissions(workingDirectory);
+  permissionMode.setCustomModes(modes ?? {});
+}
+
+/**
+ * Merge permission rules by concatenating arrays. Custom modes are merged
+ * by name, with the more specific settings replacing a mode entirely.
  */
 function mergePermissions(
   target: PermissionRules,
@@ -107,12 +170,15 @@ function mergePermissions(
       ...source.additionalDirectories,
     ];
   }
+  if (source.modes) {
+    target.modes = { ...target.modes, ...source.modes };
+  }
 }
 
 function mergeRuleList(
-  existing: string[] | undefined,
-  incoming: string[],
-): string[] {
+  existing: PermissionRule[] | undefined,
+  incoming: PermissionRule[],
+): PermissionRule[] {
   const merged = [...(existing || [])];
   for (const rule of incoming) {
     if (!merged.some((current) => permissionRulesEquivalent(current, rule))) {
@@ -3,11 +3,17 @@
 
 import { resolve } from "node:path";
 import { minimatch } from "minimatch";
+import { assessPermissionRisk } from "./analyzer";
 import { canonicalToolName } from "./canonical";
 import {
   normalizeBashRulePayload,
   unwrapShellLauncherCommand,
 } from "./shell-command-normalization";
+import type {
+  PermissionDecision,
+  PermissionRiskLevel,
+  StructuredPermissionRule,
+} from "./types";
 
 export interface MatcherOptions {
   canonicalizeToolNames?: boolean;
@@ -154,14 +160,27 @@ export function matchesFilePattern(
   if (!patternTool) {
     return false;
   }
-  // Normalize path separators for cross-platform compatibility
-  let globPattern = normalizePath(patternMatch[2]);
-
   // Tool names must match
   if (queryTool !== patternTool) {
     return false;
   }
 
+  return matchesPathGlob(filePath, patternMatch[2], workingDirectory);
+}
+
+/**
+ * Check if a file path matches a glob pattern (the payload of a file rule
+ * such as "Read(src/**)").
+ */
+function matchesPathGlob(
+  rawFilePath: string,
+  rawGlobPattern: string,
+  workingDirectory: string,
+): boolean {
+  // Normalize path separators for cross-platform compatibility
+  const filePath = normalizePath(rawFilePath);
+  let globPattern = normalizePath(rawGlobPattern);
+
   // Normalize ./ prefix
   if (globPattern.startsWith("./")) {
     globPattern = globPattern.slice(2);
@@ -354,3 +373,288 @@ export function matchesToolPattern(
 
   return false;
 }
+
+/**
+ * The tool call a structured rule is checked against
+ */
+export interface StructuredRuleContext {
+  toolName: string;
+  toolArgs: Record<string, unknown>;
+  workingDirectory: string;
+  /** Target path of the call (file_path/path/notebook_path), if any */
+  filePath: string | null;
+  /** Command of the call when the tool is a shell tool */
+  shellCommand: string | null;
+  /** Directories a read-only shell command may touch */
+  allowedPathRoots: string[];
+  /**
+   * Decision of the rule list being checked. Deny and ask rules match when
+   * any part of the call matches (fail closed); allow rules only when the
+   * whole call does. Defaults to "allow".
+   */
+  ruleDecision?: PermissionDecision;
+}
+
+const RISK_ORDER: PermissionRiskLevel[] = [
+  "read-only",
+  "safe",
+  "moderate",
+  "dangerous",
+];
+
+function matchesStructuredTool(
+  toolName: string,
+  pattern: string,
+  options?: MatcherOptions,
+): boolean {
+  if (pattern === "*") {
+    return true;
+  }
+  if (/[*?[]/.test(pattern)) {
+    return (
+      minimatch(toolName, pattern) ||
+      minimatch(toolForMatch(toolName, options), pattern)
+    );
+  }
+  return toolForMatch(pattern, options) === toolForMatch(toolName, options);
+}
+
+const MAX_ARG_DEPTH = 8;
+
+/**
+ * Collect every string argument, descending into nested objects and arrays.
+ * Keys are reported with each string so callers can pick out path fields.
+ */
+function collectStringArgs(
+  value: unknown,
+  key: string | null = null,
+  out: Array<{ key: string | null; value: string }> = [],
+  depth = 0,
+): Array<{ key: string | null; value: string }> {
+  if (typeof value === "string") {
+    out.push({ key, value });
+  } else if (Array.isArray(value) && depth < MAX_ARG_DEPTH) {
+    for (const item of value) {
+      collectStringArgs(item, key, out, depth + 1);
+    }
+  } else if (value && typeof value === "object" && depth < MAX_ARG_DEPTH) {
+    for (const [childKey, child] of Object.entries(value)) {
+      collectStringArgs(child, childKey, out, depth + 1);
+    }
+  }
+  return out;
+}
+
+/**
+ * Collect hostnames of every http(s) URL in the arguments, including URLs
+ * nested in objects and arrays or embedded in longer strings (e.g. a
+ * command)
+ */
+function extractUrlHosts(toolArgs: Record<string, unknown>): string[] {
+  const hosts = new Set<string>();
+  for (const { value } of collectStringArgs(toolArgs)) {
+    for (const match of value.matchAll(/https?:\/\/[^\s"'`<>]+/gi)) {
+      try {
+        hosts.add(new URL(match[0]).hostname.toLowerCase());
+      } catch {
+        // Not a parseable URL; not a URL argument
+      }
+    }
+  }
+  return [...hosts];
+}
+
+const PATH_ARG_KEYS = new Set([
+  "file_path",
+  "path",
+  "notebook_path",
+  "paths",
+  "file_paths",
+]);
+
+/**
+ * Every path a call may touch, for deny and ask rules: path arguments at
+ * any depth and the non-flag words of a shell command. Calls without any
+ * fall back to the working directory, where path-less tools operate.
+ */
+function extractCandidatePaths(context: StructuredRuleContext): string[] {
+  const paths = new Set<string>();
+  if (context.filePath) {
+    paths.add(context.filePath);
+  }
+  for (const { key, value } of collectStringArgs(context.toolArgs)) {
+    if (key && PATH_ARG_KEYS.has(key) && value) {
+      paths.add(value);
+    }
+  }
+  if (context.shellCommand) {
+    for (const word of context.shellCommand.split(/[\s;&|()<>]+/)) {
+      const unquoted = word.replace(/^["']|["']$/g, "");
+      if (unquoted && !unquoted.startsWith("-")) {
+        paths.add(unquoted);
+      }
+    }
+  }
+  if (paths.size === 0) {
+    paths.add(context.workingDirectory);
+  }
+  return [...paths];
+}
+
+function matchesDomain(host: string, domain: string): boolean {
+  const normalized = domain.trim().toLowerCase();
+  if (normalized.startsWith("*.")) {
+    return host.endsWith(normalized.slice(1));
+  }
+  return host === normalized;
+}
+
+/**
+ * Check if a WebFetch query matches a permission pattern.
+ *
+ * Query format: "WebFetch(https://example.com/docs)"
+ * Pattern formats:
+ * - "WebFetch" matches all WebFetch calls
+ * - "WebFetch(domain:example.com)" matches that host ("domain:*.example.com"
+ *   matches its subdomains)
+ * - "WebFetch(https://example.com/*)" matches URLs by wildcard, where "*"
+ *   spans any characters including "/"
+ *
+ * @param query - The WebFetch query
+ * @param pattern - The permission pattern
+ */
+export function matchesWebFetchPattern(
+  query: string,
+  pattern: string,
+  options?: MatcherOptions,
+): boolean {
+  const patternMatch = pattern.match(/^([^(]+)\(([\s\S]*)\)$/);
+  if (!patternMatch?.[1] || !patternMatch[2]) {
+    return matchesToolPattern("WebFetch", pattern, options);
+  }
+  if (toolForMatch(patternMatch[1], options) !== "WebFetch") {
+    return false;
+  }
+
+  const queryMatch = query.match(/^WebFetch\(([\s\S]+)\)$/);
+  if (!queryMatch?.[1]) {
+    return false;
+  }
+  const url = queryMatch[1];
+  const spec = patternMatch[2];
+
+  if (spec.startsWith("domain:")) {
+    try {
+      return matchesDomain(
+        new URL(url).hostname.toLowerCase(),
+        spec.slice("domain:".length),
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  const regex = new RegExp(
+    `^${spec
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*")}$`,
+    "i",
+  );
+  return regex.test(url);
+}
+
+/**
+ * Check if a tool call matches a structured permission rule.
+ *
+ * The rule's tool must match, and so must every predicate it sets:
+ * - paths / excludePaths: allow rules check the call's target path (calls
+ *   without one never match); deny and ask rules match when any path the
+ *   call may touch is matched and not excluded
+ * - commandPrefix: the shell command (non-shell calls never match)
+ * - domains: allow rules need every http(s) URL in the arguments to match;
+ *   deny and ask rules need any one to (calls without URLs never match)
+ * - maxRisk: the risk assessed by the analyzer
+ *
+ * @param rule - The structured rule (malformed rules never match)
+ * @param context - The tool call being checked
+ */
+export function matchesStructuredRule(
+  rule: StructuredPermissionRule,
+  context: StructuredRuleContext,
+  options?: MatcherOptions,
+): boolean {
+  if (typeof rule?.tool !== "string" || !rule.tool) {
+    return false;
+  }
+  if (!matchesStructuredTool(context.toolName, rule.tool, options)) {
+    return false;
+  }
+
+  const restrictive = (context.ruleDecision ?? "allow") !== "allow";
+  const matchesPaths = (path: string): boolean =>
+    (!rule.paths ||
+      rule.paths.some((glob) =>
+        matchesPathGlob(path, glob, context.workingDirectory),
+      )) &&
+    !rule.excludePaths?.some((glob) =>
+      matchesPathGlob(path, glob, context.workingDirectory),
+    );
+
+  if (rule.paths || rule.excludePaths) {
+    if (restrictive) {
+      if (!extractCandidatePaths(context).some(matchesPaths)) {
+        return false;
+      }
+    } else if (!context.filePath || !matchesPaths(context.filePath)) {
+      return false;
+    }
+  }
+
+  if (rule.commandPrefix !== undefined) {
+    const command = context.shellCommand;
+    if (command === null) {
+      return false;
+    }
+    const prefixes = Array.isArray(rule.commandPrefix)
+      ? rule.commandPrefix
+      : [rule.commandPrefix];
+    const matchesPrefix = prefixes.some((prefix) =>
+      matchesBashPattern(`Bash(${command})`, `Bash(${prefix}:*)`),
+    );
+    if (!matchesPrefix) {
+      return false;
+    }
+  }
+
+  if (rule.domains) {
+    const hosts = extractUrlHosts(context.toolArgs);
+    const domains = rule.domains;
+    const hostMatches = (host: string) =>
+      domains.some((domain) => matchesDomain(host, domain));
+    if (
+      hosts.length === 0 ||
+      !(restrictive ? hosts.some(hostMatches) : hosts.every(hostMatches))
+    ) {
+      return false;
+    }
+  }
+
+  if (rule.maxRisk !== undefined) {
+    const maxIndex = RISK_ORDER.indexOf(rule.maxRisk);
+    if (maxIndex === -1) {
+      return false;
+    }
+    const risk = assessPermissionRisk(
+      context.toolName,
+      context.toolArgs,
+      context.workingDirectory,
+      context.allowedPathRoots,
+    );
+    if (RISK_ORDER.indexOf(risk) > maxIndex) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -1,5 +1,6 @@
 // src/permissions/mode.ts
-// Permission mode management (default, acceptEdits, plan, memory, bypassPermissions)
+// Permission mode management (default, acceptEdits, plan, memory, bypassPermissions,
+// plus custom modes declared in settings)
 
 import { homedir } from "node:os";
 import { isAbsolute, join, relative } from "node:path";
@@ -13,24 +14,73 @@ import {
   isScopedMemoryShellCommand,
 } from "./readOnlyShell";
 import { unwrapShellLauncherCommand } from "./shell-command-normalization";
+import type { CustomPermissionModeConfig } from "./types";
 
-export type PermissionMode =
+export type BuiltinPermissionMode =
   | "default"
   | "acceptEdits"
   | "plan"
   | "memory"
   | "bypassPermissions";
 
+/**
+ * A built-in mode, or the name of a custom mode declared in settings
+ * (permissions.modes)
+ */
+export type PermissionMode = BuiltinPermissionMode | (string & {});
+
+export const BUILTIN_PERMISSION_MODES: readonly BuiltinPermissionMode[] = [
+  "default",
+  "acceptEdits",
+  "plan",
+  "memory",
+  "bypassPermissions",
+];
+
+/**
+ * Built-in modes in Shift+Tab cycling order (custom modes follow)
+ */
+const CYCLED_BUILTIN_MODES: readonly BuiltinPermissionMode[] = [
+  "default",
+  "plan",
+  "acceptEdits",
+  "bypassPermissions",
+];
+
+export function isBuiltinPermissionMode(
+  mode: string,
+): mode is BuiltinPermissionMode {
+  return (BUILTIN_PERMISSION_MODES as readonly string[]).includes(mode);
+}
+
+/**
+ * Resolve the built-in mode whose behavior applies for a mode: built-in
+ * modes resolve to themselves, custom modes to their baseMode, and unknown
+ * modes to "default".
+ */
+export function resolveBasePermissionMode(
+  mode: PermissionMode,
+  customModes: Record<string, CustomPermissionModeConfig> = {},
+): BuiltinPermissionMode {
+  if (isBuiltinPermissionMode(mode)) {
+    return mode;
+  }
+  const baseMode = customModes[mode]?.baseMode;
+  return baseMode && isBuiltinPermissionMode(baseMode) ? baseMode : "default";
+}
+
 // Use globalThis to ensure singleton across bundle
 // This prevents Bun's bundler from creating duplicate instances of the mode manager
 const MODE_KEY = Symbol.for("@letta/permissionMode");
 const PLAN_FILE_KEY = Symbol.for("@letta/planFilePath");
 const MODE_BEFORE_PLAN_KEY = Symbol.for("@letta/permissionModeBeforePlan");
+const CUSTOM_MODES_KEY = Symbol.for("@letta/customPermissionModes");
 
 type GlobalWithMode = typeof globalThis & {
   [MODE_KEY]: PermissionMode;
   [PLAN_FILE_KEY]: string | null;
   [MODE_BEFORE_PLAN_KEY]?: PermissionMode | null;
+  [CUSTOM_MODES_KEY]?: Record<string, CustomPermissionModeConfig>;
 };
 
 function everyResolvedTargetIsWithinRoots(
@@ -80,6 +130,18 @@ function setGlobalModeBeforePlan(value: PermissionMode | null): void {
   global[MODE_BEFORE_PLAN_KEY] = value;
 }
 
+function getGlobalCustomModes(): Record<string, CustomPermissionModeConfig> {
+  const global = globalThis as GlobalWithMode;
+  return global[CUSTOM_MODES_KEY] ?? {};
+}
+
+function setGlobalCustomModes(
+  value: Record<string, CustomPermissionModeConfig>,
+): void {
+  const global = globalThis as GlobalWithMode;
+  global[CUSTOM_MODES_KEY] = value;
+}
+
 function resolvePlanTargetPath(
   targetPath: string,
   workingDirectory: string,
@@ -244,6 +306,41 @@ class PermissionModeManager {
     return this.currentMode;
   }
 
+  /**
+   * Register the custom modes declared in settings (permissions.modes).
+   * Names that collide with built-in modes are ignored.
+   */
+  setCustomModes(modes: Record<string, CustomPermissionModeConfig>): void {
+    setGlobalCustomModes(
+      Object.fromEntries(
+        Object.entries(modes).filter(
+          ([name]) => name.length > 0 && !isBuiltinPermissionMode(name),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Get the registered custom modes
+   */
+  getCustomModes(): Record<string, CustomPermissionModeConfig> {
+    return getGlobalCustomModes();
+  }
+
+  /**
+   * Whether a mode is built in or a registered custom mode
+   */
+  isKnownMode(mode: string): boolean {
+    return isBuiltinPermissionMode(mode) || mode in getGlobalCustomModes();
+  }
+
+  /**
+   * Modes in Shift+Tab cycling order: the built-in cycle, then custom modes
+   */
+  getCycleModes(): PermissionMode[] {
+    return [...CYCLED_BUILTIN_MODES, ...Object.keys(getGlobalCustomModes())];
+  }
+
   /**
    * Set the plan file path (only relevant when in plan mode)
    */
@@ -263,6 +360,8 @@ class PermissionModeManager {
    * Accepts explicit `mode` and `planFilePath` overrides so callers with a
    * scoped PermissionModeState (listener/remote mode) can bypass the global
    * singleton without requiring a temporary mutation of global state.
+   * Custom modes apply the behavior of their base mode (their own rules
+   * are checked by the permission checker).
    * Returns null if mode doesn't apply to this tool.
    */
   checkModeOverride(
@@ -277,7 +376,7 @@ class PermissionModeManager {
       planFilePathOverride !== undefined
         ? planFilePathOverride
         : this.getPlanFilePath();
-    switch (effectiveMode) {
+    switch (resolveBasePermissionMode(effectiveMode, getGlobalCustomModes())) {
       case "bypassPermissions":
         // ExitPlanMode always requires human approval, even in yolo mode
         if (toolName === "ExitPlanMode" || toolName === "exit_plan_mode") {
@@ -320,6 +419,7 @@ class PermissionModeManager {
           "Grep",
           "NotebookRead",
           "TodoWrite",
+          "LSP",
           // Image tools (read-only)
           "ViewImage",
           "view_image",
@@ -487,6 +587,7 @@ class PermissionModeManager {
           "Glob",
           "Grep",
           "NotebookRead",
+          "LSP",
           // Image / task output / skills
           "ViewImage",
           "view_image",
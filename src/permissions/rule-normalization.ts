@@ -5,6 +5,7 @@ import {
   isShellToolName,
 } from "./canonical";
 import { normalizeBashRulePayload } from "./shell-command-normalization";
+import type { PermissionRule } from "./types";
 
 function splitRule(rule: string): { tool: string; payload: string | null } {
   const match = rule.trim().match(/^([^(]+)(?:\(([\s\S]*)\))?$/);
@@ -37,9 +38,26 @@ export function normalizePermissionRule(rule: string): string {
   return `${canonicalTool}(${payload.trim()})`;
 }
 
+/**
+ * Display form of a rule, used for matchedRule and traces. Structured rules
+ * are shown as their JSON.
+ */
+export function formatPermissionRule(rule: PermissionRule): string {
+  return typeof rule === "string" ? rule : JSON.stringify(rule);
+}
+
 export function permissionRulesEquivalent(
-  left: string,
-  right: string,
+  left: PermissionRule,
+  right: PermissionRule,
 ): boolean {
-  return normalizePermissionRule(left) === normalizePermissionRule(right);
+  if (typeof left === "string" && typeof right === "string") {
+    return normalizePermissionRule(left) === normalizePermissionRule(right);
+  }
+  if (typeof left === "string" || typeof right === "string") {
+    return false;
+  }
+  return (
+    formatPermissionRule({ ...left, tool: canonicalToolName(left.tool) }) ===
+    formatPermissionRule({ ...right, tool: canonicalToolName(right.tool) })
+  );
 }
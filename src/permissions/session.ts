@@ -1,14 +1,21 @@
 // src/permissions/session.ts
 // In-memory permission store for session-only rules
 
-import type { PermissionRules } from "./types";
+/**
+ * Session rules are always string patterns (added from approval prompts)
+ */
+type SessionRules = {
+  allow: string[];
+  deny: string[];
+  ask: string[];
+};
 
 /**
  * Session-only permissions that are not persisted to disk.
  * These rules are cleared when the application exits.
  */
 class SessionPermissions {
-  private sessionRules: PermissionRules = {
+  private sessionRules: SessionRules = {
     allow: [],
     deny: [],
     ask: [],
@@ -27,7 +34,7 @@ class SessionPermissions {
   /**
    * Get all session rules
    */
-  getRules(): PermissionRules {
+  getRules(): SessionRules {
     return {
       allow: [...(this.sessionRules.allow || [])],
       deny: [...(this.sessionRules.deny || [])],
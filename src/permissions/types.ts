@@ -1,14 +1,76 @@
 // src/permissions/types.ts
 // Types for Claude Code-compatible permission system
 
+import type { BuiltinPermissionMode } from "./mode";
+
+/**
+ * Risk levels assigned to a tool call, from least to most risky.
+ * "read-only" is only assigned when the call provably mutates nothing
+ * (e.g. a shell command the read-only analyzer accepts).
+ */
+export type PermissionRiskLevel =
+  | "read-only"
+  | "safe"
+  | "moderate"
+  | "dangerous";
+
+/**
+ * Structured permission rule. Every predicate that is set must hold for the
+ * rule to match.
+ *
+ * Example: { "tool": "Edit", "paths": ["src/**"], "excludePaths": ["src/gen/**"] }
+ */
+export interface StructuredPermissionRule {
+  /** Tool name, "*", or a glob over tool names (e.g. "mcp__github__*") */
+  tool: string;
+  /** Globs the call's target path must match (same syntax as "Read(src/**)") */
+  paths?: string[];
+  /** Globs that exclude paths otherwise matched by `paths` */
+  excludePaths?: string[];
+  /** Shell tools only: the command must start with one of these prefixes */
+  commandPrefix?: string | string[];
+  /**
+   * Hosts URL arguments point at: every one for allow rules, any one for
+   * deny and ask rules. "*.example.com" matches subdomains
+   */
+  domains?: string[];
+  /** Highest risk level the rule applies to */
+  maxRisk?: PermissionRiskLevel;
+}
+
+/**
+ * A permission rule: either a string pattern ("Bash(npm test:*)") or a
+ * structured rule
+ */
+export type PermissionRule = string | StructuredPermissionRule;
+
+/**
+ * A named permission mode declared in settings (permissions.modes): a bundle
+ * of rules layered on top of a built-in base mode. The mode's deny rules win
+ * over everything but settings deny rules; its allow and ask rules are
+ * checked before the base mode's behavior applies.
+ */
+export interface CustomPermissionModeConfig {
+  /** Built-in mode whose behavior applies when no mode rule matches (default: "default") */
+  baseMode?: BuiltinPermissionMode;
+  /** Short description shown to the agent when the mode is entered */
+  description?: string;
+  allow?: PermissionRule[];
+  deny?: PermissionRule[];
+  ask?: PermissionRule[];
+}
+
 /**
- * Permission rules following Claude Code's format
+ * Permission rules following Claude Code's format, extended with
+ * structured rules and custom modes
  */
 export interface PermissionRules {
-  allow?: string[];
-  deny?: string[];
-  ask?: string[];
+  allow?: PermissionRule[];
+  deny?: PermissionRule[];
+  ask?: PermissionRule[];
   additionalDirectories?: string[];
+  /** Custom permission modes by name */
+  modes?: Record<string, CustomPermissionModeConfig>;
 }
 
 /**
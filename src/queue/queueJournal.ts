@@ -0,0 +1,332 @@
+/**
+ * Append-only on-disk journal for a QueueRuntime, one file per runtime scope
+ * under ~/.letta/queue/<agent_id>/<conversation_id>.jsonl.
+ *
+ * Every queue mutation appends an event line; loading folds the events into
+ * the items still pending. Items are only dropped from the journal once the
+ * turn that consumed them has finished (acknowledged), so an item dequeued
+ * just before a crash is replayed on the next start (at-least-once). Replays
+ * and resubmissions are deduplicated by clientMessageId.
+ *
+ * The file is compacted to the pending items on load, whenever the queue
+ * empties, and once it grows past a size threshold and twice its compacted
+ * size, so a queue that never drains does not grow it without bound.
+ */
+
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import type { RuntimeScope } from "../types/protocol_v2";
+import { debugWarn } from "../utils/debug";
+import { getErrorMessage } from "../utils/error";
+import { getLettaDir } from "../utils/lettaDir";
+import type { QueueItem } from "./queueRuntime";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface QueueJournalEntry {
+  item: QueueItem;
+  /** Caller data stored with the item (e.g. the listener's message template). */
+  payload?: unknown;
+}
+
+type QueueJournalEvent =
+  | { op: "enqueue"; item: QueueItem; payload?: unknown }
+  /** Items handed to a turn that finished. */
+  | { op: "ack"; ids: string[] }
+  /** Items removed without being processed. */
+  | { op: "remove"; ids: string[] }
+  /** New order of the pending items. */
+  | { op: "order"; ids: string[] }
+  /** clientMessageIds of recently processed items, kept for dedup. */
+  | { op: "processed"; client_message_ids: string[] };
+
+// ── Constants ───────────────────────────────────────────────────────
+
+const QUEUE_DIR_NAME = "queue";
+const JOURNAL_EXTENSION = ".jsonl";
+/** Processed clientMessageIds remembered for dedup across restarts. */
+const MAX_PROCESSED_CLIENT_MESSAGE_IDS = 200;
+/** Journal size past which appends trigger a compaction. */
+const COMPACT_THRESHOLD_BYTES = 256 * 1024;
+
+// ── Paths ───────────────────────────────────────────────────────────
+
+export function getQueueJournalDir(): string {
+  return join(getLettaDir(), QUEUE_DIR_NAME);
+}
+
+export function getQueueJournalPath(
+  scope: RuntimeScope,
+  dir: string = getQueueJournalDir(),
+): string {
+  return join(
+    dir,
+    encodeURIComponent(scope.agent_id),
+    `${encodeURIComponent(scope.conversation_id)}${JOURNAL_EXTENSION}`,
+  );
+}
+
+/**
+ * Scopes that have a journal on disk (pending items or not).
+ */
+export function listQueueJournalScopes(
+  dir: string = getQueueJournalDir(),
+): RuntimeScope[] {
+  if (!existsSync(dir)) return [];
+  const scopes: RuntimeScope[] = [];
+  try {
+    for (const agentEntry of readdirSync(dir, { withFileTypes: true })) {
+      if (!agentEntry.isDirectory()) continue;
+      for (const file of readdirSync(join(dir, agentEntry.name))) {
+        if (!file.endsWith(JOURNAL_EXTENSION)) continue;
+        scopes.push({
+          agent_id: decodeURIComponent(agentEntry.name),
+          conversation_id: decodeURIComponent(
+            file.slice(0, -JOURNAL_EXTENSION.length),
+          ),
+        });
+      }
+    }
+  } catch {
+    // Unreadable journal directory: nothing to restore.
+  }
+  return scopes;
+}
+
+// ── Journal ─────────────────────────────────────────────────────────
+
+export class QueueJournal {
+  readonly path: string;
+  /** Pending items (queued or handed to an unfinished turn), in queue order. */
+  private pending = new Map<string, QueueJournalEntry>();
+  private processedClientMessageIds: string[] = [];
+  private loaded = false;
+  /** Bytes in the file, and in it right after the last compaction. */
+  private sizeBytes = 0;
+  private compactedSizeBytes = 0;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  static forScope(scope: RuntimeScope, dir?: string): QueueJournal {
+    return new QueueJournal(getQueueJournalPath(scope, dir));
+  }
+
+  /**
+   * Read the journal and return the pending items, oldest first. Compacts
+   * the file to just those items. Corrupt lines are skipped.
+   */
+  load(): QueueJournalEntry[] {
+    this.loaded = true;
+    this.pending = new Map();
+    this.processedClientMessageIds = [];
+    for (const event of this.readEvents()) {
+      this.apply(event);
+    }
+    this.compact();
+    return [...this.pending.values()];
+  }
+
+  /**
+   * True when an item with this clientMessageId is pending or was processed
+   * recently.
+   */
+  hasClientMessageId(clientMessageId: string): boolean {
+    this.ensureLoaded();
+    if (this.processedClientMessageIds.includes(clientMessageId)) return true;
+    for (const entry of this.pending.values()) {
+      if (entry.item.clientMessageId === clientMessageId) return true;
+    }
+    return false;
+  }
+
+  append(item: QueueItem, payload?: unknown): void {
+    this.write({ op: "enqueue", item, payload });
+  }
+
+  acknowledge(ids: string[]): void {
+    if (ids.length > 0) this.write({ op: "ack", ids });
+  }
+
+  remove(ids: string[]): void {
+    if (ids.length > 0) this.write({ op: "remove", ids });
+  }
+
+  reorder(ids: string[]): void {
+    this.write({ op: "order", ids });
+  }
+
+  /** Drop every pending item. */
+  clear(): void {
+    this.ensureLoaded();
+    this.pending.clear();
+    this.compact();
+  }
+
+  // ── Internals ───────────────────────────────────────────────────
+
+  /** Mutations must fold into the state on disk, not replace it */
+  private ensureLoaded(): void {
+    if (!this.loaded) this.load();
+  }
+
+  private apply(event: QueueJournalEvent): void {
+    switch (event.op) {
+      case "enqueue": {
+        const clientMessageId = event.item.clientMessageId;
+        if (clientMessageId && this.hasClientMessageId(clientMessageId)) {
+          return;
+        }
+        this.pending.set(event.item.id, {
+          item: event.item,
+          ...(event.payload !== undefined ? { payload: event.payload } : {}),
+        });
+        return;
+      }
+      case "ack":
+        for (const id of event.ids) {
+          const clientMessageId = this.pending.get(id)?.item.clientMessageId;
+          if (clientMessageId) this.rememberProcessed(clientMessageId);
+          this.pending.delete(id);
+        }
+        return;
+      case "remove":
+        for (const id of event.ids) {
+          this.pending.delete(id);
+        }
+        return;
+      case "order": {
+        // Items already handed to a turn are not part of the new order and
+        // stay ahead of it
+        const ordered = new Set(event.ids);
+        const reordered = new Map<string, QueueJournalEntry>();
+        for (const [id, entry] of this.pending) {
+          if (!ordered.has(id)) reordered.set(id, entry);
+        }
+        for (const id of event.ids) {
+          const entry = this.pending.get(id);
+          if (entry) reordered.set(id, entry);
+        }
+        this.pending = reordered;
+        return;
+      }
+      case "processed":
+        for (const clientMessageId of event.client_message_ids) {
+          this.rememberProcessed(clientMessageId);
+        }
+        return;
+    }
+  }
+
+  private rememberProcessed(clientMessageId: string): void {
+    this.processedClientMessageIds.push(clientMessageId);
+    if (
+      this.processedClientMessageIds.length > MAX_PROCESSED_CLIENT_MESSAGE_IDS
+    ) {
+      this.processedClientMessageIds.shift();
+    }
+  }
+
+  private write(event: QueueJournalEvent): void {
+    this.ensureLoaded();
+    this.apply(event);
+    // Once nothing is pending the log can start over
+    if (this.pending.size === 0) {
+      this.compact();
+      return;
+    }
+    if (
+      this.sizeBytes > COMPACT_THRESHOLD_BYTES &&
+      this.sizeBytes > 2 * this.compactedSizeBytes
+    ) {
+      this.compact();
+      return;
+    }
+    try {
+      const line = `${JSON.stringify(event)}\n`;
+      mkdirSync(dirname(this.path), { recursive: true });
+      appendFileSync(this.path, line);
+      this.sizeBytes += Buffer.byteLength(line);
+    } catch (error) {
+      debugWarn(
+        "queue-journal",
+        `Failed to write ${this.path}: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  private readEvents(): QueueJournalEvent[] {
+    if (!existsSync(this.path)) return [];
+    let raw: string;
+    try {
+      raw = readFileSync(this.path, "utf-8");
+    } catch {
+      return [];
+    }
+    const events: QueueJournalEvent[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line) as QueueJournalEvent;
+        if (
+          (event.op === "enqueue" && typeof event.item?.id === "string") ||
+          ((event.op === "ack" ||
+            event.op === "remove" ||
+            event.op === "order") &&
+            Array.isArray(event.ids)) ||
+          (event.op === "processed" && Array.isArray(event.client_message_ids))
+        ) {
+          events.push(event);
+        }
+      } catch {
+        // Skip torn or corrupt lines (e.g. a crash mid-append).
+      }
+    }
+    return events;
+  }
+
+  /** Rewrite the file with only the current state (or delete it when empty). */
+  private compact(): void {
+    const events: QueueJournalEvent[] = [];
+    if (this.processedClientMessageIds.length > 0) {
+      events.push({
+        op: "processed",
+        client_message_ids: this.processedClientMessageIds.slice(),
+      });
+    }
+    for (const { item, payload } of this.pending.values()) {
+      events.push({ op: "enqueue", item, payload });
+    }
+
+    try {
+      if (events.length === 0) {
+        rmSync(this.path, { force: true });
+        this.sizeBytes = this.compactedSizeBytes = 0;
+        return;
+      }
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.tmp`;
+      const content = events
+        .map((event) => `${JSON.stringify(event)}\n`)
+        .join("");
+      writeFileSync(tmp, content, { flush: true });
+      renameSync(tmp, this.path);
+      this.sizeBytes = this.compactedSizeBytes = Buffer.byteLength(content);
+    } catch (error) {
+      debugWarn(
+        "queue-journal",
+        `Failed to compact ${this.path}: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+}
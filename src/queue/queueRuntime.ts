@@ -7,6 +7,7 @@ import type {
   QueueItemSource,
 } from "../types/protocol";
 import { isDebugEnabled } from "../utils/debug";
+import type { QueueJournal, QueueJournalEntry } from "./queueJournal";
 
 export type { QueueBlockedReason, QueueClearedReason, QueueItemKind };
 
@@ -53,6 +54,8 @@ export type CronPromptQueueItem = QueueItemBase & {
   text: string;
   /** Cron task ID for tracing. */
   cronTaskId: string;
+  /** Run history record ID, used to record the turn's outcome. */
+  cronRunId?: string;
 };
 
 export type QueueItem =
@@ -78,6 +81,104 @@ function hasSameScope(a: QueueItem, b: QueueItem): boolean {
   );
 }
 
+// ── Scheduling policy ────────────────────────────────────────────
+
+/**
+ * Item priorities. Higher runs first; items of equal priority stay in
+ * arrival order. A source priority overrides the kind priority; anything
+ * unlisted is 0, so an empty policy is plain FIFO.
+ */
+export interface QueuePriorities {
+  kinds?: Partial<Record<QueueItemKind, number>>;
+  sources?: Partial<Record<QueueItemSource, number>>;
+}
+
+/** At most `maxItems` accepted enqueues per sliding `windowMs`. */
+export interface QueueRateLimit {
+  maxItems: number;
+  windowMs: number;
+}
+
+/** Scheduling policy overrides read from the `queue` settings key. */
+export interface QueueSettings {
+  priorities?: QueuePriorities;
+  rateLimits?: Partial<Record<QueueItemSource, QueueRateLimit>>;
+}
+
+function isValidRateLimit(limit: unknown): limit is QueueRateLimit {
+  if (!limit || typeof limit !== "object") return false;
+  const { maxItems, windowMs } = limit as Partial<QueueRateLimit>;
+  return (
+    typeof maxItems === "number" &&
+    maxItems >= 1 &&
+    typeof windowMs === "number" &&
+    windowMs > 0
+  );
+}
+
+/**
+ * Layer settings over a default policy, per kind and per source. Rate
+ * limits without a positive maxItems and windowMs are ignored.
+ */
+export function mergeQueueSettings(
+  defaults: QueueSettings,
+  overrides: QueueSettings | undefined,
+): Required<QueueSettings> {
+  const rateLimits = { ...defaults.rateLimits };
+  for (const [source, limit] of Object.entries(overrides?.rateLimits ?? {})) {
+    if (isValidRateLimit(limit)) {
+      rateLimits[source as QueueItemSource] = limit;
+    } else if (isDebugEnabled()) {
+      console.warn(`[QueueRuntime] Ignoring invalid rate limit for ${source}`);
+    }
+  }
+  return {
+    priorities: {
+      kinds: { ...defaults.priorities?.kinds, ...overrides?.priorities?.kinds },
+      sources: {
+        ...defaults.priorities?.sources,
+        ...overrides?.priorities?.sources,
+      },
+    },
+    rateLimits,
+  };
+}
+
+/**
+ * Sources whose items are never dropped: the buffer limits evict other
+ * items (or overflow) instead, and rate limits do not apply to them.
+ */
+const PROTECTED_SOURCES: ReadonlySet<QueueItemSource> = new Set(["user"]);
+
+// ── Metrics ──────────────────────────────────────────────────────
+
+export interface QueueSourceMetrics {
+  /** Items currently queued. */
+  pending: number;
+  /** Items dequeued since the runtime was created. */
+  dequeued: number;
+  /** Items dropped since the runtime was created, for any reason. */
+  dropped: number;
+  /** Mean enqueue-to-dequeue wait of the dequeued items. */
+  avgWaitMs: number;
+  maxWaitMs: number;
+}
+
+export interface QueueMetrics {
+  pending: number;
+  /** How long the oldest queued item has been waiting; 0 when empty. */
+  oldestWaitMs: number;
+  /** Sources that have had any traffic. */
+  bySource: Partial<Record<QueueItemSource, QueueSourceMetrics>>;
+}
+
+type SourceStats = {
+  dequeued: number;
+  dropped: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+};
+
 // ── Batch / callbacks ────────────────────────────────────────────
 
 export interface DequeuedBatch {
@@ -110,28 +211,47 @@ export interface QueueCallbacks {
    * queueLen is the post-operation queue depth:
    * - Soft-limit coalescable drop: one removed, one added → net unchanged.
    * - Hard-ceiling rejection: item not added → current length unchanged.
+   * - Rate-limited or duplicate rejection: current length unchanged.
    */
   onDropped?: (
     item: QueueItem,
     reason: QueueItemDroppedReason,
     queueLen: number,
   ) => void;
+  /** Fired after reorder() changed the order of pending items. */
+  onReordered?: (items: QueueItem[]) => void;
 }
 
 // ── Options ──────────────────────────────────────────────────────
 
 export interface QueueRuntimeOptions {
   /**
-   * Soft limit. When reached, the oldest coalescable item is dropped
-   * to make room for a new one. Default: 100.
+   * Soft limit. When reached, the oldest lowest-priority coalescable item
+   * is dropped to make room for a new one. User messages are never
+   * dropped. Default: 100.
    */
   maxItems?: number;
   /**
    * Hard ceiling. When reached, enqueue is rejected entirely (returns null)
-   * for all item kinds and onDropped fires. Default: maxItems * 3.
+   * and onDropped fires — except for user messages, which evict a droppable
+   * item or overflow. Default: maxItems * 3.
    */
   hardMaxItems?: number;
+  /** Scheduling priorities. Default: FIFO. */
+  priorities?: QueuePriorities;
+  /**
+   * Per-source enqueue rate limits. Enqueues over the limit are dropped
+   * with onDropped("rate_limited"). User messages are exempt.
+   */
+  rateLimits?: Partial<Record<QueueItemSource, QueueRateLimit>>;
   callbacks?: QueueCallbacks;
+  /**
+   * On-disk journal. When set, every mutation is persisted, dequeued items
+   * stay in the journal until acknowledge(), and enqueues whose
+   * clientMessageId is already pending or recently processed are dropped as
+   * duplicates. Call restore() to load the journaled items.
+   */
+  journal?: QueueJournal;
 }
 
 // ── Runtime ──────────────────────────────────────────────────────
@@ -141,6 +261,16 @@ export class QueueRuntime {
   private readonly callbacks: QueueCallbacks;
   private readonly maxItems: number;
   private readonly hardMaxItems: number;
+  private readonly priorities: QueuePriorities;
+  private readonly rateLimits: Partial<Record<QueueItemSource, QueueRateLimit>>;
+  private readonly journal: QueueJournal | null;
+  /** Payloads stored with journaled items, by item id. */
+  private readonly journalPayloads = new Map<string, unknown>();
+  /** Dequeued items whose turn has not been acknowledged yet (journal only). */
+  private readonly inFlight = new Map<string, QueueItem>();
+  /** Accepted enqueue timestamps per rate-limited source, oldest first. */
+  private readonly enqueueTimes = new Map<QueueItemSource, number[]>();
+  private readonly sourceStats = new Map<QueueItemSource, SourceStats>();
   private nextId = 0;
   private nextBatchId = 0;
 
@@ -157,54 +287,83 @@ export class QueueRuntime {
     this.maxItems = maxItems;
     this.hardMaxItems = hardMaxItems;
     this.callbacks = options.callbacks ?? {};
+    this.priorities = options.priorities ?? {};
+    this.rateLimits = options.rateLimits ?? {};
+    this.journal = options.journal ?? null;
   }
 
   // ── Enqueue ────────────────────────────────────────────────────
 
   /**
-   * Add an item to the queue. Returns the enqueued item (with assigned id
-   * and enqueuedAt), or null if the hard ceiling was reached.
+   * Add an item to the queue behind every item of equal or higher priority
+   * and behind every barrier item (approval results and overlay actions
+   * keep their place whatever the priorities). Returns the enqueued item (with assigned id and enqueuedAt), or null if
+   * it was dropped.
    *
-   * - If at soft limit and item is coalescable: drops oldest coalescable item.
+   * - If at soft limit and item is coalescable: drops the oldest of the
+   *   lowest-priority coalescable items (or the new item, if it ranks
+   *   lower than all of them).
    * - If at soft limit and item is a barrier: allows overflow (soft limit only
    *   applies to coalescable items).
-   * - If at hard ceiling: rejects all item kinds, fires onDropped("buffer_limit").
+   * - If at hard ceiling: rejects the item, fires onDropped("buffer_limit").
+   * - User messages are never dropped: they are exempt from rate limits, are
+   *   never chosen to make room, and at the hard ceiling evict a droppable
+   *   item (or overflow when there is none).
+   * - If the item's source is over its rate limit: rejects it with
+   *   onDropped("rate_limited").
+   * - With a journal, a clientMessageId that is already pending or was
+   *   recently processed is rejected with onDropped("duplicate").
+   *
+   * `payload` is persisted with the item in the journal (ignored otherwise).
    */
-  enqueue(input: Omit<QueueItem, "id" | "enqueuedAt">): QueueItem | null {
+  enqueue(
+    input: Omit<QueueItem, "id" | "enqueuedAt">,
+    payload?: unknown,
+  ): QueueItem | null {
+    if (
+      this.journal &&
+      input.clientMessageId &&
+      this.journal.hasClientMessageId(input.clientMessageId)
+    ) {
+      this.drop(this.makeItem(input), "duplicate");
+      return null;
+    }
+
+    const isProtected = PROTECTED_SOURCES.has(input.source);
+    if (!isProtected && this.isRateLimited(input.source)) {
+      this.drop(this.makeItem(input), "rate_limited");
+      return null;
+    }
+
     // Hard ceiling check
     if (this.store.length >= this.hardMaxItems) {
-      const phantom = this.makeItem(input);
-      this.safeCallback(
-        "onDropped",
-        phantom,
-        "buffer_limit",
-        this.store.length,
-      );
-      return null;
+      if (!isProtected) {
+        this.drop(this.makeItem(input), "buffer_limit");
+        return null;
+      }
+      const dropIdx = this.findDroppableIndex();
+      if (dropIdx !== -1) {
+        return this.replace(dropIdx, input, payload);
+      }
+      // Nothing droppable: the user message overflows the ceiling
     }
 
     // Soft limit: only drop coalescable items
     if (this.store.length >= this.maxItems && isCoalescable(input.kind)) {
-      const dropIdx = this.store.findIndex((i) => isCoalescable(i.kind));
-      const dropped =
-        dropIdx !== -1 ? this.store.splice(dropIdx, 1)[0] : undefined;
-      if (dropped !== undefined) {
-        const item = this.makeItem(input);
-        this.store.push(item);
-        // queueLen after: same as before (one dropped, one added)
-        this.safeCallback(
-          "onDropped",
-          dropped,
-          "buffer_limit",
-          this.store.length,
-        );
-        this.safeCallback("onEnqueued", item, this.store.length);
-        return item;
+      const dropIdx = this.findDroppableIndex();
+      const target = this.store[dropIdx];
+      if (target !== undefined) {
+        if (!isProtected && this.priorityOf(input) < this.priorityOf(target)) {
+          // The new item is the least important one
+          this.drop(this.makeItem(input), "buffer_limit");
+          return null;
+        }
+        return this.replace(dropIdx, input, payload);
       }
     }
 
     const item = this.makeItem(input);
-    this.store.push(item);
+    this.insert(item, payload);
     this.safeCallback("onEnqueued", item, this.store.length);
 
     // If queue just became non-empty while blocked, blocked-epoch tracking resets
@@ -278,6 +437,8 @@ export class QueueRuntime {
     if (this.store.length === 0) {
       this.blockedEmittedForNonEmpty = false;
     }
+    this.recordDequeued(batch);
+    this.markInFlight(batch);
 
     const result: DequeuedBatch = {
       batchId: `batch-${++this.nextBatchId}`,
@@ -304,6 +465,8 @@ export class QueueRuntime {
     if (this.store.length === 0) {
       this.blockedEmittedForNonEmpty = false;
     }
+    this.recordDequeued(batch);
+    this.markInFlight(batch);
     const result: DequeuedBatch = {
       batchId: `batch-${++this.nextBatchId}`,
       items: batch,
@@ -325,13 +488,107 @@ export class QueueRuntime {
     this.blockedEmittedForNonEmpty = false;
   }
 
+  // ── Journal ────────────────────────────────────────────────────
+
+  /**
+   * Mark every dequeued item as processed: the turns that consumed them
+   * have finished, so they are dropped from the journal and will not be
+   * replayed. No-op without a journal.
+   */
+  acknowledge(): void {
+    if (!this.journal || this.inFlight.size === 0) return;
+    const ids = [...this.inFlight.keys()];
+    this.inFlight.clear();
+    for (const id of ids) {
+      this.journalPayloads.delete(id);
+    }
+    this.journal.acknowledge(ids);
+  }
+
+  /**
+   * Load journaled items that are not queued or in flight in this runtime
+   * (e.g. left over from a previous process) ahead of the queued items.
+   * Returns the restored items. No-op without a journal.
+   */
+  restore(): QueueItem[] {
+    if (!this.journal) return [];
+    const known = new Set([
+      ...this.store.map((item) => item.id),
+      ...this.inFlight.keys(),
+    ]);
+    const restored: QueueJournalEntry[] = this.journal
+      .load()
+      .filter((entry) => !known.has(entry.item.id));
+    for (const { item, payload } of restored) {
+      if (payload !== undefined) this.journalPayloads.set(item.id, payload);
+      const idNumber = Number(item.id.replace(/^q-/, ""));
+      if (Number.isFinite(idNumber) && idNumber > this.nextId) {
+        this.nextId = idNumber;
+      }
+    }
+    this.store.unshift(...restored.map((entry) => entry.item));
+    return restored.map((entry) => entry.item);
+  }
+
+  /** Payload stored with a journaled item by enqueue() or restore(). */
+  getPayload(id: string): unknown {
+    return this.journalPayloads.get(id);
+  }
+
+  // ── Manage ─────────────────────────────────────────────────────
+
+  /**
+   * Remove specific pending items. Fires onDropped("removed") for each.
+   * Unknown ids are ignored. Returns the removed items.
+   */
+  remove(ids: readonly string[]): QueueItem[] {
+    const wanted = new Set(ids);
+    const removed = this.store.filter((item) => wanted.has(item.id));
+    if (removed.length === 0) return [];
+    const remaining = this.store.filter((item) => !wanted.has(item.id));
+    this.store.splice(0, this.store.length, ...remaining);
+    this.journal?.remove(removed.map((item) => item.id));
+    for (const item of removed) {
+      this.journalPayloads.delete(item.id);
+      this.drop(item, "removed");
+    }
+    return removed;
+  }
+
+  /**
+   * Move the given pending items to the front of the queue, in the given
+   * order; the others keep their relative order behind them. An explicit
+   * order overrides priorities (they only apply when items are enqueued). Returns false
+   * (and changes nothing) if an id is unknown or repeated.
+   */
+  reorder(ids: readonly string[]): boolean {
+    const byId = new Map(this.store.map((item) => [item.id, item]));
+    if (new Set(ids).size !== ids.length || ids.some((id) => !byId.has(id))) {
+      return false;
+    }
+    const front = ids.map((id) => byId.get(id) as QueueItem);
+    const rest = this.store.filter((item) => !ids.includes(item.id));
+    this.store.splice(0, this.store.length, ...front, ...rest);
+    this.journal?.reorder(this.store.map((item) => item.id));
+    this.safeCallback("onReordered", this.store.slice());
+    return true;
+  }
+
   // ── Clear ──────────────────────────────────────────────────────
 
-  /** Remove all items and fire onCleared. */
+  /**
+   * Remove all items and fire onCleared. A "shutdown" clear keeps journaled
+   * items on disk so they are restored on the next start.
+   */
   clear(reason: QueueClearedReason): void {
     const count = this.store.length;
     const clearedItems = this.store.slice();
     this.store.length = 0;
+    if (this.journal && reason !== "shutdown") {
+      this.journal.clear();
+      this.journalPayloads.clear();
+      this.inFlight.clear();
+    }
     this.lastEmittedBlockedReason = null;
     this.blockedEmittedForNonEmpty = false;
     this.safeCallback("onCleared", reason, count, clearedItems);
@@ -355,8 +612,167 @@ export class QueueRuntime {
     return this.store.slice();
   }
 
+  /** Queue depth and wait times, overall and per source. */
+  getMetrics(now: number = Date.now()): QueueMetrics {
+    const bySource: Partial<Record<QueueItemSource, QueueSourceMetrics>> = {};
+    const entry = (source: QueueItemSource): QueueSourceMetrics => {
+      let metrics = bySource[source];
+      if (!metrics) {
+        const stats = this.sourceStats.get(source);
+        metrics = {
+          pending: 0,
+          dequeued: stats?.dequeued ?? 0,
+          dropped: stats?.dropped ?? 0,
+          avgWaitMs: stats?.dequeued
+            ? Math.round(stats.totalWaitMs / stats.dequeued)
+            : 0,
+          maxWaitMs: stats?.maxWaitMs ?? 0,
+        };
+        bySource[source] = metrics;
+      }
+      return metrics;
+    };
+    for (const source of this.sourceStats.keys()) {
+      entry(source);
+    }
+    let oldestEnqueuedAt = now;
+    for (const item of this.store) {
+      entry(item.source).pending++;
+      oldestEnqueuedAt = Math.min(oldestEnqueuedAt, item.enqueuedAt);
+    }
+    return {
+      pending: this.store.length,
+      oldestWaitMs: Math.max(0, now - oldestEnqueuedAt),
+      bySource,
+    };
+  }
+
   // ── Internals ──────────────────────────────────────────────────
 
+  private priorityOf(item: Pick<QueueItem, "kind" | "source">): number {
+    return (
+      this.priorities.sources?.[item.source] ??
+      this.priorities.kinds?.[item.kind] ??
+      0
+    );
+  }
+
+  /**
+   * Add behind every item of equal or higher priority, never ahead of a
+   * barrier, and persist it.
+   */
+  private insert(item: QueueItem, payload: unknown): void {
+    const priority = this.priorityOf(item);
+    let index = this.store.length;
+    while (index > 0) {
+      const previous = this.store[index - 1] as QueueItem;
+      if (
+        !isCoalescable(previous.kind) ||
+        this.priorityOf(previous) >= priority
+      ) {
+        break;
+      }
+      index--;
+    }
+    this.store.splice(index, 0, item);
+    this.recordEnqueueTime(item.source);
+
+    if (!this.journal) return;
+    if (payload !== undefined) this.journalPayloads.set(item.id, payload);
+    this.journal.append(item, payload);
+    if (index < this.store.length - 1) {
+      this.journal.reorder(this.store.map((queued) => queued.id));
+    }
+  }
+
+  /** Drop the item at `dropIdx` to make room for a new one. */
+  private replace(
+    dropIdx: number,
+    input: Omit<QueueItem, "id" | "enqueuedAt">,
+    payload: unknown,
+  ): QueueItem {
+    const [dropped] = this.store.splice(dropIdx, 1) as [QueueItem];
+    this.journal?.remove([dropped.id]);
+    this.journalPayloads.delete(dropped.id);
+    const item = this.makeItem(input);
+    this.insert(item, payload);
+    // queueLen after: same as before (one dropped, one added)
+    this.drop(dropped, "buffer_limit");
+    this.safeCallback("onEnqueued", item, this.store.length);
+    return item;
+  }
+
+  /**
+   * Index of the item to drop for room: the oldest of the lowest-priority
+   * coalescable items that are not protected, or -1.
+   */
+  private findDroppableIndex(): number {
+    let dropIdx = -1;
+    let lowest = Number.POSITIVE_INFINITY;
+    for (const [index, item] of this.store.entries()) {
+      if (!isCoalescable(item.kind) || PROTECTED_SOURCES.has(item.source)) {
+        continue;
+      }
+      const priority = this.priorityOf(item);
+      if (priority < lowest) {
+        lowest = priority;
+        dropIdx = index;
+      }
+    }
+    return dropIdx;
+  }
+
+  private isRateLimited(source: QueueItemSource): boolean {
+    const limit = this.rateLimits[source];
+    if (!limit) return false;
+    const times = this.enqueueTimes.get(source);
+    if (!times) return false;
+    const cutoff = Date.now() - limit.windowMs;
+    while (times.length > 0 && (times[0] as number) <= cutoff) {
+      times.shift();
+    }
+    return times.length >= limit.maxItems;
+  }
+
+  private recordEnqueueTime(source: QueueItemSource): void {
+    if (!this.rateLimits[source] || PROTECTED_SOURCES.has(source)) return;
+    const times = this.enqueueTimes.get(source) ?? [];
+    times.push(Date.now());
+    this.enqueueTimes.set(source, times);
+  }
+
+  private statsFor(source: QueueItemSource): SourceStats {
+    let stats = this.sourceStats.get(source);
+    if (!stats) {
+      stats = { dequeued: 0, dropped: 0, totalWaitMs: 0, maxWaitMs: 0 };
+      this.sourceStats.set(source, stats);
+    }
+    return stats;
+  }
+
+  private recordDequeued(batch: QueueItem[]): void {
+    const now = Date.now();
+    for (const item of batch) {
+      const stats = this.statsFor(item.source);
+      const waitMs = Math.max(0, now - item.enqueuedAt);
+      stats.dequeued++;
+      stats.totalWaitMs += waitMs;
+      stats.maxWaitMs = Math.max(stats.maxWaitMs, waitMs);
+    }
+  }
+
+  private drop(item: QueueItem, reason: QueueItemDroppedReason): void {
+    this.statsFor(item.source).dropped++;
+    this.safeCallback("onDropped", item, reason, this.store.length);
+  }
+
+  private markInFlight(batch: QueueItem[]): void {
+    if (!this.journal) return;
+    for (const item of batch) {
+      this.inFlight.set(item.id, item);
+    }
+  }
+
   private makeItem(input: Omit<QueueItem, "id" | "enqueuedAt">): QueueItem {
     return {
       ...input,
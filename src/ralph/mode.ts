@@ -10,13 +10,31 @@ export const DEFAULT_COMPLETION_PROMISE =
   "clean and production-ready. I have not taken any shortcuts or faked anything to " +
   "meet these requirements.";
 
+/** Outcome of running the verify command after a detected promise */
+export type RalphVerificationResult = {
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  output: string; // combined stdout/stderr, truncated
+  durationMs: number;
+};
+
+/** Per-iteration record shown in the summary when the loop ends */
+export type RalphIterationResult = {
+  iteration: number;
+  promiseDetected: boolean;
+  verification?: RalphVerificationResult; // only when a verify command ran
+};
+
 export type RalphState = {
   isActive: boolean;
   isYolo: boolean;
   originalPrompt: string;
   completionPromise: string | null; // null = no promise check (Claude Code style)
+  verifyCommand: string | null; // null = accept the promise without verification
   maxIterations: number; // 0 = unlimited
   currentIteration: number;
+  iterationResults: RalphIterationResult[];
 };
 
 // Use globalThis to ensure singleton across bundle
@@ -32,8 +50,10 @@ function getDefaultState(): RalphState {
     isYolo: false,
     originalPrompt: "",
     completionPromise: null,
+    verifyCommand: null,
     maxIterations: 0,
     currentIteration: 0,
+    iterationResults: [],
   };
 }
 
@@ -62,12 +82,14 @@ class RalphModeManager {
    * @param completionPromise - Promise text to check for (null = no check, uses default if undefined)
    * @param maxIterations - Max iterations before auto-stop (0 = unlimited)
    * @param isYolo - Whether to bypass permissions
+   * @param verifyCommand - Shell command that must pass before the promise is accepted
    */
   activate(
     prompt: string,
     completionPromise: string | null | undefined,
     maxIterations: number,
     isYolo: boolean,
+    verifyCommand: string | null = null,
   ): void {
     // If completionPromise is undefined, use default
     // If it's null or empty string, that means "no promise check" (Claude Code style)
@@ -89,8 +111,10 @@ class RalphModeManager {
       isYolo,
       originalPrompt: prompt,
       completionPromise: resolvedPromise,
+      verifyCommand: verifyCommand?.trim() || null,
       maxIterations,
       currentIteration: 1,
+      iterationResults: [],
     });
   }
 
@@ -119,6 +143,20 @@ class RalphModeManager {
     });
   }
 
+  /**
+   * Record the outcome of the current iteration.
+   */
+  recordIteration(result: Omit<RalphIterationResult, "iteration">): void {
+    const state = getGlobalState();
+    setGlobalState({
+      ...state,
+      iterationResults: [
+        ...state.iterationResults,
+        { iteration: state.currentIteration, ...result },
+      ],
+    });
+  }
+
   /**
    * Check if the assistant's output contains the completion promise.
    * Uses regex to find <promise>...</promise> tags.
@@ -0,0 +1,182 @@
+// src/ralph/verify.ts
+// Verification gate for Ralph mode: runs the verify command when the
+// completion promise is detected and summarizes per-iteration results
+
+import { type ChildProcess, spawn } from "node:child_process";
+import { buildShellLaunchers } from "../tools/impl/shellLaunchers";
+import type { RalphState, RalphVerificationResult } from "./mode";
+
+/** Default timeout for the verify command (10 minutes) */
+const DEFAULT_VERIFY_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Verify output beyond this is truncated, keeping the tail (where failures usually are) */
+const MAX_VERIFY_OUTPUT_CHARS = 8000;
+
+function truncateOutput(output: string): string {
+  if (output.length <= MAX_VERIFY_OUTPUT_CHARS) return output;
+  return `... (truncated)\n${output.slice(-MAX_VERIFY_OUTPUT_CHARS)}`;
+}
+
+function runWithLauncher(
+  launcher: string[],
+  workingDirectory: string,
+  timeout: number,
+  signal: AbortSignal | undefined,
+): Promise<Omit<RalphVerificationResult, "durationMs">> {
+  return new Promise((resolve, reject) => {
+    const [executable, ...args] = launcher;
+    if (!executable) {
+      reject(new Error("Empty launcher"));
+      return;
+    }
+
+    let child: ChildProcess;
+    try {
+      child = spawn(executable, args, {
+        cwd: workingDirectory,
+        env: process.env,
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+    } catch (error) {
+      reject(error);
+      return;
+    }
+
+    let output = "";
+    let timedOut = false;
+    let settled = false;
+    child.stdout?.on("data", (data: Buffer) => {
+      output += data.toString();
+    });
+    child.stderr?.on("data", (data: Buffer) => {
+      output += data.toString();
+    });
+
+    const kill = () => {
+      child.kill("SIGTERM");
+      setTimeout(() => {
+        if (!settled) child.kill("SIGKILL");
+      }, 1000);
+    };
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, timeout);
+    signal?.addEventListener("abort", kill);
+
+    child.on("close", (code: number | null) => {
+      settled = true;
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", kill);
+      resolve({
+        passed: code === 0 && !timedOut,
+        exitCode: code,
+        timedOut,
+        output: truncateOutput(
+          timedOut
+            ? `${output.trimEnd()}\nVerify command timed out after ${timeout}ms`.trim()
+            : output.trim(),
+        ),
+      });
+    });
+
+    // ENOENT rejects so the next launcher can be tried
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      settled = true;
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", kill);
+      if (error.code === "ENOENT") {
+        reject(error);
+        return;
+      }
+      resolve({
+        passed: false,
+        exitCode: null,
+        timedOut: false,
+        output: `Failed to run verify command: ${error.message}`,
+      });
+    });
+  });
+}
+
+/**
+ * Run the verify command in a shell. Never throws: launch failures are
+ * reported as a failed verification.
+ */
+export async function runVerifyCommand(
+  command: string,
+  options: {
+    workingDirectory?: string;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+  } = {},
+): Promise<RalphVerificationResult> {
+  const startTime = Date.now();
+  const workingDirectory = options.workingDirectory ?? process.cwd();
+  const timeout = options.timeoutMs ?? DEFAULT_VERIFY_TIMEOUT_MS;
+
+  let lastError: Error | null = null;
+  for (const launcher of buildShellLaunchers(command)) {
+    try {
+      const result = await runWithLauncher(
+        launcher,
+        workingDirectory,
+        timeout,
+        options.signal,
+      );
+      return { ...result, durationMs: Date.now() - startTime };
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  return {
+    passed: false,
+    exitCode: null,
+    timedOut: false,
+    output: `Failed to run verify command: ${lastError?.message || "No suitable shell found"}`,
+    durationMs: Date.now() - startTime,
+  };
+}
+
+/**
+ * Message fed back to the agent when the promise was detected but the
+ * verify command failed
+ */
+export function buildVerificationFailureFeedback(
+  command: string,
+  result: RalphVerificationResult,
+): string {
+  const status = result.timedOut
+    ? "timed out"
+    : `exited with code ${result.exitCode ?? "unknown"}`;
+  return `Your completion promise was NOT accepted: the verify command \`${command}\` ${status}.
+Fix the failures below, then output the completion promise again once the verify command passes.
+
+${result.output || "(no output)"}`;
+}
+
+/**
+ * Human-readable per-iteration summary shown when the loop ends
+ */
+export function formatRalphSummary(state: RalphState): string[] {
+  if (state.iterationResults.length === 0) return [];
+  const lines = ["Iterations:"];
+  for (const result of state.iterationResults) {
+    let detail: string;
+    if (!result.promiseDetected) {
+      detail = "no promise";
+    } else if (!result.verification) {
+      detail = "promise accepted";
+    } else {
+      const seconds = (result.verification.durationMs / 1000).toFixed(1);
+      detail = result.verification.passed
+        ? `promise, verify passed (${seconds}s)`
+        : result.verification.timedOut
+          ? `promise, verify timed out (${seconds}s)`
+          : `promise, verify failed with exit ${result.verification.exitCode ?? "?"} (${seconds}s)`;
+    }
+    lines.push(`  ${result.iteration}. ${detail}`);
+  }
+  return lines;
+}
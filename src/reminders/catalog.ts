@@ -14,7 +14,8 @@ export type SharedReminderId =
   | "reflection-step-count"
   | "reflection-compaction"
   | "command-io"
-  | "toolset-change";
+  | "toolset-change"
+  | "custom";
 
 export interface SharedReminderDefinition {
   id: SharedReminderId;
@@ -104,6 +105,16 @@ export const SHARED_REMINDER_CATALOG: ReadonlyArray<SharedReminderDefinition> =
       description: "Client-side toolset change context",
       modes: ["interactive"],
     },
+    {
+      id: "custom",
+      description: "User-defined reminders from settings",
+      modes: [
+        "interactive",
+        "headless-one-shot",
+        "headless-bidirectional",
+        "listen",
+      ],
+    },
   ];
 
 export const SHARED_REMINDER_IDS = SHARED_REMINDER_CATALOG.map(
@@ -0,0 +1,409 @@
+/**
+ * User-defined reminders from settings.
+ *
+ * The "reminders" block may appear in user (~/.letta/settings.json), project
+ * (.letta/settings.json) and local project (.letta/settings.local.json)
+ * settings, keyed by reminder name. A later level replaces the entry with
+ * the same name; a disabled entry removes it. Each reminder has a trigger,
+ * a source for its text and the modes it applies to, and is evaluated once
+ * per turn by the "custom" shared reminder.
+ */
+
+import { exec } from "node:child_process";
+import { readFile, stat } from "node:fs/promises";
+import { isAbsolute, join } from "node:path";
+import { promisify } from "node:util";
+import { SYSTEM_REMINDER_CLOSE, SYSTEM_REMINDER_OPEN } from "../constants";
+import { getNextFireTimes, parseCron } from "../cron/cronExpression";
+import { canonicalToolName } from "../permissions/canonical";
+import { settingsManager } from "../settings-manager";
+import { debugWarn } from "../utils/debug";
+import { getErrorMessage } from "../utils/error";
+import type { SharedReminderMode } from "./catalog";
+import type { CustomReminderState, SharedReminderState } from "./state";
+import { getToolUseEventSeq, getToolUseEventsSince } from "./toolEvents";
+
+const execAsync = promisify(exec);
+
+// ── Settings types ──────────────────────────────────────────────────
+
+export type CustomReminderMode = "interactive" | "headless" | "listen";
+
+export type CustomReminderTrigger =
+  /** Every N user turns. */
+  | { type: "steps"; every: number }
+  /** After matching tool calls since the previous turn. */
+  | {
+      type: "event";
+      event: "tool_use";
+      /** Tool names to match (any tool when omitted). */
+      tools?: string[];
+      /** Regex tested against the JSON-encoded tool input. */
+      inputMatches?: string;
+    }
+  /** When any of the files changed since the previous turn. */
+  | { type: "file_change"; paths: string[] }
+  /** When the cron schedule fired since the previous turn. */
+  | { type: "cron"; schedule: string };
+
+export type CustomReminderSource =
+  | { type: "text"; text: string }
+  | { type: "file"; path: string }
+  | { type: "command"; command: string; timeoutMs?: number };
+
+export interface CustomReminderSettings {
+  trigger: CustomReminderTrigger;
+  source: CustomReminderSource;
+  /** Modes the reminder applies to (default: all). */
+  modes?: CustomReminderMode[];
+  disabled?: boolean;
+}
+
+export type CustomRemindersSettings = Record<string, CustomReminderSettings>;
+
+// ── Resolution ──────────────────────────────────────────────────────
+
+export type CustomReminderSettingsScope = "user" | "project" | "local";
+
+export interface CustomReminderConfig {
+  name: string;
+  trigger: CustomReminderTrigger;
+  source: CustomReminderSource;
+  modes: CustomReminderMode[];
+  scope: CustomReminderSettingsScope;
+}
+
+export interface ResolvedCustomReminders {
+  reminders: CustomReminderConfig[];
+  /** Invalid settings entries that were skipped */
+  warnings: string[];
+}
+
+const ALL_MODES: CustomReminderMode[] = ["interactive", "headless", "listen"];
+const DEFAULT_COMMAND_TIMEOUT_MS = 10_000;
+const MAX_REMINDER_CHARS = 8000;
+
+/**
+ * Load the project-level settings files the reminders config reads from
+ */
+export async function loadCustomReminderSettings(
+  workingDirectory: string,
+): Promise<void> {
+  await settingsManager.loadProjectSettings(workingDirectory);
+  await settingsManager.loadLocalProjectSettings(workingDirectory);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function validateTrigger(trigger: CustomReminderTrigger): string | null {
+  if (!trigger || typeof trigger !== "object") {
+    return "trigger must be an object";
+  }
+  switch (trigger.type) {
+    case "steps":
+      return Number.isInteger(trigger.every) && trigger.every > 0
+        ? null
+        : "steps trigger needs a positive integer 'every'";
+    case "event":
+      if (trigger.event !== "tool_use") {
+        return `unknown event "${String(trigger.event)}"`;
+      }
+      if (trigger.tools !== undefined && !isStringArray(trigger.tools)) {
+        return "tools must be an array of strings";
+      }
+      if (trigger.inputMatches !== undefined) {
+        try {
+          new RegExp(trigger.inputMatches);
+        } catch {
+          return "inputMatches is not a valid regex";
+        }
+      }
+      return null;
+    case "file_change":
+      return isStringArray(trigger.paths) && trigger.paths.length > 0
+        ? null
+        : "file_change trigger needs a non-empty 'paths' array";
+    case "cron":
+      return typeof trigger.schedule === "string" && parseCron(trigger.schedule)
+        ? null
+        : "cron trigger needs a valid 'schedule'";
+    default:
+      return `unknown trigger type "${String((trigger as { type?: unknown }).type)}"`;
+  }
+}
+
+function validateSource(source: CustomReminderSource): string | null {
+  if (!source || typeof source !== "object") {
+    return "source must be an object";
+  }
+  switch (source.type) {
+    case "text":
+      return typeof source.text === "string" && source.text.trim()
+        ? null
+        : "text source needs 'text'";
+    case "file":
+      return typeof source.path === "string" && source.path.trim()
+        ? null
+        : "file source needs 'path'";
+    case "command":
+      if (typeof source.command !== "string" || !source.command.trim()) {
+        return "command source needs 'command'";
+      }
+      if (
+        source.timeoutMs !== undefined &&
+        (typeof source.timeoutMs !== "number" || source.timeoutMs <= 0)
+      ) {
+        return "timeoutMs must be a positive number";
+      }
+      return null;
+    default:
+      return `unknown source type "${String((source as { type?: unknown }).type)}"`;
+  }
+}
+
+/**
+ * Validate one settings entry. Returns an error message when invalid.
+ */
+function validateReminderSettings(
+  entry: CustomReminderSettings,
+): string | null {
+  if (!entry || typeof entry !== "object") {
+    return "entry must be an object";
+  }
+  if (entry.disabled) return null;
+  if (
+    entry.modes !== undefined &&
+    (!isStringArray(entry.modes) ||
+      entry.modes.some((mode) => !ALL_MODES.includes(mode)))
+  ) {
+    return `modes must be a subset of ${ALL_MODES.join(", ")}`;
+  }
+  return validateTrigger(entry.trigger) ?? validateSource(entry.source);
+}
+
+/**
+ * Resolve the reminders from user, project and local settings in turn.
+ */
+export function resolveCustomReminders(
+  workingDirectory: string = process.cwd(),
+): ResolvedCustomReminders {
+  const reminders = new Map<string, CustomReminderConfig>();
+  const warnings: string[] = [];
+
+  for (const { scope, value: entries } of settingsManager.getSettingsLayers(
+    "reminders",
+    workingDirectory,
+  )) {
+    if (typeof entries !== "object" || Array.isArray(entries)) {
+      warnings.push(`${scope} settings: reminders must be an object`);
+      continue;
+    }
+    for (const [name, entry] of Object.entries(entries)) {
+      const error = validateReminderSettings(entry);
+      if (error) {
+        warnings.push(
+          `${scope} settings: reminder "${name}" skipped: ${error}`,
+        );
+        continue;
+      }
+      if (entry.disabled) {
+        reminders.delete(name);
+        continue;
+      }
+      reminders.set(name, {
+        name,
+        trigger: entry.trigger,
+        source: entry.source,
+        modes: entry.modes ?? ALL_MODES,
+        scope,
+      });
+    }
+  }
+
+  return { reminders: [...reminders.values()], warnings };
+}
+
+// ── Evaluation ──────────────────────────────────────────────────────
+
+function toCustomReminderMode(
+  mode: SharedReminderMode,
+): CustomReminderMode | null {
+  switch (mode) {
+    case "interactive":
+    case "listen":
+      return mode;
+    case "headless-one-shot":
+    case "headless-bidirectional":
+      return "headless";
+    default:
+      return null;
+  }
+}
+
+function resolvePath(path: string, workingDirectory: string): string {
+  return isAbsolute(path) ? path : join(workingDirectory, path);
+}
+
+async function readMtimes(
+  paths: string[],
+  workingDirectory: string,
+): Promise<Record<string, number | null>> {
+  const mtimes: Record<string, number | null> = {};
+  for (const path of paths) {
+    try {
+      mtimes[path] = (await stat(resolvePath(path, workingDirectory))).mtimeMs;
+    } catch {
+      mtimes[path] = null;
+    }
+  }
+  return mtimes;
+}
+
+interface TriggerContext {
+  workingDirectory: string;
+  now: number;
+  toolEvents: ReturnType<typeof getToolUseEventsSince>;
+}
+
+/**
+ * Whether the trigger fired since the previous turn. Updates the
+ * reminder's bookkeeping; file and cron triggers only record a baseline
+ * the first time they are checked.
+ */
+async function triggerFired(
+  trigger: CustomReminderTrigger,
+  state: CustomReminderState,
+  context: TriggerContext,
+): Promise<boolean> {
+  switch (trigger.type) {
+    case "steps":
+      state.turns += 1;
+      return state.turns % trigger.every === 0;
+    case "event": {
+      const pattern =
+        trigger.inputMatches !== undefined
+          ? new RegExp(trigger.inputMatches)
+          : null;
+      return context.toolEvents.some(
+        (event) =>
+          event.status === "success" &&
+          (!trigger.tools ||
+            trigger.tools.includes(event.toolName) ||
+            trigger.tools.includes(canonicalToolName(event.toolName))) &&
+          (!pattern || pattern.test(JSON.stringify(event.input) ?? "")),
+      );
+    }
+    case "file_change": {
+      const mtimes = await readMtimes(trigger.paths, context.workingDirectory);
+      const previous = state.fileMtimes;
+      state.fileMtimes = mtimes;
+      return (
+        previous !== undefined &&
+        trigger.paths.some((path) => previous[path] !== mtimes[path])
+      );
+    }
+    case "cron": {
+      const lastCheckedAt = state.lastCheckedAt;
+      state.lastCheckedAt = context.now;
+      if (lastCheckedAt === undefined) return false;
+      const [next] = getNextFireTimes(trigger.schedule, {
+        from: new Date(lastCheckedAt),
+        count: 1,
+      });
+      return next !== undefined && next.getTime() <= context.now;
+    }
+  }
+}
+
+function truncate(value: string): string {
+  if (value.length <= MAX_REMINDER_CHARS) {
+    return value;
+  }
+  return `${value.slice(0, MAX_REMINDER_CHARS)}... [truncated]`;
+}
+
+/**
+ * The reminder's text, or null when its source is empty or fails.
+ */
+async function readSource(
+  reminder: CustomReminderConfig,
+  workingDirectory: string,
+): Promise<string | null> {
+  const { source } = reminder;
+  try {
+    switch (source.type) {
+      case "text":
+        return source.text.trim() || null;
+      case "file": {
+        const content = await readFile(
+          resolvePath(source.path, workingDirectory),
+          "utf-8",
+        );
+        return content.trim() || null;
+      }
+      case "command": {
+        const { stdout } = await execAsync(source.command, {
+          cwd: workingDirectory,
+          timeout: source.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS,
+          maxBuffer: 1024 * 1024,
+        });
+        return stdout.trim() || null;
+      }
+    }
+  } catch (error) {
+    debugWarn(
+      "reminders",
+      `Reminder "${reminder.name}" source failed: ${getErrorMessage(error)}`,
+    );
+    return null;
+  }
+}
+
+/**
+ * Build the text of the user-defined reminders that fire this turn, or
+ * null when none do. Called once per turn.
+ */
+export async function buildCustomReminders(params: {
+  mode: SharedReminderMode;
+  state: SharedReminderState;
+  workingDirectory?: string;
+}): Promise<string | null> {
+  const mode = toCustomReminderMode(params.mode);
+  const { state } = params;
+  const toolEvents = getToolUseEventsSince(state.toolUseEventCursor);
+  state.toolUseEventCursor = getToolUseEventSeq();
+  if (!mode) return null;
+
+  const workingDirectory = params.workingDirectory ?? process.cwd();
+  await loadCustomReminderSettings(workingDirectory);
+  const { reminders, warnings } = resolveCustomReminders(workingDirectory);
+  for (const warning of warnings) {
+    debugWarn("reminders", warning);
+  }
+
+  const context: TriggerContext = {
+    workingDirectory,
+    now: Date.now(),
+    toolEvents,
+  };
+  const blocks: string[] = [];
+  for (const reminder of reminders) {
+    if (!reminder.modes.includes(mode)) continue;
+    const reminderState = state.customReminders[reminder.name] ?? {
+      turns: 0,
+    };
+    state.customReminders[reminder.name] = reminderState;
+    if (!(await triggerFired(reminder.trigger, reminderState, context))) {
+      continue;
+    }
+    const text = await readSource(reminder, workingDirectory);
+    if (!text) continue;
+    blocks.push(
+      `${SYSTEM_REMINDER_OPEN}\nReminder "${reminder.name}" (from ${reminder.scope} settings):\n${truncate(text)}\n${SYSTEM_REMINDER_CLOSE}`,
+    );
+  }
+
+  return blocks.length > 0 ? `${blocks.join("\n\n")}\n\n` : null;
+}
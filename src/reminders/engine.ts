@@ -20,6 +20,7 @@ import {
   type SharedReminderId,
   type SharedReminderMode,
 } from "./catalog";
+import { buildCustomReminders } from "./custom";
 import type { SessionContextReason, SharedReminderState } from "./state";
 
 type ReflectionTriggerSource = "step-count" | "compaction-event";
@@ -187,7 +188,9 @@ async function buildPermissionModeReminder(
   const description =
     PERMISSION_MODE_DESCRIPTIONS[
       currentMode as keyof typeof PERMISSION_MODE_DESCRIPTIONS
-    ] ?? "Permission behavior updated.";
+    ] ??
+    permissionMode.getCustomModes()[currentMode]?.description ??
+    "Permission behavior updated.";
   const prefix =
     previousMode === null
       ? "Permission mode active"
@@ -362,6 +365,16 @@ ${changeBlocks.join("\n\n")}
 ${SYSTEM_REMINDER_CLOSE}`;
 }
 
+async function buildCustomReminder(
+  context: SharedReminderContext,
+): Promise<string | null> {
+  return buildCustomReminders({
+    mode: context.mode,
+    state: context.state,
+    workingDirectory: context.workingDirectory,
+  });
+}
+
 export const sharedReminderProviders: Record<
   SharedReminderId,
   SharedReminderProvider
@@ -375,6 +388,7 @@ export const sharedReminderProviders: Record<
   "reflection-compaction": buildReflectionCompactionReminder,
   "command-io": buildCommandIoReminder,
   "toolset-change": buildToolsetChangeReminder,
+  custom: buildCustomReminder,
 };
 
 export function assertSharedReminderCoverage(): void {
@@ -1,5 +1,6 @@
 import type { ContextTracker } from "../cli/helpers/contextTracker";
 import type { PermissionMode } from "../permissions/mode";
+import { getToolUseEventSeq } from "./toolEvents";
 
 const MAX_PENDING_INTERACTION_REMINDERS = 25;
 
@@ -21,6 +22,16 @@ export interface ToolsetChangeReminder {
 
 export type SessionContextReason = "initial_attach" | "cwd_changed";
 
+/** Trigger bookkeeping for one user-defined reminder. */
+export interface CustomReminderState {
+  /** Turns seen (steps trigger). */
+  turns: number;
+  /** When the cron trigger was last checked. */
+  lastCheckedAt?: number;
+  /** Watched file mtimes, null when missing (file_change trigger). */
+  fileMtimes?: Record<string, number | null>;
+}
+
 export interface SharedReminderState {
   hasSentAgentInfo: boolean;
   hasSentSessionContext: boolean;
@@ -32,6 +43,10 @@ export interface SharedReminderState {
   pendingToolsetChangeReminders: ToolsetChangeReminder[];
   /** When set, the next session-context reminder uses this reason for its intro text. */
   pendingSessionContextReason?: SessionContextReason;
+  /** User-defined reminder bookkeeping, by reminder name. */
+  customReminders: Record<string, CustomReminderState>;
+  /** Last tool-use event seen by user-defined reminders. */
+  toolUseEventCursor: number;
 }
 
 export function createSharedReminderState(): SharedReminderState {
@@ -44,6 +59,8 @@ export function createSharedReminderState(): SharedReminderState {
     pendingReflectionTrigger: false,
     pendingCommandIoReminders: [],
     pendingToolsetChangeReminders: [],
+    customReminders: {},
+    toolUseEventCursor: getToolUseEventSeq(),
   };
 }
 
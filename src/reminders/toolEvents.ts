@@ -0,0 +1,38 @@
+/**
+ * Process-wide log of recent tool executions, read by user-defined
+ * reminders with an event trigger. Readers keep their own cursor (the
+ * sequence number of the last event they saw).
+ */
+
+const MAX_TOOL_USE_EVENTS = 200;
+
+export interface ToolUseEvent {
+  seq: number;
+  toolName: string;
+  input: unknown;
+  status: "success" | "error";
+}
+
+const events: ToolUseEvent[] = [];
+let lastSeq = 0;
+
+export function recordToolUseEvent(
+  toolName: string,
+  input: unknown,
+  status: ToolUseEvent["status"],
+): void {
+  events.push({ seq: ++lastSeq, toolName, input, status });
+  if (events.length > MAX_TOOL_USE_EVENTS) {
+    events.splice(0, events.length - MAX_TOOL_USE_EVENTS);
+  }
+}
+
+/** Sequence number of the latest event (0 before any). */
+export function getToolUseEventSeq(): number {
+  return lastSeq;
+}
+
+/** Events recorded after `seq`, oldest first. */
+export function getToolUseEventsSince(seq: number): ToolUseEvent[] {
+  return events.filter((event) => event.seq > seq);
+}
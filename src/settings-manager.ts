@@ -4,8 +4,13 @@
 import { randomUUID } from "node:crypto";
 import { homedir } from "node:os";
 import { join, resolve } from "node:path";
+import type { SpendThresholds } from "./agent/pricing";
 import type { HooksConfig } from "./hooks/types";
+import type { LSPSettings } from "./lsp/types";
+import type { LocalMcpSettings } from "./mcp/types";
 import type { PermissionRules } from "./permissions/types";
+import type { QueueSettings } from "./queue/queueRuntime";
+import type { CustomRemindersSettings } from "./reminders/custom";
 import { trackBoundaryError } from "./telemetry/errorReporting";
 import { debugWarn } from "./utils/debug.js";
 import { exists, mkdir, readFile, writeFile } from "./utils/fs.js";
@@ -87,6 +92,10 @@ export interface Settings {
   permissions?: PermissionRules;
   hooks?: HooksConfig; // Hook commands that run at various lifecycle points (includes disabled flag)
   statusLine?: StatusLineConfig; // Configurable status line command
+  lsp?: LSPSettings; // Language server on/off switch and server definitions
+  reminders?: CustomRemindersSettings; // User-defined system reminders, by name
+  spendThresholds?: SpendThresholds; // Per-session USD warning and hard stop
+  queue?: QueueSettings; // Listener queue priorities and per-source rate limits
   env?: Record<string, string>;
   // Server-indexed settings (agent IDs are server-specific)
   sessionsByServer?: Record<string, SessionRef>; // key = normalized base URL (e.g., "api.letta.com", "localhost:8283")
@@ -113,6 +122,9 @@ export interface ProjectSettings {
   localSharedBlockIds: Record<string, string>;
   hooks?: HooksConfig; // Project-specific hook commands (checked in)
   statusLine?: StatusLineConfig; // Project-specific status line command
+  lsp?: LSPSettings; // Project language servers (checked in)
+  mcpServers?: LocalMcpSettings; // Local stdio MCP servers (checked in)
+  reminders?: CustomRemindersSettings; // Project system reminders (checked in)
 }
 
 export interface LocalProjectSettings {
@@ -121,6 +133,9 @@ export interface LocalProjectSettings {
   permissions?: PermissionRules;
   hooks?: HooksConfig; // Project-specific hook commands
   statusLine?: StatusLineConfig; // Local project-specific status line command
+  lsp?: LSPSettings; // Local language server overrides
+  mcpServers?: LocalMcpSettings; // Local stdio MCP server overrides
+  reminders?: CustomRemindersSettings; // Local system reminder overrides
   profiles?: Record<string, string>; // DEPRECATED: old format, kept for migration
   pinnedAgents?: string[]; // DEPRECATED: kept for backwards compat, use pinnedAgentsByServer
   memoryReminderInterval?: number | null | "compaction" | "auto-compaction"; // DEPRECATED: use reflection* fields
@@ -139,6 +154,26 @@ export interface LocalProjectSettings {
   listenerEnvName?: string; // Saved environment name for listener connections (project-specific)
 }
 
+/** Settings file levels, lowest precedence first */
+export type SettingsLayerScope = "user" | "project" | "local";
+
+type LayeredSettings = Settings & ProjectSettings & LocalProjectSettings;
+
+/** One level's value for a settings key */
+export interface SettingsLayer<
+  T,
+  S extends SettingsLayerScope = SettingsLayerScope,
+> {
+  scope: S;
+  value: T;
+}
+
+const ALL_SETTINGS_LAYER_SCOPES: readonly SettingsLayerScope[] = [
+  "user",
+  "project",
+  "local",
+];
+
 const DEFAULT_SETTINGS: Settings = {
   lastAgent: null,
   tokenStreaming: false,
@@ -500,6 +535,41 @@ class SettingsManager {
     return this.getSettings()[key];
   }
 
+  /**
+   * The values a settings key has at each level (user, project, local),
+   * lowest precedence first. Levels that are not loaded or do not set the
+   * key are skipped; `scopes` limits which levels are read.
+   */
+  getSettingsLayers<
+    K extends keyof LayeredSettings,
+    S extends SettingsLayerScope = SettingsLayerScope,
+  >(
+    key: K,
+    workingDirectory: string,
+    scopes: readonly S[] = ALL_SETTINGS_LAYER_SCOPES as readonly S[],
+  ): SettingsLayer<NonNullable<LayeredSettings[K]>, S>[] {
+    const readers: Record<SettingsLayerScope, () => Partial<LayeredSettings>> =
+      {
+        user: () => this.getSettings(),
+        project: () => this.getProjectSettings(workingDirectory),
+        local: () => this.getLocalProjectSettings(workingDirectory),
+      };
+    const layers: SettingsLayer<NonNullable<LayeredSettings[K]>, S>[] = [];
+    for (const scope of scopes) {
+      let value: LayeredSettings[K] | undefined;
+      try {
+        value = readers[scope]()[key];
+      } catch {
+        // Not initialized or not loaded
+        continue;
+      }
+      if (value !== undefined && value !== null) {
+        layers.push({ scope, value });
+      }
+    }
+    return layers;
+  }
+
   /**
    * Get or create device ID (generates UUID if not exists)
    */
@@ -668,6 +738,9 @@ class SettingsManager {
           (rawSettings.localSharedBlockIds as Record<string, string>) ?? {},
         hooks: rawSettings.hooks as HooksConfig | undefined,
         statusLine: rawSettings.statusLine as StatusLineConfig | undefined,
+        lsp: rawSettings.lsp as LSPSettings | undefined,
+        mcpServers: rawSettings.mcpServers as LocalMcpSettings | undefined,
+        reminders: rawSettings.reminders as CustomRemindersSettings | undefined,
       };
 
       this.projectSettings.set(workingDirectory, projectSettings);
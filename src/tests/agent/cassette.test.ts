@@ -0,0 +1,227 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Stream } from "@letta-ai/letta-client/core/streaming";
+import type { LettaStreamingResponse } from "@letta-ai/letta-client/resources/agents/messages";
+import { executeApprovalBatch } from "../../agent/approval-execution";
+import {
+  type Cassette,
+  loadCassette,
+  startCassetteRecording,
+  startCassetteReplay,
+  stopCassetteRecording,
+  stopCassetteReplay,
+} from "../../agent/cassette";
+import { replayCassette } from "../../agent/cassette-replay";
+import { createBuffers } from "../../cli/helpers/accumulator";
+import { drainStream } from "../../cli/helpers/stream";
+import {
+  clearCapturedToolExecutionContexts,
+  clearTools,
+  getToolNames,
+  loadSpecificTools,
+} from "../../tools/manager";
+
+function makeStream(
+  chunks: LettaStreamingResponse[],
+): Stream<LettaStreamingResponse> {
+  async function* iterate() {
+    yield* chunks;
+  }
+  return new Stream(() => iterate(), new AbortController());
+}
+
+function readTurnChunks(filePath: string): LettaStreamingResponse[] {
+  return [
+    {
+      message_type: "reasoning_message",
+      id: "msg-1",
+      otid: "otid-1",
+      reasoning: "Let me read the notes.",
+    },
+    {
+      message_type: "approval_request_message",
+      id: "msg-2",
+      tool_call: {
+        tool_call_id: "call-1",
+        name: "Read",
+        arguments: JSON.stringify({ file_path: filePath }),
+      },
+    },
+    { message_type: "stop_reason", stop_reason: "requires_approval" },
+  ] as LettaStreamingResponse[];
+}
+
+const ANSWER_CHUNKS = [
+  {
+    message_type: "assistant_message",
+    id: "msg-3",
+    otid: "otid-3",
+    content: "The notes say hello.",
+  },
+  { message_type: "stop_reason", stop_reason: "end_turn" },
+] as LettaStreamingResponse[];
+
+describe("cassette record and replay", () => {
+  let initialTools: string[] = [];
+  let dir: string;
+  let notesPath: string;
+  let cassettePath: string;
+
+  beforeAll(async () => {
+    initialTools = getToolNames();
+    await loadSpecificTools(["Read"]);
+  });
+
+  afterAll(async () => {
+    clearCapturedToolExecutionContexts();
+    if (initialTools.length > 0) {
+      await loadSpecificTools(initialTools);
+    } else {
+      clearTools();
+    }
+  });
+
+  afterEach(async () => {
+    await stopCassetteRecording();
+    if (dir) await rm(dir, { recursive: true, force: true });
+  });
+
+  // Records a two-turn session: a Read approval, then the final answer
+  async function recordSession(): Promise<Cassette> {
+    dir = await mkdtemp(join(tmpdir(), "letta-cassette-"));
+    notesPath = join(dir, "notes.txt");
+    cassettePath = join(dir, "cassettes", "session.json");
+    await writeFile(notesPath, "hello\n");
+
+    const recorder = startCassetteRecording(cassettePath);
+    const buffers = createBuffers("agent-test");
+
+    const first = recorder.recordStream(
+      {
+        conversationId: "conv-test",
+        agentId: "agent-test",
+        messages: [{ type: "message", role: "user", content: "Read my notes" }],
+      },
+      makeStream(readTurnChunks(notesPath)),
+    );
+    const { approvals = [] } = await drainStream(first, buffers, () => {});
+    expect(approvals).toHaveLength(1);
+    await executeApprovalBatch(
+      approvals.map((approval) => ({ type: "approve", approval })),
+      undefined,
+      { workingDirectory: dir },
+    );
+
+    const second = recorder.recordStream(
+      { conversationId: "conv-test", agentId: "agent-test", messages: [] },
+      makeStream(ANSWER_CHUNKS),
+    );
+    await drainStream(second, buffers, () => {});
+    await stopCassetteRecording();
+
+    return loadCassette(cassettePath);
+  }
+
+  test("records chunks, tool executions and the transcript", async () => {
+    const cassette = await recordSession();
+
+    expect(cassette.turns).toHaveLength(2);
+    expect(cassette.turns[0]?.chunks).toHaveLength(3);
+    expect(cassette.turns[0]?.toolCalls).toEqual([
+      expect.objectContaining({
+        toolCallId: "call-1",
+        name: "Read",
+        args: { file_path: notesPath },
+        status: "success",
+      }),
+    ]);
+    expect(cassette.turns[0]?.toolCalls[0]?.output).toBeDefined();
+    expect(cassette.turns[1]?.toolCalls).toEqual([]);
+    expect(cassette.transcript).toContain("<reasoning>Let me read the notes.");
+    expect(cassette.transcript).toContain('<tool_call name="Read">');
+    expect(cassette.transcript).toContain("hello");
+    expect(cassette.transcript).toContain(
+      "<assistant>The notes say hello.</assistant>",
+    );
+  });
+
+  test("appends one JSON line per event", async () => {
+    await recordSession();
+    const types = (await readFile(cassettePath, "utf-8"))
+      .trim()
+      .split("\n")
+      .map((line) => (JSON.parse(line) as { type: string }).type);
+    expect(types).toEqual([
+      "header",
+      "turn",
+      "chunks",
+      "transcript",
+      "tool_call",
+      "transcript",
+      "turn",
+      "chunks",
+      "transcript",
+      "transcript",
+    ]);
+  });
+
+  test("replays offline with identical tool calls and transcript", async () => {
+    const cassette = await recordSession();
+    // Tools return their recorded output instead of running
+    await rm(notesPath);
+
+    const result = await replayCassette(cassette, {
+      workingDirectory: dir,
+      compareToolReturns: true,
+    });
+
+    expect(result.mismatches).toEqual([]);
+    expect(result.transcript).toBe(cassette.transcript);
+    expect(result.toolCalls.map((calls) => calls.length)).toEqual([1, 0]);
+  });
+
+  test("reports tool calls that changed since recording", async () => {
+    const cassette = await recordSession();
+    const recordedCall = cassette.turns[0]?.toolCalls[0];
+    if (recordedCall) recordedCall.args = { file_path: "other.txt" };
+
+    const result = await replayCassette(cassette, {
+      workingDirectory: dir,
+      compareToolReturns: true,
+    });
+
+    expect(result.mismatches).toEqual([
+      expect.stringContaining("turn 1: call-1 ran Read("),
+    ]);
+  });
+
+  test("stub API fails once the recorded turns run out", async () => {
+    const cassette = await recordSession();
+    const player = startCassetteReplay(cassette);
+    const url = "https://api.letta.com/v1/conversations/conv-test/messages";
+    try {
+      expect((await player.fetch(url, { method: "POST" })).status).toBe(200);
+      expect((await player.fetch(url, { method: "POST" })).status).toBe(200);
+      const exhausted = await player.fetch(url, { method: "POST" });
+      expect(exhausted.status).toBe(404);
+      expect(await exhausted.text()).toContain(
+        "Cassette has no more recorded turns (replayed 2)",
+      );
+      expect(
+        (await player.fetch("https://api.letta.com/v1/agents/agent-test"))
+          .status,
+      ).toBe(404);
+    } finally {
+      stopCassetteReplay();
+    }
+  });
+});
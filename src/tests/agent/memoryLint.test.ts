@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { execSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  lintMemoryDirectory,
+  lintMemoryFiles,
+  type MemoryLintFile,
+  type MemoryLintResult,
+} from "../../agent/memoryLint";
+import { buildDoctorMessage } from "../../cli/helpers/initCommand";
+
+function block(description: string, body: string, extra = ""): string {
+  return `---\ndescription: ${description}\n${extra}---\n\n${body}\n`;
+}
+
+function summarize(result: MemoryLintResult): string[] {
+  return result.issues.map(
+    (issue) => `${issue.path} ${issue.rule} ${issue.message}`,
+  );
+}
+
+describe("lintMemoryFiles", () => {
+  test("clean tree has no issues", () => {
+    const result = lintMemoryFiles([
+      { path: "system/human.md", content: block("User", "See [[persona]].") },
+      { path: "system/persona.md", content: block("Me", "Helpful.") },
+      { path: "skills/foo/SKILL.md", content: "---\nname: foo\n---\n" },
+    ]);
+    expect(result).toEqual({ issues: [], errorCount: 0, warningCount: 0 });
+  });
+
+  test("reports frontmatter errors in block files only", () => {
+    const result = lintMemoryFiles([
+      { path: "system/a.md", content: "no frontmatter" },
+      { path: "system/b.md", content: "---\ndescription: x\n" },
+      { path: "reference/c.md", content: "---\ntopic: x\n---\nbody" },
+      { path: "memory/system/d.md", content: "---\ndescription:\n---\nd" },
+      { path: "notes.md", content: "free-form" },
+    ]);
+    expect(summarize(result)).toEqual([
+      "memory/system/d.md frontmatter 'description' must not be empty",
+      "reference/c.md frontmatter unknown frontmatter key 'topic' (allowed: description read_only limit)",
+      "reference/c.md frontmatter missing required field 'description'",
+      "system/a.md frontmatter missing frontmatter (must start with ---)",
+      "system/b.md frontmatter frontmatter opened but never closed (missing closing ---)",
+    ]);
+    expect(result.errorCount).toBe(5);
+  });
+
+  test("reports dangling links, ignoring code blocks and resolving folders", () => {
+    const result = lintMemoryFiles([
+      {
+        path: "system/human.md",
+        content: block(
+          "User",
+          "[[reference/tools|tools]] [[skills/foo]] [[gone]]\n```\n[[in-code]]\n```",
+        ),
+      },
+      { path: "reference/tools.md", content: block("Tools", "t") },
+      { path: "skills/foo/SKILL.md", content: "skill" },
+    ]);
+    expect(summarize(result)).toEqual([
+      "system/human.md dangling-link [[gone]] does not match any memory file",
+    ]);
+  });
+
+  test("warns about size budgets and duplicates", () => {
+    const result = lintMemoryFiles(
+      [
+        { path: "system/a.md", content: block("Topic", "x".repeat(30)) },
+        { path: "system/b.md", content: block("topic", "X".repeat(30)) },
+        { path: "reference/c.md", content: block("Other", "y".repeat(100)) },
+      ],
+      { budgets: { system: { fileChars: 40, totalChars: 50 } } },
+    );
+    expect(summarize(result)).toEqual([
+      "system/ size-budget 60 characters in total exceeds the system/ budget of 50",
+      "system/b.md duplicate-content same content as system/a.md",
+      "system/b.md duplicate-content same description as system/a.md",
+    ]);
+    expect(result.errorCount).toBe(0);
+    expect(result.warningCount).toBe(3);
+  });
+
+  test("reports read-only violations against HEAD", () => {
+    const files: MemoryLintFile[] = [
+      {
+        path: "system/locked.md",
+        content: block("Locked", "edited", "read_only: true\n"),
+        headContent: block("Locked", "original", "read_only: true\n"),
+      },
+      {
+        path: "system/new.md",
+        content: block("New", "n", "read_only: false\n"),
+        headContent: null,
+      },
+      {
+        path: "system/memory_filesystem.md",
+        content: block("Tree", "tree edited"),
+        headContent: block("Tree", "original"),
+      },
+      {
+        // Unchanged read-only file is fine
+        path: "system/kept.md",
+        content: block("Kept", "k", "read_only: true\n"),
+      },
+    ];
+    expect(summarize(lintMemoryFiles(files))).toEqual([
+      "system/locked.md read-only file is read_only and cannot be modified",
+      "system/memory_filesystem.md read-only 'memory_filesystem' is managed by Letta Code and cannot be edited",
+      "system/new.md read-only 'read_only' is a protected field and cannot be set",
+    ]);
+  });
+});
+
+describe("lintMemoryFiles changedOnly", () => {
+  test("reports issues outside the changed files as warnings", () => {
+    const result = lintMemoryFiles(
+      [
+        {
+          path: "system/human.md",
+          content: block("User", "[[gone]]"),
+          changed: true,
+        },
+        { path: "system/old.md", content: block("Old", "[[also-gone]]") },
+      ],
+      { changedOnly: true },
+    );
+    expect(
+      result.issues.map((issue) => `${issue.path} ${issue.severity}`),
+    ).toEqual(["system/human.md error", "system/old.md warning"]);
+    expect(result.errorCount).toBe(1);
+  });
+});
+
+describe("lintMemoryDirectory", () => {
+  let dir: string;
+
+  function git(args: string): void {
+    execSync(`git ${args}`, {
+      cwd: dir,
+      stdio: "pipe",
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: "test",
+        GIT_AUTHOR_EMAIL: "test@test.com",
+        GIT_COMMITTER_NAME: "test",
+        GIT_COMMITTER_EMAIL: "test@test.com",
+      },
+    });
+  }
+
+  function write(path: string, content: string): void {
+    mkdirSync(join(dir, path, ".."), { recursive: true });
+    writeFileSync(join(dir, path), content);
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "letta-memlint-"));
+    git("init -q");
+    git("config core.hooksPath /dev/null");
+    write("system/locked.md", block("Locked", "original", "read_only: true\n"));
+    git("add -A");
+    git("commit -q -m init");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("lints the working tree or only what is staged", async () => {
+    write("system/locked.md", block("Locked", "edited", "read_only: true\n"));
+    write("system/human.md", block("User", "[[missing]]"));
+
+    const workingTree = await lintMemoryDirectory(dir);
+    expect(summarize(workingTree)).toEqual([
+      "system/locked.md read-only file is read_only and cannot be modified",
+      "system/human.md dangling-link [[missing]] does not match any memory file",
+    ]);
+
+    git("add system/human.md");
+    const staged = await lintMemoryDirectory(dir, { staged: true });
+    expect(summarize(staged)).toEqual([
+      "system/human.md dangling-link [[missing]] does not match any memory file",
+    ]);
+  });
+
+  test("only staged files fail the staged lint", async () => {
+    write("system/old.md", block("Old", "[[missing]]"));
+    git("add -A");
+    git("commit -q -m old");
+    write("system/new.md", block("New", "n"));
+    git("add system/new.md");
+
+    const staged = await lintMemoryDirectory(dir, { staged: true });
+    expect(summarize(staged)).toEqual([
+      "system/old.md dangling-link [[missing]] does not match any memory file",
+    ]);
+    expect(staged.errorCount).toBe(0);
+    expect(staged.warningCount).toBe(1);
+  });
+});
+
+describe("buildDoctorMessage", () => {
+  test("includes memory lint findings in the memory filesystem section", () => {
+    const message = buildDoctorMessage({
+      gitContext: "",
+      memoryDir: "/mem",
+      memoryLint: "Memory lint: 1 error(s), 0 warning(s)",
+    });
+    expect(message).toContain("### Memory lint");
+    expect(message).toContain("Memory lint: 1 error(s), 0 warning(s)");
+    expect(buildDoctorMessage({ gitContext: "" })).not.toContain("Memory lint");
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import { getModelPricing } from "../../agent/model";
+import {
+  calculateUsageCost,
+  checkSpendThresholds,
+  formatCost,
+  type ModelPricing,
+} from "../../agent/pricing";
+import { SessionStats } from "../../agent/stats";
+import { formatUsageStats } from "../../cli/components/SessionStats";
+import { createBuffers } from "../../cli/helpers/accumulator";
+
+const SONNET: ModelPricing = {
+  input: 3,
+  output: 15,
+  cacheRead: 0.3,
+  cacheWrite: 3.75,
+};
+
+const emptyUsage = {
+  promptTokens: 0,
+  completionTokens: 0,
+  cachedInputTokens: 0,
+  cacheWriteTokens: 0,
+  reasoningTokens: 0,
+};
+
+describe("getModelPricing", () => {
+  test("finds pricing by model ID and handle", () => {
+    expect(getModelPricing("anthropic/claude-sonnet-4-6")).toEqual(SONNET);
+    expect(getModelPricing("haiku")?.input).toBe(1);
+  });
+
+  test("matches provider-prefixed handles by suffix", () => {
+    expect(getModelPricing("lc-anthropic/claude-sonnet-4-6")).toEqual(SONNET);
+  });
+
+  test("returns null for unpriced and unknown models", () => {
+    expect(getModelPricing("letta/auto")).toBeNull();
+    expect(getModelPricing("chatgpt-plus-pro/gpt-5.2")).toBeNull();
+    expect(getModelPricing("acme/unknown-model")).toBeNull();
+  });
+});
+
+describe("calculateUsageCost", () => {
+  test("prices cached, cache-write and uncached input separately", () => {
+    const cost = calculateUsageCost(
+      {
+        ...emptyUsage,
+        promptTokens: 1_000_000,
+        cachedInputTokens: 600_000,
+        cacheWriteTokens: 100_000,
+        completionTokens: 100_000,
+      },
+      SONNET,
+    );
+    // 300k uncached, 600k cached, 100k cache writes, 100k output
+    expect(cost).toBeCloseTo(0.9 + 0.18 + 0.375 + 1.5, 10);
+  });
+
+  test("prices reasoning tokens at the reasoning rate when set", () => {
+    const usage = {
+      ...emptyUsage,
+      completionTokens: 1_000_000,
+      reasoningTokens: 400_000,
+    };
+    expect(calculateUsageCost(usage, SONNET)).toBeCloseTo(15, 10);
+    expect(calculateUsageCost(usage, { ...SONNET, reasoning: 5 })).toBeCloseTo(
+      9 + 2,
+      10,
+    );
+  });
+});
+
+describe("spend thresholds", () => {
+  test("reports the highest threshold reached", () => {
+    const thresholds = { warnUsd: 1, stopUsd: 5 };
+    expect(checkSpendThresholds(0.5, thresholds)).toBeNull();
+    expect(checkSpendThresholds(1, thresholds)).toBe("warn");
+    expect(checkSpendThresholds(7, thresholds)).toBe("stop");
+    expect(checkSpendThresholds(7, { warnUsd: -1 })).toBeNull();
+    expect(checkSpendThresholds(7, undefined)).toBeNull();
+  });
+
+  test("formats small amounts with extra precision", () => {
+    expect(formatCost(1.234)).toBe("$1.23");
+    expect(formatCost(0.0031)).toBe("$0.0031");
+    expect(formatCost(0)).toBe("$0.00");
+  });
+});
+
+describe("SessionStats cost", () => {
+  test("accumulates session, trajectory and subagent costs", () => {
+    const stats = new SessionStats();
+    const buffers = createBuffers();
+
+    buffers.usage.promptTokens = 100_000;
+    buffers.usage.completionTokens = 10_000;
+    buffers.usage.totalTokens = 110_000;
+    stats.startTrajectory();
+    const delta = stats.updateUsageFromBuffers(buffers, SONNET);
+    stats.accumulateTrajectory({ usageDelta: delta });
+    stats.recordSubagentCost(0.25);
+
+    expect(delta.costUsd).toBeCloseTo(0.45, 10);
+    expect(stats.getTrajectorySnapshot()?.costUsd).toBeCloseTo(0.7, 10);
+
+    // Unpriced usage is tracked but not added to the totals
+    buffers.usage.totalTokens = 150_000;
+    stats.updateUsageFromBuffers(buffers, null);
+    const snapshot = stats.getSnapshot();
+    expect(snapshot.cost.mainUsd).toBeCloseTo(0.45, 10);
+    expect(snapshot.cost.subagentUsd).toBe(0.25);
+    expect(snapshot.cost.totalUsd).toBeCloseTo(0.7, 10);
+    expect(snapshot.cost.unpricedTokens).toBe(40_000);
+
+    stats.endTrajectory();
+    stats.recordSubagentCost(0.1);
+    expect(stats.getTrajectorySnapshot()).toBeNull();
+    expect(stats.getTotalCostUsd()).toBeCloseTo(0.8, 10);
+  });
+
+  test("shows cost lines in /usage output", () => {
+    const stats = new SessionStats();
+    const buffers = createBuffers();
+    buffers.usage.promptTokens = 1_000_000;
+    buffers.usage.totalTokens = 1_000_000;
+    stats.updateUsageFromBuffers(buffers, SONNET);
+    stats.recordSubagentCost(0.5);
+
+    const output = formatUsageStats({
+      stats: stats.getSnapshot(),
+      thresholds: { warnUsd: 5, stopUsd: 20 },
+    });
+
+    expect(output).toContain(
+      "Session cost:          $3.50 ($3.00 main, $0.50 subagents)",
+    );
+    expect(output).toContain(
+      "Spend thresholds:      warn at $5.00, stop at $20.00",
+    );
+    expect(output).not.toContain("Unpriced usage");
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import {
+  checkSubagentBudget,
+  formatBudgetExceeded,
+  parseBudgetLimit,
+  resolveSubagentBudget,
+} from "../../agent/subagents/budget";
+
+describe("parseBudgetLimit", () => {
+  test("accepts positive numbers and numeric strings", () => {
+    expect(parseBudgetLimit("50000")).toBe(50000);
+    expect(parseBudgetLimit(12.7)).toBe(12);
+  });
+
+  test("rejects missing, zero, negative and non-numeric values", () => {
+    expect(parseBudgetLimit(undefined)).toBeUndefined();
+    expect(parseBudgetLimit("0")).toBeUndefined();
+    expect(parseBudgetLimit(-5)).toBeUndefined();
+    expect(parseBudgetLimit("lots")).toBeUndefined();
+  });
+});
+
+describe("resolveSubagentBudget", () => {
+  test("per-call overrides replace config limits one by one", () => {
+    expect(
+      resolveSubagentBudget(
+        { maxTokens: 100_000, maxToolCalls: 40 },
+        { maxTokens: 20_000, maxDurationMs: 60_000 },
+      ),
+    ).toEqual({ maxTokens: 20_000, maxDurationMs: 60_000, maxToolCalls: 40 });
+  });
+
+  test("is empty when nothing is configured", () => {
+    expect(resolveSubagentBudget({}, {})).toEqual({});
+  });
+});
+
+describe("checkSubagentBudget", () => {
+  const usage = { tokens: 0, durationMs: 0, toolCalls: 0 };
+
+  test("tokens and time are exhausted on reaching the limit", () => {
+    expect(
+      checkSubagentBudget({ maxTokens: 1000 }, { ...usage, tokens: 999 }),
+    ).toBeNull();
+    expect(
+      checkSubagentBudget({ maxTokens: 1000 }, { ...usage, tokens: 1000 }),
+    ).toEqual({ limit: "maxTokens", max: 1000, used: 1000 });
+    expect(
+      checkSubagentBudget(
+        { maxDurationMs: 5000 },
+        { ...usage, durationMs: 5000 },
+      )?.limit,
+    ).toBe("maxDurationMs");
+  });
+
+  test("tool calls are exhausted when one more than allowed starts", () => {
+    expect(
+      checkSubagentBudget({ maxToolCalls: 3 }, { ...usage, toolCalls: 3 }),
+    ).toBeNull();
+    expect(
+      checkSubagentBudget({ maxToolCalls: 3 }, { ...usage, toolCalls: 4 }),
+    ).toEqual({ limit: "maxToolCalls", max: 3, used: 4 });
+  });
+});
+
+describe("formatBudgetExceeded", () => {
+  test("describes the exhausted limit", () => {
+    expect(
+      formatBudgetExceeded({ limit: "maxTokens", max: 50000, used: 50412 }),
+    ).toBe("token budget of 50000 exhausted (50412 used)");
+    expect(
+      formatBudgetExceeded({
+        limit: "maxDurationMs",
+        max: 90_000,
+        used: 90_010,
+      }),
+    ).toBe("time budget of 1m 30s exhausted");
+  });
+});
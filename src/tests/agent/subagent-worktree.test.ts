@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { existsSync, realpathSync } from "node:fs";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createSubagentWorktree,
+  finalizeSubagentWorktree,
+  parseSubagentIsolation,
+} from "../../agent/subagents/worktree";
+
+let repoDir: string;
+let idCounter = 0;
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8" }).trim();
+}
+
+function nextSubagentId(): string {
+  idCounter += 1;
+  return `subagent-test-${process.pid}-${Date.now()}-${idCounter}`;
+}
+
+beforeEach(async () => {
+  repoDir = realpathSync(
+    await mkdtemp(join(tmpdir(), "letta-subagent-worktree-")),
+  );
+  git(repoDir, "init", "-q");
+  git(repoDir, "config", "user.email", "test@example.com");
+  git(repoDir, "config", "user.name", "Test");
+  git(repoDir, "config", "commit.gpgsign", "false");
+  await mkdir(join(repoDir, "src"));
+  await writeFile(join(repoDir, "src", "index.ts"), "export {};\n");
+  git(repoDir, "add", "-A");
+  git(repoDir, "commit", "-q", "--no-verify", "-m", "initial");
+});
+
+afterEach(async () => {
+  for (const line of git(repoDir, "worktree", "list", "--porcelain").split(
+    "\n",
+  )) {
+    const path = line.startsWith("worktree ") ? line.slice(9) : null;
+    if (path && path !== repoDir) {
+      git(repoDir, "worktree", "remove", "--force", path);
+    }
+  }
+  await rm(repoDir, { recursive: true, force: true }).catch(() => {});
+});
+
+describe("parseSubagentIsolation", () => {
+  test("accepts worktree and ignores unknown values", () => {
+    expect(parseSubagentIsolation(" Worktree ")).toBe("worktree");
+    expect(parseSubagentIsolation("container")).toBeUndefined();
+    expect(parseSubagentIsolation(undefined)).toBeUndefined();
+  });
+});
+
+describe("subagent worktrees", () => {
+  test("creates a worktree on a new branch at HEAD", async () => {
+    const subagentId = nextSubagentId();
+    const worktree = await createSubagentWorktree(repoDir, subagentId);
+
+    expect(worktree.branch).toBe(`letta/${subagentId}`);
+    expect(worktree.repoRoot).toBe(repoDir);
+    expect(worktree.workingDirectory).toBe(worktree.path);
+    expect(existsSync(join(worktree.path, "src", "index.ts"))).toBe(true);
+    expect(git(worktree.path, "rev-parse", "--abbrev-ref", "HEAD")).toBe(
+      worktree.branch,
+    );
+    expect(git(worktree.path, "rev-parse", "HEAD")).toBe(
+      git(repoDir, "rev-parse", "HEAD"),
+    );
+  });
+
+  test("maps a subdirectory working directory into the worktree", async () => {
+    const worktree = await createSubagentWorktree(
+      join(repoDir, "src"),
+      nextSubagentId(),
+    );
+    expect(worktree.workingDirectory).toBe(join(worktree.path, "src"));
+  });
+
+  test("removes unchanged worktrees and their branches", async () => {
+    const worktree = await createSubagentWorktree(repoDir, nextSubagentId());
+
+    const result = await finalizeSubagentWorktree(worktree);
+
+    expect(result).toEqual({
+      path: worktree.path,
+      branch: worktree.branch,
+      removed: true,
+    });
+    expect(existsSync(worktree.path)).toBe(false);
+    expect(git(repoDir, "branch", "--list", worktree.branch)).toBe("");
+  });
+
+  test("keeps worktrees with uncommitted changes", async () => {
+    const worktree = await createSubagentWorktree(repoDir, nextSubagentId());
+    await writeFile(join(worktree.path, "notes.md"), "draft\n");
+
+    const result = await finalizeSubagentWorktree(worktree);
+
+    expect(result.removed).toBe(false);
+    expect(existsSync(join(worktree.path, "notes.md"))).toBe(true);
+  });
+
+  test("keeps worktrees with new commits", async () => {
+    const worktree = await createSubagentWorktree(repoDir, nextSubagentId());
+    await writeFile(join(worktree.path, "src", "index.ts"), "export {};\n//\n");
+    git(worktree.path, "commit", "-q", "--no-verify", "-am", "change");
+
+    const result = await finalizeSubagentWorktree(worktree);
+
+    expect(result.removed).toBe(false);
+    expect(git(repoDir, "branch", "--list", worktree.branch)).toContain(
+      worktree.branch,
+    );
+  });
+
+  test("fails outside a git repository", async () => {
+    const plainDir = await mkdtemp(join(tmpdir(), "letta-no-git-"));
+    try {
+      await expect(
+        createSubagentWorktree(plainDir, nextSubagentId()),
+      ).rejects.toThrow("Worktree isolation requires a git repository");
+    } finally {
+      await rm(plainDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  canRewindConversation,
+  getConversationRewindBlocker,
+} from "../../checkpoints/conversation";
+import { checkpointManager } from "../../checkpoints/manager";
+import { formatRewindResult } from "../../cli/commands/rewind";
+import {
+  clearTools,
+  executeTool,
+  getToolNames,
+  loadSpecificTools,
+} from "../../tools/manager";
+
+describe("checkpointManager", () => {
+  let initialTools: string[] = [];
+  let dir: string;
+
+  beforeAll(async () => {
+    initialTools = getToolNames();
+    await loadSpecificTools(["Write", "Edit"]);
+  });
+
+  afterAll(async () => {
+    if (initialTools.length > 0) {
+      await loadSpecificTools(initialTools);
+    } else {
+      clearTools();
+    }
+  });
+
+  beforeEach(async () => {
+    checkpointManager.clear();
+    dir = await mkdtemp(join(tmpdir(), "letta-checkpoints-"));
+  });
+
+  afterEach(async () => {
+    checkpointManager.clear();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("restores edited files and deletes created ones", async () => {
+    const existing = join(dir, "notes.txt");
+    const created = join(dir, "new.txt");
+    await writeFile(existing, "original\n");
+
+    checkpointManager.beginTurn({
+      id: "turn-1",
+      conversationId: "default",
+      prompt: "first",
+    });
+    await executeTool("Edit", {
+      file_path: existing,
+      old_string: "original",
+      new_string: "first edit",
+    });
+
+    checkpointManager.beginTurn({
+      id: "turn-2",
+      conversationId: "default",
+      prompt: "second",
+    });
+    await executeTool("Edit", {
+      file_path: existing,
+      old_string: "first edit",
+      new_string: "second edit",
+    });
+    await executeTool("Write", { file_path: created, content: "hi\n" });
+
+    expect(
+      [...(checkpointManager.get("turn-2")?.files.keys() ?? [])].sort(),
+    ).toEqual([created, existing].sort());
+
+    // Rewinding to turn 2 keeps turn 1's change
+    const second = checkpointManager.restoreFiles("turn-2");
+    expect(second).toEqual({
+      restored: [existing],
+      deleted: [created],
+      errors: [],
+    });
+    expect(await readFile(existing, "utf-8")).toBe("first edit\n");
+    expect(existsSync(created)).toBe(false);
+
+    // Rewinding to turn 1 undoes everything
+    checkpointManager.restoreFiles("turn-1");
+    expect(await readFile(existing, "utf-8")).toBe("original\n");
+  });
+
+  test("spills snapshots past the memory budget to disk", async () => {
+    const small = join(dir, "small.txt");
+    const large = join(dir, "large.txt");
+    await writeFile(small, "small\n");
+    await writeFile(large, "large file contents\n");
+    checkpointManager.setMemoryLimit(10);
+
+    try {
+      checkpointManager.beginTurn({
+        id: "turn-1",
+        conversationId: "default",
+        prompt: "edit both",
+      });
+      await executeTool("Write", { file_path: small, content: "changed\n" });
+      await executeTool("Write", { file_path: large, content: "changed\n" });
+
+      const files = checkpointManager.get("turn-1")?.files;
+      expect(files?.get(small)?.content?.toString()).toBe("small\n");
+      const spilled = files?.get(large);
+      expect(spilled?.content).toBeNull();
+      const spillPath = spilled?.spillPath ?? "";
+      expect(existsSync(spillPath)).toBe(true);
+
+      expect(checkpointManager.restoreFiles("turn-1").restored).toEqual([
+        small,
+        large,
+      ]);
+      expect(await readFile(large, "utf-8")).toBe("large file contents\n");
+      expect(existsSync(spillPath)).toBe(false);
+    } finally {
+      checkpointManager.setMemoryLimit(64 * 1024 * 1024);
+    }
+  });
+
+  test("does not snapshot outside a turn", async () => {
+    const file = join(dir, "untracked.txt");
+    await executeTool("Write", { file_path: file, content: "x" });
+    expect(checkpointManager.list()).toEqual([]);
+  });
+
+  test("truncate drops the checkpoint and later ones of the conversation", () => {
+    for (const [id, conversationId] of [
+      ["a", "default"],
+      ["b", "conv-other"],
+      ["c", "default"],
+      ["d", "default"],
+    ] as const) {
+      checkpointManager.beginTurn({ id, conversationId, prompt: id });
+    }
+
+    checkpointManager.truncate("c");
+    expect(checkpointManager.list().map((cp) => cp.id)).toEqual(["a", "b"]);
+    expect(() => checkpointManager.restoreFiles("c")).toThrow(
+      "Checkpoint not found",
+    );
+  });
+
+  test("conversation rewind needs the default conversation and a message otid", () => {
+    const base = { prompt: "p", agentId: "agent-1", otid: "otid-1" };
+    expect(
+      canRewindConversation(
+        checkpointManager.beginTurn({
+          ...base,
+          id: "x",
+          conversationId: "default",
+        }),
+      ),
+    ).toBe(true);
+    expect(
+      canRewindConversation(
+        checkpointManager.beginTurn({
+          ...base,
+          id: "y",
+          conversationId: "conv-1",
+        }),
+      ),
+    ).toBe(false);
+    expect(
+      canRewindConversation(
+        checkpointManager.beginTurn({
+          ...base,
+          id: "z",
+          conversationId: "default",
+          otid: null,
+        }),
+      ),
+    ).toBe(false);
+    expect(
+      getConversationRewindBlocker(
+        checkpointManager.beginTurn({
+          ...base,
+          id: "w",
+          conversationId: "conv-1",
+        }),
+      ),
+    ).toContain("Conversation conv-1 cannot be rewound");
+  });
+});
+
+describe("formatRewindResult", () => {
+  test("summarizes conversation and file changes", () => {
+    expect(
+      formatRewindResult(
+        {
+          messagesRemoved: 4,
+          files: {
+            restored: ["/repo/src/a.ts"],
+            deleted: ["/repo/b.txt"],
+            errors: [],
+          },
+        },
+        "/repo",
+      ),
+    ).toBe(
+      [
+        "Rewound conversation (4 messages removed from context)",
+        "Restored 2 files:",
+        "  restored src/a.ts",
+        "  deleted  b.txt",
+      ].join("\n"),
+    );
+    expect(
+      formatRewindResult(
+        { files: { restored: [], deleted: [], errors: [] } },
+        "/repo",
+      ),
+    ).toBe("No file changes to restore");
+  });
+});
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resolveModel } from "../../agent/model";
+import {
+  discoverCustomCommands,
+  expandCustomCommand,
+  expandFileReferences,
+  parseAllowedTools,
+} from "../../cli/commands/custom";
+
+describe("custom commands", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "letta-custom-commands-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function loadCommand(name: string, content: string) {
+    const commandsDir = join(dir, ".commands");
+    await mkdir(commandsDir, { recursive: true });
+    writeFileSync(join(commandsDir, `${name}.md`), content);
+    const commands = await discoverCustomCommands(commandsDir);
+    const command = commands.find(
+      (cmd) => cmd.id === name && cmd.source === "project",
+    );
+    if (!command) throw new Error(`command ${name} not discovered`);
+    return command;
+  }
+
+  test("parses allowed-tools and model", async () => {
+    const command = await loadCommand(
+      "commit",
+      [
+        "---",
+        "description: Commit staged changes",
+        "allowed-tools: Bash(git add:*, git commit:*), Read",
+        "model: sonnet",
+        "---",
+        "Commit with message: $ARGUMENTS",
+      ].join("\n"),
+    );
+
+    expect(command.allowedTools).toEqual([
+      "Bash(git add:*, git commit:*)",
+      "Read",
+    ]);
+    expect(command.model).toBe("sonnet");
+  });
+
+  test("leaves tools and model unset when not in frontmatter", async () => {
+    const command = await loadCommand("plain", "Just a prompt");
+
+    expect(command.allowedTools).toBeUndefined();
+    expect(command.model).toBeUndefined();
+  });
+
+  test("accepts allowed-tools as a YAML list", () => {
+    expect(parseAllowedTools(["Read", "Grep, Glob"])).toEqual([
+      "Read",
+      "Grep",
+      "Glob",
+    ]);
+    expect(parseAllowedTools("")).toBeUndefined();
+  });
+
+  test("includes @file contents and leaves unknown references alone", async () => {
+    writeFileSync(join(dir, "notes.txt"), "remember the milk\n");
+
+    const expanded = await expandFileReferences(
+      "Summarize @notes.txt. Ignore @missing.txt and me@example.com",
+      dir,
+    );
+
+    expect(expanded).toBe(
+      'Summarize \n<file path="notes.txt">\nremember the milk\n</file>\n. Ignore @missing.txt and me@example.com',
+    );
+  });
+
+  test("expands arguments, files and the model for a run", async () => {
+    writeFileSync(join(dir, "a.ts"), "export const a = 1;");
+    const command = await loadCommand(
+      "review",
+      [
+        "---",
+        "allowed-tools: Read, Grep",
+        "model: sonnet",
+        "---",
+        "Review $1 focusing on $2: @$1",
+      ].join("\n"),
+    );
+
+    const previousCwd = process.env.USER_CWD;
+    process.env.USER_CWD = dir;
+    try {
+      const expanded = await expandCustomCommand(command, "a.ts naming");
+
+      expect(expanded.prompt).toBe(
+        'Review a.ts focusing on naming: \n<file path="a.ts">\nexport const a = 1;\n</file>\n',
+      );
+      expect(expanded.model).toBe(resolveModel("sonnet") ?? "sonnet");
+      expect(expanded.allowedTools).toEqual(["Read", "Grep"]);
+    } finally {
+      if (previousCwd === undefined) {
+        delete process.env.USER_CWD;
+      } else {
+        process.env.USER_CWD = previousCwd;
+      }
+    }
+  });
+});
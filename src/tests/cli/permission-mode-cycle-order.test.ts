@@ -1,18 +1,31 @@
-import { describe, expect, test } from "bun:test";
-import { readFileSync } from "node:fs";
-import { fileURLToPath } from "node:url";
+import { afterEach, describe, expect, test } from "bun:test";
+import { permissionMode } from "../../permissions/mode";
 
 describe("permission mode cycle order", () => {
+  afterEach(() => {
+    permissionMode.setCustomModes({});
+  });
+
   test("Shift+Tab cycles from default to plan before edit and yolo modes", () => {
-    const inputRichPath = fileURLToPath(
-      new URL("../../cli/components/InputRich.tsx", import.meta.url),
-    );
-    const source = readFileSync(inputRichPath, "utf-8");
+    expect(permissionMode.getCycleModes()).toEqual([
+      "default",
+      "plan",
+      "acceptEdits",
+      "bypassPermissions",
+    ]);
+  });
+
+  test("custom modes from permissions.modes follow the built-in modes", () => {
+    permissionMode.setCustomModes({
+      review: { baseMode: "plan", description: "Read-only review" },
+    });
 
-    expect(source).toContain("const modes: PermissionMode[] = [");
-    expect(source).toContain(
-      '"default",\n        "plan",\n        "acceptEdits",',
-    );
-    expect(source).toContain('"acceptEdits",\n        "bypassPermissions",');
+    expect(permissionMode.getCycleModes()).toEqual([
+      "default",
+      "plan",
+      "acceptEdits",
+      "bypassPermissions",
+      "review",
+    ]);
   });
 });
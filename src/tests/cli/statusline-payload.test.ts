@@ -69,6 +69,20 @@ describe("statusLinePayload", () => {
     expect(payload.context_window.current_usage).toBeNull();
   });
 
+  test("includes session, trajectory and subagent costs", () => {
+    const payload = buildStatusLinePayload({
+      currentDirectory: "/repo",
+      projectDirectory: "/repo",
+      totalCostUsd: 1.2345678,
+      trajectoryCostUsd: 0.4,
+      subagentCostUsd: 0.25,
+    });
+
+    expect(payload.cost.total_cost_usd).toBe(1.234568);
+    expect(payload.cost.trajectory_cost_usd).toBe(0.4);
+    expect(payload.cost.subagent_cost_usd).toBe(0.25);
+  });
+
   test("calculates context percentages safely", () => {
     expect(calculateContextPercentages(50, 200)).toEqual({
       used: 25,
@@ -1,5 +1,18 @@
 import { describe, expect, test } from "bun:test";
-import { getSubagentModelDisplay } from "../../cli/helpers/subagentDisplay";
+import {
+  formatRemainingBudget,
+  formatStats,
+  getSubagentModelDisplay,
+} from "../../cli/helpers/subagentDisplay";
+
+describe("formatStats", () => {
+  test("appends tokens and cost when known", () => {
+    expect(formatStats(1, 0)).toBe("1 tool use");
+    expect(formatStats(3, 12_000, 0.0421)).toBe(
+      "3 tool uses · 12k tokens · $0.04",
+    );
+  });
+});
 
 describe("getSubagentModelDisplay", () => {
   test("formats known model IDs using short labels", () => {
@@ -38,3 +51,24 @@ describe("getSubagentModelDisplay", () => {
     });
   });
 });
+
+describe("formatRemainingBudget", () => {
+  test("shows what is left of each configured limit", () => {
+    expect(
+      formatRemainingBudget(
+        { maxTokens: 50_000, maxToolCalls: 10, maxDurationMs: 300_000 },
+        { tokens: 38_000, toolCalls: 9, durationMs: 220_000 },
+      ),
+    ).toBe("12k tokens · 1 tool use · 1m 20s left");
+  });
+
+  test("returns null without a budget", () => {
+    expect(
+      formatRemainingBudget(undefined, {
+        tokens: 10,
+        toolCalls: 1,
+        durationMs: 5,
+      }),
+    ).toBeNull();
+  });
+});
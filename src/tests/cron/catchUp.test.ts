@@ -0,0 +1,114 @@
+import { describe, expect, test } from "bun:test";
+import {
+  CATCH_UP_LOOKBACK_MS,
+  MAX_CATCH_UP_RUNS,
+  planCatchUp,
+} from "../../cron/catchUp";
+import type { CronTask } from "../../cron/cronFile";
+
+// ── Helper ──────────────────────────────────────────────────────────
+
+function makeTask(overrides: Partial<CronTask> = {}): CronTask {
+  return {
+    id: "task-1",
+    agent_id: "agent-test-001",
+    conversation_id: "default",
+    name: "Hourly check",
+    description: "A test cron task",
+    cron: "0 * * * *",
+    timezone: "UTC",
+    recurring: true,
+    prompt: "check things",
+    status: "active",
+    created_at: "2026-03-26T00:30:00.000Z",
+    expires_at: "2026-03-29T00:30:00.000Z",
+    last_fired_at: null,
+    fire_count: 0,
+    cancel_reason: null,
+    jitter_offset_ms: 0,
+    catch_up: "skip",
+    caught_up_through: null,
+    scheduled_for: null,
+    fired_at: null,
+    missed_at: null,
+    ...overrides,
+  };
+}
+
+const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+// The listener was down from 00:30 until 08:20 → 01:00 … 08:00 were missed.
+const NOW = new Date("2026-03-26T08:20:00Z");
+
+// ── planCatchUp ─────────────────────────────────────────────────────
+
+describe("planCatchUp", () => {
+  test("skip records every missed occurrence and fires none", () => {
+    const plan = planCatchUp(makeTask(), NOW);
+    expect(plan?.fire).toEqual([]);
+    expect(plan?.missed).toHaveLength(8);
+    expect(plan?.missed[0]?.toISOString()).toBe("2026-03-26T01:00:00.000Z");
+    expect(plan?.caughtUpThrough.toISOString()).toBe(
+      "2026-03-26T08:00:00.000Z",
+    );
+  });
+
+  test("tasks without a policy default to skip", () => {
+    const plan = planCatchUp(makeTask({ catch_up: undefined }), NOW);
+    expect(plan?.fire).toEqual([]);
+    expect(plan?.missed).toHaveLength(8);
+  });
+
+  test("run_once fires only the most recent occurrence", () => {
+    const plan = planCatchUp(makeTask({ catch_up: "run_once" }), NOW);
+    expect(iso(plan?.fire ?? [])).toEqual(["2026-03-26T08:00:00.000Z"]);
+    expect(plan?.missed).toHaveLength(7);
+  });
+
+  test("run_all_bounded fires up to the bound, oldest first", () => {
+    const plan = planCatchUp(makeTask({ catch_up: "run_all_bounded" }), NOW);
+    expect(plan?.fire).toHaveLength(MAX_CATCH_UP_RUNS);
+    expect(plan?.fire[0]?.toISOString()).toBe("2026-03-26T04:00:00.000Z");
+    expect(plan?.missed).toHaveLength(8 - MAX_CATCH_UP_RUNS);
+  });
+
+  test("starts after the last fire and the catch-up watermark", () => {
+    expect(
+      planCatchUp(makeTask({ last_fired_at: "2026-03-26T06:00:05.000Z" }), NOW)
+        ?.missed,
+    ).toHaveLength(2);
+    expect(
+      planCatchUp(
+        makeTask({ caught_up_through: "2026-03-26T08:00:00.000Z" }),
+        NOW,
+      ),
+    ).toBeNull();
+  });
+
+  test("leaves the current minute to the regular tick", () => {
+    const plan = planCatchUp(makeTask(), new Date("2026-03-26T08:00:30Z"));
+    expect(plan?.caughtUpThrough.toISOString()).toBe(
+      "2026-03-26T07:00:00.000Z",
+    );
+  });
+
+  test("ignores occurrences outside the lookback window or after expiry", () => {
+    const longAgo = new Date(NOW.getTime() - 3 * CATCH_UP_LOOKBACK_MS);
+    const plan = planCatchUp(
+      makeTask({ created_at: longAgo.toISOString(), expires_at: null }),
+      NOW,
+    );
+    expect(plan?.missed).toHaveLength(24);
+
+    const expired = planCatchUp(
+      makeTask({ expires_at: "2026-03-26T03:30:00.000Z" }),
+      NOW,
+    );
+    expect(expired?.missed).toHaveLength(3);
+  });
+
+  test("one-shots and inactive tasks are not planned", () => {
+    expect(planCatchUp(makeTask({ recurring: false }), NOW)).toBeNull();
+    expect(planCatchUp(makeTask({ status: "cancelled" }), NOW)).toBeNull();
+  });
+});
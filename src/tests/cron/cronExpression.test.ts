@@ -0,0 +1,279 @@
+import { describe, expect, test } from "bun:test";
+import {
+  expandCronMacro,
+  getNextFireTimes,
+  parseCron,
+} from "../../cron/cronExpression";
+import { cronMatchesTime } from "../../cron/parseInterval";
+
+const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+// ── parseCron ───────────────────────────────────────────────────────
+
+describe("parseCron", () => {
+  test("lists, ranges and stepped ranges", () => {
+    const cron = parseCron("0,15,30-40/5 9-17/4 * * *");
+    expect(cron).not.toBeNull();
+    expect([...(cron?.minutes ?? [])]).toEqual([0, 15, 30, 35, 40]);
+    expect([...(cron?.hours ?? [])]).toEqual([9, 13, 17]);
+  });
+
+  test("N/S steps from N to the end of the range", () => {
+    expect([...(parseCron("10/20 * * * *")?.minutes ?? [])]).toEqual([
+      10, 30, 50,
+    ]);
+  });
+
+  test("month and day names are case-insensitive", () => {
+    const cron = parseCron("0 9 * jan-MAR,Dec Mon-fri");
+    expect([...(cron?.months ?? [])]).toEqual([1, 2, 3, 12]);
+    expect([...(cron?.daysOfWeek ?? [])]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test("7 is Sunday", () => {
+    expect([...(parseCron("0 0 * * 7")?.daysOfWeek ?? [])]).toEqual([0]);
+  });
+
+  test("L and # modifiers", () => {
+    const cron = parseCron("0 0 L,L-2 * 5L,MON#2");
+    expect(cron?.lastDayOffsets).toEqual([0, 2]);
+    expect(cron?.lastWeekdays).toEqual([5]);
+    expect(cron?.nthWeekdays).toEqual([{ weekday: 1, nth: 2 }]);
+  });
+
+  test("macros", () => {
+    expect(expandCronMacro("@daily")).toBe("0 0 * * *");
+    expect(expandCronMacro(" @Hourly ")).toBe("0 * * * *");
+    expect(parseCron("@weekly")?.expression).toBe("0 0 * * 0");
+    expect(parseCron("@reboot")).toBeNull();
+  });
+
+  test("invalid expressions", () => {
+    expect(parseCron("60 * * * *")).toBeNull();
+    expect(parseCron("* 24 * * *")).toBeNull();
+    expect(parseCron("* * 0 * *")).toBeNull();
+    expect(parseCron("* * * 13 *")).toBeNull();
+    expect(parseCron("* * * * 8")).toBeNull();
+    expect(parseCron("10-5 * * * *")).toBeNull();
+    expect(parseCron("*/0 * * * *")).toBeNull();
+    expect(parseCron("1,,2 * * * *")).toBeNull();
+    expect(parseCron("* * * * MON#6")).toBeNull();
+    expect(parseCron("* * * FOO *")).toBeNull();
+    expect(parseCron("L * * * *")).toBeNull();
+  });
+});
+
+// ── Matching ────────────────────────────────────────────────────────
+
+describe("cronMatchesTime (extended dialect)", () => {
+  test("weekday business hours every 15m", () => {
+    const expr = "*/15 9-16 * * MON-FRI";
+    // 2026-03-26 is a Thursday
+    expect(cronMatchesTime(expr, new Date("2026-03-26T09:45:00Z"), "UTC")).toBe(
+      true,
+    );
+    expect(cronMatchesTime(expr, new Date("2026-03-26T17:00:00Z"), "UTC")).toBe(
+      false,
+    );
+    // 2026-03-28 is a Saturday
+    expect(cronMatchesTime(expr, new Date("2026-03-28T10:00:00Z"), "UTC")).toBe(
+      false,
+    );
+  });
+
+  test("last day of month handles leap years", () => {
+    expect(
+      cronMatchesTime("0 0 L * *", new Date("2028-02-29T00:00Z"), "UTC"),
+    ).toBe(true);
+    expect(
+      cronMatchesTime("0 0 L * *", new Date("2027-02-28T00:00Z"), "UTC"),
+    ).toBe(true);
+    expect(
+      cronMatchesTime("0 0 L * *", new Date("2028-02-28T00:00Z"), "UTC"),
+    ).toBe(false);
+  });
+
+  test("last Friday and second Monday of the month", () => {
+    // 2026-03-27 is the last Friday of March 2026
+    expect(
+      cronMatchesTime("0 12 * * 5L", new Date("2026-03-27T12:00Z"), "UTC"),
+    ).toBe(true);
+    expect(
+      cronMatchesTime("0 12 * * 5L", new Date("2026-03-20T12:00Z"), "UTC"),
+    ).toBe(false);
+    // 2026-03-09 is the second Monday of March 2026
+    expect(
+      cronMatchesTime("0 12 * * MON#2", new Date("2026-03-09T12:00Z"), "UTC"),
+    ).toBe(true);
+    expect(
+      cronMatchesTime("0 12 * * MON#2", new Date("2026-03-16T12:00Z"), "UTC"),
+    ).toBe(false);
+  });
+
+  test("macros match", () => {
+    const midnight = new Date("2026-03-26T00:00:00Z");
+    expect(cronMatchesTime("@daily", midnight, "UTC")).toBe(true);
+    expect(cronMatchesTime("@hourly", midnight, "UTC")).toBe(true);
+    expect(cronMatchesTime("@monthly", midnight, "UTC")).toBe(false);
+  });
+
+  test("ignores seconds within the minute", () => {
+    expect(
+      cronMatchesTime("30 14 * * *", new Date("2026-03-26T14:30:42Z"), "UTC"),
+    ).toBe(true);
+  });
+});
+
+// ── DST ─────────────────────────────────────────────────────────────
+
+// Europe/Berlin: 2026-03-29 02:00 CET → 03:00 CEST (01:00Z),
+//                2026-10-25 03:00 CEST → 02:00 CET (01:00Z).
+const TZ = "Europe/Berlin";
+
+describe("DST transitions", () => {
+  test("fixed time skipped by spring-forward fires when the clocks jump", () => {
+    const expr = "30 2 * * *";
+    // 00:59Z is 01:59 CET; 01:00Z is 03:00 CEST.
+    expect(cronMatchesTime(expr, new Date("2026-03-29T00:59:00Z"), TZ)).toBe(
+      false,
+    );
+    expect(cronMatchesTime(expr, new Date("2026-03-29T01:00:00Z"), TZ)).toBe(
+      true,
+    );
+    expect(cronMatchesTime(expr, new Date("2026-03-29T01:30:00Z"), TZ)).toBe(
+      false,
+    );
+  });
+
+  test("interval expressions skip minutes that don't exist", () => {
+    expect(
+      cronMatchesTime("30 * * * *", new Date("2026-03-29T01:00:00Z"), TZ),
+    ).toBe(false);
+  });
+
+  test("fixed time in the fall-back overlap fires once", () => {
+    const expr = "30 2 * * *";
+    // 02:30 CEST (00:30Z) and 02:30 CET (01:30Z)
+    expect(cronMatchesTime(expr, new Date("2026-10-25T00:30:00Z"), TZ)).toBe(
+      true,
+    );
+    expect(cronMatchesTime(expr, new Date("2026-10-25T01:30:00Z"), TZ)).toBe(
+      false,
+    );
+  });
+
+  test("interval expressions fire in both occurrences of a repeated hour", () => {
+    const expr = "*/30 * * * *";
+    expect(cronMatchesTime(expr, new Date("2026-10-25T00:30:00Z"), TZ)).toBe(
+      true,
+    );
+    expect(cronMatchesTime(expr, new Date("2026-10-25T01:30:00Z"), TZ)).toBe(
+      true,
+    );
+  });
+
+  test("wall-clock time is preserved across the transition", () => {
+    // 09:00 Berlin is 08:00Z before the switch and 07:00Z after.
+    expect(
+      iso(
+        getNextFireTimes("0 9 * * *", {
+          from: new Date("2026-03-28T00:00:00Z"),
+          count: 2,
+          timezone: TZ,
+        }),
+      ),
+    ).toEqual(["2026-03-28T08:00:00.000Z", "2026-03-29T07:00:00.000Z"]);
+  });
+});
+
+// ── getNextFireTimes ────────────────────────────────────────────────
+
+describe("getNextFireTimes", () => {
+  test("returns upcoming matches strictly after `from`", () => {
+    expect(
+      iso(
+        getNextFireTimes("*/15 * * * *", {
+          from: new Date("2026-03-26T10:15:00Z"),
+          count: 3,
+          timezone: "UTC",
+        }),
+      ),
+    ).toEqual([
+      "2026-03-26T10:30:00.000Z",
+      "2026-03-26T10:45:00.000Z",
+      "2026-03-26T11:00:00.000Z",
+    ]);
+  });
+
+  test("skips weekends for MON-FRI", () => {
+    // 2026-03-27 is a Friday
+    expect(
+      iso(
+        getNextFireTimes("0 9 * * MON-FRI", {
+          from: new Date("2026-03-27T10:00:00Z"),
+          count: 2,
+          timezone: "UTC",
+        }),
+      ),
+    ).toEqual(["2026-03-30T09:00:00.000Z", "2026-03-31T09:00:00.000Z"]);
+  });
+
+  test("sparse expressions look far ahead", () => {
+    expect(
+      iso(
+        getNextFireTimes("0 0 29 2 *", {
+          from: new Date("2026-03-01T00:00:00Z"),
+          count: 1,
+          timezone: "UTC",
+        }),
+      ),
+    ).toEqual(["2028-02-29T00:00:00.000Z"]);
+  });
+
+  test("DST gap and overlap previews", () => {
+    expect(
+      iso(
+        getNextFireTimes("30 2 * * *", {
+          from: new Date("2026-03-28T12:00:00Z"),
+          count: 2,
+          timezone: TZ,
+        }),
+      ),
+    ).toEqual(["2026-03-29T01:00:00.000Z", "2026-03-30T00:30:00.000Z"]);
+
+    expect(
+      iso(
+        getNextFireTimes("0 2 * * *", {
+          from: new Date("2026-10-24T12:00:00Z"),
+          count: 2,
+          timezone: TZ,
+        }),
+      ),
+    ).toEqual(["2026-10-25T00:00:00.000Z", "2026-10-26T01:00:00.000Z"]);
+
+    expect(
+      iso(
+        getNextFireTimes("0 * * * *", {
+          from: new Date("2026-10-24T23:30:00Z"),
+          count: 3,
+          timezone: TZ,
+        }),
+      ),
+    ).toEqual([
+      "2026-10-25T00:00:00.000Z",
+      "2026-10-25T01:00:00.000Z",
+      "2026-10-25T02:00:00.000Z",
+    ]);
+  });
+
+  test("invalid or never-firing expressions return an empty list", () => {
+    expect(getNextFireTimes("not a cron", { count: 3 })).toEqual([]);
+    expect(
+      getNextFireTimes("0 0 31 2 *", {
+        from: new Date("2026-01-01T00:00:00Z"),
+        count: 1,
+        timezone: "UTC",
+      }),
+    ).toEqual([]);
+  });
+});
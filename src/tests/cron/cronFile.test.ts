@@ -11,6 +11,7 @@ import {
   garbageCollect,
   getActiveTasks,
   getTask,
+  getTaskNextFireTimes,
   listTasks,
   releaseSchedulerLease,
   updateTask,
@@ -338,3 +339,54 @@ describe("computeJitter", () => {
     expect(jitter).toBe(0);
   });
 });
+
+// ── getTaskNextFireTimes ──────────────────────────────────────────
+
+describe("getTaskNextFireTimes", () => {
+  test("recurring task previews upcoming times in its timezone", () => {
+    const { task } = addTask(
+      makeInput({ cron: "0 9 * * MON-FRI", timezone: "Europe/Berlin" }),
+    );
+    const from = new Date(task.created_at);
+    const times = getTaskNextFireTimes(task, 3, from);
+    expect(times).toHaveLength(3);
+    for (const time of times) {
+      const ms = new Date(time).getTime() - task.jitter_offset_ms;
+      const hour = new Intl.DateTimeFormat("en-US", {
+        timeZone: "Europe/Berlin",
+        hour: "numeric",
+        hourCycle: "h23",
+      }).format(new Date(ms));
+      expect(hour).toBe("09");
+    }
+  });
+
+  test("recurring preview stops at expires_at", () => {
+    const { task } = addTask(makeInput({ cron: "@daily" }));
+    // 3-day TTL → at most 3 midnights before expiry
+    const times = getTaskNextFireTimes(task, 10, new Date(task.created_at));
+    expect(times.length).toBeLessThanOrEqual(3);
+    const expiresMs = new Date(task.expires_at ?? "").getTime();
+    for (const time of times) {
+      expect(new Date(time).getTime()).toBeLessThan(expiresMs);
+    }
+  });
+
+  test("one-shot returns its scheduled time; inactive tasks return none", () => {
+    const scheduledFor = new Date(Date.now() + 60 * 60_000);
+    scheduledFor.setMinutes(15, 0, 0);
+    const { task } = addTask(
+      makeInput({
+        recurring: false,
+        cron: "15 * * * *",
+        scheduled_for: scheduledFor,
+      }),
+    );
+    expect(getTaskNextFireTimes(task, 5)).toEqual([scheduledFor.toISOString()]);
+
+    const fired = updateTask(task.id, (t) => {
+      t.status = "fired";
+    });
+    expect(fired && getTaskNextFireTimes(fired, 5)).toEqual([]);
+  });
+});
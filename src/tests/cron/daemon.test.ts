@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import path from "node:path";
+import {
+  type AddTaskInput,
+  addTask,
+  claimSchedulerLease,
+  releaseSchedulerLease,
+} from "../../cron/cronFile";
+import {
+  buildCronRunArgs,
+  type CronLauncher,
+  executeCronRun,
+  runCronDaemon,
+} from "../../cron/daemon";
+import { getCronRunHistory, recordCronRunQueued } from "../../cron/runHistory";
+
+// ── Test setup ──────────────────────────────────────────────────────
+
+const TEST_DIR = path.join(import.meta.dir, "__daemon_test_tmp__");
+const LOG_DIR = path.join(TEST_DIR, "logs");
+const origHome = process.env.LETTA_HOME;
+
+beforeEach(() => {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+  mkdirSync(TEST_DIR, { recursive: true });
+  process.env.LETTA_HOME = TEST_DIR;
+});
+
+afterEach(() => {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+  if (origHome) process.env.LETTA_HOME = origHome;
+  else delete process.env.LETTA_HOME;
+});
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function makeInput(overrides: Partial<AddTaskInput> = {}): AddTaskInput {
+  return {
+    agent_id: "agent-test-001",
+    conversation_id: "conv-abc",
+    name: "Nightly cleanup",
+    description: "A test cron task",
+    prompt: "clean up",
+    cron: "0 3 * * *",
+    recurring: true,
+    ...overrides,
+  };
+}
+
+/**
+ * Launcher that runs a stand-in for `letta -p`: it echoes its argv to
+ * stderr and prints the given stream-json lines.
+ */
+function fakeHeadless(lines: object[], exitCode = 0): string[] {
+  const script = path.join(TEST_DIR, "fake-letta.js");
+  writeFileSync(
+    script,
+    [
+      "console.error(JSON.stringify(process.argv.slice(2)));",
+      ...lines.map((l) => `console.log(${JSON.stringify(JSON.stringify(l))});`),
+      `process.exit(${exitCode});`,
+    ].join("\n"),
+  );
+  return [script];
+}
+
+function launcherFor(scriptArgs: string[]) {
+  return (cliArgs: string[]): CronLauncher => ({
+    command: process.execPath,
+    args: [...scriptArgs, ...cliArgs],
+  });
+}
+
+// ── buildCronRunArgs ────────────────────────────────────────────────
+
+describe("buildCronRunArgs", () => {
+  test("targets an explicit conversation", () => {
+    const { task } = addTask(makeInput());
+    expect(buildCronRunArgs(task, "hi")).toEqual([
+      "--conv",
+      "conv-abc",
+      "-p",
+      "hi",
+      "--output-format",
+      "stream-json",
+    ]);
+  });
+
+  test("targets the agent's default conversation", () => {
+    const { task } = addTask(makeInput({ conversation_id: "default" }));
+    const args = buildCronRunArgs(task, "hi", {
+      permissionMode: "bypassPermissions",
+    });
+    expect(args.slice(0, 4)).toEqual([
+      "--agent",
+      "agent-test-001",
+      "--conv",
+      "default",
+    ]);
+    expect(args.slice(-2)).toEqual(["--permission-mode", "bypassPermissions"]);
+  });
+});
+
+// ── executeCronRun ──────────────────────────────────────────────────
+
+describe("executeCronRun", () => {
+  test("logs output and records a successful run", async () => {
+    const { task } = addTask(makeInput());
+    const record = recordCronRunQueued(task, new Date("2026-03-26T03:00:00Z"));
+    const script = fakeHeadless([
+      { type: "system", subtype: "init" },
+      {
+        type: "result",
+        subtype: "success",
+        result: "done",
+        run_ids: ["run-1", "run-2"],
+      },
+    ]);
+
+    const outcome = await executeCronRun(task, "clean up", record, {
+      logDir: LOG_DIR,
+      resolveLauncher: launcherFor(script),
+    });
+
+    expect(outcome).toMatchObject({
+      success: true,
+      runId: "run-2",
+      stopReason: "end_turn",
+      error: null,
+    });
+    expect(outcome.logPath).toBe(
+      path.join(LOG_DIR, task.id, `${record.id}.log`),
+    );
+    const log = readFileSync(outcome.logPath, "utf-8");
+    expect(log).toContain('"subtype":"success"');
+    expect(log).toContain('[stderr] ["--conv","conv-abc","-p","clean up"');
+
+    expect(getCronRunHistory(task.id)[0]).toMatchObject({
+      id: record.id,
+      status: "succeeded",
+      run_id: "run-2",
+      log_path: outcome.logPath,
+    });
+  });
+
+  test("records failed runs", async () => {
+    const { task } = addTask(makeInput());
+    const record = recordCronRunQueued(task, new Date("2026-03-26T03:00:00Z"));
+    const script = fakeHeadless(
+      [
+        {
+          type: "result",
+          subtype: "error",
+          result: null,
+          run_ids: ["run-9"],
+          stop_reason: "llm_api_error",
+        },
+      ],
+      1,
+    );
+
+    const outcome = await executeCronRun(task, "clean up", record, {
+      logDir: LOG_DIR,
+      resolveLauncher: launcherFor(script),
+    });
+
+    expect(outcome).toMatchObject({
+      success: false,
+      runId: "run-9",
+      stopReason: "llm_api_error",
+    });
+    expect(getCronRunHistory(task.id)[0]?.status).toBe("failed");
+  });
+});
+
+// ── runCronDaemon ───────────────────────────────────────────────────
+
+describe("runCronDaemon", () => {
+  test("exits when another process holds the scheduler lease", async () => {
+    const token = claimSchedulerLease();
+    try {
+      expect(await runCronDaemon({ logDir: LOG_DIR })).toBe(1);
+    } finally {
+      releaseSchedulerLease(token);
+    }
+  });
+});
@@ -21,11 +21,14 @@ describe("parseEvery", () => {
     expect(parseEvery("1m")?.cron).toBe("*/1 * * * *");
   });
 
-  test("minutes — non-divisor rounds to nearest", () => {
-    const result = parseEvery("7m");
-    expect(result).not.toBeNull();
-    // 7 rounds to nearest divisor of 60 (5 or 6)
-    expect(result?.note).toBeDefined();
+  test("minutes — non-divisor of 60 is rejected", () => {
+    expect(() => parseEvery("7m")).toThrow(/--cron/);
+    expect(() => parseEvery("90m")).toThrow(/--cron/);
+  });
+
+  test("minutes — whole hours convert to hour steps", () => {
+    expect(parseEvery("60m")?.cron).toBe("0 */1 * * *");
+    expect(parseEvery("120m")?.cron).toBe("0 */2 * * *");
   });
 
   test("hours — clean divisor of 24", () => {
@@ -34,30 +37,34 @@ describe("parseEvery", () => {
     expect(parseEvery("6h")?.cron).toBe("0 */6 * * *");
   });
 
-  test("hours — non-divisor rounds", () => {
-    const result = parseEvery("5h");
-    expect(result).not.toBeNull();
-    expect(result?.note).toBeDefined(); // should mention rounding
+  test("hours — non-divisor of 24 is rejected", () => {
+    expect(() => parseEvery("5h")).toThrow(/--cron/);
+    expect(() => parseEvery("7h")).toThrow(/--cron/);
+    expect(() => parseEvery("36h")).toThrow(/--cron/);
   });
 
-  test("hours — ≥24h clamps to daily", () => {
+  test("hours — whole days convert to day steps", () => {
     expect(parseEvery("24h")?.cron).toBe("0 0 * * *");
-    expect(parseEvery("48h")?.cron).toBe("0 0 * * *");
+    expect(parseEvery("48h")?.cron).toBe("0 0 */2 * *");
   });
 
   test("days — 1d", () => {
     expect(parseEvery("1d")?.cron).toBe("0 0 * * *");
   });
 
-  test("days — multi-day", () => {
-    expect(parseEvery("3d")?.cron).toBe("0 0 */3 * *");
+  test("days — multi-day reports the month reset", () => {
+    const result = parseEvery("3d");
+    expect(result?.cron).toBe("0 0 */3 * *");
+    expect(result?.note).toContain("restarts on the 1st");
   });
 
-  test("seconds — below 60 rounds up to 1m", () => {
-    const result = parseEvery("30s");
-    expect(result).not.toBeNull();
-    expect(result?.cron).toBe("*/1 * * * *");
-    expect(result?.note).toContain("Rounded");
+  test("days — longer than a month is rejected", () => {
+    expect(() => parseEvery("40d")).toThrow(/--cron/);
+  });
+
+  test("seconds — not a whole number of minutes is rejected", () => {
+    expect(() => parseEvery("30s")).toThrow(/--cron/);
+    expect(() => parseEvery("90s")).toThrow(/--cron/);
   });
 
   test("seconds — 120s → 2 minutes", () => {
@@ -153,6 +160,12 @@ describe("isValidCron", () => {
     expect(isValidCron("0 0 * * *")).toBe(true);
     expect(isValidCron("0 0 */3 * *")).toBe(true);
     expect(isValidCron("0-59 * * * *")).toBe(true);
+    expect(isValidCron("*/15 9-16 * * MON-FRI")).toBe(true);
+    expect(isValidCron("0 9,12,18 1-7 JAN,JUL *")).toBe(true);
+    expect(isValidCron("0 0 L * *")).toBe(true);
+    expect(isValidCron("0 0 * * 5L")).toBe(true);
+    expect(isValidCron("0 0 * * 1#2")).toBe(true);
+    expect(isValidCron("@daily")).toBe(true);
   });
 
   test("invalid expressions", () => {
@@ -160,6 +173,9 @@ describe("isValidCron", () => {
     expect(isValidCron("* * *")).toBe(false); // too few fields
     expect(isValidCron("* * * * * *")).toBe(false); // too many fields
     expect(isValidCron("abc * * * *")).toBe(false);
+    expect(isValidCron("60 * * * *")).toBe(false); // out of range
+    expect(isValidCron("0 0 * * MON-FOO")).toBe(false);
+    expect(isValidCron("@sometimes")).toBe(false);
   });
 });
 
@@ -277,6 +293,11 @@ describe("estimatePeriodMs", () => {
     expect(estimatePeriodMs("30 14 * * *")).toBe(24 * 60 * 60 * 1000);
   });
 
+  test("macros", () => {
+    expect(estimatePeriodMs("@daily")).toBe(24 * 60 * 60 * 1000);
+    expect(estimatePeriodMs("@midnight")).toBe(24 * 60 * 60 * 1000);
+  });
+
   test("complex expressions return 0", () => {
     expect(estimatePeriodMs("0 0 */3 * *")).toBe(0);
     expect(estimatePeriodMs("0 0 * * 1-5")).toBe(0);
@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+} from "node:fs";
+import path from "node:path";
+import { addTask, type CronTask } from "../../cron/cronFile";
+import {
+  compactCronRunHistory,
+  getCronRunHistory,
+  HISTORY_RETENTION_MS,
+  MAX_RUNS_PER_TASK,
+  recordCronRunCompleted,
+  recordCronRunMissed,
+  recordCronRunQueued,
+} from "../../cron/runHistory";
+import type { DequeuedBatch } from "../../queue/queueRuntime";
+import {
+  recordCronBatchOutcome,
+  recordDroppedCronItems,
+} from "../../websocket/listener/cron";
+
+// ── Test setup ──────────────────────────────────────────────────────
+
+const TEST_DIR = path.join(import.meta.dir, "__run_history_test_tmp__");
+const origHome = process.env.LETTA_HOME;
+
+beforeEach(() => {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+  mkdirSync(TEST_DIR, { recursive: true });
+  process.env.LETTA_HOME = TEST_DIR;
+});
+
+afterEach(() => {
+  if (existsSync(TEST_DIR)) {
+    rmSync(TEST_DIR, { recursive: true });
+  }
+  if (origHome) process.env.LETTA_HOME = origHome;
+  else delete process.env.LETTA_HOME;
+});
+
+function makeTask(): CronTask {
+  return addTask({
+    agent_id: "agent-test-001",
+    conversation_id: "conv-1",
+    name: "Test task",
+    description: "A test cron task",
+    prompt: "echo hello",
+    cron: "*/5 * * * *",
+    recurring: true,
+  }).task;
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe("cron run history", () => {
+  test("queued runs are refined by completion events", () => {
+    const task = makeTask();
+    const record = recordCronRunQueued(task, new Date("2026-03-26T10:00:00Z"));
+    expect(record.status).toBe("queued");
+
+    recordCronRunCompleted(record.id, task.id, {
+      success: true,
+      runId: "run-123",
+      stopReason: "end_turn",
+    });
+
+    const [run] = getCronRunHistory(task.id);
+    expect(run).toMatchObject({
+      id: record.id,
+      task_id: task.id,
+      conversation_id: "conv-1",
+      scheduled_for: "2026-03-26T10:00:00.000Z",
+      status: "succeeded",
+      run_id: "run-123",
+      stop_reason: "end_turn",
+      catch_up: false,
+    });
+    expect(run?.completed_at).not.toBeNull();
+  });
+
+  test("failed runs and misses are recorded", () => {
+    const task = makeTask();
+    recordCronRunMissed(task, new Date("2026-03-26T09:55:00Z"));
+    const record = recordCronRunQueued(task, new Date("2026-03-26T10:00:00Z"), {
+      catchUp: true,
+    });
+    recordCronRunCompleted(record.id, task.id, {
+      success: false,
+      stopReason: "error",
+    });
+
+    const runs = getCronRunHistory(task.id);
+    expect(runs.map((r) => r.status)).toEqual(["failed", "missed"]);
+    expect(runs[0]?.catch_up).toBe(true);
+    expect(runs[1]?.fired_at).toBeNull();
+  });
+
+  test("returns the most recent occurrences first, up to the limit", () => {
+    const task = makeTask();
+    const other = makeTask();
+    for (const minute of ["00", "05", "10"]) {
+      recordCronRunQueued(task, new Date(`2026-03-26T10:${minute}:00Z`));
+    }
+    recordCronRunQueued(other, new Date("2026-03-26T10:15:00Z"));
+
+    const runs = getCronRunHistory(task.id, 2);
+    expect(runs.map((r) => r.scheduled_for)).toEqual([
+      "2026-03-26T10:10:00.000Z",
+      "2026-03-26T10:05:00.000Z",
+    ]);
+  });
+
+  test("skips corrupt lines and orphaned completion events", () => {
+    const task = makeTask();
+    recordCronRunQueued(task, new Date("2026-03-26T10:00:00Z"));
+    appendFileSync(path.join(TEST_DIR, "cron-history.jsonl"), "{not json\n");
+    recordCronRunCompleted("cr-unknown", task.id, { success: true });
+
+    expect(getCronRunHistory(task.id)).toHaveLength(1);
+  });
+});
+
+describe("recordCronBatchOutcome", () => {
+  function cronBatch(task: CronTask, recordId: string): DequeuedBatch {
+    return {
+      batchId: "batch-1",
+      items: [
+        {
+          id: "q-1",
+          enqueuedAt: Date.now(),
+          kind: "cron_prompt",
+          source: "cron",
+          text: "prompt",
+          cronTaskId: task.id,
+          cronRunId: recordId,
+          agentId: task.agent_id,
+          conversationId: task.conversation_id,
+        },
+      ],
+      mergedCount: 1,
+      queueLenAfter: 0,
+    };
+  }
+
+  test("runs stopped for approval wait for the conversation's next turn", () => {
+    const task = makeTask();
+    const record = recordCronRunQueued(task, new Date("2026-03-26T10:00:00Z"));
+    const scope = { agentId: task.agent_id, conversationId: "conv-1" };
+
+    recordCronBatchOutcome(cronBatch(task, record.id), {
+      stopReason: "requires_approval",
+      runId: "run-1",
+      ...scope,
+    });
+    expect(getCronRunHistory(task.id)[0]).toMatchObject({
+      status: "awaiting_approval",
+      run_id: "run-1",
+      completed_at: null,
+    });
+
+    recordCronBatchOutcome(
+      { batchId: "batch-2", items: [], mergedCount: 0, queueLenAfter: 0 },
+      { stopReason: "end_turn", runId: "run-2", ...scope },
+    );
+    expect(getCronRunHistory(task.id)[0]).toMatchObject({
+      status: "succeeded",
+      run_id: "run-2",
+    });
+  });
+
+  test("runs dropped from the queue are recorded as failed", () => {
+    const task = makeTask();
+    const record = recordCronRunQueued(task, new Date("2026-03-26T10:00:00Z"));
+
+    recordDroppedCronItems(cronBatch(task, record.id).items, "rate_limited");
+    expect(getCronRunHistory(task.id)[0]).toMatchObject({
+      status: "failed",
+      error: "Dropped from the queue (rate_limited)",
+    });
+  });
+
+  test("compaction keeps the newest runs per task within the retention window", () => {
+    const task = makeTask();
+    const now = new Date("2026-03-26T12:00:00Z").getTime();
+    const old = recordCronRunQueued(
+      task,
+      new Date(now - HISTORY_RETENTION_MS - 60_000),
+    );
+    recordCronRunCompleted(old.id, task.id, { success: true });
+    const pending = recordCronRunQueued(
+      task,
+      new Date(now - HISTORY_RETENTION_MS - 120_000),
+    );
+    for (let i = 0; i < MAX_RUNS_PER_TASK; i++) {
+      const record = recordCronRunQueued(task, new Date(now - i * 60_000));
+      recordCronRunCompleted(record.id, task.id, { success: true });
+    }
+
+    expect(compactCronRunHistory(now)).toBe(2);
+
+    const runs = getCronRunHistory(task.id, MAX_RUNS_PER_TASK + 10);
+    expect(runs).toHaveLength(MAX_RUNS_PER_TASK);
+    expect(runs.every((run) => run.status === "succeeded")).toBe(true);
+    expect(runs.some((run) => run.id === old.id || run.id === pending.id)).toBe(
+      false,
+    );
+    const lines = readFileSync(
+      path.join(TEST_DIR, "cron-history.jsonl"),
+      "utf-8",
+    )
+      .trim()
+      .split("\n");
+    expect(lines).toHaveLength(MAX_RUNS_PER_TASK);
+  });
+});
@@ -1,14 +1,25 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { existsSync, mkdirSync, rmSync } from "node:fs";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
 import path from "node:path";
 import {
   type AddTaskInput,
   addTask,
+  claimSchedulerLease,
   deleteTask,
   getTask,
+  releaseSchedulerLease,
   updateTask,
 } from "../../cron/cronFile";
 import { cronMatchesTime } from "../../cron/parseInterval";
+import { getCronRunHistory } from "../../cron/runHistory";
+import {
+  type CronDispatcher,
+  isSchedulerRunning,
+  startScheduler,
+  stopScheduler,
+} from "../../cron/scheduler";
+import { clearHooksCache } from "../../hooks";
+import { settingsManager } from "../../settings-manager";
 
 // ── Test setup ──────────────────────────────────────────────────────
 
@@ -24,6 +35,7 @@ beforeEach(() => {
 });
 
 afterEach(() => {
+  stopScheduler();
   if (existsSync(TEST_DIR)) {
     rmSync(TEST_DIR, { recursive: true });
   }
@@ -200,3 +212,177 @@ describe("jitter revalidation guards", () => {
     expect(fresh?.status).toBe("fired");
   });
 });
+
+// ── Dispatch ────────────────────────────────────────────────────────
+
+describe("startScheduler dispatch", () => {
+  test("due tasks are handed to the dispatcher with a queued run record", async () => {
+    const { task } = addTask(
+      makeInput({
+        recurring: false,
+        scheduled_for: new Date(Date.now() - 60_000),
+      }),
+    );
+    updateTask(task.id, (t) => {
+      t.jitter_offset_ms = 0;
+    });
+
+    const dispatched: Parameters<CronDispatcher>[] = [];
+    let onDispatch = () => {};
+    const dispatchedOnce = new Promise<void>((resolve) => {
+      onDispatch = resolve;
+    });
+    expect(
+      startScheduler((...args) => {
+        dispatched.push(args);
+        onDispatch();
+        return { delivered: true };
+      }),
+    ).toBe(true);
+    expect(isSchedulerRunning()).toBe(true);
+
+    // Dispatch waits for CronFire hooks
+    await dispatchedOnce;
+    expect(dispatched).toHaveLength(1);
+    const [firedTask, prompt, runRecord] = dispatched[0] ?? [];
+    expect(firedTask?.id).toBe(task.id);
+    expect(prompt).toContain("echo hello");
+    expect(runRecord?.status).toBe("queued");
+    expect(getCronRunHistory(task.id)[0]?.id).toBe(runRecord?.id);
+    expect(getTask(task.id)?.status).toBe("fired");
+  });
+
+  test("catch-up occurrences are dispatched in order, one after the other", async () => {
+    const { task } = addTask(
+      makeInput({ cron: "0 * * * *", catch_up: "run_all_bounded" }),
+    );
+    const threeHoursAgo = new Date(Date.now() - 3 * 60 * 60_000);
+    updateTask(task.id, (t) => {
+      t.created_at = threeHoursAgo.toISOString();
+      t.timezone = "UTC";
+      t.jitter_offset_ms = 0;
+    });
+
+    const scheduled: string[] = [];
+    const fireCounts: number[] = [];
+    let onDispatch = () => {};
+    const dispatchedAll = new Promise<void>((resolve) => {
+      onDispatch = resolve;
+    });
+    startScheduler((firedTask, _prompt, runRecord) => {
+      scheduled.push(runRecord.scheduled_for);
+      fireCounts.push(firedTask.fire_count);
+      if (scheduled.length === 3) onDispatch();
+      return { delivered: true };
+    });
+
+    await dispatchedAll;
+    expect([...scheduled].sort()).toEqual(scheduled);
+    expect(fireCounts).toEqual([0, 1, 2]);
+    expect(getTask(task.id)?.fire_count).toBe(3);
+  });
+
+  test("an undelivered prompt fails its run and leaves the task state alone", async () => {
+    const { task } = addTask(
+      makeInput({
+        recurring: false,
+        scheduled_for: new Date(Date.now() - 60_000),
+      }),
+    );
+    updateTask(task.id, (t) => {
+      t.jitter_offset_ms = 0;
+    });
+
+    let onDispatch = () => {};
+    const dispatchedOnce = new Promise<void>((resolve) => {
+      onDispatch = resolve;
+    });
+    startScheduler(() => {
+      onDispatch();
+      return { delivered: false, error: "Listener is not running" };
+    });
+
+    await dispatchedOnce;
+    const fresh = getTask(task.id);
+    expect(fresh?.status).toBe("active");
+    expect(fresh?.fire_count).toBe(0);
+    expect(fresh?.last_fired_at).toBeNull();
+    const [run] = getCronRunHistory(task.id);
+    expect(run?.status).toBe("failed");
+    expect(run?.error).toBe("Listener is not running");
+  });
+
+  test("does not start while another owner holds the lease", () => {
+    const token = claimSchedulerLease();
+    const dispatch: CronDispatcher = () => ({ delivered: true });
+    expect(startScheduler(dispatch)).toBe(false);
+    expect(isSchedulerRunning()).toBe(false);
+
+    releaseSchedulerLease(token);
+    expect(startScheduler(dispatch)).toBe(true);
+  });
+});
+
+describe("startScheduler CronFire hooks", () => {
+  const origUserHome = process.env.HOME;
+
+  beforeEach(async () => {
+    await settingsManager.reset();
+    const home = path.join(TEST_DIR, "home");
+    mkdirSync(path.join(home, ".letta"), { recursive: true });
+    writeFileSync(
+      path.join(home, ".letta", "settings.json"),
+      JSON.stringify({
+        hooks: {
+          CronFire: [
+            {
+              matcher: "*",
+              hooks: [{ type: "command", command: "echo nope >&2; exit 2" }],
+            },
+          ],
+        },
+      }),
+    );
+    process.env.HOME = home;
+    await settingsManager.initialize();
+    clearHooksCache();
+  });
+
+  afterEach(async () => {
+    await settingsManager.reset();
+    clearHooksCache();
+    process.env.HOME = origUserHome;
+  });
+
+  test("a blocked occurrence fails its run without counting as a fire", async () => {
+    const { task } = addTask(
+      makeInput({
+        recurring: false,
+        scheduled_for: new Date(Date.now() - 60_000),
+      }),
+    );
+    updateTask(task.id, (t) => {
+      t.jitter_offset_ms = 0;
+    });
+
+    const dispatched: string[] = [];
+    startScheduler((firedTask) => {
+      dispatched.push(firedTask.id);
+      return { delivered: true };
+    });
+
+    for (let i = 0; i < 50; i++) {
+      if (getTask(task.id)?.status !== "active") break;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    expect(dispatched).toEqual([]);
+    const fresh = getTask(task.id);
+    expect(fresh?.status).toBe("cancelled");
+    expect(fresh?.cancel_reason).toBe("blocked_by_hook");
+    expect(fresh?.fire_count).toBe(0);
+    const [run] = getCronRunHistory(task.id);
+    expect(run?.status).toBe("failed");
+    expect(run?.error).toContain("Blocked by CronFire hook");
+  });
+});
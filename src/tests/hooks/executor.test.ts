@@ -13,14 +13,61 @@ import {
   type PostToolUseFailureHookInput,
   type PostToolUseHookInput,
   type PreToolUseHookInput,
+  parseHookJsonOutput,
   type SessionStartHookInput,
   type StopHookInput,
+  type UserPromptSubmitHookInput,
 } from "../../hooks/types";
 
 // Skip on Windows - test commands use bash syntax (&&, >&2, sleep, etc.)
 // The executor itself is cross-platform, but these test commands are bash-specific
 const isWindows = process.platform === "win32";
 
+describe("parseHookJsonOutput", () => {
+  test("plain text and unrelated JSON keep their plain-text meaning", () => {
+    expect(parseHookJsonOutput("hello")).toBeNull();
+    expect(parseHookJsonOutput("{not json")).toBeNull();
+    expect(parseHookJsonOutput('{"foo": 1}')).toBeNull();
+    expect(parseHookJsonOutput("[1, 2]")).toBeNull();
+  });
+
+  test("extracts known fields, including hookSpecificOutput", () => {
+    expect(
+      parseHookJsonOutput(
+        JSON.stringify({
+          continue: true,
+          suppressOutput: true,
+          hookSpecificOutput: {
+            hookEventName: "PreToolUse",
+            permissionDecision: "deny",
+            permissionDecisionReason: "no rm",
+          },
+        }),
+      ),
+    ).toEqual({
+      output: {
+        continue: true,
+        suppressOutput: true,
+        permissionDecision: "deny",
+        permissionDecisionReason: "no rm",
+      },
+    });
+  });
+
+  test("rejects values that violate the schema", () => {
+    const result = parseHookJsonOutput(
+      '{"permissionDecision": "maybe", "additionalContext": "x"}',
+    );
+    expect(result).not.toBeNull();
+    expect(result && "error" in result && result.error).toContain(
+      "permissionDecision",
+    );
+    expect(
+      parseHookJsonOutput('{"updatedInput": ["ls"]}') as { error: string },
+    ).toHaveProperty("error");
+  });
+});
+
 describe.skipIf(isWindows)("Hooks Executor", () => {
   let tempDir: string;
 
@@ -329,6 +376,124 @@ describe.skipIf(isWindows)("Hooks Executor", () => {
     });
   });
 
+  describe("JSON decision output", () => {
+    const bashInput = (command: string): PreToolUseHookInput => ({
+      event_type: "PreToolUse",
+      working_directory: tempDir,
+      tool_name: "Bash",
+      tool_input: { command, description: "run it" },
+    });
+
+    test("updatedInput rewrites the tool input seen by later hooks", async () => {
+      const hooks: HookCommand[] = [
+        {
+          type: "command",
+          command: `echo '{"updatedInput": {"command": "rm -ri build"}}'`,
+        },
+        {
+          type: "command",
+          command: `grep -o '"command":"[^"]*"'`,
+        },
+      ];
+
+      const result = await executeHooks(
+        hooks,
+        bashInput("rm -rf build"),
+        tempDir,
+      );
+
+      expect(result.blocked).toBe(false);
+      expect(result.updatedInput).toEqual({
+        command: "rm -ri build",
+        description: "run it",
+      });
+      expect(result.results[1]?.stdout).toBe('"command":"rm -ri build"');
+    });
+
+    test("permissionDecision deny blocks with its reason", async () => {
+      const hooks: HookCommand[] = [
+        {
+          type: "command",
+          command: `echo '{"permissionDecision": "deny", "permissionDecisionReason": "no force pushes"}'`,
+        },
+        { type: "command", command: "echo 'should not run'" },
+      ];
+
+      const result = await executeHooks(
+        hooks,
+        bashInput("git push -f"),
+        tempDir,
+      );
+
+      expect(result.blocked).toBe(true);
+      expect(result.permissionDecision).toBe("deny");
+      expect(result.results).toHaveLength(1);
+      expect(result.feedback[0]).toContain("no force pushes");
+    });
+
+    test("strongest permissionDecision wins", async () => {
+      const hooks: HookCommand[] = [
+        { type: "command", command: `echo '{"permissionDecision": "ask"}'` },
+        { type: "command", command: `echo '{"permissionDecision": "allow"}'` },
+      ];
+
+      const result = await executeHooks(hooks, bashInput("ls"), tempDir);
+
+      expect(result.blocked).toBe(false);
+      expect(result.permissionDecision).toBe("ask");
+    });
+
+    test("continue: false stops execution with a reason", async () => {
+      const hooks: HookCommand[] = [
+        {
+          type: "command",
+          command: `echo '{"continue": false, "stopReason": "budget exhausted"}'`,
+        },
+        { type: "command", command: "echo 'should not run'" },
+      ];
+
+      const result = await executeHooks(hooks, bashInput("ls"), tempDir);
+
+      expect(result.stopped).toBe(true);
+      expect(result.stopReason).toBe("budget exhausted");
+      expect(result.results).toHaveLength(1);
+    });
+
+    test("additionalContext is collected instead of raw stdout", async () => {
+      const input: UserPromptSubmitHookInput = {
+        event_type: "UserPromptSubmit",
+        working_directory: tempDir,
+        prompt: "hi",
+        is_command: false,
+      };
+      const hooks: HookCommand[] = [
+        {
+          type: "command",
+          command: `echo '{"additionalContext": "Today is a release freeze.", "suppressOutput": true}'`,
+        },
+        { type: "command", command: "echo 'plain context'" },
+      ];
+
+      const result = await executeHooks(hooks, input, tempDir);
+
+      expect(result.additionalContext).toEqual(["Today is a release freeze."]);
+      expect(result.feedback).toEqual(["plain context"]);
+      expect(result.results[0]?.output?.suppressOutput).toBe(true);
+    });
+
+    test("invalid JSON decisions are reported as hook errors", async () => {
+      const hook: HookCommand = {
+        type: "command",
+        command: `echo '{"continue": "no"}'`,
+      };
+
+      const result = await executeHookCommand(hook, bashInput("ls"), tempDir);
+
+      expect(result.exitCode).toBe(HookExitCode.ERROR);
+      expect(result.error).toContain("continue");
+    });
+  });
+
   describe("executeHooksParallel", () => {
     test("executes multiple hooks in parallel", async () => {
       const hooks: HookCommand[] = [
@@ -0,0 +1,221 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { once } from "node:events";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import { executeHooks } from "../../hooks/executor";
+import { executeHttpHook } from "../../hooks/http-executor";
+import {
+  HookExitCode,
+  type HttpHookConfig,
+  type PreToolUseHookInput,
+} from "../../hooks/types";
+import { clearSecretsCache } from "../../utils/secretsStore";
+
+interface ReceivedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/** Responses the stub server plays back, one per request (last one repeats) */
+let responses: Array<{ status: number; body?: string; delayMs?: number }> = [];
+let received: ReceivedRequest[] = [];
+let server: Server;
+let baseUrl: string;
+
+const input: PreToolUseHookInput = {
+  event_type: "PreToolUse",
+  working_directory: "/tmp",
+  tool_name: "Bash",
+  tool_input: { command: "rm -rf build" },
+};
+
+function httpHook(overrides: Partial<HttpHookConfig> = {}): HttpHookConfig {
+  return { type: "http", url: `${baseUrl}/hook`, ...overrides };
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      received.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body,
+      });
+      const response =
+        responses[Math.min(received.length - 1, responses.length - 1)];
+      setTimeout(() => {
+        res.writeHead(response?.status ?? 200, {
+          "Content-Type": "application/json",
+        });
+        res.end(response?.body ?? "");
+      }, response?.delayMs ?? 0);
+    });
+  });
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const address = server.address();
+  if (!address || typeof address === "string") {
+    throw new Error("expected tcp server address");
+  }
+  baseUrl = `http://127.0.0.1:${address.port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+afterEach(() => {
+  responses = [];
+  received = [];
+  clearSecretsCache();
+});
+
+describe("HTTP Hook Executor", () => {
+  test("posts the hook input as JSON and allows on 2xx", async () => {
+    responses = [{ status: 200 }];
+
+    const result = await executeHttpHook(httpHook(), input);
+
+    expect(result.exitCode).toBe(HookExitCode.ALLOW);
+    expect(received).toHaveLength(1);
+    expect(received[0]?.method).toBe("POST");
+    expect(received[0]?.headers["content-type"]).toBe("application/json");
+    expect(received[0]?.headers["x-letta-hook-event"]).toBe("PreToolUse");
+    expect(JSON.parse(received[0]?.body ?? "{}")).toEqual(input);
+  });
+
+  test("substitutes $SECRET references in headers", async () => {
+    (globalThis as Record<symbol, unknown>)[Symbol.for("@letta/secretsCache")] =
+      { COMPLIANCE_TOKEN: "tok-123" };
+    responses = [{ status: 200 }];
+
+    await executeHttpHook(
+      httpHook({
+        method: "PUT",
+        headers: {
+          Authorization: "Bearer $COMPLIANCE_TOKEN",
+          "X-Unknown": "$NOT_A_SECRET",
+        },
+      }),
+      input,
+    );
+
+    expect(received[0]?.method).toBe("PUT");
+    expect(received[0]?.headers.authorization).toBe("Bearer tok-123");
+    expect(received[0]?.headers["x-unknown"]).toBe("$NOT_A_SECRET");
+  });
+
+  test("response body carries a structured decision", async () => {
+    responses = [
+      {
+        status: 200,
+        body: JSON.stringify({
+          permissionDecision: "deny",
+          permissionDecisionReason: "Not approved by compliance",
+        }),
+      },
+    ];
+
+    const result = await executeHooks([httpHook()], input);
+
+    expect(result.blocked).toBe(true);
+    expect(result.permissionDecision).toBe("deny");
+    expect(result.feedback.join("\n")).toContain("Not approved by compliance");
+  });
+
+  test("retries 5xx responses before succeeding", async () => {
+    responses = [{ status: 503 }, { status: 502 }, { status: 200 }];
+
+    const result = await executeHttpHook(
+      httpHook({ retries: 2, retryDelayMs: 1 }),
+      input,
+    );
+
+    expect(result.exitCode).toBe(HookExitCode.ALLOW);
+    expect(received).toHaveLength(3);
+  });
+
+  test("does not retry 4xx responses", async () => {
+    responses = [{ status: 400, body: "bad request" }];
+
+    const result = await executeHttpHook(
+      httpHook({ retries: 3, retryDelayMs: 1 }),
+      input,
+    );
+
+    expect(received).toHaveLength(1);
+    expect(result.exitCode).toBe(HookExitCode.ERROR);
+    expect(result.error).toBe("HTTP 400: bad request");
+  });
+
+  test("fails open by default", async () => {
+    responses = [{ status: 500 }];
+
+    const result = await executeHooks([httpHook()], input);
+
+    expect(result.blocked).toBe(false);
+    expect(result.errored).toBe(true);
+  });
+
+  test("fail-closed blocks when the endpoint fails", async () => {
+    responses = [{ status: 500 }];
+
+    const result = await executeHooks(
+      [httpHook({ failurePolicy: "closed" })],
+      input,
+    );
+
+    expect(result.blocked).toBe(true);
+    expect(result.feedback.join("\n")).toContain("fail-closed");
+  });
+
+  test("times out slow endpoints", async () => {
+    responses = [{ status: 200, delayMs: 500 }];
+
+    const result = await executeHttpHook(
+      httpHook({ timeout: 50, failurePolicy: "closed" }),
+      input,
+    );
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBe(HookExitCode.BLOCK);
+  });
+
+  test("unreachable endpoints follow the failure policy", async () => {
+    const result = await executeHttpHook(
+      { type: "http", url: "http://127.0.0.1:1/hook" },
+      input,
+    );
+
+    expect(result.exitCode).toBe(HookExitCode.ERROR);
+    expect(result.error).toBeTruthy();
+  });
+
+  test("an invalid decision in the body is a failure", async () => {
+    responses = [
+      { status: 200, body: JSON.stringify({ permissionDecision: "maybe" }) },
+    ];
+
+    const result = await executeHttpHook(
+      httpHook({ failurePolicy: "closed" }),
+      input,
+    );
+
+    expect(result.exitCode).toBe(HookExitCode.BLOCK);
+    expect(result.stderr).toContain("permissionDecision");
+  });
+});
@@ -7,11 +7,16 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import {
   hasHooks,
+  runConversationForkHooks,
+  runCronFireHooks,
+  runModelSwitchHooks,
   runNotificationHooks,
   runPermissionRequestHooks,
+  runPostMemoryCommitHooks,
   runPostToolUseFailureHooks,
   runPostToolUseHooks,
   runPreCompactHooks,
+  runPreMemoryWriteHooks,
   runPreToolUseHooks,
   runSessionEndHooks,
   runSessionStartHooks,
@@ -1016,6 +1021,256 @@ describe.skipIf(isWindows)("Hooks Integration Tests", () => {
     });
   });
 
+  // ============================================================================
+  // PreMemoryWrite Hooks
+  // ============================================================================
+
+  describe("PreMemoryWrite hooks", () => {
+    test("matches on memory path and can block the write", async () => {
+      createHooksConfig({
+        PreMemoryWrite: [
+          {
+            matcher: "system/.*",
+            hooks: [
+              {
+                type: "command",
+                command: "echo 'system memory is frozen' >&2 && exit 2",
+              },
+            ],
+          },
+        ],
+      });
+
+      const blocked = await runPreMemoryWriteHooks(
+        "system/persona.md",
+        "str_replace",
+        { newContent: "new", oldContent: "old" },
+        "update persona",
+        "agent-123",
+        tempDir,
+      );
+      expect(blocked.blocked).toBe(true);
+      expect(blocked.feedback[0]).toContain("system memory is frozen");
+
+      const unmatched = await runPreMemoryWriteHooks(
+        "notes/todo.md",
+        "create",
+        { newContent: "new" },
+        undefined,
+        undefined,
+        tempDir,
+      );
+      expect(unmatched.blocked).toBe(false);
+      expect(unmatched.results).toHaveLength(0);
+    });
+
+    test("receives path, operation and contents in input", async () => {
+      createHooksConfig({
+        PreMemoryWrite: [
+          { matcher: "*", hooks: [{ type: "command", command: "cat" }] },
+        ],
+      });
+
+      const result = await runPreMemoryWriteHooks(
+        "system/persona.md",
+        "str_replace",
+        { newContent: "after", oldContent: "before" },
+        "tweak",
+        "agent-123",
+        tempDir,
+      );
+
+      const parsed = JSON.parse(result.results[0]?.stdout || "{}");
+      expect(parsed.event_type).toBe("PreMemoryWrite");
+      expect(parsed.memory_path).toBe("system/persona.md");
+      expect(parsed.operation).toBe("str_replace");
+      expect(parsed.new_content).toBe("after");
+      expect(parsed.old_content).toBe("before");
+      expect(parsed.reason).toBe("tweak");
+    });
+  });
+
+  // ============================================================================
+  // PostMemoryCommit Hooks
+  // ============================================================================
+
+  describe("PostMemoryCommit hooks", () => {
+    test("receives commit info and never blocks", async () => {
+      createHooksConfig({
+        PostMemoryCommit: [
+          {
+            hooks: [
+              { type: "command", command: "cat" },
+              { type: "command", command: "exit 2" },
+            ],
+          },
+        ],
+      });
+
+      const result = await runPostMemoryCommitHooks(
+        "abc1234def",
+        "update persona",
+        ["system/persona.md"],
+        true,
+        "agent-123",
+        tempDir,
+      );
+
+      expect(result.blocked).toBe(false);
+      const parsed = JSON.parse(
+        result.results.find((r) => r.stdout)?.stdout || "{}",
+      );
+      expect(parsed.commit_sha).toBe("abc1234def");
+      expect(parsed.memory_paths).toEqual(["system/persona.md"]);
+      expect(parsed.pushed).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // ModelSwitch Hooks
+  // ============================================================================
+
+  describe("ModelSwitch hooks", () => {
+    test("matches on the new model handle and can block", async () => {
+      createHooksConfig({
+        ModelSwitch: [
+          {
+            matcher: "openai/.*",
+            hooks: [
+              {
+                type: "command",
+                command: "echo 'not on this project' >&2 && exit 2",
+              },
+            ],
+          },
+        ],
+      });
+
+      const blocked = await runModelSwitchHooks(
+        "openai/gpt-5",
+        "anthropic/claude-sonnet-4-5",
+        "agent-123",
+        "conv-456",
+        tempDir,
+      );
+      expect(blocked.blocked).toBe(true);
+      expect(blocked.feedback[0]).toContain("not on this project");
+
+      const allowed = await runModelSwitchHooks(
+        "anthropic/claude-opus-4-1",
+        undefined,
+        undefined,
+        undefined,
+        tempDir,
+      );
+      expect(allowed.blocked).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // ConversationFork Hooks
+  // ============================================================================
+
+  describe("ConversationFork hooks", () => {
+    test("receives the source conversation and can block", async () => {
+      createHooksConfig({
+        ConversationFork: [
+          {
+            hooks: [
+              {
+                type: "command",
+                command:
+                  "input=$(cat); echo \"$input\" | grep -q conv-456 && echo 'no forks' >&2 && exit 2",
+              },
+            ],
+          },
+        ],
+      });
+
+      const result = await runConversationForkHooks(
+        "conv-456",
+        "agent-123",
+        tempDir,
+      );
+      expect(result.blocked).toBe(true);
+      expect(result.feedback[0]).toContain("no forks");
+    });
+  });
+
+  // ============================================================================
+  // CronFire Hooks
+  // ============================================================================
+
+  describe("CronFire hooks", () => {
+    const task = {
+      id: "cron-1",
+      name: "nightly-report",
+      agent_id: "agent-123",
+      conversation_id: "default",
+    };
+
+    test("matches on the task name and receives the occurrence", async () => {
+      createHooksConfig({
+        CronFire: [
+          {
+            matcher: "nightly-.*",
+            hooks: [{ type: "command", command: "cat" }],
+          },
+        ],
+      });
+
+      const result = await runCronFireHooks(
+        task,
+        "write the report",
+        new Date("2026-03-26T02:00:00Z"),
+        true,
+        tempDir,
+      );
+
+      const parsed = JSON.parse(result.results[0]?.stdout || "{}");
+      expect(parsed.event_type).toBe("CronFire");
+      expect(parsed.task_id).toBe("cron-1");
+      expect(parsed.task_name).toBe("nightly-report");
+      expect(parsed.scheduled_for).toBe("2026-03-26T02:00:00.000Z");
+      expect(parsed.catch_up).toBe(true);
+
+      const unmatched = await runCronFireHooks(
+        { ...task, name: "hourly-sync" },
+        "sync",
+        new Date(),
+        false,
+        tempDir,
+      );
+      expect(unmatched.results).toHaveLength(0);
+    });
+
+    test("can block the occurrence (exit 2)", async () => {
+      createHooksConfig({
+        CronFire: [
+          {
+            matcher: "*",
+            hooks: [
+              {
+                type: "command",
+                command: "echo 'maintenance window' >&2 && exit 2",
+              },
+            ],
+          },
+        ],
+      });
+
+      const result = await runCronFireHooks(
+        task,
+        "write the report",
+        new Date(),
+        false,
+        tempDir,
+      );
+      expect(result.blocked).toBe(true);
+      expect(result.feedback[0]).toContain("maintenance window");
+    });
+  });
+
   // ============================================================================
   // hasHooks Tests
   // ============================================================================
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { formatLspStatus, handleLspCommand } from "../cli/commands/lsp";
+import { isLspEnabled, resolveLspServers } from "../lsp/config";
+import { settingsManager } from "../settings-manager";
+import { setServiceName } from "../utils/secrets.js";
+
+const originalHome = process.env.HOME;
+const originalEnableLsp = process.env.LETTA_ENABLE_LSP;
+let testHomeDir: string;
+let testProjectDir: string;
+
+beforeEach(async () => {
+  setServiceName("letta-code-test");
+  await settingsManager.reset();
+  testHomeDir = await mkdtemp(join(tmpdir(), "letta-lsp-home-"));
+  testProjectDir = await mkdtemp(join(tmpdir(), "letta-lsp-project-"));
+  process.env.HOME = testHomeDir;
+  delete process.env.LETTA_ENABLE_LSP;
+  await settingsManager.initialize();
+  await settingsManager.loadProjectSettings(testProjectDir);
+  await settingsManager.loadLocalProjectSettings(testProjectDir);
+});
+
+afterEach(async () => {
+  await settingsManager.reset();
+  process.env.HOME = originalHome;
+  if (originalEnableLsp === undefined) {
+    delete process.env.LETTA_ENABLE_LSP;
+  } else {
+    process.env.LETTA_ENABLE_LSP = originalEnableLsp;
+  }
+  await rm(testHomeDir, { recursive: true, force: true }).catch(() => {});
+  await rm(testProjectDir, { recursive: true, force: true }).catch(() => {});
+});
+
+describe("isLspEnabled", () => {
+  test("is off by default", () => {
+    expect(isLspEnabled(testProjectDir)).toBe(false);
+  });
+
+  test("project settings override user settings, local overrides both", () => {
+    settingsManager.updateSettings({ lsp: { enabled: true } });
+    expect(isLspEnabled(testProjectDir)).toBe(true);
+
+    settingsManager.updateProjectSettings(
+      { lsp: { enabled: false } },
+      testProjectDir,
+    );
+    expect(isLspEnabled(testProjectDir)).toBe(false);
+
+    settingsManager.updateLocalProjectSettings(
+      { lsp: { enabled: true } },
+      testProjectDir,
+    );
+    expect(isLspEnabled(testProjectDir)).toBe(true);
+  });
+
+  test("LETTA_ENABLE_LSP overrides settings in both directions", () => {
+    settingsManager.updateSettings({ lsp: { enabled: false } });
+    process.env.LETTA_ENABLE_LSP = "true";
+    expect(isLspEnabled(testProjectDir)).toBe(true);
+
+    settingsManager.updateSettings({ lsp: { enabled: true } });
+    process.env.LETTA_ENABLE_LSP = "0";
+    expect(isLspEnabled(testProjectDir)).toBe(false);
+  });
+});
+
+describe("resolveLspServers", () => {
+  test("includes the built-in TypeScript, Python, Go and Rust servers", () => {
+    const { servers, sources, warnings } = resolveLspServers(testProjectDir);
+    expect(servers.map((s) => s.id)).toEqual([
+      "typescript",
+      "python",
+      "go",
+      "rust",
+    ]);
+    expect(sources.go).toBe("built-in");
+    expect(servers.find((s) => s.id === "go")?.rootMarkers).toContain("go.mod");
+    expect(warnings).toEqual([]);
+  });
+
+  test("adds generic stdio servers declared in project settings", () => {
+    settingsManager.updateProjectSettings(
+      {
+        lsp: {
+          servers: [
+            {
+              id: "zig",
+              command: ["zls"],
+              extensions: ["zig", ".ZON"],
+              env: { ZLS_LOG: "1" },
+              initialization: { enable_snippets: false },
+              rootMarkers: ["build.zig"],
+            },
+          ],
+        },
+      },
+      testProjectDir,
+    );
+
+    const { servers, sources } = resolveLspServers(testProjectDir);
+    const zig = servers.find((s) => s.id === "zig");
+    expect(zig).toEqual({
+      id: "zig",
+      command: ["zls"],
+      extensions: [".zig", ".zon"],
+      env: { ZLS_LOG: "1" },
+      initialization: { enable_snippets: false },
+      rootMarkers: ["build.zig"],
+    });
+    expect(sources.zig).toBe("project");
+  });
+
+  test("entries override built-ins by id and can disable them", () => {
+    settingsManager.updateSettings({
+      lsp: {
+        servers: [
+          { id: "python", disabled: true },
+          { id: "go", command: ["/opt/go/bin/gopls"] },
+        ],
+      },
+    });
+
+    const { servers, sources } = resolveLspServers(testProjectDir);
+    expect(servers.some((s) => s.id === "python")).toBe(false);
+    const go = servers.find((s) => s.id === "go");
+    expect(go?.command).toEqual(["/opt/go/bin/gopls"]);
+    expect(go?.extensions).toEqual([".go"]);
+    // A custom command is not auto-installed
+    expect(go?.autoInstall).toBeUndefined();
+    expect(sources.go).toBe("user");
+  });
+
+  test("skips invalid entries with a warning", () => {
+    settingsManager.updateProjectSettings(
+      {
+        lsp: {
+          servers: [
+            { id: "nim", extensions: [".nim"] },
+            { id: "odin", command: "ols" as unknown as string[] },
+          ],
+        },
+      },
+      testProjectDir,
+    );
+
+    const { servers, warnings } = resolveLspServers(testProjectDir);
+    expect(servers.some((s) => s.id === "nim" || s.id === "odin")).toBe(false);
+    expect(warnings).toEqual([
+      'project settings: lsp server "nim" skipped: new servers need both command and extensions',
+      'project settings: lsp server "odin" skipped: command must be a non-empty array of strings',
+    ]);
+  });
+});
+
+describe("/lsp command", () => {
+  test("explains how to enable LSP when it is off", () => {
+    const output = formatLspStatus({
+      enabled: false,
+      projectRoot: null,
+      servers: [],
+      warnings: [],
+    });
+    expect(output).toContain("LSP is disabled");
+    expect(output).toContain('"enabled": true');
+  });
+
+  test("status lists configured servers and running instances", () => {
+    const output = formatLspStatus({
+      enabled: true,
+      projectRoot: "/repo",
+      servers: [
+        {
+          id: "go",
+          source: "built-in",
+          command: ["gopls", "serve"],
+          extensions: [".go"],
+          running: [{ root: "/repo/svc", pid: 42, startedAt: 0 }],
+        },
+        {
+          id: "zig",
+          source: "project",
+          command: ["zls"],
+          extensions: [".zig"],
+          running: [],
+        },
+      ],
+      warnings: ["user settings: lsp.servers must be an array"],
+    });
+    expect(output).toBe(
+      [
+        "LSP: enabled (project: /repo)",
+        "",
+        "Servers:",
+        "  go (built-in)  .go  $ gopls serve",
+        "    running (pid 42) in /repo/svc",
+        "  zig (project)  .zig  $ zls",
+        "    not running",
+        "",
+        "Settings warnings:",
+        "  user settings: lsp.servers must be an array",
+      ].join("\n"),
+    );
+  });
+
+  test("rejects unknown subcommands", async () => {
+    const result = await handleLspCommand(["stop"]);
+    expect(result.output).toContain("Unknown subcommand 'stop'");
+  });
+});
@@ -0,0 +1,219 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resolvePostEditDiagnosticsConfig } from "../lsp/config";
+import {
+  captureEditDiagnosticsBaseline,
+  diffDiagnostics,
+  reportIntroducedDiagnostics,
+} from "../lsp/editDiagnostics";
+import { lspManager } from "../lsp/manager";
+import { type Diagnostic, DiagnosticSeverity } from "../lsp/types";
+import { settingsManager } from "../settings-manager";
+import { setServiceName } from "../utils/secrets.js";
+
+// Minimal stdio language server: publishes an error for every line that
+// contains "ERROR" and a warning for every line that contains "WARN"
+const FAKE_SERVER = `
+let buffer = "";
+const send = (message) => {
+  const body = JSON.stringify(message);
+  process.stdout.write("Content-Length: " + body.length + "\\r\\n\\r\\n" + body);
+};
+const diagnose = (uri, text) => {
+  const diagnostics = [];
+  text.split("\\n").forEach((line, i) => {
+    const severity = line.includes("ERROR") ? 1 : line.includes("WARN") ? 2 : 0;
+    if (severity) {
+      diagnostics.push({
+        range: { start: { line: i, character: 0 }, end: { line: i, character: line.length } },
+        severity,
+        source: "fake",
+        message: line.trim(),
+      });
+    }
+  });
+  send({ jsonrpc: "2.0", method: "textDocument/publishDiagnostics", params: { uri, diagnostics } });
+};
+const handle = (message) => {
+  if (message.method === "initialize") send({ jsonrpc: "2.0", id: message.id, result: { capabilities: {} } });
+  else if (message.method === "shutdown") send({ jsonrpc: "2.0", id: message.id, result: null });
+  else if (message.method === "exit") process.exit(0);
+  else if (message.method === "textDocument/didOpen") diagnose(message.params.textDocument.uri, message.params.textDocument.text);
+  else if (message.method === "textDocument/didChange") diagnose(message.params.textDocument.uri, message.params.contentChanges[0].text);
+};
+process.stdin.on("data", (chunk) => {
+  buffer += chunk.toString();
+  for (;;) {
+    const headerEnd = buffer.indexOf("\\r\\n\\r\\n");
+    if (headerEnd === -1) return;
+    const length = Number(/Content-Length: (\\d+)/.exec(buffer.slice(0, headerEnd))[1]);
+    if (buffer.length < headerEnd + 4 + length) return;
+    const body = buffer.slice(headerEnd + 4, headerEnd + 4 + length);
+    buffer = buffer.slice(headerEnd + 4 + length);
+    handle(JSON.parse(body));
+  }
+});
+`;
+
+const originalHome = process.env.HOME;
+const originalEnableLsp = process.env.LETTA_ENABLE_LSP;
+let testHomeDir: string;
+let projectDir: string;
+
+const diagnostic = (
+  message: string,
+  line: number,
+  severity = DiagnosticSeverity.Error,
+): Diagnostic => ({
+  range: {
+    start: { line, character: 0 },
+    end: { line, character: 1 },
+  },
+  severity,
+  message,
+});
+
+beforeAll(async () => {
+  setServiceName("letta-code-test");
+  await settingsManager.reset();
+  testHomeDir = await mkdtemp(join(tmpdir(), "letta-lsp-edit-home-"));
+  projectDir = await mkdtemp(join(tmpdir(), "letta-lsp-edit-project-"));
+  process.env.HOME = testHomeDir;
+  process.env.LETTA_ENABLE_LSP = "true";
+
+  const serverScript = join(projectDir, "fake-server.js");
+  await writeFile(serverScript, FAKE_SERVER);
+
+  await settingsManager.initialize();
+  settingsManager.updateSettings({
+    lsp: {
+      servers: [
+        {
+          id: "fake",
+          command: [process.execPath, serverScript],
+          extensions: [".fake"],
+        },
+      ],
+      postEditDiagnostics: { timeoutMs: 2000 },
+    },
+  });
+  await lspManager.initialize(projectDir);
+});
+
+afterAll(async () => {
+  await lspManager.shutdown();
+  await settingsManager.reset();
+  process.env.HOME = originalHome;
+  if (originalEnableLsp === undefined) {
+    delete process.env.LETTA_ENABLE_LSP;
+  } else {
+    process.env.LETTA_ENABLE_LSP = originalEnableLsp;
+  }
+  await rm(testHomeDir, { recursive: true, force: true }).catch(() => {});
+  await rm(projectDir, { recursive: true, force: true }).catch(() => {});
+});
+
+describe("diffDiagnostics", () => {
+  test("ignores diagnostics that only moved", () => {
+    const before = [diagnostic("unused variable x", 3)];
+    const after = [
+      diagnostic("unused variable x", 5),
+      diagnostic("Type 'string' is not assignable to type 'number'", 1),
+    ];
+    expect(diffDiagnostics(before, after).map((d) => d.message)).toEqual([
+      "Type 'string' is not assignable to type 'number'",
+    ]);
+  });
+
+  test("matches identical diagnostics by count", () => {
+    const before = [diagnostic("missing return", 1)];
+    const after = [
+      diagnostic("missing return", 1),
+      diagnostic("missing return", 8),
+    ];
+    expect(diffDiagnostics(before, after)).toHaveLength(1);
+  });
+});
+
+describe("resolvePostEditDiagnosticsConfig", () => {
+  test("reports errors by default and maps configured severities", () => {
+    expect(resolvePostEditDiagnosticsConfig(projectDir).severities).toEqual([
+      DiagnosticSeverity.Error,
+    ]);
+
+    settingsManager.updateLocalProjectSettings(
+      {
+        lsp: {
+          postEditDiagnostics: {
+            severities: ["error", "warning", "bogus" as "hint"],
+          },
+        },
+      },
+      projectDir,
+    );
+    expect(resolvePostEditDiagnosticsConfig(projectDir)).toEqual({
+      severities: [DiagnosticSeverity.Error, DiagnosticSeverity.Warning],
+      timeoutMs: 2000,
+    });
+    settingsManager.updateLocalProjectSettings({ lsp: undefined }, projectDir);
+  });
+});
+
+describe("post-edit diagnostics with a language server", () => {
+  test("reports only errors the edit introduced", async () => {
+    const filePath = join(projectDir, "example.fake");
+    await writeFile(filePath, "ok\nERROR existing\n");
+
+    const baseline = await captureEditDiagnosticsBaseline(
+      "Write",
+      { file_path: filePath },
+      projectDir,
+    );
+    expect(baseline?.before.get(filePath)?.map((d) => d.message)).toEqual([
+      "ERROR existing",
+    ]);
+
+    await writeFile(filePath, "ERROR new\nok\nERROR existing\nWARN style\n");
+    const report = baseline
+      ? await reportIntroducedDiagnostics(baseline)
+      : null;
+
+    expect(report).toBe(
+      [
+        "This edit introduced new errors, please fix",
+        '<file_diagnostics file="example.fake">',
+        "ERROR [1:1] ERROR new",
+        "</file_diagnostics>",
+      ].join("\n"),
+    );
+  });
+
+  test("returns nothing when the edit introduces no errors", async () => {
+    const filePath = join(projectDir, "clean.fake");
+    await writeFile(filePath, "ok\n");
+
+    const baseline = await captureEditDiagnosticsBaseline(
+      "Edit",
+      { file_path: filePath },
+      projectDir,
+    );
+    await writeFile(filePath, "still ok\nWARN only a warning\n");
+
+    expect(baseline).not.toBeNull();
+    expect(
+      baseline ? await reportIntroducedDiagnostics(baseline) : "no baseline",
+    ).toBeNull();
+  });
+
+  test("skips files no server handles", async () => {
+    expect(
+      await captureEditDiagnosticsBaseline(
+        "Write",
+        { file_path: join(projectDir, "notes.txt") },
+        projectDir,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  formatDocumentSymbols,
+  formatHover,
+  formatLocations,
+  formatRenamePreview,
+  formatWorkspaceSymbols,
+} from "../lsp/format";
+import { SymbolKind } from "../lsp/types";
+import { lsp } from "../tools/impl/LSP";
+
+let tempDir: string;
+let sourceFile: string;
+let sourceUri: string;
+
+beforeAll(() => {
+  tempDir = mkdtempSync(path.join(tmpdir(), "letta-lsp-nav-"));
+  sourceFile = path.join(tempDir, "src", "greet.ts");
+  mkdirSync(path.dirname(sourceFile), { recursive: true });
+  writeFileSync(
+    sourceFile,
+    [
+      "export function greet(name: string) {",
+      "  return 'hi ' + name;",
+      "}",
+      "greet('a');",
+    ].join("\n"),
+  );
+  sourceUri = pathToFileURL(sourceFile).toString();
+});
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+const range = (line: number, character: number, length = 5) => ({
+  start: { line, character },
+  end: { line, character: character + length },
+});
+
+describe("formatLocations", () => {
+  test("lists 1-based relative locations with source snippets", () => {
+    const output = formatLocations(
+      [
+        { uri: sourceUri, range: range(0, 16) },
+        { uri: sourceUri, range: range(3, 0) },
+      ],
+      tempDir,
+      "none",
+    );
+    expect(output).toBe(
+      [
+        "2 locations",
+        `${path.join("src", "greet.ts")}:1:17: export function greet(name: string) {`,
+        `${path.join("src", "greet.ts")}:4:1: greet('a');`,
+      ].join("\n"),
+    );
+  });
+
+  test("keeps absolute paths outside the working directory", () => {
+    const output = formatLocations(
+      [{ uri: sourceUri, range: range(3, 0) }],
+      path.join(tempDir, "elsewhere"),
+      "none",
+    );
+    expect(output).toContain(`${sourceFile}:4:1`);
+    expect(output.startsWith("1 location\n")).toBe(true);
+  });
+
+  test("returns the empty message when nothing was found", () => {
+    expect(formatLocations([], tempDir, "No definition found")).toBe(
+      "No definition found",
+    );
+  });
+});
+
+describe("formatHover", () => {
+  test("renders markup content and marked strings", () => {
+    expect(
+      formatHover({
+        contents: { kind: "markdown", value: "**greet** docs" },
+      }),
+    ).toBe("**greet** docs");
+    expect(
+      formatHover({
+        contents: [{ language: "ts", value: "function greet(): string" }],
+      }),
+    ).toBe("```ts\nfunction greet(): string\n```");
+    expect(formatHover(null)).toBe("No hover information at this position");
+  });
+});
+
+describe("symbol formatting", () => {
+  test("document symbols are an indented outline", () => {
+    const output = formatDocumentSymbols([
+      {
+        name: "Greeter",
+        kind: SymbolKind.Class,
+        range: range(0, 0, 20),
+        selectionRange: range(0, 6),
+        children: [
+          {
+            name: "greet",
+            kind: SymbolKind.Method,
+            detail: "(name: string)",
+            range: range(1, 2, 10),
+            selectionRange: range(1, 2),
+          },
+        ],
+      },
+    ]);
+    expect(output).toBe(
+      "Class Greeter (line 1)\n  Method greet (name: string) (line 2)",
+    );
+  });
+
+  test("workspace symbols include kind, container and location", () => {
+    const output = formatWorkspaceSymbols(
+      [
+        {
+          name: "greet",
+          kind: SymbolKind.Function,
+          containerName: "greet.ts",
+          location: { uri: sourceUri, range: range(0, 16) },
+        },
+      ],
+      tempDir,
+    );
+    expect(output).toBe(
+      `1 symbol\nFunction greet (in greet.ts) — ${path.join("src", "greet.ts")}:1:17`,
+    );
+  });
+});
+
+describe("formatRenamePreview", () => {
+  test("groups edits by file and never claims to apply them", () => {
+    const output = formatRenamePreview(
+      {
+        documentChanges: [
+          {
+            textDocument: { uri: sourceUri, version: 1 },
+            edits: [
+              { range: range(3, 0), newText: "welcome" },
+              { range: range(0, 16), newText: "welcome" },
+            ],
+          },
+        ],
+      },
+      "welcome",
+      tempDir,
+    );
+    expect(output).toBe(
+      [
+        'Renaming to "welcome" would make 2 edits in 1 file (preview only, no files were changed):',
+        "",
+        path.join("src", "greet.ts"),
+        "  1:17: export function greet(name: string) {",
+        "  4:1: greet('a');",
+      ].join("\n"),
+    );
+  });
+
+  test("reports when the server returns no edits", () => {
+    expect(formatRenamePreview(null, "x", tempDir)).toBe(
+      "Rename is not possible at this position",
+    );
+  });
+});
+
+describe("LSP tool", () => {
+  test("rejects positions that are not 1-based", async () => {
+    await expect(
+      lsp({
+        operation: "definition",
+        file_path: sourceFile,
+        line: 0,
+        character: 1,
+      }),
+    ).rejects.toThrow("1-based");
+  });
+
+  test("requires the parameters of each operation", async () => {
+    await expect(
+      lsp({
+        operation: "renamePreview",
+        file_path: sourceFile,
+        line: 1,
+        character: 1,
+      }),
+    ).rejects.toThrow("new_name");
+    await expect(lsp({ operation: "workspaceSymbols" })).rejects.toThrow(
+      "query",
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { formatLocalMcpStatus } from "../cli/commands/mcp";
+import { resolveLocalMcpServers } from "../mcp/config";
+import { getLocalMcpToolName, localMcpManager } from "../mcp/manager";
+import { settingsManager } from "../settings-manager";
+import {
+  clearCapturedToolExecutionContexts,
+  clearExternalTools,
+  executeTool,
+  getExternalToolDefinition,
+} from "../tools/manager";
+import { setServiceName } from "../utils/secrets.js";
+
+// Minimal stdio MCP server with one "echo" tool
+const FAKE_SERVER = `
+const readline = require("node:readline");
+const rl = readline.createInterface({ input: process.stdin });
+const send = (message) => process.stdout.write(JSON.stringify(message) + "\\n");
+console.log("starting up (not JSON)");
+rl.on("line", (line) => {
+  const message = JSON.parse(line);
+  if (message.method === "initialize") {
+    send({ jsonrpc: "2.0", id: message.id, result: { protocolVersion: message.params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: "fake", version: "1" } } });
+  } else if (message.method === "tools/list") {
+    send({ jsonrpc: "2.0", id: message.id, result: { tools: [{ name: "echo", description: "Echo text", inputSchema: { type: "object", properties: { text: { type: "string" } } } }] } });
+  } else if (message.method === "tools/call") {
+    const text = message.params.arguments.text;
+    send({ jsonrpc: "2.0", id: message.id, result: { content: [{ type: "text", text: "echo: " + text + " from " + process.env.FAKE_NAME }], isError: text === "fail" } });
+  }
+});
+rl.on("close", () => process.exit(0));
+`;
+
+const originalHome = process.env.HOME;
+let testHomeDir: string;
+let testProjectDir: string;
+
+beforeEach(async () => {
+  setServiceName("letta-code-test");
+  await settingsManager.reset();
+  testHomeDir = await mkdtemp(join(tmpdir(), "letta-mcp-home-"));
+  testProjectDir = await mkdtemp(join(tmpdir(), "letta-mcp-project-"));
+  process.env.HOME = testHomeDir;
+  await settingsManager.initialize();
+  await settingsManager.loadProjectSettings(testProjectDir);
+  await settingsManager.loadLocalProjectSettings(testProjectDir);
+  await writeFile(join(testProjectDir, "server.cjs"), FAKE_SERVER);
+});
+
+afterEach(async () => {
+  await localMcpManager.shutdown();
+  clearCapturedToolExecutionContexts();
+  clearExternalTools();
+  await settingsManager.reset();
+  process.env.HOME = originalHome;
+  await rm(testHomeDir, { recursive: true, force: true }).catch(() => {});
+  await rm(testProjectDir, { recursive: true, force: true }).catch(() => {});
+});
+
+describe("resolveLocalMcpServers", () => {
+  test("local settings replace or disable project servers", () => {
+    settingsManager.updateProjectSettings(
+      {
+        mcpServers: {
+          fake: { command: "node", args: ["server.cjs"] },
+          other: { command: "other-server" },
+          "bad name": { command: "x" },
+        },
+      },
+      testProjectDir,
+    );
+    settingsManager.updateLocalProjectSettings(
+      {
+        mcpServers: {
+          fake: { command: "bun", args: ["server.cjs"], cwd: "sub" },
+          other: { command: "other-server", disabled: true },
+        },
+      },
+      testProjectDir,
+    );
+
+    const { servers, warnings } = resolveLocalMcpServers(testProjectDir);
+
+    expect(servers).toEqual([
+      {
+        name: "fake",
+        command: "bun",
+        args: ["server.cjs"],
+        env: {},
+        cwd: join(testProjectDir, "sub"),
+        timeoutMs: 60_000,
+        source: "local",
+      },
+    ]);
+    expect(warnings).toEqual([
+      `project settings: MCP server "bad name" skipped: names may only contain letters, digits, '_' and '-'`,
+    ]);
+  });
+});
+
+describe("localMcpManager", () => {
+  test("registers server tools and executes them locally", async () => {
+    settingsManager.updateProjectSettings(
+      {
+        mcpServers: {
+          fake: {
+            command: process.execPath,
+            args: ["server.cjs"],
+            env: { FAKE_NAME: "local" },
+          },
+        },
+      },
+      testProjectDir,
+    );
+
+    await localMcpManager.initialize(testProjectDir);
+
+    const toolName = getLocalMcpToolName("fake", "echo");
+    expect(toolName).toBe("mcp__fake__echo");
+    expect(getExternalToolDefinition(toolName)?.description).toBe("Echo text");
+
+    const ok = await executeTool(toolName, { text: "hi" });
+    expect(ok).toMatchObject({
+      status: "success",
+      toolReturn: "echo: hi from local",
+    });
+    const failed = await executeTool(toolName, { text: "fail" });
+    expect(failed.status).toBe("error");
+
+    const status = localMcpManager.getStatus();
+    expect(status.servers[0]).toMatchObject({
+      name: "fake",
+      state: "connected",
+      tools: ["echo"],
+    });
+    expect(formatLocalMcpStatus(status)).toContain("tools: echo");
+
+    await localMcpManager.shutdown();
+    expect(getExternalToolDefinition(toolName)).toBeUndefined();
+  });
+
+  test("reports servers that fail to start", async () => {
+    settingsManager.updateProjectSettings(
+      {
+        mcpServers: {
+          missing: { command: "letta-test-no-such-mcp-server" },
+        },
+      },
+      testProjectDir,
+    );
+
+    await localMcpManager.initialize(testProjectDir);
+
+    const [server] = localMcpManager.getStatus().servers;
+    expect(server?.state).toBe("failed");
+    expect(formatLocalMcpStatus(localMcpManager.getStatus())).toContain(
+      "missing (project)  failed:",
+    );
+  });
+});
@@ -846,3 +846,292 @@ test("dual eval attaches shadow decision when enabled", () => {
     }
   }
 });
+
+// ============================================================================
+// Structured Rule Tests
+// ============================================================================
+
+test("Structured Edit rule honors paths and excludePaths", () => {
+  const permissions: PermissionRules = {
+    allow: [
+      {
+        tool: "Edit",
+        paths: ["src/**/*.ts"],
+        excludePaths: ["**/*.generated.ts"],
+      },
+    ],
+    deny: [],
+    ask: [],
+  };
+
+  const allowed = checkPermission(
+    "Edit",
+    { file_path: "src/app/index.ts" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(allowed.decision).toBe("allow");
+  expect(allowed.matchedRule).toBe(
+    '{"tool":"Edit","paths":["src/**/*.ts"],"excludePaths":["**/*.generated.ts"]}',
+  );
+
+  const excluded = checkPermission(
+    "Edit",
+    { file_path: "src/api/client.generated.ts" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(excluded.decision).toBe("ask");
+
+  const outside = checkPermission(
+    "Edit",
+    { file_path: "scripts/build.ts" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(outside.decision).toBe("ask");
+});
+
+test("Structured Bash rule with maxRisk read-only rejects mutating commands", () => {
+  const permissions: PermissionRules = {
+    allow: [{ tool: "Bash", maxRisk: "read-only" }],
+    deny: [],
+    ask: [],
+  };
+
+  const mutating = checkPermission(
+    "Bash",
+    { command: "rm -rf build" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(mutating.decision).toBe("ask");
+
+  const outsideRepo = checkPermission(
+    "Bash",
+    { command: "cat /etc/passwd" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(outsideRepo.decision).toBe("ask");
+});
+
+test("Structured deny rule with commandPrefix blocks matching commands", () => {
+  const permissions: PermissionRules = {
+    allow: ["Bash(git:*)"],
+    deny: [{ tool: "Bash", commandPrefix: ["git push", "git reset --hard"] }],
+    ask: [],
+  };
+
+  const push = checkPermission(
+    "Bash",
+    { command: "git push origin main" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(push.decision).toBe("deny");
+
+  const commit = checkPermission(
+    "Bash",
+    { command: "git commit -m wip" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(commit.decision).toBe("allow");
+  expect(commit.matchedRule).toBe("Bash(git:*)");
+});
+
+test("Structured rule allowlists domains for MCP tools", () => {
+  const permissions: PermissionRules = {
+    allow: [
+      {
+        tool: "mcp__browser__*",
+        domains: ["docs.example.com", "*.letta.com"],
+      },
+    ],
+    deny: [],
+    ask: [],
+  };
+
+  expect(
+    checkPermission(
+      "mcp__browser__navigate",
+      { url: "https://api.letta.com/v1/agents" },
+      permissions,
+      "/Users/test/project",
+    ).decision,
+  ).toBe("allow");
+  expect(
+    checkPermission(
+      "mcp__browser__navigate",
+      { url: "https://evil.example.com" },
+      permissions,
+      "/Users/test/project",
+    ).decision,
+  ).toBe("ask");
+  expect(
+    checkPermission(
+      "mcp__browser__screenshot",
+      {},
+      permissions,
+      "/Users/test/project",
+    ).decision,
+  ).toBe("ask");
+});
+
+test("Structured deny rules cannot be bypassed by adding allowed URLs", () => {
+  const permissions: PermissionRules = {
+    allow: [{ tool: "mcp__browser__*" }],
+    deny: [{ tool: "mcp__browser__*", domains: ["evil.example.com"] }],
+    ask: [],
+  };
+
+  const result = checkPermission(
+    "mcp__browser__open_tabs",
+    {
+      urls: ["https://docs.letta.com", "https://evil.example.com/exfil"],
+    },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(result.decision).toBe("deny");
+});
+
+test("Structured deny rule with paths applies to shell commands", () => {
+  const permissions: PermissionRules = {
+    allow: ["Bash(cat:*)"],
+    deny: [{ tool: "*", paths: [".env*"] }],
+    ask: [],
+  };
+
+  expect(
+    checkPermission(
+      "Bash",
+      { command: "cat .env.local" },
+      permissions,
+      "/Users/test/project",
+    ).decision,
+  ).toBe("deny");
+  expect(
+    checkPermission(
+      "Bash",
+      { command: "cat README.md" },
+      permissions,
+      "/Users/test/project",
+    ).decision,
+  ).toBe("allow");
+});
+
+test("Structured read-only allow rule does not cover reads outside the workspace", () => {
+  const permissions: PermissionRules = {
+    allow: [{ tool: "Read", maxRisk: "read-only" }],
+    deny: [],
+    ask: [],
+  };
+
+  const result = checkPermission(
+    "Read",
+    { file_path: "/Users/test/.aws/credentials" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(result.reason).not.toBe("Matched allow rule");
+});
+
+test("Structured rules are checked by the v1 engine", () => {
+  const originalV2 = process.env.LETTA_PERMISSIONS_V2;
+  process.env.LETTA_PERMISSIONS_V2 = "0";
+
+  try {
+    const permissions: PermissionRules = {
+      allow: [{ tool: "Write", paths: ["docs/**"] }],
+      deny: [{ tool: "Bash", commandPrefix: "curl" }],
+      ask: [],
+    };
+
+    expect(
+      checkPermission(
+        "Write",
+        { file_path: "docs/guide.md" },
+        permissions,
+        "/Users/test/project",
+      ).decision,
+    ).toBe("allow");
+    expect(
+      checkPermission(
+        "Bash",
+        { command: "curl -s https://example.com" },
+        permissions,
+        "/Users/test/project",
+      ).decision,
+    ).toBe("deny");
+  } finally {
+    if (originalV2 === undefined) {
+      delete process.env.LETTA_PERMISSIONS_V2;
+    } else {
+      process.env.LETTA_PERMISSIONS_V2 = originalV2;
+    }
+  }
+});
+
+// ============================================================================
+// WebFetch Rule Tests
+// ============================================================================
+
+test("WebFetch domain rules allow and deny by host", () => {
+  const permissions: PermissionRules = {
+    allow: ["WebFetch(domain:docs.example.com)"],
+    deny: ["WebFetch(domain:*.internal.corp)"],
+    ask: [],
+  };
+
+  const allowed = checkPermission(
+    "WebFetch",
+    { url: "https://docs.example.com/api" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(allowed.decision).toBe("allow");
+  expect(allowed.matchedRule).toBe("WebFetch(domain:docs.example.com)");
+
+  const denied = checkPermission(
+    "WebFetch",
+    { url: "http://wiki.internal.corp/page" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(denied.decision).toBe("deny");
+
+  const other = checkPermission(
+    "WebFetch",
+    { url: "https://example.org/" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(other.decision).toBe("ask");
+});
+
+test("WebFetch honors the rule recommended on approval", () => {
+  const permissions: PermissionRules = {
+    allow: ["WebFetch(https://example.com/*)"],
+    deny: [],
+    ask: [],
+  };
+
+  expect(
+    checkPermission(
+      "WebFetch",
+      { url: "https://example.com/docs/intro" },
+      permissions,
+      "/Users/test/project",
+    ).decision,
+  ).toBe("allow");
+  expect(
+    checkPermission(
+      "WebFetch",
+      { url: "https://example.net/docs/intro" },
+      permissions,
+      "/Users/test/project",
+    ).decision,
+  ).toBe("ask");
+});
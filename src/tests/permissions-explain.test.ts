@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { handlePermissionsCommand } from "../cli/commands/permissions";
+import {
+  explainPermission,
+  formatPermissionExplanation,
+  parseToolInput,
+} from "../permissions/explain";
+import { sessionPermissions } from "../permissions/session";
+
+let testDir: string;
+
+async function writeSettings(file: string, permissions: unknown) {
+  await mkdir(join(testDir, ".letta"), { recursive: true });
+  await writeFile(
+    join(testDir, ".letta", file),
+    JSON.stringify({ permissions }),
+  );
+}
+
+beforeEach(async () => {
+  testDir = await mkdtemp(join(tmpdir(), "letta-explain-"));
+});
+
+afterEach(async () => {
+  sessionPermissions.clear();
+  await rm(testDir, { recursive: true, force: true });
+});
+
+test("explain attributes the matched rule to its settings file", async () => {
+  await writeSettings("settings.json", { allow: ["Bash(npm run build:*)"] });
+  await writeSettings("settings.local.json", { deny: ["Bash(git push:*)"] });
+
+  const explanation = await explainPermission(
+    "Bash",
+    { command: "git push origin main" },
+    { workingDirectory: testDir, mode: "default" },
+  );
+
+  expect(explanation.result.decision).toBe("deny");
+  expect(explanation.result.matchedRule).toBe("Bash(git push:*)");
+  expect(explanation.matchedRuleSources.map((s) => s.scope)).toEqual(["local"]);
+  expect(explanation.trace.events[0]?.stage).toBe("deny-rule");
+
+  const text = formatPermissionExplanation(explanation);
+  expect(text).toContain("Permission mode: default");
+  expect(text).toContain("deny  Bash(git push:*)");
+  expect(text).toContain("settings.local.json");
+  expect(text).toContain("Decision: deny");
+});
+
+test("explain attributes session rules to the session", async () => {
+  sessionPermissions.addRule("Bash(make:*)", "allow");
+
+  const explanation = await explainPermission(
+    "Bash",
+    { command: "make release" },
+    { workingDirectory: testDir, mode: "default" },
+  );
+
+  expect(explanation.result.decision).toBe("allow");
+  expect(explanation.matchedRuleSources.map((s) => s.scope)).toEqual([
+    "session",
+  ]);
+});
+
+test("explain evaluates under the requested permission mode", async () => {
+  const explanation = await explainPermission(
+    "Write",
+    { file_path: "out.txt", content: "x" },
+    { workingDirectory: testDir, mode: "bypassPermissions" },
+  );
+
+  expect(explanation.mode).toBe("bypassPermissions");
+  expect(explanation.result.decision).toBe("allow");
+  expect(explanation.result.matchedRule).toBe("bypassPermissions mode");
+});
+
+test("explain reports v1/v2 engine disagreement", async () => {
+  await writeSettings("settings.json", { allow: ["Bash(curl:*)"] });
+
+  const explanation = await explainPermission(
+    "run_shell_command",
+    { command: "curl -s http://localhost:4321/health" },
+    { workingDirectory: testDir, mode: "default" },
+  );
+
+  expect(explanation.disagreement).toBe(true);
+  expect(formatPermissionExplanation(explanation)).toContain(
+    "Engine disagreement",
+  );
+});
+
+test("parseToolInput rejects non-object JSON", () => {
+  expect(parseToolInput('{"command":"ls"}')).toEqual({ command: "ls" });
+  expect(parseToolInput(undefined)).toEqual({});
+  expect(parseToolInput("[1]")).toBe("tool input must be a JSON object");
+  expect(parseToolInput("{oops")).toContain("invalid tool input JSON");
+});
+
+test("/permissions explain rejoins whitespace-split JSON input", async () => {
+  const result = await handlePermissionsCommand([
+    "explain",
+    "Bash",
+    '{"command":',
+    '"echo',
+    'hi"}',
+  ]);
+
+  expect(result.output).toContain('Input: {"command":"echo hi"}');
+});
@@ -138,6 +138,41 @@ test("Settings merge deny rules from multiple sources", async () => {
   expect(permissions.deny).toContain("Read(secrets/**)");
 });
 
+test("Local settings override custom permission modes by name", async () => {
+  const projectDir = join(testDir, "project-modes");
+
+  await Bun.write(
+    join(projectDir, ".letta", "settings.json"),
+    JSON.stringify({
+      permissions: {
+        modes: {
+          review: { baseMode: "plan", allow: ["Bash(npm test:*)"] },
+          ci: { baseMode: "bypassPermissions", deny: ["Bash(curl:*)"] },
+        },
+      },
+    }),
+  );
+
+  await Bun.write(
+    join(projectDir, ".letta", "settings.local.json"),
+    JSON.stringify({
+      permissions: {
+        modes: {
+          review: { baseMode: "default", allow: ["Bash(bun test:*)"] },
+        },
+      },
+    }),
+  );
+
+  const permissions = await loadPermissions(projectDir);
+
+  expect(permissions.modes?.review).toEqual({
+    baseMode: "default",
+    allow: ["Bash(bun test:*)"],
+  });
+  expect(permissions.modes?.ci?.deny).toEqual(["Bash(curl:*)"]);
+});
+
 test("Settings merge additionalDirectories", async () => {
   const projectDir = join(testDir, "project-5");
 
@@ -9,6 +9,7 @@ import type { PermissionRules } from "../permissions/types";
 // Clean up after each test
 afterEach(() => {
   permissionMode.reset();
+  permissionMode.setCustomModes({});
   cliPermissions.clear();
 });
 
@@ -1132,3 +1133,152 @@ test("plan mode - allows read_file_gemini", () => {
   expect(result.decision).toBe("allow");
   expect(result.matchedRule).toBe("plan mode");
 });
+
+// ============================================================================
+// Custom Permission Modes
+// ============================================================================
+
+test("custom modes - registry ignores built-in names and joins the cycle", () => {
+  permissionMode.setCustomModes({
+    review: { baseMode: "plan" },
+    plan: { baseMode: "bypassPermissions" },
+  });
+
+  expect(Object.keys(permissionMode.getCustomModes())).toEqual(["review"]);
+  expect(permissionMode.isKnownMode("review")).toBe(true);
+  expect(permissionMode.isKnownMode("plan")).toBe(true);
+  expect(permissionMode.isKnownMode("nope")).toBe(false);
+  expect(permissionMode.getCycleModes()).toEqual([
+    "default",
+    "plan",
+    "acceptEdits",
+    "bypassPermissions",
+    "review",
+  ]);
+});
+
+test("custom mode - allow rules apply on top of the base mode", () => {
+  permissionMode.setCustomModes({
+    review: { baseMode: "plan", allow: ["Bash(npm test:*)"] },
+  });
+  permissionMode.setMode("review");
+
+  const permissions: PermissionRules = { allow: [], deny: [], ask: [] };
+
+  const test = checkPermission(
+    "Bash",
+    { command: "npm test -- --watch=false" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(test.decision).toBe("allow");
+  expect(test.matchedRule).toBe("Bash(npm test:*) (review mode)");
+  expect(test.reason).toBe("Matched allow rule of permission mode: review");
+
+  // Everything else falls through to plan mode
+  const write = checkPermission(
+    "Write",
+    { file_path: "/Users/test/project/src/app.ts" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(write.decision).toBe("deny");
+
+  const read = checkPermission(
+    "Read",
+    { file_path: "/Users/test/project/src/app.ts" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(read.decision).toBe("allow");
+});
+
+test("custom mode - deny rules win over the base mode", () => {
+  permissionMode.setCustomModes({
+    ci: { baseMode: "bypassPermissions", deny: ["Bash(curl:*)"] },
+  });
+  permissionMode.setMode("ci");
+
+  const permissions: PermissionRules = { allow: [], deny: [], ask: [] };
+
+  const curl = checkPermission(
+    "Bash",
+    { command: "curl https://example.com" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(curl.decision).toBe("deny");
+  expect(curl.matchedRule).toBe("Bash(curl:*) (ci mode)");
+
+  const build = checkPermission(
+    "Bash",
+    { command: "npm run build" },
+    permissions,
+    "/Users/test/project",
+  );
+  expect(build.decision).toBe("allow");
+  expect(build.reason).toBe("Permission mode: ci");
+});
+
+test("custom mode - settings deny rules still take precedence", () => {
+  permissionMode.setCustomModes({
+    yolo: { baseMode: "default", allow: ["Bash"] },
+  });
+  permissionMode.setMode("yolo");
+
+  const permissions: PermissionRules = {
+    allow: [],
+    deny: ["Bash(git push:*)"],
+    ask: [],
+  };
+
+  expect(
+    checkPermission(
+      "Bash",
+      { command: "git push origin main" },
+      permissions,
+      "/Users/test/project",
+    ).decision,
+  ).toBe("deny");
+  expect(
+    checkPermission(
+      "Bash",
+      { command: "git status --short" },
+      permissions,
+      "/Users/test/project",
+    ).decision,
+  ).toBe("allow");
+});
+
+test("custom mode - definitions from the permissions object are used", () => {
+  permissionMode.setMode("docs");
+
+  const permissions: PermissionRules = {
+    allow: [],
+    deny: [],
+    ask: [],
+    modes: {
+      docs: {
+        baseMode: "default",
+        allow: [{ tool: "Edit", paths: ["docs/**"] }],
+      },
+    },
+  };
+
+  expect(
+    checkPermission(
+      "Edit",
+      { file_path: "docs/guide.md" },
+      permissions,
+      "/Users/test/project",
+    ).decision,
+  ).toBe("allow");
+  expect(
+    checkPermission(
+      "Edit",
+      { file_path: "src/index.ts" },
+      permissions,
+      "/Users/test/project",
+    ).decision,
+  ).toBe("ask");
+});
@@ -176,8 +176,11 @@ describe("QueueItemDroppedEvent wire shape", () => {
     const reasons: Record<QueueItemDroppedReason, true> = {
       buffer_limit: true,
       stale_generation: true,
+      duplicate: true,
+      removed: true,
+      rate_limited: true,
     } satisfies Record<QueueItemDroppedReason, true>;
-    expect(Object.keys(reasons)).toHaveLength(2);
+    expect(Object.keys(reasons)).toHaveLength(5);
   });
 });
 
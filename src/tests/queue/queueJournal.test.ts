@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  appendFileSync,
+  existsSync,
+  mkdtempSync,
+  rmSync,
+  statSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getQueueJournalPath,
+  listQueueJournalScopes,
+  QueueJournal,
+} from "../../queue/queueJournal";
+import {
+  type MessageQueueItem,
+  type QueueItem,
+  QueueRuntime,
+} from "../../queue/queueRuntime";
+
+const SCOPE = { agent_id: "agent-1", conversation_id: "default" };
+
+function makeMsg(
+  text: string,
+  clientMessageId?: string,
+): Omit<MessageQueueItem, "id" | "enqueuedAt"> {
+  return { kind: "message", source: "user", content: text, clientMessageId };
+}
+
+function texts(items: readonly QueueItem[]): unknown[] {
+  return items.map((item) => (item.kind === "message" ? item.content : null));
+}
+
+let dir: string;
+
+function openQueue(
+  callbacks: ConstructorParameters<typeof QueueRuntime>[0] = {},
+): QueueRuntime {
+  const q = new QueueRuntime({
+    ...callbacks,
+    journal: QueueJournal.forScope(SCOPE, dir),
+  });
+  q.restore();
+  return q;
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "letta-queue-journal-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("queue journal", () => {
+  test("restores pending items and their payloads in a new runtime", () => {
+    const first = openQueue();
+    const a = first.enqueue(makeMsg("a"), { template: "a" });
+    first.enqueue(makeMsg("b"));
+
+    const second = openQueue();
+    expect(texts(second.items)).toEqual(["a", "b"]);
+    expect(second.getPayload(a?.id ?? "")).toEqual({ template: "a" });
+    expect(listQueueJournalScopes(dir)).toEqual([SCOPE]);
+  });
+
+  test("replays dequeued items until acknowledged (at-least-once)", () => {
+    const first = openQueue();
+    first.enqueue(makeMsg("a"));
+    first.enqueue(makeMsg("b"));
+    first.consumeItems(1);
+
+    // Crash before the turn finished: "a" comes back ahead of "b"
+    expect(texts(openQueue().items)).toEqual(["a", "b"]);
+
+    first.acknowledge();
+    expect(texts(openQueue().items)).toEqual(["b"]);
+  });
+
+  test("restore does not duplicate items queued or in flight in this runtime", () => {
+    const q = openQueue();
+    q.enqueue(makeMsg("a"));
+    q.enqueue(makeMsg("b"));
+    q.consumeItems(1);
+    expect(q.restore()).toEqual([]);
+    expect(texts(q.items)).toEqual(["b"]);
+  });
+
+  test("drops duplicate clientMessageIds, including recently processed ones", () => {
+    const dropped: string[] = [];
+    const q = openQueue({
+      callbacks: { onDropped: (_item, reason) => dropped.push(reason) },
+    });
+    expect(q.enqueue(makeMsg("a", "cm-1"))).not.toBeNull();
+    expect(q.enqueue(makeMsg("a again", "cm-1"))).toBeNull();
+
+    q.consumeItems(1);
+    q.acknowledge();
+
+    // A client resending after a restart is still recognized
+    const restarted = openQueue();
+    expect(restarted.enqueue(makeMsg("a resent", "cm-1"))).toBeNull();
+    expect(restarted.enqueue(makeMsg("b", "cm-2"))).not.toBeNull();
+    expect(dropped).toEqual(["duplicate"]);
+  });
+
+  test("persists remove and reorder", () => {
+    const removed: string[] = [];
+    const q = openQueue({
+      callbacks: { onDropped: (_item, reason) => removed.push(reason) },
+    });
+    const a = q.enqueue(makeMsg("a"));
+    const b = q.enqueue(makeMsg("b"));
+    const c = q.enqueue(makeMsg("c"));
+
+    expect(q.reorder([c?.id ?? "", a?.id ?? ""])).toBe(true);
+    expect(texts(q.items)).toEqual(["c", "a", "b"]);
+    expect(q.reorder(["q-unknown"])).toBe(false);
+
+    expect(q.remove([b?.id ?? "", "q-unknown"])).toEqual([b as QueueItem]);
+    expect(removed).toEqual(["removed"]);
+    expect(texts(openQueue().items)).toEqual(["c", "a"]);
+  });
+
+  test("shutdown clear keeps the journal; other clears empty it", () => {
+    const q = openQueue();
+    q.enqueue(makeMsg("a"));
+    q.clear("shutdown");
+    expect(q.length).toBe(0);
+    expect(texts(openQueue().items)).toEqual(["a"]);
+
+    const again = openQueue();
+    again.clear("cancelled");
+    expect(openQueue().length).toBe(0);
+    expect(existsSync(getQueueJournalPath(SCOPE, dir))).toBe(false);
+  });
+
+  test("new ids continue after restored ones", () => {
+    const first = openQueue();
+    first.enqueue(makeMsg("a"));
+    first.enqueue(makeMsg("b"));
+
+    const second = openQueue();
+    const next = second.enqueue(makeMsg("c"));
+    expect(next?.id).toBe("q-3");
+  });
+
+  test("skips corrupt lines", () => {
+    const q = openQueue();
+    q.enqueue(makeMsg("a"));
+    appendFileSync(getQueueJournalPath(SCOPE, dir), '{"op":"enq');
+    expect(texts(openQueue().items)).toEqual(["a"]);
+  });
+
+  test("compacts a journal that never drains once it grows large", () => {
+    const q = openQueue();
+    const padding = "x".repeat(4096);
+    q.enqueue(makeMsg("first"), { padding });
+    for (let i = 0; i < 200; i++) {
+      q.enqueue(makeMsg(`m${i}`), { padding });
+      q.consumeItems(1);
+      q.acknowledge();
+    }
+
+    expect(statSync(getQueueJournalPath(SCOPE, dir)).size).toBeLessThan(
+      300 * 1024,
+    );
+    expect(texts(openQueue().items)).toEqual(["m199"]);
+  });
+});
@@ -1,9 +1,11 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
 import {
   type DequeuedBatch,
   type MessageQueueItem,
+  mergeQueueSettings,
   type QueueItem,
   QueueRuntime,
+  type TaskNotificationQueueItem,
 } from "../../queue/queueRuntime";
 
 // ── Helpers ───────────────────────────────────────────────────────
@@ -35,6 +37,18 @@ function makeTask(
   return { kind: "task_notification", source: "task_notification", text };
 }
 
+function makeCron(
+  text = "<cron/>",
+): Omit<Extract<QueueItem, { kind: "cron_prompt" }>, "id" | "enqueuedAt"> {
+  return { kind: "cron_prompt", source: "cron", text, cronTaskId: "cron-1" };
+}
+
+function texts(items: readonly QueueItem[]): unknown[] {
+  return items.map((item) =>
+    item.kind === "message" ? item.content : item.text,
+  );
+}
+
 function makeApproval(): Omit<
   Extract<QueueItem, { kind: "approval_result" }>,
   "id" | "enqueuedAt"
@@ -101,13 +115,13 @@ describe("bounded buffer — soft limit", () => {
       maxItems: 2,
       callbacks: { onDropped: (item) => dropped.push(item) },
     });
-    const a = q.enqueue(makeMsg("a"));
+    const a = q.enqueue(makeTask("a"));
     expect(a).not.toBeNull();
-    q.enqueue(makeMsg("b"));
-    q.enqueue(makeMsg("c")); // triggers drop of "a"
+    q.enqueue(makeTask("b"));
+    q.enqueue(makeTask("c")); // triggers drop of "a"
 
     expect(dropped).toHaveLength(1);
-    expect((dropped.at(0) as MessageQueueItem).content).toBe("a");
+    expect((dropped.at(0) as TaskNotificationQueueItem).text).toBe("a");
     const droppedItem = dropped.at(0);
     expect(a?.id).toEqual(droppedItem?.id);
     expect(q.length).toBe(2);
@@ -131,13 +145,28 @@ describe("bounded buffer — soft limit", () => {
       maxItems: 2,
       callbacks: { onDropped: (item) => dropped.push(item) },
     });
-    q.enqueue(makeMsg("a"));
-    q.enqueue(makeMsg("b")); // full
-    q.enqueue(makeMsg("c")); // drops "a"
-    q.enqueue(makeMsg("d")); // drops "b"
+    q.enqueue(makeTask("a"));
+    q.enqueue(makeTask("b")); // full
+    q.enqueue(makeTask("c")); // drops "a"
+    q.enqueue(makeTask("d")); // drops "b"
     expect(dropped).toHaveLength(2);
     expect(q.length).toBe(2);
   });
+
+  test("user messages are never dropped; other items make room", () => {
+    const dropped: QueueItem[] = [];
+    const q = new QueueRuntime({
+      maxItems: 2,
+      callbacks: { onDropped: (item) => dropped.push(item) },
+    });
+    q.enqueue(makeMsg("a"));
+    q.enqueue(makeTask("t"));
+    q.enqueue(makeMsg("b")); // drops the task, not "a"
+    q.enqueue(makeMsg("c")); // nothing droppable — overflows
+
+    expect(dropped.map((item) => item.kind)).toEqual(["task_notification"]);
+    expect(texts(q.items)).toEqual(["a", "b", "c"]);
+  });
 });
 
 describe("bounded buffer — hard ceiling", () => {
@@ -171,12 +200,180 @@ describe("bounded buffer — hard ceiling", () => {
       hardMaxItems: 1,
       callbacks: { onDropped: (_item, reason) => dropped.push(reason) },
     });
-    q.enqueue(makeMsg("a")); // length 1 = at hard ceiling
-    const rejected = q.enqueue(makeMsg("b")); // hard ceiling — coalescable rejected
+    q.enqueue(makeTask("a")); // length 1 = at hard ceiling
+    const rejected = q.enqueue(makeTask("b")); // hard ceiling — coalescable rejected
     expect(rejected).toBeNull();
     expect(dropped).toEqual(["buffer_limit"]);
     expect(q.length).toBe(1); // unchanged
   });
+
+  test("user message at hard ceiling evicts a droppable item or overflows", () => {
+    const dropped: string[] = [];
+    const q = new QueueRuntime({
+      maxItems: 1,
+      hardMaxItems: 1,
+      callbacks: { onDropped: (item) => dropped.push(item.kind) },
+    });
+    q.enqueue(makeTask());
+    expect(q.enqueue(makeMsg("a"))).not.toBeNull(); // evicts the task
+    expect(q.enqueue(makeMsg("b"))).not.toBeNull(); // overflows
+    expect(dropped).toEqual(["task_notification"]);
+    expect(texts(q.items)).toEqual(["a", "b"]);
+  });
+});
+
+// ── Scheduling policy ─────────────────────────────────────────────
+
+describe("priorities", () => {
+  test("higher priority runs first; equal priority stays FIFO", () => {
+    const q = new QueueRuntime({
+      priorities: {
+        kinds: { approval_result: 2 },
+        sources: { task_notification: -1 },
+      },
+    });
+    q.enqueue(makeTask("t1"));
+    q.enqueue(makeMsg("a"));
+    q.enqueue(makeTask("t2"));
+    q.enqueue(makeMsg("b"));
+    q.enqueue(makeApproval());
+
+    expect(texts(q.items)).toEqual(["{}", "a", "b", "t1", "t2"]);
+  });
+
+  test("higher priority never passes a barrier", () => {
+    const q = new QueueRuntime({
+      priorities: { sources: { cron: 5 } },
+    });
+    q.enqueue(makeMsg("a"));
+    q.enqueue(makeApproval());
+    q.enqueue(makeMsg("b"));
+    q.enqueue(makeCron("c"));
+
+    expect(texts(q.items)).toEqual(["a", "{}", "c", "b"]);
+  });
+
+  test("soft limit drops the lowest-priority item, or rejects a lower new one", () => {
+    const dropped: string[] = [];
+    const q = new QueueRuntime({
+      maxItems: 2,
+      priorities: { sources: { cron: -2, task_notification: -1 } },
+      callbacks: { onDropped: (item) => dropped.push(item.source) },
+    });
+    q.enqueue(makeTask("t1"));
+    q.enqueue(makeCron("c1"));
+    q.enqueue(makeTask("t2")); // drops the cron prompt
+    expect(q.enqueue(makeCron("c2"))).toBeNull(); // ranks below both tasks
+
+    expect(dropped).toEqual(["cron", "cron"]);
+    expect(texts(q.items)).toEqual(["t1", "t2"]);
+  });
+});
+
+describe("rate limits", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("drops enqueues over the limit until the window passes", () => {
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const dropped: string[] = [];
+    const q = new QueueRuntime({
+      rateLimits: { task_notification: { maxItems: 2, windowMs: 1000 } },
+      callbacks: { onDropped: (_item, reason) => dropped.push(reason) },
+    });
+    q.enqueue(makeTask("a"));
+    q.enqueue(makeTask("b"));
+    expect(q.enqueue(makeTask("c"))).toBeNull();
+    expect(dropped).toEqual(["rate_limited"]);
+
+    setSystemTime(new Date("2026-01-01T00:00:01Z"));
+    expect(q.enqueue(makeTask("d"))).not.toBeNull();
+  });
+
+  test("user messages are exempt", () => {
+    const q = new QueueRuntime({
+      rateLimits: { user: { maxItems: 1, windowMs: 60_000 } },
+    });
+    q.enqueue(makeMsg("a"));
+    expect(q.enqueue(makeMsg("b"))).not.toBeNull();
+  });
+});
+
+describe("mergeQueueSettings", () => {
+  test("layers settings over the defaults per kind and source", () => {
+    const merged = mergeQueueSettings(
+      {
+        priorities: { sources: { cron: -1, subagent: -1 } },
+        rateLimits: {
+          cron: { maxItems: 10, windowMs: 60_000 },
+          subagent: { maxItems: 30, windowMs: 60_000 },
+        },
+      },
+      {
+        priorities: { kinds: { approval_result: 5 }, sources: { cron: 0 } },
+        rateLimits: { cron: { maxItems: 2, windowMs: 1000 } },
+      },
+    );
+    expect(merged).toEqual({
+      priorities: {
+        kinds: { approval_result: 5 },
+        sources: { cron: 0, subagent: -1 },
+      },
+      rateLimits: {
+        cron: { maxItems: 2, windowMs: 1000 },
+        subagent: { maxItems: 30, windowMs: 60_000 },
+      },
+    });
+  });
+
+  test("ignores invalid rate limits", () => {
+    const merged = mergeQueueSettings(
+      { rateLimits: { cron: { maxItems: 10, windowMs: 60_000 } } },
+      {
+        rateLimits: {
+          cron: { maxItems: 0, windowMs: 1000 },
+          subagent: { maxItems: 5 } as never,
+        },
+      },
+    );
+    expect(merged.rateLimits).toEqual({
+      cron: { maxItems: 10, windowMs: 60_000 },
+    });
+  });
+});
+
+describe("metrics", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("reports pending depth, oldest wait and per-source wait times", () => {
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const q = new QueueRuntime({ maxItems: 1 });
+    q.enqueue(makeMsg("a"));
+    q.enqueue(makeTask("dropped"));
+    q.enqueue(makeTask("t")); // drops the first task
+
+    setSystemTime(new Date("2026-01-01T00:00:02Z"));
+    q.consumeItems(1);
+
+    const metrics = q.getMetrics(Date.parse("2026-01-01T00:00:05Z"));
+    expect(metrics.pending).toBe(1);
+    expect(metrics.oldestWaitMs).toBe(5000);
+    expect(metrics.bySource.user).toEqual({
+      pending: 0,
+      dequeued: 1,
+      dropped: 0,
+      avgWaitMs: 2000,
+      maxWaitMs: 2000,
+    });
+    expect(metrics.bySource.task_notification).toMatchObject({
+      pending: 1,
+      dequeued: 0,
+      dropped: 1,
+    });
+  });
 });
 
 // ── Dequeue — coalescable ─────────────────────────────────────────
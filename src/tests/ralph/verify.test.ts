@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { ralphMode } from "../../ralph/mode";
+import {
+  buildVerificationFailureFeedback,
+  formatRalphSummary,
+  runVerifyCommand,
+} from "../../ralph/verify";
+
+const isWindows = process.platform === "win32";
+
+afterEach(() => {
+  ralphMode.deactivate();
+});
+
+describe("runVerifyCommand", () => {
+  test.skipIf(isWindows)("passes when the command exits 0", async () => {
+    const result = await runVerifyCommand("echo ok");
+
+    expect(result.passed).toBe(true);
+    expect(result.exitCode).toBe(0);
+    expect(result.output).toBe("ok");
+  });
+
+  test.skipIf(isWindows)(
+    "fails with combined output on a non-zero exit",
+    async () => {
+      const result = await runVerifyCommand(
+        "echo '1 test failed' && echo 'stack' >&2 && exit 3",
+      );
+
+      expect(result.passed).toBe(false);
+      expect(result.exitCode).toBe(3);
+      expect(result.output).toContain("1 test failed");
+      expect(result.output).toContain("stack");
+    },
+  );
+
+  test.skipIf(isWindows)("fails when the command times out", async () => {
+    const result = await runVerifyCommand("sleep 5", { timeoutMs: 100 });
+
+    expect(result.passed).toBe(false);
+    expect(result.timedOut).toBe(true);
+    expect(result.output).toContain("timed out");
+  });
+});
+
+describe("ralph verification state", () => {
+  test("activate stores the verify command and records iterations", () => {
+    ralphMode.activate("fix the build", "DONE", 5, false, "  bun test  ");
+    ralphMode.recordIteration({ promiseDetected: false });
+    ralphMode.incrementIteration();
+    ralphMode.recordIteration({
+      promiseDetected: true,
+      verification: {
+        passed: false,
+        exitCode: 1,
+        timedOut: false,
+        output: "fail",
+        durationMs: 1500,
+      },
+    });
+
+    const state = ralphMode.getState();
+    expect(state.verifyCommand).toBe("bun test");
+    expect(state.iterationResults.map((r) => r.iteration)).toEqual([1, 2]);
+    expect(formatRalphSummary(state)).toEqual([
+      "Iterations:",
+      "  1. no promise",
+      "  2. promise, verify failed with exit 1 (1.5s)",
+    ]);
+  });
+
+  test("an empty verify command disables the gate", () => {
+    ralphMode.activate("task", undefined, 0, false, "   ");
+    expect(ralphMode.getState().verifyCommand).toBeNull();
+    expect(formatRalphSummary(ralphMode.getState())).toEqual([]);
+  });
+
+  test("failure feedback includes the command, status and output", () => {
+    const feedback = buildVerificationFailureFeedback("bun run typecheck", {
+      passed: false,
+      exitCode: 2,
+      timedOut: false,
+      output: "error TS2322",
+      durationMs: 10,
+    });
+
+    expect(feedback).toContain("`bun run typecheck` exited with code 2");
+    expect(feedback).toContain("error TS2322");
+  });
+});
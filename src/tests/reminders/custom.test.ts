@@ -0,0 +1,196 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  setSystemTime,
+  test,
+} from "bun:test";
+import { mkdtemp, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  buildCustomReminders,
+  type CustomRemindersSettings,
+  resolveCustomReminders,
+} from "../../reminders/custom";
+import {
+  createSharedReminderState,
+  type SharedReminderState,
+} from "../../reminders/state";
+import { recordToolUseEvent } from "../../reminders/toolEvents";
+import { settingsManager } from "../../settings-manager";
+import { setServiceName } from "../../utils/secrets.js";
+
+const originalHome = process.env.HOME;
+let testHomeDir: string;
+let testProjectDir: string;
+
+beforeEach(async () => {
+  setServiceName("letta-code-test");
+  await settingsManager.reset();
+  testHomeDir = await mkdtemp(join(tmpdir(), "letta-reminders-home-"));
+  testProjectDir = await mkdtemp(join(tmpdir(), "letta-reminders-project-"));
+  process.env.HOME = testHomeDir;
+  await settingsManager.initialize();
+  await settingsManager.loadProjectSettings(testProjectDir);
+  await settingsManager.loadLocalProjectSettings(testProjectDir);
+});
+
+afterEach(async () => {
+  setSystemTime();
+  await settingsManager.reset();
+  process.env.HOME = originalHome;
+  await rm(testHomeDir, { recursive: true, force: true }).catch(() => {});
+  await rm(testProjectDir, { recursive: true, force: true }).catch(() => {});
+});
+
+function setReminders(reminders: CustomRemindersSettings): void {
+  settingsManager.updateProjectSettings({ reminders }, testProjectDir);
+}
+
+function runTurn(
+  state: SharedReminderState,
+  mode: Parameters<typeof buildCustomReminders>[0]["mode"] = "interactive",
+): Promise<string | null> {
+  return buildCustomReminders({
+    mode,
+    state,
+    workingDirectory: testProjectDir,
+  });
+}
+
+describe("resolveCustomReminders", () => {
+  test("local settings replace or disable project reminders", () => {
+    setReminders({
+      contributing: {
+        trigger: { type: "steps", every: 30 },
+        source: { type: "file", path: "CONTRIBUTING.md" },
+      },
+      tests: {
+        trigger: { type: "event", event: "tool_use", tools: ["TodoWrite"] },
+        source: { type: "text", text: "Run bun test" },
+      },
+      broken: {
+        trigger: { type: "cron", schedule: "not a schedule" },
+        source: { type: "text", text: "x" },
+      },
+    });
+    settingsManager.updateLocalProjectSettings(
+      {
+        reminders: {
+          contributing: {
+            trigger: { type: "steps", every: 5 },
+            source: { type: "file", path: "CONTRIBUTING.md" },
+            modes: ["interactive"],
+          },
+          tests: {
+            trigger: { type: "event", event: "tool_use" },
+            source: { type: "text", text: "Run bun test" },
+            disabled: true,
+          },
+        },
+      },
+      testProjectDir,
+    );
+
+    const { reminders, warnings } = resolveCustomReminders(testProjectDir);
+    expect(reminders).toEqual([
+      {
+        name: "contributing",
+        trigger: { type: "steps", every: 5 },
+        source: { type: "file", path: "CONTRIBUTING.md" },
+        modes: ["interactive"],
+        scope: "local",
+      },
+    ]);
+    expect(warnings).toEqual([
+      "project settings: reminder \"broken\" skipped: cron trigger needs a valid 'schedule'",
+    ]);
+  });
+});
+
+describe("buildCustomReminders", () => {
+  test("steps trigger fires every N turns in the configured modes", async () => {
+    setReminders({
+      every2: {
+        trigger: { type: "steps", every: 2 },
+        source: { type: "text", text: "Re-read CONTRIBUTING.md" },
+        modes: ["interactive", "listen"],
+      },
+    });
+    const state = createSharedReminderState();
+    expect(await runTurn(state)).toBeNull();
+    const second = await runTurn(state);
+    expect(second).toContain('Reminder "every2" (from project settings):');
+    expect(second).toContain("Re-read CONTRIBUTING.md");
+
+    const headless = createSharedReminderState();
+    await runTurn(headless, "headless-one-shot");
+    expect(await runTurn(headless, "headless-one-shot")).toBeNull();
+  });
+
+  test("event trigger matches tool name and input since the previous turn", async () => {
+    setReminders({
+      tests: {
+        trigger: {
+          type: "event",
+          event: "tool_use",
+          tools: ["TodoWrite"],
+          inputMatches: '"status":"completed"',
+        },
+        source: { type: "text", text: "Run bun test before finishing" },
+      },
+    });
+    const state = createSharedReminderState();
+    recordToolUseEvent(
+      "TodoWrite",
+      { todos: [{ content: "a", status: "in_progress" }] },
+      "success",
+    );
+    expect(await runTurn(state)).toBeNull();
+
+    recordToolUseEvent(
+      "TodoWrite",
+      { todos: [{ content: "a", status: "completed" }] },
+      "success",
+    );
+    expect(await runTurn(state)).toContain("Run bun test before finishing");
+    // Already seen
+    expect(await runTurn(state)).toBeNull();
+  });
+
+  test("file_change trigger fires after the watched file changes", async () => {
+    const schema = join(testProjectDir, "schema.sql");
+    await writeFile(schema, "create table a;");
+    setReminders({
+      schema: {
+        trigger: { type: "file_change", paths: ["schema.sql"] },
+        source: { type: "file", path: "schema.sql" },
+      },
+    });
+    const state = createSharedReminderState();
+    expect(await runTurn(state)).toBeNull(); // baseline
+    expect(await runTurn(state)).toBeNull();
+
+    await writeFile(schema, "create table b;");
+    await utimes(schema, new Date(), new Date(Date.now() + 5000));
+    expect(await runTurn(state)).toContain("create table b;");
+  });
+
+  test("cron trigger fires once the schedule passed; command source runs in the project", async () => {
+    setReminders({
+      hourly: {
+        trigger: { type: "cron", schedule: "0 * * * *" },
+        source: { type: "command", command: "echo diff-stat" },
+      },
+    });
+    const state = createSharedReminderState();
+    setSystemTime(new Date("2026-01-01T10:30:00Z"));
+    expect(await runTurn(state)).toBeNull(); // baseline
+    setSystemTime(new Date("2026-01-01T10:50:00Z"));
+    expect(await runTurn(state)).toBeNull();
+    setSystemTime(new Date("2026-01-01T11:05:00Z"));
+    expect(await runTurn(state)).toContain("diff-stat");
+  });
+});
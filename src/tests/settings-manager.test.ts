@@ -603,6 +603,40 @@ describe("Settings Manager - Multiple Projects", () => {
   });
 });
 
+// ============================================================================
+// Settings Layers Tests
+// ============================================================================
+
+describe("Settings Manager - Settings Layers", () => {
+  test("Returns each level's value, lowest precedence first", async () => {
+    await settingsManager.initialize();
+    settingsManager.updateSettings({ lsp: { enabled: true } });
+    await settingsManager.loadProjectSettings(testProjectDir);
+    await settingsManager.loadLocalProjectSettings(testProjectDir);
+    settingsManager.updateLocalProjectSettings(
+      { lsp: { enabled: false } },
+      testProjectDir,
+    );
+
+    expect(settingsManager.getSettingsLayers("lsp", testProjectDir)).toEqual([
+      { scope: "user", value: { enabled: true } },
+      { scope: "local", value: { enabled: false } },
+    ]);
+    expect(
+      settingsManager.getSettingsLayers("lsp", testProjectDir, ["project"]),
+    ).toEqual([]);
+  });
+
+  test("Skips levels that are not loaded", async () => {
+    await settingsManager.initialize();
+    settingsManager.updateSettings({ lsp: { enabled: true } });
+
+    expect(settingsManager.getSettingsLayers("lsp", testProjectDir)).toEqual([
+      { scope: "user", value: { enabled: true } },
+    ]);
+  });
+});
+
 // ============================================================================
 // Reset Tests
 // ============================================================================
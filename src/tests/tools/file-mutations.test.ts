@@ -0,0 +1,55 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getMutatedFilePaths,
+  isFileMutationTool,
+} from "../../tools/file-mutations";
+
+const patch = [
+  "*** Begin Patch",
+  "*** Add File: new.txt",
+  "+hello",
+  "*** Update File: src/old.ts",
+  "*** Move to: src/renamed.ts",
+  "@@",
+  "-a",
+  "+b",
+  "*** Delete File: gone.txt",
+  "*** End Patch",
+].join("\n");
+
+describe("getMutatedFilePaths", () => {
+  test("resolves file_path against the working directory", () => {
+    expect(
+      getMutatedFilePaths("Write", { file_path: "a.txt" }, "/repo"),
+    ).toEqual(["/repo/a.txt"]);
+    expect(
+      getMutatedFilePaths("Edit", { file_path: "/abs/b.txt" }, "/repo"),
+    ).toEqual(["/abs/b.txt"]);
+  });
+
+  test("ignores tools that do not change files", () => {
+    expect(isFileMutationTool("Read")).toBe(false);
+    expect(
+      getMutatedFilePaths("Read", { file_path: "a.txt" }, "/repo"),
+    ).toEqual([]);
+  });
+
+  test("collects added, updated and moved-to files from patches", () => {
+    expect(
+      getMutatedFilePaths("ApplyPatch", { input: patch }, "/repo"),
+    ).toEqual(["/repo/new.txt", "/repo/src/old.ts", "/repo/src/renamed.ts"]);
+  });
+
+  test("includes deleted files when asked", () => {
+    expect(
+      getMutatedFilePaths("ApplyPatch", { input: patch }, "/repo", {
+        includeDeleted: true,
+      }),
+    ).toEqual([
+      "/repo/new.txt",
+      "/repo/src/old.ts",
+      "/repo/src/renamed.ts",
+      "/repo/gone.txt",
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { clearHooksCache } from "../../hooks";
+import { settingsManager } from "../../settings-manager";
+import {
+  executeTool,
+  prepareToolExecutionContextForSpecificTools,
+  releaseToolExecutionContext,
+} from "../../tools/manager";
+
+const isWindows = process.platform === "win32";
+
+function asText(
+  toolReturn: Awaited<ReturnType<typeof executeTool>>["toolReturn"],
+) {
+  return typeof toolReturn === "string"
+    ? toolReturn
+    : JSON.stringify(toolReturn);
+}
+
+describe.skipIf(isWindows)("PreToolUse hooks and permissions", () => {
+  let baseDir: string;
+  let projectDir: string;
+  let originalHome: string | undefined;
+
+  beforeEach(async () => {
+    await settingsManager.reset();
+    baseDir = join(
+      tmpdir(),
+      `pre-tool-use-${process.pid}-${Math.random().toString(36).slice(2)}`,
+    );
+    projectDir = join(baseDir, "project");
+    mkdirSync(join(baseDir, "home"), { recursive: true });
+    mkdirSync(join(projectDir, ".letta"), { recursive: true });
+    originalHome = process.env.HOME;
+    process.env.HOME = join(baseDir, "home");
+    await settingsManager.initialize();
+  });
+
+  afterEach(async () => {
+    await settingsManager.reset();
+    clearHooksCache();
+    process.env.HOME = originalHome;
+    rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  async function runBashWithHook(hookOutput: string, command = "echo hi") {
+    writeFileSync(
+      join(projectDir, ".letta", "settings.json"),
+      JSON.stringify({
+        permissions: { deny: ["Bash(rm:*)"] },
+        hooks: {
+          PreToolUse: [
+            {
+              matcher: "Bash",
+              hooks: [{ type: "command", command: `echo '${hookOutput}'` }],
+            },
+          ],
+        },
+      }),
+    );
+    clearHooksCache();
+    const prepared = await prepareToolExecutionContextForSpecificTools(
+      ["Bash"],
+      { workingDirectory: projectDir },
+    );
+    try {
+      return await executeTool(
+        "Bash",
+        { command },
+        { toolContextId: prepared.contextId },
+      );
+    } finally {
+      releaseToolExecutionContext(prepared.contextId);
+    }
+  }
+
+  test("runs a rewritten call that is as permitted as the original", async () => {
+    const result = await runBashWithHook(
+      '{"updatedInput": {"command": "echo rewritten"}}',
+    );
+    expect(result.status).toBe("success");
+    expect(asText(result.toolReturn)).toContain("rewritten");
+  });
+
+  test("blocks a rewritten call that matches a deny rule", async () => {
+    const result = await runBashWithHook(
+      '{"updatedInput": {"command": "rm -rf build"}}',
+    );
+    expect(result.status).toBe("error");
+    expect(asText(result.toolReturn)).toContain(
+      "Tool input rewritten by hook was denied",
+    );
+  });
+
+  test("blocks a rewritten call that would need approval", async () => {
+    const result = await runBashWithHook(
+      '{"updatedInput": {"command": "npm publish"}}',
+    );
+    expect(result.status).toBe("error");
+    expect(asText(result.toolReturn)).toContain(
+      "needs approval the original call did not",
+    );
+  });
+
+  test("permissionDecision ask fails closed", async () => {
+    const result = await runBashWithHook('{"permissionDecision": "ask"}');
+    expect(result.status).toBe("error");
+    expect(asText(result.toolReturn)).toContain(
+      "PreToolUse hooks cannot ask for approval",
+    );
+  });
+});
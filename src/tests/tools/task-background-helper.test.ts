@@ -149,6 +149,85 @@ describe("spawnBackgroundSubagentTask", () => {
     expect(outputContent).toContain("[Task completed]");
   });
 
+  test("passes isolation through and reports the worktree", async () => {
+    const spawnSubagentImpl = mock(async () => ({
+      agentId: "agent-isolated",
+      conversationId: "default",
+      report: "feature done",
+      success: true,
+      worktree: {
+        path: "/tmp/letta-worktrees/repo-subagent-test-1",
+        branch: "letta/subagent-test-1",
+        removed: false,
+      },
+    }));
+
+    const launched = spawnBackgroundSubagentTask({
+      subagentType: "general-purpose",
+      prompt: "Build the feature",
+      description: "Build feature",
+      isolation: "worktree",
+      deps: {
+        spawnSubagentImpl,
+        addToMessageQueueImpl,
+        formatTaskNotificationImpl,
+        runSubagentStopHooksImpl,
+        generateSubagentIdImpl,
+        registerSubagentImpl,
+        completeSubagentImpl,
+        getSubagentSnapshotImpl,
+      },
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const spawnArgs = spawnSubagentImpl.mock.calls[0] as unknown[];
+    expect(spawnArgs[9]).toBe("worktree");
+    const outputContent = readFileSync(launched.outputFile, "utf-8");
+    expect(outputContent).toContain(
+      "worktree_path=/tmp/letta-worktrees/repo-subagent-test-1 worktree_branch=letta/subagent-test-1 worktree_status=kept",
+    );
+  });
+
+  test("passes budget overrides through and keeps the partial report", async () => {
+    const spawnSubagentImpl = mock(async () => ({
+      agentId: "agent-budget",
+      conversationId: "default",
+      report: "Found 3 of the callers so far",
+      success: false,
+      error: "budget_exceeded: tool call budget of 5 exhausted",
+      budgetExceeded: { limit: "maxToolCalls" as const, max: 5, used: 6 },
+    }));
+
+    const launched = spawnBackgroundSubagentTask({
+      subagentType: "explore",
+      prompt: "Find callers",
+      description: "Find callers",
+      budget: { maxToolCalls: 5 },
+      deps: {
+        spawnSubagentImpl,
+        addToMessageQueueImpl,
+        formatTaskNotificationImpl,
+        runSubagentStopHooksImpl,
+        generateSubagentIdImpl,
+        registerSubagentImpl,
+        completeSubagentImpl,
+        getSubagentSnapshotImpl,
+      },
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const spawnArgs = spawnSubagentImpl.mock.calls[0] as unknown[];
+    expect(spawnArgs[10]).toEqual({ maxToolCalls: 5 });
+    expect(backgroundTasks.get(launched.taskId)?.status).toBe("failed");
+    const outputContent = readFileSync(launched.outputFile, "utf-8");
+    expect(outputContent).toContain("subagent_status=budget_exceeded");
+    expect(outputContent).toContain(
+      "[error] budget_exceeded: tool call budget of 5 exhausted\n\nPartial report:\nFound 3 of the callers so far",
+    );
+  });
+
   test("silentCompletion skips message queue notification", async () => {
     const spawnSubagentImpl = mock(async () => ({
       agentId: "agent-silent",
@@ -8,6 +8,7 @@ import {
   getToolNames,
   loadSpecificTools,
   prepareToolExecutionContextForSpecificTools,
+  restrictToolExecutionContext,
 } from "../../tools/manager";
 
 function asText(
@@ -95,4 +96,58 @@ describe("tool execution context snapshot", () => {
 
     expect(withPreparedContext.status).toBe("success");
   });
+
+  test("restricts a prepared context to allowed tool families", async () => {
+    const prepared = await prepareToolExecutionContextForSpecificTools([
+      "Read",
+      "Edit",
+      "ShellCommand",
+    ]);
+
+    const restricted = restrictToolExecutionContext(prepared, [
+      "Read",
+      "Bash(git status:*)",
+    ]);
+
+    expect(restricted.loadedToolNames.sort()).toEqual(["Read", "ShellCommand"]);
+    expect(restricted.clientTools.map((tool) => tool.name)).not.toContain(
+      "Edit",
+    );
+
+    const edit = await executeTool(
+      "Edit",
+      { file_path: "README.md", old_string: "a", new_string: "b" },
+      { toolContextId: restricted.contextId },
+    );
+    expect(edit.status).toBe("error");
+    expect(asText(edit.toolReturn)).toContain("Tool not found: Edit");
+  });
+
+  test("enforces rule specifiers of allowed tools on each call", async () => {
+    const prepared = await prepareToolExecutionContextForSpecificTools([
+      "ShellCommand",
+    ]);
+    const restricted = restrictToolExecutionContext(prepared, [
+      "Bash(git status:*, git log:*)",
+    ]);
+
+    const denied = await executeTool(
+      "ShellCommand",
+      { command: "echo not allowed" },
+      { toolContextId: restricted.contextId },
+    );
+    expect(denied.status).toBe("error");
+    expect(asText(denied.toolReturn)).toContain(
+      "Tool call not permitted by allowed-tools",
+    );
+
+    const allowed = await executeTool(
+      "ShellCommand",
+      { command: "git status --short" },
+      { toolContextId: restricted.contextId },
+    );
+    expect(asText(allowed.toolReturn)).not.toContain(
+      "not permitted by allowed-tools",
+    );
+  });
 });
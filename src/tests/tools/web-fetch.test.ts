@@ -0,0 +1,177 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { once } from "node:events";
+import { createServer, type Server } from "node:http";
+import { clearWebFetchCache, web_fetch } from "../../tools/impl/WebFetch";
+
+/** Routes served by the stub server: path -> [status, headers, body] */
+let routes: Record<
+  string,
+  { status?: number; headers?: Record<string, string>; body?: string }
+> = {};
+let hits: string[] = [];
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    hits.push(req.url ?? "");
+    const route = routes[req.url ?? ""];
+    if (!route) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("not found");
+      return;
+    }
+    res.writeHead(route.status ?? 200, route.headers ?? {});
+    res.end(route.body ?? "");
+  });
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const address = server.address();
+  if (!address || typeof address === "string") {
+    throw new Error("expected tcp server address");
+  }
+  baseUrl = `http://127.0.0.1:${address.port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+afterEach(() => {
+  routes = {};
+  hits = [];
+  clearWebFetchCache();
+});
+
+describe("WebFetch tool", () => {
+  test("converts HTML pages to markdown", async () => {
+    routes["/page"] = {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+      body: `<html><head><title>Guide</title><script>track()</script></head>
+        <body><h1>Getting started</h1>
+        <p>Read the <a href="/docs/api">API docs</a> &amp; enjoy.</p>
+        <ul><li>one</li><li>two</li></ul>
+        <pre><code class="language-sh">npm install
+npm test</code></pre></body></html>`,
+    };
+
+    const result = await web_fetch({ url: `${baseUrl}/page` });
+
+    expect(result.status).toBeUndefined();
+    expect(result.content).toContain("Status: 200");
+    expect(result.content).toContain("Title: Guide");
+    expect(result.content).toContain("# Getting started");
+    expect(result.content).toContain(
+      `Read the [API docs](${baseUrl}/docs/api) & enjoy.`,
+    );
+    expect(result.content).toContain("- one\n- two");
+    expect(result.content).toContain("```sh\nnpm install\nnpm test\n```");
+    expect(result.content).not.toContain("track()");
+  });
+
+  test("raw format returns the HTML source", async () => {
+    routes["/page"] = {
+      headers: { "Content-Type": "text/html" },
+      body: "<p>hello</p>",
+    };
+
+    const result = await web_fetch({ url: `${baseUrl}/page`, format: "raw" });
+    expect(result.content).toContain("<p>hello</p>");
+  });
+
+  test("returns JSON responses as-is", async () => {
+    routes["/data.json"] = {
+      headers: { "Content-Type": "application/json" },
+      body: '{"ok":true}',
+    };
+
+    const result = await web_fetch({ url: `${baseUrl}/data.json` });
+    expect(result.content.endsWith('{"ok":true}')).toBe(true);
+  });
+
+  test("caches responses for the session", async () => {
+    routes["/cached"] = {
+      headers: { "Content-Type": "text/plain" },
+      body: "first",
+    };
+
+    await web_fetch({ url: `${baseUrl}/cached` });
+    routes["/cached"] = {
+      headers: { "Content-Type": "text/plain" },
+      body: "second",
+    };
+    const result = await web_fetch({ url: `${baseUrl}/cached` });
+
+    expect(hits).toEqual(["/cached"]);
+    expect(result.content).toContain("first");
+  });
+
+  test("error responses are reported and not cached", async () => {
+    const first = await web_fetch({ url: `${baseUrl}/missing` });
+    expect(first.status).toBe("error");
+    expect(first.content).toContain("Status: 404");
+
+    await web_fetch({ url: `${baseUrl}/missing` });
+    expect(hits).toEqual(["/missing", "/missing"]);
+  });
+
+  test("follows same-host redirects", async () => {
+    routes["/old"] = { status: 301, headers: { Location: "/new" } };
+    routes["/new"] = {
+      headers: { "Content-Type": "text/plain" },
+      body: "moved here",
+    };
+
+    const result = await web_fetch({ url: `${baseUrl}/old` });
+    expect(result.content).toContain(`URL: ${baseUrl}/new`);
+    expect(result.content).toContain("moved here");
+  });
+
+  test("does not follow redirects to another host", async () => {
+    routes["/away"] = {
+      status: 302,
+      headers: { Location: "https://example.com/elsewhere" },
+    };
+
+    const result = await web_fetch({ url: `${baseUrl}/away` });
+    expect(result.content).toContain(
+      "Redirected to a different host: https://example.com/elsewhere",
+    );
+  });
+
+  test("rejects binary content and non-http URLs", async () => {
+    routes["/image.png"] = {
+      headers: { "Content-Type": "image/png" },
+      body: "\x89PNG",
+    };
+
+    const binary = await web_fetch({ url: `${baseUrl}/image.png` });
+    expect(binary.status).toBe("error");
+    expect(binary.content).toContain("Unsupported content type: image/png");
+
+    await expect(web_fetch({ url: "file:///etc/passwd" })).rejects.toThrow(
+      "Unsupported URL protocol",
+    );
+    await expect(web_fetch({ url: "not a url" })).rejects.toThrow(
+      "Invalid URL",
+    );
+  });
+
+  test("truncates long pages", async () => {
+    routes["/long"] = {
+      headers: { "Content-Type": "text/plain" },
+      body: "x".repeat(40_000),
+    };
+
+    const result = await web_fetch({ url: `${baseUrl}/long` });
+    expect(result.content).toContain("[Output truncated: showing 30,000");
+  });
+});
@@ -19,6 +19,7 @@ import {
   registerSubagent,
 } from "../../cli/helpers/subagentState";
 import { INTERRUPTED_BY_USER } from "../../constants";
+import { permissionMode } from "../../permissions/mode";
 import type { MessageQueueItem } from "../../queue/queueRuntime";
 import type { LocalProjectSettings, Settings } from "../../settings-manager";
 import { settingsManager } from "../../settings-manager";
@@ -359,6 +360,16 @@ describe("listen-client parseServerMessage", () => {
         }),
       ),
     );
+    const cronHistory = parseServerMessage(
+      Buffer.from(
+        JSON.stringify({
+          type: "cron_history",
+          request_id: "cron-history-1",
+          task_id: "cron-1",
+          limit: 10,
+        }),
+      ),
+    );
     const cronDelete = parseServerMessage(
       Buffer.from(
         JSON.stringify({
@@ -381,6 +392,7 @@ describe("listen-client parseServerMessage", () => {
     expect(cronList?.type).toBe("cron_list");
     expect(cronAdd?.type).toBe("cron_add");
     expect(cronGet?.type).toBe("cron_get");
+    expect(cronHistory?.type).toBe("cron_history");
     expect(cronDelete?.type).toBe("cron_delete");
     expect(cronDeleteAll?.type).toBe("cron_delete_all");
   });
@@ -477,6 +489,50 @@ describe("listen-client parseServerMessage", () => {
     expect(noName).toBeNull();
   });
 
+  test("parses queue management commands", () => {
+    const runtime = { agent_id: "agent-1", conversation_id: "default" };
+    const queueList = parseServerMessage(
+      Buffer.from(
+        JSON.stringify({ type: "queue_list", request_id: "ql-1", runtime }),
+      ),
+    );
+    const queueRemove = parseServerMessage(
+      Buffer.from(
+        JSON.stringify({
+          type: "queue_remove",
+          request_id: "qr-1",
+          runtime,
+          item_ids: ["q-1"],
+        }),
+      ),
+    );
+    const queueReorder = parseServerMessage(
+      Buffer.from(
+        JSON.stringify({
+          type: "queue_reorder",
+          request_id: "qo-1",
+          runtime,
+          item_ids: ["q-2", "q-1"],
+        }),
+      ),
+    );
+    const badIds = parseServerMessage(
+      Buffer.from(
+        JSON.stringify({
+          type: "queue_remove",
+          request_id: "qr-2",
+          runtime,
+          item_ids: [1],
+        }),
+      ),
+    );
+
+    expect(queueList?.type).toBe("queue_list");
+    expect(queueRemove?.type).toBe("queue_remove");
+    expect(queueReorder?.type).toBe("queue_reorder");
+    expect(badIds).toBeNull();
+  });
+
   test("parses create_agent command", () => {
     const minimal = parseServerMessage(
       Buffer.from(
@@ -726,16 +782,37 @@ describe("listen-client cron command handling", () => {
           type: "cron_get",
           request_id: "cron-get-1",
           task_id: taskId,
+          next_count: 3,
         },
         socket as unknown as WebSocket,
       );
-      expect(JSON.parse(socket.sentPayloads[0] as string)).toMatchObject({
+      const getResponse = JSON.parse(socket.sentPayloads[0] as string);
+      expect(getResponse).toMatchObject({
         type: "cron_get_response",
         request_id: "cron-get-1",
         success: true,
         found: true,
         task: { id: taskId },
       });
+      expect(getResponse.next_fire_times).toHaveLength(3);
+
+      socket.sentPayloads.length = 0;
+      await __listenClientTestUtils.handleCronCommand(
+        {
+          type: "cron_history",
+          request_id: "cron-history-1",
+          task_id: taskId,
+        },
+        socket as unknown as WebSocket,
+      );
+      const historyResponse = JSON.parse(socket.sentPayloads[0] as string);
+      expect(historyResponse).toMatchObject({
+        type: "cron_history_response",
+        request_id: "cron-history-1",
+        success: true,
+        task_id: taskId,
+        runs: [],
+      });
 
       socket.sentPayloads.length = 0;
       await __listenClientTestUtils.handleCronCommand(
@@ -807,6 +884,60 @@ describe("listen-client cron command handling", () => {
       await rm(tempRoot, { recursive: true, force: true });
     }
   });
+
+  test("rejects invalid cron expressions and timezones", async () => {
+    const tempRoot = await mkdtemp(join(os.tmpdir(), "letta-listen-cron-"));
+    const originalLettaHome = process.env.LETTA_HOME;
+    process.env.LETTA_HOME = tempRoot;
+
+    try {
+      const socket = new MockSocket(WebSocket.OPEN);
+      const base = {
+        type: "cron_add" as const,
+        agent_id: "agent-1",
+        name: "Bad cron",
+        description: "Invalid schedule",
+        recurring: true,
+        prompt: "never runs",
+      };
+
+      await __listenClientTestUtils.handleCronCommand(
+        { ...base, request_id: "cron-add-bad-expr", cron: "61 * * * *" },
+        socket as unknown as WebSocket,
+      );
+      await __listenClientTestUtils.handleCronCommand(
+        {
+          ...base,
+          request_id: "cron-add-bad-tz",
+          cron: "*/15 9-16 * * MON-FRI",
+          timezone: "Mars/Olympus",
+        },
+        socket as unknown as WebSocket,
+      );
+
+      const messages = socket.sentPayloads.map((payload) =>
+        JSON.parse(payload as string),
+      );
+      expect(messages).toHaveLength(2);
+      expect(messages[0]).toMatchObject({
+        type: "cron_add_response",
+        request_id: "cron-add-bad-expr",
+        success: false,
+      });
+      expect(messages[1]).toMatchObject({
+        type: "cron_add_response",
+        request_id: "cron-add-bad-tz",
+        success: false,
+      });
+    } finally {
+      if (originalLettaHome) {
+        process.env.LETTA_HOME = originalLettaHome;
+      } else {
+        delete process.env.LETTA_HOME;
+      }
+      await rm(tempRoot, { recursive: true, force: true });
+    }
+  });
 });
 
 describe("listen-client reflection settings command handling", () => {
@@ -2362,6 +2493,54 @@ describe("listen-client capability-gated approval flow", () => {
     expect(secondPlanPath).not.toBe(firstPlanPath);
   });
 
+  test("mode changes accept registered custom modes and reject unknown ones", () => {
+    const listener = __listenClientTestUtils.createListenerRuntime();
+    const socket = new MockSocket(WebSocket.OPEN);
+    listener.socket = socket as unknown as WebSocket;
+    const scope = {
+      agent_id: "agent-1",
+      conversation_id: "default",
+    } as const;
+
+    permissionMode.setCustomModes({ review: { baseMode: "plan" } });
+    try {
+      __listenClientTestUtils.handleModeChange(
+        { mode: "review" },
+        socket as unknown as WebSocket,
+        listener,
+        scope,
+      );
+
+      const deviceStatus = socket.sentPayloads
+        .map((payload) => JSON.parse(payload as string))
+        .findLast(
+          (payload) => payload.type === "update_device_status",
+        )?.device_status;
+      expect(deviceStatus?.current_permission_mode).toBe("review");
+      expect(deviceStatus?.available_permission_modes).toContain("review");
+
+      socket.sentPayloads.length = 0;
+      __listenClientTestUtils.handleModeChange(
+        { mode: "nonexistent" },
+        socket as unknown as WebSocket,
+        listener,
+        scope,
+      );
+
+      const outbound = socket.sentPayloads.map((payload) =>
+        JSON.parse(payload as string),
+      );
+      expect(
+        outbound.some((payload) => payload.type === "update_device_status"),
+      ).toBe(false);
+      expect(JSON.stringify(outbound)).toContain(
+        "Unknown permission mode: nonexistent",
+      );
+    } finally {
+      permissionMode.setCustomModes({});
+    }
+  });
+
   test("requestApprovalOverWS exposes the control request through device status instead of stream_delta", () => {
     const listener = __listenClientTestUtils.createListenerRuntime();
     const runtime = __listenClientTestUtils.getOrCreateScopedRuntime(
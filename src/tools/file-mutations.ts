@@ -0,0 +1,56 @@
+/**
+ * Files touched by client-side edit tools.
+ * Shared by post-edit LSP diagnostics and /rewind checkpoints.
+ */
+
+import * as path from "node:path";
+
+/** Tools (internal names) that create, modify or delete files */
+const FILE_MUTATION_TOOLS = new Set([
+  "Edit",
+  "MultiEdit",
+  "Write",
+  "ApplyPatch",
+  "apply_patch",
+  "replace",
+  "Replace",
+  "write_file_gemini",
+  "WriteFileGemini",
+]);
+
+export function isFileMutationTool(toolName: string): boolean {
+  return FILE_MUTATION_TOOLS.has(toolName);
+}
+
+/**
+ * Files a tool call will create or modify (absolute paths). For patches
+ * these are the added, updated and moved-to files, plus the deleted ones
+ * when `includeDeleted` is set.
+ */
+export function getMutatedFilePaths(
+  toolName: string,
+  args: Record<string, unknown>,
+  workingDirectory: string,
+  options: { includeDeleted?: boolean } = {},
+): string[] {
+  if (!FILE_MUTATION_TOOLS.has(toolName)) return [];
+  const resolve = (filePath: string) =>
+    path.isAbsolute(filePath)
+      ? filePath
+      : path.resolve(workingDirectory, filePath);
+
+  if (toolName === "ApplyPatch" || toolName === "apply_patch") {
+    if (typeof args.input !== "string") return [];
+    const pattern = options.includeDeleted
+      ? /^\*\*\* (?:Add File|Update File|Delete File|Move to): (.+)$/
+      : /^\*\*\* (?:Add File|Update File|Move to): (.+)$/;
+    const paths = new Set<string>();
+    for (const line of args.input.split(/\r?\n/)) {
+      const match = line.match(pattern);
+      if (match?.[1]) paths.add(resolve(match[1].trim()));
+    }
+    return [...paths];
+  }
+
+  return typeof args.file_path === "string" ? [resolve(args.file_path)] : [];
+}
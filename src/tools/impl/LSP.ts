@@ -0,0 +1,129 @@
+/**
+ * LSP navigation tool - definition, references, hover and symbol lookups
+ * backed by the LSPManager. Registered only when LSP is enabled.
+ */
+import * as path from "node:path";
+import {
+  formatDocumentSymbols,
+  formatHover,
+  formatLocations,
+  formatRenamePreview,
+  formatWorkspaceSymbols,
+} from "../../lsp/format.js";
+import { validateRequiredParams } from "./validation.js";
+
+type LSPOperation =
+  | "definition"
+  | "references"
+  | "hover"
+  | "documentSymbols"
+  | "workspaceSymbols"
+  | "renamePreview";
+
+interface LSPArgs {
+  operation: LSPOperation;
+  file_path?: string;
+  line?: number;
+  character?: number;
+  query?: string;
+  new_name?: string;
+  include_declaration?: boolean;
+}
+
+interface LSPResult {
+  content: string;
+}
+
+function requireParam<T>(value: T | undefined, name: string, op: string): T {
+  if (value === undefined || value === null || value === "") {
+    throw new Error(`LSP ${op} requires the ${name} parameter`);
+  }
+  return value;
+}
+
+/**
+ * Convert the tool's 1-based line/character to an LSP (0-based) position
+ */
+function toPosition(args: LSPArgs): { line: number; character: number } {
+  const line = requireParam(args.line, "line", args.operation);
+  const character = requireParam(args.character, "character", args.operation);
+  if (line < 1 || character < 1) {
+    throw new Error("line and character are 1-based and must be at least 1");
+  }
+  return { line: line - 1, character: character - 1 };
+}
+
+export async function lsp(args: LSPArgs): Promise<LSPResult> {
+  validateRequiredParams(args, ["operation"], "LSP");
+  const { lspManager } = await import("../../lsp/manager.js");
+  const userCwd = process.env.USER_CWD || process.cwd();
+  const resolveFile = () => {
+    const filePath = requireParam(args.file_path, "file_path", args.operation);
+    return path.isAbsolute(filePath)
+      ? filePath
+      : path.resolve(userCwd, filePath);
+  };
+
+  switch (args.operation) {
+    case "definition": {
+      const locations = await lspManager.definition(
+        resolveFile(),
+        toPosition(args),
+      );
+      return {
+        content: formatLocations(
+          locations,
+          userCwd,
+          "No definition found at this position",
+        ),
+      };
+    }
+    case "references": {
+      const locations = await lspManager.references(
+        resolveFile(),
+        toPosition(args),
+        args.include_declaration ?? true,
+      );
+      return {
+        content: formatLocations(
+          locations,
+          userCwd,
+          "No references found at this position",
+        ),
+      };
+    }
+    case "hover":
+      return {
+        content: formatHover(
+          await lspManager.hover(resolveFile(), toPosition(args)),
+        ),
+      };
+    case "documentSymbols":
+      return {
+        content: formatDocumentSymbols(
+          await lspManager.documentSymbols(resolveFile()),
+        ),
+      };
+    case "workspaceSymbols": {
+      const query = requireParam(args.query, "query", args.operation);
+      const symbols = await lspManager.workspaceSymbols(
+        query,
+        args.file_path ? resolveFile() : undefined,
+      );
+      return { content: formatWorkspaceSymbols(symbols, userCwd) };
+    }
+    case "renamePreview": {
+      const newName = requireParam(args.new_name, "new_name", args.operation);
+      const edit = await lspManager.renamePreview(
+        resolveFile(),
+        toPosition(args),
+        newName,
+      );
+      return { content: formatRenamePreview(edit, newName, userCwd) };
+    }
+    default:
+      throw new Error(
+        `Unknown LSP operation: ${String(args.operation)}. Expected one of: definition, references, hover, documentSymbols, workspaceSymbols, renamePreview`,
+      );
+  }
+}
@@ -14,6 +14,8 @@ import { dirname, isAbsolute, relative, resolve } from "node:path";
 import { promisify } from "node:util";
 import { getClient } from "../../agent/client";
 import { getCurrentAgentId } from "../../agent/context";
+import { runPostMemoryCommitHooks } from "../../hooks";
+import { runMemoryWriteHooks } from "./memoryWriteHooks";
 import { validateRequiredParams } from "./validation";
 
 const execFile = promisify(execFileCb);
@@ -127,6 +129,7 @@ export async function memory(args: MemoryArgs): Promise<MemoryResult> {
       body,
     );
 
+    await runWriteHooks(memoryDir, filePath, command, rendered, reason);
     await mkdir(dirname(filePath), { recursive: true });
     await writeFile(filePath, rendered, "utf8");
     affectedPaths = [relPath];
@@ -157,6 +160,7 @@ export async function memory(args: MemoryArgs): Promise<MemoryResult> {
 
     const nextBody = `${file.body.slice(0, idx)}${newString}${file.body.slice(idx + oldString.length)}`;
     const rendered = renderMemoryFile(file.frontmatter, nextBody);
+    await runWriteHooks(memoryDir, filePath, command, rendered, reason);
     await writeFile(filePath, rendered, "utf8");
     affectedPaths = [relPath];
   } else if (command === "insert") {
@@ -187,6 +191,7 @@ export async function memory(args: MemoryArgs): Promise<MemoryResult> {
     const nextBody = existingLines.join("\n");
 
     const rendered = renderMemoryFile(file.frontmatter, nextBody);
+    await runWriteHooks(memoryDir, filePath, command, rendered, reason);
     await writeFile(filePath, rendered, "utf8");
     affectedPaths = [relPath];
   } else if (command === "delete") {
@@ -196,6 +201,7 @@ export async function memory(args: MemoryArgs): Promise<MemoryResult> {
 
     if (existsSync(targetPath) && (await stat(targetPath)).isDirectory()) {
       const relPath = toRepoRelative(memoryDir, targetPath);
+      await runWriteHooks(memoryDir, targetPath, command, undefined, reason);
       await rm(targetPath, { recursive: true, force: false });
       affectedPaths = [relPath];
     } else {
@@ -203,6 +209,7 @@ export async function memory(args: MemoryArgs): Promise<MemoryResult> {
       const relPath = toRepoRelative(memoryDir, filePath);
 
       await loadEditableMemoryFile(filePath, pathArg);
+      await runWriteHooks(memoryDir, filePath, command, undefined, reason);
       await unlink(filePath);
       affectedPaths = [relPath];
     }
@@ -226,6 +233,14 @@ export async function memory(args: MemoryArgs): Promise<MemoryResult> {
     }
 
     await loadEditableMemoryFile(oldFilePath, oldPathArg);
+    await runWriteHooks(memoryDir, oldFilePath, command, undefined, reason);
+    await runWriteHooks(
+      memoryDir,
+      newFilePath,
+      command,
+      await readFile(oldFilePath, "utf8"),
+      reason,
+    );
     await mkdir(dirname(newFilePath), { recursive: true });
     await rename(oldFilePath, newFilePath);
     affectedPaths = [oldRelPath, newRelPath];
@@ -249,6 +264,7 @@ export async function memory(args: MemoryArgs): Promise<MemoryResult> {
       },
       file.body,
     );
+    await runWriteHooks(memoryDir, filePath, command, rendered, reason);
     await writeFile(filePath, rendered, "utf8");
     affectedPaths = [relPath];
   } else {
@@ -277,6 +293,27 @@ export async function memory(args: MemoryArgs): Promise<MemoryResult> {
   };
 }
 
+/**
+ * Run PreMemoryWrite hooks for a single path. Throws when a hook blocks the
+ * write so the tool call fails before anything touches disk.
+ */
+function runWriteHooks(
+  memoryDir: string,
+  targetPath: string,
+  command: MemoryCommand,
+  newContent: string | undefined,
+  reason: string,
+): Promise<void> {
+  return runMemoryWriteHooks({
+    memoryPath: toRepoRelative(memoryDir, targetPath),
+    absolutePath: targetPath,
+    operation: command,
+    newContent,
+    reason,
+    toolLabel: `memory ${command}`,
+  });
+}
+
 function resolveMemoryDir(): string {
   const direct = process.env.MEMORY_DIR || process.env.LETTA_MEMORY_DIR;
   if (direct && direct.trim().length > 0) {
@@ -580,11 +617,13 @@ async function commitAndPush(
   try {
     await runGit(memoryDir, ["push"]);
   } catch (error) {
+    await runPostMemoryCommitHooks(sha, reason, pathspecs, false, agentId);
     const message = error instanceof Error ? error.message : String(error);
     throw new Error(
       `Memory changes were committed (${sha.slice(0, 7)}) but push failed: ${message}`,
     );
   }
+  await runPostMemoryCommitHooks(sha, reason, pathspecs, true, agentId);
 
   return {
     committed: true,
@@ -14,6 +14,8 @@ import { dirname, isAbsolute, relative, resolve } from "node:path";
 import { promisify } from "node:util";
 import { getClient } from "../../agent/client";
 import { getCurrentAgentId } from "../../agent/context";
+import { runPostMemoryCommitHooks } from "../../hooks";
+import { runMemoryWriteHooks } from "./memoryWriteHooks";
 import { validateRequiredParams } from "./validation";
 
 const execFile = promisify(execFileCb);
@@ -224,6 +226,16 @@ export async function memory_apply_patch(
     }
   }
 
+  // Every write and delete must pass PreMemoryWrite before any is applied,
+  // so a blocked hook leaves the memory repo untouched.
+  for (const [absPath, content] of pendingWrites.entries()) {
+    await runWriteHooks(memoryDir, absPath, content, reason);
+  }
+  for (const absPath of pendingDeletes) {
+    if (pendingWrites.has(absPath)) continue;
+    await runWriteHooks(memoryDir, absPath, undefined, reason);
+  }
+
   for (const [absPath, content] of pendingWrites.entries()) {
     await mkdir(dirname(absPath), { recursive: true });
     await writeFile(absPath, content, "utf8");
@@ -771,11 +783,13 @@ async function commitAndPush(
   try {
     await runGit(memoryDir, ["push"]);
   } catch (error) {
+    await runPostMemoryCommitHooks(sha, reason, pathspecs, false, agentId);
     const message = error instanceof Error ? error.message : String(error);
     throw new Error(
       `Memory changes were committed (${sha.slice(0, 7)}) but push failed: ${message}`,
     );
   }
+  await runPostMemoryCommitHooks(sha, reason, pathspecs, true, agentId);
 
   return {
     committed: true,
@@ -783,6 +797,26 @@ async function commitAndPush(
   };
 }
 
+/**
+ * Run PreMemoryWrite hooks for a single path. Throws when a hook blocks the
+ * write.
+ */
+function runWriteHooks(
+  memoryDir: string,
+  absPath: string,
+  newContent: string | undefined,
+  reason: string,
+): Promise<void> {
+  return runMemoryWriteHooks({
+    memoryPath: toRepoRelative(memoryDir, absPath),
+    absolutePath: absPath,
+    operation: "apply_patch",
+    newContent,
+    reason,
+    toolLabel: "memory_apply_patch",
+  });
+}
+
 async function isMissing(filePath: string): Promise<boolean> {
   try {
     await access(filePath);
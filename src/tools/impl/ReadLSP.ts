@@ -1,27 +1,10 @@
 /**
  * LSP-enhanced Read tool - wraps the base Read tool and adds LSP diagnostics
- * This is used when LETTA_ENABLE_LSP is set
+ * This is used when LSP is enabled (settings "lsp.enabled" or LETTA_ENABLE_LSP)
  */
+import { formatDiagnostic } from "../../lsp/format.js";
 import { read as baseRead, type ToolReturnContent } from "./Read.js";
 
-// Format a single diagnostic in opencode style: "ERROR [line:col] message"
-function formatDiagnostic(diag: {
-  severity?: number;
-  range: { start: { line: number; character: number } };
-  message: string;
-}): string {
-  const severityMap: Record<number, string> = {
-    1: "ERROR",
-    2: "WARN",
-    3: "INFO",
-    4: "HINT",
-  };
-  const severity = severityMap[diag.severity || 1] || "ERROR";
-  const line = diag.range.start.line + 1; // Convert to 1-based
-  const col = diag.range.start.character + 1;
-  return `${severity} [${line}:${col}] ${diag.message}`;
-}
-
 interface ReadLSPArgs {
   file_path: string;
   offset?: number;
@@ -38,7 +21,8 @@ export async function read_lsp(args: ReadLSPArgs): Promise<ReadLSPResult> {
   const result = await baseRead(args);
 
   // Skip LSP if not enabled (shouldn't happen since we only load this when enabled)
-  if (!process.env.LETTA_ENABLE_LSP) {
+  const { lspManager } = await import("../../lsp/manager.js");
+  if (!lspManager.isEnabled()) {
     return result;
   }
 
@@ -58,8 +42,6 @@ export async function read_lsp(args: ReadLSPArgs): Promise<ReadLSPResult> {
   }
 
   try {
-    // Import LSP manager dynamically
-    const { lspManager } = await import("../../lsp/manager.js");
     const path = await import("node:path");
 
     // Resolve the path
@@ -12,7 +12,18 @@ import {
   discoverSubagents,
   getAllSubagentConfigs,
 } from "../../agent/subagents";
+import {
+  parseBudgetLimit,
+  type SubagentBudget,
+  type SubagentBudgetExceeded,
+} from "../../agent/subagents/budget";
 import { spawnSubagent } from "../../agent/subagents/manager";
+import {
+  parseSubagentIsolation,
+  SUBAGENT_ISOLATION_MODES,
+  type SubagentIsolation,
+  type SubagentWorktree,
+} from "../../agent/subagents/worktree";
 import { addToMessageQueue } from "../../cli/helpers/messageQueueBridge.js";
 import {
   completeSubagent,
@@ -46,6 +57,10 @@ interface TaskArgs {
   conversation_id?: string; // Resume from an existing conversation
   run_in_background?: boolean; // Run the task in background
   max_turns?: number; // Maximum number of agentic turns
+  isolation?: SubagentIsolation; // Run in a temporary git worktree
+  max_tokens?: number; // Override the subagent's token budget
+  max_duration_ms?: number; // Override the subagent's wall-clock budget
+  max_tool_calls?: number; // Override the subagent's tool call budget
   toolCallId?: string; // Injected by executeTool for linking subagent to parent tool call
   signal?: AbortSignal; // Injected by executeTool for interruption handling
   parentScope?: { agentId: string; conversationId: string }; // Injected by executeTool for notification routing
@@ -62,6 +77,9 @@ type TaskRunResult = {
   success: boolean;
   error?: string;
   totalTokens?: number;
+  costUsd?: number;
+  worktree?: SubagentWorktree;
+  budgetExceeded?: SubagentBudgetExceeded;
 };
 
 export interface SpawnBackgroundSubagentTaskArgs {
@@ -74,6 +92,10 @@ export interface SpawnBackgroundSubagentTaskArgs {
   existingConversationId?: string;
   maxTurns?: number;
   forkedContext?: boolean;
+  /** Isolation override; defaults to the subagent config's */
+  isolation?: SubagentIsolation;
+  /** Budget overrides; unset limits come from the subagent config */
+  budget?: SubagentBudget;
   /** Parent conversation scope for routing notifications in listener mode. */
   parentScope?: { agentId: string; conversationId: string };
   /**
@@ -116,11 +138,27 @@ interface SpawnBackgroundSubagentTaskDeps {
   getSubagentSnapshotImpl: typeof getSubagentSnapshot;
 }
 
+type TaskResultStatus = "success" | "error" | "budget_exceeded";
+
+function getTaskResultStatus(result: TaskRunResult): TaskResultStatus {
+  if (result.success) return "success";
+  return result.budgetExceeded ? "budget_exceeded" : "error";
+}
+
+/**
+ * Partial report of a subagent stopped over budget, appended after the error
+ */
+function formatPartialReport(result: TaskRunResult): string {
+  return result.budgetExceeded && result.report
+    ? `\n\nPartial report:\n${result.report}`
+    : "";
+}
+
 function buildTaskResultHeader(
   subagentType: string,
   subagentId: string,
-  result?: Pick<TaskRunResult, "agentId" | "conversationId">,
-  status?: "success" | "error",
+  result?: Pick<TaskRunResult, "agentId" | "conversationId" | "worktree">,
+  status?: TaskResultStatus,
 ): string {
   return [
     `subagent_type=${subagentType}`,
@@ -130,6 +168,11 @@ function buildTaskResultHeader(
     result?.conversationId
       ? `conversation_id=${result.conversationId}`
       : undefined,
+    result?.worktree ? `worktree_path=${result.worktree.path}` : undefined,
+    result?.worktree ? `worktree_branch=${result.worktree.branch}` : undefined,
+    result?.worktree
+      ? `worktree_status=${result.worktree.removed ? "removed" : "kept"}`
+      : undefined,
   ]
     .filter(Boolean)
     .join(" ");
@@ -161,7 +204,7 @@ function writeTaskTranscriptResult(
 
   appendToOutputFile(
     outputFile,
-    `${header ? `${header}\n\n` : ""}[error] ${result.error || "Subagent execution failed"}\n\n[Task failed]\n`,
+    `${header ? `${header}\n\n` : ""}[error] ${result.error || "Subagent execution failed"}${formatPartialReport(result)}\n\n[Task failed]\n`,
   );
 }
 
@@ -245,6 +288,8 @@ export function spawnBackgroundSubagentTask(
     existingConversationId,
     maxTurns,
     forkedContext,
+    isolation,
+    budget,
     parentScope,
     silentCompletion,
     onComplete,
@@ -307,6 +352,8 @@ export function spawnBackgroundSubagentTask(
     existingConversationId,
     maxTurns,
     forkedContext,
+    isolation,
+    budget,
   )
     .then(async (result) => {
       bgTask.status = result.success ? "completed" : "failed";
@@ -318,7 +365,7 @@ export function spawnBackgroundSubagentTask(
         subagentType,
         subagentId,
         result,
-        result.success ? "success" : "error",
+        getTaskResultStatus(result),
       );
       writeTaskTranscriptResult(outputFile, result, header);
       if (result.success) {
@@ -330,6 +377,7 @@ export function spawnBackgroundSubagentTask(
         success: result.success,
         error: result.error,
         totalTokens: result.totalTokens,
+        costUsd: result.costUsd,
       });
 
       try {
@@ -349,7 +397,7 @@ export function spawnBackgroundSubagentTask(
 
         const fullResult = result.success
           ? `${header}\n\n${result.report || ""}`
-          : `${header}\n\nError: ${result.error || "Subagent execution failed"}`;
+          : `${header}\n\nError: ${result.error || "Subagent execution failed"}${formatPartialReport(result)}`;
         const userCwd = process.env.USER_CWD || process.cwd();
         const { content: truncatedResult } = truncateByChars(
           fullResult,
@@ -567,6 +615,32 @@ export async function task(args: TaskArgs): Promise<string> {
 
   const prompt = inputPrompt;
 
+  let isolation: SubagentIsolation | undefined;
+  if (args.isolation !== undefined) {
+    isolation = parseSubagentIsolation(args.isolation);
+    if (!isolation) {
+      return `Error: Invalid isolation "${args.isolation}". Supported values: ${SUBAGENT_ISOLATION_MODES.join(", ")}`;
+    }
+  }
+
+  for (const param of [
+    "max_tokens",
+    "max_duration_ms",
+    "max_tool_calls",
+  ] as const) {
+    if (
+      args[param] !== undefined &&
+      parseBudgetLimit(args[param]) === undefined
+    ) {
+      return `Error: ${param} must be a positive number`;
+    }
+  }
+  const budget: SubagentBudget = {
+    maxTokens: args.max_tokens,
+    maxDurationMs: args.max_duration_ms,
+    maxToolCalls: args.max_tool_calls,
+  };
+
   const isBackground = args.run_in_background ?? config.background;
   const resolvedParentScope = resolveParentScope(args.parentScope);
 
@@ -582,6 +656,8 @@ export async function task(args: TaskArgs): Promise<string> {
       existingConversationId: effectiveConversationId,
       maxTurns: args.max_turns,
       forkedContext: config.fork,
+      isolation,
+      budget,
       parentScope: resolvedParentScope,
     });
 
@@ -626,6 +702,8 @@ export async function task(args: TaskArgs): Promise<string> {
       effectiveConversationId,
       args.max_turns,
       config.fork,
+      isolation,
+      budget,
     );
 
     // Mark subagent as completed in state store
@@ -633,6 +711,7 @@ export async function task(args: TaskArgs): Promise<string> {
       success: result.success,
       error: result.error,
       totalTokens: result.totalTokens,
+      costUsd: result.costUsd,
     });
 
     // Run SubagentStop hooks (fire-and-forget)
@@ -657,10 +736,19 @@ export async function task(args: TaskArgs): Promise<string> {
         subagent_type,
         subagentId,
         failedResult,
-        "error",
+        getTaskResultStatus(failedResult),
       );
       writeTaskTranscriptResult(outputFile, failedResult, header);
-      return `${header}\n\nError: ${errorMessage}\nOutput file: ${outputFile}`;
+      const { content: truncatedFailure } = truncateByChars(
+        `${header}\n\nError: ${errorMessage}${formatPartialReport(failedResult)}`,
+        LIMITS.TASK_OUTPUT_CHARS,
+        "Task",
+        {
+          workingDirectory: process.env.USER_CWD || process.cwd(),
+          toolName: "Task",
+        },
+      );
+      return `${truncatedFailure}\nOutput file: ${outputFile}`;
     }
 
     // Include stable subagent metadata so orchestrators can attribute results.
@@ -0,0 +1,211 @@
+import { extractHtmlTitle, htmlToMarkdown } from "./htmlToMarkdown.js";
+import { LIMITS, truncateByChars } from "./truncation.js";
+import { validateRequiredParams } from "./validation.js";
+
+interface WebFetchArgs {
+  url: string;
+  format?: "markdown" | "raw";
+  signal?: AbortSignal;
+}
+
+interface WebFetchResult {
+  content: string;
+  status?: "error";
+}
+
+/** How long a fetched page is served from the session cache (15 minutes) */
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+/** Same-host redirects followed before giving up */
+const MAX_REDIRECTS = 5;
+
+interface CachedPage {
+  content: string;
+  fetchedAt: number;
+}
+
+// Per-session response cache, keyed by format and URL
+const pageCache = new Map<string, CachedPage>();
+
+/**
+ * Clear the session response cache
+ */
+export function clearWebFetchCache(): void {
+  pageCache.clear();
+}
+
+function isTextContentType(contentType: string): boolean {
+  return (
+    contentType === "" ||
+    contentType.startsWith("text/") ||
+    /[/+](json|xml|javascript|ecmascript|x-yaml|yaml|csv)\b/.test(contentType)
+  );
+}
+
+/**
+ * Read the response body, stopping at the byte limit
+ */
+async function readBody(
+  response: Response,
+  maxBytes: number,
+): Promise<{ body: string; truncated: boolean }> {
+  if (!response.body) {
+    return { body: "", truncated: false };
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let body = "";
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const remaining = maxBytes - bytes;
+    if (value.byteLength > remaining) {
+      body += decoder.decode(value.subarray(0, remaining));
+      await reader.cancel();
+      return { body, truncated: true };
+    }
+    bytes += value.byteLength;
+    body += decoder.decode(value, { stream: true });
+  }
+  return { body: body + decoder.decode(), truncated: false };
+}
+
+/**
+ * Fetch a URL, following redirects only while they stay on the same host.
+ * A cross-host redirect is returned to the caller so the new host goes
+ * through its own permission check.
+ */
+async function fetchSameHost(
+  url: URL,
+  signal: AbortSignal,
+): Promise<{ response: Response; url: URL } | { redirectTo: URL }> {
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(current, {
+      redirect: "manual",
+      signal,
+      headers: {
+        "User-Agent": "letta-code-webfetch",
+        Accept: "text/html,text/markdown,text/plain,application/json,*/*;q=0.8",
+      },
+    });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: current };
+    }
+    await response.body?.cancel();
+
+    const next = new URL(location, current);
+    if (next.host !== current.host) {
+      return { redirectTo: next };
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+    }
+    current = next;
+  }
+}
+
+export async function web_fetch(args: WebFetchArgs): Promise<WebFetchResult> {
+  validateRequiredParams(args, ["url"], "WebFetch");
+  const { url: rawUrl, format = "markdown", signal } = args;
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error(`Invalid URL: ${rawUrl}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(
+      `Unsupported URL protocol: ${url.protocol} (only http and https are supported)`,
+    );
+  }
+
+  const cacheKey = `${format}:${url.toString()}`;
+  const cached = pageCache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return { content: cached.content };
+  }
+
+  // One controller covers both the time limit and user interrupts
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, LIMITS.WEBFETCH_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    const fetched = await fetchSameHost(url, controller.signal);
+    if ("redirectTo" in fetched) {
+      return {
+        content: `Redirected to a different host: ${fetched.redirectTo.toString()}\nTo continue, call WebFetch again with that URL.`,
+      };
+    }
+
+    const { response } = fetched;
+    const contentType = (response.headers.get("content-type") ?? "")
+      .split(";")[0]
+      ?.trim()
+      .toLowerCase();
+    if (!isTextContentType(contentType ?? "")) {
+      await response.body?.cancel();
+      return {
+        content: `Unsupported content type: ${contentType} (WebFetch only returns text content)`,
+        status: "error",
+      };
+    }
+
+    const { body, truncated } = await readBody(
+      response,
+      LIMITS.WEBFETCH_MAX_BYTES,
+    );
+
+    let text = body;
+    let title: string | null = null;
+    if (contentType === "text/html" && format === "markdown") {
+      title = extractHtmlTitle(body);
+      text = htmlToMarkdown(body, fetched.url.toString());
+    }
+
+    const header = [
+      `URL: ${fetched.url.toString()}`,
+      `Status: ${response.status}${response.statusText ? ` ${response.statusText}` : ""}`,
+      ...(title ? [`Title: ${title}`] : []),
+      ...(truncated
+        ? [
+            `[Response body exceeded ${LIMITS.WEBFETCH_MAX_BYTES.toLocaleString()} bytes and was cut off.]`,
+          ]
+        : []),
+    ].join("\n");
+
+    const userCwd = process.env.USER_CWD || process.cwd();
+    const { content: limited } = truncateByChars(
+      text,
+      LIMITS.WEBFETCH_OUTPUT_CHARS,
+      "WebFetch",
+      { workingDirectory: userCwd, toolName: "WebFetch" },
+    );
+    const content = `${header}\n\n${limited}`;
+
+    if (!response.ok) {
+      return { content, status: "error" };
+    }
+    pageCache.set(cacheKey, { content, fetchedAt: Date.now() });
+    return { content };
+  } catch (error) {
+    if (timedOut) {
+      throw new Error(
+        `WebFetch timed out after ${LIMITS.WEBFETCH_TIMEOUT_MS / 1000}s: ${url.toString()}`,
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
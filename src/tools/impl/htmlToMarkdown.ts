@@ -0,0 +1,175 @@
+/**
+ * Lightweight HTML to markdown conversion for WebFetch.
+ * Covers the structure that matters for reading docs pages (headings,
+ * links, lists, code, tables) and drops everything else.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  laquo: "«",
+  raquo: "»",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const codePoint =
+          entity[1] === "x" || entity[1] === "X"
+            ? Number.parseInt(entity.slice(2), 16)
+            : Number.parseInt(entity.slice(1), 10);
+        return Number.isFinite(codePoint) && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : match;
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    },
+  );
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, "");
+}
+
+function getAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(
+    new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"),
+  );
+  if (!match) return null;
+  return decodeHtmlEntities(match[1] ?? match[2] ?? match[3] ?? "");
+}
+
+/** Wrap inline content in a markdown marker, dropping empty elements (e.g. icon fonts) */
+function wrapInline(body: string, marker: string): string {
+  const trimmed = body.trim();
+  return trimmed ? `${marker}${trimmed}${marker}` : "";
+}
+
+function resolveUrl(href: string, baseUrl?: string): string {
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Extract the document title, if any
+ */
+export function extractHtmlTitle(html: string): string | null {
+  const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  if (!match?.[1]) return null;
+  const title = decodeHtmlEntities(stripTags(match[1]))
+    .replace(/\s+/g, " ")
+    .trim();
+  return title || null;
+}
+
+/**
+ * Convert an HTML document to markdown.
+ * @param html - The HTML source
+ * @param baseUrl - URL the document was fetched from (resolves relative links)
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  // Preformatted blocks keep their whitespace; swap them out first
+  const preserved: string[] = [];
+  const preserve = (markdown: string) => {
+    preserved.push(markdown);
+    return `\uE000${preserved.length - 1}\uE000`;
+  };
+
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<(script|style|noscript|head|svg|iframe|template|canvas)\b[\s\S]*?<\/\1\s*>/gi,
+      "",
+    )
+    .replace(/<pre\b([^>]*)>([\s\S]*?)<\/pre\s*>/gi, (_match, _attrs, body) => {
+      const languageMatch = String(body).match(
+        /<code\b[^>]*class\s*=\s*["'][^"']*(?:language|lang)-([\w+-]+)/i,
+      );
+      const code = decodeHtmlEntities(stripTags(String(body))).replace(
+        /\n+$/,
+        "",
+      );
+      return preserve(`\`\`\`${languageMatch?.[1] ?? ""}\n${code}\n\`\`\``);
+    });
+
+  // Outside <pre>, whitespace is insignificant
+  text = text.replace(/\s+/g, " ");
+
+  text = text
+    .replace(
+      /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi,
+      (_match, level, body) =>
+        `\n\n${"#".repeat(Number(level))} ${stripTags(String(body)).trim()}\n\n`,
+    )
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a\s*>/gi, (_match, attrs, body) => {
+      const label = String(body).trim();
+      const href = getAttribute(String(attrs), "href");
+      if (!href || href.startsWith("#") || href.startsWith("javascript:")) {
+        return label;
+      }
+      return label ? `[${label}](${resolveUrl(href, baseUrl)})` : "";
+    })
+    .replace(/<img\b([^>]*)>/gi, (_match, attrs) => {
+      const src = getAttribute(String(attrs), "src");
+      if (!src) return "";
+      const alt = getAttribute(String(attrs), "alt") ?? "";
+      return `![${alt}](${resolveUrl(src, baseUrl)})`;
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi, (_match, _tag, body) =>
+      wrapInline(String(body), "**"),
+    )
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi, (_match, _tag, body) =>
+      wrapInline(String(body), "_"),
+    )
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code\s*>/gi, (_match, body) =>
+      wrapInline(String(body), "`"),
+    )
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<hr\b[^>]*>/gi, "\n\n---\n\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(ul|ol)\s*>/gi, "\n\n")
+    .replace(/<tr\b[^>]*>/gi, "\n|")
+    .replace(/<t[dh]\b[^>]*>/gi, " ")
+    .replace(/<\/t[dh]\s*>/gi, " |")
+    .replace(
+      /<\/?(p|div|section|article|main|header|footer|nav|aside|table|ul|ol|dl|dt|dd|figure|figcaption|blockquote|form|fieldset)\b[^>]*>/gi,
+      "\n\n",
+    );
+
+  text = decodeHtmlEntities(stripTags(text));
+
+  const markdown = text
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return markdown
+    .replace(
+      /\uE000(\d+)\uE000/g,
+      (_match, index) => `\n\n${preserved[Number(index)] ?? ""}\n\n`,
+    )
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,56 @@
+/**
+ * PreMemoryWrite hook gate shared by the memory and memory_apply_patch tools.
+ */
+
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { getCurrentAgentId } from "../../agent/context";
+import { runPreMemoryWriteHooks } from "../../hooks";
+
+/**
+ * Agent the memory write belongs to: the current agent context, falling
+ * back to the agent id environment variables.
+ */
+export function resolveHookAgentId(): string | undefined {
+  try {
+    return getCurrentAgentId().trim() || undefined;
+  } catch {
+    return (
+      (process.env.AGENT_ID || process.env.LETTA_AGENT_ID || "").trim() ||
+      undefined
+    );
+  }
+}
+
+/**
+ * Run PreMemoryWrite hooks for a single memory file. Throws when a hook
+ * blocks the write so the tool call fails before anything touches disk.
+ * `toolLabel` prefixes the error, e.g. "memory str_replace".
+ */
+export async function runMemoryWriteHooks(params: {
+  memoryPath: string;
+  absolutePath: string;
+  operation: string;
+  newContent: string | undefined;
+  reason: string;
+  toolLabel: string;
+}): Promise<void> {
+  const { memoryPath, absolutePath, operation, newContent, reason } = params;
+  const oldContent = existsSync(absolutePath)
+    ? await readFile(absolutePath, "utf8").catch(() => undefined)
+    : undefined;
+
+  const result = await runPreMemoryWriteHooks(
+    memoryPath,
+    operation,
+    { newContent, oldContent },
+    reason,
+    resolveHookAgentId(),
+  );
+  if (result.blocked) {
+    const feedback = result.feedback.join("\n") || "Blocked by hook";
+    throw new Error(
+      `${params.toolLabel}: write to ${memoryPath} blocked by PreMemoryWrite hook. ${feedback}`,
+    );
+  }
+}
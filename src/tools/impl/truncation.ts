@@ -21,6 +21,11 @@ export const LIMITS = {
   GREP_OUTPUT_CHARS: 10_000, // Max characters for grep results
   GLOB_MAX_FILES: 2_000, // Max number of file paths
   LS_MAX_ENTRIES: 1_000, // Max directory entries
+
+  // Web fetch limits
+  WEBFETCH_OUTPUT_CHARS: 30_000, // Max characters of converted page content
+  WEBFETCH_MAX_BYTES: 5_000_000, // Max response body bytes read
+  WEBFETCH_TIMEOUT_MS: 30_000, // Max time for the whole request
 } as const;
 
 /**
@@ -1,6 +1,7 @@
 import { getDisplayableToolReturn } from "../agent/approval-execution";
 import { getModelInfo } from "../agent/model";
 import { getAllSubagentConfigs } from "../agent/subagents";
+import { checkpointManager } from "../checkpoints/manager";
 import { refreshFileIndex } from "../cli/helpers/fileIndex";
 import { INTERRUPTED_BY_USER } from "../constants";
 import {
@@ -8,11 +9,18 @@ import {
   runPostToolUseHooks,
   runPreToolUseHooks,
 } from "../hooks";
+import {
+  captureEditDiagnosticsBaseline,
+  reportIntroducedDiagnostics,
+} from "../lsp/editDiagnostics";
+import { lspManager } from "../lsp/manager";
+import { canonicalToolName } from "../permissions/canonical";
 import {
   permissionMode as globalPermissionMode,
   type PermissionMode,
 } from "../permissions/mode";
 import { OPENAI_CODEX_PROVIDER_NAME } from "../providers/openai-codex-provider";
+import { recordToolUseEvent } from "../reminders/toolEvents";
 import { telemetry } from "../telemetry";
 import { debugLog } from "../utils/debug";
 import {
@@ -89,6 +97,7 @@ export const ANTHROPIC_DEFAULT_TOOLS: ToolName[] = [
   "Skill",
   "Task",
   "TodoWrite",
+  "WebFetch",
   "Write",
 ];
 
@@ -128,6 +137,7 @@ export const OPENAI_PASCAL_TOOLS: ToolName[] = [
   "TaskOutput",
   "TaskStop",
   "Skill",
+  "WebFetch",
   // Standard Codex tools
   "ShellCommand",
   "ViewImage",
@@ -143,6 +153,7 @@ export const GEMINI_PASCAL_TOOLS: ToolName[] = [
   "memory",
   "Skill",
   "Task",
+  "WebFetch",
   // Standard Gemini tools
   "RunShellCommand",
   "ReadFileGemini",
@@ -176,9 +187,11 @@ const TOOL_PERMISSIONS: Record<ToolName, { requiresApproval: boolean }> = {
   view_image: { requiresApproval: false },
   ViewImage: { requiresApproval: false },
   ReadLSP: { requiresApproval: false },
+  LSP: { requiresApproval: false },
   Skill: { requiresApproval: false },
   Task: { requiresApproval: true },
   TodoWrite: { requiresApproval: false },
+  WebFetch: { requiresApproval: true },
   Write: { requiresApproval: true },
   shell_command: { requiresApproval: true },
   shell: { requiresApproval: true },
@@ -309,6 +322,8 @@ type ToolExecutionContextSnapshot = {
   externalExecutor?: ExternalToolExecutor;
   workingDirectory: string;
   permissionModeState: PermissionModeState;
+  /** allowed-tools entries every call must match (all calls when unset) */
+  allowedTools?: string[];
 };
 
 export type CapturedToolExecutionContext = {
@@ -472,6 +487,8 @@ export interface ExternalToolDefinition {
   label?: string;
   description: string;
   parameters: Record<string, unknown>; // JSON Schema
+  /** Executes this tool instead of the executor set with setExternalToolExecutor */
+  executor?: ExternalToolExecutor;
 }
 
 /**
@@ -518,6 +535,16 @@ export function registerExternalTools(tools: ExternalToolDefinition[]): void {
   }
 }
 
+/**
+ * Remove external tools by name
+ */
+export function unregisterExternalTools(names: string[]): void {
+  const registry = getExternalToolsRegistry();
+  for (const name of names) {
+    registry.delete(name);
+  }
+}
+
 /**
  * Set the executor callback for external tools
  */
@@ -670,6 +697,7 @@ function capturePreparedToolExecutionContext(
   options?: {
     workingDirectory?: string;
     permissionModeState?: PermissionModeState;
+    allowedTools?: string[];
   },
 ): PreparedToolExecutionContext {
   const executionSnapshot: ToolExecutionContextSnapshot = {
@@ -681,6 +709,7 @@ function capturePreparedToolExecutionContext(
     permissionModeState: getEffectivePermissionModeState(
       options?.permissionModeState,
     ),
+    allowedTools: options?.allowedTools,
   };
   const contextId = saveExecutionContext(executionSnapshot);
 
@@ -756,6 +785,112 @@ export async function prepareToolExecutionContextForModel(
   );
 }
 
+/** Split an allowed-tools entry into its tool name and rule specifiers. */
+function parseAllowListEntry(entry: string): {
+  tool: string;
+  specifiers: string[];
+} {
+  const match = entry.trim().match(/^([^(]+)\((.*)\)$/);
+  if (!match) {
+    return { tool: entry.trim(), specifiers: [] };
+  }
+  return {
+    tool: (match[1] ?? "").trim(),
+    specifiers: (match[2] ?? "")
+      .split(",")
+      .map((specifier) => specifier.trim())
+      .filter(Boolean),
+  };
+}
+
+function allowListEntryMatchesTool(toolName: string, tool: string): boolean {
+  const names = [toolName, getServerToolName(toolName)];
+  return (
+    names.includes(tool) ||
+    names.some((name) => canonicalToolName(name) === canonicalToolName(tool))
+  );
+}
+
+/**
+ * Whether a tool matches an allowed-tools entry. Entries match the internal
+ * name, the model-facing name or the canonical tool family, so "Bash" allows
+ * every shell tool. Entries with rule specifiers such as "Bash(git:*)" make
+ * the tool available; each call is then checked by isToolCallInAllowList.
+ */
+export function isToolInAllowList(
+  toolName: string,
+  allowedTools: string[],
+): boolean {
+  return allowedTools.some((entry) =>
+    allowListEntryMatchesTool(toolName, parseAllowListEntry(entry).tool),
+  );
+}
+
+/**
+ * Whether a tool call is permitted by allowed-tools entries. A bare entry
+ * permits every call to its tool; "Bash(git add:*, git commit:*)" permits
+ * calls matching one of its rule patterns, as permission rules match them.
+ */
+export async function isToolCallInAllowList(
+  toolName: string,
+  toolArgs: ToolArgs,
+  allowedTools: string[],
+  workingDirectory: string,
+): Promise<boolean> {
+  const { matchesPermissionPattern } = await import("../permissions/checker");
+  return allowedTools.some((entry) => {
+    const { tool, specifiers } = parseAllowListEntry(entry);
+    if (!allowListEntryMatchesTool(toolName, tool)) return false;
+    if (specifiers.length === 0) return true;
+    return specifiers.some((specifier) =>
+      matchesPermissionPattern(
+        toolName,
+        toolArgs,
+        `${tool}(${specifier})`,
+        workingDirectory,
+      ),
+    );
+  });
+}
+
+/**
+ * Narrow a prepared tool context to the tools in `allowedTools`.
+ * The narrowed snapshot is saved under a new context id and the original
+ * context is released.
+ */
+export function restrictToolExecutionContext(
+  prepared: PreparedToolExecutionContext,
+  allowedTools: string[],
+): PreparedToolExecutionContext {
+  const snapshot = getExecutionContextById(prepared.contextId);
+  if (!snapshot) {
+    return prepared;
+  }
+  const toolRegistry: ToolRegistry = new Map(
+    Array.from(snapshot.toolRegistry).filter(([name]) =>
+      isToolInAllowList(name, allowedTools),
+    ),
+  );
+  const externalTools = new Map(
+    Array.from(snapshot.externalTools).filter(([name]) =>
+      isToolInAllowList(name, allowedTools),
+    ),
+  );
+  releaseToolExecutionContext(prepared.contextId);
+  return capturePreparedToolExecutionContext(
+    {
+      toolRegistry,
+      externalTools,
+      externalExecutor: snapshot.externalExecutor,
+    },
+    {
+      workingDirectory: snapshot.workingDirectory,
+      permissionModeState: snapshot.permissionModeState,
+      allowedTools,
+    },
+  );
+}
+
 async function withExecutionWorkingDirectory<T>(
   workingDirectory: string | undefined,
   fn: () => Promise<T>,
@@ -882,7 +1017,7 @@ function replaceRegistry(newTools: ToolRegistry): void {
 }
 
 function maybeApplyLspReadOverride(registry: ToolRegistry): void {
-  if (!process.env.LETTA_ENABLE_LSP || !registry.has("Read")) {
+  if (!lspManager.isEnabled() || !registry.has("Read")) {
     return;
   }
 
@@ -899,6 +1034,19 @@ function maybeApplyLspReadOverride(registry: ToolRegistry): void {
     },
     fn: lspDefinition.impl,
   });
+
+  // Navigation tools ride along with the LSP-enhanced Read
+  const navigationDefinition = TOOL_DEFINITIONS.LSP;
+  if (navigationDefinition && !registry.has("LSP")) {
+    registry.set("LSP", {
+      schema: {
+        name: "LSP",
+        description: navigationDefinition.description,
+        input_schema: navigationDefinition.schema,
+      },
+      fn: navigationDefinition.impl,
+    });
+  }
 }
 
 async function buildSpecificToolRegistry(
@@ -1310,6 +1458,56 @@ function flattenToolResponse(result: unknown): ToolReturnContent {
   return JSON.stringify(result);
 }
 
+type ExecuteToolOptions = {
+  signal?: AbortSignal;
+  toolCallId?: string;
+  onOutput?: (chunk: string, stream: "stdout" | "stderr") => void;
+  toolContextId?: string;
+  parentScope?: { agentId: string; conversationId: string };
+};
+
+/**
+ * Callback notified after every tool execution (used to record cassettes)
+ */
+export type ToolExecutionObserver = (execution: {
+  name: string;
+  args: ToolArgs;
+  toolCallId?: string;
+  result: ToolExecutionResult;
+}) => void;
+
+let toolExecutionObserver: ToolExecutionObserver | null = null;
+
+/**
+ * Set (or clear with null) the observer notified after each tool execution
+ */
+export function setToolExecutionObserver(
+  observer: ToolExecutionObserver | null,
+): void {
+  toolExecutionObserver = observer;
+}
+
+/**
+ * Wraps the call of a tool's implementation, after permission checks and
+ * PreToolUse hooks (used to record and replay cassettes). `run` executes the
+ * tool; an interceptor may return a substitute result instead of calling it.
+ */
+export type ToolImplementationInterceptor = (
+  call: { name: string; args: ToolArgs; toolCallId?: string },
+  run: () => Promise<unknown>,
+) => Promise<unknown>;
+
+let toolImplementationInterceptor: ToolImplementationInterceptor | null = null;
+
+/**
+ * Set (or clear with null) the interceptor around tool implementations
+ */
+export function setToolImplementationInterceptor(
+  interceptor: ToolImplementationInterceptor | null,
+): void {
+  toolImplementationInterceptor = interceptor;
+}
+
 /**
  * Executes a tool by name with the provided arguments.
  *
@@ -1321,13 +1519,88 @@ function flattenToolResponse(result: unknown): ToolReturnContent {
 export async function executeTool(
   name: string,
   args: ToolArgs,
-  options?: {
-    signal?: AbortSignal;
-    toolCallId?: string;
-    onOutput?: (chunk: string, stream: "stdout" | "stderr") => void;
-    toolContextId?: string;
-    parentScope?: { agentId: string; conversationId: string };
-  },
+  options?: ExecuteToolOptions,
+): Promise<ToolExecutionResult> {
+  const result = await runTool(name, args, options);
+  recordToolUseEvent(name, args, result.status);
+  toolExecutionObserver?.({
+    name,
+    args,
+    toolCallId: options?.toolCallId,
+    result,
+  });
+  return result;
+}
+
+const PERMISSION_DECISION_ORDER = ["allow", "ask", "deny"] as const;
+
+/**
+ * Re-check permissions for arguments a PreToolUse hook rewrote. Returns why
+ * the rewritten call may not run, or null when it is permitted at least as
+ * readily as the original call.
+ */
+async function checkRewrittenToolInput(
+  toolName: string,
+  originalArgs: ToolArgs,
+  rewrittenArgs: ToolArgs,
+  workingDirectory: string,
+  permissionModeState?: PermissionModeState,
+): Promise<string | null> {
+  const { checkPermission } = await import("../permissions/checker");
+  const { loadPermissions } = await import("../permissions/loader");
+
+  const permissions = await loadPermissions(workingDirectory);
+  const original = checkPermission(
+    toolName,
+    originalArgs,
+    permissions,
+    workingDirectory,
+    permissionModeState,
+  );
+  const rewritten = checkPermission(
+    toolName,
+    rewrittenArgs,
+    permissions,
+    workingDirectory,
+    permissionModeState,
+  );
+  if (rewritten.decision === "deny") {
+    return `Tool input rewritten by hook was denied: ${rewritten.reason ?? "Matched deny rule"}`;
+  }
+  if (
+    PERMISSION_DECISION_ORDER.indexOf(rewritten.decision) >
+    PERMISSION_DECISION_ORDER.indexOf(original.decision)
+  ) {
+    return "Tool input rewritten by hook needs approval the original call did not.";
+  }
+  return null;
+}
+
+/**
+ * Error for a call the context's allowed-tools entries do not permit, or
+ * null when they do (or the context is unrestricted).
+ */
+async function checkToolCallAllowList(
+  name: string,
+  args: ToolArgs,
+  context: ToolExecutionContextSnapshot | undefined,
+): Promise<string | null> {
+  if (!context?.allowedTools) return null;
+  const permitted = await isToolCallInAllowList(
+    name,
+    args,
+    context.allowedTools,
+    context.workingDirectory,
+  );
+  return permitted
+    ? null
+    : `Error: Tool call not permitted by allowed-tools (${context.allowedTools.join(", ")}).`;
+}
+
+async function runTool(
+  name: string,
+  args: ToolArgs,
+  options?: ExecuteToolOptions,
 ): Promise<ToolExecutionResult> {
   const context = options?.toolContextId
     ? getExecutionContextById(options.toolContextId)
@@ -1345,13 +1618,18 @@ export async function executeTool(
     context?.externalExecutor ?? getExternalToolExecutor();
   const workingDirectory = context?.workingDirectory;
 
-  // Check if this is an external tool (SDK-executed)
-  if (activeExternalTools.has(name)) {
+  // Check if this is an external tool (SDK or local MCP executed)
+  const externalTool = activeExternalTools.get(name);
+  if (externalTool) {
+    const rejection = await checkToolCallAllowList(name, args, context);
+    if (rejection) {
+      return { toolReturn: rejection, status: "error" };
+    }
     return executeExternalTool(
       options?.toolCallId ?? `ext-${Date.now()}`,
       name,
       args as Record<string, unknown>,
-      activeExternalExecutor,
+      externalTool.executor ?? activeExternalExecutor,
     );
   }
 
@@ -1371,6 +1649,11 @@ export async function executeTool(
     };
   }
 
+  const allowListRejection = await checkToolCallAllowList(name, args, context);
+  if (allowListRejection) {
+    return { toolReturn: allowListRejection, status: "error" };
+  }
+
   const startTime = Date.now();
 
   // Run PreToolUse hooks - can block tool execution
@@ -1380,6 +1663,13 @@ export async function executeTool(
     options?.toolCallId,
     workingDirectory,
   );
+  if (preHookResult.stopped) {
+    const reason = preHookResult.stopReason || "Stopped by hook";
+    return {
+      toolReturn: `Error: Tool execution stopped by hook. ${reason}. Do not continue; end your turn.`,
+      status: "error",
+    };
+  }
   if (preHookResult.blocked) {
     const feedback = preHookResult.feedback.join("\n") || "Blocked by hook";
     return {
@@ -1387,10 +1677,69 @@ export async function executeTool(
       status: "error",
     };
   }
+  // Permissions are resolved before PreToolUse runs, so a hook can only
+  // deny here. "ask" cannot reach the dialog any more: fail closed.
+  if (preHookResult.permissionDecision === "ask") {
+    return {
+      toolReturn:
+        'Error: Tool execution blocked by hook. PreToolUse hooks cannot ask for approval; use a PermissionRequest hook to return "ask".',
+      status: "error",
+    };
+  }
+  if (preHookResult.permissionDecision === "allow") {
+    debugLog(
+      "hooks",
+      'PreToolUse permissionDecision "allow" ignored; use a PermissionRequest hook to auto-approve',
+    );
+  }
+
+  // Hooks may rewrite the tool arguments (updatedInput); post hooks see the
+  // arguments the tool actually ran with. The rewritten call must be
+  // permitted at least as readily as the call that was approved.
+  const hookArgs = (preHookResult.updatedInput as ToolArgs | undefined) ?? args;
+  if (preHookResult.updatedInput) {
+    const rejection = await checkRewrittenToolInput(
+      name,
+      args,
+      hookArgs,
+      workingDirectory ?? process.env.USER_CWD ?? process.cwd(),
+      context?.permissionModeState,
+    );
+    if (rejection) {
+      return {
+        toolReturn: `Error: Tool execution blocked. ${rejection}`,
+        status: "error",
+      };
+    }
+    const rewrittenAllowListRejection = await checkToolCallAllowList(
+      name,
+      hookArgs,
+      context,
+    );
+    if (rewrittenAllowListRejection) {
+      return { toolReturn: rewrittenAllowListRejection, status: "error" };
+    }
+  }
+  const preHookContext = preHookResult.additionalContext ?? [];
+
+  // Keep the pre-image of files the tool changes for /rewind
+  checkpointManager.captureFileMutation(
+    internalName,
+    hookArgs as Record<string, unknown>,
+    workingDirectory ?? process.env.USER_CWD ?? process.cwd(),
+  );
+
+  // Capture LSP diagnostics of the files an edit touches, so errors the
+  // edit introduces can be reported with its result
+  const editDiagnosticsBaseline = await captureEditDiagnosticsBaseline(
+    internalName,
+    hookArgs as Record<string, unknown>,
+    workingDirectory ?? process.env.USER_CWD ?? process.cwd(),
+  );
 
   try {
     // Inject options for tools that support them without altering schemas
-    let enhancedArgs = args;
+    let enhancedArgs = hookArgs;
 
     if (STREAMING_SHELL_TOOLS.has(internalName)) {
       if (options?.signal) {
@@ -1417,6 +1766,11 @@ export async function executeTool(
       }
     }
 
+    // Inject abort signal for WebFetch so Esc cancels the request
+    if (internalName === "WebFetch" && options?.signal) {
+      enhancedArgs = { ...enhancedArgs, signal: options.signal };
+    }
+
     // Inject toolCallId for Skill tool (used for skill content registry)
     if (internalName === "Skill" && options?.toolCallId) {
       enhancedArgs = { ...enhancedArgs, toolCallId: options.toolCallId };
@@ -1437,9 +1791,20 @@ export async function executeTool(
       };
     }
 
-    const result = await withExecutionWorkingDirectory(workingDirectory, () =>
-      tool.fn(enhancedArgs),
-    );
+    const runImplementation = () =>
+      withExecutionWorkingDirectory(workingDirectory, () =>
+        tool.fn(enhancedArgs),
+      );
+    const result = toolImplementationInterceptor
+      ? await toolImplementationInterceptor(
+          {
+            name: internalName,
+            args: hookArgs,
+            toolCallId: options?.toolCallId,
+          },
+          runImplementation,
+        )
+      : await runImplementation();
     const duration = Date.now() - startTime;
 
     // Refresh the file index in the background after every tool execution
@@ -1490,6 +1855,17 @@ export async function executeTool(
       }
     }
 
+    if (
+      editDiagnosticsBaseline &&
+      toolStatus === "success" &&
+      typeof flattenedResponse === "string"
+    ) {
+      const report = await reportIntroducedDiagnostics(editDiagnosticsBaseline);
+      if (report) {
+        flattenedResponse = `${flattenedResponse}\n\n${report}`;
+      }
+    }
+
     // Track tool usage (calculate size for multimodal content)
     const responseSize =
       typeof flattenedResponse === "string"
@@ -1510,7 +1886,7 @@ export async function executeTool(
     try {
       const postHookResult = await runPostToolUseHooks(
         internalName,
-        args as Record<string, unknown>,
+        hookArgs as Record<string, unknown>,
         {
           status: toolStatus,
           output: getDisplayableToolReturn(flattenedResponse),
@@ -1536,7 +1912,7 @@ export async function executeTool(
       try {
         const failureHookResult = await runPostToolUseFailureHooks(
           internalName,
-          args as Record<string, unknown>,
+          hookArgs as Record<string, unknown>,
           errorOutput,
           "tool_error", // error type for returned errors
           options?.toolCallId,
@@ -1555,8 +1931,12 @@ export async function executeTool(
       }
     }
 
-    // Combine feedback from both hook types and inject into tool return
-    const allFeedback = [...postToolUseFeedback, ...postToolUseFailureFeedback];
+    // Combine feedback from all hook types and inject into tool return
+    const allFeedback = [
+      ...preHookContext,
+      ...postToolUseFeedback,
+      ...postToolUseFailureFeedback,
+    ];
     if (allFeedback.length > 0) {
       const feedbackMessage = `\n\n[Hook feedback]:\n${allFeedback.join("\n")}`;
       let finalToolReturn: ToolReturnContent;
@@ -1620,7 +2000,7 @@ export async function executeTool(
     try {
       const postHookResult = await runPostToolUseHooks(
         internalName,
-        args as Record<string, unknown>,
+        hookArgs as Record<string, unknown>,
         { status: "error", output: errorMessage },
         options?.toolCallId,
         workingDirectory,
@@ -1638,7 +2018,7 @@ export async function executeTool(
     try {
       const failureHookResult = await runPostToolUseFailureHooks(
         internalName,
-        args as Record<string, unknown>,
+        hookArgs as Record<string, unknown>,
         errorMessage,
         errorType,
         options?.toolCallId,
@@ -1656,8 +2036,12 @@ export async function executeTool(
       );
     }
 
-    // Combine feedback from both hook types
-    const allFeedback = [...postToolUseFeedback, ...postToolUseFailureFeedback];
+    // Combine feedback from all hook types
+    const allFeedback = [
+      ...preHookContext,
+      ...postToolUseFeedback,
+      ...postToolUseFailureFeedback,
+    ];
     const finalErrorMessage =
       allFeedback.length > 0
         ? `${errorMessage}\n\n[Hook feedback]:\n${allFeedback.join("\n")}`
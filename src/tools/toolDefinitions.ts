@@ -14,6 +14,7 @@ import KillBashDescription from "./descriptions/KillBash.md";
 import ListDirCodexDescription from "./descriptions/ListDirCodex.md";
 import ListDirectoryGeminiDescription from "./descriptions/ListDirectoryGemini.md";
 import LSDescription from "./descriptions/LS.md";
+import LSPDescription from "./descriptions/LSP.md";
 import MemoryDescription from "./descriptions/Memory.md";
 import MemoryApplyPatchDescription from "./descriptions/MemoryApplyPatch.md";
 import MultiEditDescription from "./descriptions/MultiEdit.md";
@@ -34,6 +35,7 @@ import TaskStopDescription from "./descriptions/TaskStop.md";
 import TodoWriteDescription from "./descriptions/TodoWrite.md";
 import UpdatePlanDescription from "./descriptions/UpdatePlan.md";
 import ViewImageDescription from "./descriptions/ViewImage.md";
+import WebFetchDescription from "./descriptions/WebFetch.md";
 import WriteDescription from "./descriptions/Write.md";
 import WriteFileGeminiDescription from "./descriptions/WriteFileGemini.md";
 import WriteTodosGeminiDescription from "./descriptions/WriteTodosGemini.md";
@@ -53,6 +55,7 @@ import { kill_bash } from "./impl/KillBash";
 import { list_dir } from "./impl/ListDirCodex";
 import { list_directory } from "./impl/ListDirectoryGemini";
 import { ls } from "./impl/LS";
+import { lsp } from "./impl/LSP";
 import { memory } from "./impl/Memory";
 import { memory_apply_patch } from "./impl/MemoryApplyPatch";
 import { multi_edit } from "./impl/MultiEdit";
@@ -73,6 +76,7 @@ import { task_stop } from "./impl/TaskStop";
 import { todo_write } from "./impl/TodoWrite";
 import { update_plan } from "./impl/UpdatePlan";
 import { view_image } from "./impl/ViewImage";
+import { web_fetch } from "./impl/WebFetch";
 import { write } from "./impl/Write";
 import { write_file_gemini } from "./impl/WriteFileGemini";
 import { write_todos } from "./impl/WriteTodosGemini";
@@ -92,6 +96,7 @@ import KillBashSchema from "./schemas/KillBash.json";
 import ListDirCodexSchema from "./schemas/ListDirCodex.json";
 import ListDirectoryGeminiSchema from "./schemas/ListDirectoryGemini.json";
 import LSSchema from "./schemas/LS.json";
+import LSPSchema from "./schemas/LSP.json";
 import MemorySchema from "./schemas/Memory.json";
 import MemoryApplyPatchSchema from "./schemas/MemoryApplyPatch.json";
 import MultiEditSchema from "./schemas/MultiEdit.json";
@@ -112,6 +117,7 @@ import TaskStopSchema from "./schemas/TaskStop.json";
 import TodoWriteSchema from "./schemas/TodoWrite.json";
 import UpdatePlanSchema from "./schemas/UpdatePlan.json";
 import ViewImageSchema from "./schemas/ViewImage.json";
+import WebFetchSchema from "./schemas/WebFetch.json";
 import WriteSchema from "./schemas/Write.json";
 import WriteFileGeminiSchema from "./schemas/WriteFileGemini.json";
 import WriteTodosGeminiSchema from "./schemas/WriteTodosGemini.json";
@@ -215,12 +221,18 @@ const toolDefinitions = {
     description: ViewImageDescription.trim(),
     impl: view_image as unknown as ToolImplementation,
   },
-  // LSP-enhanced Read - used when LETTA_ENABLE_LSP is set
+  // LSP-enhanced Read - used when LSP is enabled
   ReadLSP: {
     schema: ReadLSPSchema,
     description: ReadLSPDescription.trim(),
     impl: read_lsp as unknown as ToolImplementation,
   },
+  // LSP navigation - registered alongside ReadLSP when LSP is enabled
+  LSP: {
+    schema: LSPSchema,
+    description: LSPDescription.trim(),
+    impl: lsp as unknown as ToolImplementation,
+  },
   Skill: {
     schema: SkillSchema,
     description: SkillDescription.trim(),
@@ -236,6 +248,11 @@ const toolDefinitions = {
     description: TodoWriteDescription.trim(),
     impl: todo_write as unknown as ToolImplementation,
   },
+  WebFetch: {
+    schema: WebFetchSchema,
+    description: WebFetchDescription.trim(),
+    impl: web_fetch as unknown as ToolImplementation,
+  },
   Write: {
     schema: WriteSchema,
     description: WriteDescription.trim(),
@@ -324,6 +324,8 @@ export interface ResultMessage extends MessageEnvelope {
   result: string | null;
   run_ids: string[];
   usage: UsageStatistics | null;
+  /** Session cost in USD including subagents; null when no usage could be priced */
+  total_cost_usd?: number | null;
   /**
    * Present when subtype is "error".
    * Uses StopReasonType from letta-client (e.g., 'error', 'max_steps', 'llm_api_error').
@@ -480,7 +482,15 @@ export interface QueueClearedEvent extends MessageEnvelope {
 /**
  * Why an item was dropped without processing.
  */
-export type QueueItemDroppedReason = "buffer_limit" | "stale_generation";
+export type QueueItemDroppedReason =
+  | "buffer_limit"
+  | "stale_generation"
+  /** Same clientMessageId already queued or recently processed. */
+  | "duplicate"
+  /** Removed on request (e.g. a v2 queue_remove). */
+  | "removed"
+  /** The item's source exceeded its enqueue rate limit. */
+  | "rate_limited";
 
 /**
  * Emitted when an item is dropped from the queue without being processed.
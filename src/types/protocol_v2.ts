@@ -9,7 +9,7 @@
 import type { MessageCreate } from "@letta-ai/letta-client/resources/agents/agents";
 import type { LettaStreamingResponse } from "@letta-ai/letta-client/resources/agents/messages";
 import type { StopReasonType } from "@letta-ai/letta-client/resources/runs/runs";
-import type { CronTask } from "../cron";
+import type { CatchUpPolicy, CronRunRecord, CronTask } from "../cron";
 
 /**
  * Runtime identity for all state and delta events.
@@ -29,12 +29,17 @@ export interface RuntimeEnvelope {
   idempotency_key: string;
 }
 
+/**
+ * Built-in permission mode, or the name of a custom mode declared in the
+ * device's settings (permissions.modes).
+ */
 export type DevicePermissionMode =
   | "default"
   | "acceptEdits"
   | "plan"
   | "memory"
-  | "bypassPermissions";
+  | "bypassPermissions"
+  | (string & {});
 
 export type ToolsetName =
   | "codex"
@@ -156,6 +161,8 @@ export interface DeviceStatus {
   is_online: boolean;
   is_processing: boolean;
   current_permission_mode: DevicePermissionMode;
+  /** Modes the device accepts in change_device_state (built-in and custom). */
+  available_permission_modes?: DevicePermissionMode[];
   current_working_directory: string | null;
   git_context: GitContext | null;
   letta_code_version: string | null;
@@ -204,6 +211,25 @@ export interface QueueMessage {
   enqueued_at: string;
 }
 
+export interface QueueSourceMetricsSnapshot {
+  /** Items of this source currently queued. */
+  pending: number;
+  /** Items dequeued since the queue was created. */
+  dequeued: number;
+  /** Items dropped since the queue was created, for any reason. */
+  dropped: number;
+  /** Mean enqueue-to-dequeue wait of the dequeued items. */
+  avg_wait_ms: number;
+  max_wait_ms: number;
+}
+
+export interface QueueMetricsSnapshot {
+  pending: number;
+  /** How long the oldest queued item has been waiting; 0 when empty. */
+  oldest_wait_ms: number;
+  by_source: Partial<Record<QueueMessageSource, QueueSourceMetricsSnapshot>>;
+}
+
 /**
  * Loop state is intentionally small and finite.
  * Message-level details are projected from runtime deltas.
@@ -234,6 +260,8 @@ export interface LoopStatusUpdateMessage extends RuntimeEnvelope {
 export interface QueueUpdateMessage extends RuntimeEnvelope {
   type: "update_queue";
   queue: QueueMessage[];
+  /** Queue depth and wait times for this runtime. */
+  metrics?: QueueMetricsSnapshot;
 }
 
 /**
@@ -652,6 +680,8 @@ export interface CronAddCommand {
   prompt: string;
   /** Optional ISO timestamp for one-shot tasks. */
   scheduled_for?: string | null;
+  /** Policy for occurrences missed while no scheduler was running. */
+  catch_up?: CatchUpPolicy;
 }
 
 export interface CronGetCommand {
@@ -659,6 +689,17 @@ export interface CronGetCommand {
   /** Echoed back in the response for request correlation. */
   request_id: string;
   task_id: string;
+  /** Number of upcoming fire times to include in the response (default 5). */
+  next_count?: number;
+}
+
+export interface CronHistoryCommand {
+  type: "cron_history";
+  /** Echoed back in the response for request correlation. */
+  request_id: string;
+  task_id: string;
+  /** Maximum number of runs to return, most recent first (default 50). */
+  limit?: number;
 }
 
 export interface CronDeleteCommand {
@@ -745,6 +786,17 @@ export interface CronGetResponseMessage {
   success: boolean;
   found: boolean;
   task: CronTask | null;
+  /** Upcoming fire times (ISO UTC), empty for inactive tasks. */
+  next_fire_times?: string[];
+  error?: string;
+}
+
+export interface CronHistoryResponseMessage {
+  type: "cron_history_response";
+  request_id: string;
+  success: boolean;
+  task_id: string;
+  runs: CronRunRecord[];
   error?: string;
 }
 
@@ -867,6 +919,67 @@ export interface CheckoutBranchResponse {
   error?: string;
 }
 
+// ─────────────────────────────────────────────────
+//  Queue management commands
+// ─────────────────────────────────────────────────
+
+export interface QueueListCommand {
+  type: "queue_list";
+  /** Echoed back in the response for request correlation. */
+  request_id: string;
+  runtime: RuntimeScope;
+}
+
+export interface QueueRemoveCommand {
+  type: "queue_remove";
+  /** Echoed back in the response for request correlation. */
+  request_id: string;
+  runtime: RuntimeScope;
+  /** Pending queue item ids (QueueMessage.id) to remove. */
+  item_ids: string[];
+}
+
+export interface QueueReorderCommand {
+  type: "queue_reorder";
+  /** Echoed back in the response for request correlation. */
+  request_id: string;
+  runtime: RuntimeScope;
+  /**
+   * Pending queue item ids in the order they should run. Listed items move
+   * to the front; unlisted items keep their relative order behind them.
+   */
+  item_ids: string[];
+}
+
+export interface QueueListResponseMessage {
+  type: "queue_list_response";
+  request_id: string;
+  runtime: RuntimeScope;
+  success: boolean;
+  queue: QueueMessage[];
+  error?: string;
+}
+
+export interface QueueRemoveResponseMessage {
+  type: "queue_remove_response";
+  request_id: string;
+  runtime: RuntimeScope;
+  success: boolean;
+  /** Ids that were removed (unknown or already dequeued ids are skipped). */
+  removed_ids: string[];
+  queue: QueueMessage[];
+  error?: string;
+}
+
+export interface QueueReorderResponseMessage {
+  type: "queue_reorder_response";
+  request_id: string;
+  runtime: RuntimeScope;
+  success: boolean;
+  queue: QueueMessage[];
+  error?: string;
+}
+
 export type WsProtocolCommand =
   | InputCommand
   | ChangeDeviceStateCommand
@@ -890,6 +1003,7 @@ export type WsProtocolCommand =
   | CronListCommand
   | CronAddCommand
   | CronGetCommand
+  | CronHistoryCommand
   | CronDeleteCommand
   | CronDeleteAllCommand
   | SkillEnableCommand
@@ -899,7 +1013,10 @@ export type WsProtocolCommand =
   | SetReflectionSettingsCommand
   | ExecuteCommandCommand
   | SearchBranchesCommand
-  | CheckoutBranchCommand;
+  | CheckoutBranchCommand
+  | QueueListCommand
+  | QueueRemoveCommand
+  | QueueReorderCommand;
 
 export type WsProtocolMessage =
   | DeviceStatusUpdateMessage
@@ -0,0 +1,7 @@
+import { join } from "node:path";
+
+/** Letta home directory: $LETTA_HOME, or ~/.letta. */
+export function getLettaDir(): string {
+  if (process.env.LETTA_HOME) return process.env.LETTA_HOME;
+  return join(process.env.HOME ?? process.env.USERPROFILE ?? "~", ".letta");
+}
@@ -41,18 +41,34 @@ import {
   addTask as addCronTask,
   deleteAllTasks as deleteAllCronTasks,
   deleteTask as deleteCronTask,
+  getCronRunHistory,
   getTask as getCronTask,
+  getTaskNextFireTimes as getCronTaskNextFireTimes,
+  isValidCron,
+  isValidTimezone,
   listTasks as listCronTasks,
 } from "../../cron";
 import {
   startScheduler as startCronScheduler,
   stopScheduler as stopCronScheduler,
 } from "../../cron/scheduler";
+import { registerCustomPermissionModes } from "../../permissions/loader";
+import { permissionMode as globalPermissionMode } from "../../permissions/mode";
 import {
   buildByokProviderAliases,
   listProviders,
 } from "../../providers/byok-providers";
-import { type DequeuedBatch, QueueRuntime } from "../../queue/queueRuntime";
+import {
+  getQueueJournalDir,
+  listQueueJournalScopes,
+  QueueJournal,
+} from "../../queue/queueJournal";
+import {
+  type DequeuedBatch,
+  mergeQueueSettings,
+  QueueRuntime,
+  type QueueSettings,
+} from "../../queue/queueRuntime";
 import {
   createSharedReminderState,
   resetSharedReminderState,
@@ -76,10 +92,14 @@ import type {
   CronDeleteAllCommand,
   CronDeleteCommand,
   CronGetCommand,
+  CronHistoryCommand,
   CronListCommand,
   GetReflectionSettingsCommand,
   ListModelsResponseMessage,
   ListModelsResponseModelEntry,
+  QueueListCommand,
+  QueueRemoveCommand,
+  QueueReorderCommand,
   ReflectionSettingsScope,
   SetReflectionSettingsCommand,
   SkillDisableCommand,
@@ -105,9 +125,15 @@ import {
 import { handleExecuteCommand } from "./commands";
 import {
   INITIAL_RETRY_DELAY_MS,
+  LISTENER_QUEUE_PRIORITIES,
   MAX_RETRY_DELAY_MS,
   MAX_RETRY_DURATION_MS,
 } from "./constants";
+import {
+  createListenerCronDispatcher,
+  recordCronBatchOutcome,
+  recordDroppedCronItems,
+} from "./cron";
 import {
   getConversationWorkingDirectory,
   loadPersistedCwdMap,
@@ -135,6 +161,7 @@ import {
   isCronDeleteAllCommand,
   isCronDeleteCommand,
   isCronGetCommand,
+  isCronHistoryCommand,
   isCronListCommand,
   isEditFileCommand,
   isEnableMemfsCommand,
@@ -145,6 +172,9 @@ import {
   isListModelsCommand,
   isMemoryFileAtRefCommand,
   isMemoryHistoryCommand,
+  isQueueListCommand,
+  isQueueRemoveCommand,
+  isQueueReorderCommand,
   isReadFileCommand,
   isSearchBranchesCommand,
   isSearchFilesCommand,
@@ -195,6 +225,7 @@ import {
   emitListenerStatus,
   evictConversationRuntimeIfIdle,
   getActiveRuntime,
+  getConversationRuntime,
   getListenerStatus,
   getOrCreateConversationRuntime,
   getPendingControlRequestCount,
@@ -350,6 +381,9 @@ function handleModeChange(
   },
 ): void {
   try {
+    if (!globalPermissionMode.isKnownMode(msg.mode)) {
+      throw new Error(`Unknown permission mode: ${msg.mode}`);
+    }
     const agentId = scope?.agent_id ?? null;
     const conversationId = scope?.conversation_id ?? "default";
     const current = getOrCreateConversationPermissionModeStateRef(
@@ -407,6 +441,7 @@ type CronCommand =
   | CronListCommand
   | CronAddCommand
   | CronGetCommand
+  | CronHistoryCommand
   | CronDeleteCommand
   | CronDeleteAllCommand;
 
@@ -785,6 +820,12 @@ async function handleCronCommand(
       if (scheduledFor && Number.isNaN(scheduledFor.getTime())) {
         throw new Error("Invalid scheduled_for timestamp");
       }
+      if (!isValidCron(parsed.cron)) {
+        throw new Error(`Invalid cron expression "${parsed.cron}"`);
+      }
+      if (parsed.timezone !== undefined && !isValidTimezone(parsed.timezone)) {
+        throw new Error(`Invalid timezone "${parsed.timezone}"`);
+      }
       const result = addCronTask({
         agent_id: parsed.agent_id,
         conversation_id: parsed.conversation_id,
@@ -795,6 +836,7 @@ async function handleCronCommand(
         recurring: parsed.recurring,
         prompt: parsed.prompt,
         scheduled_for: scheduledFor,
+        catch_up: parsed.catch_up,
       });
       safeSocketSend(
         socket,
@@ -839,6 +881,9 @@ async function handleCronCommand(
           success: true,
           found: task !== null,
           task,
+          next_fire_times: task
+            ? getCronTaskNextFireTimes(task, parsed.next_count)
+            : [],
         },
         "listener_cron_send_failed",
         "listener_cron_command",
@@ -861,6 +906,40 @@ async function handleCronCommand(
     return true;
   }
 
+  if (parsed.type === "cron_history") {
+    try {
+      const runs = getCronRunHistory(parsed.task_id, parsed.limit);
+      safeSocketSend(
+        socket,
+        {
+          type: "cron_history_response",
+          request_id: parsed.request_id,
+          success: true,
+          task_id: parsed.task_id,
+          runs,
+        },
+        "listener_cron_send_failed",
+        "listener_cron_command",
+      );
+    } catch (err) {
+      safeSocketSend(
+        socket,
+        {
+          type: "cron_history_response",
+          request_id: parsed.request_id,
+          success: false,
+          task_id: parsed.task_id,
+          runs: [],
+          error:
+            err instanceof Error ? err.message : "Failed to read cron history",
+        },
+        "listener_cron_send_failed",
+        "listener_cron_command",
+      );
+    }
+    return true;
+  }
+
   if (parsed.type === "cron_delete") {
     try {
       const existingTask = getCronTask(parsed.task_id);
@@ -1352,6 +1431,142 @@ async function handleReflectionSettingsCommand(
   return true;
 }
 
+type QueueManagementCommand =
+  | QueueListCommand
+  | QueueRemoveCommand
+  | QueueReorderCommand;
+
+function handleQueueCommand(
+  parsed: QueueManagementCommand,
+  socket: WebSocket,
+  listener: ListenerRuntime,
+): void {
+  const scopedRuntime = getOrCreateScopedRuntime(
+    listener,
+    parsed.runtime.agent_id,
+    parsed.runtime.conversation_id,
+  );
+  const queueRuntime = scopedRuntime.queueRuntime;
+  const send = (payload: unknown) =>
+    safeSocketSend(
+      socket,
+      payload,
+      "listener_queue_command_send_failed",
+      "listener_queue_command",
+    );
+  const snapshot = () => buildQueueSnapshot(scopedRuntime, parsed.runtime);
+
+  if (parsed.type === "queue_list") {
+    send({
+      type: "queue_list_response",
+      request_id: parsed.request_id,
+      runtime: parsed.runtime,
+      success: true,
+      queue: snapshot(),
+    });
+  } else if (parsed.type === "queue_remove") {
+    const removed = queueRuntime.remove(parsed.item_ids);
+    send({
+      type: "queue_remove_response",
+      request_id: parsed.request_id,
+      runtime: parsed.runtime,
+      success: true,
+      removed_ids: removed.map((item) => item.id),
+      queue: snapshot(),
+    });
+  } else {
+    const reordered = queueRuntime.reorder(parsed.item_ids);
+    send({
+      type: "queue_reorder_response",
+      request_id: parsed.request_id,
+      runtime: parsed.runtime,
+      success: reordered,
+      queue: snapshot(),
+      ...(reordered
+        ? {}
+        : {
+            error:
+              "Unknown or repeated queue item id (only pending items can be reordered)",
+          }),
+    });
+  }
+  evictConversationRuntimeIfIdle(scopedRuntime);
+}
+
+/**
+ * Load the runtime's journaled queue items (left over from a previous
+ * process or connection) and their message templates. Returns the number
+ * of items restored.
+ */
+function restoreJournaledQueueItems(runtime: ConversationRuntime): number {
+  const restored = runtime.queueRuntime.restore();
+  for (const item of restored) {
+    const template = runtime.queueRuntime.getPayload(item.id);
+    if (item.kind === "message" && template) {
+      runtime.queuedMessagesByItemId.set(item.id, template as IncomingMessage);
+    }
+  }
+  if (restored.length > 0) {
+    runtime.pendingTurns = runtime.queueRuntime.length;
+    scheduleQueueEmit(runtime.listener, {
+      agent_id: runtime.agentId,
+      conversation_id: runtime.conversationId,
+    });
+  }
+  return restored.length;
+}
+
+/**
+ * Restore every journaled queue and start draining it. Called on connect.
+ */
+function restorePersistedQueues(
+  listener: ListenerRuntime,
+  socket: WebSocket,
+  opts: StartListenerOptions,
+  processQueuedTurn: ProcessQueuedTurn,
+): void {
+  if (!listener.queueJournalDir) {
+    return;
+  }
+  for (const scope of listQueueJournalScopes(listener.queueJournalDir)) {
+    const existing = getConversationRuntime(
+      listener,
+      scope.agent_id,
+      scope.conversation_id,
+    );
+    // New runtimes restore their journal when the queue is created
+    if (existing?.queueRuntime) {
+      restoreJournaledQueueItems(existing);
+    }
+    const scopedRuntime = existing?.queueRuntime
+      ? existing
+      : getOrCreateScopedRuntime(
+          listener,
+          scope.agent_id,
+          scope.conversation_id,
+        );
+    if (scopedRuntime.queueRuntime.length > 0) {
+      scheduleQueuePump(scopedRuntime, socket, opts, processQueuedTurn);
+    } else {
+      evictConversationRuntimeIfIdle(scopedRuntime);
+    }
+  }
+}
+
+/** Default queue policy with the user's `queue` settings layered on top. */
+function getListenerQueuePolicy() {
+  let overrides: QueueSettings | undefined;
+  try {
+    overrides = settingsManager.getSettings().queue;
+  } catch {
+    // Settings not initialized
+  }
+  return mergeQueueSettings(
+    { priorities: LISTENER_QUEUE_PRIORITIES },
+    overrides,
+  );
+}
+
 export function ensureConversationQueueRuntime(
   listener: ListenerRuntime,
   runtime: ConversationRuntime,
@@ -1359,7 +1574,19 @@ export function ensureConversationQueueRuntime(
   if (runtime.queueRuntime) {
     return runtime;
   }
+  const journal =
+    listener.queueJournalDir && runtime.agentId
+      ? QueueJournal.forScope(
+          {
+            agent_id: runtime.agentId,
+            conversation_id: runtime.conversationId,
+          },
+          listener.queueJournalDir,
+        )
+      : undefined;
   runtime.queueRuntime = new QueueRuntime({
+    journal,
+    ...getListenerQueuePolicy(),
     callbacks: {
       onEnqueued: (item, queueLen) => {
         runtime.pendingTurns = queueLen;
@@ -1375,19 +1602,33 @@ export function ensureConversationQueueRuntime(
           conversation_id: runtime.conversationId,
         });
       },
-      onCleared: (_reason, _clearedCount, items) => {
+      onCleared: (reason, _clearedCount, items) => {
         runtime.pendingTurns = 0;
+        // A journaled queue cleared for shutdown is restored on restart
+        if (!(journal && reason === "shutdown")) {
+          recordDroppedCronItems(items, `queue cleared: ${reason}`);
+        }
         scheduleQueueEmit(listener, getQueueItemsScope(items));
         evictConversationRuntimeIfIdle(runtime);
       },
-      onDropped: (item, _reason, queueLen) => {
+      onDropped: (item, reason, queueLen) => {
         runtime.pendingTurns = queueLen;
+        recordDroppedCronItems([item], reason);
         runtime.queuedMessagesByItemId.delete(item.id);
         scheduleQueueEmit(listener, getQueueItemScope(item));
         evictConversationRuntimeIfIdle(runtime);
       },
+      onReordered: () => {
+        scheduleQueueEmit(listener, {
+          agent_id: runtime.agentId,
+          conversation_id: runtime.conversationId,
+        });
+      },
     },
   });
+  if (journal) {
+    restoreJournaledQueueItems(runtime);
+  }
   return runtime;
 }
 
@@ -2020,9 +2261,11 @@ export async function startListenerClient(
   runtime.onWsEvent = opts.onWsEvent;
   runtime.connectionId = opts.connectionId;
   runtime.connectionName = opts.connectionName;
+  runtime.queueJournalDir = opts.persistQueue ? getQueueJournalDir() : null;
   setActiveRuntime(runtime);
   telemetry.setSurface("websocket");
 
+  await registerCustomPermissionModes(runtime.bootWorkingDirectory);
   await connectWithRetry(runtime, opts);
 }
 
@@ -2107,14 +2350,23 @@ async function connectWithRetry(
       queuedTurn.agentId,
       queuedTurn.conversationId,
     );
-    await handleIncomingMessage(
-      queuedTurn,
-      socket,
-      scopedRuntime,
-      opts.onStatusChange,
-      opts.connectionId,
-      dequeuedBatch.batchId,
-    );
+    try {
+      await handleIncomingMessage(
+        queuedTurn,
+        socket,
+        scopedRuntime,
+        opts.onStatusChange,
+        opts.connectionId,
+        dequeuedBatch.batchId,
+      );
+    } finally {
+      recordCronBatchOutcome(dequeuedBatch, {
+        stopReason: scopedRuntime.lastStopReason,
+        runId: scopedRuntime.lastRunId,
+        agentId: queuedTurn.agentId,
+        conversationId: queuedTurn.conversationId,
+      });
+    }
   };
 
   socket.on("open", () => {
@@ -2241,6 +2493,10 @@ async function connectWithRetry(
       // (see consumeQueuedTurn notification-aware path in queue.ts).
       scheduleQueuePump(targetRuntime, socket, opts, processQueuedTurn);
     });
+
+    // Pick up queued turns journaled before a restart or disconnect
+    restorePersistedQueues(runtime, socket, opts, processQueuedTurn);
+
     runtime.heartbeatInterval = setInterval(() => {
       if (socket.readyState === WebSocket.OPEN) {
         safeSocketSend(
@@ -2253,7 +2509,9 @@ async function connectWithRetry(
     }, 30000);
 
     // Start cron scheduler if tasks exist
-    startCronScheduler(socket, opts, processQueuedTurn);
+    startCronScheduler(
+      createListenerCronDispatcher(socket, opts, processQueuedTurn),
+    );
   });
 
   socket.on("message", async (data: WebSocket.RawData) => {
@@ -2380,16 +2638,20 @@ async function connectWithRetry(
               "content" in payload,
           );
           if (firstUserPayload) {
-            const enqueuedItem = scopedRuntime.queueRuntime.enqueue({
-              kind: "message",
-              source: "user",
-              content: firstUserPayload.content,
-              clientMessageId:
-                firstUserPayload.client_message_id ??
-                `cm-submit-${crypto.randomUUID()}`,
-              agentId: parsed.runtime.agent_id,
-              conversationId: parsed.runtime.conversation_id || "default",
-            } as Parameters<typeof scopedRuntime.queueRuntime.enqueue>[0]);
+            const enqueuedItem = scopedRuntime.queueRuntime.enqueue(
+              {
+                kind: "message",
+                source: "user",
+                content: firstUserPayload.content,
+                clientMessageId:
+                  firstUserPayload.client_message_id ??
+                  `cm-submit-${crypto.randomUUID()}`,
+                agentId: parsed.runtime.agent_id,
+                conversationId: parsed.runtime.conversation_id || "default",
+              } as Parameters<typeof scopedRuntime.queueRuntime.enqueue>[0],
+              // Journaled with the item so the turn can be rebuilt on restore
+              incoming,
+            );
             if (enqueuedItem) {
               scopedRuntime.queuedMessagesByItemId.set(
                 enqueuedItem.id,
@@ -3175,6 +3437,7 @@ async function connectWithRetry(
         isCronListCommand(parsed) ||
         isCronAddCommand(parsed) ||
         isCronGetCommand(parsed) ||
+        isCronHistoryCommand(parsed) ||
         isCronDeleteCommand(parsed) ||
         isCronDeleteAllCommand(parsed)
       ) {
@@ -3298,6 +3561,16 @@ async function connectWithRetry(
         return;
       }
 
+      // ── Queue management commands ──────────────────────────────────────
+      if (
+        isQueueListCommand(parsed) ||
+        isQueueRemoveCommand(parsed) ||
+        isQueueReorderCommand(parsed)
+      ) {
+        handleQueueCommand(parsed, socket, runtime);
+        return;
+      }
+
       if (isCheckoutBranchCommand(parsed)) {
         runDetachedListenerTask("checkout_branch", async () => {
           try {
@@ -6,6 +6,7 @@ import { REMEMBER_PROMPT } from "../../agent/promptAssets";
 import {
   buildDoctorMessage,
   buildInitMessage,
+  gatherDoctorMemoryLint,
   gatherInitGitContext,
 } from "../../cli/helpers/initCommand";
 import { SYSTEM_REMINDER_CLOSE, SYSTEM_REMINDER_OPEN } from "../../constants";
@@ -236,7 +237,15 @@ async function handleDoctorCommand(
     ? getMemoryFilesystemRoot(agentId)
     : undefined;
 
-  const doctorMessage = buildDoctorMessage({ gitContext, memoryDir });
+  const memoryLint = memoryDir
+    ? await gatherDoctorMemoryLint(memoryDir)
+    : undefined;
+
+  const doctorMessage = buildDoctorMessage({
+    gitContext,
+    memoryDir,
+    memoryLint,
+  });
 
   // Feed the doctor prompt as a user message through the normal turn pipeline.
   // This triggers a full agent turn whose deltas stream back to the web UI.
@@ -1,3 +1,5 @@
+import type { QueuePriorities } from "../../queue/queueRuntime";
+
 export const MAX_RETRY_DURATION_MS = 5 * 60 * 1000; // 5 minutes
 export const INITIAL_RETRY_DELAY_MS = 1000; // 1 second
 export const MAX_RETRY_DELAY_MS = 30000; // 30 seconds
@@ -12,3 +14,12 @@ export const MAX_POST_STOP_APPROVAL_RECOVERY = 2;
 
 export const NO_AWAITING_APPROVAL_DETAIL_FRAGMENT =
   "no tool call is currently awaiting approval";
+
+/**
+ * Background work yields to user messages. Rate limits are opt-in through
+ * the `queue.rateLimits` setting, since dropping a subagent's completion
+ * notice would leave the agent waiting on it.
+ */
+export const LISTENER_QUEUE_PRIORITIES: QueuePriorities = {
+  sources: { task_notification: -1, cron: -1, subagent: -1 },
+};
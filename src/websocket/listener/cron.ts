@@ -0,0 +1,186 @@
+/**
+ * Cron integration for listen mode.
+ *
+ * The listener hosts the cron scheduler while connected. Fired prompts are
+ * enqueued into the target conversation's queue runtime as `cron_prompt`
+ * items, and their outcome is written back to the cron run history once
+ * the queued turn finishes.
+ */
+
+import type WebSocket from "ws";
+import {
+  recordCronRunAwaitingApproval,
+  recordCronRunCompleted,
+} from "../../cron/runHistory";
+import type { CronDispatcher } from "../../cron/scheduler";
+import type {
+  CronPromptQueueItem,
+  DequeuedBatch,
+  QueueItem,
+} from "../../queue/queueRuntime";
+import type { QueueItemSource } from "../../types/protocol";
+import { ensureConversationQueueRuntime } from "./client";
+import { scheduleQueuePump } from "./queue";
+import { getActiveRuntime, getOrCreateConversationRuntime } from "./runtime";
+import type { IncomingMessage, StartListenerOptions } from "./types";
+
+type ProcessQueuedTurn = (
+  queuedTurn: IncomingMessage,
+  dequeuedBatch: DequeuedBatch,
+) => Promise<void>;
+
+/**
+ * Dispatcher that enqueues fired prompts into the listener's queue runtime
+ * and kicks the queue pump.
+ */
+export function createListenerCronDispatcher(
+  socket: WebSocket,
+  opts: StartListenerOptions,
+  processQueuedTurn: ProcessQueuedTurn,
+): CronDispatcher {
+  return (task, prompt, runRecord) => {
+    const listener = getActiveRuntime();
+    if (!listener) {
+      return { delivered: false, error: "Listener is not running" };
+    }
+
+    const rawRuntime = getOrCreateConversationRuntime(
+      listener,
+      task.agent_id,
+      task.conversation_id === "default" ? undefined : task.conversation_id,
+    );
+
+    if (!rawRuntime) {
+      return {
+        delivered: false,
+        error: `No runtime for conversation ${task.conversation_id}`,
+      };
+    }
+
+    // Ensure the queue runtime is initialized (getOrCreateConversationRuntime
+    // leaves queueRuntime as null — the listener's scoped helper initializes it).
+    const conversationRuntime = ensureConversationQueueRuntime(
+      listener,
+      rawRuntime,
+    );
+
+    // A rejected enqueue is reported back to the scheduler, which records
+    // the run as failed; recordDroppedCronItems only notes the reason.
+    runsBeingEnqueued.set(runRecord.id, null);
+    const queued = conversationRuntime.queueRuntime.enqueue({
+      kind: "cron_prompt",
+      source: "cron" as QueueItemSource,
+      text: prompt,
+      cronTaskId: task.id,
+      cronRunId: runRecord.id,
+      agentId: task.agent_id,
+      conversationId: task.conversation_id,
+    } as Omit<CronPromptQueueItem, "id" | "enqueuedAt">);
+    const dropReason = runsBeingEnqueued.get(runRecord.id);
+    runsBeingEnqueued.delete(runRecord.id);
+    if (!queued) {
+      return {
+        delivered: false,
+        error: `Dropped from the queue (${dropReason ?? "rejected"})`,
+      };
+    }
+
+    scheduleQueuePump(conversationRuntime, socket, opts, processQueuedTurn);
+    return { delivered: true };
+  };
+}
+
+/**
+ * Drop reasons for runs whose prompt is being enqueued right now, by run
+ * record ID (null until a drop is seen).
+ */
+const runsBeingEnqueued = new Map<string, string | null>();
+
+/**
+ * Record the cron runs carried by queue items that were dropped or cleared
+ * before their turn ran as failed. Called from the queue runtime's
+ * onDropped/onCleared callbacks.
+ */
+export function recordDroppedCronItems(
+  items: readonly QueueItem[],
+  reason: string,
+): void {
+  for (const item of items) {
+    if (item.kind !== "cron_prompt" || !item.cronRunId) continue;
+    if (runsBeingEnqueued.has(item.cronRunId)) {
+      runsBeingEnqueued.set(item.cronRunId, reason);
+      continue;
+    }
+    try {
+      recordCronRunCompleted(item.cronRunId, item.cronTaskId, {
+        success: false,
+        error: `Dropped from the queue (${reason})`,
+      });
+    } catch (err) {
+      console.error(
+        `[Cron] Failed to record dropped run for ${item.cronTaskId}:`,
+        err,
+      );
+    }
+  }
+}
+
+/** Cron runs whose turn stopped for approval, by conversation. */
+const runsAwaitingApproval = new Map<
+  string,
+  Array<{ recordId: string; taskId: string }>
+>();
+
+function conversationKey(agentId?: string, conversationId?: string): string {
+  return `${agentId ?? ""}:${conversationId ?? "default"}`;
+}
+
+/**
+ * Record the outcome of a dequeued batch for any cron prompts it carried.
+ * Called by the listener after the batch's turn finishes. A turn that stops
+ * for approval leaves its cron runs awaiting approval; the conversation's
+ * next finished turn completes them.
+ */
+export function recordCronBatchOutcome(
+  batch: DequeuedBatch,
+  outcome: {
+    stopReason: string | null;
+    runId: string | null;
+    agentId?: string;
+    conversationId?: string;
+  },
+): void {
+  const key = conversationKey(outcome.agentId, outcome.conversationId);
+  const runs = [
+    ...(runsAwaitingApproval.get(key) ?? []),
+    ...batch.items.flatMap((item) =>
+      item.kind === "cron_prompt" && item.cronRunId
+        ? [{ recordId: item.cronRunId, taskId: item.cronTaskId }]
+        : [],
+    ),
+  ];
+  runsAwaitingApproval.delete(key);
+  if (runs.length === 0) return;
+
+  if (outcome.stopReason === "requires_approval") {
+    runsAwaitingApproval.set(key, runs);
+  }
+  for (const run of runs) {
+    try {
+      if (outcome.stopReason === "requires_approval") {
+        recordCronRunAwaitingApproval(run.recordId, run.taskId, outcome.runId);
+      } else {
+        recordCronRunCompleted(run.recordId, run.taskId, {
+          success: outcome.stopReason === "end_turn",
+          runId: outcome.runId,
+          stopReason: outcome.stopReason,
+        });
+      }
+    } catch (err) {
+      console.error(
+        `[Cron] Failed to record run outcome for ${run.taskId}:`,
+        err,
+      );
+    }
+  }
+}
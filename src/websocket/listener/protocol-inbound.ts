@@ -8,6 +8,7 @@ import type {
   CronDeleteAllCommand,
   CronDeleteCommand,
   CronGetCommand,
+  CronHistoryCommand,
   CronListCommand,
   EditFileCommand,
   EnableMemfsCommand,
@@ -19,6 +20,9 @@ import type {
   ListModelsCommand,
   MemoryFileAtRefCommand,
   MemoryHistoryCommand,
+  QueueListCommand,
+  QueueRemoveCommand,
+  QueueReorderCommand,
   ReadFileCommand,
   RuntimeScope,
   SearchBranchesCommand,
@@ -483,6 +487,7 @@ export function isCronAddCommand(value: unknown): value is CronAddCommand {
     recurring?: unknown;
     prompt?: unknown;
     scheduled_for?: unknown;
+    catch_up?: unknown;
   };
   return (
     c.type === "cron_add" &&
@@ -498,7 +503,11 @@ export function isCronAddCommand(value: unknown): value is CronAddCommand {
     typeof c.prompt === "string" &&
     (c.scheduled_for === undefined ||
       c.scheduled_for === null ||
-      typeof c.scheduled_for === "string")
+      typeof c.scheduled_for === "string") &&
+    (c.catch_up === undefined ||
+      c.catch_up === "skip" ||
+      c.catch_up === "run_once" ||
+      c.catch_up === "run_all_bounded")
   );
 }
 
@@ -508,11 +517,35 @@ export function isCronGetCommand(value: unknown): value is CronGetCommand {
     type?: unknown;
     request_id?: unknown;
     task_id?: unknown;
+    next_count?: unknown;
   };
   return (
     c.type === "cron_get" &&
     typeof c.request_id === "string" &&
-    typeof c.task_id === "string"
+    typeof c.task_id === "string" &&
+    (c.next_count === undefined ||
+      (typeof c.next_count === "number" &&
+        Number.isInteger(c.next_count) &&
+        c.next_count >= 0))
+  );
+}
+
+export function isCronHistoryCommand(
+  value: unknown,
+): value is CronHistoryCommand {
+  if (!value || typeof value !== "object") return false;
+  const c = value as {
+    type?: unknown;
+    request_id?: unknown;
+    task_id?: unknown;
+    limit?: unknown;
+  };
+  return (
+    c.type === "cron_history" &&
+    typeof c.request_id === "string" &&
+    typeof c.task_id === "string" &&
+    (c.limit === undefined ||
+      (typeof c.limit === "number" && Number.isInteger(c.limit) && c.limit > 0))
   );
 }
 
@@ -709,6 +742,52 @@ export function isExecuteCommandCommand(
   );
 }
 
+export function isQueueListCommand(value: unknown): value is QueueListCommand {
+  if (!value || typeof value !== "object") return false;
+  const c = value as {
+    type?: unknown;
+    request_id?: unknown;
+    runtime?: unknown;
+  };
+  return (
+    c.type === "queue_list" &&
+    typeof c.request_id === "string" &&
+    isRuntimeScope(c.runtime)
+  );
+}
+
+function isQueueItemIdsCommand(
+  value: unknown,
+  type: "queue_remove" | "queue_reorder",
+): boolean {
+  if (!value || typeof value !== "object") return false;
+  const c = value as {
+    type?: unknown;
+    request_id?: unknown;
+    runtime?: unknown;
+    item_ids?: unknown;
+  };
+  return (
+    c.type === type &&
+    typeof c.request_id === "string" &&
+    isRuntimeScope(c.runtime) &&
+    Array.isArray(c.item_ids) &&
+    c.item_ids.every((id) => typeof id === "string")
+  );
+}
+
+export function isQueueRemoveCommand(
+  value: unknown,
+): value is QueueRemoveCommand {
+  return isQueueItemIdsCommand(value, "queue_remove");
+}
+
+export function isQueueReorderCommand(
+  value: unknown,
+): value is QueueReorderCommand {
+  return isQueueItemIdsCommand(value, "queue_reorder");
+}
+
 export function parseServerMessage(
   data: WebSocket.RawData,
 ): ParsedServerMessage | null {
@@ -738,6 +817,7 @@ export function parseServerMessage(
       isCronListCommand(parsed) ||
       isCronAddCommand(parsed) ||
       isCronGetCommand(parsed) ||
+      isCronHistoryCommand(parsed) ||
       isCronDeleteCommand(parsed) ||
       isCronDeleteAllCommand(parsed) ||
       isSkillEnableCommand(parsed) ||
@@ -747,7 +827,10 @@ export function parseServerMessage(
       isSetReflectionSettingsCommand(parsed) ||
       isExecuteCommandCommand(parsed) ||
       isSearchBranchesCommand(parsed) ||
-      isCheckoutBranchCommand(parsed)
+      isCheckoutBranchCommand(parsed) ||
+      isQueueListCommand(parsed) ||
+      isQueueRemoveCommand(parsed) ||
+      isQueueReorderCommand(parsed)
     ) {
       return parsed as WsProtocolCommand;
     }
@@ -5,8 +5,11 @@ import { getMemoryFilesystemRoot } from "../../agent/memoryFilesystem";
 import { getGitContext } from "../../cli/helpers/gitContext";
 import { getReflectionSettings } from "../../cli/helpers/memoryReminder";
 import { getSubagents } from "../../cli/helpers/subagentState";
-import { permissionMode } from "../../permissions/mode";
-import type { DequeuedBatch } from "../../queue/queueRuntime";
+import {
+  BUILTIN_PERMISSION_MODES,
+  permissionMode,
+} from "../../permissions/mode";
+import type { DequeuedBatch, QueueRuntime } from "../../queue/queueRuntime";
 import { settingsManager } from "../../settings-manager";
 import {
   backgroundProcesses,
@@ -20,6 +23,7 @@ import type {
   LoopStatus,
   LoopStatusUpdateMessage,
   QueueMessage,
+  QueueMetricsSnapshot,
   QueueUpdateMessage,
   RetryMessage,
   RuntimeScope,
@@ -127,6 +131,13 @@ export function emitRuntimeStateUpdates(
   emitDeviceStatusIfOpen(runtime, scope);
 }
 
+function getAvailablePermissionModes(): string[] {
+  return [
+    ...BUILTIN_PERMISSION_MODES,
+    ...Object.keys(permissionMode.getCustomModes()),
+  ];
+}
+
 export function buildDeviceStatus(
   runtime: RuntimeCarrier,
   params?: {
@@ -143,6 +154,7 @@ export function buildDeviceStatus(
       is_online: false,
       is_processing: false,
       current_permission_mode: permissionMode.getMode(),
+      available_permission_modes: getAvailablePermissionModes(),
       current_working_directory: fallbackCwd,
       git_context: getGitContext(fallbackCwd),
       letta_code_version: process.env.npm_package_version || null,
@@ -203,6 +215,7 @@ export function buildDeviceStatus(
     is_online: listener.socket?.readyState === WebSocket.OPEN,
     is_processing: !!conversationRuntime?.isProcessing,
     current_permission_mode: conversationPermissionModeState.mode,
+    available_permission_modes: getAvailablePermissionModes(),
     current_working_directory: resolvedCwd,
     git_context: getGitContext(resolvedCwd),
     letta_code_version: process.env.npm_package_version || null,
@@ -287,24 +300,33 @@ export function buildLoopStatus(
   };
 }
 
-export function buildQueueSnapshot(
+function getScopedQueueRuntime(
   runtime: RuntimeCarrier,
   params?: {
     agent_id?: string | null;
     conversation_id?: string | null;
   },
-): QueueMessage[] {
+): QueueRuntime | undefined {
   const listener = getListenerRuntime(runtime);
   if (!listener) {
-    return [];
+    return undefined;
   }
   const scope = getScopeForRuntime(runtime, params);
-  const conversationRuntime = getConversationRuntime(
+  return getConversationRuntime(
     listener,
     resolveScopedAgentId(listener, scope),
     resolveScopedConversationId(listener, scope),
-  );
-  return (conversationRuntime?.queueRuntime.items ?? []).map((item) => ({
+  )?.queueRuntime;
+}
+
+export function buildQueueSnapshot(
+  runtime: RuntimeCarrier,
+  params?: {
+    agent_id?: string | null;
+    conversation_id?: string | null;
+  },
+): QueueMessage[] {
+  return (getScopedQueueRuntime(runtime, params)?.items ?? []).map((item) => ({
     id: item.id,
     client_message_id: item.clientMessageId ?? `cm-${item.id}`,
     kind: item.kind,
@@ -314,6 +336,35 @@ export function buildQueueSnapshot(
   }));
 }
 
+export function buildQueueMetrics(
+  runtime: RuntimeCarrier,
+  params?: {
+    agent_id?: string | null;
+    conversation_id?: string | null;
+  },
+): QueueMetricsSnapshot | undefined {
+  const queueRuntime = getScopedQueueRuntime(runtime, params);
+  if (!queueRuntime) {
+    return undefined;
+  }
+  const metrics = queueRuntime.getMetrics();
+  const bySource: QueueMetricsSnapshot["by_source"] = {};
+  for (const [source, sourceMetrics] of Object.entries(metrics.bySource)) {
+    bySource[source as keyof QueueMetricsSnapshot["by_source"]] = {
+      pending: sourceMetrics.pending,
+      dequeued: sourceMetrics.dequeued,
+      dropped: sourceMetrics.dropped,
+      avg_wait_ms: sourceMetrics.avgWaitMs,
+      max_wait_ms: sourceMetrics.maxWaitMs,
+    };
+  }
+  return {
+    pending: metrics.pending,
+    oldest_wait_ms: metrics.oldestWaitMs,
+    by_source: bySource,
+  };
+}
+
 export function setLoopStatus(
   runtime: ConversationRuntime,
   status: LoopStatus,
@@ -464,6 +515,10 @@ export function emitQueueUpdate(
     type: "update_queue",
     queue: buildQueueSnapshot(runtime, resolvedScope),
   };
+  const metrics = buildQueueMetrics(runtime, resolvedScope);
+  if (metrics) {
+    message.metrics = metrics;
+  }
   emitProtocolV2Message(socket, runtime, message, resolvedScope);
 }
 
@@ -389,6 +389,10 @@ async function drainQueuedMessages(
         return;
       }
 
+      // Idle again: the turns that consumed earlier items have finished, so
+      // a journaled queue no longer needs to replay them
+      runtime.queueRuntime.acknowledge();
+
       const consumedQueuedTurn = consumeQueuedTurn(runtime);
       if (!consumedQueuedTurn) {
         return;
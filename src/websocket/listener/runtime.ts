@@ -163,6 +163,7 @@ export function createConversationRuntime(
     pendingApprovalResolvers: new Map(),
     recoveredApprovalState: null,
     lastStopReason: null,
+    lastRunId: null,
     isProcessing: false,
     activeWorkingDirectory: null,
     activeRunId: null,
@@ -1073,6 +1073,7 @@ export async function handleIncomingMessage(
       conversation_id: conversationId,
     });
 
+    runtime.lastRunId = msgRunIds[msgRunIds.length - 1] ?? null;
     runtime.activeAbortController = null;
     runtime.cancelRequested = false;
     runtime.isRecoveringApprovals = false;
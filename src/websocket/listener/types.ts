@@ -8,6 +8,7 @@ import type {
 import type { ContextTracker } from "../../cli/helpers/contextTracker";
 import type { ApprovalRequest } from "../../cli/helpers/stream";
 import type { ApprovalContext } from "../../permissions/analyzer";
+import type { PermissionMode } from "../../permissions/mode";
 import type {
   DequeuedBatch,
   QueueBlockedReason,
@@ -48,6 +49,8 @@ export interface StartListenerOptions {
     label: "client" | "protocol" | "control" | "lifecycle",
     event: unknown,
   ) => void;
+  /** Journal each conversation's queue to disk so it survives restarts. */
+  persistQueue?: boolean;
 }
 
 export interface IncomingMessage {
@@ -60,7 +63,7 @@ export interface IncomingMessage {
 }
 
 export interface ModeChangePayload {
-  mode: "default" | "acceptEdits" | "plan" | "memory" | "bypassPermissions";
+  mode: PermissionMode;
 }
 
 export interface ChangeCwdMessage {
@@ -114,6 +117,8 @@ export type ConversationRuntime = {
   pendingApprovalResolvers: Map<string, PendingApprovalResolver>;
   recoveredApprovalState: RecoveredApprovalState | null;
   lastStopReason: string | null;
+  /** Last run ID seen by the most recent turn (null if none was reported). */
+  lastRunId: string | null;
   isProcessing: boolean;
   activeWorkingDirectory: string | null;
   activeRunId: string | null;
@@ -180,6 +185,8 @@ export type ListenerRuntime = {
   queuedSystemPromptRecompileByConversation: Set<string>;
   connectionId: string | null;
   connectionName: string | null;
+  /** Directory of the on-disk queue journals; unset when queues are in-memory only. */
+  queueJournalDir?: string | null;
   conversationRuntimes: Map<string, ConversationRuntime>;
   approvalRuntimeKeyByRequestId: Map<string, string>;
   /** Agent IDs whose memfs repo has been cloned/pulled this session. Concurrent callers coalesce on the same promise. */